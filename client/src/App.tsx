@@ -1,5 +1,5 @@
 import { Switch, Route, useLocation, Redirect } from "wouter";
-import { queryClient } from "./lib/queryClient";
+import { queryClient, fetchSession } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
@@ -10,6 +10,7 @@ import { TopBar } from "@/components/TopBar";
 import { AssistantPanel } from "@/components/AssistantPanel";
 import Dashboard from "@/pages/Dashboard";
 import Sales from "@/pages/Sales";
+import SalesAnalytics from "@/pages/SalesAnalytics";
 import Projects from "@/pages/Projects";
 import ProjectDetailPage from "@/pages/ProjectDetailPage";
 import Production from "@/pages/Production";
@@ -31,6 +32,8 @@ import Settings from "@/pages/Settings";
 import ProcessTemplates from "@/pages/ProcessTemplates";
 import Telephony from "@/pages/Telephony";
 import Login from "@/pages/Login";
+import { ChangePasswordDialog } from "@/components/ChangePasswordDialog";
+import { TwoFactorDialog } from "@/components/TwoFactorDialog";
 import NotFound from "@/pages/not-found";
 import { useEffect, useState } from "react";
 
@@ -38,6 +41,7 @@ function Router() {
   return (
     <Switch>
       <Route path="/" component={Dashboard} />
+      <Route path="/sales/analytics" component={SalesAnalytics} />
       <Route path="/sales" component={Sales} />
       <Route path="/projects/:id" component={ProjectDetailPage} />
       <Route path="/projects" component={Projects} />
@@ -147,23 +151,34 @@ function App() {
   const [location, setLocation] = useLocation();
   const [isAuthenticated, setIsAuthenticated] = useState<boolean>(false);
   const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [mustChangePassword, setMustChangePassword] = useState<boolean>(false);
+  const [twoFactorSetupRequired, setTwoFactorSetupRequired] = useState<boolean>(false);
 
   useEffect(() => {
-    // Проверяем авторизацию при загрузке
-    const user = localStorage.getItem("user");
+    // Проверяем сессию на сервере при загрузке
+    let cancelled = false;
+
+    fetchSession()
+      .catch(() => null)
+      .then((session) => {
+        if (cancelled) return;
+        setIsAuthenticated(!!session);
+        setMustChangePassword(!!session?.user?.must_change_password);
+        setTwoFactorSetupRequired(!!session?.user?.two_factor_setup_required);
+        setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
 
-    if (user) {
-      setIsAuthenticated(true);
-    } else {
-      setIsAuthenticated(false);
-      // Если не на странице логина, перенаправляем на неё
-      if (location !== "/login") {
-        setLocation("/login");
-      }
+  useEffect(() => {
+    // Если не авторизован и не на странице логина, перенаправляем на неё
+    if (!isLoading && !isAuthenticated && location !== "/login") {
+      setLocation("/login");
     }
-
-    setIsLoading(false);
-  }, [location, setLocation]);
+  }, [isLoading, isAuthenticated, location, setLocation]);
 
   const style = {
     "--sidebar-width": "20rem",
@@ -207,6 +222,18 @@ function App() {
           <SidebarProvider defaultOpen={true} style={style as React.CSSProperties}>
             <AppContent />
           </SidebarProvider>
+          <ChangePasswordDialog
+            open={mustChangePassword}
+            onOpenChange={() => {}}
+            forced
+            onChanged={() => window.location.reload()}
+          />
+          <TwoFactorDialog
+            open={!mustChangePassword && twoFactorSetupRequired}
+            onOpenChange={() => {}}
+            forced
+            onEnabled={() => window.location.reload()}
+          />
         </LightboxProvider>
         <Toaster />
       </TooltipProvider>
@@ -376,7 +376,6 @@ export function AssistantPanel({ isOpen, onClose, isMinimized, onMinimize }: Ass
         method: "POST",
         headers: {
           "Content-Type": "application/json",
-          "X-User-Id": userId
         },
         body: JSON.stringify({
           userId,
@@ -0,0 +1,259 @@
+import { Fragment, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ChevronDown, ChevronRight, Download } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { format } from "date-fns";
+import { ru } from "date-fns/locale";
+
+interface AuditEntry {
+  id: string;
+  user_id: string | null;
+  user_name: string | null;
+  api_key_name: string | null;
+  action: string;
+  entity_type: string;
+  entity_id: string;
+  success: boolean;
+  reason: string | null;
+  request_path: string | null;
+  changes: Record<string, { from: unknown; to: unknown }> | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  created_at: string;
+}
+
+interface AuditLogResponse {
+  items: AuditEntry[];
+  total: number;
+}
+
+const PAGE_SIZE = 50;
+
+const ACTION_LABELS: Record<string, string> = {
+  create: "Создание",
+  edit: "Изменение",
+  delete: "Удаление",
+  view: "Просмотр",
+};
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+export function AuditLogViewer() {
+  const [filters, setFilters] = useState({ user_id: "", entity_type: "", entity_id: "", from: "", to: "" });
+  const [page, setPage] = useState(0);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const buildQuery = () => {
+    const params = new URLSearchParams();
+    if (filters.user_id) params.set("user_id", filters.user_id);
+    if (filters.entity_type) params.set("entity_type", filters.entity_type);
+    if (filters.entity_id) params.set("entity_id", filters.entity_id);
+    if (filters.from) params.set("from", new Date(filters.from).toISOString());
+    // Конец выбранного дня включительно
+    if (filters.to) params.set("to", new Date(`${filters.to}T23:59:59.999`).toISOString());
+    return params;
+  };
+
+  const { data: users = [] } = useQuery<Array<{ id: string; full_name: string | null; username: string }>>({
+    queryKey: ["/api/users"],
+  });
+
+  const { data, isLoading } = useQuery<AuditLogResponse>({
+    queryKey: ["/api/audit-log", filters, page],
+    queryFn: async () => {
+      const params = buildQuery();
+      params.set("limit", String(PAGE_SIZE));
+      params.set("offset", String(page * PAGE_SIZE));
+      return await apiRequest("GET", `/api/audit-log?${params.toString()}`);
+    },
+  });
+
+  const updateFilter = (key: keyof typeof filters, value: string) => {
+    setFilters({ ...filters, [key]: value });
+    setPage(0);
+  };
+
+  const handleExport = () => {
+    window.open(`/api/audit-log/export?${buildQuery().toString()}`, "_blank");
+  };
+
+  const total = data?.total || 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-4">
+        <CardTitle className="text-lg">Журнал изменений</CardTitle>
+        <Button variant="outline" size="sm" onClick={handleExport} data-testid="button-export-audit-log">
+          <Download className="h-4 w-4 mr-2" />
+          Экспорт CSV
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+          <div className="space-y-1">
+            <Label>Пользователь</Label>
+            <Select
+              value={filters.user_id || "all"}
+              onValueChange={(value) => updateFilter("user_id", value === "all" ? "" : value)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Все</SelectItem>
+                {users.map((user) => (
+                  <SelectItem key={user.id} value={user.id}>
+                    {user.full_name || user.username}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Тип сущности</Label>
+            <Input
+              value={filters.entity_type}
+              onChange={(e) => updateFilter("entity_type", e.target.value)}
+              placeholder="deal, project..."
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>ID сущности</Label>
+            <Input
+              value={filters.entity_id}
+              onChange={(e) => updateFilter("entity_id", e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>С даты</Label>
+            <Input type="date" value={filters.from} onChange={(e) => updateFilter("from", e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label>По дату</Label>
+            <Input type="date" value={filters.to} onChange={(e) => updateFilter("to", e.target.value)} />
+          </div>
+        </div>
+
+        {isLoading ? (
+          <Skeleton className="h-64" />
+        ) : !data || data.items.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">Записей нет</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8" />
+                <TableHead>Дата</TableHead>
+                <TableHead>Пользователь</TableHead>
+                <TableHead>Действие</TableHead>
+                <TableHead>Сущность</TableHead>
+                <TableHead>IP</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.items.map((entry) => {
+                const changes = Object.entries(entry.changes || {});
+                const isExpanded = expandedId === entry.id;
+
+                return (
+                  <Fragment key={entry.id}>
+                    <TableRow
+                      className="cursor-pointer"
+                      onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                      data-testid={`audit-entry-${entry.id}`}
+                    >
+                      <TableCell>
+                        {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap text-xs">
+                        {format(new Date(entry.created_at), "dd.MM.yyyy HH:mm:ss", { locale: ru })}
+                      </TableCell>
+                      <TableCell>
+                        {entry.user_name || "—"}
+                        {entry.api_key_name && (
+                          <span className="block text-xs text-muted-foreground">ключ «{entry.api_key_name}»</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={entry.success ? "secondary" : "destructive"}>
+                          {ACTION_LABELS[entry.action] || entry.action}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {entry.entity_type}
+                        {entry.entity_id && <span className="text-muted-foreground"> · {entry.entity_id}</span>}
+                      </TableCell>
+                      <TableCell className="text-xs">{entry.ip_address || "—"}</TableCell>
+                    </TableRow>
+                    {isExpanded && (
+                      <TableRow>
+                        <TableCell />
+                        <TableCell colSpan={5} className="space-y-2 text-xs">
+                          {entry.request_path && <p className="font-mono">{entry.request_path}</p>}
+                          {entry.reason && <p className="text-destructive">{entry.reason}</p>}
+                          {changes.length === 0 ? (
+                            <p className="text-muted-foreground">Нет изменённых полей</p>
+                          ) : (
+                            <div className="space-y-1">
+                              {changes.map(([field, change]) => (
+                                <div key={field} className="grid grid-cols-3 gap-2">
+                                  <span className="font-medium">{field}</span>
+                                  <span className="text-muted-foreground line-through break-all">{formatValue(change.from)}</span>
+                                  <span className="break-all">{formatValue(change.to)}</span>
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                          {entry.user_agent && <p className="text-muted-foreground">{entry.user_agent}</p>}
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-muted-foreground">Всего записей: {total}</span>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" disabled={page === 0} onClick={() => setPage(page - 1)}>
+              Назад
+            </Button>
+            <span>{page + 1} / {pageCount}</span>
+            <Button variant="outline" size="sm" disabled={page + 1 >= pageCount} onClick={() => setPage(page + 1)}>
+              Вперёд
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,507 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Plus, Trash2, Edit } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { CatalogItem, CatalogItemKind, PriceList } from "@shared/schema";
+
+type CatalogItemWithPrices = CatalogItem & { prices: { price_list_id: string; price: number }[] };
+
+const KIND_LABELS: Record<CatalogItemKind, string> = {
+  product: "Товар",
+  service: "Услуга",
+};
+
+const UNITS = ["шт", "м²", "м.п.", "м", "кг", "л", "уп", "услуга"];
+
+function formatMoney(value: number) {
+  return `${value.toLocaleString("ru-RU", { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ₽`;
+}
+
+export function CatalogManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [search, setSearch] = useState("");
+
+  const [priceListDialogOpen, setPriceListDialogOpen] = useState(false);
+  const [editingPriceList, setEditingPriceList] = useState<PriceList | null>(null);
+  const [priceListName, setPriceListName] = useState("");
+  const [priceListDefault, setPriceListDefault] = useState(false);
+
+  const [itemDialogOpen, setItemDialogOpen] = useState(false);
+  const [editingItem, setEditingItem] = useState<CatalogItemWithPrices | null>(null);
+  const [itemKind, setItemKind] = useState<CatalogItemKind>("product");
+  const [itemName, setItemName] = useState("");
+  const [itemSku, setItemSku] = useState("");
+  const [itemCategory, setItemCategory] = useState("");
+  const [itemUnit, setItemUnit] = useState("шт");
+  const [itemDescription, setItemDescription] = useState("");
+  // price_list_id → цена строкой из поля ввода; пустое поле — позиции нет в прайс-листе
+  const [itemPrices, setItemPrices] = useState<Record<string, string>>({});
+
+  const { data: priceLists = [], isLoading: priceListsLoading } = useQuery<PriceList[]>({
+    queryKey: ["/api/catalog/price-lists"],
+  });
+
+  const { data: items = [], isLoading: itemsLoading } = useQuery<CatalogItemWithPrices[]>({
+    queryKey: ["/api/catalog/items"],
+  });
+
+  const showError = (error: Error) => {
+    toast({
+      title: "Ошибка",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const invalidatePriceLists = () => queryClient.invalidateQueries({ queryKey: ["/api/catalog/price-lists"] });
+  const invalidateItems = () => queryClient.invalidateQueries({
+    predicate: (query) => String(query.queryKey[0]).startsWith("/api/catalog/items"),
+  });
+
+  const savePriceListMutation = useMutation({
+    mutationFn: async () => {
+      const payload = { name: priceListName.trim(), is_default: priceListDefault };
+      return editingPriceList
+        ? await apiRequest("PUT", `/api/catalog/price-lists/${editingPriceList.id}`, payload)
+        : await apiRequest("POST", "/api/catalog/price-lists", payload);
+    },
+    onSuccess: () => {
+      invalidatePriceLists();
+      setPriceListDialogOpen(false);
+      toast({ description: editingPriceList ? "Прайс-лист сохранён" : "Прайс-лист создан" });
+    },
+    onError: showError,
+  });
+
+  const togglePriceListMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      return await apiRequest("PUT", `/api/catalog/price-lists/${id}`, { is_active: isActive });
+    },
+    onSuccess: invalidatePriceLists,
+    onError: showError,
+  });
+
+  const deletePriceListMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/catalog/price-lists/${id}`);
+    },
+    onSuccess: () => {
+      invalidatePriceLists();
+      invalidateItems();
+      toast({ description: "Прайс-лист удалён" });
+    },
+    onError: showError,
+  });
+
+  const saveItemMutation = useMutation({
+    mutationFn: async () => {
+      const payload = {
+        kind: itemKind,
+        name: itemName.trim(),
+        sku: itemSku.trim() || null,
+        category: itemCategory.trim() || null,
+        unit: itemUnit,
+        description: itemDescription.trim() || null,
+        prices: Object.entries(itemPrices)
+          .filter(([, price]) => price.trim() !== "")
+          .map(([price_list_id, price]) => ({ price_list_id, price: Number(price) })),
+      };
+      return editingItem
+        ? await apiRequest("PUT", `/api/catalog/items/${editingItem.id}`, payload)
+        : await apiRequest("POST", "/api/catalog/items", payload);
+    },
+    onSuccess: () => {
+      invalidateItems();
+      setItemDialogOpen(false);
+      toast({ description: editingItem ? "Позиция сохранена" : "Позиция добавлена в каталог" });
+    },
+    onError: showError,
+  });
+
+  const toggleItemMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      return await apiRequest("PUT", `/api/catalog/items/${id}`, { is_active: isActive });
+    },
+    onSuccess: invalidateItems,
+    onError: showError,
+  });
+
+  const deleteItemMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/catalog/items/${id}`);
+    },
+    onSuccess: () => {
+      invalidateItems();
+      toast({ description: "Позиция удалена" });
+    },
+    onError: showError,
+  });
+
+  const openPriceListDialog = (priceList?: PriceList) => {
+    setEditingPriceList(priceList || null);
+    setPriceListName(priceList?.name || "");
+    setPriceListDefault(priceList ? priceList.is_default : priceLists.length === 0);
+    setPriceListDialogOpen(true);
+  };
+
+  const openItemDialog = (item?: CatalogItemWithPrices) => {
+    setEditingItem(item || null);
+    setItemKind((item?.kind as CatalogItemKind) || "product");
+    setItemName(item?.name || "");
+    setItemSku(item?.sku || "");
+    setItemCategory(item?.category || "");
+    setItemUnit(item?.unit || "шт");
+    setItemDescription(item?.description || "");
+    setItemPrices(Object.fromEntries((item?.prices || []).map((price) => [price.price_list_id, String(price.price)])));
+    setItemDialogOpen(true);
+  };
+
+  const activePriceLists = priceLists.filter((list) => list.is_active);
+
+  const query = search.trim().toLowerCase();
+  const filteredItems = query
+    ? items.filter((item) =>
+        [item.name, item.sku, item.category].some((value) => value?.toLowerCase().includes(query)))
+    : items;
+
+  const itemPrice = (item: CatalogItemWithPrices, priceListId: string) =>
+    item.prices.find((price) => price.price_list_id === priceListId)?.price;
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div>
+            <CardTitle>Прайс-листы</CardTitle>
+            <CardDescription>
+              Цены каталога для КП и счетов. Прайс-лист по умолчанию подставляется в новые документы.
+            </CardDescription>
+          </div>
+          <Button onClick={() => openPriceListDialog()} data-testid="button-create-price-list">
+            <Plus className="h-4 w-4 mr-2" />
+            Прайс-лист
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {priceListsLoading ? (
+            <Skeleton className="h-20" />
+          ) : priceLists.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">Прайс-листов пока нет</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Название</TableHead>
+                  <TableHead className="w-32">Активен</TableHead>
+                  <TableHead className="w-24"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {priceLists.map((priceList) => (
+                  <TableRow key={priceList.id} data-testid={`price-list-${priceList.id}`}>
+                    <TableCell>
+                      {priceList.name}
+                      {priceList.is_default && <Badge variant="secondary" className="ml-2">По умолчанию</Badge>}
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={priceList.is_active}
+                        onCheckedChange={(checked) => togglePriceListMutation.mutate({ id: priceList.id, isActive: checked })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="icon" onClick={() => openPriceListDialog(priceList)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => {
+                            if (confirm(`Удалить прайс-лист «${priceList.name}» вместе с его ценами? Готовые документы не изменятся.`)) {
+                              deletePriceListMutation.mutate(priceList.id);
+                            }
+                          }}
+                        >
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div>
+            <CardTitle>Товары и услуги</CardTitle>
+            <CardDescription>
+              Позиции из каталога добавляются в КП кнопкой «Из каталога», цена берётся из прайс-листа документа.
+            </CardDescription>
+          </div>
+          <Button onClick={() => openItemDialog()} data-testid="button-create-catalog-item">
+            <Plus className="h-4 w-4 mr-2" />
+            Позиция
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Поиск по названию, артикулу, категории"
+            data-testid="input-catalog-search"
+          />
+          {itemsLoading ? (
+            <Skeleton className="h-32" />
+          ) : filteredItems.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              {items.length === 0 ? "Каталог пуст" : "Ничего не найдено"}
+            </p>
+          ) : (
+            <div className="border rounded-md overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Название</TableHead>
+                    <TableHead>Артикул</TableHead>
+                    <TableHead>Категория</TableHead>
+                    <TableHead>Тип</TableHead>
+                    <TableHead>Ед.</TableHead>
+                    {activePriceLists.map((list) => (
+                      <TableHead key={list.id} className="text-right">{list.name}</TableHead>
+                    ))}
+                    <TableHead className="w-20">Активна</TableHead>
+                    <TableHead className="w-24"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredItems.map((item) => (
+                    <TableRow key={item.id} data-testid={`catalog-item-${item.id}`}>
+                      <TableCell className="font-medium">{item.name}</TableCell>
+                      <TableCell>{item.sku || "—"}</TableCell>
+                      <TableCell>{item.category || "—"}</TableCell>
+                      <TableCell>{KIND_LABELS[item.kind as CatalogItemKind] || item.kind}</TableCell>
+                      <TableCell>{item.unit}</TableCell>
+                      {activePriceLists.map((list) => {
+                        const price = itemPrice(item, list.id);
+                        return (
+                          <TableCell key={list.id} className="text-right whitespace-nowrap">
+                            {price == null ? "—" : formatMoney(price)}
+                          </TableCell>
+                        );
+                      })}
+                      <TableCell>
+                        <Switch
+                          checked={item.is_active}
+                          onCheckedChange={(checked) => toggleItemMutation.mutate({ id: item.id, isActive: checked })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex justify-end gap-1">
+                          <Button variant="ghost" size="icon" onClick={() => openItemDialog(item)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => {
+                              if (confirm(`Удалить «${item.name}» из каталога? В готовых КП позиция останется.`)) {
+                                deleteItemMutation.mutate(item.id);
+                              }
+                            }}
+                          >
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={priceListDialogOpen} onOpenChange={setPriceListDialogOpen}>
+        <DialogContent className="sm:max-w-[420px]">
+          <DialogHeader>
+            <DialogTitle>{editingPriceList ? "Прайс-лист" : "Новый прайс-лист"}</DialogTitle>
+            <DialogDescription>Например, «Розница» или «Дилерский».</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="price-list-name">Название</Label>
+              <Input
+                id="price-list-name"
+                value={priceListName}
+                onChange={(e) => setPriceListName(e.target.value)}
+                placeholder="Розница"
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="price-list-default"
+                checked={priceListDefault}
+                onCheckedChange={(checked) => setPriceListDefault(checked === true)}
+              />
+              <Label htmlFor="price-list-default">По умолчанию для новых документов</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPriceListDialogOpen(false)} disabled={savePriceListMutation.isPending}>
+              Отмена
+            </Button>
+            <Button
+              onClick={() => savePriceListMutation.mutate()}
+              disabled={!priceListName.trim() || savePriceListMutation.isPending}
+            >
+              Сохранить
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={itemDialogOpen} onOpenChange={setItemDialogOpen}>
+        <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingItem ? "Позиция каталога" : "Новая позиция"}</DialogTitle>
+            <DialogDescription>Цены указываются отдельно для каждого прайс-листа.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Тип</Label>
+                <Select
+                  value={itemKind}
+                  onValueChange={(value) => {
+                    setItemKind(value as CatalogItemKind);
+                    if (value === "service") setItemUnit("услуга");
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(KIND_LABELS) as CatalogItemKind[]).map((kind) => (
+                      <SelectItem key={kind} value={kind}>{KIND_LABELS[kind]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Единица</Label>
+                <Select value={itemUnit} onValueChange={setItemUnit}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {UNITS.map((unit) => (
+                      <SelectItem key={unit} value={unit}>{unit}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="catalog-item-name">Название</Label>
+              <Input id="catalog-item-name" value={itemName} onChange={(e) => setItemName(e.target.value)} />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="catalog-item-sku">Артикул</Label>
+                <Input id="catalog-item-sku" value={itemSku} onChange={(e) => setItemSku(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="catalog-item-category">Категория</Label>
+                <Input
+                  id="catalog-item-category"
+                  value={itemCategory}
+                  onChange={(e) => setItemCategory(e.target.value)}
+                  placeholder="Кухни, фасады, доставка..."
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="catalog-item-description">Описание для КП</Label>
+              <Textarea
+                id="catalog-item-description"
+                value={itemDescription}
+                onChange={(e) => setItemDescription(e.target.value)}
+                rows={2}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Цены</Label>
+              {priceLists.length === 0 ? (
+                <p className="text-xs text-muted-foreground">Сначала создайте прайс-лист</p>
+              ) : (
+                priceLists.map((list) => (
+                  <div key={list.id} className="flex items-center gap-3">
+                    <span className="text-sm flex-1">{list.name}</span>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      className="w-40"
+                      value={itemPrices[list.id] ?? ""}
+                      onChange={(e) => setItemPrices({ ...itemPrices, [list.id]: e.target.value })}
+                      placeholder="Нет в прайсе"
+                    />
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setItemDialogOpen(false)} disabled={saveItemMutation.isPending}>
+              Отмена
+            </Button>
+            <Button onClick={() => saveItemMutation.mutate()} disabled={!itemName.trim() || saveItemMutation.isPending}>
+              Сохранить
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
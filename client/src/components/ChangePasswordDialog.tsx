@@ -0,0 +1,142 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, setSession, type SessionData } from "@/lib/queryClient";
+
+interface ChangePasswordDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Принудительная смена после сброса администратором: диалог нельзя закрыть
+  forced?: boolean;
+  onChanged?: (session: SessionData) => void;
+}
+
+export function ChangePasswordDialog({ open, onOpenChange, forced = false, onChanged }: ChangePasswordDialogProps) {
+  const { toast } = useToast();
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+
+  const resetForm = () => {
+    setCurrentPassword("");
+    setNewPassword("");
+    setConfirmPassword("");
+  };
+
+  const changePasswordMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest<SessionData>("POST", "/api/auth/change-password", {
+        current_password: currentPassword,
+        new_password: newPassword,
+      });
+    },
+    onSuccess: (data) => {
+      setSession(data);
+      resetForm();
+      toast({ description: "Пароль изменён" });
+      onChanged?.(data);
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Ошибка",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (newPassword !== confirmPassword) {
+      toast({ description: "Пароли не совпадают", variant: "destructive" });
+      return;
+    }
+
+    changePasswordMutation.mutate();
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    if (forced) return;
+    if (!value) resetForm();
+    onOpenChange(value);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent
+        className="max-w-md"
+        onEscapeKeyDown={(e) => forced && e.preventDefault()}
+        onPointerDownOutside={(e) => forced && e.preventDefault()}
+      >
+        <DialogHeader>
+          <DialogTitle>Смена пароля</DialogTitle>
+          <DialogDescription>
+            {forced
+              ? "Администратор сбросил ваш пароль. Задайте новый пароль, чтобы продолжить работу."
+              : "После смены пароля остальные сеансы будут завершены."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="current-password">{forced ? "Временный пароль" : "Текущий пароль"}</Label>
+            <Input
+              id="current-password"
+              type="password"
+              value={currentPassword}
+              onChange={(e) => setCurrentPassword(e.target.value)}
+              autoComplete="current-password"
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="new-password">Новый пароль</Label>
+            <Input
+              id="new-password"
+              type="password"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              autoComplete="new-password"
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="confirm-password">Повторите новый пароль</Label>
+            <Input
+              id="confirm-password"
+              type="password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              autoComplete="new-password"
+              required
+            />
+          </div>
+
+          <DialogFooter>
+            {!forced && (
+              <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+                Отмена
+              </Button>
+            )}
+            <Button type="submit" disabled={changePasswordMutation.isPending} data-testid="button-change-password">
+              {changePasswordMutation.isPending ? "Сохранение..." : "Сменить пароль"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -27,9 +27,6 @@ export function ChatInput({ onSend, disabled = false, placeholder = "Введи
 
     const response = await fetch('/api/objects/upload', {
       method: 'POST',
-      headers: {
-        'x-user-id': userId || '',
-      },
       body: formData,
     });
 
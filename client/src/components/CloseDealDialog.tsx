@@ -0,0 +1,173 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { parseStageGateError } from "@/lib/stageGates";
+import { StageGateConditions } from "@/components/StageGateConditions";
+import type { Deal, DealOutcome, LossReason } from "@shared/schema";
+import type { StageGateBlocked } from "@shared/stageGates";
+
+interface CloseDealDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  dealId: string | null;
+  dealName?: string;
+  outcome: DealOutcome;
+}
+
+// Закрытие сделки: выигрыш — подтверждение, проигрыш — причина из справочника, конкурент и комментарий
+export function CloseDealDialog({ open, onOpenChange, dealId, dealName, outcome }: CloseDealDialogProps) {
+  const { toast } = useToast();
+  const [lossReasonId, setLossReasonId] = useState("");
+  const [competitor, setCompetitor] = useState("");
+  const [comment, setComment] = useState("");
+  const [stageGate, setStageGate] = useState<StageGateBlocked | null>(null);
+
+  const { data: lossReasons = [] } = useQuery<LossReason[]>({
+    queryKey: ["/api/loss-reasons"],
+    enabled: open && outcome === "lost",
+  });
+  const activeReasons = lossReasons.filter((reason) => reason.is_active);
+
+  useEffect(() => {
+    if (open) {
+      setLossReasonId("");
+      setCompetitor("");
+      setComment("");
+      setStageGate(null);
+    }
+  }, [open, dealId]);
+
+  const closeDeal = useMutation({
+    mutationFn: async () => {
+      return await apiRequest<Deal>("POST", `/api/deals/${dealId}/close`, {
+        outcome,
+        loss_reason_id: outcome === "lost" ? lossReasonId : null,
+        competitor: competitor || null,
+        comment: comment || null,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/deals"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/deals", dealId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/activity-logs", "deal", dealId] });
+      onOpenChange(false);
+      toast({
+        title: outcome === "won" ? "Сделка выиграна" : "Сделка проиграна",
+        description: outcome === "won"
+          ? "Сделка закрыта как выигранная"
+          : "Сделка скрыта с доски; её можно найти поиском и вернуть в работу",
+      });
+    },
+    onError: (error: any) => {
+      const gate = parseStageGateError(error);
+      setStageGate(gate);
+      toast({
+        title: "Ошибка",
+        description: gate ? "Не выполнены условия перехода в этап" : error.message || "Не удалось закрыть сделку",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const canSubmit = outcome === "won" || !!lossReasonId;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]" data-testid="dialog-close-deal">
+        <DialogHeader>
+          <DialogTitle>{outcome === "won" ? "Сделка выиграна" : "Сделка проиграна"}</DialogTitle>
+          <DialogDescription>
+            {dealName && <span className="font-semibold">{dealName}. </span>}
+            {outcome === "won"
+              ? "Сделка будет закрыта и перенесена в этап «Выиграна», если он есть в воронке."
+              : "Сделка пропадёт с активной доски, но останется в поиске и её можно будет вернуть в работу."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {outcome === "lost" && (
+          <div className="space-y-3">
+            <div className="space-y-1.5">
+              <Label>Причина проигрыша *</Label>
+              <Select value={lossReasonId} onValueChange={setLossReasonId}>
+                <SelectTrigger data-testid="select-loss-reason">
+                  <SelectValue placeholder="Выберите причину" />
+                </SelectTrigger>
+                <SelectContent>
+                  {activeReasons.map((reason) => (
+                    <SelectItem key={reason.id} value={reason.id}>{reason.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {activeReasons.length === 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Справочник причин пуст — добавьте причины в разделе «Продажи» → «Причины проигрыша»
+                </p>
+              )}
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="loss-competitor">Конкурент</Label>
+              <Input
+                id="loss-competitor"
+                value={competitor}
+                onChange={(e) => setCompetitor(e.target.value)}
+                placeholder="Кому ушла сделка"
+                data-testid="input-loss-competitor"
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="loss-comment">Комментарий</Label>
+              <Textarea
+                id="loss-comment"
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                rows={3}
+                data-testid="input-loss-comment"
+              />
+            </div>
+          </div>
+        )}
+
+        {stageGate && (
+          <div className="p-2 rounded border border-destructive/40 bg-destructive/5 text-xs" data-testid="close-deal-gate-unmet">
+            <p className="font-medium mb-1">Чтобы закрыть сделку, нужно:</p>
+            <StageGateConditions unmet={stageGate.unmet} />
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={closeDeal.isPending}>
+            Отмена
+          </Button>
+          <Button
+            onClick={() => closeDeal.mutate()}
+            disabled={!canSubmit || closeDeal.isPending}
+            variant={outcome === "lost" ? "destructive" : "default"}
+            data-testid="button-confirm-close-deal"
+          >
+            {closeDeal.isPending ? "Сохранение..." : outcome === "won" ? "Закрыть как выигранную" : "Закрыть как проигранную"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,215 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Paperclip, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Mailbox, MailMessage } from "@shared/schema";
+
+type PublicMailbox = Omit<Mailbox, "password">;
+
+interface UploadedFile {
+  file_path: string;
+  file_name: string;
+  file_size: number;
+  mime_type: string;
+}
+
+interface ComposeMailDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  mailboxes: PublicMailbox[];
+  replyTo?: MailMessage | null;
+  dealId?: string | null;
+  projectId?: string | null;
+  defaultTo?: string | null;
+}
+
+function splitAddresses(value: string): string[] {
+  return value.split(/[,;\s]+/).map((address) => address.trim()).filter(Boolean);
+}
+
+function replySubject(subject: string | null): string {
+  if (!subject) return "Re:";
+  return /^re:/i.test(subject) ? subject : `Re: ${subject}`;
+}
+
+// Новое письмо или ответ; письмо из карточки сделки/проекта привязывается к ней
+export function ComposeMailDialog({ open, onOpenChange, mailboxes, replyTo, dealId, projectId, defaultTo }: ComposeMailDialogProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [mailboxId, setMailboxId] = useState("");
+  const [to, setTo] = useState("");
+  const [cc, setCc] = useState("");
+  const [subject, setSubject] = useState("");
+  const [text, setText] = useState("");
+  const [files, setFiles] = useState<UploadedFile[]>([]);
+  const [uploading, setUploading] = useState(false);
+
+  const activeMailboxes = mailboxes.filter((mailbox) => mailbox.is_active);
+
+  useEffect(() => {
+    if (!open) return;
+    setMailboxId(replyTo?.mailbox_id || activeMailboxes[0]?.id || "");
+    setTo(replyTo ? (replyTo.direction === "incoming" ? replyTo.from_address : replyTo.to_addresses) : defaultTo || "");
+    setCc("");
+    setSubject(replyTo ? replySubject(replyTo.subject) : "");
+    setText("");
+    setFiles([]);
+  }, [open, replyTo?.id]);
+
+  const handleFiles = async (selected: FileList | null) => {
+    if (!selected || selected.length === 0) return;
+    setUploading(true);
+    try {
+      for (const file of Array.from(selected)) {
+        const formData = new FormData();
+        formData.append("file", file);
+        const response = await fetch("/api/objects/upload", {
+          method: "POST",
+          body: formData,
+          credentials: "include",
+        });
+        if (!response.ok) {
+          const error = await response.json().catch(() => ({}));
+          throw new Error(error.error || "Ошибка загрузки файла");
+        }
+        const result = await response.json();
+        setFiles((current) => [...current, {
+          file_path: result.objectPath,
+          file_name: result.fileName,
+          file_size: result.fileSize,
+          mime_type: result.mimeType,
+        }]);
+      }
+    } catch (error: any) {
+      toast({ title: "Ошибка", description: error.message, variant: "destructive" });
+    } finally {
+      setUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  const sendMail = useMutation({
+    mutationFn: async () => {
+      return await apiRequest<MailMessage>("POST", "/api/mail/send", {
+        mailbox_id: mailboxId,
+        to: splitAddresses(to),
+        cc: splitAddresses(cc),
+        subject,
+        text,
+        reply_to_id: replyTo?.id || null,
+        deal_id: dealId || null,
+        project_id: projectId || null,
+        attachments: files.map((file) => ({ object_path: file.file_path, file_name: file.file_name, mime_type: file.mime_type })),
+      });
+    },
+    onSuccess: (message) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/mail/messages"] });
+      if (message.deal_id) {
+        queryClient.invalidateQueries({ queryKey: ["/api/deals", message.deal_id, "messages"] });
+      }
+      onOpenChange(false);
+      toast({ description: "Письмо отправлено" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Ошибка", description: error.message || "Не удалось отправить письмо", variant: "destructive" });
+    },
+  });
+
+  const canSend = !!mailboxId && splitAddresses(to).length > 0 && !!subject.trim() && !!text.trim() && !uploading;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px]" data-testid="dialog-compose-mail">
+        <DialogHeader>
+          <DialogTitle>{replyTo ? "Ответ" : "Новое письмо"}</DialogTitle>
+          <DialogDescription>
+            {activeMailboxes.length === 0
+              ? "Сначала подключите почтовый ящик"
+              : "Письмо уйдёт через SMTP выбранного ящика"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {activeMailboxes.length > 1 && (
+            <div className="space-y-1.5">
+              <Label>От кого</Label>
+              <Select value={mailboxId} onValueChange={setMailboxId} disabled={!!replyTo}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {activeMailboxes.map((mailbox) => (
+                    <SelectItem key={mailbox.id} value={mailbox.id}>{mailbox.email}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="space-y-1.5">
+            <Label htmlFor="mail-to">Кому</Label>
+            <Input id="mail-to" value={to} onChange={(e) => setTo(e.target.value)} placeholder="client@example.com" data-testid="input-mail-to" />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="mail-cc">Копия</Label>
+            <Input id="mail-cc" value={cc} onChange={(e) => setCc(e.target.value)} />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="mail-subject">Тема</Label>
+            <Input id="mail-subject" value={subject} onChange={(e) => setSubject(e.target.value)} data-testid="input-mail-subject" />
+          </div>
+          <Textarea value={text} onChange={(e) => setText(e.target.value)} rows={10} data-testid="input-mail-text" />
+
+          <div className="flex flex-wrap items-center gap-2">
+            {files.map((file) => (
+              <span key={file.file_path} className="flex items-center gap-1 rounded border px-2 py-1 text-xs">
+                <Paperclip className="h-3 w-3" />
+                {file.file_name}
+                <button
+                  type="button"
+                  onClick={() => setFiles(files.filter((item) => item.file_path !== file.file_path))}
+                  title="Убрать"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </span>
+            ))}
+            <input ref={fileInputRef} type="file" multiple className="hidden" onChange={(e) => handleFiles(e.target.files)} />
+            <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={uploading}>
+              <Paperclip className="h-4 w-4 mr-1" />
+              {uploading ? "Загрузка..." : "Вложение"}
+            </Button>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={sendMail.isPending}>
+            Отмена
+          </Button>
+          <Button onClick={() => sendMail.mutate()} disabled={!canSend || sendMail.isPending} data-testid="button-send-mail">
+            {sendMail.isPending ? "Отправка..." : "Отправить"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
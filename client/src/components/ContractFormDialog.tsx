@@ -9,7 +9,7 @@ import { Input } from "@/components/ui/input";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Upload, FileText, Trash2, Eye } from "lucide-react";
-import { apiRequest, queryClient, getCurrentUserId } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import type { DealDocument } from "@shared/schema";
 
@@ -275,7 +275,6 @@ export function ContractFormDialog({
 
             const uploadResponse = await fetch('/api/objects/upload', {
               method: 'POST',
-              headers: { 'X-User-Id': getCurrentUserId() },
               body: formData,
             });
 
@@ -311,7 +310,6 @@ export function ContractFormDialog({
 
             const uploadResponse = await fetch('/api/objects/upload', {
               method: 'POST',
-              headers: { 'X-User-Id': getCurrentUserId() },
               body: formData,
             });
 
@@ -11,7 +11,7 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Separator } from "@/components/ui/separator";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Upload, FileText, Trash2, Eye, X, Download } from "lucide-react";
-import { apiRequest, queryClient, getCurrentUserId } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import type { DealDocument, DealAttachment } from "@shared/schema";
 
@@ -152,9 +152,6 @@ export function ContractViewDialog({
 
         const uploadResponse = await fetch('/api/objects/upload', {
           method: 'POST',
-          headers: {
-            'X-User-Id': getCurrentUserId(),
-          },
           body: formData,
         });
 
@@ -168,6 +165,7 @@ export function ContractViewDialog({
         return await apiRequest('POST', `/api/deals/${dealId}/documents/${contractId}/attachments`, {
           file_name: file.name,
           file_path: uploadData.objectPath,
+          upload_token: uploadData.uploadToken,
           file_size: file.size,
           mime_type: file.type,
         });
@@ -227,9 +225,6 @@ export function ContractViewDialog({
 
           const uploadResponse = await fetch('/api/objects/upload', {
             method: 'POST',
-            headers: {
-              'X-User-Id': getCurrentUserId(),
-            },
             body: formData,
           });
 
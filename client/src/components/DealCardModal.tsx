@@ -6,7 +6,7 @@ import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Mail, Phone, Building2, DollarSign, MessageSquare, CheckSquare, Activity, Brain, Plus, FolderOpen, FileText, Trash2, Sparkles, User as UserIcon, Download, Edit2, X, Upload, Calendar, FileSpreadsheet, Receipt, FileSignature, Briefcase, ExternalLink, ChevronDown, ChevronRight, Filter, Copy } from "lucide-react";
+import { Mail, Phone, Building2, DollarSign, MessageSquare, CheckSquare, Activity, Brain, Plus, FolderOpen, FileText, Trash2, Sparkles, User as UserIcon, Download, Edit2, X, Upload, Calendar, FileSpreadsheet, Receipt, FileSignature, Briefcase, ExternalLink, ChevronDown, ChevronRight, Filter, Copy, Trophy, XCircle, RotateCcw } from "lucide-react";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { formatDistanceToNow } from "date-fns";
 import { ru } from "date-fns/locale";
@@ -16,9 +16,21 @@ import { InvoiceFromQuoteDialog } from "@/components/InvoiceFromQuoteDialog";
 import { ContractFormDialog } from "@/components/ContractFormDialog";
 import { ContractViewDialog } from "@/components/ContractViewDialog";
 import { DeleteDealDialog } from "@/components/DeleteDealDialog";
+import { CloseDealDialog } from "@/components/CloseDealDialog";
+import { ComposeMailDialog } from "@/components/ComposeMailDialog";
 import { CreateProjectDialog } from "@/components/CreateProjectDialog";
 import { useToast } from "@/hooks/use-toast";
-import type { Deal, DealMessage, InsertDealMessage, DealDocument, User, DealStage, DealAttachment, Project } from "@shared/schema";
+import { parseStageGateError } from "@/lib/stageGates";
+import { StageGateConditions } from "@/components/StageGateConditions";
+import type { Deal, DealMessage, InsertDealMessage, DealDocument, User, DealStage, DealAttachment, Project, DealOutcome, LossReason, InboundLead, Mailbox, MessengerChat } from "@shared/schema";
+import type { StageGateBlocked } from "@shared/stageGates";
+
+// Чат клиента в мессенджере вместе с каналом (GET /api/deals/:id/messenger-chats)
+type DealMessengerChat = MessengerChat & { channel_type: string; channel_name: string; channel_active: boolean };
+
+const MESSENGER_REFETCH_MS = 15_000;
+// Сообщение без чата — внутренняя заметка в ленте
+const NOTE_TARGET = "__note__";
 
 // Extended User type with role permissions (added by API joins)
 interface UserWithPermissions extends User {
@@ -56,6 +68,11 @@ export function DealCardModal({ dealId, open, onOpenChange }: DealCardModalProps
     enabled: !!dealId && open,
   });
 
+  const { data: messengerChats = [] } = useQuery<DealMessengerChat[]>({
+    queryKey: ['/api/deals', dealId, 'messenger-chats'],
+    enabled: !!dealId && open,
+  });
+
   const { data: messages = [], isLoading: messagesLoading } = useQuery<DealMessage[]>({
     queryKey: ['/api/deals', dealId, 'messages'],
     enabled: !!dealId && open,
@@ -63,6 +80,8 @@ export function DealCardModal({ dealId, open, onOpenChange }: DealCardModalProps
     gcTime: 0,
     refetchOnMount: 'always',
     refetchOnWindowFocus: false,
+    // Клиент пишет в мессенджер, пока карточка открыта
+    refetchInterval: messengerChats.length > 0 ? MESSENGER_REFETCH_MS : false,
   });
 
   const { data: documents = [], isLoading: documentsLoading } = useQuery<DealDocument[]>({
@@ -79,6 +98,27 @@ export function DealCardModal({ dealId, open, onOpenChange }: DealCardModalProps
     enabled: open,
   });
 
+  // Вероятность этапа — используется в прогнозе, если у сделки нет своей
+  const currentStageProbability = stages.find((stage) =>
+    stage.key === deal?.stage && (!deal?.pipeline_id || stage.pipeline_id === deal.pipeline_id)
+  )?.win_probability ?? null;
+
+  const { data: lossReasons = [] } = useQuery<LossReason[]>({
+    queryKey: ['/api/loss-reasons'],
+    enabled: open && deal?.outcome === 'lost',
+  });
+  const lossReasonName = lossReasons.find((reason) => reason.id === deal?.loss_reason_id)?.name;
+
+  const { data: inboundLeads = [] } = useQuery<InboundLead[]>({
+    queryKey: ['/api/deals', dealId, 'leads'],
+    enabled: !!dealId && open,
+  });
+
+  const { data: mailboxes = [] } = useQuery<Omit<Mailbox, 'password'>[]>({
+    queryKey: ['/api/mailboxes'],
+    enabled: open,
+  });
+
   const { data: attachments = [] } = useQuery<DealAttachment[]>({
     queryKey: ['/api/deals', dealId, 'attachments'],
     enabled: !!dealId && open,
@@ -141,6 +181,17 @@ export function DealCardModal({ dealId, open, onOpenChange }: DealCardModalProps
   const [taskDetailId, setTaskDetailId] = useState<string | null>(null);
   const [createTaskInlineDialogOpen, setCreateTaskInlineDialogOpen] = useState(false);
   const [timelineFilter, setTimelineFilter] = useState<'all' | 'messages' | 'tasks' | 'events'>('all');
+  // Условия, из-за которых сервер не пустил сделку в выбранный этап
+  const [stageGate, setStageGate] = useState<StageGateBlocked | null>(null);
+  const [closeDialogOpen, setCloseDialogOpen] = useState(false);
+  const [composeMailOpen, setComposeMailOpen] = useState(false);
+  const [messageTarget, setMessageTarget] = useState(NOTE_TARGET);
+  const [closeOutcome, setCloseOutcome] = useState<DealOutcome>('won');
+
+  useEffect(() => {
+    setStageGate(null);
+    setMessageTarget(NOTE_TARGET);
+  }, [dealId]);
 
   const { toast } = useToast();
   const [, setLocation] = useLocation();
@@ -164,7 +215,6 @@ export function DealCardModal({ dealId, open, onOpenChange }: DealCardModalProps
     mutationFn: async (data: { message_type: "note" | "call" | "email" | "task"; content: string }) => {
       return await apiRequest('POST', `/api/deals/${dealId}/messages`, {
         ...data,
-        author_id: getCurrentUserId(),
         direction: 'outgoing', // Исходящее сообщение
       });
     },
@@ -175,6 +225,24 @@ export function DealCardModal({ dealId, open, onOpenChange }: DealCardModalProps
     },
   });
 
+  const sendMessengerReply = useMutation({
+    mutationFn: async (data: { chat_id: string; content: string }) => {
+      return await apiRequest('POST', `/api/deals/${dealId}/messenger-messages`, data);
+    },
+    onSuccess: async () => {
+      await queryClient.refetchQueries({ queryKey: ['/api/deals', dealId, 'messages'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/deals', dealId, 'messenger-chats'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/activity-logs', 'deal', dealId] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Сообщение не отправлено",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const deleteDeal = useMutation({
     mutationFn: async () => {
       return await apiRequest('DELETE', `/api/deals/${dealId}`);
@@ -208,6 +276,7 @@ export function DealCardModal({ dealId, open, onOpenChange }: DealCardModalProps
       return await apiRequest('PUT', `/api/deals/${dealId}`, { stage });
     },
     onSuccess: () => {
+      setStageGate(null);
       // Real-time обновление timeline
       queryClient.invalidateQueries({ queryKey: ['/api/deals', dealId] });
       queryClient.invalidateQueries({ queryKey: ['/api/deals'] });
@@ -218,10 +287,34 @@ export function DealCardModal({ dealId, open, onOpenChange }: DealCardModalProps
         description: "Этап сделки успешно изменён",
       });
     },
+    onError: (error: any) => {
+      const gate = parseStageGateError(error);
+      setStageGate(gate);
+      toast({
+        title: "Ошибка",
+        description: gate ? "Не выполнены условия перехода в этап" : error.message || "Не удалось обновить этап",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reopenDeal = useMutation({
+    mutationFn: async () => {
+      return await apiRequest('POST', `/api/deals/${dealId}/reopen`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/deals', dealId] });
+      queryClient.invalidateQueries({ queryKey: ['/api/deals'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/activity-logs', 'deal', dealId] });
+      toast({
+        title: "Сделка в работе",
+        description: "Сделка возвращена на доску",
+      });
+    },
     onError: (error: any) => {
       toast({
         title: "Ошибка",
-        description: error.message || "Не удалось обновить этап",
+        description: error.message || "Не удалось вернуть сделку в работу",
         variant: "destructive",
       });
     },
@@ -379,9 +472,6 @@ export function DealCardModal({ dealId, open, onOpenChange }: DealCardModalProps
 
         const uploadResponse = await fetch('/api/objects/upload', {
           method: 'POST',
-          headers: {
-            'X-User-Id': getCurrentUserId(),
-          },
           body: formData,
         });
 
@@ -396,9 +486,9 @@ export function DealCardModal({ dealId, open, onOpenChange }: DealCardModalProps
           deal_id: dealId,
           file_name: file.name,
           file_path: uploadData.objectPath,
+          upload_token: uploadData.uploadToken,
           file_size: file.size,
           mime_type: file.type || 'application/octet-stream',
-          uploaded_by: getCurrentUserId(),
         });
       }
 
@@ -427,6 +517,10 @@ export function DealCardModal({ dealId, open, onOpenChange }: DealCardModalProps
 
   // Обработчик отправки сообщения из ChatInput
   const handleSendMessage = (content: string) => {
+    if (messageTarget !== NOTE_TARGET) {
+      sendMessengerReply.mutate({ chat_id: messageTarget, content });
+      return;
+    }
     createMessage.mutate({
       message_type: 'note',
       content,
@@ -534,15 +628,70 @@ export function DealCardModal({ dealId, open, onOpenChange }: DealCardModalProps
                       </div>
                     )}
                   </div>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => setManageFieldsOpen(true)}
-                    title="Настроить кастомные поля"
-                  >
-                    <Edit2 className="h-4 w-4 mr-2" />
-                    Поля
-                  </Button>
+                  <div className="flex items-center gap-2">
+                    {deal.outcome ? (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => reopenDeal.mutate()}
+                        disabled={reopenDeal.isPending}
+                        data-testid="button-reopen-deal"
+                      >
+                        <RotateCcw className="h-4 w-4 mr-2" />
+                        Вернуть в работу
+                      </Button>
+                    ) : (
+                      <>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => { setCloseOutcome('won'); setCloseDialogOpen(true); }}
+                          data-testid="button-deal-won"
+                        >
+                          <Trophy className="h-4 w-4 mr-2 text-green-600" />
+                          Выиграна
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => { setCloseOutcome('lost'); setCloseDialogOpen(true); }}
+                          data-testid="button-deal-lost"
+                        >
+                          <XCircle className="h-4 w-4 mr-2 text-destructive" />
+                          Проиграна
+                        </Button>
+                      </>
+                    )}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setManageFieldsOpen(true)}
+                      title="Настроить кастомные поля"
+                    >
+                      <Edit2 className="h-4 w-4 mr-2" />
+                      Поля
+                    </Button>
+                  </div>
+                </div>
+              )}
+              {deal?.outcome && (
+                <div
+                  className={`mt-2 px-3 py-2 rounded-md border text-sm ${deal.outcome === 'won' ? 'border-green-500/40 bg-green-500/5' : 'border-destructive/40 bg-destructive/5'}`}
+                  data-testid="deal-outcome-banner"
+                >
+                  <span className="font-medium">
+                    {deal.outcome === 'won' ? 'Сделка выиграна' : 'Сделка проиграна'}
+                  </span>
+                  {deal.closed_at && (
+                    <span className="text-muted-foreground"> · {new Date(deal.closed_at).toLocaleDateString('ru-RU')}</span>
+                  )}
+                  {deal.outcome === 'lost' && (
+                    <>
+                      {lossReasonName && <span> · Причина: {lossReasonName}</span>}
+                      {deal.competitor && <span> · Конкурент: {deal.competitor}</span>}
+                      {deal.loss_comment && <p className="text-muted-foreground mt-0.5">{deal.loss_comment}</p>}
+                    </>
+                  )}
                 </div>
               )}
             </div>
@@ -575,6 +724,15 @@ export function DealCardModal({ dealId, open, onOpenChange }: DealCardModalProps
                       formatter={(val) => String(val || '—')}
                       onSave={(value) => updateDealField.mutate({ order_number: value || null })}
                     />
+
+                    <InlineEditField
+                      label="Источник лида"
+                      value={deal.source}
+                      type="text"
+                      placeholder="Сайт, звонок, рекомендация..."
+                      formatter={(val) => String(val || '—')}
+                      onSave={(value) => updateDealField.mutate({ source: value || null })}
+                    />
                   </div>
 
                   {/* Блок: Контактные лица */}
@@ -583,6 +741,31 @@ export function DealCardModal({ dealId, open, onOpenChange }: DealCardModalProps
                     <DealContactsList dealId={dealId!} />
                   </div>
 
+                  {/* Блок: Заявки с сайта и маркетплейсов */}
+                  {inboundLeads.length > 0 && (
+                    <div className="mb-2 p-2 bg-muted/30 rounded-lg" data-testid="deal-inbound-leads">
+                      <p className="text-[10px] font-semibold text-muted-foreground uppercase mb-1.5">Заявки ({inboundLeads.length})</p>
+                      <div className="space-y-1.5">
+                        {inboundLeads.map((lead) => (
+                          <div key={lead.id} className="text-xs">
+                            <p>
+                              {formatDistanceToNow(new Date(lead.created_at), { addSuffix: true, locale: ru })}
+                              {lead.status === 'duplicate' && <span className="text-muted-foreground"> · повторная</span>}
+                            </p>
+                            {(lead.form || lead.page_url) && (
+                              <p className="text-muted-foreground truncate">{lead.form || lead.page_url}</p>
+                            )}
+                            {(lead.utm_source || lead.utm_campaign) && (
+                              <p className="text-muted-foreground truncate">
+                                {[lead.utm_source, lead.utm_medium, lead.utm_campaign].filter(Boolean).join(' / ')}
+                              </p>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
                   {/* Блок: Этап и сроки */}
                   <div className="mb-2 p-2 bg-muted/30 rounded-lg">
                     <p className="text-[10px] font-semibold text-muted-foreground uppercase mb-1.5">Этап и сроки</p>
@@ -605,7 +788,36 @@ export function DealCardModal({ dealId, open, onOpenChange }: DealCardModalProps
                           ))}
                         </SelectContent>
                       </Select>
+                      {stageGate && (
+                        <div className="mt-1.5 p-2 rounded border border-destructive/40 bg-destructive/5 text-xs" data-testid="stage-gate-unmet">
+                          <p className="font-medium mb-1">
+                            Для этапа «{stages.find((stage) => stage.key === stageGate.stage)?.name || stageGate.stage}» нужно:
+                          </p>
+                          <StageGateConditions unmet={stageGate.unmet} />
+                        </div>
+                      )}
                     </div>
+
+                    <InlineEditField
+                      label="Ожидаемое закрытие"
+                      value={deal.expected_close_date ? new Date(deal.expected_close_date).toISOString().slice(0, 10) : null}
+                      type="date"
+                      icon={<Calendar className="w-4 h-4" />}
+                      formatter={(val) => val ? new Date(String(val)).toLocaleDateString('ru-RU') : '—'}
+                      onSave={(value) => updateDealField.mutate({ expected_close_date: value ? new Date(value) : null })}
+                    />
+
+                    <InlineEditField
+                      label="Вероятность выигрыша, %"
+                      value={deal.win_probability}
+                      type="number"
+                      placeholder={currentStageProbability !== null ? `Как у этапа: ${currentStageProbability}` : "0–100"}
+                      formatter={(val) => val !== null && val !== undefined && val !== ''
+                        ? `${val}%`
+                        : currentStageProbability !== null ? `${currentStageProbability}% (этап)` : '—'}
+                      validator={(value) => value === '' || (/^\d+$/.test(value) && Number(value) <= 100)}
+                      onSave={(value) => updateDealField.mutate({ win_probability: value === '' ? null : Number(value) })}
+                    />
                   </div>
 
                   <Separator className="my-2" />
@@ -761,23 +973,53 @@ export function DealCardModal({ dealId, open, onOpenChange }: DealCardModalProps
 
               {/* Нижняя панель - чат и кнопка создания задачи */}
               <div className="border-t">
-                {/* Кнопка создания задачи */}
-                <div className="px-3 py-2 border-b">
+                {/* Кнопки создания задачи и письма */}
+                <div className="px-3 py-2 border-b flex gap-2">
                   <Button
                     onClick={() => setCreateTaskInlineDialogOpen(true)}
                     variant="outline"
-                    className="w-full gap-2 h-8 text-xs"
+                    className="flex-1 gap-2 h-8 text-xs"
                   >
                     <Plus className="w-3.5 h-3.5" />
                     Создать задачу
                   </Button>
+                  {mailboxes.length > 0 && (
+                    <Button
+                      onClick={() => setComposeMailOpen(true)}
+                      variant="outline"
+                      className="flex-1 gap-2 h-8 text-xs"
+                      data-testid="button-deal-compose-mail"
+                    >
+                      <Mail className="w-3.5 h-3.5" />
+                      Написать письмо
+                    </Button>
+                  )}
                 </div>
 
+                {/* Получатель: заметка для коллег или ответ клиенту в мессенджер */}
+                {messengerChats.length > 0 && (
+                  <div className="px-3 pt-2">
+                    <Select value={messageTarget} onValueChange={setMessageTarget}>
+                      <SelectTrigger className="h-8 text-xs" data-testid="select-message-target">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NOTE_TARGET}>Заметка в ленте</SelectItem>
+                        {messengerChats.map((chat) => (
+                          <SelectItem key={chat.id} value={chat.id} disabled={!chat.channel_active}>
+                            {chat.channel_name}: {chat.name || chat.username || chat.phone || 'клиент'}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
                 {/* Поле ввода сообщения */}
                 <ChatInput
                   onSend={handleSendMessage}
-                  disabled={createMessage.isPending}
-                  placeholder="Добавьте сообщение..."
+                  disabled={createMessage.isPending || sendMessengerReply.isPending}
+                  placeholder={messageTarget === NOTE_TARGET ? "Добавьте сообщение..." : "Ответ клиенту..."}
                   userId={getCurrentUserId()}
                 />
               </div>
@@ -1219,6 +1461,22 @@ export function DealCardModal({ dealId, open, onOpenChange }: DealCardModalProps
         )}
       </DialogContent>
 
+      <CloseDealDialog
+        open={closeDialogOpen}
+        onOpenChange={setCloseDialogOpen}
+        dealId={dealId}
+        dealName={deal?.title || deal?.client_name}
+        outcome={closeOutcome}
+      />
+
+      <ComposeMailDialog
+        open={composeMailOpen}
+        onOpenChange={setComposeMailOpen}
+        mailboxes={mailboxes}
+        dealId={dealId}
+        defaultTo={deal?.contact_email}
+      />
+
       <DeleteDealDialog
         open={deleteDialogOpen}
         onOpenChange={setDeleteDialogOpen}
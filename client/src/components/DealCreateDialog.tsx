@@ -28,7 +28,7 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { X, Plus, Loader2 } from "lucide-react";
-import { insertDealSchema, type User, type DealStage } from "@shared/schema";
+import { insertDealSchema, type User, type DealStage, type Client } from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
@@ -50,11 +50,21 @@ export function DealCreateDialog({ open, onOpenChange }: DealCreateDialogProps)
     enabled: open,
   });
 
+  const { data: clients = [] } = useQuery<Client[]>({
+    queryKey: ["/api/clients"],
+    enabled: open,
+  });
+
+  const activeClients = clients.filter((client) => client.is_active);
+
   const form = useForm({
     resolver: zodResolver(insertDealSchema),
     defaultValues: {
       title: "",
+      client_id: null as string | null,
       client_name: "",
+      contact_phone: null as string | null,
+      contact_email: null as string | null,
       company: null,
       amount: null,
       stage: "",
@@ -66,13 +76,16 @@ export function DealCreateDialog({ open, onOpenChange }: DealCreateDialogProps)
 
   const createMutation = useMutation({
     mutationFn: async (data: any) => {
-      await apiRequest("POST", "/api/deals", data);
+      return await apiRequest<{ possible_clients?: Array<{ id: string; name: string }> }>("POST", "/api/deals", data);
     },
-    onSuccess: () => {
+    onSuccess: (deal) => {
       queryClient.invalidateQueries({ queryKey: ["/api/deals"] });
+      const possibleClients = deal?.possible_clients || [];
       toast({
         title: "Успешно",
-        description: "Сделка создана",
+        description: possibleClients.length > 0
+          ? `Сделка создана. Похоже, клиент уже есть в базе: ${possibleClients.map((c) => c.name).join(", ")} — привяжите сделку к карточке клиента`
+          : "Сделка создана",
       });
       form.reset();
       onOpenChange(false);
@@ -90,6 +103,17 @@ export function DealCreateDialog({ open, onOpenChange }: DealCreateDialogProps)
     createMutation.mutate(data);
   });
 
+  // Выбор карточки клиента подставляет его имя и контакты в сделку
+  const handleClientSelect = (value: string) => {
+    const client = activeClients.find((c) => c.id === value);
+    form.setValue("client_id", client?.id ?? null);
+    if (client) {
+      form.setValue("client_name", client.name);
+      form.setValue("contact_phone", client.phone);
+      form.setValue("contact_email", client.email);
+    }
+  };
+
   const handleAddTag = () => {
     if (newTag.trim()) {
       const currentTags = form.getValues("tags") || [];
@@ -145,6 +169,36 @@ export function DealCreateDialog({ open, onOpenChange }: DealCreateDialogProps)
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="client_id"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Карточка клиента</FormLabel>
+                  <Select onValueChange={handleClientSelect} value={field.value ?? "none"}>
+                    <FormControl>
+                      <SelectTrigger data-testid="select-create-client">
+                        <SelectValue placeholder="Выберите клиента" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="none">Без карточки клиента</SelectItem>
+                      {activeClients.map((client) => (
+                        <SelectItem
+                          key={client.id}
+                          value={client.id}
+                          data-testid={`option-create-client-${client.id}`}
+                        >
+                          {client.name}{client.phone ? ` · ${client.phone}` : ""}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <FormField
               control={form.control}
               name="client_name"
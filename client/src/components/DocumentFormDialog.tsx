@@ -12,16 +12,21 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
-import { Plus, Trash2, Image as ImageIcon, X, ZoomIn } from "lucide-react";
-import { apiRequest, queryClient, getCurrentUserId } from "@/lib/queryClient";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Plus, Trash2, Image as ImageIcon, X, ZoomIn, BookOpen } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { DealDocument } from "@shared/schema";
+import type { CatalogItem, DealDocument, PriceList } from "@shared/schema";
+import { calculateQuote, parseQuotePricing, vatModeValues, VAT_MODES, DEFAULT_VAT_RATE } from "@shared/quotePricing";
 
 const positionSchema = z.object({
+  catalog_item_id: z.string().nullable().optional(),
   name: z.string().min(1, "Введите название"),
   price: z.coerce.number().min(0, "Цена должна быть больше 0"),
   quantity: z.coerce.number().min(1, "Количество должно быть больше 0"),
   unit: z.string().default("шт"),
+  discount_percent: z.coerce.number().min(0).max(100).default(0),
   imageUrl: z.string().optional(),
   height: z.coerce.number().min(0).optional(),
   width: z.coerce.number().min(0).optional(),
@@ -33,6 +38,10 @@ const positionSchema = z.object({
 const documentFormSchema = z.object({
   name: z.string().min(1, "Введите название документа"),
   positions: z.array(positionSchema).min(1, "Добавьте хотя бы одну позицию"),
+  price_list_id: z.string().optional(),
+  discount_percent: z.coerce.number().min(0).max(100).default(0),
+  vat_mode: z.enum(vatModeValues).default("none"),
+  vat_rate: z.coerce.number().min(0).max(100).default(DEFAULT_VAT_RATE),
   is_signed: z.boolean().optional(),
   contract_number: z.string().optional(),
   contract_date: z.string().optional(),
@@ -48,6 +57,8 @@ const documentFormSchema = z.object({
 
 type DocumentFormData = z.infer<typeof documentFormSchema>;
 
+type CatalogItemWithPrices = CatalogItem & { prices: { price_list_id: string; price: number }[] };
+
 interface DocumentFormDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -118,6 +129,19 @@ export function DocumentFormDialog({
     enabled: open,
   });
 
+  const { data: priceLists = [] } = useQuery<PriceList[]>({
+    queryKey: ['/api/catalog/price-lists'],
+    enabled: open,
+  });
+
+  const { data: catalogItems = [] } = useQuery<CatalogItemWithPrices[]>({
+    queryKey: ['/api/catalog/items?active=1'],
+    enabled: open,
+  });
+
+  const [catalogPickerOpen, setCatalogPickerOpen] = useState(false);
+  const defaultPriceListId = priceLists.find((list) => list.is_default && list.is_active)?.id || "";
+
   const { data: editingDocument } = useQuery<DealDocument | undefined>({
     queryKey: ['/api/deals', dealId, 'documents', documentId],
     queryFn: async () => {
@@ -125,7 +149,6 @@ export function DocumentFormDialog({
       const response = await fetch(`/api/deals/${dealId}/documents`, {
         method: 'GET',
         headers: {
-          'X-User-Id': getCurrentUserId(),
           'Content-Type': 'application/json'
         },
         cache: 'no-cache', // Critical: bypass browser HTTP cache
@@ -144,7 +167,11 @@ export function DocumentFormDialog({
     resolver: zodResolver(documentFormSchema),
     defaultValues: {
       name: "",
-      positions: [{ name: "", price: 0, quantity: 1, unit: "шт", imageUrl: undefined, height: undefined, width: undefined, depth: undefined, description: undefined, isService: false }],
+      positions: [{ name: "", price: 0, quantity: 1, unit: "шт", imageUrl: undefined, height: undefined, width: undefined, depth: undefined, description: undefined, discount_percent: 0, isService: false }],
+      price_list_id: "",
+      discount_percent: 0,
+      vat_mode: "none",
+      vat_rate: DEFAULT_VAT_RATE,
       is_signed: false,
       contract_number: "",
       contract_date: new Date().toISOString().split('T')[0],
@@ -177,14 +204,17 @@ export function DocumentFormDialog({
       const docData = typeof editingDocument.data === 'string'
         ? JSON.parse(editingDocument.data)
         : editingDocument.data as any;
-      const positions = docData?.positions || [{ name: "", price: 0, quantity: 1, unit: "шт", imageUrl: undefined, height: undefined, width: undefined, depth: undefined, description: undefined, isService: false }];
+      const pricing = parseQuotePricing(docData?.pricing);
+      const positions = docData?.positions || [{ name: "", price: 0, quantity: 1, unit: "шт", imageUrl: undefined, height: undefined, width: undefined, depth: undefined, description: undefined, discount_percent: 0, isService: false }];
       form.reset({
         name: editingDocument.name,
         positions: positions.map((pos: any) => ({
+          catalog_item_id: pos.catalog_item_id || null,
           name: pos.name,
           price: pos.price,
           quantity: pos.quantity,
           unit: pos.unit || "шт",
+          discount_percent: pos.discount_percent || 0,
           imageUrl: pos.imageUrl || undefined,
           height: pos.height || undefined,
           width: pos.width || undefined,
@@ -192,6 +222,10 @@ export function DocumentFormDialog({
           description: pos.description || undefined,
           isService: pos.isService || false,
         })),
+        price_list_id: pricing.price_list_id || defaultPriceListId,
+        discount_percent: pricing.discount_percent,
+        vat_mode: pricing.vat_mode,
+        vat_rate: pricing.vat_rate,
         is_signed: Boolean(editingDocument.is_signed),
         contract_number: editingDocument.contract_number || "",
         contract_date: editingDocument.contract_date || new Date().toISOString().split('T')[0],
@@ -207,7 +241,11 @@ export function DocumentFormDialog({
     } else if (!isEditing && open && deal) {
       form.reset({
         name: "",
-        positions: [{ name: "", price: 0, quantity: 1, unit: "шт", imageUrl: undefined, height: undefined, width: undefined, depth: undefined, description: undefined, isService: false }],
+        positions: [{ name: "", price: 0, quantity: 1, unit: "шт", imageUrl: undefined, height: undefined, width: undefined, depth: undefined, description: undefined, discount_percent: 0, isService: false }],
+        price_list_id: defaultPriceListId,
+        discount_percent: 0,
+        vat_mode: "none",
+        vat_rate: DEFAULT_VAT_RATE,
         is_signed: false,
         contract_number: "",
         contract_date: new Date().toISOString().split('T')[0],
@@ -221,17 +259,63 @@ export function DocumentFormDialog({
         company_info: "ИП.Береговой М.И",
       });
     }
-  }, [editingDocument, open, isEditing, form, documentId, dealId, queryClient, deal]);
+  }, [editingDocument, open, isEditing, form, documentId, dealId, queryClient, deal, defaultPriceListId]);
 
   const positions = form.watch("positions");
-  
-  const calculateTotal = (price: number, quantity: number) => {
-    return price * quantity;
+  const [priceListId, discountPercent, vatMode, vatRate] = form.watch(["price_list_id", "discount_percent", "vat_mode", "vat_rate"]);
+
+  // Предпросмотр по тем же правилам, что и на сервере; итог документа сервер считает сам
+  const pricing = parseQuotePricing({
+    price_list_id: priceListId || null,
+    discount_percent: discountPercent,
+    vat_mode: vatMode,
+    vat_rate: vatRate,
+  });
+  const quote = calculateQuote(
+    positions.map((pos) => ({
+      ...pos,
+      price: Number(pos.price) || 0,
+      quantity: Number(pos.quantity) || 1,
+      discount_percent: Number(pos.discount_percent) || 0,
+    })),
+    pricing
+  );
+  const grandTotal = quote.totals.total;
+
+  const formatMoney = (value: number) =>
+    value.toLocaleString('ru-RU', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+  const catalogPrice = (item: CatalogItemWithPrices, listId: string | undefined) =>
+    item.prices.find((price) => price.price_list_id === listId)?.price;
+
+  const handleAddFromCatalog = (item: CatalogItemWithPrices) => {
+    append({
+      catalog_item_id: item.id,
+      name: item.name,
+      price: catalogPrice(item, priceListId) ?? 0,
+      quantity: 1,
+      unit: item.kind === 'service' ? "услуга" : item.unit,
+      discount_percent: 0,
+      imageUrl: undefined,
+      height: undefined,
+      width: undefined,
+      depth: undefined,
+      description: item.description || undefined,
+      isService: item.kind === 'service',
+    });
+    setCatalogPickerOpen(false);
   };
 
-  const grandTotal = positions.reduce((sum, pos) => {
-    return sum + calculateTotal(pos.price || 0, pos.quantity || 1);
-  }, 0);
+  // Смена прайс-листа переоценивает позиции из каталога
+  const handlePriceListChange = (listId: string) => {
+    form.setValue("price_list_id", listId);
+    form.getValues("positions").forEach((pos, index) => {
+      const item = pos.catalog_item_id && catalogItems.find((catalogItem) => catalogItem.id === pos.catalog_item_id);
+      if (!item) return;
+      const price = catalogPrice(item, listId);
+      if (price !== undefined) form.setValue(`positions.${index}.price`, price);
+    });
+  };
 
   // Handle paste image from clipboard
   const handlePasteImage = async (event: React.ClipboardEvent, index: number) => {
@@ -268,10 +352,15 @@ export function DocumentFormDialog({
 
   const saveDocument = useMutation({
     mutationFn: async (data: DocumentFormData) => {
-      const positionsWithTotal = data.positions.map(pos => ({
-        ...pos,
-        total: calculateTotal(pos.price, pos.quantity)
-      }));
+      const documentData = JSON.stringify({
+        positions: data.positions,
+        pricing: {
+          price_list_id: data.price_list_id || null,
+          discount_percent: data.discount_percent,
+          vat_mode: data.vat_mode,
+          vat_rate: data.vat_rate,
+        },
+      });
 
       const payment_schedule = JSON.stringify({
         advance: data.payment_advance || 70,
@@ -284,7 +373,7 @@ export function DocumentFormDialog({
         // Update existing document
         return await apiRequest('PUT', `/api/deals/${dealId}/documents/${documentId}`, {
           name: data.name,
-          data: JSON.stringify({ positions: positionsWithTotal }),
+          data: documentData,
           total_amount: grandTotal,
           is_signed: documentType === 'contract' ? data.is_signed : undefined,
           contract_number: data.contract_number,
@@ -314,7 +403,7 @@ export function DocumentFormDialog({
           name: data.name,
           version: version,
           file_url: `placeholder-${Date.now()}`,
-          data: JSON.stringify({ positions: positionsWithTotal }),
+          data: documentData,
           total_amount: grandTotal,
           is_signed: documentType === 'contract' ? data.is_signed : false,
           contract_number: data.contract_number,
@@ -518,15 +607,128 @@ export function DocumentFormDialog({
               )}
             />
 
+            <div className="space-y-2">
+              <FormLabel>Цены и налоги</FormLabel>
+              <div className="grid grid-cols-4 gap-4">
+                <FormField
+                  control={form.control}
+                  name="price_list_id"
+                  render={({ field }) => (
+                    <FormItem>
+                      <Select onValueChange={handlePriceListChange} value={field.value || undefined}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-price-list">
+                            <SelectValue placeholder="Прайс-лист" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {priceLists.filter((list) => list.is_active || list.id === field.value).map((list) => (
+                            <SelectItem key={list.id} value={list.id}>{list.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="discount_percent"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormControl>
+                        <Input {...field} type="number" min="0" max="100" step="0.1" placeholder="Скидка на документ, %" data-testid="input-document-discount" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="vat_mode"
+                  render={({ field }) => (
+                    <FormItem>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-vat-mode">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {vatModeValues.map((mode) => (
+                            <SelectItem key={mode} value={mode}>{VAT_MODES[mode]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="vat_rate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormControl>
+                        <Input {...field} type="number" min="0" max="100" placeholder="Ставка НДС, %" disabled={vatMode === "none"} data-testid="input-vat-rate" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            </div>
+
             <div>
               <div className="flex justify-between items-center mb-2">
                 <FormLabel>Позиции</FormLabel>
                 <div className="flex gap-2">
+                  <Popover open={catalogPickerOpen} onOpenChange={setCatalogPickerOpen}>
+                    <PopoverTrigger asChild>
+                      <Button type="button" variant="outline" size="sm" data-testid="button-add-from-catalog">
+                        <BookOpen className="w-4 h-4 mr-1" />
+                        Из каталога
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-[360px] p-0" align="end">
+                      <Command>
+                        <CommandInput placeholder="Поиск по названию или артикулу..." />
+                        <CommandList>
+                          <CommandEmpty>Позиция не найдена</CommandEmpty>
+                          <CommandGroup>
+                            {catalogItems.map((item) => {
+                              const price = catalogPrice(item, priceListId);
+                              return (
+                                <CommandItem
+                                  key={item.id}
+                                  value={`${item.name} ${item.sku || ""} ${item.id}`}
+                                  disabled={price === undefined}
+                                  onSelect={() => handleAddFromCatalog(item)}
+                                >
+                                  <div className="flex-1 min-w-0">
+                                    <div className="truncate">{item.name}</div>
+                                    {(item.sku || item.category) && (
+                                      <div className="text-xs text-muted-foreground truncate">
+                                        {[item.sku, item.category].filter(Boolean).join(" · ")}
+                                      </div>
+                                    )}
+                                  </div>
+                                  <span className="ml-2 text-sm whitespace-nowrap">
+                                    {price === undefined ? "нет цены" : price === null ? "—" : `${formatMoney(price)} ₽`}
+                                  </span>
+                                </CommandItem>
+                              );
+                            })}
+                          </CommandGroup>
+                        </CommandList>
+                      </Command>
+                    </PopoverContent>
+                  </Popover>
                   <Button
                     type="button"
                     variant="outline"
                     size="sm"
-                    onClick={() => append({ name: "", price: 0, quantity: 1, unit: "услуга", imageUrl: undefined, height: undefined, width: undefined, depth: undefined, description: undefined, isService: true })}
+                    onClick={() => append({ name: "", price: 0, quantity: 1, unit: "услуга", imageUrl: undefined, height: undefined, width: undefined, depth: undefined, description: undefined, discount_percent: 0, isService: true })}
                     data-testid="button-add-service"
                   >
                     <Plus className="w-4 h-4 mr-1" />
@@ -536,7 +738,7 @@ export function DocumentFormDialog({
                     type="button"
                     variant="outline"
                     size="sm"
-                    onClick={() => append({ name: "", price: 0, quantity: 1, unit: "шт", imageUrl: undefined, height: undefined, width: undefined, depth: undefined, description: undefined, isService: false })}
+                    onClick={() => append({ name: "", price: 0, quantity: 1, unit: "шт", imageUrl: undefined, height: undefined, width: undefined, depth: undefined, description: undefined, discount_percent: 0, isService: false })}
                     data-testid="button-add-position"
                   >
                     <Plus className="w-4 h-4 mr-1" />
@@ -549,15 +751,16 @@ export function DocumentFormDialog({
                 <Table className="table-fixed w-full">
                   <TableHeader>
                     <TableRow>
-                      <TableHead className="w-[20%]">Название</TableHead>
-                      <TableHead className="w-[10%]">Цена</TableHead>
-                      <TableHead className="w-[8%]">Кол-во</TableHead>
-                      <TableHead className="w-[8%]">Ед.изм.</TableHead>
-                      <TableHead className="w-[15%]">Габариты (В×Ш×Г, мм)</TableHead>
-                      <TableHead className="w-[8%]">м²</TableHead>
-                      <TableHead className="w-[15%]">Описание</TableHead>
+                      <TableHead className="w-[18%]">Название</TableHead>
+                      <TableHead className="w-[9%]">Цена</TableHead>
+                      <TableHead className="w-[7%]">Кол-во</TableHead>
+                      <TableHead className="w-[7%]">Ед.изм.</TableHead>
+                      <TableHead className="w-[7%]">Скидка %</TableHead>
+                      <TableHead className="w-[14%]">Габариты (В×Ш×Г, мм)</TableHead>
+                      <TableHead className="w-[7%]">м²</TableHead>
+                      <TableHead className="w-[13%]">Описание</TableHead>
                       <TableHead className="w-[10%]">Итого</TableHead>
-                      <TableHead className="w-[6%]">Фото</TableHead>
+                      <TableHead className="w-[5%]">Фото</TableHead>
                       <TableHead className="w-[3%]"></TableHead>
                     </TableRow>
                   </TableHeader>
@@ -604,6 +807,8 @@ export function DocumentFormDialog({
                                     min="0"
                                     placeholder="0"
                                     className="w-full"
+                                    readOnly={!!positions[index]?.catalog_item_id}
+                                    title={positions[index]?.catalog_item_id ? "Цена из прайс-листа" : undefined}
                                     data-testid={`input-position-price-${index}`}
                                   />
                                 </FormControl>
@@ -660,6 +865,29 @@ export function DocumentFormDialog({
                             )}
                           />
                         </TableCell>
+                        <TableCell>
+                          <FormField
+                            control={form.control}
+                            name={`positions.${index}.discount_percent`}
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormControl>
+                                  <Input
+                                    {...field}
+                                    type="number"
+                                    step="0.1"
+                                    min="0"
+                                    max="100"
+                                    placeholder="0"
+                                    className="w-full"
+                                    data-testid={`input-position-discount-${index}`}
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        </TableCell>
                         <TableCell>
                           <div className="flex gap-1">
                             <FormField
@@ -756,10 +984,7 @@ export function DocumentFormDialog({
                           />
                         </TableCell>
                         <TableCell data-testid={`text-position-total-${index}`}>
-                          {calculateTotal(
-                            positions[index]?.price || 0,
-                            positions[index]?.quantity || 1
-                          ).toLocaleString('ru-RU', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ₽
+                          {formatMoney(quote.positions[index]?.total ?? 0)} ₽
                         </TableCell>
                         <TableCell>
                           <div className="flex items-center justify-center gap-1">
@@ -813,7 +1038,7 @@ export function DocumentFormDialog({
                     {/* Разделитель для услуг */}
                     {fields.some(field => field.isService) && (
                       <TableRow>
-                        <TableCell colSpan={9} className="bg-muted/50 text-center font-semibold py-2">
+                        <TableCell colSpan={11} className="bg-muted/50 text-center font-semibold py-2">
                           Услуги
                         </TableCell>
                       </TableRow>
@@ -832,19 +1057,25 @@ export function DocumentFormDialog({
                             name={`positions.${index}.name`}
                             render={({ field }) => (
                               <FormItem>
-                                <Select onValueChange={field.onChange} value={field.value}>
+                                {positions[index]?.catalog_item_id ? (
                                   <FormControl>
-                                    <SelectTrigger className="w-full" data-testid={`select-service-name-${index}`}>
-                                      <SelectValue placeholder="Выберите услугу" />
-                                    </SelectTrigger>
+                                    <Input {...field} className="w-full" data-testid={`input-service-name-${index}`} />
                                   </FormControl>
-                                  <SelectContent>
-                                    <SelectItem value="Доставка">Доставка</SelectItem>
-                                    <SelectItem value="Сборка">Сборка</SelectItem>
-                                    <SelectItem value="Монтаж">Монтаж</SelectItem>
-                                    <SelectItem value="custom">Другое (введите вручную)</SelectItem>
-                                  </SelectContent>
-                                </Select>
+                                ) : (
+                                  <Select onValueChange={field.onChange} value={field.value}>
+                                    <FormControl>
+                                      <SelectTrigger className="w-full" data-testid={`select-service-name-${index}`}>
+                                        <SelectValue placeholder="Выберите услугу" />
+                                      </SelectTrigger>
+                                    </FormControl>
+                                    <SelectContent>
+                                      <SelectItem value="Доставка">Доставка</SelectItem>
+                                      <SelectItem value="Сборка">Сборка</SelectItem>
+                                      <SelectItem value="Монтаж">Монтаж</SelectItem>
+                                      <SelectItem value="custom">Другое (введите вручную)</SelectItem>
+                                    </SelectContent>
+                                  </Select>
+                                )}
                                 {field.value === "custom" && (
                                   <Input
                                     placeholder="Название услуги"
@@ -872,6 +1103,8 @@ export function DocumentFormDialog({
                                     min="0"
                                     placeholder="0"
                                     className="w-full"
+                                    readOnly={!!positions[index]?.catalog_item_id}
+                                    title={positions[index]?.catalog_item_id ? "Цена из прайс-листа" : undefined}
                                     data-testid={`input-service-price-${index}`}
                                   />
                                 </FormControl>
@@ -904,6 +1137,29 @@ export function DocumentFormDialog({
                         <TableCell>
                           <div className="text-center text-muted-foreground">услуга</div>
                         </TableCell>
+                        <TableCell>
+                          <FormField
+                            control={form.control}
+                            name={`positions.${index}.discount_percent`}
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormControl>
+                                  <Input
+                                    {...field}
+                                    type="number"
+                                    step="0.1"
+                                    min="0"
+                                    max="100"
+                                    placeholder="0"
+                                    className="w-full"
+                                    data-testid={`input-service-discount-${index}`}
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        </TableCell>
                         <TableCell>
                           <div className="text-center text-muted-foreground">—</div>
                         </TableCell>
@@ -939,10 +1195,7 @@ export function DocumentFormDialog({
                           />
                         </TableCell>
                         <TableCell data-testid={`text-service-total-${index}`}>
-                          {calculateTotal(
-                            positions[index]?.price || 0,
-                            positions[index]?.quantity || 1
-                          ).toLocaleString('ru-RU', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ₽
+                          {formatMoney(quote.positions[index]?.total ?? 0)} ₽
                         </TableCell>
                         <TableCell>
                           <div className="text-center text-muted-foreground">—</div>
@@ -966,9 +1219,20 @@ export function DocumentFormDialog({
               </div>
             </div>
 
-            <div className="flex justify-end">
+            <div className="flex flex-col items-end gap-1 text-sm">
+              {quote.totals.positions_discount + quote.totals.document_discount > 0 && (
+                <>
+                  <div>Сумма без скидок: {formatMoney(quote.totals.subtotal)} ₽</div>
+                  <div>Скидка: −{formatMoney(quote.totals.positions_discount + quote.totals.document_discount)} ₽</div>
+                </>
+              )}
+              {pricing.vat_mode !== "none" && (
+                <div data-testid="text-vat-amount">
+                  {pricing.vat_mode === "included" ? "В т.ч. НДС" : "НДС"} {pricing.vat_rate}%: {formatMoney(quote.totals.vat_amount)} ₽
+                </div>
+              )}
               <div className="text-lg font-semibold" data-testid="text-grand-total">
-                Итого: {grandTotal.toLocaleString('ru-RU', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ₽
+                Итого: {formatMoney(grandTotal)} ₽
               </div>
             </div>
 
@@ -0,0 +1,268 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Undo2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Client, DealContact, RecordMerge } from "@shared/schema";
+
+type MatchReason = "inn" | "email" | "phone" | "name";
+
+interface DuplicatePair<T> {
+  a: T;
+  b: T;
+  score: number;
+  reasons: MatchReason[];
+  name_similarity: number;
+}
+
+interface DealContactWithDeal extends DealContact {
+  deal_title: string | null;
+  deal_order_number: string | null;
+}
+
+interface DuplicatesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const reasonLabels: Record<MatchReason, string> = {
+  inn: "ИНН",
+  email: "Email",
+  phone: "Телефон",
+  name: "Имя",
+};
+
+function RecordSummary({ name, details }: { name: string; details: Array<string | null | undefined> }) {
+  return (
+    <div className="min-w-0">
+      <p className="font-medium truncate">{name}</p>
+      <p className="text-xs text-muted-foreground truncate">
+        {details.filter(Boolean).join(" · ") || "—"}
+      </p>
+    </div>
+  );
+}
+
+function PairRow({
+  score,
+  reasons,
+  left,
+  right,
+  onKeepLeft,
+  onKeepRight,
+  disabled,
+}: {
+  score: number;
+  reasons: MatchReason[];
+  left: React.ReactNode;
+  right: React.ReactNode;
+  onKeepLeft?: () => void;
+  onKeepRight?: () => void;
+  disabled: boolean;
+}) {
+  return (
+    <div className="p-3 border rounded-lg space-y-3">
+      <div className="flex items-center gap-2">
+        <Badge variant={score >= 0.9 ? "destructive" : "secondary"}>{Math.round(score * 100)}%</Badge>
+        {reasons.map((reason) => (
+          <Badge key={reason} variant="outline">{reasonLabels[reason]}</Badge>
+        ))}
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          {left}
+          {onKeepLeft && (
+            <Button size="sm" variant="outline" onClick={onKeepLeft} disabled={disabled}>
+              Оставить эту запись
+            </Button>
+          )}
+        </div>
+        <div className="space-y-2">
+          {right}
+          {onKeepRight && (
+            <Button size="sm" variant="outline" onClick={onKeepRight} disabled={disabled}>
+              Оставить эту запись
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function DuplicatesDialog({ open, onOpenChange }: DuplicatesDialogProps) {
+  const { toast } = useToast();
+
+  const { data: clientPairs = [], isLoading: isLoadingClients } = useQuery<DuplicatePair<Client>[]>({
+    queryKey: ["/api/duplicates/clients"],
+    enabled: open,
+  });
+
+  const { data: contactPairs = [], isLoading: isLoadingContacts } = useQuery<DuplicatePair<DealContactWithDeal>[]>({
+    queryKey: ["/api/duplicates/deal-contacts"],
+    enabled: open,
+  });
+
+  const { data: merges = [] } = useQuery<RecordMerge[]>({
+    queryKey: ["/api/duplicates/merges"],
+    enabled: open,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/duplicates/clients"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/duplicates/deal-contacts"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/duplicates/merges"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/clients"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/deals"] });
+  };
+
+  const mergeMutation = useMutation({
+    mutationFn: async ({ type, survivor_id, merged_id }: { type: "clients" | "deal-contacts"; survivor_id: string; merged_id: string }) => {
+      return await apiRequest("POST", `/api/duplicates/${type}/merge`, { survivor_id, merged_id });
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Успешно", description: "Записи объединены. Отменить можно в журнале." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Ошибка", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const undoMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("POST", `/api/duplicates/merges/${id}/undo`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Успешно", description: "Объединение отменено" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Ошибка", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const mergedName = (merge: RecordMerge) => {
+    try {
+      return JSON.parse(merge.merged_record).name || merge.merged_id;
+    } catch {
+      return merge.merged_id;
+    }
+  };
+
+  const survivorName = (merge: RecordMerge) => {
+    try {
+      return JSON.parse(merge.survivor_before).name || merge.survivor_id;
+    } catch {
+      return merge.survivor_id;
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Возможные дубли</DialogTitle>
+        </DialogHeader>
+
+        <Tabs defaultValue="clients">
+          <TabsList className="w-full">
+            <TabsTrigger value="clients" className="flex-1">Клиенты ({clientPairs.length})</TabsTrigger>
+            <TabsTrigger value="contacts" className="flex-1">Контакты сделок ({contactPairs.length})</TabsTrigger>
+            <TabsTrigger value="merges" className="flex-1">Журнал</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="clients" className="mt-4 space-y-2">
+            {isLoadingClients ? (
+              <Skeleton className="h-24 w-full" />
+            ) : clientPairs.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">Дублей не найдено</div>
+            ) : (
+              clientPairs.map((pair) => (
+                <PairRow
+                  key={`${pair.a.id}-${pair.b.id}`}
+                  score={pair.score}
+                  reasons={pair.reasons}
+                  left={<RecordSummary name={pair.a.name} details={[pair.a.phone, pair.a.email, pair.a.inn && `ИНН ${pair.a.inn}`]} />}
+                  right={<RecordSummary name={pair.b.name} details={[pair.b.phone, pair.b.email, pair.b.inn && `ИНН ${pair.b.inn}`]} />}
+                  onKeepLeft={() => mergeMutation.mutate({ type: "clients", survivor_id: pair.a.id, merged_id: pair.b.id })}
+                  onKeepRight={() => mergeMutation.mutate({ type: "clients", survivor_id: pair.b.id, merged_id: pair.a.id })}
+                  disabled={mergeMutation.isPending}
+                />
+              ))
+            )}
+          </TabsContent>
+
+          <TabsContent value="contacts" className="mt-4 space-y-2">
+            <p className="text-sm text-muted-foreground">
+              Объединяются только контакты одной сделки. Один человек в разных сделках — привяжите сделки к одной карточке клиента.
+            </p>
+            {isLoadingContacts ? (
+              <Skeleton className="h-24 w-full" />
+            ) : contactPairs.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">Дублей не найдено</div>
+            ) : (
+              contactPairs.map((pair) => {
+                const sameDeal = pair.a.deal_id === pair.b.deal_id;
+                const dealLabel = (contact: DealContactWithDeal) => contact.deal_title || contact.deal_order_number || "Сделка";
+                return (
+                  <PairRow
+                    key={`${pair.a.id}-${pair.b.id}`}
+                    score={pair.score}
+                    reasons={pair.reasons}
+                    left={<RecordSummary name={pair.a.name} details={[dealLabel(pair.a), pair.a.phone, pair.a.email]} />}
+                    right={<RecordSummary name={pair.b.name} details={[dealLabel(pair.b), pair.b.phone, pair.b.email]} />}
+                    onKeepLeft={sameDeal ? () => mergeMutation.mutate({ type: "deal-contacts", survivor_id: pair.a.id, merged_id: pair.b.id }) : undefined}
+                    onKeepRight={sameDeal ? () => mergeMutation.mutate({ type: "deal-contacts", survivor_id: pair.b.id, merged_id: pair.a.id }) : undefined}
+                    disabled={mergeMutation.isPending}
+                  />
+                );
+              })
+            )}
+          </TabsContent>
+
+          <TabsContent value="merges" className="mt-4 space-y-2">
+            {merges.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">Объединений ещё не было</div>
+            ) : (
+              merges.map((merge) => (
+                <div key={merge.id} className="flex items-center justify-between gap-4 p-3 border rounded-lg">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">
+                      {mergedName(merge)} → {survivorName(merge)}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {merge.entity_type === "client" ? "Клиент" : "Контакт сделки"} · {new Date(merge.created_at).toLocaleString("ru-RU")}
+                    </p>
+                  </div>
+                  {merge.undone_at ? (
+                    <Badge variant="secondary">Отменено</Badge>
+                  ) : (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => undoMutation.mutate(merge.id)}
+                      disabled={undoMutation.isPending}
+                    >
+                      <Undo2 className="h-4 w-4 mr-1" />
+                      Отменить
+                    </Button>
+                  )}
+                </div>
+              ))
+            )}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -7,7 +7,7 @@ interface InlineEditFieldProps {
   value: string | number | null | undefined;
   onSave: (value: string) => void;
   label: string;
-  type?: 'text' | 'email' | 'tel' | 'number';
+  type?: 'text' | 'email' | 'tel' | 'number' | 'date';
   placeholder?: string;
   icon?: React.ReactNode;
   formatter?: (value: string | number | null | undefined) => string;
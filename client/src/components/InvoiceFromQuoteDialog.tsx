@@ -12,15 +12,19 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { Plus, Trash2, Image as ImageIcon, X, ZoomIn } from "lucide-react";
-import { apiRequest, queryClient, getCurrentUserId } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import type { DealDocument } from "@shared/schema";
+import { calculateQuote, parseQuotePricing } from "@shared/quotePricing";
+import type { QuotePricing } from "@shared/quotePricing";
 
 const positionSchema = z.object({
+  catalog_item_id: z.string().nullable().optional(),
   name: z.string().min(1, "Введите название"),
   price: z.coerce.number().min(0, "Цена должна быть больше 0"),
   quantity: z.coerce.number().min(1, "Количество должно быть больше 0"),
   unit: z.string().default("шт"),
+  discount_percent: z.coerce.number().min(0).max(100).default(0),
   imageUrl: z.string().optional(),
   height: z.coerce.number().min(0).optional(),
   width: z.coerce.number().min(0).optional(),
@@ -73,6 +77,8 @@ export function InvoiceFromQuoteDialog({
   const isEditing = !!invoiceId;
   const [imagePreview, setImagePreview] = useState<{ url: string; index: number } | null>(null);
   const positionRefs = useRef<(HTMLTableRowElement | null)[]>([]);
+  // Прайс-лист, скидка на документ и НДС переходят в счёт из КП без изменений
+  const [pricing, setPricing] = useState<QuotePricing>(() => parseQuotePricing(undefined));
 
   // Загружаем список КП для данной сделки
   const { data: quotes = [] } = useQuery<DealDocument[]>({
@@ -93,7 +99,6 @@ export function InvoiceFromQuoteDialog({
       const response = await fetch(`/api/deals/${dealId}/documents`, {
         method: 'GET',
         headers: {
-          'X-User-Id': getCurrentUserId(),
           'Content-Type': 'application/json'
         },
         cache: 'no-cache',
@@ -147,10 +152,12 @@ export function InvoiceFromQuoteDialog({
         quote_id: editingInvoice.parent_id || "",
         invoice_number: editingInvoice.name,
         positions: positions.map((pos: any) => ({
+          catalog_item_id: pos.catalog_item_id || null,
           name: pos.name,
           price: pos.price,
           quantity: pos.quantity,
           unit: pos.unit || "шт",
+          discount_percent: pos.discount_percent || 0,
           imageUrl: pos.imageUrl || undefined,
           height: pos.height || undefined,
           width: pos.width || undefined,
@@ -160,6 +167,8 @@ export function InvoiceFromQuoteDialog({
         })),
       });
 
+      setPricing(parseQuotePricing(docData?.pricing));
+
       if (editingInvoice.parent_id) {
         setSelectedQuoteId(editingInvoice.parent_id);
       }
@@ -171,6 +180,7 @@ export function InvoiceFromQuoteDialog({
         positions: [],
       });
       setSelectedQuoteId("");
+      setPricing(parseQuotePricing(undefined));
     }
   }, [editingInvoice, open, isEditing, invoiceId]);
 
@@ -184,10 +194,12 @@ export function InvoiceFromQuoteDialog({
           if (quoteData.positions && Array.isArray(quoteData.positions)) {
             // Сохраняем все поля при копировании позиций из КП
             const positionsWithAllFields = quoteData.positions.map((pos: any) => ({
+              catalog_item_id: pos.catalog_item_id || null,
               name: pos.name,
               price: pos.price,
               quantity: pos.quantity,
               unit: pos.unit || "шт",
+              discount_percent: pos.discount_percent || 0,
               imageUrl: pos.imageUrl || undefined,
               height: pos.height || undefined,
               width: pos.width || undefined,
@@ -196,6 +208,7 @@ export function InvoiceFromQuoteDialog({
               isService: pos.isService || false,
             }));
             replace(positionsWithAllFields);
+            setPricing(parseQuotePricing(quoteData.pricing));
           }
         } catch (e) {
           console.error("Failed to parse quote data:", e);
@@ -206,16 +219,13 @@ export function InvoiceFromQuoteDialog({
 
   const createInvoiceMutation = useMutation({
     mutationFn: async (data: InvoiceFormData) => {
-      const totalAmount = data.positions.reduce(
-        (sum, pos) => sum + pos.price * pos.quantity,
-        0
-      );
+      const totalAmount = calculateQuote(data.positions, pricing).totals.total;
 
       if (isEditing && invoiceId) {
         // Обновляем существующий счёт
         return await apiRequest('PUT', `/api/deals/${dealId}/documents/${invoiceId}`, {
           name: data.invoice_number,
-          data: JSON.stringify({ positions: data.positions }),
+          data: JSON.stringify({ positions: data.positions, pricing }),
           total_amount: totalAmount,
           parent_id: data.quote_id,
         });
@@ -227,7 +237,7 @@ export function InvoiceFromQuoteDialog({
           name: data.invoice_number,
           version: 1,
           file_url: `placeholder-${Date.now()}`,
-          data: JSON.stringify({ positions: data.positions }),
+          data: JSON.stringify({ positions: data.positions, pricing }),
           total_amount: totalAmount,
           parent_id: data.quote_id,
           is_signed: false,
@@ -305,10 +315,17 @@ export function InvoiceFromQuoteDialog({
     createInvoiceMutation.mutate(data);
   };
 
-  const totalAmount = fields.reduce(
-    (sum, field) => sum + (field.price || 0) * (field.quantity || 1),
-    0
+  const positions = form.watch("positions");
+  const quote = calculateQuote(
+    positions.map((pos) => ({
+      ...pos,
+      price: Number(pos.price) || 0,
+      quantity: Number(pos.quantity) || 1,
+      discount_percent: Number(pos.discount_percent) || 0,
+    })),
+    pricing
   );
+  const totalAmount = quote.totals.total;
 
   return (
     <TooltipProvider>
@@ -378,7 +395,7 @@ export function InvoiceFromQuoteDialog({
                     type="button"
                     variant="outline"
                     size="sm"
-                    onClick={() => append({ name: "", price: 0, quantity: 1, unit: "шт", imageUrl: undefined, height: undefined, width: undefined, depth: undefined, description: undefined })}
+                    onClick={() => append({ name: "", price: 0, quantity: 1, unit: "шт", imageUrl: undefined, height: undefined, width: undefined, depth: undefined, description: undefined, discount_percent: 0 })}
                   >
                     <Plus className="w-4 h-4 mr-2" />
                     Добавить позицию
@@ -435,6 +452,8 @@ export function InvoiceFromQuoteDialog({
                                     placeholder="0"
                                     min="0"
                                     step="0.01"
+                                    readOnly={!!positions[index]?.catalog_item_id}
+                                    title={positions[index]?.catalog_item_id ? "Цена из прайс-листа" : undefined}
                                   />
                                 </FormControl>
                                 <FormMessage />
@@ -578,7 +597,7 @@ export function InvoiceFromQuoteDialog({
                           />
                         </TableCell>
                         <TableCell className="text-right font-medium">
-                          {((field.price || 0) * (field.quantity || 1)).toLocaleString("ru-RU")} ₽
+                          {(quote.positions[index]?.total ?? 0).toLocaleString("ru-RU")} ₽
                         </TableCell>
                         <TableCell>
                           <div className="flex items-center justify-center gap-1">
@@ -631,8 +650,20 @@ export function InvoiceFromQuoteDialog({
                 </Table>
                 </div>
 
-                <div className="flex justify-end text-lg font-semibold pt-2 border-t">
-                  Итого: {totalAmount.toLocaleString("ru-RU")} ₽
+                <div className="flex flex-col items-end gap-1 pt-2 border-t">
+                  {quote.totals.positions_discount + quote.totals.document_discount > 0 && (
+                    <div className="text-sm">
+                      Скидка: −{(quote.totals.positions_discount + quote.totals.document_discount).toLocaleString("ru-RU")} ₽
+                    </div>
+                  )}
+                  {pricing.vat_mode !== "none" && (
+                    <div className="text-sm">
+                      {pricing.vat_mode === "included" ? "В т.ч. НДС" : "НДС"} {pricing.vat_rate}%: {quote.totals.vat_amount.toLocaleString("ru-RU")} ₽
+                    </div>
+                  )}
+                  <div className="text-lg font-semibold">
+                    Итого: {totalAmount.toLocaleString("ru-RU")} ₽
+                  </div>
                 </div>
               </div>
             )}
@@ -0,0 +1,504 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Inbox, KeyRound, Plus, Trash2, Edit } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { format } from "date-fns";
+import type { DealStage, InboundLead, LeadSource, SalesPipeline, User } from "@shared/schema";
+import {
+  LEAD_ASSIGNMENT_MODES,
+  LEAD_RULE_FIELDS,
+  leadAssignmentModeValues,
+  parseLeadAssignment,
+  type LeadAssignment,
+  type LeadRuleField,
+} from "@shared/leadIntake";
+
+type PublicLeadSource = Omit<LeadSource, "token_hash">;
+
+// Значение Select для «по умолчанию» (Radix не допускает пустую строку)
+const DEFAULT_VALUE = "__default__";
+
+const LEAD_STATUS_LABELS: Record<string, string> = {
+  created: "Новая сделка",
+  duplicate: "Повтор",
+  test: "Тест",
+};
+
+function formatDate(value: string | Date | null) {
+  return value ? format(new Date(value), "dd.MM.yyyy HH:mm") : "—";
+}
+
+function intakeUrl(token: string) {
+  return `${window.location.origin}/api/leads/intake/${token}`;
+}
+
+export function LeadSourcesManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingSource, setEditingSource] = useState<PublicLeadSource | null>(null);
+  const [name, setName] = useState("");
+  const [pipelineId, setPipelineId] = useState(DEFAULT_VALUE);
+  const [stage, setStage] = useState(DEFAULT_VALUE);
+  const [assignment, setAssignment] = useState<LeadAssignment>(parseLeadAssignment(null));
+  const [issuedToken, setIssuedToken] = useState<string | null>(null);
+  const [leadsSource, setLeadsSource] = useState<PublicLeadSource | null>(null);
+
+  const { data: sources = [], isLoading } = useQuery<PublicLeadSource[]>({
+    queryKey: ["/api/lead-sources"],
+  });
+
+  const { data: pipelines = [] } = useQuery<SalesPipeline[]>({
+    queryKey: ["/api/sales-pipelines"],
+  });
+
+  const { data: stages = [] } = useQuery<DealStage[]>({
+    queryKey: ["/api/deal-stages"],
+  });
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const { data: leads = [], isLoading: leadsLoading } = useQuery<InboundLead[]>({
+    queryKey: [`/api/leads?source_id=${leadsSource?.id}`],
+    enabled: !!leadsSource,
+  });
+
+  const managers = users.filter((user) => user.is_active && !user.is_service_account);
+  const userName = (id: string | null) => users.find((user) => user.id === id)?.full_name || "—";
+
+  const defaultPipelineId = pipelines.find((pipeline) => pipeline.is_default)?.id;
+  const pipelineStages = stages.filter((s) => s.pipeline_id === (pipelineId === DEFAULT_VALUE ? defaultPipelineId : pipelineId));
+
+  const showError = (error: Error) => {
+    toast({
+      title: "Ошибка",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["/api/lead-sources"] });
+
+  const saveSourceMutation = useMutation({
+    mutationFn: async () => {
+      const payload = {
+        name,
+        pipeline_id: pipelineId === DEFAULT_VALUE ? null : pipelineId,
+        stage: stage === DEFAULT_VALUE ? null : stage,
+        assignment,
+      };
+      return editingSource
+        ? await apiRequest<PublicLeadSource>("PUT", `/api/lead-sources/${editingSource.id}`, payload)
+        : await apiRequest<{ token: string }>("POST", "/api/lead-sources", payload);
+    },
+    onSuccess: (data) => {
+      invalidate();
+      setDialogOpen(false);
+      if ("token" in data) {
+        setIssuedToken(data.token);
+      } else {
+        toast({ description: "Источник заявок сохранён" });
+      }
+    },
+    onError: showError,
+  });
+
+  const toggleActiveMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      return await apiRequest("PUT", `/api/lead-sources/${id}`, { is_active: isActive });
+    },
+    onSuccess: invalidate,
+    onError: showError,
+  });
+
+  const regenerateTokenMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest<{ token: string }>("POST", `/api/lead-sources/${id}/token`);
+    },
+    onSuccess: (data) => {
+      invalidate();
+      setIssuedToken(data.token);
+    },
+    onError: showError,
+  });
+
+  const deleteSourceMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/lead-sources/${id}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ description: "Источник заявок удалён" });
+    },
+    onError: showError,
+  });
+
+  const openDialog = (source?: PublicLeadSource) => {
+    setEditingSource(source || null);
+    setName(source?.name || "");
+    setPipelineId(source?.pipeline_id || DEFAULT_VALUE);
+    setStage(source?.stage || DEFAULT_VALUE);
+    setAssignment(parseLeadAssignment(source?.assignment));
+    setDialogOpen(true);
+  };
+
+  const toggleManager = (id: string, checked: boolean) => {
+    setAssignment({
+      ...assignment,
+      manager_ids: checked
+        ? [...assignment.manager_ids, id]
+        : assignment.manager_ids.filter((managerId) => managerId !== id),
+    });
+  };
+
+  const updateRule = (index: number, patch: Partial<LeadAssignment["rules"][number]>) => {
+    setAssignment({
+      ...assignment,
+      rules: assignment.rules.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)),
+    });
+  };
+
+  const addRule = () => {
+    setAssignment({
+      ...assignment,
+      rules: [...assignment.rules, { field: "utm_source", value: "", manager_id: managers[0]?.id || "" }],
+    });
+  };
+
+  const removeRule = (index: number) => {
+    setAssignment({ ...assignment, rules: assignment.rules.filter((_, i) => i !== index) });
+  };
+
+  const assignmentSummary = (source: PublicLeadSource) => {
+    const settings = parseLeadAssignment(source.assignment);
+    const parts: string[] = [LEAD_ASSIGNMENT_MODES[settings.mode]];
+    if (settings.mode !== "none" && settings.manager_ids.length > 0) {
+      parts.push(settings.manager_ids.map(userName).join(", "));
+    }
+    if (settings.rules.length > 0) parts.push(`правил: ${settings.rules.length}`);
+    return parts.join(" · ");
+  };
+
+  const pipelineName = (source: PublicLeadSource) =>
+    pipelines.find((pipeline) => pipeline.id === source.pipeline_id)?.name || "Основная воронка";
+
+  const canSave = !!name.trim() && assignment.rules.every((rule) => rule.value.trim() && rule.manager_id);
+
+  return (
+    <>
+      <div className="flex items-center justify-between flex-wrap gap-4">
+        <p className="text-xs md:text-sm text-muted-foreground">
+          Приём заявок с сайта, Tilda и маркетплейсов: форма отправляет POST (JSON или form-urlencoded) на адрес источника.
+          Заявка с телефоном или email клиента, у которого уже есть открытая сделка, дописывается к ней.
+        </p>
+        <Button onClick={() => openDialog()} data-testid="button-create-lead-source">
+          <Plus className="h-4 w-4 mr-2" />
+          Добавить источник
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-32" />
+      ) : sources.length === 0 ? (
+        <Card>
+          <CardContent className="py-8 text-center text-muted-foreground">Источников заявок нет</CardContent>
+        </Card>
+      ) : (
+        sources.map((source) => (
+          <Card key={source.id} data-testid={`lead-source-${source.id}`}>
+            <CardHeader className="flex flex-row items-start justify-between gap-4">
+              <div>
+                <CardTitle className="text-lg">{source.name}</CardTitle>
+                <CardDescription className="font-mono">{source.token_prefix}…</CardDescription>
+                <div className="flex flex-wrap gap-1 mt-2">
+                  <Badge variant="secondary">
+                    {pipelineName(source)}
+                    {source.stage && ` → ${stages.find((s) => s.key === source.stage)?.name || source.stage}`}
+                  </Badge>
+                  <Badge variant="outline">{assignmentSummary(source)}</Badge>
+                </div>
+                <p className="text-xs text-muted-foreground mt-2">Последняя заявка: {formatDate(source.last_lead_at)}</p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  checked={source.is_active}
+                  onCheckedChange={(checked) => toggleActiveMutation.mutate({ id: source.id, isActive: checked })}
+                  title={source.is_active ? "Принимает заявки" : "Отключён"}
+                />
+                <Button variant="ghost" size="icon" title="Заявки" onClick={() => setLeadsSource(source)}>
+                  <Inbox className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="Новый токен"
+                  onClick={() => {
+                    if (confirm(`Выпустить новый токен для «${source.name}»? Старый адрес перестанет принимать заявки.`)) {
+                      regenerateTokenMutation.mutate(source.id);
+                    }
+                  }}
+                >
+                  <KeyRound className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => openDialog(source)}>
+                  <Edit className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => {
+                    if (confirm(`Удалить источник «${source.name}»? Журнал заявок сохранится.`)) {
+                      deleteSourceMutation.mutate(source.id);
+                    }
+                  }}
+                >
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              </div>
+            </CardHeader>
+          </Card>
+        ))
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingSource ? "Источник заявок" : "Новый источник заявок"}</DialogTitle>
+            <DialogDescription>Название источника записывается в сделку как источник лида.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="lead-source-name">Название</Label>
+              <Input
+                id="lead-source-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Сайт — форма обратного звонка"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Воронка</Label>
+                <Select
+                  value={pipelineId}
+                  onValueChange={(value) => {
+                    setPipelineId(value);
+                    setStage(DEFAULT_VALUE);
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={DEFAULT_VALUE}>Основная воронка</SelectItem>
+                    {pipelines.map((pipeline) => (
+                      <SelectItem key={pipeline.id} value={pipeline.id}>{pipeline.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Этап</Label>
+                <Select value={stage} onValueChange={setStage}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={DEFAULT_VALUE}>Первый этап воронки</SelectItem>
+                    {pipelineStages.map((s) => (
+                      <SelectItem key={s.id} value={s.key}>{s.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Распределение по менеджерам</Label>
+              <Select
+                value={assignment.mode}
+                onValueChange={(value) => setAssignment({ ...assignment, mode: value as LeadAssignment["mode"] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {leadAssignmentModeValues.map((mode) => (
+                    <SelectItem key={mode} value={mode}>{LEAD_ASSIGNMENT_MODES[mode]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {assignment.mode !== "none" && (
+                <div className="grid grid-cols-2 gap-2 rounded-md border p-3">
+                  {managers.map((user) => (
+                    <label key={user.id} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={assignment.manager_ids.includes(user.id)}
+                        onCheckedChange={(checked) => toggleManager(user.id, checked === true)}
+                      />
+                      {user.full_name}
+                    </label>
+                  ))}
+                </div>
+              )}
+              <p className="text-xs text-muted-foreground">
+                «Один менеджер» — первый отмеченный, «По очереди» — отмеченные менеджеры по кругу.
+                Если клиент уже есть в базе, сделка достаётся менеджеру его последней сделки.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Правила</Label>
+                <Button variant="outline" size="sm" onClick={addRule} disabled={managers.length === 0}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  Правило
+                </Button>
+              </div>
+              {assignment.rules.map((rule, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Select value={rule.field} onValueChange={(value) => updateRule(index, { field: value as LeadRuleField })}>
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(LEAD_RULE_FIELDS) as LeadRuleField[]).map((field) => (
+                        <SelectItem key={field} value={field}>{LEAD_RULE_FIELDS[field]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    value={rule.value}
+                    onChange={(e) => updateRule(index, { value: e.target.value })}
+                    placeholder="содержит…"
+                  />
+                  <Select value={rule.manager_id} onValueChange={(value) => updateRule(index, { manager_id: value })}>
+                    <SelectTrigger className="w-48">
+                      <SelectValue placeholder="Менеджер" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {managers.map((user) => (
+                        <SelectItem key={user.id} value={user.id}>{user.full_name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button variant="ghost" size="icon" onClick={() => removeRule(index)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <p className="text-xs text-muted-foreground">
+                Правила проверяются по порядку до режима распределения, например utm_source содержит «avito».
+              </p>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Отмена</Button>
+            <Button onClick={() => saveSourceMutation.mutate()} disabled={saveSourceMutation.isPending || !canSave}>
+              {saveSourceMutation.isPending ? "Сохранение..." : "Сохранить"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!issuedToken} onOpenChange={(open) => !open && setIssuedToken(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Адрес для приёма заявок</DialogTitle>
+            <DialogDescription>
+              Укажите этот адрес в настройках формы или вебхука. Токен хранится только в виде хеша и больше показан не будет.
+            </DialogDescription>
+          </DialogHeader>
+          <p className="font-mono text-sm break-all select-all rounded-md border p-3" data-testid="text-lead-intake-url">
+            {issuedToken && intakeUrl(issuedToken)}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            Поля формы: name, phone, email, company, comment и utm_*. Нужен телефон или email.
+          </p>
+          <DialogFooter>
+            <Button onClick={() => setIssuedToken(null)}>Готово</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!leadsSource} onOpenChange={(open) => !open && setLeadsSource(null)}>
+        <DialogContent className="max-w-4xl max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Заявки</DialogTitle>
+            <DialogDescription>{leadsSource?.name}</DialogDescription>
+          </DialogHeader>
+          {leadsLoading ? (
+            <Skeleton className="h-32" />
+          ) : leads.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Заявок пока не было</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Дата</TableHead>
+                  <TableHead>Контакт</TableHead>
+                  <TableHead>UTM</TableHead>
+                  <TableHead>Результат</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {leads.map((lead) => (
+                  <TableRow key={lead.id}>
+                    <TableCell className="text-xs">{formatDate(lead.created_at)}</TableCell>
+                    <TableCell>
+                      <p className="text-sm">{lead.name || "—"}</p>
+                      <p className="text-xs text-muted-foreground">{[lead.phone, lead.email].filter(Boolean).join(", ")}</p>
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      {[lead.utm_source, lead.utm_medium, lead.utm_campaign].filter(Boolean).join(" / ") || "—"}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={lead.status === "created" ? "secondary" : "outline"}>
+                        {LEAD_STATUS_LABELS[lead.status] || lead.status}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
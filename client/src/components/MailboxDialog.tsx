@@ -0,0 +1,195 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Mailbox } from "@shared/schema";
+
+type PublicMailbox = Omit<Mailbox, "password">;
+
+interface MailboxDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  mailbox?: PublicMailbox | null;
+}
+
+// Серверы популярных почтовых сервисов подставляются по домену адреса
+const KNOWN_PROVIDERS: Record<string, { imap_host: string; smtp_host: string }> = {
+  "yandex.ru": { imap_host: "imap.yandex.ru", smtp_host: "smtp.yandex.ru" },
+  "ya.ru": { imap_host: "imap.yandex.ru", smtp_host: "smtp.yandex.ru" },
+  "mail.ru": { imap_host: "imap.mail.ru", smtp_host: "smtp.mail.ru" },
+  "bk.ru": { imap_host: "imap.mail.ru", smtp_host: "smtp.mail.ru" },
+  "inbox.ru": { imap_host: "imap.mail.ru", smtp_host: "smtp.mail.ru" },
+  "gmail.com": { imap_host: "imap.gmail.com", smtp_host: "smtp.gmail.com" },
+};
+
+const emptyForm = {
+  email: "",
+  display_name: "",
+  imap_host: "",
+  imap_port: "993",
+  imap_secure: true,
+  smtp_host: "",
+  smtp_port: "465",
+  smtp_secure: true,
+  username: "",
+  password: "",
+};
+
+// Подключение IMAP/SMTP ящика; сервер проверяет вход до сохранения
+export function MailboxDialog({ open, onOpenChange, mailbox }: MailboxDialogProps) {
+  const { toast } = useToast();
+  const [form, setForm] = useState(emptyForm);
+
+  useEffect(() => {
+    if (!open) return;
+    setForm(mailbox ? {
+      email: mailbox.email,
+      display_name: mailbox.display_name || "",
+      imap_host: mailbox.imap_host,
+      imap_port: String(mailbox.imap_port),
+      imap_secure: mailbox.imap_secure,
+      smtp_host: mailbox.smtp_host,
+      smtp_port: String(mailbox.smtp_port),
+      smtp_secure: mailbox.smtp_secure,
+      username: mailbox.username,
+      password: "",
+    } : emptyForm);
+  }, [open, mailbox?.id]);
+
+  const set = (patch: Partial<typeof emptyForm>) => setForm((current) => ({ ...current, ...patch }));
+
+  const handleEmailBlur = () => {
+    const domain = form.email.split("@")[1]?.toLowerCase();
+    const provider = domain ? KNOWN_PROVIDERS[domain] : undefined;
+    set({
+      username: form.username || form.email,
+      ...(provider && !form.imap_host && !form.smtp_host ? provider : {}),
+    });
+  };
+
+  const saveMailbox = useMutation({
+    mutationFn: async () => {
+      const payload = {
+        ...form,
+        display_name: form.display_name || null,
+        imap_port: Number(form.imap_port),
+        smtp_port: Number(form.smtp_port),
+      };
+      return mailbox
+        ? await apiRequest("PUT", `/api/mailboxes/${mailbox.id}`, payload)
+        : await apiRequest("POST", "/api/mailboxes", payload);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/mailboxes"] });
+      onOpenChange(false);
+      toast({ description: mailbox ? "Настройки ящика сохранены" : "Ящик подключён, письма появятся через минуту" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Не удалось подключиться", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const canSave = !!form.email && !!form.imap_host && !!form.smtp_host && !!form.username && (!!mailbox || !!form.password);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]" data-testid="dialog-mailbox">
+        <DialogHeader>
+          <DialogTitle>{mailbox ? "Почтовый ящик" : "Подключить почту"}</DialogTitle>
+          <DialogDescription>
+            Для Яндекса, Mail.ru и Gmail нужен пароль приложения, а не пароль от аккаунта.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="mailbox-email">Email</Label>
+              <Input
+                id="mailbox-email"
+                value={form.email}
+                onChange={(e) => set({ email: e.target.value })}
+                onBlur={handleEmailBlur}
+                placeholder="manager@company.ru"
+                data-testid="input-mailbox-email"
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="mailbox-name">Имя отправителя</Label>
+              <Input id="mailbox-name" value={form.display_name} onChange={(e) => set({ display_name: e.target.value })} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-[1fr_90px_auto] items-end gap-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="mailbox-imap-host">IMAP-сервер</Label>
+              <Input id="mailbox-imap-host" value={form.imap_host} onChange={(e) => set({ imap_host: e.target.value })} />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="mailbox-imap-port">Порт</Label>
+              <Input id="mailbox-imap-port" value={form.imap_port} onChange={(e) => set({ imap_port: e.target.value })} />
+            </div>
+            <label className="flex items-center gap-2 pb-2 text-sm">
+              <Switch checked={form.imap_secure} onCheckedChange={(checked) => set({ imap_secure: checked })} />
+              SSL
+            </label>
+          </div>
+
+          <div className="grid grid-cols-[1fr_90px_auto] items-end gap-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="mailbox-smtp-host">SMTP-сервер</Label>
+              <Input id="mailbox-smtp-host" value={form.smtp_host} onChange={(e) => set({ smtp_host: e.target.value })} />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="mailbox-smtp-port">Порт</Label>
+              <Input id="mailbox-smtp-port" value={form.smtp_port} onChange={(e) => set({ smtp_port: e.target.value })} />
+            </div>
+            <label className="flex items-center gap-2 pb-2 text-sm">
+              <Switch checked={form.smtp_secure} onCheckedChange={(checked) => set({ smtp_secure: checked })} />
+              SSL
+            </label>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="mailbox-username">Логин</Label>
+              <Input id="mailbox-username" value={form.username} onChange={(e) => set({ username: e.target.value })} />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="mailbox-password">Пароль</Label>
+              <Input
+                id="mailbox-password"
+                type="password"
+                value={form.password}
+                onChange={(e) => set({ password: e.target.value })}
+                placeholder={mailbox ? "Не менять" : ""}
+                data-testid="input-mailbox-password"
+              />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saveMailbox.isPending}>
+            Отмена
+          </Button>
+          <Button onClick={() => saveMailbox.mutate()} disabled={!canSave || saveMailbox.isPending} data-testid="button-save-mailbox">
+            {saveMailbox.isPending ? "Проверка подключения..." : "Сохранить"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
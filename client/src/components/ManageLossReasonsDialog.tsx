@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Trash2 } from "lucide-react";
+import type { LossReason } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface ManageLossReasonsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Справочник причин проигрыша: изменения сохраняются сразу
+export function ManageLossReasonsDialog({ open, onOpenChange }: ManageLossReasonsDialogProps) {
+  const { toast } = useToast();
+  const [newName, setNewName] = useState("");
+
+  const { data: reasons = [], isLoading } = useQuery<LossReason[]>({
+    queryKey: ["/api/loss-reasons"],
+    enabled: open,
+  });
+
+  const onError = (error: any) => {
+    toast({
+      title: "Ошибка",
+      description: error.message || "Не удалось сохранить справочник",
+      variant: "destructive",
+    });
+  };
+
+  const createReason = useMutation({
+    mutationFn: async (name: string) => {
+      const order = reasons.reduce((max, reason) => Math.max(max, reason.order), 0) + 1;
+      return await apiRequest<LossReason>("POST", "/api/loss-reasons", { name, order });
+    },
+    onSuccess: () => {
+      setNewName("");
+      queryClient.invalidateQueries({ queryKey: ["/api/loss-reasons"] });
+    },
+    onError,
+  });
+
+  const updateReason = useMutation({
+    mutationFn: async ({ id, ...data }: Partial<LossReason> & { id: string }) => {
+      return await apiRequest<LossReason>("PUT", `/api/loss-reasons/${id}`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/loss-reasons"] });
+    },
+    onError,
+  });
+
+  const deleteReason = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest<{ success: boolean; deactivated: boolean }>("DELETE", `/api/loss-reasons/${id}`);
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/loss-reasons"] });
+      if (result.deactivated) {
+        toast({
+          title: "Причина отключена",
+          description: "Она уже указана в сделках, поэтому остаётся в аналитике, но не предлагается при закрытии",
+        });
+      }
+    },
+    onError,
+  });
+
+  const handleAdd = () => {
+    const name = newName.trim();
+    if (name) createReason.mutate(name);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]" data-testid="dialog-loss-reasons">
+        <DialogHeader>
+          <DialogTitle>Причины проигрыша</DialogTitle>
+          <DialogDescription>
+            Из этого списка менеджер выбирает причину, закрывая сделку как проигранную
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 max-h-[50vh] overflow-y-auto">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Загрузка...</p>
+          ) : reasons.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Причин пока нет</p>
+          ) : (
+            reasons.map((reason) => (
+              <div key={reason.id} className="flex items-center gap-2" data-testid={`loss-reason-${reason.id}`}>
+                <Checkbox
+                  checked={reason.is_active}
+                  onCheckedChange={(checked) => updateReason.mutate({ id: reason.id, is_active: checked === true })}
+                  title="Предлагать при закрытии сделки"
+                />
+                <Input
+                  defaultValue={reason.name}
+                  className={reason.is_active ? "" : "text-muted-foreground"}
+                  onBlur={(e) => {
+                    const name = e.target.value.trim();
+                    if (name && name !== reason.name) updateReason.mutate({ id: reason.id, name });
+                  }}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => deleteReason.mutate(reason.id)}
+                  disabled={deleteReason.isPending}
+                  title="Удалить"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleAdd()}
+            placeholder="Новая причина, например «Дорого»"
+            data-testid="input-new-loss-reason"
+          />
+          <Button onClick={handleAdd} disabled={!newName.trim() || createReason.isPending}>
+            <Plus className="h-4 w-4 mr-1" />
+            Добавить
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
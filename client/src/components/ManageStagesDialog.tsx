@@ -28,9 +28,18 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { useToast } from "@/hooks/use-toast";
-import { GripVertical, Trash2, Plus } from "lucide-react";
+import { GripVertical, Trash2, Plus, ShieldCheck } from "lucide-react";
 import type { DealStage } from "@shared/schema";
+import {
+  DEAL_REQUIRED_FIELDS,
+  hasEntryRequirements,
+  parseStageEntryRequirements,
+  stageEntryRequirementsSchema,
+} from "@shared/stageGates";
+import type { DealRequiredField, StageEntryRequirements } from "@shared/stageGates";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import {
   DndContext,
@@ -65,6 +74,101 @@ interface SortableStageItemProps {
   onDelete: (id: string) => void;
 }
 
+interface StageRequirementsPopoverProps {
+  stage: StageEdit;
+  onUpdate: (id: string, updates: Partial<StageEdit>) => void;
+}
+
+// Условия входа сделки в этап: без них сервер не даст перенести сделку
+function StageRequirementsPopover({ stage, onUpdate }: StageRequirementsPopoverProps) {
+  const requirements = parseStageEntryRequirements(stage.entry_requirements) ?? stageEntryRequirementsSchema.parse({});
+  const active = hasEntryRequirements(requirements);
+
+  const update = (patch: Partial<StageEntryRequirements>) => {
+    const next = { ...requirements, ...patch };
+    onUpdate(stage.id, { entry_requirements: hasEntryRequirements(next) ? JSON.stringify(next) : null });
+  };
+
+  const toggleField = (field: DealRequiredField, checked: boolean) => {
+    update({
+      required_fields: checked
+        ? [...requirements.required_fields, field]
+        : requirements.required_fields.filter((f) => f !== field),
+    });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          title="Условия входа в этап"
+          data-testid={`button-stage-requirements-${stage.key}`}
+        >
+          <ShieldCheck className={active ? "h-4 w-4 text-primary" : "h-4 w-4 text-muted-foreground"} />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-3" align="end">
+        <div>
+          <p className="text-sm font-medium">Условия входа в этап</p>
+          <p className="text-xs text-muted-foreground">Сделку нельзя перенести в этап, пока условия не выполнены</p>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-xs font-semibold text-muted-foreground uppercase">Заполнены поля</p>
+          {(Object.keys(DEAL_REQUIRED_FIELDS) as DealRequiredField[]).map((field) => (
+            <div key={field} className="flex items-center gap-2">
+              <Checkbox
+                id={`req-${stage.id}-${field}`}
+                checked={requirements.required_fields.includes(field)}
+                onCheckedChange={(checked) => toggleField(field, checked === true)}
+              />
+              <Label htmlFor={`req-${stage.id}-${field}`} className="text-sm font-normal">
+                {DEAL_REQUIRED_FIELDS[field]}
+              </Label>
+            </div>
+          ))}
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id={`req-${stage.id}-custom`}
+              checked={requirements.custom_fields !== null}
+              onCheckedChange={(checked) => update({ custom_fields: checked === true ? "required" : null })}
+            />
+            <Label htmlFor={`req-${stage.id}-custom`} className="text-sm font-normal">
+              Обязательные доп. поля
+            </Label>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-xs font-semibold text-muted-foreground uppercase">Документы</p>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id={`req-${stage.id}-contract`}
+              checked={requirements.signed_contract}
+              onCheckedChange={(checked) => update({ signed_contract: checked === true })}
+            />
+            <Label htmlFor={`req-${stage.id}-contract`} className="text-sm font-normal">
+              Подписанный договор
+            </Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id={`req-${stage.id}-invoice`}
+              checked={requirements.invoice}
+              onCheckedChange={(checked) => update({ invoice: checked === true })}
+            />
+            <Label htmlFor={`req-${stage.id}-invoice`} className="text-sm font-normal">
+              Выставлен счёт
+            </Label>
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
 function SortableStageItem({ stage, onUpdate, onDelete }: SortableStageItemProps) {
   const {
     attributes,
@@ -99,6 +203,23 @@ function SortableStageItem({ stage, onUpdate, onDelete }: SortableStageItemProps
           data-testid={`input-stage-name-${stage.key}`}
         />
         
+        <div className="flex items-center gap-1">
+          <Input
+            type="number"
+            min={0}
+            max={100}
+            value={stage.win_probability ?? ""}
+            onChange={(e) => onUpdate(stage.id, {
+              win_probability: e.target.value === "" ? null : Math.min(100, Math.max(0, Number(e.target.value))),
+            })}
+            className="w-16"
+            placeholder="—"
+            title="Вероятность выигрыша для прогноза продаж"
+            data-testid={`input-stage-probability-${stage.key}`}
+          />
+          <span className="text-sm text-muted-foreground">%</span>
+        </div>
+
         <div className="flex items-center gap-2">
           <Label htmlFor={`color-${stage.id}`} className="text-sm text-muted-foreground">
             Цвет:
@@ -114,6 +235,8 @@ function SortableStageItem({ stage, onUpdate, onDelete }: SortableStageItemProps
         </div>
       </div>
 
+      <StageRequirementsPopover stage={stage} onUpdate={onUpdate} />
+
       <Button
         variant="ghost"
         size="icon"
@@ -181,6 +304,8 @@ export function ManageStagesDialog({ open, onOpenChange }: ManageStagesDialogPro
       color: "#6366f1",
       order: stages.length + 1,
       pipeline_id: pipelineId,
+      entry_requirements: null,
+      win_probability: null,
       created_at: new Date(),
       isNew: true,
     };
@@ -260,6 +385,8 @@ export function ManageStagesDialog({ open, onOpenChange }: ManageStagesDialogPro
               name: stage.name,
               color: stage.color,
               order: stage.order,
+              entry_requirements: parseStageEntryRequirements(stage.entry_requirements),
+              win_probability: stage.win_probability,
             })
           );
         } else {
@@ -268,6 +395,8 @@ export function ManageStagesDialog({ open, onOpenChange }: ManageStagesDialogPro
               name: stage.name,
               color: stage.color,
               order: stage.order,
+              entry_requirements: parseStageEntryRequirements(stage.entry_requirements),
+              win_probability: stage.win_probability,
             })
           );
         }
@@ -311,6 +440,7 @@ export function ManageStagesDialog({ open, onOpenChange }: ManageStagesDialogPro
             <DialogTitle>Управление этапами</DialogTitle>
             <DialogDescription>
               Измените порядок, название или цвет этапов. Перетащите этапы для изменения порядка.
+              Условия входа в этап задаются кнопкой со щитом, % — вероятность выигрыша для прогноза.
             </DialogDescription>
           </DialogHeader>
 
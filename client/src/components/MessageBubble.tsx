@@ -3,17 +3,19 @@ import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
 import { format } from "date-fns";
 import { ru } from "date-fns/locale";
-import { Check, CheckCheck, MessageSquare, Phone, Mail, CheckSquare } from "lucide-react";
+import { Check, CheckCheck, MessageSquare, Phone, Mail, CheckSquare, Send } from "lucide-react";
 
 interface MessageBubbleProps {
   message: {
     id: string;
     content: string;
+    // null — сообщение клиента из мессенджера или почты
     author: {
       id: string;
       full_name?: string | null;
       username: string;
-    };
+    } | null;
+    sender_name?: string | null;
     created_at: string;
     is_read?: boolean | number;
     direction?: string;
@@ -73,6 +75,8 @@ const MessageTypeIcon = ({ type }: { type: string }) => {
       return <Mail className={iconClass} />;
     case 'task':
       return <CheckSquare className={iconClass} />;
+    case 'telegram':
+      return <Send className={iconClass} />;
     default:
       return <MessageSquare className={iconClass} />;
   }
@@ -89,6 +93,8 @@ const getMessageTypeBadgeClass = (type: string): string => {
       return 'bg-purple-500/10 text-purple-600 border-purple-500/20';
     case 'task':
       return 'bg-orange-500/10 text-orange-600 border-orange-500/20';
+    case 'telegram':
+      return 'bg-sky-500/10 text-sky-600 border-sky-500/20';
     default:
       return 'bg-gray-500/10 text-gray-600 border-gray-500/20';
   }
@@ -121,8 +127,12 @@ function renderMessageContent(message: string) {
 }
 
 export function MessageBubble({ message, currentUserId }: MessageBubbleProps) {
-  const isOutgoing = message.direction === 'outgoing' || message.author.id === currentUserId;
+  // Входящие от клиента всегда слева, даже если скопированы в ленту от имени владельца ящика
+  const isOutgoing = message.direction !== 'incoming' && (message.direction === 'outgoing' || message.author?.id === currentUserId);
   const isRead = message.is_read === true || message.is_read === 1;
+  const authorName = message.author
+    ? message.author.full_name || message.author.username
+    : message.sender_name || 'Клиент';
 
   return (
     <div
@@ -139,7 +149,7 @@ export function MessageBubble({ message, currentUserId }: MessageBubbleProps) {
             ? "bg-blue-500 text-white"
             : "bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-200"
         )}>
-          {getInitials(message.author.full_name, message.author.username)}
+          {getInitials(message.author?.full_name ?? message.sender_name, message.author?.username || authorName)}
         </AvatarFallback>
       </Avatar>
 
@@ -156,7 +166,7 @@ export function MessageBubble({ message, currentUserId }: MessageBubbleProps) {
           isOutgoing ? "flex-row-reverse" : "flex-row"
         )}>
           <span className="text-xs font-medium text-foreground">
-            {message.author.full_name || message.author.username}
+            {authorName}
           </span>
           <Badge
             variant="outline"
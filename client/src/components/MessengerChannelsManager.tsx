@@ -0,0 +1,258 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, RefreshCw, Trash2, Edit } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { format } from "date-fns";
+import type { LeadSource, MessengerChannel } from "@shared/schema";
+
+type PublicMessengerChannel = Omit<MessengerChannel, "token" | "webhook_secret">;
+type PublicLeadSource = Omit<LeadSource, "token_hash">;
+
+const MESSENGER_LABELS: Record<string, string> = {
+  telegram: "Telegram",
+};
+
+function formatDate(value: string | Date | null) {
+  return value ? format(new Date(value), "dd.MM.yyyy HH:mm") : "—";
+}
+
+export function MessengerChannelsManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingChannel, setEditingChannel] = useState<PublicMessengerChannel | null>(null);
+  const [name, setName] = useState("");
+  const [token, setToken] = useState("");
+  const [leadSourceId, setLeadSourceId] = useState("");
+
+  const { data: channels = [], isLoading } = useQuery<PublicMessengerChannel[]>({
+    queryKey: ["/api/messengers/channels"],
+  });
+
+  const { data: sources = [] } = useQuery<PublicLeadSource[]>({
+    queryKey: ["/api/lead-sources"],
+  });
+
+  const showError = (error: Error) => {
+    toast({
+      title: "Ошибка",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["/api/messengers/channels"] });
+
+  const saveChannelMutation = useMutation({
+    mutationFn: async () => {
+      const payload = { name, lead_source_id: leadSourceId, ...(token ? { token } : {}) };
+      return editingChannel
+        ? await apiRequest("PUT", `/api/messengers/channels/${editingChannel.id}`, payload)
+        : await apiRequest("POST", "/api/messengers/channels", { ...payload, type: "telegram" });
+    },
+    onSuccess: () => {
+      invalidate();
+      setDialogOpen(false);
+      toast({ description: editingChannel ? "Канал сохранён" : "Бот подключён, сообщения клиентов появятся в сделках" });
+    },
+    onError: showError,
+  });
+
+  const toggleActiveMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      return await apiRequest("PUT", `/api/messengers/channels/${id}`, { is_active: isActive });
+    },
+    onSuccess: invalidate,
+    onError: showError,
+  });
+
+  const reconnectMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("POST", `/api/messengers/channels/${id}/reconnect`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ description: "Вебхук подключён" });
+    },
+    onError: (error: Error) => {
+      invalidate();
+      showError(error);
+    },
+  });
+
+  const deleteChannelMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/messengers/channels/${id}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ description: "Канал отключён" });
+    },
+    onError: showError,
+  });
+
+  const openDialog = (channel?: PublicMessengerChannel) => {
+    setEditingChannel(channel || null);
+    setName(channel?.name || "");
+    setToken("");
+    setLeadSourceId(channel?.lead_source_id || sources[0]?.id || "");
+    setDialogOpen(true);
+  };
+
+  const sourceName = (id: string) => sources.find((source) => source.id === id)?.name || "—";
+
+  const canSave = !!name.trim() && !!leadSourceId && (!!editingChannel || !!token.trim());
+
+  return (
+    <>
+      <div className="flex items-center justify-between flex-wrap gap-4">
+        <p className="text-xs md:text-sm text-muted-foreground">
+          Telegram-боты: сообщения клиентов попадают в ленту сделки, новый собеседник оформляется заявкой выбранного источника.
+          Ответить клиенту можно из карточки сделки.
+        </p>
+        <Button onClick={() => openDialog()} data-testid="button-create-messenger-channel">
+          <Plus className="h-4 w-4 mr-2" />
+          Подключить бота
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-32" />
+      ) : channels.length === 0 ? (
+        <Card>
+          <CardContent className="py-8 text-center text-muted-foreground">Мессенджеры не подключены</CardContent>
+        </Card>
+      ) : (
+        channels.map((channel) => (
+          <Card key={channel.id} data-testid={`messenger-channel-${channel.id}`}>
+            <CardHeader className="flex flex-row items-start justify-between gap-4">
+              <div>
+                <CardTitle className="text-lg">{channel.name}</CardTitle>
+                <CardDescription>
+                  {MESSENGER_LABELS[channel.type] || channel.type}
+                  {channel.account_name && ` · ${channel.account_name}`}
+                </CardDescription>
+                <div className="flex flex-wrap gap-1 mt-2">
+                  <Badge variant="secondary">Заявки: {sourceName(channel.lead_source_id)}</Badge>
+                  {channel.last_error && <Badge variant="destructive">{channel.last_error}</Badge>}
+                </div>
+                <p className="text-xs text-muted-foreground mt-2">Последнее сообщение: {formatDate(channel.last_message_at)}</p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  checked={channel.is_active}
+                  onCheckedChange={(checked) => toggleActiveMutation.mutate({ id: channel.id, isActive: checked })}
+                  title={channel.is_active ? "Принимает сообщения" : "Отключён"}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="Переподключить вебхук"
+                  onClick={() => reconnectMutation.mutate(channel.id)}
+                  disabled={reconnectMutation.isPending}
+                >
+                  <RefreshCw className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => openDialog(channel)}>
+                  <Edit className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => {
+                    if (confirm(`Отключить «${channel.name}»? Переписка в сделках сохранится.`)) {
+                      deleteChannelMutation.mutate(channel.id);
+                    }
+                  }}
+                >
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              </div>
+            </CardHeader>
+          </Card>
+        ))
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-[520px]">
+          <DialogHeader>
+            <DialogTitle>{editingChannel ? "Канал мессенджера" : "Подключить Telegram-бота"}</DialogTitle>
+            <DialogDescription>
+              Токен выдаёт @BotFather. Серверу нужен внешний https-адрес (переменная PUBLIC_URL), иначе Telegram не доставит сообщения.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="messenger-channel-name">Название</Label>
+              <Input
+                id="messenger-channel-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Telegram — отдел продаж"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="messenger-channel-token">Токен бота</Label>
+              <Input
+                id="messenger-channel-token"
+                type="password"
+                value={token}
+                onChange={(e) => setToken(e.target.value)}
+                placeholder={editingChannel ? "Не менять" : "123456:ABC..."}
+                data-testid="input-messenger-token"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Источник заявок</Label>
+              <Select value={leadSourceId} onValueChange={setLeadSourceId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Выберите источник" />
+                </SelectTrigger>
+                <SelectContent>
+                  {sources.map((source) => (
+                    <SelectItem key={source.id} value={source.id}>{source.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Воронка, этап и распределение менеджеров для новых собеседников берутся из источника.
+              </p>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={saveChannelMutation.isPending}>
+              Отмена
+            </Button>
+            <Button onClick={() => saveChannelMutation.mutate()} disabled={!canSave || saveChannelMutation.isPending}>
+              {saveChannelMutation.isPending ? "Подключение..." : "Сохранить"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
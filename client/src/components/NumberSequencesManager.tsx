@@ -0,0 +1,188 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Save, Settings2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { NumberSequence } from "@shared/schema";
+import { formatSequenceNumber, NUMBER_SEQUENCE_LABELS } from "@shared/numbering";
+import type { NumberSequenceKey } from "@shared/numbering";
+
+type SequenceDraft = Pick<NumberSequence, "prefix" | "suffix" | "padding" | "next_value" | "reset_yearly">;
+
+const toDraft = (sequence: NumberSequence): SequenceDraft => ({
+  prefix: sequence.prefix,
+  suffix: sequence.suffix,
+  padding: sequence.padding,
+  next_value: sequence.next_value,
+  reset_yearly: sequence.reset_yearly,
+});
+
+export function NumberSequencesManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [drafts, setDrafts] = useState<Record<string, SequenceDraft>>({});
+
+  const { data, isLoading } = useQuery<NumberSequence[]>({
+    queryKey: ["/api/settings/number-sequences"],
+  });
+  const sequences = data || [];
+
+  // Черновики правок пересоздаются после каждой загрузки с сервера
+  useEffect(() => {
+    if (data) {
+      setDrafts(Object.fromEntries(data.map((sequence) => [sequence.key, toDraft(sequence)])));
+    }
+  }, [data]);
+
+  const changedFields = (sequence: NumberSequence): Partial<SequenceDraft> => {
+    const draft = drafts[sequence.key];
+    if (!draft) return {};
+    return Object.fromEntries(
+      (Object.keys(draft) as Array<keyof SequenceDraft>)
+        .filter((field) => draft[field] !== sequence[field])
+        .map((field) => [field, draft[field]])
+    );
+  };
+
+  // Отправляются только изменённые поля: неизменный «следующий номер» не должен отменять годовой сброс
+  const saveMutation = useMutation({
+    mutationFn: async (sequence: NumberSequence) => {
+      return await apiRequest("PUT", `/api/settings/number-sequences/${sequence.key}`, changedFields(sequence));
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings/number-sequences"] });
+      toast({ description: "Нумерация сохранена" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Ошибка",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateDraft = (key: string, patch: Partial<SequenceDraft>) => {
+    setDrafts({ ...drafts, [key]: { ...drafts[key], ...patch } });
+  };
+
+  const isChanged = (sequence: NumberSequence) => Object.keys(changedFields(sequence)).length > 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Settings2 className="h-5 w-5" />
+          Нумерация документов
+        </CardTitle>
+        <CardDescription>
+          Номер = префикс + счётчик + суффикс. В префиксе и суффиксе можно использовать {"{YYYY}"}, {"{YY}"}, {"{MM}"}, {"{DD}"} —
+          дату выдачи номера, а в КП, счетах и договорах ещё {"{deal}"} — номер сделки. Номера выдаются по порядку без пропусков.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-40" />
+        ) : (
+          <div className="border rounded-md overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Документ</TableHead>
+                  <TableHead>Префикс</TableHead>
+                  <TableHead className="w-24">Цифр</TableHead>
+                  <TableHead>Суффикс</TableHead>
+                  <TableHead className="w-32">Следующий</TableHead>
+                  <TableHead className="w-28">Сброс 1 января</TableHead>
+                  <TableHead>Пример</TableHead>
+                  <TableHead className="w-16"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sequences.map((sequence) => {
+                  const draft = drafts[sequence.key];
+                  if (!draft) return null;
+                  return (
+                    <TableRow key={sequence.key} data-testid={`number-sequence-${sequence.key}`}>
+                      <TableCell className="font-medium">
+                        {NUMBER_SEQUENCE_LABELS[sequence.key as NumberSequenceKey] || sequence.key}
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          value={draft.prefix}
+                          onChange={(e) => updateDraft(sequence.key, { prefix: e.target.value })}
+                          className="w-36"
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min={0}
+                          max={10}
+                          value={draft.padding}
+                          onChange={(e) => updateDraft(sequence.key, { padding: parseInt(e.target.value) || 0 })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          value={draft.suffix}
+                          onChange={(e) => updateDraft(sequence.key, { suffix: e.target.value })}
+                          className="w-28"
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min={1}
+                          value={draft.next_value}
+                          onChange={(e) => updateDraft(sequence.key, { next_value: parseInt(e.target.value) || 1 })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={draft.reset_yearly}
+                          onCheckedChange={(checked) => updateDraft(sequence.key, { reset_yearly: checked })}
+                        />
+                      </TableCell>
+                      <TableCell className="font-mono text-sm whitespace-nowrap">
+                        {formatSequenceNumber(draft, draft.next_value, { deal: "270" })}
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Сохранить"
+                          onClick={() => saveMutation.mutate(sequence)}
+                          disabled={!isChanged(sequence) || saveMutation.isPending}
+                        >
+                          <Save className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+        <p className="text-xs text-muted-foreground mt-3">
+          Следующий номер меньше уже выданного приведёт к повторам. При ежегодном сбросе в формате нужен год, иначе номера прошлых лет повторятся.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -13,17 +13,25 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Tooltip,
   TooltipContent,
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
-import { Lock, Eye, Edit, Trash2, Play, CheckCircle2, Save, RotateCcw } from "lucide-react";
+import { Lock, Eye, Edit, Trash2, Play, CheckCircle2, Save, RotateCcw, UserCheck } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/api";
 import { cn } from "@/lib/utils";
 import type { StagePermission } from "@shared/schema";
+import type { EffectiveStagePermission, StagePermissionSource } from "@shared/stagePermissions";
 import {
   getAllRoles,
   getRoleIcon,
@@ -34,12 +42,13 @@ import {
 } from "@/types/roles-permissions";
 
 interface PermissionMatrixProps {
+  projectId?: string; // если указан, итоговые права показываются для этого проекта
   className?: string;
 }
 
 type PermissionKey = 'can_read' | 'can_write' | 'can_delete' | 'can_start' | 'can_complete';
 
-export function PermissionMatrix({ className }: PermissionMatrixProps) {
+export function PermissionMatrix({ projectId, className }: PermissionMatrixProps) {
   const queryClient = useQueryClient();
   const [editedPermissions, setEditedPermissions] = useState<Record<string, StagePermission>>({});
   const [hasChanges, setHasChanges] = useState(false);
@@ -192,123 +201,290 @@ export function PermissionMatrix({ className }: PermissionMatrixProps) {
   const permissionKeys: PermissionKey[] = ['can_read', 'can_write', 'can_delete', 'can_start', 'can_complete'];
 
   return (
-    <Card className={cn("", className)}>
-      <CardHeader>
-        <div className="flex items-center justify-between">
-          <div className="flex items-center gap-2">
-            <Lock className="w-5 h-5 text-primary" />
-            <CardTitle>Матрица разрешений</CardTitle>
-          </div>
-          <div className="flex items-center gap-2">
-            {hasChanges && (
-              <>
-                <Button variant="outline" size="sm" onClick={handleCancel}>
-                  Отменить
-                </Button>
-                <Button size="sm" onClick={handleSave} disabled={savePermissionsMutation.isPending}>
-                  <Save className="w-4 h-4 mr-2" />
-                  {savePermissionsMutation.isPending ? "Сохранение..." : "Сохранить"}
-                </Button>
-              </>
-            )}
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={handleResetToDefault}
-              disabled={resetToDefaultMutation.isPending}
-            >
-              <RotateCcw className="w-4 h-4 mr-2" />
-              По умолчанию
-            </Button>
+    <div className={cn("space-y-6", className)}>
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Lock className="w-5 h-5 text-primary" />
+              <CardTitle>Матрица разрешений</CardTitle>
+            </div>
+            <div className="flex items-center gap-2">
+              {hasChanges && (
+                <>
+                  <Button variant="outline" size="sm" onClick={handleCancel}>
+                    Отменить
+                  </Button>
+                  <Button size="sm" onClick={handleSave} disabled={savePermissionsMutation.isPending}>
+                    <Save className="w-4 h-4 mr-2" />
+                    {savePermissionsMutation.isPending ? "Сохранение..." : "Сохранить"}
+                  </Button>
+                </>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleResetToDefault}
+                disabled={resetToDefaultMutation.isPending}
+              >
+                <RotateCcw className="w-4 h-4 mr-2" />
+                По умолчанию
+              </Button>
+            </div>
           </div>
-        </div>
-        <p className="text-sm text-muted-foreground">
-          Настройте права доступа для каждой роли к различным типам этапов
-        </p>
-      </CardHeader>
-      <CardContent>
-        {isLoading ? (
-          <div className="text-center py-8 text-muted-foreground">Загрузка...</div>
-        ) : (
-          <ScrollArea className="h-[600px]">
-            <div className="space-y-6">
-              {allRoles.map((roleInfo) => (
-                <div key={roleInfo.role} className="border rounded-lg p-4">
-                  <div className="flex items-center gap-2 mb-4">
-                    <span className="text-2xl">{roleInfo.icon}</span>
-                    <div>
-                      <h3 className="font-semibold">{roleInfo.name}</h3>
-                      <p className="text-xs text-muted-foreground">{roleInfo.description}</p>
+          <p className="text-sm text-muted-foreground">
+            Настройте права доступа для каждой роли к различным типам этапов
+          </p>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-8 text-muted-foreground">Загрузка...</div>
+          ) : (
+            <ScrollArea className="h-[600px]">
+              <div className="space-y-6">
+                {allRoles.map((roleInfo) => (
+                  <div key={roleInfo.role} className="border rounded-lg p-4">
+                    <div className="flex items-center gap-2 mb-4">
+                      <span className="text-2xl">{roleInfo.icon}</span>
+                      <div>
+                        <h3 className="font-semibold">{roleInfo.name}</h3>
+                        <p className="text-xs text-muted-foreground">{roleInfo.description}</p>
+                      </div>
                     </div>
-                  </div>
 
-                  <Table>
-                    <TableHeader>
-                      <TableRow>
-                        <TableHead className="w-[200px]">Тип этапа</TableHead>
-                        {permissionKeys.map((key) => (
-                          <TableHead key={key} className="text-center">
-                            <TooltipProvider>
-                              <Tooltip>
-                                <TooltipTrigger asChild>
-                                  <div className="flex items-center justify-center cursor-help">
-                                    {actionIcons[key]}
-                                  </div>
-                                </TooltipTrigger>
-                                <TooltipContent>
-                                  <p>{actionLabels[key]}</p>
-                                </TooltipContent>
-                              </Tooltip>
-                            </TooltipProvider>
-                          </TableHead>
-                        ))}
-                      </TableRow>
-                    </TableHeader>
-                    <TableBody>
-                      {stageTypes.map((stageType: any) => {
-                        const permission = getPermission(roleInfo.role, stageType.code);
-
-                        return (
-                          <TableRow key={stageType.code}>
-                            <TableCell>
-                              <div className="flex items-center gap-2">
-                                {stageType.icon && (
-                                  <span className="text-lg">{stageType.icon}</span>
-                                )}
-                                <span className="font-medium">{stageType.name}</span>
-                              </div>
-                            </TableCell>
-                            {permissionKeys.map((key) => (
-                              <TableCell key={key} className="text-center">
-                                <Checkbox
-                                  checked={permission?.[key] || false}
-                                  onCheckedChange={() =>
-                                    togglePermission(roleInfo.role, stageType.code, key)
-                                  }
-                                  className={cn(
-                                    editedPermissions[`${roleInfo.role}_${stageType.code}`] &&
-                                      "border-orange-500"
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="w-[200px]">Тип этапа</TableHead>
+                          {permissionKeys.map((key) => (
+                            <TableHead key={key} className="text-center">
+                              <TooltipProvider>
+                                <Tooltip>
+                                  <TooltipTrigger asChild>
+                                    <div className="flex items-center justify-center cursor-help">
+                                      {actionIcons[key]}
+                                    </div>
+                                  </TooltipTrigger>
+                                  <TooltipContent>
+                                    <p>{actionLabels[key]}</p>
+                                  </TooltipContent>
+                                </Tooltip>
+                              </TooltipProvider>
+                            </TableHead>
+                          ))}
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {stageTypes.map((stageType: any) => {
+                          const permission = getPermission(roleInfo.role, stageType.code);
+
+                          return (
+                            <TableRow key={stageType.code}>
+                              <TableCell>
+                                <div className="flex items-center gap-2">
+                                  {stageType.icon && (
+                                    <span className="text-lg">{stageType.icon}</span>
                                   )}
-                                />
+                                  <span className="font-medium">{stageType.name}</span>
+                                </div>
                               </TableCell>
-                            ))}
-                          </TableRow>
-                        );
-                      })}
-                    </TableBody>
-                  </Table>
-                </div>
-              ))}
+                              {permissionKeys.map((key) => (
+                                <TableCell key={key} className="text-center">
+                                  <Checkbox
+                                    checked={permission?.[key] || false}
+                                    onCheckedChange={() =>
+                                      togglePermission(roleInfo.role, stageType.code, key)
+                                    }
+                                    className={cn(
+                                      editedPermissions[`${roleInfo.role}_${stageType.code}`] &&
+                                        "border-orange-500"
+                                    )}
+                                  />
+                                </TableCell>
+                              ))}
+                            </TableRow>
+                          );
+                        })}
+                      </TableBody>
+                    </Table>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          )}
+
+          {hasChanges && (
+            <div className="mt-4 p-4 bg-orange-50 border border-orange-200 rounded-md">
+              <p className="text-sm text-orange-700">
+                У вас есть несохраненные изменения. Нажмите "Сохранить", чтобы применить их.
+              </p>
             </div>
-          </ScrollArea>
-        )}
+          )}
+        </CardContent>
+      </Card>
+
+      <EffectiveStagePermissions
+        projectId={projectId}
+        permissionKeys={permissionKeys}
+        actionIcons={actionIcons}
+        actionLabels={actionLabels}
+      />
+    </div>
+  );
+}
 
-        {hasChanges && (
-          <div className="mt-4 p-4 bg-orange-50 border border-orange-200 rounded-md">
-            <p className="text-sm text-orange-700">
-              У вас есть несохраненные изменения. Нажмите "Сохранить", чтобы применить их.
-            </p>
+const sourceLabels: Record<StagePermissionSource, string> = {
+  admin: 'Администратор',
+  manager: 'Менеджер проекта',
+  roles: 'Роли проекта',
+  module: 'Права модуля «Проекты»',
+};
+
+interface EffectiveStagePermissionsProps {
+  projectId?: string;
+  permissionKeys: PermissionKey[];
+  actionIcons: Record<PermissionKey, React.ReactNode>;
+  actionLabels: Record<PermissionKey, string>;
+}
+
+// Итоговые права пользователя на этапы проекта: admin, менеджер проекта, роли × матрица или права модуля
+function EffectiveStagePermissions({
+  projectId,
+  permissionKeys,
+  actionIcons,
+  actionLabels,
+}: EffectiveStagePermissionsProps) {
+  const [selectedProjectId, setSelectedProjectId] = useState<string>(projectId || "");
+  const [selectedUserId, setSelectedUserId] = useState<string>("");
+
+  const { data: projects = [] } = useQuery<any[]>({
+    queryKey: ["/api/projects"],
+    queryFn: async () => {
+      return await apiRequest("GET", "/api/projects");
+    },
+    enabled: !projectId,
+  });
+
+  const { data: users = [] } = useQuery<any[]>({
+    queryKey: ["/api/users"],
+    queryFn: async () => {
+      return await apiRequest("GET", "/api/users");
+    },
+  });
+
+  const activeProjectId = projectId || selectedProjectId;
+
+  const { data: effective = [], isLoading } = useQuery<EffectiveStagePermission[]>({
+    queryKey: ["/api/projects", activeProjectId, "stage-permissions", selectedUserId],
+    queryFn: async () => {
+      return await apiRequest(
+        "GET",
+        `/api/projects/${activeProjectId}/stage-permissions?userId=${encodeURIComponent(selectedUserId)}`
+      );
+    },
+    enabled: !!activeProjectId && !!selectedUserId,
+  });
+
+  const getRoleName = (role: string) => {
+    return (getAllRoles().find((info) => info.role === role)?.name) || role;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <UserCheck className="w-5 h-5 text-primary" />
+          <CardTitle>Итоговые права в проекте</CardTitle>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Что пользователь может делать с этапами проекта с учётом его ролей, матрицы и прав модуля
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-4">
+          {!projectId && (
+            <Select value={selectedProjectId} onValueChange={setSelectedProjectId}>
+              <SelectTrigger className="w-[280px]">
+                <SelectValue placeholder="Выберите проект" />
+              </SelectTrigger>
+              <SelectContent>
+                {projects.map((project: any) => (
+                  <SelectItem key={project.id} value={project.id}>
+                    {project.project_number ? `${project.project_number} · ${project.name}` : project.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Select value={selectedUserId} onValueChange={setSelectedUserId}>
+            <SelectTrigger className="w-[280px]">
+              <SelectValue placeholder="Выберите пользователя" />
+            </SelectTrigger>
+            <SelectContent>
+              {users.map((user: any) => (
+                <SelectItem key={user.id} value={user.id}>
+                  {user.full_name || user.username}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {!activeProjectId || !selectedUserId ? (
+          <div className="text-center py-8 text-muted-foreground">
+            Выберите {projectId ? "пользователя" : "проект и пользователя"}
           </div>
+        ) : isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">Загрузка...</div>
+        ) : effective.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">В проекте нет этапов</div>
+        ) : (
+          <>
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-muted-foreground">Источник прав:</span>
+              <Badge variant="secondary">{sourceLabels[effective[0].source]}</Badge>
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[240px]">Этап</TableHead>
+                  {permissionKeys.map((key) => (
+                    <TableHead key={key} className="text-center">
+                      <div className="flex items-center justify-center" title={actionLabels[key]}>
+                        {actionIcons[key]}
+                      </div>
+                    </TableHead>
+                  ))}
+                  <TableHead>Основание</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {effective.map((stage) => (
+                  <TableRow key={stage.stage_id}>
+                    <TableCell>
+                      <div className="font-medium">{stage.stage_name}</div>
+                      {stage.stage_type_code && (
+                        <div className="text-xs text-muted-foreground">{stage.stage_type_code}</div>
+                      )}
+                    </TableCell>
+                    {permissionKeys.map((key) => (
+                      <TableCell key={key} className="text-center">
+                        <Checkbox checked={stage[key]} disabled />
+                      </TableCell>
+                    ))}
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {stage.roles.map((role) => (
+                          <Badge key={role} variant="outline">{getRoleName(role)}</Badge>
+                        ))}
+                        {stage.is_assignee && <Badge variant="outline">Исполнитель этапа</Badge>}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
         )}
       </CardContent>
     </Card>
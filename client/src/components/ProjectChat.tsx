@@ -251,9 +251,6 @@ export function ProjectChat({ projectId }: ProjectChatProps) {
 
     const response = await fetch('/api/objects/upload', {
       method: 'POST',
-      headers: {
-        'x-user-id': user?.id || '',
-      },
       body: formData,
     });
 
@@ -5,9 +5,11 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Loader2, File, Upload, FolderUp, Lock } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { getCurrentUserId, getCurrentUserRole } from "@/lib/queryClient";
+import { getCurrentUserId } from "@/lib/queryClient";
 import { cn } from "@/lib/utils";
 
+const SHARE_LINK_MINUTES = 24 * 60;
+
 interface User {
   id: string;
   username: string;
@@ -248,10 +250,6 @@ export function ProjectDocumentsRepository({ projectId, selectedItemId }: Projec
     try {
       const response = await fetch(`/api/attachments/${doc.id}`, {
         method: 'DELETE',
-        headers: {
-          'X-User-Id': getCurrentUserId(),
-          'X-User-Role': getCurrentUserRole(),
-        },
         credentials: 'include',
       });
 
@@ -279,6 +277,40 @@ export function ProjectDocumentsRepository({ projectId, selectedItemId }: Projec
     }
   };
 
+  // Временная ссылка для передачи файла тем, у кого нет доступа к системе
+  const handleDocumentShare = async (doc: Document) => {
+    try {
+      const response = await fetch(`/api/attachments/${doc.id}/share-link`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ expires_in_minutes: SHARE_LINK_MINUTES }),
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Ошибка создания ссылки');
+      }
+
+      const { url } = await response.json();
+      await navigator.clipboard.writeText(`${window.location.origin}${url}`);
+
+      toast({
+        title: "Ссылка скопирована",
+        description: `${doc.name} — действует 24 часа`,
+      });
+    } catch (error) {
+      console.error('Share link error:', error);
+      toast({
+        title: "Ошибка",
+        description: error instanceof Error ? error.message : "Не удалось создать ссылку",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleToggleFinancial = async (doc: Document) => {
     try {
       const newValue = !doc.isFinancial;
@@ -286,7 +318,6 @@ export function ProjectDocumentsRepository({ projectId, selectedItemId }: Projec
         method: 'PATCH',
         headers: {
           'Content-Type': 'application/json',
-          'X-User-Id': getCurrentUserId(),
         },
         body: JSON.stringify({ is_financial: newValue }),
         credentials: 'include',
@@ -348,9 +379,6 @@ export function ProjectDocumentsRepository({ projectId, selectedItemId }: Projec
 
       const uploadResponse = await fetch('/api/objects/upload', {
         method: 'POST',
-        headers: {
-          'X-User-Id': getCurrentUserId(),
-        },
         body: formData,
         credentials: 'include',
       });
@@ -367,7 +395,6 @@ export function ProjectDocumentsRepository({ projectId, selectedItemId }: Projec
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'X-User-Id': getCurrentUserId(),
         },
         body: JSON.stringify({
           file_name: file.name,
@@ -563,6 +590,7 @@ export function ProjectDocumentsRepository({ projectId, selectedItemId }: Projec
         onDocumentView={handleDocumentView}
         onDocumentDownload={handleDocumentDownload}
         onDocumentDelete={handleDocumentDelete}
+        onDocumentShare={handleDocumentShare}
         onToggleFinancial={handleToggleFinancial}
         canEditFinancial={canViewFinancial}
         onUpload={projectData?.deal_id ? handleUpload : undefined}
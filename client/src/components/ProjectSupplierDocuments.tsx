@@ -13,7 +13,6 @@ import {
   X
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { getCurrentUserId } from "@/lib/queryClient";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -91,9 +90,6 @@ export function ProjectSupplierDocuments({ projectId }: ProjectSupplierDocuments
 
       const uploadResponse = await fetch('/api/objects/upload', {
         method: 'POST',
-        headers: {
-          'X-User-Id': getCurrentUserId(),
-        },
         body: formData,
         credentials: 'include',
       });
@@ -110,7 +106,6 @@ export function ProjectSupplierDocuments({ projectId }: ProjectSupplierDocuments
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'X-User-Id': getCurrentUserId(),
         },
         body: JSON.stringify({
           file_name: file.name,
@@ -31,7 +31,6 @@ interface QuickTransactionDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   scannedCode: string;
-  currentUserId: string;
 }
 
 const transactionSchema = z.object({
@@ -46,7 +45,6 @@ export function QuickTransactionDialog({
   open,
   onOpenChange,
   scannedCode,
-  currentUserId,
 }: QuickTransactionDialogProps) {
   const { toast } = useToast();
   const [transactionType, setTransactionType] = useState<"in" | "out">("in");
@@ -78,7 +76,6 @@ export function QuickTransactionDialog({
         type: data.type,
         quantity: data.quantity,
         notes: data.notes || null,
-        user_id: currentUserId,
       });
     },
     onSuccess: () => {
@@ -28,7 +28,7 @@ interface RolePermissionsDialogProps {
   role: Role | null;
 }
 
-const MODULES = [
+export const MODULES = [
   { id: "sales", name: "Сделки", icon: FilePlus },
   { id: "projects", name: "Проекты", icon: FileEdit },
   { id: "tasks", name: "Задачи", icon: FileEdit },
@@ -37,6 +37,7 @@ const MODULES = [
   { id: "production", name: "Производство", icon: FileEdit },
   { id: "installations", name: "Монтаж", icon: FileEdit },
   { id: "documents", name: "Документы", icon: FilePlus },
+  { id: "telephony", name: "Телефония", icon: FileEdit },
   { id: "users", name: "Пользователи", icon: Users },
   { id: "settings", name: "Настройки", icon: Lock },
 ];
@@ -45,6 +46,11 @@ export function RolePermissionsDialog({ open, onOpenChange, role }: RolePermissi
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [permissions, setPermissions] = useState<Map<string, any>>(new Map());
+  const [require2fa, setRequire2fa] = useState(false);
+
+  useEffect(() => {
+    setRequire2fa(!!role?.require_2fa);
+  }, [role]);
 
   const { data: roleData, isLoading } = useQuery<{ permissions: RolePermission[] }>({
     queryKey: [`/api/roles/${role?.id}/permissions`],
@@ -117,6 +123,38 @@ export function RolePermissionsDialog({ open, onOpenChange, role }: RolePermissi
     updatePermissionMutation.mutate({ module, field, value });
   };
 
+  const updateRoleMutation = useMutation({
+    mutationFn: async (require2fa: boolean) => {
+      const response = await fetch(`/api/roles/${role?.id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ require_2fa: require2fa }),
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to update role");
+      }
+
+      return response.json();
+    },
+    onSuccess: (updatedRole: Role) => {
+      setRequire2fa(updatedRole.require_2fa);
+      queryClient.invalidateQueries({ queryKey: ["/api/roles"] });
+      toast({
+        title: "Роль обновлена",
+        description: "Изменения сохранены",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Ошибка",
+        description: "Не удалось обновить роль",
+        variant: "destructive",
+      });
+    },
+  });
+
   const getPermission = (module: string, field: string): boolean => {
     const modulePerms = permissions.get(module);
     return modulePerms ? modulePerms[field] : false;
@@ -147,6 +185,18 @@ export function RolePermissionsDialog({ open, onOpenChange, role }: RolePermissi
           </div>
         ) : (
           <div className="space-y-4">
+            <div className="flex items-center gap-2 p-3 rounded-md border">
+              <Checkbox
+                id="role-require-2fa"
+                checked={require2fa}
+                onCheckedChange={(checked) => updateRoleMutation.mutate(checked as boolean)}
+                disabled={updateRoleMutation.isPending}
+              />
+              <Label htmlFor="role-require-2fa" className="text-sm cursor-pointer">
+                Требовать двухфакторную аутентификацию при входе
+              </Label>
+            </div>
+
             <div className="grid grid-cols-6 gap-2 text-xs font-medium text-muted-foreground pb-2 border-b">
               <div className="col-span-2">Модуль</div>
               <div className="text-center">Просмотр</div>
@@ -0,0 +1,180 @@
+import { useQuery } from "@tanstack/react-query";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { usePriceFormat } from "@/components/PriceDisplay";
+
+// Суммы null — цены по продажам скрыты
+interface ForecastAmounts {
+  deals: number;
+  total: number | null;
+  weighted: number | null;
+  invoiced: number | null;
+}
+
+interface ForecastReport {
+  from: string;
+  to: string;
+  months: Array<ForecastAmounts & { month: string }>;
+  managers: Array<ForecastAmounts & { manager_id: string | null; manager_name: string | null }>;
+  pipelines: Array<ForecastAmounts & { pipeline_id: string | null; pipeline_name: string | null }>;
+  totals: ForecastAmounts;
+  undated: { deals: number; weighted: number | null };
+}
+
+const chartConfig = {
+  weighted: { label: "Прогноз (взвешенный)", color: "hsl(var(--chart-1))" },
+  invoiced: { label: "Выставлено счетов", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig;
+
+function formatMonth(month: string): string {
+  const [year, monthIndex] = month.split("-").map(Number);
+  return new Date(year, monthIndex - 1, 1).toLocaleDateString("ru-RU", { month: "short", year: "2-digit" });
+}
+
+function formatShort(value: number): string {
+  if (Math.abs(value) >= 1_000_000) return `${Math.round(value / 100_000) / 10} млн`;
+  if (Math.abs(value) >= 1_000) return `${Math.round(value / 1_000)} тыс`;
+  return String(value);
+}
+
+function AmountsTable<T extends ForecastAmounts>({ title, rows, label }: { title: string; rows: T[]; label: (row: T) => string }) {
+  const { formatPrice } = usePriceFormat();
+
+  return (
+    <div>
+      <p className="text-sm font-medium mb-2">{title}</p>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead></TableHead>
+            <TableHead className="text-right">Сделок</TableHead>
+            <TableHead className="text-right">Прогноз</TableHead>
+            <TableHead className="text-right">Счета</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((row) => (
+            <TableRow key={label(row)}>
+              <TableCell>{label(row)}</TableCell>
+              <TableCell className="text-right tabular-nums">{row.deals}</TableCell>
+              <TableCell className="text-right tabular-nums">{formatPrice(row.weighted, { module: "sales" })}</TableCell>
+              <TableCell className="text-right tabular-nums">{formatPrice(row.invoiced, { module: "sales" })}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+// Взвешенный прогноз продаж по месяцам ожидаемого закрытия против выставленных счетов
+export function SalesForecastChart() {
+  const { formatPrice } = usePriceFormat();
+  const { data: forecast, isLoading } = useQuery<ForecastReport>({
+    queryKey: ["/api/sales-analytics/forecast"],
+  });
+
+  if (isLoading || !forecast) {
+    return <Skeleton className="h-80 w-full" />;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-xs text-muted-foreground">Прогноз (взвешенный)</p>
+            <p className="text-xl font-semibold tabular-nums">{formatPrice(forecast.totals.weighted, { module: "sales" })}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-xs text-muted-foreground">Сумма сделок</p>
+            <p className="text-xl font-semibold tabular-nums">{formatPrice(forecast.totals.total, { module: "sales" })}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-xs text-muted-foreground">Выставлено счетов</p>
+            <p className="text-xl font-semibold tabular-nums">{formatPrice(forecast.totals.invoiced, { module: "sales" })}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-xs text-muted-foreground">Без даты закрытия</p>
+            <p className="text-xl font-semibold tabular-nums">{formatPrice(forecast.undated.weighted, { module: "sales" })}</p>
+            <p className="text-xs text-muted-foreground">{forecast.undated.deals} сделок</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Прогноз по месяцам</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={chartConfig} className="h-[300px] w-full" data-testid="chart-sales-forecast">
+            <BarChart data={forecast.months}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="month" tickFormatter={formatMonth} tickLine={false} axisLine={false} />
+              <YAxis tickFormatter={formatShort} tickLine={false} axisLine={false} width={60} />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(_, payload) => payload?.[0] ? formatMonth(payload[0].payload.month) : ""}
+                    formatter={(value, name) => (
+                      <span>
+                        {chartConfig[name as keyof typeof chartConfig]?.label}: {formatPrice(Number(value), { module: "sales" })}
+                      </span>
+                    )}
+                  />
+                }
+              />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Bar dataKey="weighted" fill="var(--color-weighted)" radius={4} />
+              <Bar dataKey="invoiced" fill="var(--color-invoiced)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <Card>
+          <CardContent className="pt-6">
+            <AmountsTable
+              title="По менеджерам"
+              rows={forecast.managers}
+              label={(row) => row.manager_name || "Без менеджера"}
+            />
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <AmountsTable
+              title="По воронкам"
+              rows={forecast.pipelines}
+              label={(row) => row.pipeline_name || "Без воронки"}
+            />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
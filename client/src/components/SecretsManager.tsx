@@ -0,0 +1,248 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertTriangle, Edit, RefreshCw, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { format } from "date-fns";
+
+interface SecretInfo {
+  name: string;
+  label: string;
+  group: "telephony" | "crm";
+  source: "vault" | "env" | null;
+  masked: string | null;
+  key_id: string | null;
+  needs_rotation: boolean;
+  updated_at: string | null;
+  updated_by: string | null;
+}
+
+interface SecretsResponse {
+  configured: boolean;
+  secrets: SecretInfo[];
+}
+
+const GROUP_LABELS: Record<SecretInfo["group"], string> = {
+  telephony: "Телефония",
+  crm: "CRM",
+};
+
+export function SecretsManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [editingSecret, setEditingSecret] = useState<SecretInfo | null>(null);
+  const [value, setValue] = useState("");
+
+  const { data, isLoading } = useQuery<SecretsResponse>({
+    queryKey: ["/api/secrets"],
+  });
+
+  const showError = (error: Error) => {
+    toast({
+      title: "Ошибка",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["/api/secrets"] });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("PUT", `/api/secrets/${editingSecret!.name}`, { value });
+    },
+    onSuccess: () => {
+      invalidate();
+      setEditingSecret(null);
+      toast({ description: "Секрет сохранён в хранилище" });
+    },
+    onError: showError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (name: string) => {
+      return await apiRequest("DELETE", `/api/secrets/${name}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ description: "Секрет удалён из хранилища" });
+    },
+    onError: showError,
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest<{ secrets: number; columns: number }>("POST", "/api/secrets/rotate");
+    },
+    onSuccess: (result) => {
+      invalidate();
+      toast({ description: `Перешифровано: секретов ${result.secrets}, полей ${result.columns}` });
+    },
+    onError: showError,
+  });
+
+  const openDialog = (secret: SecretInfo) => {
+    setEditingSecret(secret);
+    setValue("");
+  };
+
+  const sourceBadge = (secret: SecretInfo) => {
+    if (secret.source === "vault") return <Badge variant="secondary">Хранилище</Badge>;
+    if (secret.source === "env") return <Badge variant="outline">.env</Badge>;
+    return <Badge variant="outline" className="text-muted-foreground">Не задан</Badge>;
+  };
+
+  const configured = data?.configured ?? false;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle className="text-lg">Ключи интеграций</CardTitle>
+          <CardDescription>
+            Хранятся зашифрованными (AES-256-GCM). Пока значение не сохранено в хранилище, используется переменная из .env.
+          </CardDescription>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => rotateMutation.mutate()}
+          disabled={!configured || rotateMutation.isPending}
+          title="Перешифровать все секреты текущим мастер-ключом"
+          data-testid="button-rotate-secrets"
+        >
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Перешифровать
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!isLoading && !configured && (
+          <div className="flex items-start gap-2 rounded-md border border-destructive/50 p-3 text-sm">
+            <AlertTriangle className="h-4 w-4 text-destructive mt-0.5 shrink-0" />
+            <span>
+              Мастер-ключ не задан: добавьте <span className="font-mono">SECRETS_MASTER_KEY</span> в .env и перезапустите сервер,
+              чтобы сохранять секреты в хранилище.
+            </span>
+          </div>
+        )}
+
+        {isLoading ? (
+          <Skeleton className="h-64" />
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Секрет</TableHead>
+                <TableHead>Группа</TableHead>
+                <TableHead>Источник</TableHead>
+                <TableHead>Значение</TableHead>
+                <TableHead>Обновлён</TableHead>
+                <TableHead className="w-20" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {(data?.secrets || []).map((secret) => (
+                <TableRow key={secret.name} data-testid={`secret-${secret.name}`}>
+                  <TableCell>
+                    <p className="text-sm">{secret.label}</p>
+                    <p className="text-xs font-mono text-muted-foreground">{secret.name}</p>
+                  </TableCell>
+                  <TableCell className="text-xs">{GROUP_LABELS[secret.group]}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {sourceBadge(secret)}
+                      {secret.needs_rotation && <Badge variant="destructive">Старый ключ</Badge>}
+                    </div>
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">{secret.masked || "—"}</TableCell>
+                  <TableCell className="text-xs">
+                    {secret.updated_at ? format(new Date(secret.updated_at), "dd.MM.yyyy HH:mm") : "—"}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => openDialog(secret)}
+                        disabled={!configured}
+                        title="Задать значение"
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      {secret.source === "vault" && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Удалить из хранилища"
+                          onClick={() => {
+                            if (confirm(`Удалить «${secret.label}» из хранилища?`)) {
+                              deleteMutation.mutate(secret.name);
+                            }
+                          }}
+                        >
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={!!editingSecret} onOpenChange={(open) => !open && setEditingSecret(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editingSecret?.label}</DialogTitle>
+            <DialogDescription>
+              Новое значение заменит текущее. Сохранённое значение больше не показывается целиком.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="secret-value">Значение</Label>
+            <Input
+              id="secret-value"
+              type="password"
+              autoComplete="off"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditingSecret(null)}>Отмена</Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={saveMutation.isPending || !value.trim()}
+            >
+              {saveMutation.isPending ? "Сохранение..." : "Сохранить"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
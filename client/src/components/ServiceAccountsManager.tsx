@@ -0,0 +1,418 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { KeyRound, Plus, Trash2, Edit } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { MODULES } from "@/components/RolePermissionsDialog";
+import { format } from "date-fns";
+import type { ApiKey, User } from "@shared/schema";
+
+interface ServiceAccountScope {
+  module: string;
+  can_view: boolean;
+  can_create: boolean;
+  can_edit: boolean;
+  can_delete: boolean;
+  view_all: boolean;
+  hide_prices: boolean;
+}
+
+type ServiceAccount = User & {
+  scopes: ServiceAccountScope[];
+  keys: Omit<ApiKey, "key_hash">[];
+};
+
+const SCOPE_FLAGS: Array<{ field: keyof Omit<ServiceAccountScope, "module">; label: string }> = [
+  { field: "can_view", label: "Просмотр" },
+  { field: "can_create", label: "Создание" },
+  { field: "can_edit", label: "Редакт." },
+  { field: "can_delete", label: "Удаление" },
+  { field: "view_all", label: "Все данные" },
+];
+
+function emptyScope(module: string): ServiceAccountScope {
+  return {
+    module,
+    can_view: false,
+    can_create: false,
+    can_edit: false,
+    can_delete: false,
+    view_all: false,
+    hide_prices: false,
+  };
+}
+
+function formatDate(value: string | Date | null) {
+  return value ? format(new Date(value), "dd.MM.yyyy HH:mm") : "—";
+}
+
+export function ServiceAccountsManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [accountDialogOpen, setAccountDialogOpen] = useState(false);
+  const [editingAccount, setEditingAccount] = useState<ServiceAccount | null>(null);
+  const [accountName, setAccountName] = useState("");
+  const [scopes, setScopes] = useState<Map<string, ServiceAccountScope>>(new Map());
+
+  const [keyAccount, setKeyAccount] = useState<ServiceAccount | null>(null);
+  const [keyName, setKeyName] = useState("");
+  const [keyExpiresAt, setKeyExpiresAt] = useState("");
+  const [issuedKey, setIssuedKey] = useState<string | null>(null);
+
+  const { data: accounts = [], isLoading } = useQuery<ServiceAccount[]>({
+    queryKey: ["/api/service-accounts"],
+  });
+
+  const showError = (error: Error) => {
+    toast({
+      title: "Ошибка",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["/api/service-accounts"] });
+
+  const saveAccountMutation = useMutation({
+    mutationFn: async () => {
+      const payload = {
+        name: accountName,
+        scopes: Array.from(scopes.values()).filter((scope) => scope.can_view),
+      };
+      return editingAccount
+        ? await apiRequest("PUT", `/api/service-accounts/${editingAccount.id}`, payload)
+        : await apiRequest("POST", "/api/service-accounts", payload);
+    },
+    onSuccess: () => {
+      invalidate();
+      setAccountDialogOpen(false);
+      toast({ description: "Сервисная учётка сохранена" });
+    },
+    onError: showError,
+  });
+
+  const toggleActiveMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      return await apiRequest("PUT", `/api/service-accounts/${id}`, { is_active: isActive });
+    },
+    onSuccess: invalidate,
+    onError: showError,
+  });
+
+  const deleteAccountMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/service-accounts/${id}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ description: "Сервисная учётка удалена" });
+    },
+    onError: showError,
+  });
+
+  const createKeyMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest<{ key: string }>("POST", `/api/service-accounts/${keyAccount!.id}/keys`, {
+        name: keyName,
+        expires_at: keyExpiresAt ? new Date(`${keyExpiresAt}T23:59:59`).toISOString() : null,
+      });
+    },
+    onSuccess: (data) => {
+      invalidate();
+      setKeyAccount(null);
+      setIssuedKey(data.key);
+    },
+    onError: showError,
+  });
+
+  const revokeKeyMutation = useMutation({
+    mutationFn: async ({ accountId, keyId }: { accountId: string; keyId: string }) => {
+      return await apiRequest("DELETE", `/api/service-accounts/${accountId}/keys/${keyId}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ description: "Ключ отозван" });
+    },
+    onError: showError,
+  });
+
+  const openAccountDialog = (account?: ServiceAccount) => {
+    setEditingAccount(account || null);
+    setAccountName(account?.full_name || "");
+    setScopes(new Map((account?.scopes || []).map((scope) => [scope.module, scope])));
+    setAccountDialogOpen(true);
+  };
+
+  const openKeyDialog = (account: ServiceAccount) => {
+    setKeyAccount(account);
+    setKeyName("");
+    setKeyExpiresAt("");
+  };
+
+  const setScopeFlag = (module: string, field: keyof Omit<ServiceAccountScope, "module">, value: boolean) => {
+    const next = new Map(scopes);
+    const scope = { ...(next.get(module) || emptyScope(module)), [field]: value };
+    // Без просмотра остальные права не имеют смысла
+    if (field === "can_view" && !value) {
+      Object.assign(scope, emptyScope(module));
+    }
+    next.set(module, scope);
+    setScopes(next);
+  };
+
+  const keyStatus = (key: ServiceAccount["keys"][number]) => {
+    if (key.revoked_at) return <Badge variant="outline">Отозван</Badge>;
+    if (key.expires_at && new Date(key.expires_at).getTime() < Date.now()) {
+      return <Badge variant="destructive">Истёк</Badge>;
+    }
+    return <Badge variant="secondary">Активен</Badge>;
+  };
+
+  return (
+    <>
+      <div className="flex items-center justify-between flex-wrap gap-4">
+        <p className="text-xs md:text-sm text-muted-foreground">
+          Учётки для Telegram-бота, скриптов и внешних сервисов. Запросы выполняются с заголовком
+          <span className="font-mono"> Authorization: Bearer &lt;ключ&gt;</span> и попадают в журнал аудита от имени учётки.
+        </p>
+        <Button onClick={() => openAccountDialog()} data-testid="button-create-service-account">
+          <Plus className="h-4 w-4 mr-2" />
+          Добавить учётку
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-64" />
+      ) : accounts.length === 0 ? (
+        <Card>
+          <CardContent className="py-8 text-center text-muted-foreground">Сервисных учёток нет</CardContent>
+        </Card>
+      ) : (
+        accounts.map((account) => (
+          <Card key={account.id} data-testid={`service-account-${account.id}`}>
+            <CardHeader className="flex flex-row items-start justify-between gap-4">
+              <div>
+                <CardTitle className="text-lg">{account.full_name}</CardTitle>
+                <CardDescription className="font-mono">{account.username}</CardDescription>
+                <div className="flex flex-wrap gap-1 mt-2">
+                  {account.scopes.length === 0 ? (
+                    <Badge variant="outline">Нет прав</Badge>
+                  ) : (
+                    account.scopes.map((scope) => (
+                      <Badge key={scope.module} variant="secondary">
+                        {MODULES.find((module) => module.id === scope.module)?.name || scope.module}
+                        {": "}
+                        {SCOPE_FLAGS.filter(({ field }) => scope[field]).map(({ label }) => label.toLowerCase()).join(", ")}
+                      </Badge>
+                    ))
+                  )}
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  checked={account.is_active}
+                  onCheckedChange={(checked) => toggleActiveMutation.mutate({ id: account.id, isActive: checked })}
+                  title={account.is_active ? "Активна" : "Отключена"}
+                />
+                <Button variant="ghost" size="icon" onClick={() => openAccountDialog(account)}>
+                  <Edit className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => {
+                    if (confirm(`Удалить учётку «${account.full_name}» и все её ключи?`)) {
+                      deleteAccountMutation.mutate(account.id);
+                    }
+                  }}
+                >
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {account.keys.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Ключ</TableHead>
+                      <TableHead>Статус</TableHead>
+                      <TableHead>Действует до</TableHead>
+                      <TableHead>Последнее использование</TableHead>
+                      <TableHead className="w-10" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {account.keys.map((key) => (
+                      <TableRow key={key.id}>
+                        <TableCell>
+                          <p className="text-sm">{key.name}</p>
+                          <p className="text-xs font-mono text-muted-foreground">{key.key_prefix}…</p>
+                        </TableCell>
+                        <TableCell>{keyStatus(key)}</TableCell>
+                        <TableCell className="text-xs">{key.expires_at ? formatDate(key.expires_at) : "Бессрочно"}</TableCell>
+                        <TableCell className="text-xs">
+                          {formatDate(key.last_used_at)}
+                          {key.last_used_ip && <span className="block text-muted-foreground">{key.last_used_ip}</span>}
+                        </TableCell>
+                        <TableCell>
+                          {!key.revoked_at && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Отозвать"
+                              onClick={() => revokeKeyMutation.mutate({ accountId: account.id, keyId: key.id })}
+                            >
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+              <Button variant="outline" size="sm" onClick={() => openKeyDialog(account)} disabled={!account.is_active}>
+                <KeyRound className="h-4 w-4 mr-2" />
+                Выпустить ключ
+              </Button>
+            </CardContent>
+          </Card>
+        ))
+      )}
+
+      <Dialog open={accountDialogOpen} onOpenChange={setAccountDialogOpen}>
+        <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingAccount ? "Сервисная учётка" : "Новая сервисная учётка"}</DialogTitle>
+            <DialogDescription>Права учётки задаются по модулям, как у ролей.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="service-account-name">Название</Label>
+              <Input
+                id="service-account-name"
+                value={accountName}
+                onChange={(e) => setAccountName(e.target.value)}
+                placeholder="Telegram-бот"
+              />
+            </div>
+            <div className="space-y-2">
+              <div className="grid grid-cols-7 gap-2 text-xs font-medium text-muted-foreground pb-2 border-b">
+                <div className="col-span-2">Модуль</div>
+                {SCOPE_FLAGS.map(({ field, label }) => (
+                  <div key={field} className="text-center">{label}</div>
+                ))}
+              </div>
+              {MODULES.map((module) => {
+                const scope = scopes.get(module.id) || emptyScope(module.id);
+                return (
+                  <div key={module.id} className="grid grid-cols-7 gap-2 items-center">
+                    <div className="col-span-2 text-sm">{module.name}</div>
+                    {SCOPE_FLAGS.map(({ field }) => (
+                      <div key={field} className="flex justify-center">
+                        <Checkbox
+                          checked={scope[field]}
+                          disabled={field !== "can_view" && !scope.can_view}
+                          onCheckedChange={(checked) => setScopeFlag(module.id, field, checked as boolean)}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAccountDialogOpen(false)}>Отмена</Button>
+            <Button
+              onClick={() => saveAccountMutation.mutate()}
+              disabled={saveAccountMutation.isPending || !accountName.trim()}
+            >
+              {saveAccountMutation.isPending ? "Сохранение..." : "Сохранить"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!keyAccount} onOpenChange={(open) => !open && setKeyAccount(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Новый API-ключ</DialogTitle>
+            <DialogDescription>{keyAccount?.full_name}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="api-key-name">Название</Label>
+              <Input
+                id="api-key-name"
+                value={keyName}
+                onChange={(e) => setKeyName(e.target.value)}
+                placeholder="Продакшен-сервер бота"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="api-key-expires">Действует до (необязательно)</Label>
+              <Input
+                id="api-key-expires"
+                type="date"
+                value={keyExpiresAt}
+                onChange={(e) => setKeyExpiresAt(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              onClick={() => createKeyMutation.mutate()}
+              disabled={createKeyMutation.isPending || !keyName.trim()}
+            >
+              Выпустить
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!issuedKey} onOpenChange={(open) => !open && setIssuedKey(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Ключ выпущен</DialogTitle>
+            <DialogDescription>
+              Скопируйте ключ сейчас: он хранится только в виде хеша и больше показан не будет.
+            </DialogDescription>
+          </DialogHeader>
+          <p className="font-mono text-sm break-all select-all rounded-md border p-3" data-testid="text-issued-api-key">
+            {issuedKey}
+          </p>
+          <DialogFooter>
+            <Button onClick={() => setIssuedKey(null)}>Готово</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
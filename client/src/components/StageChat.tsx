@@ -168,9 +168,6 @@ export function StageChat({ stageId }: StageChatProps) {
 
     const response = await fetch('/api/objects/upload', {
       method: 'POST',
-      headers: {
-        'x-user-id': user?.id || '',
-      },
       body: formData,
     });
 
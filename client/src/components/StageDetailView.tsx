@@ -376,9 +376,6 @@ export function StageDetailView({
 
     const response = await fetch('/api/objects/upload', {
       method: 'POST',
-      headers: {
-        'x-user-id': user?.id || '',
-      },
       body: formData,
     });
 
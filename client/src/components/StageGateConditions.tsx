@@ -0,0 +1,12 @@
+import type { UnmetCondition } from "@shared/stageGates";
+
+// Список невыполненных условий входа в этап — для toast и карточки сделки
+export function StageGateConditions({ unmet }: { unmet: UnmetCondition[] }) {
+  return (
+    <ul className="list-disc pl-4 space-y-0.5">
+      {unmet.map((condition, index) => (
+        <li key={`${condition.code}-${condition.field ?? index}`}>{condition.message}</li>
+      ))}
+    </ul>
+  );
+}
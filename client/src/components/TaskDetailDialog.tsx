@@ -338,7 +338,6 @@ export function TaskDetailDialog({ taskId, open, onOpenChange }: TaskDetailDialo
         method: "POST",
         headers: {
           "Content-Type": "application/json",
-          "X-User-Id": userId
         },
         body: JSON.stringify({ userId }),
       });
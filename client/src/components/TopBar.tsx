@@ -5,8 +5,11 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { ThemeToggle } from "./ThemeToggle";
 import { UserAvatar } from "./UserAvatar";
+import { ChangePasswordDialog } from "./ChangePasswordDialog";
+import { TwoFactorDialog } from "./TwoFactorDialog";
 import { SidebarTrigger } from "@/components/ui/sidebar";
 import { useToast } from "@/hooks/use-toast";
+import { logout } from "@/lib/queryClient";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -38,6 +41,8 @@ export function TopBar({ onAssistantToggle, isAssistantOpen }: TopBarProps) {
   const [searchOpen, setSearchOpen] = useState(false);
   const [userRole, setUserRole] = useState<any>(null);
   const [userName, setUserName] = useState<string>("Пользователь");
+  const [changePasswordOpen, setChangePasswordOpen] = useState(false);
+  const [twoFactorOpen, setTwoFactorOpen] = useState(false);
   const [, setLocation] = useLocation();
   const { toast } = useToast();
 
@@ -59,12 +64,9 @@ export function TopBar({ onAssistantToggle, isAssistantOpen }: TopBarProps) {
   const showSidebarToggle = userRole?.name !== 'Замерщик';
 
   // Функция выхода из системы
-  const handleLogout = () => {
-    // Очищаем localStorage
-    localStorage.removeItem("user");
-    localStorage.removeItem("userRole");
-    localStorage.removeItem("userPermissions");
-    localStorage.removeItem("currentUserId");
+  const handleLogout = async () => {
+    // Отзываем сессию на сервере и очищаем данные пользователя
+    await logout();
 
     // Показываем уведомление
     toast({
@@ -210,6 +212,12 @@ export function TopBar({ onAssistantToggle, isAssistantOpen }: TopBarProps) {
             <DropdownMenuSeparator />
             <DropdownMenuItem className="cursor-pointer">Профиль</DropdownMenuItem>
             <DropdownMenuItem className="cursor-pointer">Настройки</DropdownMenuItem>
+            <DropdownMenuItem className="cursor-pointer" onClick={() => setChangePasswordOpen(true)}>
+              Сменить пароль
+            </DropdownMenuItem>
+            <DropdownMenuItem className="cursor-pointer" onClick={() => setTwoFactorOpen(true)}>
+              Двухфакторная аутентификация
+            </DropdownMenuItem>
             <DropdownMenuSeparator />
             <DropdownMenuItem className="cursor-pointer" onClick={handleLogout}>
               Выйти
@@ -217,6 +225,9 @@ export function TopBar({ onAssistantToggle, isAssistantOpen }: TopBarProps) {
           </DropdownMenuContent>
         </DropdownMenu>
       </div>
+
+      <ChangePasswordDialog open={changePasswordOpen} onOpenChange={setChangePasswordOpen} />
+      <TwoFactorDialog open={twoFactorOpen} onOpenChange={setTwoFactorOpen} />
     </header>
   );
 }
@@ -0,0 +1,271 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, type SessionData } from "@/lib/queryClient";
+import { ShieldCheck } from "lucide-react";
+
+interface TwoFactorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Роль требует 2FA, а она ещё не подключена: диалог нельзя закрыть до завершения настройки
+  forced?: boolean;
+  onEnabled?: () => void;
+}
+
+interface SetupData {
+  secret: string;
+  otpauth_url: string;
+  qr_code: string;
+}
+
+type Step = "status" | "setup" | "backup-codes" | "disable";
+
+export function TwoFactorDialog({ open, onOpenChange, forced = false, onEnabled }: TwoFactorDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [step, setStep] = useState<Step>("status");
+  const [setupData, setSetupData] = useState<SetupData | null>(null);
+  const [backupCodes, setBackupCodes] = useState<string[]>([]);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+
+  const { data: session, isLoading } = useQuery<SessionData>({
+    queryKey: ["/api/auth/me"],
+    enabled: open,
+  });
+
+  const enabled = !!session?.user?.two_factor_enabled;
+  const requiredByRole = !!session?.role?.require_2fa;
+
+  const resetState = () => {
+    setStep("status");
+    setSetupData(null);
+    setBackupCodes([]);
+    setCode("");
+    setPassword("");
+  };
+
+  const showError = (error: Error) => {
+    toast({
+      title: "Ошибка",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest<SetupData>("POST", "/api/auth/2fa/setup");
+    },
+    onSuccess: (data) => {
+      setSetupData(data);
+      setCode("");
+      setStep("setup");
+    },
+    onError: showError,
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest<{ backup_codes: string[] }>("POST", "/api/auth/2fa/enable", { code });
+    },
+    onSuccess: (data) => {
+      setBackupCodes(data.backup_codes);
+      setCode("");
+      setStep("backup-codes");
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+    },
+    onError: showError,
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest<{ backup_codes: string[] }>("POST", "/api/auth/2fa/backup-codes", { code });
+    },
+    onSuccess: (data) => {
+      setBackupCodes(data.backup_codes);
+      setCode("");
+      setStep("backup-codes");
+    },
+    onError: showError,
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", "/api/auth/2fa/disable", { password, code });
+    },
+    onSuccess: () => {
+      toast({ description: "Двухфакторная аутентификация отключена" });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+      resetState();
+    },
+    onError: showError,
+  });
+
+  const handleOpenChange = (value: boolean) => {
+    if (forced) return;
+    if (!value) resetState();
+    onOpenChange(value);
+  };
+
+  const handleDone = () => {
+    if (forced) {
+      onEnabled?.();
+      return;
+    }
+    resetState();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent
+        className="max-w-md"
+        onEscapeKeyDown={(e) => forced && e.preventDefault()}
+        onPointerDownOutside={(e) => forced && e.preventDefault()}
+      >
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Двухфакторная аутентификация
+          </DialogTitle>
+          <DialogDescription>
+            {forced
+              ? "Для вашей роли вход возможен только с кодом из приложения-аутентификатора. Подключите его, чтобы продолжить работу."
+              : "Вход с паролем и кодом из приложения-аутентификатора (Google Authenticator, Яндекс Ключ и др.)."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <Skeleton className="h-32" />
+        ) : step === "setup" && setupData ? (
+          <div className="space-y-4">
+            <p className="text-sm">Отсканируйте QR-код в приложении и введите полученный код.</p>
+            <div className="flex justify-center">
+              <img src={setupData.qr_code} alt="QR-код для приложения-аутентификатора" className="h-48 w-48" />
+            </div>
+            <p className="text-xs text-muted-foreground break-all">
+              Ключ для ручного ввода: <span className="font-mono select-all">{setupData.secret}</span>
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="totp-code">Код из приложения</Label>
+              <Input
+                id="totp-code"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                placeholder="123456"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+              />
+            </div>
+            <DialogFooter>
+              <Button
+                onClick={() => enableMutation.mutate()}
+                disabled={enableMutation.isPending || !code.trim()}
+                data-testid="button-enable-2fa"
+              >
+                {enableMutation.isPending ? "Проверка..." : "Подключить"}
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : step === "backup-codes" ? (
+          <div className="space-y-4">
+            <p className="text-sm">
+              Сохраните резервные коды в надёжном месте. Каждый код можно использовать для входа один раз,
+              если телефон недоступен. Больше они показаны не будут.
+            </p>
+            <div className="grid grid-cols-2 gap-2 rounded-md border p-3 font-mono text-sm select-all">
+              {backupCodes.map((backupCode) => (
+                <span key={backupCode}>{backupCode}</span>
+              ))}
+            </div>
+            <DialogFooter>
+              <Button onClick={handleDone}>Я сохранил коды</Button>
+            </DialogFooter>
+          </div>
+        ) : step === "disable" ? (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="disable-password">Пароль</Label>
+              <Input
+                id="disable-password"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="disable-code">Код из приложения или резервный код</Label>
+              <Input id="disable-code" value={code} onChange={(e) => setCode(e.target.value)} />
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={resetState}>Отмена</Button>
+              <Button
+                variant="destructive"
+                onClick={() => disableMutation.mutate()}
+                disabled={disableMutation.isPending || !password || !code.trim()}
+              >
+                Отключить
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : enabled ? (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Badge variant="secondary">Подключена</Badge>
+              {requiredByRole && <span className="text-xs text-muted-foreground">Обязательна для вашей роли</span>}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="regenerate-code">Новые резервные коды</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="regenerate-code"
+                  placeholder="Код из приложения"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                />
+                <Button
+                  variant="outline"
+                  onClick={() => regenerateMutation.mutate()}
+                  disabled={regenerateMutation.isPending || !code.trim()}
+                >
+                  Выпустить
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">Старые резервные коды перестанут действовать.</p>
+            </div>
+            {!requiredByRole && (
+              <DialogFooter>
+                <Button variant="outline" onClick={() => { setCode(""); setStep("disable"); }}>
+                  Отключить 2FA
+                </Button>
+              </DialogFooter>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <Badge variant="outline">Не подключена</Badge>
+            <DialogFooter>
+              <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending} data-testid="button-setup-2fa">
+                {setupMutation.isPending ? "Подготовка..." : "Подключить"}
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
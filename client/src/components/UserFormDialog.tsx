@@ -23,6 +23,7 @@ import {
 import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
 import { UserPermissionsSection } from "@/components/UserPermissionsSection";
+import { UserSessionsSection } from "@/components/UserSessionsSection";
 import { Separator } from "@/components/ui/separator";
 import type { User, Role } from "@shared/schema";
 
@@ -292,7 +293,7 @@ export function UserFormDialog({ open, onOpenChange, user, mode }: UserFormDialo
                 <Label htmlFor="is_active" className="flex flex-col space-y-1">
                   <span>Активный пользователь</span>
                   <span className="font-normal text-sm text-muted-foreground">
-                    Неактивные пользователи не могут входить в систему
+                    Неактивные пользователи не могут входить в систему, их сессии завершаются
                   </span>
                 </Label>
                 <Switch
@@ -322,6 +323,8 @@ export function UserFormDialog({ open, onOpenChange, user, mode }: UserFormDialo
             <>
               <Separator className="my-4" />
               <UserPermissionsSection userId={user.id} roleId={user.role_id} />
+              <Separator className="my-4" />
+              <UserSessionsSection userId={user.id} />
             </>
           )}
 
@@ -1,6 +1,5 @@
 import { useState, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { getCurrentUserId } from "@/lib/queryClient";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
@@ -83,9 +82,6 @@ export function UserPermissionsSection({ userId, roleId }: UserPermissionsSectio
     queryFn: async () => {
       const response = await fetch(`/api/users/${userId}/permissions`, {
         credentials: "include",
-        headers: {
-          "X-User-Id": getCurrentUserId(),
-        },
       });
       if (!response.ok) throw new Error("Failed to fetch permissions");
       return response.json();
@@ -133,7 +129,6 @@ export function UserPermissionsSection({ userId, roleId }: UserPermissionsSectio
         method: "PUT",
         headers: {
           "Content-Type": "application/json",
-          "X-User-Id": getCurrentUserId(),
         },
         body: JSON.stringify(permissions),
         credentials: "include",
@@ -167,9 +162,6 @@ export function UserPermissionsSection({ userId, roleId }: UserPermissionsSectio
       const response = await fetch(`/api/users/${userId}/permissions/${module}`, {
         method: "DELETE",
         credentials: "include",
-        headers: {
-          "X-User-Id": getCurrentUserId(),
-        },
       });
       if (!response.ok && response.status !== 404) {
         const error = await response.json();
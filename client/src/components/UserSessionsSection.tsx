@@ -0,0 +1,145 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Loader2, LogOut, Monitor, Smartphone } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { format } from "date-fns";
+import type { UserSession } from "@shared/schema";
+
+type SessionInfo = Omit<UserSession, "token_hash"> & { current: boolean };
+
+interface UserSessionsSectionProps {
+  userId: string;
+}
+
+// Короткое описание устройства по User-Agent: «Chrome, Windows»
+function describeDevice(userAgent: string | null): string {
+  if (!userAgent) return "Неизвестное устройство";
+
+  const browser =
+    /Edg\//.test(userAgent) ? "Edge" :
+    /OPR\/|Opera/.test(userAgent) ? "Opera" :
+    /YaBrowser/.test(userAgent) ? "Яндекс Браузер" :
+    /Chrome\//.test(userAgent) ? "Chrome" :
+    /Firefox\//.test(userAgent) ? "Firefox" :
+    /Safari\//.test(userAgent) ? "Safari" :
+    null;
+  const os =
+    /Windows/.test(userAgent) ? "Windows" :
+    /Android/.test(userAgent) ? "Android" :
+    /iPhone|iPad/.test(userAgent) ? "iOS" :
+    /Mac OS X/.test(userAgent) ? "macOS" :
+    /Linux/.test(userAgent) ? "Linux" :
+    null;
+
+  return [browser, os].filter(Boolean).join(", ") || userAgent;
+}
+
+function isMobile(userAgent: string | null): boolean {
+  return !!userAgent && /Android|iPhone|iPad|Mobile/.test(userAgent);
+}
+
+export function UserSessionsSection({ userId }: UserSessionsSectionProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = ["/api/users", userId, "sessions"];
+
+  const { data: sessions = [], isLoading } = useQuery<SessionInfo[]>({
+    queryKey,
+  });
+
+  const showError = (error: Error) => {
+    toast({
+      title: "Ошибка",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const revokeMutation = useMutation({
+    mutationFn: async (sessionId: string) => {
+      return await apiRequest("DELETE", `/api/users/${userId}/sessions/${sessionId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({ description: "Сессия завершена" });
+    },
+    onError: showError,
+  });
+
+  const revokeAllMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest<{ revoked: number }>("DELETE", `/api/users/${userId}/sessions`);
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({ description: `Завершено сессий: ${result.revoked}` });
+    },
+    onError: showError,
+  });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label>Активные сессии</Label>
+        {sessions.length > 0 && (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => revokeAllMutation.mutate()}
+            disabled={revokeAllMutation.isPending}
+            data-testid="button-revoke-all-sessions"
+          >
+            <LogOut className="h-4 w-4 mr-2" />
+            Завершить все
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center p-4">
+          <Loader2 className="h-5 w-5 animate-spin" />
+        </div>
+      ) : sessions.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Пользователь сейчас не в системе</p>
+      ) : (
+        sessions.map((session) => {
+          const DeviceIcon = isMobile(session.user_agent) ? Smartphone : Monitor;
+          return (
+            <div
+              key={session.id}
+              className="flex items-center justify-between gap-2 rounded-md border p-2"
+              data-testid={`user-session-${session.id}`}
+            >
+              <div className="flex items-start gap-2 min-w-0">
+                <DeviceIcon className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+                <div className="min-w-0">
+                  <p className="text-sm truncate" title={session.user_agent || undefined}>
+                    {describeDevice(session.user_agent)}
+                    {session.current && <Badge variant="secondary" className="ml-2">Эта сессия</Badge>}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {session.ip_address || "IP неизвестен"} · активность {format(new Date(session.last_seen_at), "dd.MM.yyyy HH:mm")}
+                  </p>
+                </div>
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                title="Завершить сессию"
+                onClick={() => revokeMutation.mutate(session.id)}
+                disabled={revokeMutation.isPending}
+              >
+                <LogOut className="h-4 w-4 text-destructive" />
+              </Button>
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+}
@@ -52,10 +52,9 @@ interface WarehouseItemDetailSheetProps {
   item: WarehouseItem | null;
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  currentUserId: string;
 }
 
-export function WarehouseItemDetailSheet({ item, open, onOpenChange, currentUserId }: WarehouseItemDetailSheetProps) {
+export function WarehouseItemDetailSheet({ item, open, onOpenChange }: WarehouseItemDetailSheetProps) {
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [showTransactionDialog, setShowTransactionDialog] = useState(false);
   const [showQRDialog, setShowQRDialog] = useState(false);
@@ -923,7 +922,6 @@ export function WarehouseItemDetailSheet({ item, open, onOpenChange, currentUser
           open={showTransactionDialog}
           onOpenChange={setShowTransactionDialog}
           itemId={item.id}
-          currentUserId={currentUserId}
         />
       )}
 
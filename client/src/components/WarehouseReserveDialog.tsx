@@ -16,14 +16,12 @@ interface WarehouseReserveDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   item: WarehouseItem | null;
-  userId: string;
 }
 
 export function WarehouseReserveDialog({
   open,
   onOpenChange,
   item,
-  userId,
 }: WarehouseReserveDialogProps) {
   const { toast } = useToast();
   const [projectId, setProjectId] = useState<string>("");
@@ -58,7 +56,6 @@ export function WarehouseReserveDialog({
       item_id: string;
       project_id: string;
       quantity: number;
-      reserved_by: string;
       reason?: string;
       notes?: string;
     }) => {
@@ -120,7 +117,6 @@ export function WarehouseReserveDialog({
       item_id: item.id,
       project_id: projectId,
       quantity: quantityNum,
-      reserved_by: userId || "",
       reason: reason || undefined,
       notes: notes || undefined,
     });
@@ -38,18 +38,16 @@ interface WarehouseTransactionDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   itemId: string;
-  currentUserId: string;
 }
 
-const transactionFormSchema = insertWarehouseTransactionSchema.extend({
+const transactionFormSchema = insertWarehouseTransactionSchema.omit({ user_id: true }).extend({
   type: z.enum(["in", "out"]),
 });
 
 export function WarehouseTransactionDialog({ 
   open, 
   onOpenChange, 
-  itemId,
-  currentUserId
+  itemId
 }: WarehouseTransactionDialogProps) {
   const { toast } = useToast();
 
@@ -63,7 +61,6 @@ export function WarehouseTransactionDialog({
       item_id: itemId,
       type: "in" as "in" | "out",
       quantity: 0,
-      user_id: currentUserId,
       project_id: "",
       notes: "",
     },
@@ -78,7 +75,7 @@ export function WarehouseTransactionDialog({
         project_id: data.type === "out" && data.project_id ? data.project_id : null,
         notes: data.notes || null,
       };
-      await apiRequest("POST", "/api/warehouse/transactions", transactionData);
+      await apiRequest("POST", `/api/warehouse/items/${itemId}/transactions`, transactionData);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/warehouse"] });
@@ -93,7 +90,6 @@ export function WarehouseTransactionDialog({
         item_id: itemId,
         type: "in",
         quantity: 0,
-        user_id: currentUserId,
         project_id: "",
         notes: "",
       });
@@ -24,6 +24,7 @@ import {
   ImageOff,
   Lock,
   Check,
+  Link2,
 } from "lucide-react";
 import { format, isValid } from "date-fns";
 import { ru } from "date-fns/locale";
@@ -49,6 +50,7 @@ interface DocumentCardProps {
   onView?: () => void;
   onDownload?: () => void;
   onDelete?: () => void;
+  onShare?: () => void;
   onToggleFinancial?: () => void;
   isFinancial?: boolean;
   className?: string;
@@ -284,6 +286,7 @@ export function DocumentCard({
   onView,
   onDownload,
   onDelete,
+  onShare,
   onToggleFinancial,
   isFinancial,
   className,
@@ -370,6 +373,12 @@ export function DocumentCard({
               </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end">
+              {onShare && (
+                <DropdownMenuItem onClick={(e) => { e.stopPropagation(); onShare(); }}>
+                  <Link2 className="h-4 w-4 mr-2" />
+                  Скопировать ссылку
+                </DropdownMenuItem>
+              )}
               {onToggleFinancial && (
                 <DropdownMenuItem onClick={(e) => { e.stopPropagation(); onToggleFinancial(); }}>
                   <Lock className="h-4 w-4 mr-2" />
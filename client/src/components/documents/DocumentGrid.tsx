@@ -41,6 +41,7 @@ interface DocumentGridProps {
   onDocumentView?: (doc: Document) => void;
   onDocumentDownload?: (doc: Document) => void;
   onDocumentDelete?: (doc: Document) => void;
+  onDocumentShare?: (doc: Document) => void;
   onToggleFinancial?: (doc: Document) => void;
   canEditFinancial?: boolean;
   onUpload?: () => void;
@@ -58,6 +59,7 @@ export function DocumentGrid({
   onDocumentView,
   onDocumentDownload,
   onDocumentDelete,
+  onDocumentShare,
   onToggleFinancial,
   canEditFinancial = false,
   onUpload,
@@ -222,6 +224,7 @@ export function DocumentGrid({
                 onView={() => onDocumentView?.(doc)}
                 onDownload={() => onDocumentDownload?.(doc)}
                 onDelete={() => onDocumentDelete?.(doc)}
+                onShare={onDocumentShare ? () => onDocumentShare(doc) : undefined}
                 onToggleFinancial={canEditFinancial ? () => onToggleFinancial?.(doc) : undefined}
                 isFinancial={doc.isFinancial}
               />
@@ -19,7 +19,7 @@ import {
 import { Progress } from "@/components/ui/progress";
 import { Separator } from "@/components/ui/separator";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { apiRequest, queryClient, getCurrentUserId } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import {
   Select,
@@ -250,9 +250,6 @@ export function ExcelComparisonView({ stageId, projectId }: ExcelComparisonViewP
 
       const response = await fetch('/api/procurement/upload', {
         method: 'POST',
-        headers: {
-          'x-user-id': getCurrentUserId(),
-        },
         body: formData,
       });
 
@@ -356,9 +353,6 @@ export function ExcelComparisonView({ stageId, projectId }: ExcelComparisonViewP
     try {
       const response = await fetch(`/api/procurement/${currentComparisonId}/export`, {
         method: 'GET',
-        headers: {
-          'X-User-Id': getCurrentUserId(),
-        },
         credentials: 'include',
       });
 
@@ -1,12 +1,61 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+export interface SessionData {
+  user: any;
+  role: any;
+  permissions: any[];
+}
+
+// Пользователь текущей сессии (сессия хранится в httpOnly cookie, здесь только её данные)
+let sessionData: SessionData | null = null;
+
 export function getCurrentUserId(): string {
-  const storedUserId = localStorage.getItem("currentUserId");
-  return storedUserId || "";
+  return sessionData?.user?.id || "";
+}
+
+/**
+ * Сохраняет данные сессии после входа или проверки /api/auth/me.
+ * localStorage используется только как кеш для отображения, не для авторизации.
+ */
+export function setSession(data: SessionData | null) {
+  sessionData = data;
+
+  if (data) {
+    localStorage.setItem("user", JSON.stringify(data.user));
+    localStorage.setItem("userRole", JSON.stringify(data.role));
+    localStorage.setItem("userPermissions", JSON.stringify(data.permissions));
+  } else {
+    localStorage.removeItem("user");
+    localStorage.removeItem("userRole");
+    localStorage.removeItem("userPermissions");
+  }
+  // Старый ключ с id пользователя больше не используется
+  localStorage.removeItem("currentUserId");
+}
+
+/**
+ * Загружает текущую сессию с сервера. Возвращает null, если пользователь не авторизован.
+ */
+export async function fetchSession(): Promise<SessionData | null> {
+  const res = await fetch("/api/auth/me", { credentials: "include" });
+
+  if (res.status === 401) {
+    setSession(null);
+    return null;
+  }
+
+  await throwIfResNotOk(res);
+  const data: SessionData = await res.json();
+  setSession(data);
+  return data;
 }
 
-export function setCurrentUserId(userId: string) {
-  localStorage.setItem("currentUserId", userId);
+export async function logout() {
+  try {
+    await fetch("/api/auth/logout", { method: "POST", credentials: "include" });
+  } finally {
+    setSession(null);
+  }
 }
 
 async function throwIfResNotOk(res: Response) {
@@ -17,17 +66,7 @@ async function throwIfResNotOk(res: Response) {
 }
 
 export function getCurrentUserRole(): string {
-  const storedRole = localStorage.getItem("userRole");
-  if (storedRole) {
-    try {
-      const role = JSON.parse(storedRole);
-      // Encode role name to handle non-ASCII characters (e.g., Cyrillic)
-      return role?.name ? encodeURIComponent(role.name) : "";
-    } catch {
-      return "";
-    }
-  }
-  return "";
+  return sessionData?.role?.name || "";
 }
 
 export async function apiRequest<T = any>(
@@ -35,10 +74,7 @@ export async function apiRequest<T = any>(
   url: string,
   data?: unknown | undefined,
 ): Promise<T> {
-  const headers: Record<string, string> = {
-    "X-User-Id": getCurrentUserId(),
-    "X-User-Role": getCurrentUserRole(),
-  };
+  const headers: Record<string, string> = {};
 
   if (data) {
     headers["Content-Type"] = "application/json";
@@ -70,10 +106,6 @@ export const getQueryFn: <T>(options: {
   async ({ queryKey }) => {
     const res = await fetch(queryKey.join("/") as string, {
       credentials: "include",
-      headers: {
-        "X-User-Id": getCurrentUserId(),
-        "X-User-Role": getCurrentUserRole(),
-      },
     });
 
     if (unauthorizedBehavior === "returnNull" && res.status === 401) {
@@ -0,0 +1,14 @@
+import type { StageGateBlocked } from "@shared/stageGates";
+
+/**
+ * Ответ 422 о невыполненных условиях этапа из ошибки apiRequest ("422: {...}")
+ */
+export function parseStageGateError(error: unknown): StageGateBlocked | null {
+  if (!(error instanceof Error) || !error.message.startsWith("422: ")) return null;
+  try {
+    const body = JSON.parse(error.message.slice("422: ".length));
+    return body?.code === "STAGE_REQUIREMENTS_NOT_MET" ? body : null;
+  } catch {
+    return null;
+  }
+}
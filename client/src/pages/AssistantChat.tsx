@@ -101,7 +101,6 @@ export default function AssistantChat() {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
-          "X-User-Id": userId
         },
         body: JSON.stringify({
           userId,
@@ -583,7 +583,6 @@ export default function Board() {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
-          "X-User-Id": currentUser?.id || "",
         },
         body: JSON.stringify({ userId: currentUser?.id }),
       });
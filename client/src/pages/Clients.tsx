@@ -2,7 +2,7 @@ import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Plus, Search, Pencil, Trash2, User, Phone, Mail, Building2, FileText, FolderKanban, ChevronRight } from "lucide-react";
+import { Plus, Search, Pencil, Trash2, User, Phone, Mail, Building2, FileText, FolderKanban, ChevronRight, Link2, Wrench, Copy } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
@@ -43,15 +43,48 @@ import { Switch } from "@/components/ui/switch";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { formatCurrency } from "@/lib/utils";
-import type { Client, Deal, Project } from "@shared/schema";
+import { DuplicatesDialog } from "@/components/DuplicatesDialog";
+import type { Client, Deal, Project, MontageOrder } from "@shared/schema";
 
 interface ClientWithStats extends Client {
   deals_count: number;
   total_amount: number;
   projects_count: number;
+  montage_orders_count: number;
+}
+
+type LinkedEntityType = "deal" | "project" | "montage_order";
+
+interface ClientLinkReviewItem {
+  entity_type: LinkedEntityType;
+  entity_id: string;
+  label: string;
+  client_name: string | null;
+  phone: string | null;
+  email: string | null;
+  candidates: { id: string; name: string; phone: string | null; email: string | null }[];
+}
+
+interface ClientLinkResult {
+  linked: Record<LinkedEntityType, number>;
+  unmatched: Record<LinkedEntityType, number>;
+  review: ClientLinkReviewItem[];
 }
 
+const entityTypeLabels: Record<LinkedEntityType, string> = {
+  deal: "Сделка",
+  project: "Проект",
+  montage_order: "Монтаж",
+};
+
 interface ClientFormData {
   name: string;
   contact_person: string;
@@ -82,6 +115,10 @@ export default function Clients() {
   const [isDetailSheetOpen, setIsDetailSheetOpen] = useState(false);
   const [selectedClient, setSelectedClient] = useState<ClientWithStats | null>(null);
   const [formData, setFormData] = useState<ClientFormData>(emptyFormData);
+  const [isLinkDialogOpen, setIsLinkDialogOpen] = useState(false);
+  const [isDuplicatesDialogOpen, setIsDuplicatesDialogOpen] = useState(false);
+  // Похожие клиенты, найденные при создании: создаём только после подтверждения
+  const [possibleDuplicates, setPossibleDuplicates] = useState<Client[]>([]);
 
   const { toast } = useToast();
 
@@ -108,6 +145,18 @@ export default function Clients() {
     enabled: !!selectedClient?.id && isDetailSheetOpen,
   });
 
+  // Fetch client's montage orders
+  const { data: clientMontageOrders = [] } = useQuery<MontageOrder[]>({
+    queryKey: ["/api/clients", selectedClient?.id, "montage-orders"],
+    enabled: !!selectedClient?.id && isDetailSheetOpen,
+  });
+
+  // Preview of linking existing records to clients
+  const { data: linkReview, isLoading: isLoadingLinkReview } = useQuery<ClientLinkResult>({
+    queryKey: ["/api/clients/link-review"],
+    enabled: isLinkDialogOpen,
+  });
+
   const filteredClients = clients.filter((client) =>
     client.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
     (client.contact_person && client.contact_person.toLowerCase().includes(searchQuery.toLowerCase())) ||
@@ -115,13 +164,32 @@ export default function Clients() {
   );
 
   const createMutation = useMutation({
-    mutationFn: async (data: ClientFormData) => {
-      return await apiRequest("POST", "/api/clients", data);
+    mutationFn: async ({ data, confirmDuplicate }: { data: ClientFormData; confirmDuplicate?: boolean }) => {
+      const res = await fetch("/api/clients", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...data, confirm_duplicate: confirmDuplicate === true }),
+        credentials: "include",
+      });
+      const body = await res.json();
+
+      if (res.status === 409 && body.code === "POSSIBLE_DUPLICATE") {
+        return { duplicates: body.duplicates.map((match: { record: Client }) => match.record) as Client[] };
+      }
+      if (!res.ok) {
+        throw new Error(body.error || "Не удалось создать клиента");
+      }
+      return { duplicates: [] as Client[] };
     },
-    onSuccess: () => {
+    onSuccess: ({ duplicates }) => {
+      if (duplicates.length > 0) {
+        setPossibleDuplicates(duplicates);
+        return;
+      }
       queryClient.invalidateQueries({ queryKey: ["/api/clients"] });
       toast({ title: "Успешно", description: "Клиент создан" });
       setIsCreateDialogOpen(false);
+      setPossibleDuplicates([]);
       setFormData(emptyFormData);
     },
     onError: (error: Error) => {
@@ -160,6 +228,34 @@ export default function Clients() {
     },
   });
 
+  const linkExistingMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest<ClientLinkResult>("POST", "/api/clients/link-existing");
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/clients"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/clients/link-review"] });
+      const total = result.linked.deal + result.linked.project + result.linked.montage_order;
+      toast({ title: "Успешно", description: `Привязано записей: ${total}` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Ошибка", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const resolveLinkMutation = useMutation({
+    mutationFn: async (data: { entity_type: LinkedEntityType; entity_id: string; client_id: string }) => {
+      return await apiRequest("POST", "/api/clients/link-review/resolve", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/clients"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/clients/link-review"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Ошибка", description: error.message, variant: "destructive" });
+    },
+  });
+
   const handleCreate = () => {
     setFormData(emptyFormData);
     setIsCreateDialogOpen(true);
@@ -196,7 +292,7 @@ export default function Clients() {
       toast({ title: "Ошибка", description: "Введите имя клиента", variant: "destructive" });
       return;
     }
-    createMutation.mutate(formData);
+    createMutation.mutate({ data: formData });
   };
 
   const handleSubmitEdit = (e: React.FormEvent) => {
@@ -305,10 +401,20 @@ export default function Clients() {
             Управление клиентами и их данными
           </p>
         </div>
-        <Button onClick={handleCreate}>
-          <Plus className="h-4 w-4 mr-2" />
-          Новый клиент
-        </Button>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => setIsDuplicatesDialogOpen(true)}>
+            <Copy className="h-4 w-4 mr-2" />
+            Дубли
+          </Button>
+          <Button variant="outline" onClick={() => setIsLinkDialogOpen(true)}>
+            <Link2 className="h-4 w-4 mr-2" />
+            Привязка записей
+          </Button>
+          <Button onClick={handleCreate}>
+            <Plus className="h-4 w-4 mr-2" />
+            Новый клиент
+          </Button>
+        </div>
       </div>
 
       <div className="flex items-center gap-4">
@@ -442,7 +548,7 @@ export default function Clients() {
           ) : clientDetails && (
             <div className="mt-6 space-y-6">
               {/* Stats Cards */}
-              <div className="grid grid-cols-3 gap-4">
+              <div className="grid grid-cols-4 gap-4">
                 <Card>
                   <CardContent className="pt-4">
                     <div className="text-2xl font-bold">{clientDetails.deals_count}</div>
@@ -455,6 +561,12 @@ export default function Clients() {
                     <p className="text-xs text-muted-foreground">Проектов</p>
                   </CardContent>
                 </Card>
+                <Card>
+                  <CardContent className="pt-4">
+                    <div className="text-2xl font-bold">{clientDetails.montage_orders_count}</div>
+                    <p className="text-xs text-muted-foreground">Монтажей</p>
+                  </CardContent>
+                </Card>
                 <Card>
                   <CardContent className="pt-4">
                     <div className="text-lg font-bold">{formatCurrency(clientDetails.total_amount || 0)}</div>
@@ -512,6 +624,10 @@ export default function Clients() {
                     <FolderKanban className="h-4 w-4 mr-2" />
                     Проекты ({clientProjects.length})
                   </TabsTrigger>
+                  <TabsTrigger value="montage" className="flex-1">
+                    <Wrench className="h-4 w-4 mr-2" />
+                    Монтаж ({clientMontageOrders.length})
+                  </TabsTrigger>
                 </TabsList>
 
                 <TabsContent value="deals" className="mt-4">
@@ -572,12 +688,159 @@ export default function Clients() {
                     </div>
                   )}
                 </TabsContent>
+
+                <TabsContent value="montage" className="mt-4">
+                  {clientMontageOrders.length === 0 ? (
+                    <div className="text-center py-8 text-muted-foreground">
+                      Нет заказов на монтаж
+                    </div>
+                  ) : (
+                    <div className="space-y-2">
+                      {clientMontageOrders.map((order) => (
+                        <Card key={order.id}>
+                          <CardContent className="py-3">
+                            <div className="flex justify-between items-center">
+                              <div>
+                                <p className="font-medium">{order.order_number || "Без номера"}</p>
+                                <p className="text-xs text-muted-foreground">
+                                  {order.address} · {formatDate(order.scheduled_date)}
+                                </p>
+                              </div>
+                              <Badge variant="outline">
+                                {order.status}
+                              </Badge>
+                            </div>
+                          </CardContent>
+                        </Card>
+                      ))}
+                    </div>
+                  )}
+                </TabsContent>
               </Tabs>
             </div>
           )}
         </SheetContent>
       </Sheet>
 
+      <DuplicatesDialog open={isDuplicatesDialogOpen} onOpenChange={setIsDuplicatesDialogOpen} />
+
+      {/* Possible duplicate on create */}
+      <AlertDialog open={possibleDuplicates.length > 0} onOpenChange={(open) => !open && setPossibleDuplicates([])}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Похожий клиент уже есть</AlertDialogTitle>
+            <AlertDialogDescription asChild>
+              <div className="space-y-2">
+                <p>Проверьте, не тот же ли это клиент:</p>
+                {possibleDuplicates.map((client) => (
+                  <div key={client.id} className="p-2 border rounded-md text-sm text-foreground">
+                    <p className="font-medium">{client.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {[client.phone, client.email, client.inn && `ИНН ${client.inn}`].filter(Boolean).join(" · ")}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Не создавать</AlertDialogCancel>
+            <AlertDialogAction onClick={() => createMutation.mutate({ data: formData, confirmDuplicate: true })}>
+              Всё равно создать
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Link existing records Dialog */}
+      <Dialog open={isLinkDialogOpen} onOpenChange={setIsLinkDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Привязка сделок, проектов и монтажей к клиентам</DialogTitle>
+          </DialogHeader>
+
+          {isLoadingLinkReview || !linkReview ? (
+            <div className="space-y-2">
+              <Skeleton className="h-16 w-full" />
+              <Skeleton className="h-16 w-full" />
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="grid grid-cols-3 gap-4 text-sm">
+                {(Object.keys(entityTypeLabels) as LinkedEntityType[]).map((type) => (
+                  <Card key={type}>
+                    <CardContent className="pt-4 space-y-1">
+                      <p className="font-medium">{entityTypeLabels[type]}</p>
+                      <p className="text-muted-foreground">Совпадений: {linkReview.linked[type]}</p>
+                      <p className="text-muted-foreground">Без совпадений: {linkReview.unmatched[type]}</p>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+
+              <p className="text-sm text-muted-foreground">
+                Записи связываются по телефону и email, а если их нет — по имени клиента.
+                Проекты получают клиента сделки, заказы на монтаж — клиента проекта.
+              </p>
+
+              {linkReview.review.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">
+                    Требуют ручной проверки ({linkReview.review.length})
+                  </p>
+                  {linkReview.review.map((item) => (
+                    <div
+                      key={`${item.entity_type}-${item.entity_id}`}
+                      className="flex items-center justify-between gap-4 p-3 border rounded-lg"
+                    >
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <Badge variant="outline">{entityTypeLabels[item.entity_type]}</Badge>
+                          <span className="font-medium truncate">{item.label}</span>
+                        </div>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {[item.client_name, item.phone, item.email].filter(Boolean).join(" · ")}
+                        </p>
+                      </div>
+                      <Select
+                        onValueChange={(clientId) => resolveLinkMutation.mutate({
+                          entity_type: item.entity_type,
+                          entity_id: item.entity_id,
+                          client_id: clientId,
+                        })}
+                      >
+                        <SelectTrigger className="w-[220px] shrink-0">
+                          <SelectValue placeholder="Выберите клиента" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {item.candidates.map((candidate) => (
+                            <SelectItem key={candidate.id} value={candidate.id}>
+                              {candidate.name}{candidate.phone ? ` · ${candidate.phone}` : ""}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setIsLinkDialogOpen(false)}>
+              Закрыть
+            </Button>
+            <Button
+              onClick={() => linkExistingMutation.mutate()}
+              disabled={linkExistingMutation.isPending || !linkReview}
+            >
+              {linkExistingMutation.isPending ? "Привязка..." : "Привязать совпадения"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Create Dialog */}
       <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
         <DialogContent className="max-w-lg">
@@ -6,7 +6,7 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest, setCurrentUserId } from "@/lib/queryClient";
+import { apiRequest, setSession } from "@/lib/queryClient";
 import { Eye, EyeOff, Loader2 } from "lucide-react";
 
 export default function Login() {
@@ -15,6 +15,29 @@ export default function Login() {
   const [username, setUsername] = useState("");
   const [password, setPassword] = useState("");
   const [showPassword, setShowPassword] = useState(false);
+  // Второй шаг входа при включённой двухфакторной аутентификации
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [code, setCode] = useState("");
+
+  const completeLogin = (data: any) => {
+    // Сессия выдана сервером в httpOnly cookie, сохраняем данные пользователя
+    setSession(data);
+
+    toast({ description: "Вход выполнен успешно" });
+
+    // Перенаправляем замерщика на проекты, остальных на дашборд
+    const redirectPath = data.role?.name === 'Замерщик' ? '/projects' : '/';
+
+    // Используем window.location.href для чистого редиректа с перезагрузкой
+    window.location.href = redirectPath;
+  };
+
+  const showError = (error: any) => {
+    toast({
+      description: error.message || "Ошибка входа",
+      variant: "destructive",
+    });
+  };
 
   const loginMutation = useMutation({
     mutationFn: async () => {
@@ -25,28 +48,39 @@ export default function Login() {
       return response;
     },
     onSuccess: (data: any) => {
-      // Сохраняем данные пользователя в localStorage
-      localStorage.setItem("user", JSON.stringify(data.user));
-      localStorage.setItem("userRole", JSON.stringify(data.role));
-      localStorage.setItem("userPermissions", JSON.stringify(data.permissions));
-      setCurrentUserId(data.user.id);
-
-      toast({ description: "Вход выполнен успешно" });
-
-      // Перенаправляем замерщика на проекты, остальных на дашборд
-      const redirectPath = data.role?.name === 'Замерщик' ? '/projects' : '/';
+      if (data.two_factor_required) {
+        setChallengeToken(data.challenge_token);
+        return;
+      }
+      completeLogin(data);
+    },
+    onError: showError,
+  });
 
-      // Используем window.location.href для чистого редиректа с перезагрузкой
-      window.location.href = redirectPath;
+  const verifyMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", "/api/auth/2fa/verify", {
+        challenge_token: challengeToken,
+        code,
+      });
     },
+    onSuccess: completeLogin,
     onError: (error: any) => {
-      toast({
-        description: error.message || "Ошибка входа",
-        variant: "destructive",
-      });
+      // Истёкший шаг подтверждения — начинаем вход заново
+      if (error.message?.startsWith("401") && error.message.includes("войдите снова")) {
+        setChallengeToken(null);
+        setCode("");
+      }
+      showError(error);
     },
   });
 
+  const handleVerify = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+    verifyMutation.mutate();
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -78,71 +112,122 @@ export default function Login() {
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <form onSubmit={handleSubmit} className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="username" className="text-sm md:text-base">
-                Логин
-              </Label>
-              <Input
-                id="username"
-                type="text"
-                placeholder="Введите логин"
-                value={username}
-                onChange={(e) => setUsername(e.target.value)}
-                disabled={loginMutation.isPending}
-                className="h-11 md:h-12 text-base"
-                autoComplete="username"
-                autoFocus
-              />
-            </div>
+          {challengeToken ? (
+            <form onSubmit={handleVerify} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="code" className="text-sm md:text-base">
+                  Код подтверждения
+                </Label>
+                <Input
+                  id="code"
+                  type="text"
+                  inputMode="numeric"
+                  placeholder="123456"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  disabled={verifyMutation.isPending}
+                  className="h-11 md:h-12 text-base tracking-widest"
+                  autoComplete="one-time-code"
+                  autoFocus
+                />
+                <p className="text-xs text-muted-foreground">
+                  Введите код из приложения-аутентификатора или один из резервных кодов
+                </p>
+              </div>
 
-            <div className="space-y-2">
-              <Label htmlFor="password" className="text-sm md:text-base">
-                Пароль
-              </Label>
-              <div className="relative">
+              <Button
+                type="submit"
+                className="w-full h-11 md:h-12 text-base font-medium"
+                disabled={verifyMutation.isPending || !code.trim()}
+              >
+                {verifyMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+                    Проверка...
+                  </>
+                ) : (
+                  "Подтвердить"
+                )}
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                className="w-full"
+                onClick={() => {
+                  setChallengeToken(null);
+                  setCode("");
+                }}
+              >
+                Назад
+              </Button>
+            </form>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="username" className="text-sm md:text-base">
+                  Логин
+                </Label>
                 <Input
-                  id="password"
-                  type={showPassword ? "text" : "password"}
-                  placeholder="Введите пароль"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
+                  id="username"
+                  type="text"
+                  placeholder="Введите логин"
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
                   disabled={loginMutation.isPending}
-                  className="h-11 md:h-12 text-base pr-12"
-                  autoComplete="current-password"
+                  className="h-11 md:h-12 text-base"
+                  autoComplete="username"
+                  autoFocus
                 />
-                <Button
-                  type="button"
-                  variant="ghost"
-                  size="sm"
-                  className="absolute right-0 top-0 h-full px-3 py-2 hover:bg-transparent"
-                  onClick={() => setShowPassword(!showPassword)}
-                  tabIndex={-1}
-                >
-                  {showPassword ? (
-                    <EyeOff className="h-5 w-5 text-muted-foreground" />
-                  ) : (
-                    <Eye className="h-5 w-5 text-muted-foreground" />
-                  )}
-                </Button>
               </div>
-            </div>
 
-            <Button
-              type="submit"
-              className="w-full h-11 md:h-12 text-base font-medium"
-              disabled={loginMutation.isPending}
-            >
-              {loginMutation.isPending ? (
-                <>
-                  <Loader2 className="mr-2 h-5 w-5 animate-spin" />
-                  Вход...
-                </>
-              ) : (
-                "Войти"
-              )}
-            </Button>
-          </form>
+              <div className="space-y-2">
+                <Label htmlFor="password" className="text-sm md:text-base">
+                  Пароль
+                </Label>
+                <div className="relative">
+                  <Input
+                    id="password"
+                    type={showPassword ? "text" : "password"}
+                    placeholder="Введите пароль"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    disabled={loginMutation.isPending}
+                    className="h-11 md:h-12 text-base pr-12"
+                    autoComplete="current-password"
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="absolute right-0 top-0 h-full px-3 py-2 hover:bg-transparent"
+                    onClick={() => setShowPassword(!showPassword)}
+                    tabIndex={-1}
+                  >
+                    {showPassword ? (
+                      <EyeOff className="h-5 w-5 text-muted-foreground" />
+                    ) : (
+                      <Eye className="h-5 w-5 text-muted-foreground" />
+                    )}
+                  </Button>
+                </div>
+              </div>
+
+              <Button
+                type="submit"
+                className="w-full h-11 md:h-12 text-base font-medium"
+                disabled={loginMutation.isPending}
+              >
+                {loginMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+                    Вход...
+                  </>
+                ) : (
+                  "Войти"
+                )}
+              </Button>
+            </form>
+          )}
         </CardContent>
       </Card>
     </div>
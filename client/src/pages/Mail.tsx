@@ -1,164 +1,416 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Mail as MailIcon, Plus, Paperclip, User } from "lucide-react";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowLeft, Edit, Inbox, Link2, Mail as MailIcon, Paperclip, Plus, RefreshCw, Reply, Send, Trash2 } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { UserAvatar } from "@/components/UserAvatar";
+import { MailboxDialog } from "@/components/MailboxDialog";
+import { ComposeMailDialog } from "@/components/ComposeMailDialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { format, isToday } from "date-fns";
+import type { Deal, Mailbox, MailAttachment, MailMessage } from "@shared/schema";
+
+type PublicMailbox = Omit<Mailbox, "password">;
+type ThreadMessage = MailMessage & { attachments: MailAttachment[] };
+type Folder = "incoming" | "outgoing" | "linked";
+
+// Значение Select «без сделки» (Radix не допускает пустую строку)
+const NO_DEAL = "__none__";
+
+const FOLDERS: Array<{ id: Folder; label: string; icon: typeof Inbox }> = [
+  { id: "incoming", label: "Входящие", icon: Inbox },
+  { id: "outgoing", label: "Отправленные", icon: Send },
+  { id: "linked", label: "Привязаны к сделкам", icon: Link2 },
+];
+
+function formatMailDate(value: string | Date) {
+  const date = new Date(value);
+  return isToday(date) ? format(date, "HH:mm") : format(date, "dd.MM.yyyy");
+}
 
 export default function Mail() {
-  // todo: remove mock functionality
-  const emails = [
-    {
-      id: "1",
-      from: "Александр Сергеев",
-      email: "a.sergeev@interiorplus.ru",
-      subject: "Вопрос по чертежам кухни",
-      preview: "Здравствуйте! Хотел бы уточнить несколько деталей по чертежам...",
-      date: "10:30",
-      hasAttachments: true,
-      unread: true,
-      projectId: "567",
+  const { toast } = useToast();
+  const [folder, setFolder] = useState<Folder>("incoming");
+  const [mailboxFilter, setMailboxFilter] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+  const [openMessageId, setOpenMessageId] = useState<string | null>(null);
+  const [mailboxDialogOpen, setMailboxDialogOpen] = useState(false);
+  const [editingMailbox, setEditingMailbox] = useState<PublicMailbox | null>(null);
+  const [composeOpen, setComposeOpen] = useState(false);
+  const [replyTo, setReplyTo] = useState<MailMessage | null>(null);
+
+  const { data: mailboxes = [], isLoading: mailboxesLoading } = useQuery<PublicMailbox[]>({
+    queryKey: ["/api/mailboxes"],
+  });
+
+  const messagesUrl = `/api/mail/messages?limit=300${mailboxFilter ? `&mailbox_id=${mailboxFilter}` : ""}${search.trim() ? `&search=${encodeURIComponent(search.trim())}` : ""}`;
+  const { data: messages = [], isLoading: messagesLoading } = useQuery<MailMessage[]>({
+    queryKey: ["/api/mail/messages", messagesUrl],
+    queryFn: async () => await apiRequest<MailMessage[]>("GET", messagesUrl),
+    enabled: mailboxes.length > 0,
+    refetchInterval: 60_000,
+  });
+
+  const { data: thread = [], isLoading: threadLoading } = useQuery<ThreadMessage[]>({
+    queryKey: ["/api/mail/messages", openMessageId, "thread"],
+    queryFn: async () => await apiRequest<ThreadMessage[]>("GET", `/api/mail/messages/${openMessageId}/thread`),
+    enabled: !!openMessageId,
+  });
+
+  const { data: deals = [] } = useQuery<Deal[]>({
+    queryKey: ["/api/deals"],
+    enabled: !!openMessageId,
+  });
+
+  const dealLabel = (dealId: string | null) => {
+    const deal = deals.find((item) => item.id === dealId);
+    return deal ? `№${deal.order_number || deal.id.slice(0, 6)} · ${deal.client_name}` : null;
+  };
+
+  const visibleMessages = useMemo(() => messages.filter((message) => {
+    if (folder === "linked") return !!message.deal_id || !!message.project_id;
+    return message.direction === folder;
+  }), [messages, folder]);
+
+  const unreadCount = messages.filter((message) => message.direction === "incoming" && !message.is_read).length;
+
+  const invalidateMail = () => queryClient.invalidateQueries({ queryKey: ["/api/mail/messages"] });
+
+  const syncMailbox = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest<{ received: number; error: string | null }>("POST", `/api/mailboxes/${id}/sync`);
     },
-    {
-      id: "2",
-      from: "Елена Иванова",
-      email: "ivanova@mail.ru",
-      subject: "Согласование сроков",
-      preview: "Добрый день! Можем ли мы перенести дату замера на следующую неделю?",
-      date: "Вчера",
-      hasAttachments: false,
-      unread: false,
-      projectId: "568",
+    onSuccess: (result) => {
+      invalidateMail();
+      queryClient.invalidateQueries({ queryKey: ["/api/mailboxes"] });
+      toast(result.error
+        ? { title: "Ошибка синхронизации", description: result.error, variant: "destructive" }
+        : { description: result.received > 0 ? `Новых писем: ${result.received}` : "Новых писем нет" });
     },
-    {
-      id: "3",
-      from: "Дмитрий Ковалев",
-      email: "d.kovalev@design-studio.ru",
-      subject: "Подписание договора",
-      preview: "Отправляю подписанный с нашей стороны договор.",
-      date: "08.11",
-      hasAttachments: true,
-      unread: false,
-      projectId: null,
+    onError: (error: any) => {
+      toast({ title: "Ошибка", description: error.message, variant: "destructive" });
     },
-  ];
+  });
+
+  const deleteMailbox = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/mailboxes/${id}`);
+    },
+    onSuccess: () => {
+      setMailboxFilter(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/mailboxes"] });
+      invalidateMail();
+    },
+    onError: (error: any) => {
+      toast({ title: "Ошибка", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const linkThread = useMutation({
+    mutationFn: async ({ messageId, dealId }: { messageId: string; dealId: string | null }) => {
+      return await apiRequest("PUT", `/api/mail/messages/${messageId}/link`, { deal_id: dealId });
+    },
+    onSuccess: (_, { dealId }) => {
+      invalidateMail();
+      if (dealId) queryClient.invalidateQueries({ queryKey: ["/api/deals", dealId, "messages"] });
+      toast({ description: dealId ? "Переписка привязана к сделке" : "Переписка отвязана" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Ошибка", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openMessage = (message: MailMessage) => {
+    setOpenMessageId(message.id);
+    if (!message.is_read) {
+      // Сервер отмечает цепочку прочитанной при открытии
+      setTimeout(invalidateMail, 500);
+    }
+  };
+
+  const openCompose = (message: MailMessage | null) => {
+    setReplyTo(message);
+    setComposeOpen(true);
+  };
+
+  const lastMessage = thread[thread.length - 1];
 
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between flex-wrap gap-4">
         <div>
           <h1 className="text-xl md:text-2xl font-semibold">Почта</h1>
-          <p className="text-xs md:text-sm text-muted-foreground mt-1">Интеграция с email-аккаунтами</p>
+          <p className="text-xs md:text-sm text-muted-foreground mt-1">
+            Письма привязываются к сделкам по адресу клиента и номеру заказа в теме
+          </p>
         </div>
         <div className="flex items-center gap-2 flex-wrap">
-          <Button 
-            variant="outline" 
-            size="icon"
-            className="md:hidden"
+          <Button
+            variant="outline"
+            onClick={() => {
+              setEditingMailbox(null);
+              setMailboxDialogOpen(true);
+            }}
             data-testid="button-connect-email"
           >
-            <Plus className="h-4 w-4" />
+            <Plus className="h-4 w-4 md:mr-2" />
+            <span className="hidden md:inline">Подключить почту</span>
           </Button>
-          <Button 
-            variant="outline" 
-            className="hidden md:flex"
-            data-testid="button-connect-email-desktop"
-          >
-            <Plus className="h-4 w-4 mr-2" />
-            Подключить почту
-          </Button>
-          <Button 
-            size="icon"
-            className="md:hidden"
-            data-testid="button-compose"
-          >
-            <MailIcon className="h-4 w-4" />
-          </Button>
-          <Button 
-            className="hidden md:flex"
-            data-testid="button-compose-desktop"
-          >
-            <MailIcon className="h-4 w-4 mr-2" />
-            Написать
+          <Button onClick={() => openCompose(null)} disabled={mailboxes.length === 0} data-testid="button-compose">
+            <MailIcon className="h-4 w-4 md:mr-2" />
+            <span className="hidden md:inline">Написать</span>
           </Button>
         </div>
       </div>
 
-      <div className="flex gap-4">
-        <Card className="w-64 flex-shrink-0">
+      <div className="flex flex-col md:flex-row gap-4">
+        <Card className="md:w-64 flex-shrink-0">
           <CardHeader>
             <CardTitle className="text-base">Папки</CardTitle>
           </CardHeader>
           <CardContent className="space-y-1">
-            <Button variant="ghost" className="w-full justify-start gap-2">
-              <MailIcon className="h-4 w-4" />
-              <span>Входящие</span>
-              <Badge variant="secondary" className="ml-auto">3</Badge>
-            </Button>
-            <Button variant="ghost" className="w-full justify-start gap-2">
-              <MailIcon className="h-4 w-4" />
-              <span>Отправленные</span>
-            </Button>
-            <Button variant="ghost" className="w-full justify-start gap-2">
-              <MailIcon className="h-4 w-4" />
-              <span>Привязаны к проектам</span>
-              <Badge variant="secondary" className="ml-auto">2</Badge>
-            </Button>
+            {FOLDERS.map(({ id, label, icon: FolderIcon }) => (
+              <Button
+                key={id}
+                variant={folder === id ? "secondary" : "ghost"}
+                className="w-full justify-start gap-2"
+                onClick={() => {
+                  setFolder(id);
+                  setOpenMessageId(null);
+                }}
+              >
+                <FolderIcon className="h-4 w-4" />
+                <span>{label}</span>
+                {id === "incoming" && unreadCount > 0 && (
+                  <Badge variant="secondary" className="ml-auto">{unreadCount}</Badge>
+                )}
+              </Button>
+            ))}
+
+            <div className="pt-4 space-y-2">
+              <p className="text-xs font-medium text-muted-foreground">Ящики</p>
+              {mailboxesLoading ? (
+                <Skeleton className="h-10" />
+              ) : mailboxes.length === 0 ? (
+                <p className="text-xs text-muted-foreground">Почта не подключена</p>
+              ) : (
+                mailboxes.map((mailbox) => (
+                  <div
+                    key={mailbox.id}
+                    className={`rounded-md border p-2 text-xs cursor-pointer ${mailboxFilter === mailbox.id ? "border-primary" : ""}`}
+                    onClick={() => setMailboxFilter(mailboxFilter === mailbox.id ? null : mailbox.id)}
+                    data-testid={`mailbox-${mailbox.id}`}
+                  >
+                    <p className="font-medium truncate">{mailbox.email}</p>
+                    <p className={mailbox.last_error ? "text-destructive truncate" : "text-muted-foreground"} title={mailbox.last_error || undefined}>
+                      {mailbox.last_error
+                        ? mailbox.last_error
+                        : mailbox.last_synced_at ? `Синхронизирован ${formatMailDate(mailbox.last_synced_at)}` : "Ещё не синхронизирован"}
+                    </p>
+                    <div className="flex gap-1 mt-1" onClick={(e) => e.stopPropagation()}>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        title="Проверить почту"
+                        onClick={() => syncMailbox.mutate(mailbox.id)}
+                        disabled={syncMailbox.isPending}
+                      >
+                        <RefreshCw className={`h-3 w-3 ${syncMailbox.isPending ? "animate-spin" : ""}`} />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        title="Настройки"
+                        onClick={() => {
+                          setEditingMailbox(mailbox);
+                          setMailboxDialogOpen(true);
+                        }}
+                      >
+                        <Edit className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        title="Отключить"
+                        onClick={() => {
+                          if (confirm(`Отключить ${mailbox.email}? Письма ящика будут удалены из ERP, копии в сделках останутся.`)) {
+                            deleteMailbox.mutate(mailbox.id);
+                          }
+                        }}
+                      >
+                        <Trash2 className="h-3 w-3 text-destructive" />
+                      </Button>
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
           </CardContent>
         </Card>
 
-        <Card className="flex-1">
-          <CardHeader>
-            <div className="flex items-center gap-2">
-              <Input
-                type="search"
-                placeholder="Поиск писем..."
-                className="max-w-md"
-                data-testid="input-search-mail"
-              />
-            </div>
-          </CardHeader>
-          <CardContent className="space-y-2">
-            {emails.map((email) => (
-              <div
-                key={email.id}
-                className={`p-3 rounded-md border hover-elevate active-elevate-2 cursor-pointer ${
-                  email.unread ? "bg-muted/50 border-primary/20" : ""
-                }`}
-                data-testid={`email-${email.id}`}
-              >
-                <div className="flex items-start justify-between gap-2 mb-2">
-                  <div className="flex items-center gap-2 flex-1 min-w-0">
-                    <UserAvatar name={email.from} size="sm" />
-                    <div className="flex-1 min-w-0">
-                      <p className={`text-sm truncate ${email.unread ? "font-semibold" : ""}`}>
-                        {email.from}
-                      </p>
-                      <p className="text-xs text-muted-foreground truncate">{email.email}</p>
+        {openMessageId ? (
+          <Card className="flex-1 min-w-0">
+            <CardHeader className="space-y-3">
+              <div className="flex items-center gap-2 flex-wrap">
+                <Button variant="ghost" size="sm" onClick={() => setOpenMessageId(null)}>
+                  <ArrowLeft className="h-4 w-4 mr-1" />
+                  Назад
+                </Button>
+                <h2 className="text-base font-semibold flex-1 min-w-0 truncate">{thread[0]?.subject || "(без темы)"}</h2>
+                {lastMessage && (
+                  <Button size="sm" onClick={() => openCompose(lastMessage)} data-testid="button-reply-mail">
+                    <Reply className="h-4 w-4 mr-1" />
+                    Ответить
+                  </Button>
+                )}
+              </div>
+              {lastMessage && (
+                <div className="flex items-center gap-2 text-sm">
+                  <Link2 className="h-4 w-4 text-muted-foreground" />
+                  <Select
+                    value={lastMessage.deal_id || NO_DEAL}
+                    onValueChange={(value) => linkThread.mutate({ messageId: lastMessage.id, dealId: value === NO_DEAL ? null : value })}
+                    disabled={linkThread.isPending}
+                  >
+                    <SelectTrigger className="max-w-sm h-8" data-testid="select-mail-deal">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_DEAL}>Не привязано к сделке</SelectItem>
+                      {deals.map((deal) => (
+                        <SelectItem key={deal.id} value={deal.id}>{dealLabel(deal.id)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {threadLoading ? (
+                <Skeleton className="h-40" />
+              ) : (
+                thread.map((message) => (
+                  <div key={message.id} className="rounded-md border p-3" data-testid={`mail-thread-message-${message.id}`}>
+                    <div className="flex items-start justify-between gap-2 mb-2">
+                      <div className="flex items-center gap-2 min-w-0">
+                        <UserAvatar name={message.from_name || message.from_address} size="sm" />
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium truncate">{message.from_name || message.from_address}</p>
+                          <p className="text-xs text-muted-foreground truncate">
+                            {message.from_address} → {message.to_addresses}
+                            {message.cc_addresses && `, копия: ${message.cc_addresses}`}
+                          </p>
+                        </div>
+                      </div>
+                      <span className="text-xs text-muted-foreground whitespace-nowrap">
+                        {format(new Date(message.sent_at), "dd.MM.yyyy HH:mm")}
+                      </span>
                     </div>
-                  </div>
-                  <div className="flex items-center gap-2">
-                    {email.projectId && (
-                      <Badge variant="outline" className="text-xs font-mono">#{email.projectId}</Badge>
+                    <p className="text-sm whitespace-pre-wrap break-words">{message.text || "(письмо без текста)"}</p>
+                    {message.attachments.length > 0 && (
+                      <div className="flex flex-wrap gap-2 mt-3">
+                        {message.attachments.map((attachment) => (
+                          <a
+                            key={attachment.id}
+                            href={`/api/mail/attachments/${attachment.id}`}
+                            className="flex items-center gap-1 rounded border px-2 py-1 text-xs hover-elevate"
+                          >
+                            <Paperclip className="h-3 w-3" />
+                            {attachment.file_name}
+                          </a>
+                        ))}
+                      </div>
                     )}
-                    <span className="text-xs text-muted-foreground">{email.date}</span>
-                  </div>
-                </div>
-                <h4 className={`text-sm mb-1 ${email.unread ? "font-semibold" : ""}`}>
-                  {email.subject}
-                </h4>
-                <p className="text-xs text-muted-foreground line-clamp-2">{email.preview}</p>
-                {email.hasAttachments && (
-                  <div className="flex items-center gap-1 mt-2 text-xs text-muted-foreground">
-                    <Paperclip className="h-3 w-3" />
-                    <span>Вложения</span>
                   </div>
-                )}
+                ))
+              )}
+            </CardContent>
+          </Card>
+        ) : (
+          <Card className="flex-1 min-w-0">
+            <CardHeader>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="search"
+                  placeholder="Поиск по теме и адресу..."
+                  className="max-w-md"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  data-testid="input-search-mail"
+                />
               </div>
-            ))}
-          </CardContent>
-        </Card>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {mailboxes.length === 0 && !mailboxesLoading ? (
+                <p className="py-8 text-center text-sm text-muted-foreground">
+                  Подключите почтовый ящик, чтобы видеть письма клиентов рядом со сделками
+                </p>
+              ) : messagesLoading ? (
+                <Skeleton className="h-40" />
+              ) : visibleMessages.length === 0 ? (
+                <p className="py-8 text-center text-sm text-muted-foreground">Писем нет</p>
+              ) : (
+                visibleMessages.map((message) => {
+                  const unread = message.direction === "incoming" && !message.is_read;
+                  const counterpart = message.direction === "incoming"
+                    ? { name: message.from_name || message.from_address, email: message.from_address }
+                    : { name: message.to_addresses, email: message.to_addresses };
+                  return (
+                    <div
+                      key={message.id}
+                      className={`p-3 rounded-md border hover-elevate active-elevate-2 cursor-pointer ${
+                        unread ? "bg-muted/50 border-primary/20" : ""
+                      }`}
+                      onClick={() => openMessage(message)}
+                      data-testid={`email-${message.id}`}
+                    >
+                      <div className="flex items-start justify-between gap-2 mb-2">
+                        <div className="flex items-center gap-2 flex-1 min-w-0">
+                          <UserAvatar name={counterpart.name} size="sm" />
+                          <div className="flex-1 min-w-0">
+                            <p className={`text-sm truncate ${unread ? "font-semibold" : ""}`}>{counterpart.name}</p>
+                            <p className="text-xs text-muted-foreground truncate">{counterpart.email}</p>
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          {message.deal_id && (
+                            <Badge variant="outline" className="text-xs">Сделка</Badge>
+                          )}
+                          {!message.deal_id && message.project_id && (
+                            <Badge variant="outline" className="text-xs">Проект</Badge>
+                          )}
+                          <span className="text-xs text-muted-foreground">{formatMailDate(message.sent_at)}</span>
+                        </div>
+                      </div>
+                      <h4 className={`text-sm mb-1 ${unread ? "font-semibold" : ""}`}>
+                        {message.subject || "(без темы)"}
+                      </h4>
+                      <p className="text-xs text-muted-foreground line-clamp-2">{message.text}</p>
+                    </div>
+                  );
+                })
+              )}
+            </CardContent>
+          </Card>
+        )}
       </div>
+
+      <MailboxDialog open={mailboxDialogOpen} onOpenChange={setMailboxDialogOpen} mailbox={editingMailbox} />
+      <ComposeMailDialog open={composeOpen} onOpenChange={setComposeOpen} mailboxes={mailboxes} replyTo={replyTo} />
     </div>
   );
 }
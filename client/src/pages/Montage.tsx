@@ -160,6 +160,7 @@ interface Installer {
   hourly_rate: number | null;
   qualification_level: string | null;
   description: string | null;
+  user_id: string | null;
   is_active: boolean;
 }
 
@@ -477,6 +478,7 @@ export default function Montage() {
     qualification_level: "medium",
     vehicle_number: "",
     description: "",
+    user_id: "",
   });
 
   // Form state for create/edit
@@ -589,6 +591,12 @@ export default function Montage() {
     refetchInterval: 5000, // Real-time: обновление каждые 5 секунд
   });
 
+  // Users for linking installers to accounts (only available to admins)
+  const { data: users = [] } = useQuery<Array<{ id: string; full_name: string | null; username: string }>>({
+    queryKey: ["/api/users"],
+    enabled: isInstallerFormOpen,
+  });
+
   // Fetch installers
   const { data: installers = [] } = useQuery<Installer[]>({
     queryKey: ["/api/installers"],
@@ -740,6 +748,7 @@ export default function Montage() {
         body: JSON.stringify({
           ...data,
           hourly_rate: data.hourly_rate ? parseFloat(data.hourly_rate) : null,
+          user_id: data.user_id || null,
         }),
       });
       if (!res.ok) throw new Error("Failed to create installer");
@@ -1061,6 +1070,7 @@ export default function Montage() {
       qualification_level: "medium",
       vehicle_number: "",
       description: "",
+      user_id: "",
     });
   };
 
@@ -1120,6 +1130,7 @@ export default function Montage() {
       qualification_level: installer.qualification_level || "medium",
       vehicle_number: installer.vehicle_number || "",
       description: installer.description || "",
+      user_id: installer.user_id || "",
     });
     setIsInstallerFormOpen(true);
   };
@@ -1135,6 +1146,7 @@ export default function Montage() {
         data: {
           ...installerFormData,
           hourly_rate: installerFormData.hourly_rate ? parseFloat(installerFormData.hourly_rate) : null,
+          user_id: installerFormData.user_id || null,
         } as Partial<Installer>,
       });
     } else {
@@ -2563,6 +2575,25 @@ export default function Montage() {
                   placeholder="А123БВ777"
                 />
               </div>
+              <div>
+                <Label>Учётная запись</Label>
+                <Select
+                  value={installerFormData.user_id || "none"}
+                  onValueChange={(value) => setInstallerFormData({ ...installerFormData, user_id: value === "none" ? "" : value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Не привязан</SelectItem>
+                    {users.map((user) => (
+                      <SelectItem key={user.id} value={user.id}>
+                        {user.full_name || user.username}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
               <div className="col-span-2">
                 <Label>Описание</Label>
                 <Textarea
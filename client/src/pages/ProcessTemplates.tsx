@@ -219,7 +219,6 @@ export default function ProcessTemplates() {
             method: "POST",
             headers: {
               "Content-Type": "application/json",
-              "X-User-Id": localStorage.getItem("currentUserId") || "",
             },
             body: JSON.stringify(stageData),
             credentials: "include",
@@ -251,7 +250,6 @@ export default function ProcessTemplates() {
             method: "POST",
             headers: {
               "Content-Type": "application/json",
-              "X-User-Id": localStorage.getItem("currentUserId") || "",
             },
             body: JSON.stringify(depData),
             credentials: "include",
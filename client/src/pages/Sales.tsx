@@ -4,14 +4,17 @@ import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
-import { Plus, LayoutGrid, List, Calendar, Settings, Trash2, CheckSquare, ChevronDown, ArrowRight, X, Search, GripVertical, Edit, Palette } from "lucide-react";
+import { Plus, LayoutGrid, List, Calendar, Settings, Trash2, CheckSquare, ChevronDown, ArrowRight, X, Search, GripVertical, Edit, Palette, BarChart3, TrendingUp, Archive, XCircle } from "lucide-react";
 import { useLocation, useSearch } from "wouter";
 import { DealCard } from "@/components/DealCard";
 import { DealDetailSheet } from "@/components/DealDetailSheet";
 import { DealCreateDialog } from "@/components/DealCreateDialog";
 import { ManageStagesDialog } from "@/components/ManageStagesDialog";
+import { SalesForecastChart } from "@/components/SalesForecastChart";
 import { DealCardModal } from "@/components/DealCardModal";
 import { DeleteDealDialog } from "@/components/DeleteDealDialog";
+import { CloseDealDialog } from "@/components/CloseDealDialog";
+import { ManageLossReasonsDialog } from "@/components/ManageLossReasonsDialog";
 import { BulkStageChangeDialog } from "@/components/BulkStageChangeDialog";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Checkbox } from "@/components/ui/checkbox";
@@ -31,7 +34,8 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { useToast } from "@/hooks/use-toast";
-import type { Deal, User, DealStage } from "@shared/schema";
+import type { Deal, User, DealStage, DealOutcome } from "@shared/schema";
+import type { BlockedDeal } from "@shared/stageGates";
 import {
   DndContext,
   DragOverlay,
@@ -53,6 +57,8 @@ import {
 } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
 import { apiRequest, queryClient, getCurrentUserId } from "@/lib/queryClient";
+import { parseStageGateError } from "@/lib/stageGates";
+import { StageGateConditions } from "@/components/StageGateConditions";
 
 // Color presets for stage columns
 const colorPresets: Record<string, { borderColor: string }> = {
@@ -85,6 +91,7 @@ function SortableDealCard({
     manager: string;
     tags: string[];
     stage: string;
+    outcome: string | null;
   };
   onClick: () => void;
   selectionMode: boolean;
@@ -144,7 +151,9 @@ function SortableDealCard({
                 {deal.title || deal.clientName}
               </span>
             </div>
-            {deal.orderNumber && (
+            {deal.outcome === "lost" ? (
+              <Badge variant="destructive" className="text-[10px] px-1 py-0">Проиграна</Badge>
+            ) : deal.orderNumber && (
               <span className="text-xs text-muted-foreground">#{deal.orderNumber}</span>
             )}
           </div>
@@ -216,6 +225,7 @@ function DealKanbanColumn({
     manager: string;
     tags: string[];
     stage: string;
+    outcome: string | null;
   }>;
   borderColor: string;
   onCardClick: (dealId: string) => void;
@@ -303,7 +313,7 @@ export default function Sales() {
   const searchString = useSearch();
   const [, setLocation] = useLocation();
 
-  const [activeTab, setActiveTab] = useState<"kanban" | "list" | "calendar">("kanban");
+  const [activeTab, setActiveTab] = useState<"kanban" | "list" | "calendar" | "forecast">("kanban");
   const [searchQuery, setSearchQuery] = useState("");
   const [zoomLevel, setZoomLevel] = useState(85);
   const [selectedDeal, setSelectedDeal] = useState<Deal | null>(null);
@@ -320,6 +330,11 @@ export default function Sales() {
   const [calendarDate, setCalendarDate] = useState(new Date());
   const [filterStage, setFilterStage] = useState<string>("all");
   const [filterManager, setFilterManager] = useState<string>("all");
+  // Проигранные сделки скрыты с доски, пока не включён показ или не задан поиск
+  const [showLost, setShowLost] = useState(false);
+  const [isLossReasonsOpen, setIsLossReasonsOpen] = useState(false);
+  // Сделка, перетащенная в этап «Выиграна»/«Проиграна»: закрывается через диалог
+  const [closingDeal, setClosingDeal] = useState<{ id: string; name: string; outcome: DealOutcome } | null>(null);
   const { toast } = useToast();
 
   // DnD sensors
@@ -361,6 +376,8 @@ export default function Sales() {
     queryKey: ["/api/deal-stages"],
   });
 
+  const stageName = (key: string) => stages.find((stage) => stage.key === key)?.name || key;
+
   const { data: currentUser } = useQuery<User>({
     queryKey: ['/api/users', getCurrentUserId()],
   });
@@ -404,6 +421,9 @@ export default function Sales() {
     manager: getUserName(deal.manager_id),
     tags: deal.tags || [],
     stage: deal.stage,
+    outcome: deal.outcome,
+    source: deal.source || undefined,
+    competitor: deal.competitor || undefined,
   }));
 
   // Filter deals by search query and filters
@@ -415,13 +435,15 @@ export default function Sales() {
     if (filterManager !== "all" && deal.manager !== filterManager) return false;
 
     // Search query
-    if (!searchQuery) return true;
+    if (!searchQuery) return deal.outcome !== "lost" || showLost;
     const search = searchQuery.toLowerCase();
     return (
       deal.clientName.toLowerCase().includes(search) ||
       deal.company?.toLowerCase().includes(search) ||
       deal.orderNumber?.toLowerCase().includes(search) ||
       deal.manager.toLowerCase().includes(search) ||
+      deal.source?.toLowerCase().includes(search) ||
+      deal.competitor?.toLowerCase().includes(search) ||
       deal.tags.some(tag => tag.toLowerCase().includes(search))
     );
   });
@@ -438,6 +460,15 @@ export default function Sales() {
     },
     onError: (error, variables) => {
       queryClient.invalidateQueries({ queryKey: ["/api/deals"] });
+      const gate = parseStageGateError(error);
+      if (gate) {
+        toast({
+          title: `Нельзя перенести в этап «${stageName(variables.newStage)}»`,
+          description: <StageGateConditions unmet={gate.unmet} />,
+          variant: "destructive",
+        });
+        return;
+      }
       toast({
         title: "Ошибка",
         description: "Не удалось переместить сделку. Попробуйте снова.",
@@ -490,18 +521,42 @@ export default function Sales() {
       if (context?.previousDeals) {
         queryClient.setQueryData(["/api/deals"], context.previousDeals);
       }
+      const gate = parseStageGateError(error);
+      if (gate) {
+        toast({
+          title: `Ни одна сделка не перенесена в этап «${stageName(variables.newStage)}»`,
+          description: <StageGateConditions unmet={gate.unmet} />,
+          variant: "destructive",
+        });
+        return;
+      }
       toast({
         title: "Ошибка",
         description: error.message || "Не удалось изменить этап",
         variant: "destructive",
       });
     },
-    onSuccess: (data: any) => {
+    onSuccess: (data: any, variables) => {
       queryClient.invalidateQueries({ queryKey: ["/api/deals"] });
       toast({
         title: "Этап изменен",
         description: data.message || `Этап изменен для ${selectedDeals.size} сделок`,
       });
+      if (data.blocked?.length) {
+        toast({
+          title: `Не перенесены в этап «${stageName(variables.newStage)}»: ${data.blocked.length}`,
+          description: (
+            <ul className="list-disc pl-4 space-y-0.5">
+              {data.blocked.map((deal: BlockedDeal) => (
+                <li key={deal.deal_id}>
+                  {deal.client_name}: {deal.unmet.map((condition) => condition.message).join(", ")}
+                </li>
+              ))}
+            </ul>
+          ),
+          variant: "destructive",
+        });
+      }
       setSelectedDeals(new Set());
       setSelectionMode(false);
       setBulkStageDialogOpen(false);
@@ -592,6 +647,13 @@ export default function Sales() {
     const stageKeys = stages.map(s => s.key);
     const newStage = stageKeys.find(key => overId === key || deals.find(d => d.id === overId && d.stage === key));
 
+    // Перенос в «Выиграна»/«Проиграна» — это закрытие сделки: спрашиваем итог и причину
+    if (!activeDeal.outcome && (newStage === "won" || newStage === "lost")) {
+      setClosingDeal({ id: activeDeal.id, name: activeDeal.title || activeDeal.client_name, outcome: newStage });
+      setActiveId(null);
+      return;
+    }
+
     if (newStage && newStage !== activeDeal.stage) {
       const previousDeals = [...deals];
       
@@ -656,6 +718,16 @@ export default function Sales() {
           <p className="text-xs md:text-sm text-muted-foreground mt-1">Управление заказами клиентов</p>
         </div>
         <div className="flex items-center gap-2 flex-wrap">
+          {!selectionMode && (
+            <Button
+              variant="outline"
+              onClick={() => setLocation("/sales/analytics")}
+              data-testid="button-sales-analytics"
+            >
+              <BarChart3 className="h-4 w-4 mr-2" />
+              Аналитика
+            </Button>
+          )}
           {selectionMode && (
             <>
               <Badge variant="secondary" data-testid="badge-selected-count">
@@ -737,7 +809,7 @@ export default function Sales() {
           </>
         )}
 
-        <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as "kanban" | "list" | "calendar")}>
+        <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as "kanban" | "list" | "calendar" | "forecast")}>
           <TabsList>
             <TabsTrigger value="kanban" data-testid="button-view-kanban">
               <LayoutGrid className="h-4 w-4 mr-2" />
@@ -751,6 +823,10 @@ export default function Sales() {
               <Calendar className="h-4 w-4 mr-2" />
               Календарь
             </TabsTrigger>
+            <TabsTrigger value="forecast" data-testid="button-view-forecast">
+              <TrendingUp className="h-4 w-4 mr-2" />
+              Прогноз
+            </TabsTrigger>
           </TabsList>
         </Tabs>
 
@@ -809,6 +885,24 @@ export default function Sales() {
               <Settings className="h-4 w-4 mr-2" />
               Этапы
             </Button>
+            <Button
+              variant="outline"
+              onClick={() => setIsLossReasonsOpen(true)}
+              className="hidden md:flex"
+              data-testid="button-loss-reasons"
+            >
+              <XCircle className="h-4 w-4 mr-2" />
+              Причины проигрыша
+            </Button>
+            <Button
+              variant={showLost ? "secondary" : "outline"}
+              onClick={() => setShowLost(!showLost)}
+              title={showLost ? "Скрыть проигранные сделки" : "Показать проигранные сделки"}
+              data-testid="button-toggle-lost"
+            >
+              <Archive className="h-4 w-4 mr-2" />
+              <span className="hidden md:inline">Проигранные</span>
+            </Button>
             <Button
               variant="outline"
               onClick={() => setSelectionMode(true)}
@@ -1030,6 +1124,9 @@ export default function Sales() {
                           >
                             {stage?.name || deal.stage}
                           </Badge>
+                          {deal.outcome === "lost" && stage?.key !== "lost" && (
+                            <Badge variant="destructive" className="text-xs ml-1">Проиграна</Badge>
+                          )}
                         </td>
                       </tr>
                     );
@@ -1127,6 +1224,9 @@ export default function Sales() {
               </div>
             </div>
           )}
+
+          {/* Forecast View */}
+          {activeTab === "forecast" && <SalesForecastChart />}
         </>
       )}
 
@@ -1146,6 +1246,19 @@ export default function Sales() {
         onOpenChange={setIsManageStagesOpen}
       />
 
+      <ManageLossReasonsDialog
+        open={isLossReasonsOpen}
+        onOpenChange={setIsLossReasonsOpen}
+      />
+
+      <CloseDealDialog
+        open={closingDeal !== null}
+        onOpenChange={(open) => !open && setClosingDeal(null)}
+        dealId={closingDeal?.id ?? null}
+        dealName={closingDeal?.name}
+        outcome={closingDeal?.outcome ?? "lost"}
+      />
+
       <DealCardModal 
         dealId={selectedDealId}
         open={modalOpen}
@@ -0,0 +1,437 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { ArrowLeft } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { usePriceFormat } from "@/components/PriceDisplay";
+import type { SalesPipeline, User } from "@shared/schema";
+
+interface FunnelStageRow {
+  key: string;
+  name: string;
+  color: string | null;
+  order: number;
+  is_dropout: boolean;
+  reached: number;
+  conversion: number | null;
+  current: number;
+  dropped: number;
+  median_hours: number | null;
+  time_samples: number;
+}
+
+interface ManagerFunnel {
+  manager_id: string | null;
+  manager_name: string | null;
+  deals: number;
+  stages: Array<{ key: string; reached: number; conversion: number | null }>;
+  overall_conversion: number | null;
+}
+
+interface FunnelReport {
+  pipeline_id: string | null;
+  deals: number;
+  stages: FunnelStageRow[];
+  managers: ManagerFunnel[];
+}
+
+interface CohortReport {
+  pipeline_id: string | null;
+  stages: Array<{ key: string; name: string; color: string | null; order: number }>;
+  cohorts: Array<{ month: string; deals: number; reached: Record<string, number> }>;
+}
+
+interface OutcomeCounts {
+  won: number;
+  lost: number;
+  win_rate: number | null;
+  lost_amount: number | null; // null — цены по продажам скрыты
+  reasons: Record<string, number>;
+}
+
+interface LossReport {
+  totals: OutcomeCounts;
+  reasons: Array<{ reason_id: string | null; name: string; deals: number; amount: number | null; share: number | null }>;
+  managers: Array<OutcomeCounts & { manager_id: string | null; manager_name: string | null }>;
+  sources: Array<OutcomeCounts & { source: string | null }>;
+  competitors: Array<{ competitor: string; deals: number; amount: number | null }>;
+}
+
+const ALL = "all";
+const DEFAULT_PIPELINE = "default";
+
+function formatPercent(value: number | null): string {
+  return value === null ? "—" : `${Math.round(value * 100)}%`;
+}
+
+function formatDuration(hours: number | null): string {
+  if (hours === null) return "—";
+  if (hours < 24) return `${Math.round(hours)} ч`;
+  return `${Math.round((hours / 24) * 10) / 10} дн`;
+}
+
+function formatMonth(month: string): string {
+  const [year, monthIndex] = month.split("-").map(Number);
+  return new Date(year, monthIndex - 1, 1).toLocaleDateString("ru-RU", { month: "long", year: "numeric" });
+}
+
+export default function SalesAnalytics() {
+  const [, setLocation] = useLocation();
+  const { formatPrice } = usePriceFormat();
+  const [pipelineId, setPipelineId] = useState<string>(DEFAULT_PIPELINE);
+  const [managerId, setManagerId] = useState<string>(ALL);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  const params = new URLSearchParams();
+  if (pipelineId !== DEFAULT_PIPELINE) params.set("pipeline_id", pipelineId);
+  if (managerId !== ALL) params.set("manager_id", managerId);
+  if (from) params.set("from", from);
+  if (to) params.set("to", `${to}T23:59:59`);
+  const query = params.toString();
+
+  const { data: pipelines = [] } = useQuery<SalesPipeline[]>({
+    queryKey: ["/api/sales-pipelines"],
+  });
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const { data: funnel, isLoading: funnelLoading } = useQuery<FunnelReport>({
+    queryKey: ["/api/sales-analytics/funnel", query],
+    queryFn: () => apiRequest<FunnelReport>("GET", `/api/sales-analytics/funnel?${query}`),
+  });
+
+  const { data: cohorts, isLoading: cohortsLoading } = useQuery<CohortReport>({
+    queryKey: ["/api/sales-analytics/cohorts", query],
+    queryFn: () => apiRequest<CohortReport>("GET", `/api/sales-analytics/cohorts?${query}`),
+  });
+
+  const { data: losses, isLoading: lossesLoading } = useQuery<LossReport>({
+    queryKey: ["/api/sales-analytics/losses", query],
+    queryFn: () => apiRequest<LossReport>("GET", `/api/sales-analytics/losses?${query}`),
+  });
+
+  // Самая частая причина проигрыша в группе
+  const topReason = (counts: OutcomeCounts): string => {
+    const [reasonId] = Object.entries(counts.reasons).sort(([, a], [, b]) => b - a)[0] ?? [];
+    if (reasonId === undefined) return "—";
+    return losses?.reasons.find((reason) => (reason.reason_id ?? "") === reasonId)?.name ?? "—";
+  };
+
+  const maxReached = Math.max(1, ...(funnel?.stages.map((stage) => stage.reached) ?? []));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        <Button variant="ghost" size="icon" onClick={() => setLocation("/sales")} data-testid="button-back-to-sales">
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+        <div>
+          <h1 className="text-xl md:text-2xl font-semibold">Аналитика продаж</h1>
+          <p className="text-xs md:text-sm text-muted-foreground mt-1">
+            Конверсия между этапами, время в этапе, причины проигрыша и когорты по месяцу создания сделки
+          </p>
+        </div>
+      </div>
+
+      <div className="flex items-end gap-3 flex-wrap">
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">Воронка</p>
+          <Select value={pipelineId} onValueChange={setPipelineId}>
+            <SelectTrigger className="w-[200px]" data-testid="select-analytics-pipeline">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={DEFAULT_PIPELINE}>Основная</SelectItem>
+              {pipelines.filter((pipeline) => !pipeline.is_default).map((pipeline) => (
+                <SelectItem key={pipeline.id} value={pipeline.id}>{pipeline.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">Менеджер</p>
+          <Select value={managerId} onValueChange={setManagerId}>
+            <SelectTrigger className="w-[200px]" data-testid="select-analytics-manager">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Все</SelectItem>
+              {users.map((user) => (
+                <SelectItem key={user.id} value={user.id}>{user.full_name || user.username}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">Создана с</p>
+          <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="w-[160px]" />
+        </div>
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">по</p>
+          <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="w-[160px]" />
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">
+            Воронка {funnel && <span className="text-muted-foreground font-normal">· {funnel.deals} сделок</span>}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {funnelLoading || !funnel ? (
+            <Skeleton className="h-40 w-full" />
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Этап</TableHead>
+                  <TableHead className="w-[30%]">Дошли</TableHead>
+                  <TableHead className="text-right">В следующий</TableHead>
+                  <TableHead className="text-right">Выпали</TableHead>
+                  <TableHead className="text-right">Сейчас</TableHead>
+                  <TableHead className="text-right">Медиана в этапе</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {funnel.stages.map((stage) => (
+                  <TableRow key={stage.key} data-testid={`funnel-row-${stage.key}`}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: stage.color || "#6366f1" }} />
+                        {stage.name}
+                        {stage.is_dropout && <Badge variant="outline">выпадение</Badge>}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <div className="h-2 rounded bg-primary/70" style={{ width: `${(stage.reached / maxReached) * 100}%` }} />
+                        <span className="text-sm tabular-nums">{stage.reached}</span>
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">{formatPercent(stage.conversion)}</TableCell>
+                    <TableCell className="text-right tabular-nums">{stage.dropped || "—"}</TableCell>
+                    <TableCell className="text-right tabular-nums">{stage.current}</TableCell>
+                    <TableCell className="text-right tabular-nums" title={`Переходов: ${stage.time_samples}`}>
+                      {formatDuration(stage.median_hours)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">По менеджерам</CardTitle>
+        </CardHeader>
+        <CardContent className="overflow-x-auto">
+          {funnelLoading || !funnel ? (
+            <Skeleton className="h-32 w-full" />
+          ) : funnel.managers.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">Нет сделок</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Менеджер</TableHead>
+                  <TableHead className="text-right">Сделок</TableHead>
+                  {funnel.stages.filter((stage) => !stage.is_dropout).map((stage) => (
+                    <TableHead key={stage.key} className="text-right">{stage.name}</TableHead>
+                  ))}
+                  <TableHead className="text-right">Итог</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {funnel.managers.map((manager) => (
+                  <TableRow key={manager.manager_id || "none"}>
+                    <TableCell>{manager.manager_name || "Без менеджера"}</TableCell>
+                    <TableCell className="text-right tabular-nums">{manager.deals}</TableCell>
+                    {funnel.stages.filter((stage) => !stage.is_dropout).map((stage) => {
+                      const row = manager.stages.find((s) => s.key === stage.key);
+                      return (
+                        <TableCell key={stage.key} className="text-right tabular-nums">
+                          {row?.reached ?? 0}
+                          {row?.conversion !== null && row?.conversion !== undefined && (
+                            <span className="text-xs text-muted-foreground"> · {formatPercent(row.conversion)}</span>
+                          )}
+                        </TableCell>
+                      );
+                    })}
+                    <TableCell className="text-right tabular-nums font-medium">{formatPercent(manager.overall_conversion)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">
+            Причины проигрыша
+            {losses && (
+              <span className="text-muted-foreground font-normal">
+                {" "}· выиграно {losses.totals.won}, проиграно {losses.totals.lost}
+                {losses.totals.win_rate !== null && ` · доля выигрышей ${formatPercent(losses.totals.win_rate)}`}
+              </span>
+            )}
+          </CardTitle>
+          <p className="text-xs text-muted-foreground">Период фильтра здесь — дата закрытия сделки</p>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {lossesLoading || !losses ? (
+            <Skeleton className="h-32 w-full" />
+          ) : losses.totals.won + losses.totals.lost === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">Нет закрытых сделок</div>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Причина</TableHead>
+                      <TableHead className="text-right">Сделок</TableHead>
+                      <TableHead className="text-right">Доля</TableHead>
+                      <TableHead className="text-right">Сумма</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {losses.reasons.map((reason) => (
+                      <TableRow key={reason.reason_id || "none"}>
+                        <TableCell>{reason.name}</TableCell>
+                        <TableCell className="text-right tabular-nums">{reason.deals}</TableCell>
+                        <TableCell className="text-right tabular-nums">{formatPercent(reason.share)}</TableCell>
+                        <TableCell className="text-right tabular-nums">{formatPrice(reason.amount, { module: "sales" })}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Конкурент</TableHead>
+                      <TableHead className="text-right">Сделок</TableHead>
+                      <TableHead className="text-right">Сумма</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {losses.competitors.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={3} className="text-center text-muted-foreground">Конкуренты не указаны</TableCell>
+                      </TableRow>
+                    ) : losses.competitors.map((row) => (
+                      <TableRow key={row.competitor}>
+                        <TableCell>{row.competitor}</TableCell>
+                        <TableCell className="text-right tabular-nums">{row.deals}</TableCell>
+                        <TableCell className="text-right tabular-nums">{formatPrice(row.amount, { module: "sales" })}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                {[
+                  { title: "Менеджер", rows: losses.managers.map((row) => ({ ...row, key: row.manager_id || "none", label: row.manager_name || "Без менеджера" })) },
+                  { title: "Источник лида", rows: losses.sources.map((row) => ({ ...row, key: row.source || "none", label: row.source || "Не указан" })) },
+                ].map((group) => (
+                  <Table key={group.title}>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>{group.title}</TableHead>
+                        <TableHead className="text-right">Выиграно</TableHead>
+                        <TableHead className="text-right">Проиграно</TableHead>
+                        <TableHead className="text-right">Доля выигр.</TableHead>
+                        <TableHead>Частая причина</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {group.rows.map((row) => (
+                        <TableRow key={row.key}>
+                          <TableCell>{row.label}</TableCell>
+                          <TableCell className="text-right tabular-nums">{row.won}</TableCell>
+                          <TableCell className="text-right tabular-nums">{row.lost}</TableCell>
+                          <TableCell className="text-right tabular-nums">{formatPercent(row.win_rate)}</TableCell>
+                          <TableCell className="text-muted-foreground">{topReason(row)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                ))}
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Когорты по месяцу создания</CardTitle>
+        </CardHeader>
+        <CardContent className="overflow-x-auto">
+          {cohortsLoading || !cohorts ? (
+            <Skeleton className="h-32 w-full" />
+          ) : cohorts.cohorts.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">Нет сделок</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Месяц</TableHead>
+                  <TableHead className="text-right">Сделок</TableHead>
+                  {cohorts.stages.map((stage) => (
+                    <TableHead key={stage.key} className="text-right">{stage.name}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {cohorts.cohorts.map((cohort) => (
+                  <TableRow key={cohort.month}>
+                    <TableCell className="capitalize">{formatMonth(cohort.month)}</TableCell>
+                    <TableCell className="text-right tabular-nums">{cohort.deals}</TableCell>
+                    {cohorts.stages.map((stage) => {
+                      const reached = cohort.reached[stage.key] ?? 0;
+                      return (
+                        <TableCell key={stage.key} className="text-right tabular-nums">
+                          {reached}
+                          <span className="text-xs text-muted-foreground"> · {formatPercent(reached / cohort.deals)}</span>
+                        </TableCell>
+                      );
+                    })}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
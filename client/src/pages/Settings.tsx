@@ -7,7 +7,17 @@ import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { UserAvatar } from "@/components/UserAvatar";
 import { UserFormDialog } from "@/components/UserFormDialog";
-import { Plus, Trash2, Edit, Save, Settings2 } from "lucide-react";
+import { AuditLogViewer } from "@/components/AuditLogViewer";
+import { ServiceAccountsManager } from "@/components/ServiceAccountsManager";
+import { LeadSourcesManager } from "@/components/LeadSourcesManager";
+import { MessengerChannelsManager } from "@/components/MessengerChannelsManager";
+import { SecretsManager } from "@/components/SecretsManager";
+import { CatalogManager } from "@/components/CatalogManager";
+import { NumberSequencesManager } from "@/components/NumberSequencesManager";
+import { PermissionMatrix } from "@/components/PermissionMatrix";
+import { RoleManagement } from "@/components/RoleManagement";
+import { Plus, Trash2, Edit, Save, KeyRound, ShieldCheck, Gauge } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
@@ -59,8 +69,23 @@ export default function Settings() {
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [userToDelete, setUserToDelete] = useState<User | null>(null);
 
+  const [userToReset, setUserToReset] = useState<User | null>(null);
+  const [temporaryPassword, setTemporaryPassword] = useState<string | null>(null);
+  const [userToResetTwoFactor, setUserToResetTwoFactor] = useState<User | null>(null);
+
   // Company settings state
-  const [dealNumberOffset, setDealNumberOffset] = useState<number>(269);
+  const [passwordPolicy, setPasswordPolicy] = useState({
+    password_min_length: 8,
+    password_require_digit: true,
+    password_require_uppercase: false,
+    password_require_special: false,
+    login_max_attempts: 5,
+    login_lockout_minutes: 15,
+  });
+  const [dailyQuotas, setDailyQuotas] = useState({
+    ai_daily_quota: 0,
+    calls_daily_quota: 0,
+  });
 
   // Fetch company settings
   const { data: companySettings, isLoading: settingsLoading } = useQuery<CompanySettings>({
@@ -93,16 +118,31 @@ export default function Settings() {
 
   // Update local state when company settings are loaded
   useEffect(() => {
-    if (companySettings?.deal_number_offset) {
-      setDealNumberOffset(companySettings.deal_number_offset);
+    if (companySettings) {
+      setPasswordPolicy({
+        password_min_length: companySettings.password_min_length,
+        password_require_digit: companySettings.password_require_digit,
+        password_require_uppercase: companySettings.password_require_uppercase,
+        password_require_special: companySettings.password_require_special,
+        login_max_attempts: companySettings.login_max_attempts,
+        login_lockout_minutes: companySettings.login_lockout_minutes,
+      });
+      setDailyQuotas({
+        ai_daily_quota: companySettings.ai_daily_quota,
+        calls_daily_quota: companySettings.calls_daily_quota,
+      });
     }
   }, [companySettings]);
 
-  const handleSaveDealNumberOffset = () => {
-    updateSettingsMutation.mutate({ deal_number_offset: dealNumberOffset });
+  const handleSavePasswordPolicy = () => {
+    updateSettingsMutation.mutate(passwordPolicy);
+  };
+
+  const handleSaveDailyQuotas = () => {
+    updateSettingsMutation.mutate(dailyQuotas);
   };
 
-  const { data: usersWithRoles = [], isLoading: usersLoading, error: usersError } = useQuery<Array<User & { role?: Role }>>({
+  const { data: usersWithRoles = [], isLoading: usersLoading, error: usersError } = useQuery<Array<User & { role?: Role; two_factor_enabled?: boolean }>>({
     queryKey: ["/api/users", { includeRoles: true }],
     queryFn: async () => {
       return await apiRequest("GET", "/api/users?includeRoles=true");
@@ -142,6 +182,45 @@ export default function Settings() {
     },
   });
 
+  const resetPasswordMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      return await apiRequest<{ temporary_password: string }>("POST", `/api/users/${userId}/reset-password`);
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      setUserToReset(null);
+      setTemporaryPassword(data.temporary_password);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Ошибка",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resetTwoFactorMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      return await apiRequest("POST", `/api/users/${userId}/reset-2fa`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      setUserToResetTwoFactor(null);
+      toast({ description: "Двухфакторная аутентификация сброшена" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Ошибка",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isLoginLocked = (user: User) =>
+    !!user.locked_until && new Date(user.locked_until).getTime() > Date.now();
+
   const handleCreateUser = () => {
     setSelectedUser(undefined);
     setUserDialogMode("create");
@@ -170,6 +249,10 @@ export default function Settings() {
         <TabsList className="overflow-x-auto">
           <TabsTrigger value="users">Пользователи</TabsTrigger>
           <TabsTrigger value="system">Система</TabsTrigger>
+          <TabsTrigger value="stage-permissions">Права на этапы</TabsTrigger>
+          <TabsTrigger value="integrations">Интеграции</TabsTrigger>
+          <TabsTrigger value="catalog">Каталог</TabsTrigger>
+          <TabsTrigger value="audit">Журнал аудита</TabsTrigger>
         </TabsList>
 
         <TabsContent value="users" className="mt-6 space-y-6">
@@ -223,6 +306,22 @@ export default function Settings() {
                         {!user.is_active && (
                           <Badge variant="destructive">Неактивен</Badge>
                         )}
+                        {isLoginLocked(user) && (
+                          <Badge variant="destructive">Вход заблокирован</Badge>
+                        )}
+                        {user.must_change_password && (
+                          <Badge variant="outline">Смена пароля</Badge>
+                        )}
+                        {user.two_factor_enabled && (
+                          <Badge
+                            variant="outline"
+                            className="cursor-pointer"
+                            title="Сбросить двухфакторную аутентификацию"
+                            onClick={() => setUserToResetTwoFactor(user)}
+                          >
+                            2FA
+                          </Badge>
+                        )}
                         <Badge variant="secondary">
                           {user.role?.name || "Без роли"}
                         </Badge>
@@ -233,6 +332,15 @@ export default function Settings() {
                         >
                           <Edit className="h-4 w-4" />
                         </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setUserToReset(user)}
+                          title="Сбросить пароль"
+                          data-testid={`button-reset-password-${user.id}`}
+                        >
+                          <KeyRound className="h-4 w-4" />
+                        </Button>
                         <Button
                           variant="ghost"
                           size="icon"
@@ -253,49 +361,162 @@ export default function Settings() {
         <TabsContent value="system" className="mt-6 space-y-6">
           <p className="text-xs md:text-sm text-muted-foreground">Системные настройки и нумерация</p>
 
+          <NumberSequencesManager />
+
           <Card>
             <CardHeader>
               <CardTitle className="text-lg flex items-center gap-2">
-                <Settings2 className="h-5 w-5" />
-                Нумерация сделок
+                <ShieldCheck className="h-5 w-5" />
+                Парольная политика
               </CardTitle>
               <CardDescription>
-                Установите начальный номер для новых сделок. Следующая сделка получит этот номер или следующий за максимальным существующим.
+                Требования к новым паролям и временная блокировка входа после серии неудачных попыток.
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
               {settingsLoading ? (
-                <Skeleton className="h-10 w-48" />
+                <Skeleton className="h-32" />
               ) : (
-                <div className="flex items-end gap-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="deal-number-offset">Начальный номер сделки</Label>
-                    <Input
-                      id="deal-number-offset"
-                      type="number"
-                      min={1}
-                      value={dealNumberOffset}
-                      onChange={(e) => setDealNumberOffset(parseInt(e.target.value) || 1)}
-                      className="w-48"
-                      placeholder="269"
-                    />
+                <>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="password-min-length">Минимальная длина</Label>
+                      <Input
+                        id="password-min-length"
+                        type="number"
+                        min={4}
+                        value={passwordPolicy.password_min_length}
+                        onChange={(e) => setPasswordPolicy({ ...passwordPolicy, password_min_length: parseInt(e.target.value) || 4 })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="login-max-attempts">Неудачных попыток до блокировки</Label>
+                      <Input
+                        id="login-max-attempts"
+                        type="number"
+                        min={0}
+                        value={passwordPolicy.login_max_attempts}
+                        onChange={(e) => setPasswordPolicy({ ...passwordPolicy, login_max_attempts: parseInt(e.target.value) || 0 })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="login-lockout-minutes">Блокировка, минут</Label>
+                      <Input
+                        id="login-lockout-minutes"
+                        type="number"
+                        min={1}
+                        value={passwordPolicy.login_lockout_minutes}
+                        onChange={(e) => setPasswordPolicy({ ...passwordPolicy, login_lockout_minutes: parseInt(e.target.value) || 1 })}
+                      />
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap gap-6">
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        id="password-require-digit"
+                        checked={passwordPolicy.password_require_digit}
+                        onCheckedChange={(checked) => setPasswordPolicy({ ...passwordPolicy, password_require_digit: checked })}
+                      />
+                      <Label htmlFor="password-require-digit">Цифры</Label>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        id="password-require-uppercase"
+                        checked={passwordPolicy.password_require_uppercase}
+                        onCheckedChange={(checked) => setPasswordPolicy({ ...passwordPolicy, password_require_uppercase: checked })}
+                      />
+                      <Label htmlFor="password-require-uppercase">Строчные и заглавные буквы</Label>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        id="password-require-special"
+                        checked={passwordPolicy.password_require_special}
+                        onCheckedChange={(checked) => setPasswordPolicy({ ...passwordPolicy, password_require_special: checked })}
+                      />
+                      <Label htmlFor="password-require-special">Спецсимволы</Label>
+                    </div>
                   </div>
-                  <Button
-                    onClick={handleSaveDealNumberOffset}
-                    disabled={updateSettingsMutation.isPending}
-                  >
+                  <Button onClick={handleSavePasswordPolicy} disabled={updateSettingsMutation.isPending}>
                     <Save className="h-4 w-4 mr-2" />
                     {updateSettingsMutation.isPending ? "Сохранение..." : "Сохранить"}
                   </Button>
-                </div>
+                  <p className="text-xs text-muted-foreground">
+                    0 попыток отключает блокировку. Политика применяется к новым паролям, существующие пароли не проверяются.
+                  </p>
+                </>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Gauge className="h-5 w-5" />
+                Лимиты платных операций
+              </CardTitle>
+              <CardDescription>
+                Сколько запросов к AI (чат, анализ PDF, ассистент) и исходящих звонков один пользователь может сделать за день.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {settingsLoading ? (
+                <Skeleton className="h-20" />
+              ) : (
+                <>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="ai-daily-quota">AI-запросов в день</Label>
+                      <Input
+                        id="ai-daily-quota"
+                        type="number"
+                        min={0}
+                        value={dailyQuotas.ai_daily_quota}
+                        onChange={(e) => setDailyQuotas({ ...dailyQuotas, ai_daily_quota: parseInt(e.target.value) || 0 })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="calls-daily-quota">Звонков в день</Label>
+                      <Input
+                        id="calls-daily-quota"
+                        type="number"
+                        min={0}
+                        value={dailyQuotas.calls_daily_quota}
+                        onChange={(e) => setDailyQuotas({ ...dailyQuotas, calls_daily_quota: parseInt(e.target.value) || 0 })}
+                      />
+                    </div>
+                  </div>
+                  <Button onClick={handleSaveDailyQuotas} disabled={updateSettingsMutation.isPending}>
+                    <Save className="h-4 w-4 mr-2" />
+                    {updateSettingsMutation.isPending ? "Сохранение..." : "Сохранить"}
+                  </Button>
+                  <p className="text-xs text-muted-foreground">
+                    0 — без ограничений. Счётчики обнуляются в полночь; частота запросов ограничивается отдельно, независимо от этих лимитов.
+                  </p>
+                </>
               )}
-              <p className="text-xs text-muted-foreground">
-                Текущая настройка: {companySettings?.deal_number_offset || 269}.
-                Если установить 500, следующая новая сделка получит номер 500 (или выше, если уже есть сделки с большими номерами).
-              </p>
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="integrations" className="mt-6 space-y-6">
+          <ServiceAccountsManager />
+          <LeadSourcesManager />
+          <MessengerChannelsManager />
+          <SecretsManager />
+        </TabsContent>
+
+        <TabsContent value="catalog" className="mt-6 space-y-6">
+          <CatalogManager />
+        </TabsContent>
+
+        <TabsContent value="stage-permissions" className="mt-6 space-y-6">
+          <RoleManagement />
+          <PermissionMatrix />
+        </TabsContent>
+
+        <TabsContent value="audit" className="mt-6 space-y-6">
+          <AuditLogViewer />
+        </TabsContent>
       </Tabs>
 
       <UserFormDialog
@@ -325,6 +546,61 @@ export default function Settings() {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      <AlertDialog open={!!userToReset} onOpenChange={(open) => !open && setUserToReset(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Сбросить пароль?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Пользователь {userToReset?.full_name || userToReset?.username} получит временный пароль и должен будет
+              сменить его при следующем входе. Все активные сеансы пользователя будут завершены, блокировка входа снята.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Отмена</AlertDialogCancel>
+            <AlertDialogAction onClick={() => userToReset && resetPasswordMutation.mutate(userToReset.id)}>
+              Сбросить
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={!!userToResetTwoFactor} onOpenChange={(open) => !open && setUserToResetTwoFactor(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Сбросить двухфакторную аутентификацию?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Используйте, если {userToResetTwoFactor?.full_name || userToResetTwoFactor?.username} потерял доступ к
+              приложению-аутентификатору. Сеансы пользователя будут завершены, 2FA нужно будет подключить заново.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Отмена</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => userToResetTwoFactor && resetTwoFactorMutation.mutate(userToResetTwoFactor.id)}
+            >
+              Сбросить
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={!!temporaryPassword} onOpenChange={(open) => !open && setTemporaryPassword(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Временный пароль</AlertDialogTitle>
+            <AlertDialogDescription>
+              Передайте пароль пользователю. После закрытия окна его нельзя будет посмотреть снова.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <p className="font-mono text-lg text-center select-all py-2" data-testid="text-temporary-password">
+            {temporaryPassword}
+          </p>
+          <AlertDialogFooter>
+            <AlertDialogAction onClick={() => setTemporaryPassword(null)}>Готово</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
@@ -49,10 +49,7 @@ export default function ShipmentDetail() {
 
   const cancelMutation = useMutation({
     mutationFn: async () => {
-      const currentUser = localStorage.getItem("currentUserId") || "user-1";
-      return await apiRequest("POST", `/api/shipments/${shipmentId}/cancel`, {
-        user_id: currentUser,
-      });
+      return await apiRequest("POST", `/api/shipments/${shipmentId}/cancel`);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [`/api/shipments/${shipmentId}`] });
@@ -66,10 +63,7 @@ export default function ShipmentDetail() {
 
   const deleteMutation = useMutation({
     mutationFn: async () => {
-      const currentUser = localStorage.getItem("currentUserId") || "user-1";
-      return await apiRequest("DELETE", `/api/shipments/${shipmentId}`, undefined, {
-        headers: { "X-User-Id": currentUser },
-      });
+      return await apiRequest("DELETE", `/api/shipments/${shipmentId}`);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/shipments"] });
@@ -73,14 +73,11 @@ export default function ShipmentScanner() {
   // Создание накладной
   const createShipmentMutation = useMutation({
     mutationFn: async () => {
-      const currentUser = localStorage.getItem("currentUserId") || "user-1";
-
       return await apiRequest("POST", "/api/shipments", {
         project_name: projectName,
         delivery_address: deliveryAddress,
         warehouse_keeper: warehouseKeeper,
         notes,
-        created_by: currentUser,
       });
     },
     onSuccess: (data) => {
@@ -220,11 +217,7 @@ export default function ShipmentScanner() {
   const confirmShipmentMutation = useMutation({
     mutationFn: async () => {
       if (!shipmentId) throw new Error("Накладная не создана");
-      const currentUser = localStorage.getItem("currentUserId") || "user-1";
-
-      return await apiRequest("POST", `/api/shipments/${shipmentId}/confirm`, {
-        user_id: currentUser,
-      });
+      return await apiRequest("POST", `/api/shipments/${shipmentId}/confirm`);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/warehouse"] });
@@ -43,10 +43,7 @@ export default function Shipments() {
 
   const deleteMutation = useMutation({
     mutationFn: async (shipmentId: string) => {
-      const currentUser = localStorage.getItem("currentUserId") || "user-1";
-      return await apiRequest("DELETE", `/api/shipments/${shipmentId}`, undefined, {
-        headers: { "X-User-Id": currentUser },
-      });
+      return await apiRequest("DELETE", `/api/shipments/${shipmentId}`);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/shipments"] });
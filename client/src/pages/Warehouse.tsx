@@ -20,7 +20,7 @@ import { WarehouseReserveDialog } from "@/components/WarehouseReserveDialog";
 import { WarehouseCategorySidebar } from "@/components/WarehouseCategorySidebar";
 import { CategoryManageDialog } from "@/components/CategoryManageDialog";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { WarehouseItem, User, WarehouseReservation, Project } from "@shared/schema";
+import type { WarehouseItem, WarehouseReservation, Project } from "@shared/schema";
 
 export default function Warehouse() {
   const [searchQuery, setSearchQuery] = useState("");
@@ -50,10 +50,6 @@ export default function Warehouse() {
     refetchInterval: 15000, // Real-time: обновление каждые 15 секунд
   });
 
-  const { data: users = [] } = useQuery<User[]>({
-    queryKey: ["/api/users"],
-  });
-
   const { data: allReservations = [] } = useQuery<WarehouseReservation[]>({
     queryKey: ["/api/warehouse/reservations"],
     queryFn: async () => {
@@ -86,8 +82,6 @@ export default function Warehouse() {
     }
   }, [error, toast]);
 
-  const currentUserId = users[0]?.id || "";
-
   const filteredItems = items.filter((item) => {
     const matchesSearch =
       item.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -396,7 +390,6 @@ export default function Warehouse() {
         item={selectedItem}
         open={isDetailSheetOpen}
         onOpenChange={setIsDetailSheetOpen}
-        currentUserId={currentUserId}
       />
 
       <WarehouseItemCreateDialog
@@ -424,7 +417,6 @@ export default function Warehouse() {
         open={isQuickTransactionOpen}
         onOpenChange={setIsQuickTransactionOpen}
         scannedCode={selectedItem?.barcode || selectedItem?.id || ""}
-        currentUserId={currentUserId}
       />
 
       <DeleteConfirmDialog
@@ -439,7 +431,6 @@ export default function Warehouse() {
         open={isReserveDialogOpen}
         onOpenChange={setIsReserveDialogOpen}
         item={selectedItem}
-        userId={currentUserId}
       />
 
       <PackageCreateDialog
@@ -75,92 +75,8 @@ export const ROLE_DEFINITIONS: Record<ProjectRole, RoleInfo> = {
   },
 };
 
-// Матрица разрешений по умолчанию: role × stage_type_code
-export interface DefaultPermissionMatrix {
-  [role: string]: {
-    [stageTypeCode: string]: {
-      can_read: boolean;
-      can_write: boolean;
-      can_delete: boolean;
-      can_start: boolean;
-      can_complete: boolean;
-    };
-  };
-}
-
-// Дефолтная матрица разрешений
-export const DEFAULT_PERMISSIONS: DefaultPermissionMatrix = {
-  project_manager: {
-    // Руководитель проекта - полный доступ ко всем этапам
-    measurement: { can_read: true, can_write: true, can_delete: true, can_start: true, can_complete: true },
-    tz: { can_read: true, can_write: true, can_delete: true, can_start: true, can_complete: true },
-    kd: { can_read: true, can_write: true, can_delete: true, can_start: true, can_complete: true },
-    approval: { can_read: true, can_write: true, can_delete: true, can_start: true, can_complete: true },
-    procurement: { can_read: true, can_write: true, can_delete: true, can_start: true, can_complete: true },
-    production: { can_read: true, can_write: true, can_delete: true, can_start: true, can_complete: true },
-    installation: { can_read: true, can_write: true, can_delete: true, can_start: true, can_complete: true },
-  },
-  measurer: {
-    // Замерщик - полный доступ только к этапу Замер
-    measurement: { can_read: true, can_write: true, can_delete: false, can_start: true, can_complete: true },
-    tz: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
-    kd: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
-    approval: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
-    procurement: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
-    production: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
-    installation: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
-  },
-  constructor: {
-    // Конструктор - полный доступ к ТЗ и КД
-    measurement: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
-    tz: { can_read: true, can_write: true, can_delete: false, can_start: true, can_complete: true },
-    kd: { can_read: true, can_write: true, can_delete: false, can_start: true, can_complete: true },
-    approval: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
-    procurement: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
-    production: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
-    installation: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
-  },
-  procurement: {
-    // Снабженец - полный доступ к этапу Снабжение
-    measurement: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
-    tz: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
-    kd: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
-    approval: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
-    procurement: { can_read: true, can_write: true, can_delete: false, can_start: true, can_complete: true },
-    production: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
-    installation: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
-  },
-  production: {
-    // Производство - полный доступ к этапу Производство
-    measurement: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
-    tz: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
-    kd: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
-    approval: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
-    procurement: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
-    production: { can_read: true, can_write: true, can_delete: false, can_start: true, can_complete: true },
-    installation: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
-  },
-  installer: {
-    // Монтажник - полный доступ к этапу Монтаж
-    measurement: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
-    tz: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
-    kd: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
-    approval: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
-    procurement: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
-    production: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
-    installation: { can_read: true, can_write: true, can_delete: false, can_start: true, can_complete: true },
-  },
-  client: {
-    // Клиент - только чтение, плюс согласование документов
-    measurement: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
-    tz: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
-    kd: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
-    approval: { can_read: true, can_write: true, can_delete: false, can_start: false, can_complete: false }, // может согласовывать
-    procurement: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
-    production: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
-    installation: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
-  },
-};
+// Матрица разрешений по умолчанию общая с сервером (сброс к значениям по умолчанию)
+export { DEFAULT_PERMISSIONS, type DefaultPermissionMatrix } from "@shared/stagePermissions";
 
 // Интерфейс для назначения роли пользователю
 export interface UserRoleAssignment {
@@ -7,6 +7,7 @@ import * as schema from "@shared/schema";
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
 import { mkdirSync, existsSync } from 'fs';
+import { AsyncLocalStorage } from 'async_hooks';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -16,6 +17,7 @@ const dbUrl = process.env.DATABASE_URL;
 const nodeEnv = process.env.NODE_ENV;
 const isPostgres = dbUrl && dbUrl.startsWith('postgresql://');
 let db: any;
+let sqlite: Database.Database | undefined;
 
 if (isPostgres && dbUrl) {
   // Use PostgreSQL in production
@@ -54,7 +56,7 @@ if (isPostgres && dbUrl) {
 
   console.log(`📂 Using local SQLite database at: ${dbPath}`);
 
-  const sqlite = new Database(dbPath);
+  sqlite = new Database(dbPath);
   sqlite.pragma('journal_mode = WAL');
   sqlite.pragma('foreign_keys = ON');
 
@@ -66,4 +68,40 @@ if (isPostgres && dbUrl) {
   });
 }
 
+// Транзакция SQLite, внутри которой выполняется текущий код (для вложенных вызовов)
+const sqliteTransactionScope = new AsyncLocalStorage<true>();
+// Транзакции SQLite идут по очереди: соединение одно, BEGIN внутри открытой транзакции падает
+let sqliteTransactionQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Транзакция с асинхронной функцией для обоих драйверов.
+ * better-sqlite3 в drizzle принимает только синхронную функцию ("Transaction function cannot return a promise"),
+ * поэтому на SQLite транзакция открывается вручную; вложенный вызов выполняется в уже открытой
+ */
+export async function withTransaction<T>(fn: (tx: any) => Promise<T>): Promise<T> {
+  if (!sqlite) {
+    return await db.transaction(fn);
+  }
+  if (sqliteTransactionScope.getStore()) {
+    return await fn(db);
+  }
+
+  const connection = sqlite;
+  const run = () => sqliteTransactionScope.run(true, async () => {
+    connection.exec('BEGIN IMMEDIATE');
+    try {
+      const result = await fn(db);
+      connection.exec('COMMIT');
+      return result;
+    } catch (error) {
+      if (connection.inTransaction) connection.exec('ROLLBACK');
+      throw error;
+    }
+  });
+
+  const result = sqliteTransactionQueue.then(run, run);
+  sqliteTransactionQueue = result.catch(() => undefined);
+  return await result;
+}
+
 export { db };
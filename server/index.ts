@@ -2,12 +2,19 @@ import "dotenv/config"; // Loads environment variables
 import express, { type Request, Response, NextFunction } from "express";
 import helmet from "helmet";
 import { registerRoutes } from "./routes";
+import { mailService } from "./modules/mail/service";
 import { join } from "path";
 // Browser Agent временно отключен
 // import { browserAgentWebSocket } from "./modules/browser-agent";
 
 const app = express();
 
+// Behind nginx the client IP (rate limits, sessions, audit) comes from X-Forwarded-For: TRUST_PROXY=1
+if (process.env.TRUST_PROXY) {
+  const trustProxy = process.env.TRUST_PROXY;
+  app.set('trust proxy', /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy === 'true' ? true : trustProxy);
+}
+
 // Simple log function
 const log = (message: string) => {
   console.log(`${new Date().toLocaleTimeString()} [express] ${message}`);
@@ -22,7 +29,15 @@ if (process.env.NODE_ENV === 'production') {
 }
 
 // Set 500MB limit for JSON and URL-encoded payloads
-app.use(express.json({ limit: '500mb' }));
+app.use(express.json({
+  limit: '500mb',
+  // Webhook signatures are computed over the exact bytes that were sent
+  verify: (req, _res, buf) => {
+    if (req.url?.startsWith('/api/telephony/webhooks/')) {
+      (req as any).rawBody = buf;
+    }
+  },
+}));
 app.use(express.urlencoded({ extended: false, limit: '500mb' }));
 
 // Request logging middleware
@@ -140,5 +155,6 @@ if (isProduction) {
 
   server.listen(listenOptions, () => {
     log(`serving on port ${port}`);
+    mailService.start();
   });
 })();
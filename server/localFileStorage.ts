@@ -45,6 +45,16 @@ export class LocalFileStorageService {
     return objectPath;
   }
 
+  /**
+   * Path on disk of a file in local storage (/objects/<name> or relative to the uploads directory).
+   * Returns null for paths that resolve outside the uploads directory.
+   */
+  resolveUploadPath(objectPath: string): string | null {
+    const relativePath = objectPath.startsWith("/objects/") ? objectPath.slice("/objects/".length) : objectPath;
+    const filePath = path.resolve(UPLOADS_DIR, relativePath);
+    return filePath.startsWith(path.resolve(UPLOADS_DIR) + path.sep) ? filePath : null;
+  }
+
   /**
    * Get file from local storage
    */
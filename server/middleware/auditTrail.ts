@@ -0,0 +1,203 @@
+import type { Request, Response, NextFunction } from "express";
+import { eq } from "drizzle-orm";
+import { db } from "../db";
+import {
+  deals, deal_documents, clients, projects, project_items, project_stages, tasks,
+  warehouse_items, shipments, suppliers, montage_orders, montage_items, installers, installations,
+  production_tasks, documents, boards, users, user_sessions, roles, api_keys, user_roles, secrets,
+  record_merges,
+} from "@shared/schema";
+import { getRequestUserId, getRequestApiKeyId } from "./auth";
+import { getMethodAction } from "../modules/permissions/middleware";
+import { auditRepository } from "../modules/audit/repository";
+
+const MUTATING_METHODS = new Set(["POST", "PUT", "PATCH", "DELETE"]);
+
+// Login/logout carry credentials and are not entity changes
+const SKIPPED_PREFIXES = ["/api/auth/"];
+
+// Values of these fields never get into the journal
+const SECRET_FIELDS = new Set(["password", "token", "token_hash", "key_hash", "secret", "api_key", "auth_token", "value_encrypted"]);
+
+// Timestamps change on every update and only add noise to the diff
+const IGNORED_FIELDS = new Set(["created_at", "updated_at"]);
+
+interface AuditedEntity {
+  type: string;
+  table: any;
+  // /api/deals/:id (+ optional action suffix such as /archive); the collection path is used for POST
+  pattern: RegExp;
+  collection?: string;
+  // Column the path parameter refers to, "id" unless the route uses another unique key
+  key: string;
+}
+
+function entity(type: string, table: any, path: string, suffixes: string[] = [], key = "id"): AuditedEntity {
+  const base = path.replace(/\/:id$/, "");
+  const prefix = base.replace(/:[a-zA-Z]+/g, "[^/]+");
+  const suffix = suffixes.length > 0 ? `(?:/(?:${suffixes.join("|")}))?` : "";
+  return {
+    type,
+    table,
+    pattern: new RegExp(`^${prefix}/([^/]+)${suffix}$`),
+    collection: base.includes(":") ? undefined : base,
+    key,
+  };
+}
+
+// Entities with a before/after diff; more specific paths go first
+const AUDITED_ENTITIES: AuditedEntity[] = [
+  entity("deal_document", deal_documents, "/api/deals/:dealId/documents/:id"),
+  entity("deal", deals, "/api/deals/:id"),
+  entity("client", clients, "/api/clients/:id"),
+  entity("record_merge", record_merges, "/api/duplicates/merges/:id", ["undo"]),
+  entity("project_stage", project_stages, "/api/projects/stages/:id"),
+  entity("project_item", project_items, "/api/projects/:projectId/items/:id"),
+  entity("project_item", project_items, "/api/project-items/:id", ["status", "ready-for-montage"]),
+  entity("project", projects, "/api/projects/:id"),
+  entity("task", tasks, "/api/tasks/:id", ["archive", "unarchive"]),
+  entity("warehouse_item", warehouse_items, "/api/warehouse/items/:id"),
+  entity("shipment", shipments, "/api/shipments/:id"),
+  entity("supplier", suppliers, "/api/suppliers/:id"),
+  entity("montage_item", montage_items, "/api/montage/items/:id"),
+  entity("montage_order", montage_orders, "/api/montage/:id"),
+  entity("installer", installers, "/api/installers/:id"),
+  entity("installation", installations, "/api/installations/:id"),
+  entity("production_task", production_tasks, "/api/production/:id"),
+  entity("document", documents, "/api/documents/:id"),
+  entity("board", boards, "/api/boards/:id"),
+  entity("user_session", user_sessions, "/api/users/:userId/sessions/:id"),
+  entity("user", users, "/api/users/:id", ["role", "status", "reset-password", "reset-2fa", "sessions"]),
+  entity("role", roles, "/api/roles/:id"),
+  entity("api_key", api_keys, "/api/service-accounts/:accountId/keys/:id"),
+  entity("service_account", users, "/api/service-accounts/:id"),
+  entity("user_role", user_roles, "/api/user-roles/:id"),
+  entity("secret", secrets, "/api/secrets/:id", [], "name"),
+];
+
+interface ResolvedTarget {
+  type: string;
+  id: string | null;
+  table: any | null;
+  key: string;
+}
+
+function resolveTarget(method: string, fullPath: string): ResolvedTarget {
+  const path = fullPath.replace(/\/+$/, "");
+
+  for (const audited of AUDITED_ENTITIES) {
+    if (method === "POST" && audited.collection === path) {
+      return { type: audited.type, id: null, table: audited.table, key: audited.key };
+    }
+    const match = audited.pattern.exec(path);
+    if (match) {
+      return { type: audited.type, id: match[1], table: audited.table, key: audited.key };
+    }
+  }
+
+  // Fallback: /api/<resource>/<id>/...
+  const segments = path.split("/").filter(Boolean).slice(1);
+  return {
+    type: segments[0] || "unknown",
+    id: segments[1] || null,
+    table: null,
+    key: "id",
+  };
+}
+
+async function loadRow(table: any, id: string | null, key = "id"): Promise<Record<string, any> | null> {
+  if (!table || !id) return null;
+  const [row] = await db.select().from(table).where(eq(table[key], id)).limit(1);
+  return (row as Record<string, any>) || null;
+}
+
+function normalize(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString();
+  return value === undefined ? null : value;
+}
+
+/**
+ * Field-level diff { field: { from, to } } with secrets masked
+ */
+export function diffRecords(
+  before: Record<string, any> | null,
+  after: Record<string, any> | null
+): Record<string, { from: unknown; to: unknown }> {
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+  const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+  for (const key of Array.from(keys)) {
+    if (IGNORED_FIELDS.has(key)) continue;
+
+    const from = normalize(before?.[key]);
+    const to = normalize(after?.[key]);
+    if (JSON.stringify(from) === JSON.stringify(to)) continue;
+
+    changes[key] = SECRET_FIELDS.has(key)
+      ? { from: from === null ? null : "[hidden]", to: to === null ? null : "[hidden]" }
+      : { from, to };
+  }
+
+  return changes;
+}
+
+/**
+ * Writes every successful POST/PUT/PATCH/DELETE under /api to action_audit_log
+ * with actor, IP, user agent, entity and a before/after diff.
+ */
+export function auditTrail() {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const fullPath = req.baseUrl + req.path;
+    if (!MUTATING_METHODS.has(req.method) || SKIPPED_PREFIXES.some(prefix => fullPath.startsWith(prefix))) {
+      return next();
+    }
+
+    // Resolve against the full path even when mounted under a prefix
+    const target = resolveTarget(req.method, fullPath);
+    let before: Record<string, any> | null = null;
+    try {
+      before = await loadRow(target.table, target.id, target.key);
+    } catch (error) {
+      console.error("[Audit] Failed to load record before change:", error);
+    }
+
+    // Keep the response body to pick up the id of created records
+    let responseBody: any;
+    const originalJson = res.json;
+    res.json = function(data: any) {
+      responseBody = data;
+      return originalJson.call(this, data);
+    };
+
+    res.on("finish", async () => {
+      if (res.statusCode >= 400) return;
+
+      try {
+        const id = target.id ?? (typeof responseBody?.id === "string" ? responseBody.id : null);
+        const after = req.method === "DELETE" ? null : await loadRow(target.table, id, target.key);
+
+        // Without a registered table the request body is the best description of the change
+        const changes = target.table
+          ? diffRecords(before, after)
+          : diffRecords(null, req.body && typeof req.body === "object" ? req.body : null);
+
+        await auditRepository.createEntry({
+          user_id: getRequestUserId(req) || null,
+          api_key_id: getRequestApiKeyId(req) || null,
+          action: getMethodAction(req.method),
+          entity_type: target.type,
+          entity_id: id || "",
+          success: true,
+          request_path: `${req.method} ${req.originalUrl}`,
+          changes: JSON.stringify(changes),
+          ip_address: req.ip || req.socket.remoteAddress,
+          user_agent: req.get("user-agent"),
+        });
+      } catch (error) {
+        console.error("[Audit] Failed to write audit entry:", error);
+      }
+    });
+
+    next();
+  };
+}
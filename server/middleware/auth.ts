@@ -1,39 +1,41 @@
 import type { Request, Response, NextFunction } from "express";
-import { db } from "../db";
-import { users } from "@shared/schema";
-import { eq } from "drizzle-orm";
+import { authService } from "../modules/auth/service";
+import { serviceAccountsService } from "../modules/service-accounts/service";
 
 export interface AuthenticatedRequest extends Request {
   user?: any;
+  sessionId?: string;
+  // Set when the request is made with an API key of a service account
+  apiKeyId?: string;
 }
 
 /**
- * Authentication middleware that sets req.user from X-User-Id header
+ * Authentication middleware that sets req.user from the signed session cookie
+ * or, for integrations, from the API key (Authorization: Bearer / X-API-Key)
  */
 export async function authenticate(req: AuthenticatedRequest, res: Response, next: NextFunction) {
   try {
-    // Get userId from header or query parameter
-    // In production, this should come from JWT or session
-    const userId = req.header("X-User-Id") || req.query.userId as string;
-
-    if (!userId) {
-      // Don't block the request, just don't set user
+    if (serviceAccountsService.readApiKey(req)) {
+      // A request with a key never falls back to the cookie session
+      const resolvedKey = await serviceAccountsService.resolveApiKey(req);
+      if (resolvedKey) {
+        req.user = resolvedKey.user;
+        req.apiKeyId = resolvedKey.key.id;
+      }
       return next();
     }
 
-    const [user] = await db.select({
-      id: users.id,
-      username: users.username,
-      email: users.email,
-      full_name: users.full_name,
-      role_id: users.role_id,
-      is_active: users.is_active,
-    }).from(users).where(eq(users.id, userId));
-
-    if (user && user.is_active) {
-      req.user = user;
+    const resolved = await authService.resolveSession(req);
+
+    if (resolved) {
+      req.user = resolved.user;
+      req.sessionId = resolved.session.id;
+    } else if (authService.readSessionToken(req)) {
+      // Revoked or expired session, or a deactivated user: drop the cookie, the client returns to the login page
+      authService.clearSessionCookie(res);
     }
 
+    // Don't block the request, routes decide whether a user is required
     next();
   } catch (error) {
     console.error("Authentication error:", error);
@@ -50,4 +52,47 @@ export function requireAuth(req: AuthenticatedRequest, res: Response, next: Next
     return res.status(401).json({ error: "Не авторизован" });
   }
   next();
-}
\ No newline at end of file
+}
+
+/**
+ * After an admin password reset only /api/auth/* (me, change-password, logout) is available
+ * until the user sets a new password. Must be mounted under /api.
+ */
+export function requirePasswordChange(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+  if (req.user?.must_change_password && !req.path.startsWith("/auth/")) {
+    return res.status(403).json({ error: "Требуется смена пароля", code: "PASSWORD_CHANGE_REQUIRED" });
+  }
+  next();
+}
+
+/**
+ * If the user's role requires 2FA and it is not set up yet, only /api/auth/* (including
+ * the /api/auth/2fa/* enrolment endpoints) is available. Must be mounted under /api.
+ */
+export function requireTwoFactorSetup(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+  if (req.user?.two_factor_setup_required && !req.path.startsWith("/auth/")) {
+    return res.status(403).json({ error: "Требуется подключить двухфакторную аутентификацию", code: "TWO_FACTOR_SETUP_REQUIRED" });
+  }
+  next();
+}
+
+/**
+ * Returns the id of the user resolved from the session, if any
+ */
+export function getRequestUserId(req: Request): string | undefined {
+  return (req as AuthenticatedRequest).user?.id;
+}
+
+/**
+ * Returns the id of the API key used for the request, if any
+ */
+export function getRequestApiKeyId(req: Request): string | undefined {
+  return (req as AuthenticatedRequest).apiKeyId;
+}
+
+/**
+ * Returns the role name of the session user (empty string when unknown)
+ */
+export function getRequestUserRole(req: Request): string {
+  return (req as AuthenticatedRequest).user?.role_name || "";
+}
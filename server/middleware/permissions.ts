@@ -1,37 +1,34 @@
 import type { Request, Response, NextFunction } from "express";
 import { db } from "../db";
-import { users, roles, role_permissions, user_roles, stage_permissions, project_stages, stage_types, action_audit_log } from "@shared/schema";
-import { eq, and, or } from "drizzle-orm";
+import { users, roles, role_permissions, action_audit_log } from "@shared/schema";
+import { eq, and } from "drizzle-orm";
+import type { StageAction } from "@shared/stagePermissions";
+import { getRequestUserId, getRequestApiKeyId } from "./auth";
+import { stagePermissionsService } from "../modules/stage-permissions/service";
+import { permissionsService } from "../modules/permissions/service";
 
 export type PermissionType = "can_create_deals" | "can_edit_deals" | "can_delete_deals" | "can_delete_warehouse";
-export type StageAction = "read" | "write" | "delete" | "start" | "complete";
+export type { StageAction };
 
 export function checkPermission(permission: PermissionType) {
   return async (req: Request, res: Response, next: NextFunction) => {
     try {
-      // Get userId from header or query parameter
-      // In production, this should come from authenticated session
-      const userId = req.header("X-User-Id") || req.query.userId as string;
+      // User is resolved from the session cookie by authenticate()
+      const userId = getRequestUserId(req);
 
       if (!userId) {
+        await logAuditAction(null, permission, 'user', req.originalUrl, false, "User ID not provided", req);
         return res.status(401).json({
           error: "Не авторизован",
           message: "User ID not provided"
         });
       }
 
-      let [user] = await db.select().from(users).where(eq(users.id, userId));
+      const [user] = await db.select().from(users).where(eq(users.id, userId));
 
       if (!user) {
-        // In development, fallback to Admin user if the stored user ID doesn't exist
-        // This handles cases where localStorage has stale user ID
-        const [adminUser] = await db.select().from(users).where(eq(users.username, 'Admin'));
-        if (adminUser) {
-          console.warn(`[Permission] User ${userId} not found, using Admin fallback`);
-          user = adminUser;
-        } else {
-          return res.status(401).json({ error: "Пользователь не найден" });
-        }
+        await logAuditAction(null, permission, 'user', userId, false, "Пользователь не найден", req);
+        return res.status(401).json({ error: "Пользователь не найден" });
       }
 
       // Admin user has all permissions
@@ -40,10 +37,11 @@ export function checkPermission(permission: PermissionType) {
         return next();
       }
 
+      // Determine module based on permission type
+      const module = permission.includes('deals') ? 'sales' : 'warehouse';
+
       // Check permissions through role_permissions table
       if (user.role_id) {
-        // Determine module based on permission type
-        const module = permission.includes('deals') ? 'sales' : 'warehouse';
 
         const [rolePermission] = await db
           .select()
@@ -69,6 +67,7 @@ export function checkPermission(permission: PermissionType) {
       }
 
       // If no role or no permission, deny access
+      await logAuditAction(user.id, permission, module, req.params.id || req.originalUrl, false, "Нет прав", req);
       return res.status(403).json({
         error: "Доступ запрещен",
         message: `У вас нет прав для этого действия`
@@ -87,10 +86,11 @@ export function checkPermission(permission: PermissionType) {
 export function checkAdminOnly() {
   return async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const userId = req.header("X-User-Id") || req.query.userId as string;
+      const userId = getRequestUserId(req);
 
       if (!userId) {
         console.log("[checkAdminOnly] No userId provided");
+        await logAuditAction(null, 'admin', 'user', req.originalUrl, false, "User ID not provided", req);
         return res.status(401).json({
           error: "Не авторизован",
           message: "User ID not provided"
@@ -99,19 +99,11 @@ export function checkAdminOnly() {
 
       console.log("[checkAdminOnly] Checking user:", userId);
 
-      let [user] = await db.select().from(users).where(eq(users.id, userId));
+      const [user] = await db.select().from(users).where(eq(users.id, userId));
 
       if (!user) {
-        // Fallback to Admin if user not found
-        console.log("[checkAdminOnly] User not found by ID, trying Admin fallback");
-        const [adminUser] = await db.select().from(users).where(eq(users.username, 'Admin'));
-        if (adminUser) {
-          console.warn(`[AdminOnly] User ${userId} not found, using Admin fallback`);
-          user = adminUser;
-        } else {
-          console.log("[checkAdminOnly] Admin user not found in database");
-          return res.status(401).json({ error: "Пользователь не найден" });
-        }
+        await logAuditAction(null, 'admin', 'user', userId, false, "Пользователь не найден", req);
+        return res.status(401).json({ error: "Пользователь не найден" });
       }
 
       console.log("[checkAdminOnly] Found user:", user.username, user.id);
@@ -145,6 +137,7 @@ export function checkAdminOnly() {
       }
 
       console.log("[checkAdminOnly] Access denied - no warehouse permissions");
+      await logAuditAction(user.id, 'admin', 'warehouse', req.params.id || req.originalUrl, false, "Нет прав администратора", req);
       return res.status(403).json({
         error: "Доступ запрещен",
         message: "У вас нет прав для этого действия"
@@ -156,6 +149,41 @@ export function checkAdminOnly() {
   };
 }
 
+/**
+ * Middleware for credential-level endpoints (secrets, passwords, sessions, API keys):
+ * only the active admin passes, unlike checkAdminOnly no module permission is enough
+ */
+export function checkStrictAdmin() {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const userId = getRequestUserId(req);
+
+      if (!userId) {
+        await logAuditAction(null, 'admin', 'user', req.originalUrl, false, "User ID not provided", req);
+        return res.status(401).json({
+          error: "Не авторизован",
+          message: "User ID not provided"
+        });
+      }
+
+      const userPermissions = await permissionsService.getUserPermissions(userId);
+
+      if (!userPermissions || !userPermissions.isActive || !permissionsService.isAdmin(userPermissions)) {
+        await logAuditAction(userId, 'admin', 'user', req.params.id || req.originalUrl, false, "Нет прав администратора", req);
+        return res.status(403).json({
+          error: "Доступ запрещен",
+          message: "Действие доступно только администратору"
+        });
+      }
+
+      next();
+    } catch (error) {
+      console.error("Strict admin check error:", error);
+      res.status(500).json({ error: "Ошибка проверки прав доступа" });
+    }
+  };
+}
+
 /**
  * Check if user has permission to perform action on a stage
  * @param userId - User ID
@@ -167,76 +195,19 @@ export async function checkStagePermission(
   userId: string,
   stageId: string,
   action: StageAction
-): Promise<{ hasPermission: boolean; reason?: string }> {
+): Promise<{ hasPermission: boolean; reason?: string; notFound?: boolean }> {
   try {
-    // Get user
-    const [user] = await db.select().from(users).where(eq(users.id, userId));
-    if (!user) {
-      return { hasPermission: false, reason: "Пользователь не найден" };
-    }
-
-    // Admin has all permissions
-    if (user.username.toLowerCase() === 'admin') {
-      return { hasPermission: true };
-    }
+    // Admin, project manager, project roles × stage_permissions or module permissions
+    const permission = await stagePermissionsService.getEffectiveStagePermission(userId, stageId);
 
-    // Get stage with type info
-    const [stage] = await db
-      .select({
-        stage: project_stages,
-        stageType: stage_types,
-      })
-      .from(project_stages)
-      .leftJoin(stage_types, eq(project_stages.stage_type_id, stage_types.id))
-      .where(eq(project_stages.id, stageId));
-
-    if (!stage || !stage.stageType) {
-      return { hasPermission: false, reason: "Этап не найден" };
+    if (!permission) {
+      return { hasPermission: false, reason: "Этап не найден", notFound: true };
     }
 
-    // If user is assignee of the stage, grant write access
-    if (stage.stage.assignee_id === userId && (action === 'read' || action === 'write')) {
+    if (permission[`can_${action}`]) {
       return { hasPermission: true };
     }
 
-    // Get user's roles for this project (and global roles)
-    const userRolesList = await db
-      .select()
-      .from(user_roles)
-      .where(
-        and(
-          eq(user_roles.user_id, userId),
-          or(
-            eq(user_roles.project_id, stage.stage.project_id),
-            eq(user_roles.project_id, null as any) // global roles
-          )
-        )
-      );
-
-    if (userRolesList.length === 0) {
-      return { hasPermission: false, reason: "У пользователя нет ролей в этом проекте" };
-    }
-
-    // Check permissions for each role
-    for (const userRole of userRolesList) {
-      const [permission] = await db
-        .select()
-        .from(stage_permissions)
-        .where(
-          and(
-            eq(stage_permissions.role, userRole.role),
-            eq(stage_permissions.stage_type_code, stage.stageType.code)
-          )
-        );
-
-      if (permission) {
-        const permissionField = `can_${action}` as keyof typeof permission;
-        if (permission[permissionField]) {
-          return { hasPermission: true };
-        }
-      }
-    }
-
     return { hasPermission: false, reason: `Недостаточно прав для действия: ${action}` };
   } catch (error) {
     console.error("Stage permission check error:", error);
@@ -247,15 +218,25 @@ export async function checkStagePermission(
 /**
  * Middleware to check stage permissions
  * Usage: checkStagePermissionMiddleware('write')
+ * Routes of stage records (documents, comments) pass resolveStageId: the stage is taken from the record, a missing record is 404
  */
-export function checkStagePermissionMiddleware(action: StageAction) {
+export function checkStagePermissionMiddleware(
+  action: StageAction,
+  resolveStageId?: (req: Request) => Promise<string | undefined>
+) {
   return async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const userId = req.header("X-User-Id") || req.query.userId as string;
-      const stageId = req.params.stageId || req.body.stageId;
+      const userId = getRequestUserId(req);
+      const stageId = resolveStageId
+        ? await resolveStageId(req)
+        : req.params.stageId || req.body.stageId;
+
+      if (resolveStageId && !stageId) {
+        return res.status(404).json({ error: "Не найдено" });
+      }
 
       if (!userId) {
-        await logAuditAction(userId || 'unknown', action, 'stage', stageId, false, "User ID not provided", req);
+        await logAuditAction(null, action, 'stage', stageId || 'unknown', false, "User ID not provided", req);
         return res.status(401).json({
           error: "Не авторизован",
           message: "User ID not provided"
@@ -270,7 +251,11 @@ export function checkStagePermissionMiddleware(action: StageAction) {
         });
       }
 
-      const { hasPermission, reason } = await checkStagePermission(userId, stageId, action);
+      const { hasPermission, reason, notFound } = await checkStagePermission(userId, stageId, action);
+
+      if (notFound) {
+        return res.status(404).json({ error: "Этап не найден" });
+      }
 
       if (!hasPermission) {
         await logAuditAction(userId, action, 'stage', stageId, false, reason, req);
@@ -296,11 +281,11 @@ export function checkStagePermissionMiddleware(action: StageAction) {
 }
 
 /**
- * Log audit action
+ * Log audit action (userId is null when the request has no known user)
  */
-async function logAuditAction(
-  userId: string,
-  action: StageAction,
+export async function logAuditAction(
+  userId: string | null,
+  action: string,
   entityType: string,
   entityId: string,
   success: boolean,
@@ -310,6 +295,7 @@ async function logAuditAction(
   try {
     await db.insert(action_audit_log).values({
       user_id: userId,
+      api_key_id: getRequestApiKeyId(req) || null,
       action,
       entity_type: entityType,
       entity_id: entityId,
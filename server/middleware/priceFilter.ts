@@ -1,16 +1,45 @@
 import { Response, NextFunction } from 'express';
 import { AuthenticatedRequest } from './auth';
 import { permissionsService } from '../modules/permissions/service';
+import { getPriceFields, type PriceFieldSet } from '@shared/priceFields';
+
+export interface PriceRouteModule {
+  module: string;
+  paths: string[];
+}
+
+/**
+ * Parses a JSON text column, hides the given keys inside it and serializes it back.
+ * Values that are not JSON objects are returned untouched.
+ */
+function redactJsonColumn(value: unknown, keys: Set<string>): unknown {
+  const nested: PriceFieldSet = { fields: keys, json: new Map() };
+
+  if (typeof value !== 'string') {
+    return redactPriceFields(value, nested);
+  }
+
+  try {
+    const parsed = JSON.parse(value);
+    if (!parsed || typeof parsed !== 'object') return value;
+    return JSON.stringify(redactPriceFields(parsed, nested));
+  } catch {
+    return value;
+  }
+}
 
 /**
- * Recursively removes price-related fields from an object
+ * Recursively sets the given monetary fields to null.
+ * Only exact field names from the registry in @shared/priceFields are touched,
+ * so the response keeps its shape and non-price fields (total_items etc.) stay intact.
  */
-function removePriceFields(obj: any): any {
+export function redactPriceFields<T>(obj: T, priceFields: PriceFieldSet): T {
   if (obj === null || obj === undefined) return obj;
+  if (priceFields.fields.size === 0 && priceFields.json.size === 0) return obj;
 
   // If it's an array, process each element
   if (Array.isArray(obj)) {
-    return obj.map(item => removePriceFields(item));
+    return obj.map(item => redactPriceFields(item, priceFields)) as T;
   }
 
   // If it's not an object, return as is
@@ -19,32 +48,21 @@ function removePriceFields(obj: any): any {
   // If it's a Date object, return as is (Date has typeof 'object')
   if (obj instanceof Date) return obj;
 
-  // Create a new object without price fields
   const filtered: any = {};
 
-  const priceFields = [
-    'price', 'cost', 'amount', 'total', 'subtotal', 'sum',
-    'budget', 'margin', 'profit', 'revenue', 'expense',
-    'payment', 'balance', 'discount', 'tax', 'vat',
-    'price_per_unit', 'total_amount', 'total_cost',
-    'total_price', 'product_price', 'service_price',
-    'deal_amount', 'project_budget', 'item_price',
-    'wholesale_price', 'retail_price', 'purchase_price'
-  ];
-
   for (const key in obj) {
-    // Skip price-related fields
-    const lowerKey = key.toLowerCase();
-    const shouldHide = priceFields.some(field => lowerKey.includes(field));
-
-    if (shouldHide) {
-      // Replace with placeholder text
-      filtered[key] = '***';
-    } else if (typeof obj[key] === 'object') {
+    const value = (obj as any)[key];
+    const jsonKeys = priceFields.json.get(key);
+
+    if (priceFields.fields.has(key)) {
+      filtered[key] = null;
+    } else if (jsonKeys && value !== null && value !== undefined) {
+      filtered[key] = redactJsonColumn(value, jsonKeys);
+    } else if (typeof value === 'object') {
       // Recursively filter nested objects
-      filtered[key] = removePriceFields(obj[key]);
+      filtered[key] = redactPriceFields(value, priceFields);
     } else {
-      filtered[key] = obj[key];
+      filtered[key] = value;
     }
   }
 
@@ -52,68 +70,47 @@ function removePriceFields(obj: any): any {
 }
 
 /**
- * Middleware to filter prices from responses based on user permissions
+ * Modules that own the request path; empty for routes without a module of their own
  */
-export function priceFilterMiddleware(module: string = 'global') {
-  return async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
-    if (!req.user) {
-      return next();
-    }
-
-    try {
-      // Check if prices should be hidden for this user and module
-      const shouldHidePrices = await permissionsService.shouldHidePrices(req.user.id, module);
-
-      // Also check if prices should be hidden globally
-      const shouldHidePricesGlobal = await permissionsService.shouldHidePricesAny(req.user.id);
-
-      if (shouldHidePrices || shouldHidePricesGlobal) {
-        // Store original json method
-        const originalJson = res.json;
+function getRouteModules(routes: PriceRouteModule[], path: string): string[] {
+  return routes
+    .filter(({ paths }) => paths.some(prefix => path === prefix || path.startsWith(`${prefix}/`)))
+    .map(({ module }) => module);
+}
 
-        // Override json method to filter prices
-        res.json = function(data: any) {
-          // Filter out price fields from the response
-          const filteredData = removePriceFields(data);
+/**
+ * Wraps res.json so that every JSON response is redacted
+ */
+function applyRedaction(res: Response, priceFields: PriceFieldSet) {
+  if (priceFields.fields.size === 0 && priceFields.json.size === 0) return;
 
-          // Call original json method with filtered data
-          return originalJson.call(this, filteredData);
-        };
-      }
+  // Store original json method
+  const originalJson = res.json;
 
-      next();
-    } catch (error) {
-      console.error('Error in price filter middleware:', error);
-      next();
-    }
+  res.json = function(data: any) {
+    return originalJson.call(this, redactPriceFields(data, priceFields));
   };
 }
 
 /**
- * Global price filter that checks all modules
+ * Global price filter: hides the monetary fields of the modules where the user has hide_prices.
+ * A module's fields are hidden only in responses of that module's routes; routes without
+ * a module of their own (dashboard, search, assistant) hide the fields of every such module.
  */
-export function globalPriceFilter() {
+export function globalPriceFilter(routes: PriceRouteModule[]) {
   return async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     if (!req.user) {
       return next();
     }
 
     try {
-      // Check if prices should be hidden for any module
-      const shouldHidePrices = await permissionsService.shouldHidePricesAny(req.user.id);
-
-      if (shouldHidePrices) {
-        // Store original json method
-        const originalJson = res.json;
-
-        // Override json method to filter prices
-        res.json = function(data: any) {
-          // Filter out price fields from the response
-          const filteredData = removePriceFields(data);
-
-          // Call original json method with filtered data
-          return originalJson.call(this, filteredData);
-        };
+      const hiddenModules = await permissionsService.getHiddenPriceModules(req.user.id);
+      if (hiddenModules.length > 0) {
+        const routeModules = getRouteModules(routes, `${req.baseUrl}${req.path}`);
+        const modules = routeModules.length > 0
+          ? hiddenModules.filter(module => routeModules.includes(module))
+          : hiddenModules;
+        applyRedaction(res, getPriceFields(modules));
       }
 
       next();
@@ -122,4 +119,4 @@ export function globalPriceFilter() {
       next();
     }
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,50 @@
+import type { Request, Response, NextFunction } from "express";
+import { getRequestUserId } from "./auth";
+import { rateLimitService } from "../modules/rate-limit/service";
+import type { RateLimitGroup } from "../modules/rate-limit/service";
+
+/**
+ * The session user, or for the login step (no session yet) the username that is being tried
+ */
+function getSubjectUser(req: Request, group: RateLimitGroup): string | undefined {
+  const userId = getRequestUserId(req);
+  if (userId) return userId;
+
+  const username = req.body?.username;
+  return group === "login" && typeof username === "string" && username.trim()
+    ? `username:${username.trim().toLowerCase()}`
+    : undefined;
+}
+
+/**
+ * Limits the request rate of a route group (see RATE_LIMIT_RULES) and the daily quota of paid operations.
+ * Rejected requests get 429 with Retry-After. If the counter store fails the request is let through.
+ */
+export function rateLimit(group: RateLimitGroup) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const result = await rateLimitService.check(group, {
+        ip: req.ip || req.socket.remoteAddress || null,
+        user: getSubjectUser(req, group),
+      });
+
+      if (!result.allowed) {
+        res.setHeader("Retry-After", String(result.retryAfterSeconds));
+        return res.status(429).json(result.reason === "quota"
+          ? {
+              error: `Дневной лимит исчерпан (${result.limit} в день), попробуйте завтра`,
+              code: "DAILY_QUOTA_EXCEEDED",
+              retry_after: result.retryAfterSeconds,
+            }
+          : {
+              error: `Слишком много запросов, повторите через ${result.retryAfterSeconds} сек.`,
+              code: "RATE_LIMITED",
+              retry_after: result.retryAfterSeconds,
+            });
+      }
+    } catch (error) {
+      console.error("Rate limit check failed:", error);
+    }
+    next();
+  };
+}
@@ -3,15 +3,23 @@ import { aiService } from "./service";
 import { aiRepository } from "./repository";
 import { insertAiCorrectionSchema, insertMaterialPriceSchema } from "@shared/schema";
 import { fromZodError } from "zod-validation-error";
+import { getRequestUserId } from "../../middleware/auth";
+import { rateLimit } from "../../middleware/rateLimit";
 
 const router = Router();
 
-router.post("/api/ai/chat", async (req, res) => {
+router.post("/api/ai/chat", rateLimit("ai"), async (req, res) => {
   try {
-    const { dealId, userId, message } = req.body;
-    
-    if (!dealId || !userId || !message) {
-      res.status(400).json({ error: "dealId, userId, and message are required" });
+    const { dealId, message } = req.body;
+    const userId = getRequestUserId(req);
+
+    if (!userId) {
+      res.status(401).json({ error: "User not authenticated" });
+      return;
+    }
+
+    if (!dealId || !message) {
+      res.status(400).json({ error: "dealId and message are required" });
       return;
     }
 
@@ -23,12 +31,18 @@ router.post("/api/ai/chat", async (req, res) => {
   }
 });
 
-router.post("/api/ai/analyze", async (req, res) => {
+router.post("/api/ai/analyze", rateLimit("ai"), async (req, res) => {
   try {
-    const { dealId, userId, base64Pdf, message } = req.body;
-    
-    if (!dealId || !userId || !base64Pdf) {
-      res.status(400).json({ error: "dealId, userId, and base64Pdf are required" });
+    const { dealId, base64Pdf, message } = req.body;
+    const userId = getRequestUserId(req);
+
+    if (!userId) {
+      res.status(401).json({ error: "User not authenticated" });
+      return;
+    }
+
+    if (!dealId || !base64Pdf) {
+      res.status(400).json({ error: "dealId and base64Pdf are required" });
       return;
     }
 
@@ -22,6 +22,7 @@ import { RetailCRMAdapter } from './retailcrm.adapter';
 import { YClientsAdapter } from './yclients.adapter';
 import { SabyAdapter } from './saby.adapter';
 import { HubSpotAdapter } from './hubspot.adapter';
+import { secretsService, KNOWN_SECRETS } from '../../secrets/service';
 
 export type AdapterType =
   | 'local'
@@ -36,6 +37,13 @@ export type AdapterType =
 // Singleton для текущего адаптера
 let currentAdapter: CRMAdapter | null = null;
 
+// Токены CRM хранятся в хранилище секретов: при их изменении адаптер пересоздаётся
+secretsService.onChange(name => {
+  if (KNOWN_SECRETS.some(secret => secret.name === name && secret.group === 'crm')) {
+    resetAdapter();
+  }
+});
+
 /**
  * Получить текущий адаптер CRM
  * Создаёт адаптер при первом вызове на основе CRM_TYPE из .env
@@ -58,76 +66,76 @@ export function createAdapter(type: AdapterType): CRMAdapter {
       return new LocalDBAdapter();
 
     case 'bitrix24':
-      if (!process.env.BITRIX24_DOMAIN || !process.env.BITRIX24_WEBHOOK_TOKEN) {
+      if (!process.env.BITRIX24_DOMAIN || !secretsService.get('BITRIX24_WEBHOOK_TOKEN')) {
         console.warn('[CRM Adapter] Bitrix24 credentials not configured, falling back to local');
         return new LocalDBAdapter();
       }
       return new Bitrix24Adapter({
         domain: process.env.BITRIX24_DOMAIN,
         userId: process.env.BITRIX24_USER_ID || '1',
-        webhookToken: process.env.BITRIX24_WEBHOOK_TOKEN,
+        webhookToken: secretsService.get('BITRIX24_WEBHOOK_TOKEN')!,
       });
 
     case 'amocrm':
-      if (!process.env.AMOCRM_SUBDOMAIN || !process.env.AMOCRM_ACCESS_TOKEN) {
+      if (!process.env.AMOCRM_SUBDOMAIN || !secretsService.get('AMOCRM_ACCESS_TOKEN')) {
         console.warn('[CRM Adapter] AmoCRM credentials not configured, falling back to local');
         return new LocalDBAdapter();
       }
       return new AmoCRMAdapter({
         subdomain: process.env.AMOCRM_SUBDOMAIN,
-        accessToken: process.env.AMOCRM_ACCESS_TOKEN,
-        refreshToken: process.env.AMOCRM_REFRESH_TOKEN,
+        accessToken: secretsService.get('AMOCRM_ACCESS_TOKEN')!,
+        refreshToken: secretsService.get('AMOCRM_REFRESH_TOKEN'),
       });
 
     case 'megaplan':
-      if (!process.env.MEGAPLAN_DOMAIN || !process.env.MEGAPLAN_ACCESS_TOKEN) {
+      if (!process.env.MEGAPLAN_DOMAIN || !secretsService.get('MEGAPLAN_ACCESS_TOKEN')) {
         console.warn('[CRM Adapter] Megaplan credentials not configured, falling back to local');
         return new LocalDBAdapter();
       }
       return new MegaplanAdapter({
         domain: process.env.MEGAPLAN_DOMAIN,
-        accessToken: process.env.MEGAPLAN_ACCESS_TOKEN,
+        accessToken: secretsService.get('MEGAPLAN_ACCESS_TOKEN')!,
       });
 
     case 'retailcrm':
-      if (!process.env.RETAILCRM_URL || !process.env.RETAILCRM_API_KEY) {
+      if (!process.env.RETAILCRM_URL || !secretsService.get('RETAILCRM_API_KEY')) {
         console.warn('[CRM Adapter] RetailCRM credentials not configured, falling back to local');
         return new LocalDBAdapter();
       }
       return new RetailCRMAdapter({
         url: process.env.RETAILCRM_URL,
-        apiKey: process.env.RETAILCRM_API_KEY,
+        apiKey: secretsService.get('RETAILCRM_API_KEY')!,
       });
 
     case 'yclients':
-      if (!process.env.YCLIENTS_TOKEN || !process.env.YCLIENTS_COMPANY_ID) {
+      if (!secretsService.get('YCLIENTS_TOKEN') || !process.env.YCLIENTS_COMPANY_ID) {
         console.warn('[CRM Adapter] YClients credentials not configured, falling back to local');
         return new LocalDBAdapter();
       }
       return new YClientsAdapter({
-        token: process.env.YCLIENTS_TOKEN,
+        token: secretsService.get('YCLIENTS_TOKEN')!,
         companyId: process.env.YCLIENTS_COMPANY_ID,
       });
 
     case 'saby':
-      if (!process.env.SABY_URL || !process.env.SABY_LOGIN || !process.env.SABY_PASSWORD) {
+      if (!process.env.SABY_URL || !process.env.SABY_LOGIN || !secretsService.get('SABY_PASSWORD')) {
         console.warn('[CRM Adapter] Saby credentials not configured, falling back to local');
         return new LocalDBAdapter();
       }
       return new SabyAdapter({
         url: process.env.SABY_URL,
         login: process.env.SABY_LOGIN,
-        password: process.env.SABY_PASSWORD,
+        password: secretsService.get('SABY_PASSWORD')!,
         appClientId: process.env.SABY_APP_CLIENT_ID,
       });
 
     case 'hubspot':
-      if (!process.env.HUBSPOT_ACCESS_TOKEN) {
+      if (!secretsService.get('HUBSPOT_ACCESS_TOKEN')) {
         console.warn('[CRM Adapter] HubSpot credentials not configured, falling back to local');
         return new LocalDBAdapter();
       }
       return new HubSpotAdapter({
-        accessToken: process.env.HUBSPOT_ACCESS_TOKEN,
+        accessToken: secretsService.get('HUBSPOT_ACCESS_TOKEN')!,
       });
 
     default:
@@ -155,43 +163,43 @@ export function getAvailableAdapters(): Array<{
     {
       type: 'bitrix24',
       name: 'Bitrix24',
-      configured: !!(process.env.BITRIX24_DOMAIN && process.env.BITRIX24_WEBHOOK_TOKEN),
+      configured: !!(process.env.BITRIX24_DOMAIN && secretsService.get('BITRIX24_WEBHOOK_TOKEN')),
       description: 'Bitrix24 CRM (через Webhook API)'
     },
     {
       type: 'amocrm',
       name: 'AmoCRM',
-      configured: !!(process.env.AMOCRM_SUBDOMAIN && process.env.AMOCRM_ACCESS_TOKEN),
+      configured: !!(process.env.AMOCRM_SUBDOMAIN && secretsService.get('AMOCRM_ACCESS_TOKEN')),
       description: 'AmoCRM (через OAuth API)'
     },
     {
       type: 'megaplan',
       name: 'Мегаплан',
-      configured: !!(process.env.MEGAPLAN_DOMAIN && process.env.MEGAPLAN_ACCESS_TOKEN),
+      configured: !!(process.env.MEGAPLAN_DOMAIN && secretsService.get('MEGAPLAN_ACCESS_TOKEN')),
       description: 'Мегаплан CRM (через REST API v3)'
     },
     {
       type: 'retailcrm',
       name: 'RetailCRM',
-      configured: !!(process.env.RETAILCRM_URL && process.env.RETAILCRM_API_KEY),
+      configured: !!(process.env.RETAILCRM_URL && secretsService.get('RETAILCRM_API_KEY')),
       description: 'RetailCRM для e-commerce'
     },
     {
       type: 'yclients',
       name: 'YClients',
-      configured: !!(process.env.YCLIENTS_TOKEN && process.env.YCLIENTS_COMPANY_ID),
+      configured: !!(secretsService.get('YCLIENTS_TOKEN') && process.env.YCLIENTS_COMPANY_ID),
       description: 'YClients для сферы услуг'
     },
     {
       type: 'saby',
       name: 'Saby (СБИС)',
-      configured: !!(process.env.SABY_URL && process.env.SABY_LOGIN && process.env.SABY_PASSWORD),
+      configured: !!(process.env.SABY_URL && process.env.SABY_LOGIN && secretsService.get('SABY_PASSWORD')),
       description: 'Saby CRM (СБИС)'
     },
     {
       type: 'hubspot',
       name: 'HubSpot',
-      configured: !!process.env.HUBSPOT_ACCESS_TOKEN,
+      configured: !!secretsService.get('HUBSPOT_ACCESS_TOKEN'),
       description: 'HubSpot CRM (международный)'
     },
   ];
@@ -20,9 +20,12 @@ import {
   CreateTaskData,
   TasksNeedingAttention
 } from './types';
-import { db } from '../../../db';
+import { db, withTransaction } from '../../../db';
 import { deals, users, dealStages, warehouse_items, tasks } from '../../../../shared/schema';
 import { eq, or, like, sql, desc, and, lt, gt, lte, gte, inArray, isNull, not } from 'drizzle-orm';
+import { permissionsService } from '../../permissions/service';
+import { salesRepository } from '../../sales/repository';
+import { numberingRepository } from '../../numbering/repository';
 
 export class LocalDBAdapter implements CRMAdapter {
   private PAGE_SIZE = 5;
@@ -41,10 +44,23 @@ export class LocalDBAdapter implements CRMAdapter {
     }
   }
 
+  /**
+   * Менеджер, которым ограничена выборка: пользователь без view_all на модуль "sales" видит только свои сделки
+   */
+  private async getOwnerScope(filters?: SearchFilters): Promise<string | undefined> {
+    const userId = filters?.visibleToUserId;
+    if (!userId) return undefined;
+
+    const canViewAll = await permissionsService.canViewAll(userId, 'sales');
+    return canViewAll ? undefined : userId;
+  }
+
   // ========== СДЕЛКИ ==========
 
   async searchDeals(query: string, page: number = 0, filters?: SearchFilters): Promise<SearchResult<UnifiedDeal>> {
     const offset = page * this.PAGE_SIZE;
+    const ownerId = await this.getOwnerScope(filters);
+    const scopeCondition = ownerId ? eq(deals.manager_id, ownerId) : undefined;
 
     // Если query пустой - возвращаем последние сделки
     if (!query || query.trim() === '') {
@@ -66,13 +82,15 @@ export class LocalDBAdapter implements CRMAdapter {
           updated_at: deals.updated_at,
         })
         .from(deals)
+        .where(scopeCondition)
         .orderBy(desc(deals.created_at))
         .limit(this.PAGE_SIZE)
         .offset(offset);
 
       const countResult = await db
         .select({ count: sql<number>`count(*)` })
-        .from(deals);
+        .from(deals)
+        .where(scopeCondition);
 
       const total = Number(countResult[0]?.count || 0);
       const items = await Promise.all(results.map(d => this.mapDealToUnified(d)));
@@ -110,6 +128,9 @@ export class LocalDBAdapter implements CRMAdapter {
     if (filters?.stage) {
       whereClause = and(whereClause, eq(deals.stage, filters.stage));
     }
+    if (scopeCondition) {
+      whereClause = and(whereClause, scopeCondition);
+    }
 
     // Основной запрос
     const results = await db
@@ -153,7 +174,7 @@ export class LocalDBAdapter implements CRMAdapter {
     };
   }
 
-  async getDealById(id: string): Promise<UnifiedDeal | null> {
+  async getDealById(id: string, filters?: SearchFilters): Promise<UnifiedDeal | null> {
     const result = await db
       .select({
         id: deals.id,
@@ -177,25 +198,39 @@ export class LocalDBAdapter implements CRMAdapter {
 
     if (result.length === 0) return null;
 
+    const ownerId = await this.getOwnerScope(filters);
+    if (ownerId && result[0].manager_id !== ownerId) return null;
+
     return this.mapDealToUnified(result[0]);
   }
 
   async createDeal(data: Partial<UnifiedDeal>): Promise<UnifiedDeal> {
-    const newDeal = await db
-      .insert(deals)
-      .values({
-        client_name: data.clientName || '',
-        contact_phone: data.clientPhone,
-        contact_email: data.clientEmail,
-        company: data.company,
-        amount: data.amount ? String(data.amount) : null,
-        stage: data.stage || 'new',
-        manager_id: data.managerId,
-        deadline: data.deadline,
-        tags: data.tags,
-        production_days_count: data.productionDaysCount,
-      })
-      .returning();
+    const newDeal = await withTransaction(async (tx: any) => {
+      const inserted = await tx
+        .insert(deals)
+        .values({
+          order_number: await numberingRepository.allocate('deal', {}, tx),
+          client_name: data.clientName || '',
+          contact_phone: data.clientPhone,
+          contact_email: data.clientEmail,
+          company: data.company,
+          amount: data.amount ? String(data.amount) : null,
+          stage: data.stage || 'new',
+          manager_id: data.managerId,
+          deadline: data.deadline,
+          tags: data.tags,
+          production_days_count: data.productionDaysCount,
+        })
+        .returning();
+
+      await salesRepository.recordStageChanges(
+        [{ deal_id: inserted[0].id, pipeline_id: inserted[0].pipeline_id, from_stage: null, to_stage: inserted[0].stage }],
+        { source: 'assistant' },
+        tx,
+      );
+
+      return inserted;
+    });
 
     return this.mapDealToUnified(newDeal[0]);
   }
@@ -217,12 +252,22 @@ export class LocalDBAdapter implements CRMAdapter {
     if (data.tags !== undefined) updateData.tags = data.tags;
     if (data.productionDaysCount !== undefined) updateData.production_days_count = data.productionDaysCount;
 
+    const [before] = await db.select({ stage: deals.stage }).from(deals).where(eq(deals.id, id));
+
     const updated = await db
       .update(deals)
       .set(updateData)
       .where(eq(deals.id, id))
       .returning();
 
+    // Смена этапа из ассистента тоже попадает в историю воронки
+    if (updated[0] && before && before.stage !== updated[0].stage) {
+      await salesRepository.recordStageChanges(
+        [{ deal_id: id, pipeline_id: updated[0].pipeline_id, from_stage: before.stage, to_stage: updated[0].stage }],
+        { source: 'assistant' },
+      );
+    }
+
     return this.mapDealToUnified(updated[0]);
   }
 
@@ -230,7 +275,9 @@ export class LocalDBAdapter implements CRMAdapter {
   // В этой ERP нет отдельной таблицы клиентов - они хранятся в сделках
   // Поэтому ищем уникальных клиентов по сделкам
 
-  async searchClients(query: string): Promise<UnifiedClient[]> {
+  async searchClients(query: string, filters?: SearchFilters): Promise<UnifiedClient[]> {
+    const ownerId = await this.getOwnerScope(filters);
+
     // Ищем уникальных клиентов из сделок
     const results = await db
       .select({
@@ -241,11 +288,14 @@ export class LocalDBAdapter implements CRMAdapter {
       })
       .from(deals)
       .where(
-        or(
-          like(deals.client_name, `%${query}%`),
-          like(deals.contact_phone, `%${query}%`),
-          like(deals.contact_email, `%${query}%`),
-          like(deals.company, `%${query}%`)
+        and(
+          or(
+            like(deals.client_name, `%${query}%`),
+            like(deals.contact_phone, `%${query}%`),
+            like(deals.contact_email, `%${query}%`),
+            like(deals.company, `%${query}%`)
+          ),
+          ownerId ? eq(deals.manager_id, ownerId) : undefined
         )
       )
       .limit(10);
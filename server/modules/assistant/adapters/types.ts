@@ -120,6 +120,7 @@ export interface SearchResult<T> {
 
 export interface SearchFilters {
   managerId?: string;
+  visibleToUserId?: string;  // пользователь без view_all видит только свои записи
   stage?: string;
   dateFrom?: Date;
   dateTo?: Date;
@@ -133,12 +134,12 @@ export interface CRMAdapter {
 
   // Сделки
   searchDeals(query: string, page?: number, filters?: SearchFilters): Promise<SearchResult<UnifiedDeal>>;
-  getDealById(id: string): Promise<UnifiedDeal | null>;
+  getDealById(id: string, filters?: SearchFilters): Promise<UnifiedDeal | null>;
   createDeal(data: Partial<UnifiedDeal>): Promise<UnifiedDeal>;
   updateDeal(id: string, data: Partial<UnifiedDeal>): Promise<UnifiedDeal>;
 
   // Клиенты
-  searchClients(query: string): Promise<UnifiedClient[]>;
+  searchClients(query: string, filters?: SearchFilters): Promise<UnifiedClient[]>;
   getClientById(id: string): Promise<UnifiedClient | null>;
 
   // Справочники
@@ -1,16 +1,19 @@
 // API роуты для ассистента
 import { Router } from "express";
 import { assistantService } from "./service";
+import { getRequestUserId } from "../../middleware/auth";
+import { rateLimit } from "../../middleware/rateLimit";
 
 const router = Router();
 
 // Главный эндпоинт чата
-router.post("/api/assistant/chat", async (req, res) => {
+router.post("/api/assistant/chat", rateLimit("ai"), async (req, res) => {
   try {
-    const { userId, message, action, actionData } = req.body;
+    const { message, action, actionData } = req.body;
+    const userId = getRequestUserId(req);
 
     if (!userId) {
-      res.status(400).json({ error: "userId is required" });
+      res.status(401).json({ error: "User not authenticated" });
       return;
     }
 
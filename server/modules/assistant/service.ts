@@ -2,9 +2,9 @@
 // Работает через адаптеры: LocalDB, AmoCRM, Bitrix24, HubSpot и др.
 // LLM вызывается ТОЛЬКО для парсинга сложного текста
 
-import { db } from "../../db";
+import { db, withTransaction } from "../../db";
 import { deals, warehouse_items, deal_contacts, users, dealStages } from "@shared/schema";
-import { like, eq, or, sql, asc } from "drizzle-orm";
+import { like, eq, or, and, sql, asc } from "drizzle-orm";
 import { parseUserMessage, ParsedDealIntent } from "./openrouter";
 import { nanoid } from "nanoid";
 import { getAdapter, UnifiedDeal, UnifiedTask } from "./adapters";
@@ -21,6 +21,10 @@ import {
   fuzzyFindClient,
   ParsedIntent
 } from "./text-utils";
+import { permissionsService } from "../permissions/service";
+import { salesRepository } from "../sales/repository";
+import { stageGateService } from "../sales/service";
+import { numberingRepository } from "../numbering/repository";
 
 // Типы состояний диалога
 type DialogState =
@@ -356,8 +360,10 @@ function parseLocalIntent(text: string, session?: UserSession): { type: string;
   return null;
 }
 
-// Поиск клиентов в базе (без LLM)
-async function searchClients(query: string): Promise<any[]> {
+// Поиск клиентов в базе (без LLM), пользователь без view_all видит только клиентов своих сделок
+async function searchClients(userId: string, query: string): Promise<any[]> {
+  const canViewAll = await permissionsService.canViewAll(userId, 'sales');
+
   // Ищем по имени в сделках (client_name)
   const results = await db
     .select({
@@ -367,9 +373,12 @@ async function searchClients(query: string): Promise<any[]> {
     })
     .from(deals)
     .where(
-      or(
-        like(deals.client_name, `%${query}%`),
-        like(deals.contact_phone, `%${query}%`)
+      and(
+        or(
+          like(deals.client_name, `%${query}%`),
+          like(deals.contact_phone, `%${query}%`)
+        ),
+        canViewAll ? undefined : eq(deals.manager_id, userId)
       )
     )
     .limit(5);
@@ -408,9 +417,9 @@ async function searchProducts(query: string): Promise<any[]> {
 }
 
 // ChatCRM: Поиск сделок через адаптер
-async function searchDeals(query: string, page: number = 0, managerId?: string): Promise<{ deals: any[], total: number }> {
+async function searchDeals(userId: string, query: string, page: number = 0, managerId?: string): Promise<{ deals: any[], total: number }> {
   const adapter = getAdapter();
-  const result = await adapter.searchDeals(query, page, managerId ? { managerId } : undefined);
+  const result = await adapter.searchDeals(query, page, { managerId, visibleToUserId: userId });
 
   // Преобразуем UnifiedDeal обратно в формат совместимый со старым кодом
   const deals = result.items.map(d => ({
@@ -435,9 +444,9 @@ async function searchDeals(query: string, page: number = 0, managerId?: string):
 }
 
 // ChatCRM: Получить сделку по ID через адаптер
-async function getDealById(id: string): Promise<CurrentDeal | null> {
+async function getDealById(userId: string, id: string): Promise<CurrentDeal | null> {
   const adapter = getAdapter();
-  const deal = await adapter.getDealById(id);
+  const deal = await adapter.getDealById(id, { visibleToUserId: userId });
 
   if (!deal) return null;
 
@@ -635,37 +644,38 @@ async function createDeal(data: {
   note?: string;
   userId: string;
 }): Promise<any> {
-  // Получаем следующий номер заказа
-  const allDeals = await db.select({ order_number: deals.order_number }).from(deals);
-  const allNumbers = allDeals
-    .map(d => d.order_number)
-    .filter(n => n && !isNaN(parseInt(n)))
-    .map(n => parseInt(n!))
-    .filter(n => !isNaN(n));
-  const maxNumber = allNumbers.length > 0 ? Math.max(...allNumbers, 268) : 268;
-  const orderNumber = String(maxNumber + 1);
-
   // Формируем заметку с товаром и количеством
   let notes = data.note || '';
   if (data.productName) {
     notes = `Товар: ${data.productName}` + (data.quantity ? ` x ${data.quantity} шт` : '') + (notes ? `\n${notes}` : '');
   }
 
-  const newDeal = await db.insert(deals).values({
-    id: nanoid(),
-    order_number: orderNumber,
-    client_name: data.clientName,
-    client_phone: data.clientPhone || null,
-    status: 'new',
-    stage: data.stage || 'new',
-    pipeline_id: null,
-    stage_id: null,
-    manager_id: data.userId,
-    total_amount: 0,
-    notes: notes || null,
-  }).returning();
-
-  return newDeal[0];
+  // Номер заказа выдаёт нумератор сделок в той же транзакции
+  return await withTransaction(async (tx: any) => {
+    const orderNumber = await numberingRepository.allocate('deal', {}, tx);
+
+    const newDeal = await tx.insert(deals).values({
+      id: nanoid(),
+      order_number: orderNumber,
+      client_name: data.clientName,
+      client_phone: data.clientPhone || null,
+      status: 'new',
+      stage: data.stage || 'new',
+      pipeline_id: null,
+      stage_id: null,
+      manager_id: data.userId,
+      total_amount: 0,
+      notes: notes || null,
+    }).returning();
+
+    await salesRepository.recordStageChanges(
+      [{ deal_id: newDeal[0].id, pipeline_id: null, from_stage: null, to_stage: newDeal[0].stage }],
+      { source: 'assistant', changedBy: data.userId },
+      tx,
+    );
+
+    return newDeal[0];
+  });
 }
 
 // ========== ОТЧЁТЫ ==========
@@ -682,7 +692,7 @@ async function buildDealReport(userId: string, stageFilter?: string): Promise<As
     const stats: Array<{ stage: string; stageName: string; count: number; totalAmount: number }> = [];
 
     for (const stage of stages) {
-      const result = await adapter.searchDeals('', 0, { stage: stage.key });
+      const result = await adapter.searchDeals('', 0, { stage: stage.key, visibleToUserId: userId });
       const stageDeals = result.items;
       const totalAmount = stageDeals.reduce((sum, d) => sum + (d.amount || 0), 0);
 
@@ -767,7 +777,7 @@ async function buildBulkOperationConfirm(session: UserSession, data: any): Promi
       const adapter = getAdapter();
 
       // Получаем все сделки не в этом этапе
-      const result = await adapter.searchDeals('', 0);
+      const result = await adapter.searchDeals('', 0, { visibleToUserId: session.userId });
       const dealsToChange = result.items.filter(d => d.stage !== targetStage.key);
 
       return {
@@ -1228,10 +1238,10 @@ export async function processMessage(
       case 'search_deal_by_number':
         // Поиск по номеру сделки
         const orderNum = localIntent.data.orderNumber;
-        const searchResult = await searchDeals(orderNum);
+        const searchResult = await searchDeals(userId, orderNum);
         if (searchResult.deals.length === 1) {
           // Нашли одну сделку - показываем её
-          const deal = await getDealById(searchResult.deals[0].id);
+          const deal = await getDealById(userId, searchResult.deals[0].id);
           if (deal) {
             session.currentDeal = deal;
             session.context.lastMentionedDeal = deal.id;
@@ -1326,7 +1336,7 @@ export async function processMessage(
 
       case 'search_deals_by_client':
         // Поиск сделок по имени клиента
-        const clientSearchResult = await searchDeals(localIntent.data.clientName);
+        const clientSearchResult = await searchDeals(userId, localIntent.data.clientName);
         session.searchResults.deals = clientSearchResult.deals;
         session.searchTotal = clientSearchResult.total;
         session.searchPage = 0;
@@ -1400,9 +1410,9 @@ export async function processMessage(
 
       case 'edit_deal_by_number':
         // Редактирование сделки по номеру
-        const editSearchResult = await searchDeals(localIntent.data.orderNumber);
+        const editSearchResult = await searchDeals(userId, localIntent.data.orderNumber);
         if (editSearchResult.deals.length === 1) {
-          const dealToEdit = await getDealById(editSearchResult.deals[0].id);
+          const dealToEdit = await getDealById(userId, editSearchResult.deals[0].id);
           if (dealToEdit) {
             session.currentDeal = dealToEdit;
             session.context.lastMentionedDeal = dealToEdit.id;
@@ -1567,7 +1577,7 @@ export async function processMessage(
 
         if (parsed.client_name) {
           // Ищем клиента в базе
-          const clients = await searchClients(parsed.client_name);
+          const clients = await searchClients(userId, parsed.client_name);
           if (clients.length > 0) {
             session.searchResults.clients = clients;
             session.state = 'deal_client_confirm';
@@ -1639,7 +1649,7 @@ export async function processMessage(
     case 'deal_search':
       // Пользователь вводит поисковый запрос
       if (text.trim()) {
-        const searchRes = await searchDeals(text.trim());
+        const searchRes = await searchDeals(userId, text.trim());
         session.searchResults.deals = searchRes.deals;
         session.searchTotal = searchRes.total;
         session.searchPage = 0;
@@ -1833,7 +1843,7 @@ function handleModeSelect(session: UserSession, text: string): AssistantResponse
 // Обработка ввода клиента
 async function handleClientInput(session: UserSession, text: string): Promise<AssistantResponse> {
   // Ищем клиента в базе
-  const clients = await searchClients(text);
+  const clients = await searchClients(session.userId, text);
 
   if (clients.length > 0) {
     session.searchResults.clients = clients;
@@ -2312,7 +2322,7 @@ async function handleAction(userId: string, action: string, text: string): Promi
 
     case 'my_deals':
       // Поиск сделок текущего пользователя
-      const myDealsResult = await searchDeals('', 0, userId);
+      const myDealsResult = await searchDeals(userId, '', 0, userId);
       session.searchResults.deals = myDealsResult.deals;
       session.searchTotal = myDealsResult.total;
       session.searchPage = 0;
@@ -2321,7 +2331,7 @@ async function handleAction(userId: string, action: string, text: string): Promi
 
     case 'all_deals':
       // Показать все сделки (последние)
-      const allDealsResult = await searchDeals('', 0);
+      const allDealsResult = await searchDeals(userId, '', 0);
       session.searchResults.deals = allDealsResult.deals;
       session.searchTotal = allDealsResult.total;
       session.searchPage = 0;
@@ -2332,7 +2342,7 @@ async function handleAction(userId: string, action: string, text: string): Promi
       // Выбор сделки из списка результатов
       try {
         const selectData = JSON.parse(text);
-        const selectedDeal = await getDealById(selectData.id);
+        const selectedDeal = await getDealById(userId, selectData.id);
         if (selectedDeal) {
           session.currentDeal = selectedDeal;
           session.context.lastMentionedDeal = selectedDeal.id;
@@ -2351,7 +2361,7 @@ async function handleAction(userId: string, action: string, text: string): Promi
         }
       } catch {
         // Попробуем как ID напрямую
-        const directDeal = await getDealById(text);
+        const directDeal = await getDealById(userId, text);
         if (directDeal) {
           session.currentDeal = directDeal;
           session.context.lastMentionedDeal = directDeal.id;
@@ -2381,13 +2391,13 @@ async function handleAction(userId: string, action: string, text: string): Promi
     case 'deals_next_page':
       session.searchPage++;
       // Загрузить следующую страницу
-      const nextPageResult = await searchDeals(session.context.lastMentionedClient || '', session.searchPage);
+      const nextPageResult = await searchDeals(userId, session.context.lastMentionedClient || '', session.searchPage);
       session.searchResults.deals = nextPageResult.deals;
       return buildDealSearchResults(session);
 
     case 'deals_prev_page':
       session.searchPage = Math.max(0, session.searchPage - 1);
-      const prevPageResult = await searchDeals(session.context.lastMentionedClient || '', session.searchPage);
+      const prevPageResult = await searchDeals(userId, session.context.lastMentionedClient || '', session.searchPage);
       session.searchResults.deals = prevPageResult.deals;
       return buildDealSearchResults(session);
 
@@ -2476,6 +2486,26 @@ async function handleAction(userId: string, action: string, text: string): Promi
           displayValue = valueToSave.toLocaleString('ru-RU');
         }
 
+        // Условия входа в этап действуют и для ассистента, как при массовой смене
+        if (session.editField === 'stage' && valueToSave !== session.currentDeal.stage) {
+          const fullDeal = await salesRepository.getDealById(session.currentDeal.id);
+          const unmet = fullDeal ? await stageGateService.check(fullDeal, valueToSave) : [];
+          if (unmet.length > 0) {
+            session.editField = undefined;
+            session.state = 'deal_view';
+            return {
+              message: `⛔ Этап не изменён — не выполнены условия этапа «${displayValue}»:\n${unmet.map(u => `• ${u.message}`).join('\n')}`,
+              buttons: [
+                { text: '📋 К сделке', action: 'view_current_deal' },
+                { text: '✏️ Изменить другое', action: 'edit_deal_menu' },
+                { text: '🏠 В начало', action: 'home' }
+              ],
+              state: 'deal_view',
+              usedAI: false
+            };
+          }
+        }
+
         // Обновляем в БД
         await updateDeal(session.currentDeal.id, {
           [session.editField]: valueToSave
@@ -2538,7 +2568,7 @@ async function handleAction(userId: string, action: string, text: string): Promi
     case 'view_current_deal':
       if (session.currentDeal) {
         // Перезагрузим данные сделки
-        const refreshedDeal = await getDealById(session.currentDeal.id);
+        const refreshedDeal = await getDealById(userId, session.currentDeal.id);
         if (refreshedDeal) {
           session.currentDeal = refreshedDeal;
           return buildDealViewMessage(refreshedDeal);
@@ -2608,14 +2638,25 @@ async function handleAction(userId: string, action: string, text: string): Promi
 
         // Получаем все сделки и меняем их этап
         const adapter = getAdapter();
-        const allDealsRes = await adapter.searchDeals('', 0);
+        const allDealsRes = await adapter.searchDeals('', 0, { visibleToUserId: userId });
         let changedCount = 0;
+        // Условия входа в этап действуют и для ассистента: такие сделки остаются на месте
+        const blocked: string[] = [];
 
         for (const deal of allDealsRes.items) {
-          if (deal.stage !== targetStage) {
-            await adapter.updateDeal(deal.id, { stage: targetStage });
-            changedCount++;
+          if (deal.stage === targetStage) continue;
+
+          const fullDeal = await salesRepository.getDealById(deal.id);
+          if (!fullDeal) continue;
+
+          const unmet = await stageGateService.check(fullDeal, targetStage);
+          if (unmet.length > 0) {
+            blocked.push(`#${fullDeal.order_number || fullDeal.id.slice(0, 6)} ${fullDeal.client_name}: ${unmet.map(u => u.message).join('; ')}`);
+            continue;
           }
+
+          await adapter.updateDeal(deal.id, { stage: targetStage });
+          changedCount++;
         }
 
         // Получаем название этапа
@@ -2624,8 +2665,12 @@ async function handleAction(userId: string, action: string, text: string): Promi
 
         contextMemory.recordAction(userId, 'bulk_change_stage', `${changedCount} deals`);
 
+        const blockedText = blocked.length > 0
+          ? `\n\n⛔ Не перенесено (${blocked.length}) — не выполнены условия этапа:\n${blocked.slice(0, 10).join('\n')}${blocked.length > 10 ? `\n...и ещё ${blocked.length - 10}` : ''}`
+          : '';
+
         return {
-          message: `✅ Массовое изменение выполнено!\n\n📊 Этап: ${targetStageName}\n📦 Изменено сделок: ${changedCount}`,
+          message: `✅ Массовое изменение выполнено!\n\n📊 Этап: ${targetStageName}\n📦 Изменено сделок: ${changedCount}${blockedText}`,
           buttons: [
             { text: '📊 Отчёт', action: 'report_deals', data: {} },
             { text: '📋 Все сделки', action: 'all_deals', data: {} },
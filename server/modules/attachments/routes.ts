@@ -1,4 +1,5 @@
 import { Router } from "express";
+import type { Response } from "express";
 import multer from "multer";
 import fs from "fs";
 import path from "path";
@@ -13,6 +14,10 @@ import { localFileStorage } from "../../localFileStorage";
 import { activityLogsRepository } from "../tasks/repository";
 import { generatePdfPreview, getCachedPreviewPath } from "../../services/pdfPreviewService";
 import { generateXlsxPreview, getCachedXlsxPreviewPath } from "../../services/xlsxPreviewService";
+import { authenticate, getRequestUserId, getRequestUserRole } from "../../middleware/auth";
+import { fileAccessService, SHARE_LINK_DEFAULT_MINUTES, SHARE_LINK_MAX_MINUTES } from "../file-access/service";
+import { fileAccessRepository } from "../file-access/repository";
+import type { UniversalAttachment } from "./repository";
 
 export const router = Router();
 
@@ -24,6 +29,50 @@ const upload = multer({
   },
 });
 
+/**
+ * Checks the attachment against the permissions of its deal / project / task
+ */
+async function canReadAttachment(userId: string | undefined, attachment: UniversalAttachment): Promise<boolean> {
+  const owner = await fileAccessRepository.getAttachmentOwner(attachment);
+  return owner ? fileAccessService.canRead(userId, owner) : !!userId;
+}
+
+/**
+ * Streams the attachment as a download with its original file name
+ */
+async function sendAttachment(res: Response, attachment: UniversalAttachment) {
+  // Преобразуем URL path (/objects/...) в файловый путь
+  const { exists, filePath } = await localFileStorage.getFile(attachment.file_path);
+
+  if (!exists) {
+    console.log(`[Download] File not found on disk: ${filePath}`);
+    return res.status(404).json({ error: "File not found on disk" });
+  }
+
+  console.log(`[Download] Real file path: ${filePath}`);
+
+  // Получаем размер файла для Content-Length
+  const stat = fs.statSync(filePath);
+
+  // Определяем MIME тип
+  const mimeType = mime.lookup(filePath) || 'application/octet-stream';
+
+  // Устанавливаем заголовки
+  res.setHeader('Content-Type', mimeType);
+  res.setHeader('Content-Length', stat.size);
+  res.setHeader('Content-Disposition', `attachment; filename="${encodeURIComponent(attachment.file_name)}"`);
+
+  // Стримим файл
+  const readStream = fs.createReadStream(filePath);
+  readStream.on('error', (err) => {
+    console.error('[Download] Error reading file:', err);
+    if (!res.headersSent) {
+      res.status(500).json({ error: "Failed to read file" });
+    }
+  });
+  readStream.pipe(res);
+}
+
 // POST /api/objects/upload - direct file upload to local storage
 router.post("/api/objects/upload", (req, res, next) => {
   upload.single("file")(req, res, (err) => {
@@ -42,7 +91,7 @@ router.post("/api/objects/upload", (req, res, next) => {
 }, async (req, res) => {
   try {
     console.log('[Upload] POST /api/objects/upload - Starting upload');
-    const userId = req.headers["x-user-id"] as string;
+    const userId = getRequestUserId(req);
 
     if (!userId) {
       console.log('[Upload] No user ID in headers');
@@ -67,12 +116,13 @@ router.post("/api/objects/upload", (req, res, next) => {
 
     console.log(`✅ [Upload] File saved successfully: ${req.file.originalname} -> ${objectPath}`);
 
-    // Return objectPath for metadata storage
+    // Return objectPath for metadata storage; uploadToken lets the caller attach this file to a record
     const response = {
       objectPath,
       fileName: req.file.originalname,
       fileSize: req.file.size,
-      mimeType: req.file.mimetype
+      mimeType: req.file.mimetype,
+      uploadToken: fileAccessService.createUploadToken(userId, objectPath)
     };
 
     console.log('[Upload] Returning response:', response);
@@ -85,11 +135,19 @@ router.post("/api/objects/upload", (req, res, next) => {
 });
 
 // GET /objects/:objectPath(*) - скачивание файла из локального хранилища
-router.get("/objects/:objectPath(*)", async (req, res) => {
+// /objects is outside /api, so the session is resolved here; the cookie is sent with <img src> and links
+router.get("/objects/:objectPath(*)", authenticate, async (req, res) => {
   try {
-    // Note: No authentication check here to allow direct file access via browser
-    // Files are protected by UUID-based filenames which are hard to guess
-    // Download file from local storage
+    const userId = getRequestUserId(req);
+
+    if (!userId) {
+      return res.status(401).json({ error: "Не авторизован" });
+    }
+
+    if (!(await fileAccessService.canReadObject(userId, req.path))) {
+      return res.status(403).json({ error: "Нет доступа к файлу" });
+    }
+
     await localFileStorage.downloadFile(req.path, res);
   } catch (error) {
     console.error("Error downloading object:", error);
@@ -112,6 +170,10 @@ router.get("/api/attachments/preview/:id", async (req, res) => {
       return res.status(404).json({ error: "Attachment not found" });
     }
 
+    if (!(await canReadAttachment(getRequestUserId(req), attachment))) {
+      return res.status(403).json({ error: "Нет доступа к файлу" });
+    }
+
     console.log(`[Preview] Found attachment: ${attachment.file_name} from ${attachment.source}, path: ${attachment.file_path}`);
 
     // Преобразуем URL path (/objects/...) в файловый путь
@@ -240,39 +302,64 @@ router.get("/api/attachments/download/:id", async (req, res) => {
 
     console.log(`[Download] Found attachment: ${attachment.file_name} from ${attachment.source}, path: ${attachment.file_path}`);
 
-    // Преобразуем URL path (/objects/...) в файловый путь
-    const { exists, filePath } = await localFileStorage.getFile(attachment.file_path);
+    if (!(await canReadAttachment(getRequestUserId(req), attachment))) {
+      return res.status(403).json({ error: "Нет доступа к файлу" });
+    }
 
-    if (!exists) {
-      console.log(`[Download] File not found on disk: ${filePath}`);
-      return res.status(404).json({ error: "File not found on disk" });
+    await sendAttachment(res, attachment);
+  } catch (error) {
+    console.error("Error downloading attachment:", error);
+    res.status(500).json({ error: "Failed to download attachment" });
+  }
+});
+
+// POST /api/attachments/:id/share-link - временная ссылка на скачивание без входа в систему
+router.post("/api/attachments/:id/share-link", async (req, res) => {
+  try {
+    const { id } = req.params;
+    const minutes = req.body?.expires_in_minutes ?? SHARE_LINK_DEFAULT_MINUTES;
+
+    if (!Number.isInteger(minutes) || minutes < 1 || minutes > SHARE_LINK_MAX_MINUTES) {
+      return res.status(400).json({ error: `expires_in_minutes must be an integer from 1 to ${SHARE_LINK_MAX_MINUTES}` });
     }
 
-    console.log(`[Download] Real file path: ${filePath}`);
+    const attachment = await attachmentsRepository.getAnyAttachmentById(id);
 
-    // Получаем размер файла для Content-Length
-    const stat = fs.statSync(filePath);
+    if (!attachment) {
+      return res.status(404).json({ error: "Attachment not found" });
+    }
 
-    // Определяем MIME тип
-    const mimeType = mime.lookup(filePath) || 'application/octet-stream';
+    // Поделиться можно только файлом, который пользователь может скачать сам
+    if (!(await canReadAttachment(getRequestUserId(req), attachment))) {
+      return res.status(403).json({ error: "Нет доступа к файлу" });
+    }
 
-    // Устанавливаем заголовки
-    res.setHeader('Content-Type', mimeType);
-    res.setHeader('Content-Length', stat.size);
-    res.setHeader('Content-Disposition', `attachment; filename="${encodeURIComponent(attachment.file_name)}"`);
+    res.status(201).json(fileAccessService.createShareLink(id, minutes));
+  } catch (error) {
+    console.error("Error creating share link:", error);
+    res.status(500).json({ error: "Failed to create share link" });
+  }
+});
 
-    // Стримим файл
-    const readStream = fs.createReadStream(filePath);
-    readStream.on('error', (err) => {
-      console.error('[Download] Error reading file:', err);
-      if (!res.headersSent) {
-        res.status(500).json({ error: "Failed to read file" });
-      }
-    });
-    readStream.pipe(res);
+// GET /api/shared-files/:id?expires=&signature= - скачивание по временной ссылке (без сессии)
+router.get("/api/shared-files/:id", async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    if (!fileAccessService.verifyShareLink(id, req.query.expires, req.query.signature)) {
+      return res.status(403).json({ error: "Ссылка недействительна или истекла" });
+    }
+
+    const attachment = await attachmentsRepository.getAnyAttachmentById(id);
+
+    if (!attachment) {
+      return res.status(404).json({ error: "Attachment not found" });
+    }
+
+    await sendAttachment(res, attachment);
   } catch (error) {
-    console.error("Error downloading attachment:", error);
-    res.status(500).json({ error: "Failed to download attachment" });
+    console.error("Error downloading shared file:", error);
+    res.status(500).json({ error: "Failed to download file" });
   }
 });
 
@@ -280,7 +367,7 @@ router.get("/api/attachments/download/:id", async (req, res) => {
 router.post("/api/deals/:dealId/attachments", async (req, res) => {
   try {
     const { dealId } = req.params;
-    const userId = req.headers["x-user-id"] as string;
+    const userId = getRequestUserId(req);
 
     if (!userId) {
       return res.status(401).json({ error: "User not authenticated" });
@@ -308,6 +395,12 @@ router.post("/api/deals/:dealId/attachments", async (req, res) => {
       return res.status(400).json({ error: "file_path is required" });
     }
 
+    // Only the caller's own fresh upload may be attached
+    const refusal = await fileAccessService.checkNewAttachmentPath(userId, req.body.file_path, req.body.upload_token);
+    if (refusal) {
+      return res.status(refusal.status).json({ error: refusal.error });
+    }
+
     // Verify file exists in local storage
     const { exists } = await localFileStorage.getFile(req.body.file_path);
     if (!exists) {
@@ -356,7 +449,7 @@ router.get("/api/deals/:dealId/attachments", async (req, res) => {
 router.delete("/api/deals/:dealId/attachments/:id", async (req, res) => {
   try {
     const { dealId, id } = req.params;
-    const userId = req.headers["x-user-id"] as string;
+    const userId = getRequestUserId(req);
     
     if (!userId) {
       return res.status(401).json({ error: "User not authenticated" });
@@ -413,11 +506,8 @@ router.delete("/api/deals/:dealId/attachments/:id", async (req, res) => {
 router.delete("/api/attachments/:id", async (req, res) => {
   try {
     const { id } = req.params;
-    const userId = req.headers["x-user-id"] as string;
-    const userRoleEncoded = req.headers["x-user-role"] as string;
-
-    // Декодируем роль (приходит URL-encoded)
-    const userRole = userRoleEncoded ? decodeURIComponent(userRoleEncoded) : '';
+    const userId = getRequestUserId(req);
+    const userRole = getRequestUserRole(req);
 
     if (!userId) {
       return res.status(401).json({ error: "User not authenticated" });
@@ -523,7 +613,7 @@ router.patch("/api/attachments/:id/financial", async (req, res) => {
   try {
     const { id } = req.params;
     const { is_financial } = req.body;
-    const userId = req.headers["x-user-id"] as string;
+    const userId = getRequestUserId(req);
 
     if (!userId) {
       return res.status(401).json({ error: "User not authenticated" });
@@ -0,0 +1,63 @@
+import { db } from "../../db";
+import { eq, and, gte, lte, desc, sql } from "drizzle-orm";
+import { action_audit_log, users, api_keys } from "@shared/schema";
+import type { InsertActionAuditLog } from "@shared/schema";
+
+export interface AuditLogFilters {
+  userId?: string;
+  entityType?: string;
+  entityId?: string;
+  action?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+export class AuditRepository {
+  async createEntry(data: InsertActionAuditLog): Promise<void> {
+    await db.insert(action_audit_log).values(data);
+  }
+
+  async getEntries(filters: AuditLogFilters): Promise<{ items: any[]; total: number }> {
+    const conditions = [];
+    if (filters.userId) conditions.push(eq(action_audit_log.user_id, filters.userId));
+    if (filters.entityType) conditions.push(eq(action_audit_log.entity_type, filters.entityType));
+    if (filters.entityId) conditions.push(eq(action_audit_log.entity_id, filters.entityId));
+    if (filters.action) conditions.push(eq(action_audit_log.action, filters.action));
+    if (filters.from) conditions.push(gte(action_audit_log.created_at, filters.from));
+    if (filters.to) conditions.push(lte(action_audit_log.created_at, filters.to));
+
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const rows = await db.select({
+      entry: action_audit_log,
+      user_name: users.full_name,
+      username: users.username,
+      api_key_name: api_keys.name,
+    })
+      .from(action_audit_log)
+      .leftJoin(users, eq(action_audit_log.user_id, users.id))
+      .leftJoin(api_keys, eq(action_audit_log.api_key_id, api_keys.id))
+      .where(where)
+      .orderBy(desc(action_audit_log.created_at))
+      .limit(filters.limit ?? 50)
+      .offset(filters.offset ?? 0);
+
+    const [{ count }] = await db.select({ count: sql<number>`count(*)` })
+      .from(action_audit_log)
+      .where(where);
+
+    return {
+      items: rows.map((r: any) => ({
+        ...r.entry,
+        changes: r.entry.changes ? JSON.parse(r.entry.changes) : null,
+        user_name: r.user_name || r.username || null,
+        api_key_name: r.api_key_name || null,
+      })),
+      total: Number(count),
+    };
+  }
+}
+
+export const auditRepository = new AuditRepository();
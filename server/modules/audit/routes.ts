@@ -0,0 +1,77 @@
+import { Router, type Request } from "express";
+import { auditRepository, type AuditLogFilters } from "./repository";
+
+export const router = Router();
+
+// Максимум строк в одной выгрузке
+const EXPORT_LIMIT = 10000;
+
+function parseFilters(req: Request): AuditLogFilters {
+  const { user_id, entity_type, entity_id, action, from, to, limit, offset } = req.query;
+  const str = (value: unknown) => (typeof value === "string" && value ? value : undefined);
+  const date = (value: unknown) => {
+    const parsed = str(value) ? new Date(value as string) : undefined;
+    return parsed && !isNaN(parsed.getTime()) ? parsed : undefined;
+  };
+
+  return {
+    userId: str(user_id),
+    entityType: str(entity_type),
+    entityId: str(entity_id),
+    action: str(action),
+    from: date(from),
+    to: date(to),
+    limit: Math.min(parseInt(str(limit) || "50", 10) || 50, 500),
+    offset: parseInt(str(offset) || "0", 10) || 0,
+  };
+}
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return `"${text.replace(/"/g, '""')}"`;
+}
+
+// GET /api/audit-log - журнал действий с фильтрами по пользователю, сущности и датам
+router.get("/api/audit-log", async (req, res) => {
+  try {
+    const result = await auditRepository.getEntries(parseFilters(req));
+    res.json(result);
+  } catch (error) {
+    console.error("Error fetching audit log:", error);
+    res.status(500).json({ error: "Failed to fetch audit log" });
+  }
+});
+
+// GET /api/audit-log/export - выгрузка журнала в CSV с теми же фильтрами
+router.get("/api/audit-log/export", async (req, res) => {
+  try {
+    const filters = { ...parseFilters(req), limit: EXPORT_LIMIT, offset: 0 };
+    const { items } = await auditRepository.getEntries(filters);
+
+    const header = ["Дата", "Пользователь", "API-ключ", "Действие", "Сущность", "ID", "Успешно", "Запрос", "Изменения", "IP", "User-Agent", "Причина"];
+    const lines = items.map(item => [
+      new Date(item.created_at).toISOString(),
+      item.user_name,
+      item.api_key_name,
+      item.action,
+      item.entity_type,
+      item.entity_id,
+      item.success ? "да" : "нет",
+      item.request_path,
+      item.changes,
+      item.ip_address,
+      item.user_agent,
+      item.reason,
+    ].map(csvCell).join(";"));
+
+    const fileName = `audit_${new Date().toISOString().split("T")[0]}.csv`;
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename="${encodeURIComponent(fileName)}"`);
+    // BOM, чтобы Excel правильно открыл кириллицу
+    res.send("﻿" + [header.map(csvCell).join(";"), ...lines].join("\r\n"));
+  } catch (error) {
+    console.error("Error exporting audit log:", error);
+    res.status(500).json({ error: "Failed to export audit log" });
+  }
+});
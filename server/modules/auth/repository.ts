@@ -0,0 +1,137 @@
+import { db } from "../../db";
+import { eq, and, isNull, gt, ne, desc } from "drizzle-orm";
+import type { InsertUserSession, UserSession, UserWithPassword, UserTwoFactor } from "@shared/schema";
+import { user_sessions, users, user_two_factor } from "@shared/schema";
+
+export type UserSecurityUpdate = Partial<Pick<UserWithPassword,
+  "password" | "must_change_password" | "password_changed_at" | "failed_login_attempts" | "locked_until"
+>>;
+
+export class AuthRepository {
+  async createSession(data: InsertUserSession): Promise<UserSession> {
+    const [session] = await db.insert(user_sessions).values(data).returning();
+    return session;
+  }
+
+  /**
+   * Returns a session that is neither revoked nor expired
+   */
+  async getActiveSessionByTokenHash(tokenHash: string): Promise<UserSession | undefined> {
+    const [session] = await db.select()
+      .from(user_sessions)
+      .where(and(
+        eq(user_sessions.token_hash, tokenHash),
+        isNull(user_sessions.revoked_at),
+        gt(user_sessions.expires_at, new Date())
+      ))
+      .limit(1);
+    return session;
+  }
+
+  /**
+   * Sessions of the user that are neither revoked nor expired, most recently used first
+   */
+  async getActiveUserSessions(userId: string): Promise<UserSession[]> {
+    return await db.select()
+      .from(user_sessions)
+      .where(and(
+        eq(user_sessions.user_id, userId),
+        isNull(user_sessions.revoked_at),
+        gt(user_sessions.expires_at, new Date())
+      ))
+      .orderBy(desc(user_sessions.last_seen_at));
+  }
+
+  async getUserSession(userId: string, sessionId: string): Promise<UserSession | undefined> {
+    const [session] = await db.select()
+      .from(user_sessions)
+      .where(and(eq(user_sessions.id, sessionId), eq(user_sessions.user_id, userId)))
+      .limit(1);
+    return session;
+  }
+
+  async touchSession(sessionId: string, data: { ip_address?: string | null }): Promise<void> {
+    await db.update(user_sessions)
+      .set({ ...data, last_seen_at: new Date() })
+      .where(eq(user_sessions.id, sessionId));
+  }
+
+  async revokeSession(sessionId: string): Promise<void> {
+    await db.update(user_sessions)
+      .set({ revoked_at: new Date() })
+      .where(and(eq(user_sessions.id, sessionId), isNull(user_sessions.revoked_at)));
+  }
+
+  async revokeUserSessions(userId: string): Promise<number> {
+    const result = await db.update(user_sessions)
+      .set({ revoked_at: new Date() })
+      .where(and(eq(user_sessions.user_id, userId), isNull(user_sessions.revoked_at)))
+      .returning();
+    return result.length;
+  }
+
+  /**
+   * Revokes all sessions of the user except the given one (used after a password change)
+   */
+  async revokeOtherUserSessions(userId: string, keepSessionId: string): Promise<number> {
+    const result = await db.update(user_sessions)
+      .set({ revoked_at: new Date() })
+      .where(and(
+        eq(user_sessions.user_id, userId),
+        ne(user_sessions.id, keepSessionId),
+        isNull(user_sessions.revoked_at)
+      ))
+      .returning();
+    return result.length;
+  }
+
+  async getUserById(userId: string): Promise<UserWithPassword | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+    return user;
+  }
+
+  async updateUserSecurity(userId: string, data: UserSecurityUpdate): Promise<UserWithPassword | undefined> {
+    const [user] = await db.update(users)
+      .set({ ...data, updated_at: new Date() })
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+
+  async getTwoFactor(userId: string): Promise<UserTwoFactor | undefined> {
+    const [twoFactor] = await db.select()
+      .from(user_two_factor)
+      .where(eq(user_two_factor.user_id, userId))
+      .limit(1);
+    return twoFactor;
+  }
+
+  /**
+   * Stores a new (not yet confirmed) secret, replacing any previous enrolment
+   */
+  async saveTwoFactorSecret(userId: string, secret: string): Promise<UserTwoFactor> {
+    await this.deleteTwoFactor(userId);
+    const [twoFactor] = await db.insert(user_two_factor)
+      .values({ user_id: userId, secret, enabled: false })
+      .returning();
+    return twoFactor;
+  }
+
+  async updateTwoFactor(
+    userId: string,
+    data: Partial<Pick<UserTwoFactor, "enabled" | "backup_codes" | "last_used_step" | "enabled_at">>
+  ): Promise<void> {
+    await db.update(user_two_factor)
+      .set({ ...data, updated_at: new Date() })
+      .where(eq(user_two_factor.user_id, userId));
+  }
+
+  async deleteTwoFactor(userId: string): Promise<boolean> {
+    const result = await db.delete(user_two_factor)
+      .where(eq(user_two_factor.user_id, userId))
+      .returning();
+    return result.length > 0;
+  }
+}
+
+export const authRepository = new AuthRepository();
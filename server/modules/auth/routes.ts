@@ -3,11 +3,74 @@ import { db } from "../../db";
 import { users, roles, role_permissions } from "@shared/schema";
 import { eq, sql } from "drizzle-orm";
 import bcrypt from "bcryptjs";
+import { authService } from "./service";
+import { authRepository } from "./repository";
+import type { AuthenticatedRequest } from "../../middleware/auth";
+import { logAuditAction } from "../../middleware/permissions";
+import { rateLimit } from "../../middleware/rateLimit";
 
 export const router = Router();
 
+/**
+ * Builds the login/me response: user without password, role and permission flags
+ */
+async function buildAuthPayload(user: typeof users.$inferSelect) {
+  let userRole = null;
+  let permissions: any[] = [];
+
+  if (user.role_id) {
+    const [role] = await db
+      .select()
+      .from(roles)
+      .where(eq(roles.id, user.role_id))
+      .limit(1);
+
+    if (role) {
+      userRole = role;
+
+      // Получить права роли
+      permissions = await db
+        .select()
+        .from(role_permissions)
+        .where(eq(role_permissions.role_id, user.role_id));
+    }
+  }
+
+  const { password: _, failed_login_attempts: __, locked_until: ___, ...userWithoutPassword } = user;
+  const twoFactor = await authRepository.getTwoFactor(user.id);
+  const twoFactorEnabled = !!twoFactor?.enabled;
+
+  // Map permissions to boolean flags for frontend
+  // Support both 'sales' and 'deals' module names for compatibility
+  const salesPerms = permissions.find(p => p.module === 'sales' || p.module === 'deals');
+  const projectsPerms = permissions.find(p => p.module === 'projects');
+
+  return {
+    user: {
+      ...userWithoutPassword,
+      two_factor_enabled: twoFactorEnabled,
+      two_factor_setup_required: !!userRole?.require_2fa && !twoFactorEnabled,
+      can_create_deals: salesPerms?.can_create || false,
+      can_edit_deals: salesPerms?.can_edit || false,
+      can_delete_deals: salesPerms?.can_delete || false,
+      can_view_deals: salesPerms?.can_view || false,
+      can_create_projects: projectsPerms?.can_create || false,
+      can_edit_projects: projectsPerms?.can_edit || false,
+      can_delete_projects: projectsPerms?.can_delete || false,
+      can_view_projects: projectsPerms?.can_view || false,
+    },
+    role: userRole,
+    permissions: permissions,
+  };
+}
+
+function lockedMessage(lockedUntil: Date): string {
+  const time = new Date(lockedUntil).toLocaleTimeString("ru-RU", { hour: "2-digit", minute: "2-digit" });
+  return `Слишком много неудачных попыток входа. Учётная запись заблокирована до ${time}`;
+}
+
 // POST /api/auth/login - Авторизация пользователя
-router.post("/api/auth/login", async (req, res) => {
+router.post("/api/auth/login", rateLimit("login"), async (req, res) => {
   try {
     const { username, password } = req.body;
 
@@ -22,74 +85,284 @@ router.post("/api/auth/login", async (req, res) => {
       .where(sql`LOWER(${users.username}) = LOWER(${username})`)
       .limit(1);
 
-    if (!user) {
+    // Сервисные учётки работают только по API-ключам
+    if (!user || user.is_service_account) {
+      await logAuditAction(null, "login", "user", String(username), false, "Пользователь не найден", req);
       return res.status(401).json({ message: "Неверный логин или пароль" });
     }
 
     // Проверить активен ли пользователь
     if (!user.is_active) {
+      await logAuditAction(user.id, "login", "user", user.id, false, "Пользователь неактивен", req);
       return res.status(403).json({ message: "Пользователь заблокирован" });
     }
 
+    // Временная блокировка после серии неудачных попыток
+    if (authService.isLocked(user)) {
+      await logAuditAction(user.id, "login", "user", user.id, false, "Учётная запись временно заблокирована", req);
+      return res.status(423).json({ message: lockedMessage(user.locked_until!) });
+    }
+
     // Проверить пароль
     const isPasswordValid = await bcrypt.compare(password, user.password);
 
     if (!isPasswordValid) {
+      const lockedUntil = await authService.registerFailedLogin(user, await authService.getPasswordPolicy());
+      await logAuditAction(
+        user.id, "login", "user", user.id, false,
+        lockedUntil ? "Неверный пароль, учётная запись заблокирована" : "Неверный пароль",
+        req
+      );
+
+      if (lockedUntil) {
+        return res.status(423).json({ message: lockedMessage(lockedUntil) });
+      }
       return res.status(401).json({ message: "Неверный логин или пароль" });
     }
 
-    // Получить роль и права пользователя
-    let userRole = null;
-    let permissions: any[] = [];
+    await authService.resetFailedLogins(user);
 
-    if (user.role_id) {
-      const [role] = await db
-        .select()
-        .from(roles)
-        .where(eq(roles.id, user.role_id))
-        .limit(1);
-
-      if (role) {
-        userRole = role;
-
-        // Получить права роли
-        permissions = await db
-          .select()
-          .from(role_permissions)
-          .where(eq(role_permissions.role_id, user.role_id));
-      }
+    // С включённой 2FA сессия выдаётся только после проверки кода (/api/auth/2fa/verify)
+    const twoFactor = await authRepository.getTwoFactor(user.id);
+    if (twoFactor?.enabled) {
+      return res.json({
+        two_factor_required: true,
+        challenge_token: authService.createTwoFactorChallenge(user.id),
+      });
     }
 
-    // Вернуть данные пользователя (без пароля)
-    const { password: _, ...userWithoutPassword } = user;
-
-    // Map permissions to boolean flags for frontend
-    // Support both 'sales' and 'deals' module names for compatibility
-    const salesPerms = permissions.find(p => p.module === 'sales' || p.module === 'deals');
-    const projectsPerms = permissions.find(p => p.module === 'projects');
-
-    res.json({
-      user: {
-        ...userWithoutPassword,
-        can_create_deals: salesPerms?.can_create || false,
-        can_edit_deals: salesPerms?.can_edit || false,
-        can_delete_deals: salesPerms?.can_delete || false,
-        can_view_deals: salesPerms?.can_view || false,
-        can_create_projects: projectsPerms?.can_create || false,
-        can_edit_projects: projectsPerms?.can_edit || false,
-        can_delete_projects: projectsPerms?.can_delete || false,
-        can_view_projects: projectsPerms?.can_view || false,
-      },
-      role: userRole,
-      permissions: permissions,
-    });
+    // Выдать сессию (httpOnly cookie)
+    await authService.issueSession(req, res, user.id);
+
+    res.json(await buildAuthPayload(user));
   } catch (error: any) {
     console.error("Login error:", error);
     res.status(500).json({ message: "Ошибка авторизации" });
   }
 });
 
-// POST /api/auth/logout - Выход из системы (для будущего расширения)
-router.post("/api/auth/logout", async (req, res) => {
-  res.json({ message: "Выход выполнен успешно" });
+// POST /api/auth/2fa/verify - Второй шаг входа: код из приложения или резервный код
+router.post("/api/auth/2fa/verify", rateLimit("login"), async (req, res) => {
+  try {
+    const { challenge_token, code } = req.body;
+
+    if (typeof challenge_token !== "string" || typeof code !== "string" || !code.trim()) {
+      return res.status(400).json({ message: "Требуется код подтверждения" });
+    }
+
+    const userId = authService.readTwoFactorChallenge(challenge_token);
+    const user = userId ? await authRepository.getUserById(userId) : undefined;
+
+    if (!user || !user.is_active) {
+      return res.status(401).json({ message: "Время на ввод кода истекло, войдите снова" });
+    }
+
+    if (authService.isLocked(user)) {
+      await logAuditAction(user.id, "login", "user", user.id, false, "Учётная запись временно заблокирована", req);
+      return res.status(423).json({ message: lockedMessage(user.locked_until!) });
+    }
+
+    if (!(await authService.verifySecondFactor(user.id, code))) {
+      const lockedUntil = await authService.registerFailedLogin(user, await authService.getPasswordPolicy());
+      await logAuditAction(
+        user.id, "login", "user", user.id, false,
+        lockedUntil ? "Неверный код 2FA, учётная запись заблокирована" : "Неверный код 2FA",
+        req
+      );
+
+      if (lockedUntil) {
+        return res.status(423).json({ message: lockedMessage(lockedUntil) });
+      }
+      return res.status(401).json({ message: "Неверный код подтверждения" });
+    }
+
+    await authService.resetFailedLogins(user);
+    await authService.issueSession(req, res, user.id);
+
+    res.json(await buildAuthPayload(user));
+  } catch (error: any) {
+    console.error("2FA verify error:", error);
+    res.status(500).json({ message: "Ошибка авторизации" });
+  }
+});
+
+// GET /api/auth/me - Текущий пользователь по сессии
+router.get("/api/auth/me", async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ message: "Не авторизован" });
+    }
+
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(eq(users.id, req.user.id))
+      .limit(1);
+
+    if (!user) {
+      return res.status(401).json({ message: "Не авторизован" });
+    }
+
+    res.json(await buildAuthPayload(user));
+  } catch (error: any) {
+    console.error("Session check error:", error);
+    res.status(500).json({ message: "Ошибка проверки сессии" });
+  }
+});
+
+// POST /api/auth/logout - Выход из системы (отзыв текущей сессии)
+router.post("/api/auth/logout", async (req: AuthenticatedRequest, res) => {
+  try {
+    if (req.sessionId) {
+      await authService.revokeSession(req.sessionId);
+    }
+    authService.clearSessionCookie(res);
+    res.json({ message: "Выход выполнен успешно" });
+  } catch (error: any) {
+    console.error("Logout error:", error);
+    res.status(500).json({ message: "Ошибка выхода" });
+  }
+});
+
+// POST /api/auth/change-password - Смена собственного пароля
+router.post("/api/auth/change-password", async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ message: "Не авторизован" });
+    }
+
+    const { current_password, new_password } = req.body;
+
+    if (typeof current_password !== "string" || typeof new_password !== "string" || !current_password || !new_password) {
+      return res.status(400).json({ message: "Требуются текущий и новый пароль" });
+    }
+
+    const user = await authRepository.getUserById(req.user.id);
+    if (!user) {
+      return res.status(401).json({ message: "Не авторизован" });
+    }
+
+    if (!(await bcrypt.compare(current_password, user.password))) {
+      await logAuditAction(user.id, "password_change", "user", user.id, false, "Неверный текущий пароль", req);
+      return res.status(400).json({ message: "Неверный текущий пароль" });
+    }
+
+    if (await bcrypt.compare(new_password, user.password)) {
+      return res.status(400).json({ message: "Новый пароль должен отличаться от текущего" });
+    }
+
+    const policyError = authService.validatePassword(new_password, await authService.getPasswordPolicy());
+    if (policyError) {
+      return res.status(400).json({ message: policyError });
+    }
+
+    const updatedUser = await authService.setPassword(user.id, new_password, false);
+
+    // Остальные сессии пользователя завершаются, текущая остаётся
+    if (req.sessionId) {
+      await authRepository.revokeOtherUserSessions(user.id, req.sessionId);
+    }
+    await logAuditAction(user.id, "password_change", "user", user.id, true, undefined, req);
+
+    res.json(await buildAuthPayload(updatedUser!));
+  } catch (error: any) {
+    console.error("Change password error:", error);
+    res.status(500).json({ message: "Ошибка смены пароля" });
+  }
+});
+
+// POST /api/auth/2fa/setup - Начать подключение 2FA: новый секрет и QR-код для приложения
+router.post("/api/auth/2fa/setup", async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ message: "Не авторизован" });
+    }
+
+    const current = await authRepository.getTwoFactor(req.user.id);
+    if (current?.enabled) {
+      return res.status(400).json({ message: "Двухфакторная аутентификация уже подключена" });
+    }
+
+    res.json(await authService.startTwoFactorSetup(req.user.id, req.user.username));
+  } catch (error: any) {
+    console.error("2FA setup error:", error);
+    res.status(500).json({ message: "Ошибка подключения 2FA" });
+  }
+});
+
+// POST /api/auth/2fa/enable - Подтвердить подключение первым кодом, вернуть резервные коды
+router.post("/api/auth/2fa/enable", async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ message: "Не авторизован" });
+    }
+
+    const { code } = req.body;
+    if (typeof code !== "string" || !code.trim()) {
+      return res.status(400).json({ message: "Требуется код подтверждения" });
+    }
+
+    const backupCodes = await authService.enableTwoFactor(req.user.id, code);
+    if (!backupCodes) {
+      return res.status(400).json({ message: "Неверный код подтверждения" });
+    }
+
+    await logAuditAction(req.user.id, "2fa_enable", "user", req.user.id, true, undefined, req);
+    res.json({ backup_codes: backupCodes });
+  } catch (error: any) {
+    console.error("2FA enable error:", error);
+    res.status(500).json({ message: "Ошибка подключения 2FA" });
+  }
+});
+
+// POST /api/auth/2fa/backup-codes - Выпустить новые резервные коды (старые перестают действовать)
+router.post("/api/auth/2fa/backup-codes", async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ message: "Не авторизован" });
+    }
+
+    const { code } = req.body;
+    if (typeof code !== "string" || !(await authService.verifySecondFactor(req.user.id, code))) {
+      return res.status(400).json({ message: "Неверный код подтверждения" });
+    }
+
+    res.json({ backup_codes: await authService.regenerateBackupCodes(req.user.id) });
+  } catch (error: any) {
+    console.error("2FA backup codes error:", error);
+    res.status(500).json({ message: "Ошибка выпуска резервных кодов" });
+  }
+});
+
+// POST /api/auth/2fa/disable - Отключить 2FA (пароль + код), если роль её не требует
+router.post("/api/auth/2fa/disable", async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ message: "Не авторизован" });
+    }
+
+    const { password, code } = req.body;
+    const user = await authRepository.getUserById(req.user.id);
+    if (!user) {
+      return res.status(401).json({ message: "Не авторизован" });
+    }
+
+    if (await authService.isTwoFactorRequired(user.role_id)) {
+      return res.status(403).json({ message: "Для вашей роли двухфакторная аутентификация обязательна" });
+    }
+
+    if (typeof password !== "string" || !(await bcrypt.compare(password, user.password))) {
+      return res.status(400).json({ message: "Неверный пароль" });
+    }
+    if (typeof code !== "string" || !(await authService.verifySecondFactor(user.id, code))) {
+      return res.status(400).json({ message: "Неверный код подтверждения" });
+    }
+
+    await authRepository.deleteTwoFactor(user.id);
+    await logAuditAction(user.id, "2fa_disable", "user", user.id, true, undefined, req);
+    res.json({ message: "Двухфакторная аутентификация отключена" });
+  } catch (error: any) {
+    console.error("2FA disable error:", error);
+    res.status(500).json({ message: "Ошибка отключения 2FA" });
+  }
 });
@@ -0,0 +1,392 @@
+import type { Request, Response } from "express";
+import { createHash, createHmac, randomBytes, randomInt, timingSafeEqual } from "crypto";
+import bcrypt from "bcryptjs";
+import { db } from "../../db";
+import { users, roles, company_settings, user_two_factor } from "@shared/schema";
+import type { UserSession, UserWithPassword } from "@shared/schema";
+import { eq } from "drizzle-orm";
+import QRCode from "qrcode";
+import { authRepository } from "./repository";
+import { generateSecret, verifyCode, buildOtpauthUrl } from "./totp";
+
+export const SESSION_COOKIE_NAME = "emerald_session";
+
+const SESSION_TTL_MS = (parseInt(process.env.SESSION_TTL_DAYS || "", 10) || 30) * 24 * 60 * 60 * 1000;
+// last_seen_at is refreshed at most once per minute to avoid a DB write on every request
+const SESSION_TOUCH_INTERVAL_MS = 60 * 1000;
+
+export interface SessionUser {
+  id: string;
+  username: string;
+  email: string | null;
+  full_name: string | null;
+  role_id: string | null;
+  role_name: string | null;
+  is_active: boolean;
+  must_change_password: boolean;
+  // The role requires 2FA but the user has not enrolled yet
+  two_factor_setup_required: boolean;
+}
+
+export interface PasswordPolicy {
+  min_length: number;
+  require_digit: boolean;
+  require_uppercase: boolean;
+  require_special: boolean;
+  max_attempts: number;
+  lockout_minutes: number;
+}
+
+// Used until company settings are saved for the first time (same as the column defaults)
+const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  min_length: 8,
+  require_digit: true,
+  require_uppercase: false,
+  require_special: false,
+  max_attempts: 5,
+  lockout_minutes: 15,
+};
+
+const BCRYPT_ROUNDS = 10;
+
+// Time between a correct password and the second factor
+const TWO_FACTOR_CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const BACKUP_CODES_COUNT = 10;
+
+export function getSessionSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (secret) return secret;
+
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  return "emerald-erp-dev-secret-key-change-in-production";
+}
+
+function getClientIp(req: Request): string | null {
+  return req.ip || req.socket.remoteAddress || null;
+}
+
+export class AuthService {
+  hashToken(token: string): string {
+    return createHash("sha256").update(token).digest("hex");
+  }
+
+  private sign(token: string): string {
+    const signature = createHmac("sha256", getSessionSecret()).update(token).digest("base64url");
+    return `${token}.${signature}`;
+  }
+
+  private unsign(value: string): string | null {
+    const separator = value.lastIndexOf(".");
+    if (separator <= 0) return null;
+
+    const token = value.slice(0, separator);
+    const expected = Buffer.from(this.sign(token));
+    const actual = Buffer.from(value);
+
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      return null;
+    }
+    return token;
+  }
+
+  /**
+   * Extracts and verifies the session token from the Cookie header
+   */
+  readSessionToken(req: Request): string | null {
+    const header = req.headers.cookie;
+    if (!header) return null;
+
+    for (const part of header.split(";")) {
+      const [name, ...rest] = part.trim().split("=");
+      if (name === SESSION_COOKIE_NAME) {
+        try {
+          return this.unsign(decodeURIComponent(rest.join("=")));
+        } catch {
+          return null;
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Creates a new session for the user and sets the signed httpOnly cookie
+   */
+  async issueSession(req: Request, res: Response, userId: string): Promise<UserSession> {
+    const token = randomBytes(32).toString("base64url");
+    const session = await authRepository.createSession({
+      user_id: userId,
+      token_hash: this.hashToken(token),
+      ip_address: getClientIp(req),
+      user_agent: req.get("user-agent") || null,
+      expires_at: new Date(Date.now() + SESSION_TTL_MS),
+      last_seen_at: new Date(),
+    });
+
+    res.cookie(SESSION_COOKIE_NAME, this.sign(token), {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: SESSION_TTL_MS,
+      path: "/",
+    });
+
+    return session;
+  }
+
+  /**
+   * Resolves the active session and its user from the request cookie.
+   * Returns null for missing, forged, expired or revoked sessions and inactive users.
+   */
+  async resolveSession(req: Request): Promise<{ session: UserSession; user: SessionUser } | null> {
+    const token = this.readSessionToken(req);
+    if (!token) return null;
+
+    const session = await authRepository.getActiveSessionByTokenHash(this.hashToken(token));
+    if (!session) return null;
+
+    const [user] = await db.select({
+      id: users.id,
+      username: users.username,
+      email: users.email,
+      full_name: users.full_name,
+      role_id: users.role_id,
+      role_name: roles.name,
+      is_active: users.is_active,
+      must_change_password: users.must_change_password,
+      role_require_2fa: roles.require_2fa,
+      two_factor_enabled: user_two_factor.enabled,
+    })
+      .from(users)
+      .leftJoin(roles, eq(users.role_id, roles.id))
+      .leftJoin(user_two_factor, eq(user_two_factor.user_id, users.id))
+      .where(eq(users.id, session.user_id));
+
+    if (!user || !user.is_active) return null;
+
+    const lastSeen = new Date(session.last_seen_at).getTime();
+    if (Date.now() - lastSeen > SESSION_TOUCH_INTERVAL_MS) {
+      await authRepository.touchSession(session.id, { ip_address: getClientIp(req) });
+    }
+
+    const { role_require_2fa, two_factor_enabled, ...sessionUser } = user;
+    return {
+      session,
+      user: { ...sessionUser, two_factor_setup_required: !!role_require_2fa && !two_factor_enabled },
+    };
+  }
+
+  async revokeSession(sessionId: string): Promise<void> {
+    await authRepository.revokeSession(sessionId);
+  }
+
+  async getPasswordPolicy(): Promise<PasswordPolicy> {
+    const [settings] = await db.select().from(company_settings).limit(1);
+    if (!settings) return DEFAULT_PASSWORD_POLICY;
+
+    return {
+      min_length: settings.password_min_length,
+      require_digit: settings.password_require_digit,
+      require_uppercase: settings.password_require_uppercase,
+      require_special: settings.password_require_special,
+      max_attempts: settings.login_max_attempts,
+      lockout_minutes: settings.login_lockout_minutes,
+    };
+  }
+
+  /**
+   * Checks the password against the policy. Returns an error message or null if it is acceptable.
+   */
+  validatePassword(password: string, policy: PasswordPolicy): string | null {
+    if (password.length < policy.min_length) {
+      return `Пароль должен содержать не менее ${policy.min_length} символов`;
+    }
+    if (policy.require_digit && !/\d/.test(password)) {
+      return "Пароль должен содержать хотя бы одну цифру";
+    }
+    if (policy.require_uppercase && !(/[A-ZА-ЯЁ]/.test(password) && /[a-zа-яё]/.test(password))) {
+      return "Пароль должен содержать строчные и заглавные буквы";
+    }
+    if (policy.require_special && !/[^A-Za-zА-Яа-яЁё\d]/.test(password)) {
+      return "Пароль должен содержать хотя бы один спецсимвол";
+    }
+    return null;
+  }
+
+  /**
+   * Generates a temporary password that satisfies the policy
+   */
+  generateTemporaryPassword(policy: PasswordPolicy): string {
+    const lower = "abcdefghijkmnpqrstuvwxyz";
+    const upper = "ABCDEFGHJKLMNPQRSTUVWXYZ";
+    const digits = "23456789";
+    const special = "!@#$%&*?";
+    const pick = (chars: string) => chars[randomInt(chars.length)];
+
+    const required = [pick(upper), pick(digits)];
+    if (policy.require_special) required.push(pick(special));
+
+    const all = lower + upper + digits;
+    const length = Math.max(policy.min_length, 12);
+    const chars = Array.from({ length: length - required.length }, () => pick(all));
+
+    for (const char of required) {
+      chars.splice(randomInt(chars.length + 1), 0, char);
+    }
+    return chars.join("");
+  }
+
+  /**
+   * Sets a new password hash. mustChange forces the user to pick a new one after the next login.
+   */
+  async setPassword(userId: string, password: string, mustChange: boolean): Promise<UserWithPassword | undefined> {
+    return authRepository.updateUserSecurity(userId, {
+      password: await bcrypt.hash(password, BCRYPT_ROUNDS),
+      must_change_password: mustChange,
+      password_changed_at: new Date(),
+      failed_login_attempts: 0,
+      locked_until: null,
+    });
+  }
+
+  isLocked(user: UserWithPassword): boolean {
+    return !!user.locked_until && new Date(user.locked_until).getTime() > Date.now();
+  }
+
+  /**
+   * Counts a failed login; after policy.max_attempts in a row the account is locked for policy.lockout_minutes.
+   * Returns the lock expiry if the account got locked by this attempt.
+   */
+  async registerFailedLogin(user: UserWithPassword, policy: PasswordPolicy): Promise<Date | null> {
+    const attempts = user.failed_login_attempts + 1;
+
+    if (policy.max_attempts > 0 && attempts >= policy.max_attempts) {
+      const lockedUntil = new Date(Date.now() + policy.lockout_minutes * 60 * 1000);
+      await authRepository.updateUserSecurity(user.id, { failed_login_attempts: 0, locked_until: lockedUntil });
+      return lockedUntil;
+    }
+
+    await authRepository.updateUserSecurity(user.id, { failed_login_attempts: attempts });
+    return null;
+  }
+
+  async resetFailedLogins(user: UserWithPassword): Promise<void> {
+    if (user.failed_login_attempts > 0 || user.locked_until) {
+      await authRepository.updateUserSecurity(user.id, { failed_login_attempts: 0, locked_until: null });
+    }
+  }
+
+  async isTwoFactorRequired(roleId: string | null): Promise<boolean> {
+    if (!roleId) return false;
+    const [role] = await db.select({ require_2fa: roles.require_2fa }).from(roles).where(eq(roles.id, roleId));
+    return !!role?.require_2fa;
+  }
+
+  /**
+   * Signed short-lived token that links the password step of the login to the second factor step
+   */
+  createTwoFactorChallenge(userId: string): string {
+    const payload = Buffer.from(`${userId}:${Date.now() + TWO_FACTOR_CHALLENGE_TTL_MS}`).toString("base64url");
+    return this.sign(payload);
+  }
+
+  readTwoFactorChallenge(challenge: string): string | null {
+    const payload = this.unsign(challenge);
+    if (!payload) return null;
+
+    const [userId, expires] = Buffer.from(payload, "base64url").toString().split(":");
+    if (!userId || !(Number(expires) > Date.now())) return null;
+    return userId;
+  }
+
+  /**
+   * Generates a new secret for enrolment. The secret only becomes active after enableTwoFactor.
+   */
+  async startTwoFactorSetup(userId: string, accountName: string) {
+    const secret = generateSecret();
+    await authRepository.saveTwoFactorSecret(userId, secret);
+
+    const otpauthUrl = buildOtpauthUrl(secret, accountName);
+    return {
+      secret,
+      otpauth_url: otpauthUrl,
+      qr_code: await QRCode.toDataURL(otpauthUrl),
+    };
+  }
+
+  /**
+   * Confirms enrolment with the first code from the app. Returns the backup codes or null if the code is wrong.
+   */
+  async enableTwoFactor(userId: string, code: string): Promise<string[] | null> {
+    const twoFactor = await authRepository.getTwoFactor(userId);
+    if (!twoFactor || twoFactor.enabled) return null;
+
+    const step = verifyCode(twoFactor.secret, code);
+    if (step === null) return null;
+
+    const backupCodes = this.generateBackupCodes();
+    await authRepository.updateTwoFactor(userId, {
+      enabled: true,
+      enabled_at: new Date(),
+      last_used_step: step,
+      backup_codes: JSON.stringify(backupCodes.map(backupCode => this.hashBackupCode(backupCode))),
+    });
+    return backupCodes;
+  }
+
+  async regenerateBackupCodes(userId: string): Promise<string[]> {
+    const backupCodes = this.generateBackupCodes();
+    await authRepository.updateTwoFactor(userId, {
+      backup_codes: JSON.stringify(backupCodes.map(backupCode => this.hashBackupCode(backupCode))),
+    });
+    return backupCodes;
+  }
+
+  /**
+   * Checks a TOTP code or a one-time backup code of a user with enabled 2FA
+   */
+  async verifySecondFactor(userId: string, code: string): Promise<boolean> {
+    const twoFactor = await authRepository.getTwoFactor(userId);
+    if (!twoFactor?.enabled) return false;
+
+    const step = verifyCode(twoFactor.secret, code, twoFactor.last_used_step);
+    if (step !== null) {
+      await authRepository.updateTwoFactor(userId, { last_used_step: step });
+      return true;
+    }
+
+    // Резервный код расходуется при использовании
+    const hashes: string[] = twoFactor.backup_codes ? JSON.parse(twoFactor.backup_codes) : [];
+    const hash = this.hashBackupCode(code);
+    if (!hashes.includes(hash)) return false;
+
+    await authRepository.updateTwoFactor(userId, {
+      backup_codes: JSON.stringify(hashes.filter(h => h !== hash)),
+    });
+    return true;
+  }
+
+  private generateBackupCodes(): string[] {
+    return Array.from({ length: BACKUP_CODES_COUNT }, () => {
+      const code = randomBytes(4).toString("hex");
+      return `${code.slice(0, 4)}-${code.slice(4)}`;
+    });
+  }
+
+  private hashBackupCode(code: string): string {
+    return this.hashToken(code.trim().toLowerCase().replace(/-/g, ""));
+  }
+
+  clearSessionCookie(res: Response) {
+    res.clearCookie(SESSION_COOKIE_NAME, {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      path: "/",
+    });
+  }
+}
+
+export const authService = new AuthService();
@@ -39,6 +39,18 @@ export const boardRepository = {
     }));
   },
 
+  /**
+   * IDs of boards the user created or is a member of
+   */
+  async getBoardIdsForUser(userId: string): Promise<Set<string>> {
+    const [created, memberships] = await Promise.all([
+      db.select({ id: boards.id }).from(boards).where(eq(boards.created_by, userId)),
+      db.select({ id: board_members.board_id }).from(board_members).where(eq(board_members.user_id, userId)),
+    ]);
+
+    return new Set([...created, ...memberships].map(r => r.id));
+  },
+
   async getBoardById(id: string) {
     const result = await db
       .select()
@@ -6,6 +6,10 @@ import multer from "multer";
 import { join } from "path";
 import { existsSync, mkdirSync } from "fs";
 import { unlink } from "fs/promises";
+import { getRequestUserId } from "../../middleware/auth";
+import { permissionsService } from "../permissions/service";
+import { fileAccessService } from "../file-access/service";
+import { fileAccessRepository } from "../file-access/repository";
 
 export const router = Router();
 
@@ -36,7 +40,15 @@ const upload = multer({
 // GET /api/boards - get all boards
 router.get("/api/boards", async (req, res) => {
   try {
-    const boards = await boardRepository.getAllBoards();
+    const userId = getRequestUserId(req);
+    let boards = await boardRepository.getAllBoards();
+
+    // Without view_all only own boards and boards the user is a member of are visible
+    if (userId && !(await permissionsService.canViewAll(userId, "tasks"))) {
+      const visibleIds = await boardRepository.getBoardIdsForUser(userId);
+      boards = boards.filter((board: { id: string }) => visibleIds.has(board.id));
+    }
+
     res.json(boards);
   } catch (error) {
     console.error("[Boards] Error fetching boards:", error);
@@ -297,7 +309,7 @@ router.post("/api/boards/cards/:cardId/attachments", upload.single('file'), asyn
       file_path: file.filename,
       file_size: file.size,
       mime_type: file.mimetype,
-      uploaded_by: req.body.userId || null,
+      uploaded_by: getRequestUserId(req) || null,
     });
 
     res.status(201).json(attachment);
@@ -312,12 +324,19 @@ router.get("/api/boards/attachments/:attachmentId/download", async (req, res) =>
   try {
     const { attachmentId } = req.params;
     const attachment = await boardRepository.getAttachmentById(attachmentId);
+    const owner = attachment && await fileAccessRepository.getBoardAttachmentOwner(attachmentId);
 
-    if (!attachment) {
+    if (!attachment || !owner) {
       res.status(404).json({ error: "Attachment not found" });
       return;
     }
 
+    // Only members of the board (or view_all) can download its files
+    if (!(await fileAccessService.canRead(getRequestUserId(req), owner))) {
+      res.status(403).json({ error: "Access denied" });
+      return;
+    }
+
     const filePath = join(UPLOAD_DIR, attachment.file_path);
     res.download(filePath, attachment.file_name);
   } catch (error) {
@@ -655,7 +674,7 @@ router.delete("/api/boards/cards/:cardId/potential-assignees/:userId", async (re
 router.post("/api/boards/cards/:cardId/take", async (req, res) => {
   try {
     const { cardId } = req.params;
-    const userId = req.body.userId || req.headers['x-user-id'] as string;
+    const userId = getRequestUserId(req);
 
     if (!userId) {
       res.status(400).json({ error: "User ID is required" });
@@ -677,7 +696,7 @@ router.post("/api/boards/cards/:cardId/take", async (req, res) => {
 // GET /api/boards/cards/pool/available - get pool cards available to current user
 router.get("/api/boards/cards/pool/available", async (req, res) => {
   try {
-    const userId = req.query.userId as string || req.headers['x-user-id'] as string;
+    const userId = getRequestUserId(req);
 
     if (!userId) {
       res.status(400).json({ error: "User ID is required" });
@@ -0,0 +1,152 @@
+import { db, withTransaction } from "../../db";
+import { and, asc, eq, ilike, inArray, ne, or } from "drizzle-orm";
+import { catalog_items, catalog_prices, price_lists } from "@shared/schema";
+import type { CatalogItem, CatalogItemKind, CatalogPrice, InsertCatalogItem, InsertPriceList, PriceList } from "@shared/schema";
+
+export interface CatalogItemPrice {
+  price_list_id: string;
+  price: number;
+}
+
+export type CatalogItemWithPrices = CatalogItem & { prices: CatalogItemPrice[] };
+
+export interface CatalogItemFilters {
+  search?: string;
+  kind?: CatalogItemKind;
+  activeOnly?: boolean;
+}
+
+type CatalogItemData = Omit<InsertCatalogItem, "prices">;
+
+export class CatalogRepository {
+  // ========== Прайс-листы ==========
+
+  async getPriceLists(): Promise<PriceList[]> {
+    return await db.select().from(price_lists).orderBy(asc(price_lists.name));
+  }
+
+  async getPriceList(id: string): Promise<PriceList | undefined> {
+    const [priceList] = await db.select().from(price_lists).where(eq(price_lists.id, id));
+    return priceList;
+  }
+
+  async getDefaultPriceList(): Promise<PriceList | undefined> {
+    const [priceList] = await db.select().from(price_lists)
+      .where(and(eq(price_lists.is_default, true), eq(price_lists.is_active, true)));
+    return priceList;
+  }
+
+  // Прайс-лист по умолчанию один: новый default снимает флаг с остальных
+  async createPriceList(data: InsertPriceList): Promise<PriceList> {
+    return await withTransaction(async (tx: any) => {
+      if (data.is_default) {
+        await tx.update(price_lists).set({ is_default: false }).where(eq(price_lists.is_default, true));
+      }
+      const [priceList] = await tx.insert(price_lists).values(data).returning();
+      return priceList;
+    });
+  }
+
+  async updatePriceList(id: string, data: Partial<InsertPriceList>): Promise<PriceList | undefined> {
+    return await withTransaction(async (tx: any) => {
+      if (data.is_default) {
+        await tx.update(price_lists).set({ is_default: false })
+          .where(and(eq(price_lists.is_default, true), ne(price_lists.id, id)));
+      }
+      const [priceList] = await tx.update(price_lists)
+        .set({ ...data, updated_at: new Date() })
+        .where(eq(price_lists.id, id))
+        .returning();
+      return priceList;
+    });
+  }
+
+  async deletePriceList(id: string): Promise<boolean> {
+    const result = await db.delete(price_lists).where(eq(price_lists.id, id)).returning();
+    return result.length > 0;
+  }
+
+  // ========== Позиции ==========
+
+  async getItems(filters: CatalogItemFilters = {}): Promise<CatalogItemWithPrices[]> {
+    const conditions = [];
+    if (filters.activeOnly) conditions.push(eq(catalog_items.is_active, true));
+    if (filters.kind) conditions.push(eq(catalog_items.kind, filters.kind));
+    if (filters.search) {
+      const pattern = `%${filters.search}%`;
+      conditions.push(or(
+        ilike(catalog_items.name, pattern),
+        ilike(catalog_items.sku, pattern),
+        ilike(catalog_items.category, pattern),
+      )!);
+    }
+
+    const items: CatalogItem[] = await db.select().from(catalog_items)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(catalog_items.category), asc(catalog_items.name));
+    return await this.withPrices(items);
+  }
+
+  async getItem(id: string): Promise<CatalogItemWithPrices | undefined> {
+    const [item] = await db.select().from(catalog_items).where(eq(catalog_items.id, id));
+    return item ? (await this.withPrices([item]))[0] : undefined;
+  }
+
+  async createItem(data: CatalogItemData, prices: CatalogItemPrice[] = []): Promise<CatalogItemWithPrices> {
+    const id = await withTransaction(async (tx: any) => {
+      const [item] = await tx.insert(catalog_items).values(data).returning();
+      if (prices.length > 0) {
+        await tx.insert(catalog_prices).values(prices.map((price) => ({ ...price, item_id: item.id })));
+      }
+      return item.id as string;
+    });
+    return (await this.getItem(id))!;
+  }
+
+  // prices: undefined — цены не меняются, массив — заменяет все цены позиции
+  async updateItem(id: string, data: Partial<CatalogItemData>, prices?: CatalogItemPrice[]): Promise<CatalogItemWithPrices | undefined> {
+    const updated = await withTransaction(async (tx: any) => {
+      const [item] = await tx.update(catalog_items)
+        .set({ ...data, updated_at: new Date() })
+        .where(eq(catalog_items.id, id))
+        .returning();
+      if (!item) return false;
+
+      if (prices) {
+        await tx.delete(catalog_prices).where(eq(catalog_prices.item_id, id));
+        if (prices.length > 0) {
+          await tx.insert(catalog_prices).values(prices.map((price) => ({ ...price, item_id: id })));
+        }
+      }
+      return true;
+    });
+    return updated ? await this.getItem(id) : undefined;
+  }
+
+  async deleteItem(id: string): Promise<boolean> {
+    const result = await db.delete(catalog_items).where(eq(catalog_items.id, id)).returning();
+    return result.length > 0;
+  }
+
+  // Цены позиций в прайс-листе: item_id → цена
+  async getPrices(itemIds: string[], priceListId: string): Promise<Map<string, number>> {
+    if (itemIds.length === 0) return new Map();
+    const rows: CatalogPrice[] = await db.select().from(catalog_prices)
+      .where(and(inArray(catalog_prices.item_id, itemIds), eq(catalog_prices.price_list_id, priceListId)));
+    return new Map(rows.map((row) => [row.item_id, row.price]));
+  }
+
+  private async withPrices(items: CatalogItem[]): Promise<CatalogItemWithPrices[]> {
+    if (items.length === 0) return [];
+    const rows: CatalogPrice[] = await db.select().from(catalog_prices)
+      .where(inArray(catalog_prices.item_id, items.map((item) => item.id)));
+    return items.map((item) => ({
+      ...item,
+      prices: rows
+        .filter((row) => row.item_id === item.id)
+        .map((row) => ({ price_list_id: row.price_list_id, price: row.price })),
+    }));
+  }
+}
+
+export const catalogRepository = new CatalogRepository();
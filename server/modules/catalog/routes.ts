@@ -0,0 +1,163 @@
+import { Router } from "express";
+import { fromZodError } from "zod-validation-error";
+import { catalogItemKindValues, insertCatalogItemSchema, insertPriceListSchema } from "@shared/schema";
+import type { CatalogItemKind } from "@shared/schema";
+import { catalogRepository } from "./repository";
+import { checkAdminOnly } from "../../middleware/permissions";
+
+export const router = Router();
+
+// ========== Прайс-листы ==========
+
+// GET /api/catalog/price-lists - все прайс-листы
+router.get("/api/catalog/price-lists", async (req, res) => {
+  try {
+    res.json(await catalogRepository.getPriceLists());
+  } catch (error) {
+    console.error("Error fetching price lists:", error);
+    res.status(500).json({ error: "Failed to fetch price lists" });
+  }
+});
+
+// POST /api/catalog/price-lists - новый прайс-лист
+router.post("/api/catalog/price-lists", checkAdminOnly(), async (req, res) => {
+  try {
+    const validationResult = insertPriceListSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      const errorMessage = fromZodError(validationResult.error).toString();
+      res.status(400).json({ error: errorMessage });
+      return;
+    }
+
+    res.status(201).json(await catalogRepository.createPriceList(validationResult.data));
+  } catch (error) {
+    console.error("Error creating price list:", error);
+    res.status(500).json({ error: "Failed to create price list" });
+  }
+});
+
+// PUT /api/catalog/price-lists/:id - название, по умолчанию, включение
+router.put("/api/catalog/price-lists/:id", checkAdminOnly(), async (req, res) => {
+  try {
+    const validationResult = insertPriceListSchema.partial().safeParse(req.body);
+
+    if (!validationResult.success) {
+      const errorMessage = fromZodError(validationResult.error).toString();
+      res.status(400).json({ error: errorMessage });
+      return;
+    }
+
+    const priceList = await catalogRepository.updatePriceList(req.params.id, validationResult.data);
+
+    if (!priceList) {
+      res.status(404).json({ error: "Price list not found" });
+      return;
+    }
+
+    res.json(priceList);
+  } catch (error) {
+    console.error("Error updating price list:", error);
+    res.status(500).json({ error: "Failed to update price list" });
+  }
+});
+
+// DELETE /api/catalog/price-lists/:id - удалить прайс-лист с его ценами; готовые документы не меняются
+router.delete("/api/catalog/price-lists/:id", checkAdminOnly(), async (req, res) => {
+  try {
+    const deleted = await catalogRepository.deletePriceList(req.params.id);
+
+    if (!deleted) {
+      res.status(404).json({ error: "Price list not found" });
+      return;
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    console.error("Error deleting price list:", error);
+    res.status(500).json({ error: "Failed to delete price list" });
+  }
+});
+
+// ========== Позиции каталога ==========
+
+// GET /api/catalog/items - позиции с ценами по прайс-листам (?search=, ?kind=product|service, ?active=1)
+router.get("/api/catalog/items", async (req, res) => {
+  try {
+    const kind = typeof req.query.kind === "string" && catalogItemKindValues.includes(req.query.kind as CatalogItemKind)
+      ? req.query.kind as CatalogItemKind
+      : undefined;
+    const search = typeof req.query.search === "string" ? req.query.search.trim() : "";
+
+    res.json(await catalogRepository.getItems({
+      search: search || undefined,
+      kind,
+      activeOnly: req.query.active === "1",
+    }));
+  } catch (error) {
+    console.error("Error fetching catalog items:", error);
+    res.status(500).json({ error: "Failed to fetch catalog items" });
+  }
+});
+
+// POST /api/catalog/items - новая позиция вместе с ценами
+router.post("/api/catalog/items", checkAdminOnly(), async (req, res) => {
+  try {
+    const validationResult = insertCatalogItemSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      const errorMessage = fromZodError(validationResult.error).toString();
+      res.status(400).json({ error: errorMessage });
+      return;
+    }
+
+    const { prices, ...data } = validationResult.data;
+    res.status(201).json(await catalogRepository.createItem(data, prices));
+  } catch (error) {
+    console.error("Error creating catalog item:", error);
+    res.status(500).json({ error: "Failed to create catalog item" });
+  }
+});
+
+// PUT /api/catalog/items/:id - изменить позицию; переданный prices заменяет все её цены
+router.put("/api/catalog/items/:id", checkAdminOnly(), async (req, res) => {
+  try {
+    const validationResult = insertCatalogItemSchema.partial().safeParse(req.body);
+
+    if (!validationResult.success) {
+      const errorMessage = fromZodError(validationResult.error).toString();
+      res.status(400).json({ error: errorMessage });
+      return;
+    }
+
+    const { prices, ...data } = validationResult.data;
+    const item = await catalogRepository.updateItem(req.params.id, data, prices);
+
+    if (!item) {
+      res.status(404).json({ error: "Catalog item not found" });
+      return;
+    }
+
+    res.json(item);
+  } catch (error) {
+    console.error("Error updating catalog item:", error);
+    res.status(500).json({ error: "Failed to update catalog item" });
+  }
+});
+
+// DELETE /api/catalog/items/:id - удалить позицию; в готовых КП она остаётся как обычная строка
+router.delete("/api/catalog/items/:id", checkAdminOnly(), async (req, res) => {
+  try {
+    const deleted = await catalogRepository.deleteItem(req.params.id);
+
+    if (!deleted) {
+      res.status(404).json({ error: "Catalog item not found" });
+      return;
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    console.error("Error deleting catalog item:", error);
+    res.status(500).json({ error: "Failed to delete catalog item" });
+  }
+});
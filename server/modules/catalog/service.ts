@@ -0,0 +1,78 @@
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { calculateQuote, quotePositionSchema, quotePricingSchema } from "@shared/quotePricing";
+import { catalogRepository } from "./repository";
+
+export class CatalogError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "CatalogError";
+    Object.setPrototypeOf(this, CatalogError.prototype);
+  }
+}
+
+export interface PricedDocument {
+  data: string;
+  total_amount: number;
+}
+
+export class CatalogService {
+  /**
+   * Пересчитывает позиции документа (deal_documents.data) на сервере: цены каталожных позиций
+   * берутся из прайс-листа документа, скидки и НДС считаются по @shared/quotePricing.
+   * undefined — в документе нет позиций (договор из шаблона, загруженный файл), считать нечего
+   */
+  async priceDocument(rawData: string | null | undefined): Promise<PricedDocument | undefined> {
+    if (!rawData) return undefined;
+
+    let document: Record<string, unknown>;
+    try {
+      document = JSON.parse(rawData);
+    } catch {
+      throw new CatalogError("Данные документа должны быть JSON");
+    }
+    if (!document || typeof document !== "object" || !Array.isArray(document.positions)) return undefined;
+
+    const positionsResult = z.array(quotePositionSchema).safeParse(document.positions);
+    if (!positionsResult.success) {
+      throw new CatalogError(fromZodError(positionsResult.error, { prefix: "Позиции" }).toString());
+    }
+    const pricingResult = quotePricingSchema.safeParse(document.pricing ?? {});
+    if (!pricingResult.success) {
+      throw new CatalogError(fromZodError(pricingResult.error, { prefix: "Условия" }).toString());
+    }
+
+    const pricing = pricingResult.data;
+    const priceList = pricing.price_list_id
+      ? await catalogRepository.getPriceList(pricing.price_list_id)
+      : await catalogRepository.getDefaultPriceList();
+    if (pricing.price_list_id && !priceList) {
+      throw new CatalogError("Прайс-лист не найден");
+    }
+
+    const catalogIds = positionsResult.data
+      .map((position) => position.catalog_item_id)
+      .filter((id): id is string => !!id);
+    if (catalogIds.length > 0 && !priceList) {
+      throw new CatalogError("Выберите прайс-лист для позиций из каталога");
+    }
+    const prices = priceList ? await catalogRepository.getPrices(catalogIds, priceList.id) : new Map<string, number>();
+
+    const positions = positionsResult.data.map((position) => {
+      if (!position.catalog_item_id) return position;
+      const price = prices.get(position.catalog_item_id);
+      if (price === undefined) {
+        throw new CatalogError(`Позиции «${position.name}» нет в прайс-листе «${priceList!.name}»`);
+      }
+      return { ...position, price };
+    });
+
+    const quote = calculateQuote(positions, { ...pricing, price_list_id: priceList?.id ?? null });
+    return {
+      data: JSON.stringify({ ...document, ...quote }),
+      total_amount: quote.totals.total,
+    };
+  }
+}
+
+export const catalogService = new CatalogService();
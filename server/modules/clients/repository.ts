@@ -1,7 +1,7 @@
 import { db } from "../../db";
-import { eq, sql } from "drizzle-orm";
+import { eq, sql, isNull } from "drizzle-orm";
 import type { Client, InsertClient } from "@shared/schema";
-import { clients, deals, projects } from "@shared/schema";
+import { clients, deals, projects, montage_orders } from "@shared/schema";
 import { nanoid } from "nanoid";
 
 export class ClientsRepository {
@@ -22,28 +22,34 @@ export class ClientsRepository {
     const client = await this.getById(id);
     if (!client) return undefined;
 
-    // Get deals count and total amount (match by client_name)
     const dealsStats = await db
       .select({
         count: sql<number>`count(*)::int`,
         total_amount: sql<number>`coalesce(sum(${deals.amount}), 0)::numeric`,
       })
       .from(deals)
-      .where(sql`lower(${deals.client_name}) = lower(${client.name})`);
+      .where(eq(deals.client_id, id));
 
-    // Get projects count (match by client_name)
     const projectsStats = await db
       .select({
         count: sql<number>`count(*)::int`,
       })
       .from(projects)
-      .where(sql`lower(${projects.client_name}) = lower(${client.name})`);
+      .where(eq(projects.client_id, id));
+
+    const montageStats = await db
+      .select({
+        count: sql<number>`count(*)::int`,
+      })
+      .from(montage_orders)
+      .where(eq(montage_orders.client_id, id));
 
     return {
       ...client,
       deals_count: dealsStats[0]?.count || 0,
       total_amount: dealsStats[0]?.total_amount || 0,
       projects_count: projectsStats[0]?.count || 0,
+      montage_orders_count: montageStats[0]?.count || 0,
     };
   }
 
@@ -66,29 +72,90 @@ export class ClientsRepository {
     return result.length > 0;
   }
 
-  // Get client's deals (by client name match)
   async getClientDeals(clientId: string): Promise<any[]> {
-    const client = await this.getById(clientId);
-    if (!client) return [];
-
     return await db
       .select()
       .from(deals)
-      .where(sql`lower(${deals.client_name}) = lower(${client.name})`)
+      .where(eq(deals.client_id, clientId))
       .orderBy(sql`${deals.created_at} DESC`);
   }
 
-  // Get client's projects (by client name match)
   async getClientProjects(clientId: string): Promise<any[]> {
-    const client = await this.getById(clientId);
-    if (!client) return [];
-
     return await db
       .select()
       .from(projects)
-      .where(sql`lower(${projects.client_name}) = lower(${client.name})`)
+      .where(eq(projects.client_id, clientId))
       .orderBy(sql`${projects.created_at} DESC`);
   }
+
+  async getClientMontageOrders(clientId: string): Promise<any[]> {
+    return await db
+      .select()
+      .from(montage_orders)
+      .where(eq(montage_orders.client_id, clientId))
+      .orderBy(sql`${montage_orders.created_at} DESC`);
+  }
+
+  // === Привязка существующих записей к клиентам ===
+
+  async getUnlinkedDeals(): Promise<Array<{ id: string; title: string | null; order_number: string | null; client_name: string; contact_phone: string | null; contact_email: string | null }>> {
+    return await db
+      .select({
+        id: deals.id,
+        title: deals.title,
+        order_number: deals.order_number,
+        client_name: deals.client_name,
+        contact_phone: deals.contact_phone,
+        contact_email: deals.contact_email,
+      })
+      .from(deals)
+      .where(isNull(deals.client_id));
+  }
+
+  async getUnlinkedProjects(): Promise<Array<{ id: string; name: string; client_name: string; phone: string | null; deal_id: string | null; deal_client_id: string | null }>> {
+    return await db
+      .select({
+        id: projects.id,
+        name: projects.name,
+        client_name: projects.client_name,
+        phone: projects.phone,
+        deal_id: projects.deal_id,
+        deal_client_id: deals.client_id,
+      })
+      .from(projects)
+      .leftJoin(deals, eq(projects.deal_id, deals.id))
+      .where(isNull(projects.client_id));
+  }
+
+  async getUnlinkedMontageOrders(): Promise<Array<{ id: string; order_number: string | null; client_name: string | null; client_phone: string | null; project_id: string | null; project_client_id: string | null }>> {
+    return await db
+      .select({
+        id: montage_orders.id,
+        order_number: montage_orders.order_number,
+        client_name: montage_orders.client_name,
+        client_phone: montage_orders.client_phone,
+        project_id: montage_orders.project_id,
+        project_client_id: projects.client_id,
+      })
+      .from(montage_orders)
+      .leftJoin(projects, eq(montage_orders.project_id, projects.id))
+      .where(isNull(montage_orders.client_id));
+  }
+
+  async setDealClient(dealId: string, clientId: string): Promise<boolean> {
+    const result = await db.update(deals).set({ client_id: clientId }).where(eq(deals.id, dealId)).returning({ id: deals.id });
+    return result.length > 0;
+  }
+
+  async setProjectClient(projectId: string, clientId: string): Promise<boolean> {
+    const result = await db.update(projects).set({ client_id: clientId }).where(eq(projects.id, projectId)).returning({ id: projects.id });
+    return result.length > 0;
+  }
+
+  async setMontageOrderClient(orderId: string, clientId: string): Promise<boolean> {
+    const result = await db.update(montage_orders).set({ client_id: clientId }).where(eq(montage_orders.id, orderId)).returning({ id: montage_orders.id });
+    return result.length > 0;
+  }
 }
 
 export const clientsRepository = new ClientsRepository();
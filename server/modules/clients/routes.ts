@@ -1,9 +1,18 @@
 import { Router, Request, Response, NextFunction } from "express";
+import { z } from "zod";
 import { clientsRepository } from "./repository";
+import { clientLinkService } from "./service";
+import { duplicatesService } from "../duplicates/service";
 import { insertClientSchema } from "@shared/schema";
 
 export const router = Router();
 
+const resolveLinkSchema = z.object({
+  entity_type: z.enum(["deal", "project", "montage_order"]),
+  entity_id: z.string().min(1),
+  client_id: z.string().min(1),
+});
+
 // GET /api/clients - get all clients (with optional ?active=true filter)
 router.get("/api/clients", async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -17,6 +26,48 @@ router.get("/api/clients", async (req: Request, res: Response, next: NextFunctio
   }
 });
 
+// GET /api/clients/link-review - preview of linking existing records + ambiguous matches for manual review
+router.get("/api/clients/link-review", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json(await clientLinkService.linkExisting(false));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/clients/link-existing - link deals, projects and montage orders without client_id by name/phone/email
+router.post("/api/clients/link-existing", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json(await clientLinkService.linkExisting(true));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/clients/link-review/resolve - manually pick the client of an ambiguous record
+router.post("/api/clients/link-review/resolve", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const parsed = resolveLinkSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors });
+    }
+    const { entity_type, entity_id, client_id } = parsed.data;
+
+    const client = await clientsRepository.getById(client_id);
+    if (!client) {
+      return res.status(404).json({ error: "Client not found" });
+    }
+
+    const updated = await clientLinkService.setClient(entity_type, entity_id, client_id);
+    if (!updated) {
+      return res.status(404).json({ error: "Record not found" });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // GET /api/clients/:id - get client by id with stats
 router.get("/api/clients/:id", async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -53,6 +104,17 @@ router.get("/api/clients/:id/projects", async (req: Request, res: Response, next
   }
 });
 
+// GET /api/clients/:id/montage-orders - get client's montage orders
+router.get("/api/clients/:id/montage-orders", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const orders = await clientsRepository.getClientMontageOrders(id);
+    res.json(orders);
+  } catch (error) {
+    next(error);
+  }
+});
+
 // POST /api/clients - create new client
 router.post("/api/clients", async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -60,6 +122,19 @@ router.post("/api/clients", async (req: Request, res: Response, next: NextFuncti
     if (!parsed.success) {
       return res.status(400).json({ error: parsed.error.errors });
     }
+
+    // Possible duplicate: the client is created only after the user confirms (confirm_duplicate: true)
+    if (req.body.confirm_duplicate !== true) {
+      const { clients: duplicates } = await duplicatesService.check(parsed.data);
+      if (duplicates.length > 0) {
+        return res.status(409).json({
+          error: "Похожий клиент уже существует",
+          code: "POSSIBLE_DUPLICATE",
+          duplicates: duplicates.slice(0, 5),
+        });
+      }
+    }
+
     const client = await clientsRepository.create(parsed.data);
     res.status(201).json(client);
   } catch (error) {
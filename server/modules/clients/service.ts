@@ -0,0 +1,179 @@
+import { clientsRepository } from "./repository";
+import type { Client } from "@shared/schema";
+import { toE164 } from "@shared/phone";
+
+export type LinkedEntityType = "deal" | "project" | "montage_order";
+
+export interface ClientCandidate {
+  id: string;
+  name: string;
+  phone: string | null;
+  email: string | null;
+}
+
+// Запись, которую нельзя однозначно привязать к клиенту: выбор делает пользователь
+export interface ClientLinkReviewItem {
+  entity_type: LinkedEntityType;
+  entity_id: string;
+  label: string;
+  client_name: string | null;
+  phone: string | null;
+  email: string | null;
+  candidates: ClientCandidate[];
+}
+
+export interface ClientLinkResult {
+  linked: Record<LinkedEntityType, number>;
+  unmatched: Record<LinkedEntityType, number>;
+  review: ClientLinkReviewItem[];
+}
+
+interface ContactFields {
+  name: string | null;
+  phone: string | null;
+  email: string | null;
+}
+
+type Match = { clientId: string } | { candidates: Client[] } | null;
+
+function normalizeText(value: string | null | undefined): string | null {
+  const normalized = (value || "").trim().toLowerCase().replace(/\s+/g, " ");
+  return normalized || null;
+}
+
+function addToIndex(index: Map<string, Client[]>, key: string | null, client: Client) {
+  if (!key) return;
+  const list = index.get(key);
+  if (list) list.push(client);
+  else index.set(key, [client]);
+}
+
+function toCandidate(client: Client): ClientCandidate {
+  return { id: client.id, name: client.name, phone: client.phone, email: client.email };
+}
+
+class ClientMatcher {
+  private byName = new Map<string, Client[]>();
+  private byPhone = new Map<string, Client[]>();
+  private byEmail = new Map<string, Client[]>();
+
+  constructor(clients: Client[]) {
+    for (const client of clients) {
+      addToIndex(this.byName, normalizeText(client.name), client);
+      addToIndex(this.byPhone, toE164(client.phone), client);
+      addToIndex(this.byEmail, normalizeText(client.email), client);
+    }
+  }
+
+  /**
+   * Телефон и email надёжнее имени: если по ним нашёлся ровно один клиент, имя не проверяем.
+   * Несколько кандидатов на любом шаге — запись уходит на ручную проверку.
+   */
+  match(fields: ContactFields): Match {
+    const byContacts = new Map<string, Client>();
+    for (const client of this.byPhone.get(toE164(fields.phone) || "") || []) byContacts.set(client.id, client);
+    for (const client of this.byEmail.get(normalizeText(fields.email) || "") || []) byContacts.set(client.id, client);
+
+    const candidates = byContacts.size > 0
+      ? Array.from(byContacts.values())
+      : this.byName.get(normalizeText(fields.name) || "") || [];
+
+    if (candidates.length === 1) return { clientId: candidates[0].id };
+    if (candidates.length > 1) return { candidates };
+    return null;
+  }
+}
+
+export class ClientLinkService {
+  /**
+   * Привязывает сделки, проекты и заказы на монтаж без client_id к карточкам клиентов.
+   * Проекты наследуют клиента сделки, заказы на монтаж — клиента проекта.
+   * При apply=false ничего не меняет и только возвращает, что было бы сделано.
+   */
+  async linkExisting(apply: boolean): Promise<ClientLinkResult> {
+    const matcher = new ClientMatcher(await clientsRepository.getAll());
+    const result: ClientLinkResult = {
+      linked: { deal: 0, project: 0, montage_order: 0 },
+      unmatched: { deal: 0, project: 0, montage_order: 0 },
+      review: [],
+    };
+
+    const resolve = async (
+      type: LinkedEntityType,
+      id: string,
+      label: string,
+      fields: ContactFields,
+      inherited: string | null | undefined,
+    ): Promise<string | null> => {
+      const match: Match = inherited ? { clientId: inherited } : matcher.match(fields);
+
+      if (!match) {
+        result.unmatched[type]++;
+        return null;
+      }
+
+      if ("candidates" in match) {
+        result.review.push({
+          entity_type: type,
+          entity_id: id,
+          label,
+          client_name: fields.name,
+          phone: fields.phone,
+          email: fields.email,
+          candidates: match.candidates.map(toCandidate),
+        });
+        return null;
+      }
+
+      if (apply) await this.setClient(type, id, match.clientId);
+      result.linked[type]++;
+      return match.clientId;
+    };
+
+    // Клиенты, найденные на предыдущих шагах, — чтобы dry run показывал то же, что и реальный запуск
+    const dealClients = new Map<string, string>();
+    for (const deal of await clientsRepository.getUnlinkedDeals()) {
+      const clientId = await resolve("deal", deal.id, deal.title || deal.order_number || deal.client_name, {
+        name: deal.client_name,
+        phone: deal.contact_phone,
+        email: deal.contact_email,
+      }, null);
+      if (clientId) dealClients.set(deal.id, clientId);
+    }
+
+    const projectClients = new Map<string, string>();
+    for (const project of await clientsRepository.getUnlinkedProjects()) {
+      const inherited = project.deal_client_id || (project.deal_id ? dealClients.get(project.deal_id) : null);
+      const clientId = await resolve("project", project.id, project.name, {
+        name: project.client_name,
+        phone: project.phone,
+        email: null,
+      }, inherited);
+      if (clientId) projectClients.set(project.id, clientId);
+    }
+
+    for (const order of await clientsRepository.getUnlinkedMontageOrders()) {
+      const inherited = order.project_client_id || (order.project_id ? projectClients.get(order.project_id) : null);
+      await resolve("montage_order", order.id, order.order_number || order.client_name || order.id, {
+        name: order.client_name,
+        phone: order.client_phone,
+        email: null,
+      }, inherited);
+    }
+
+    return result;
+  }
+
+  async setClient(type: LinkedEntityType, id: string, clientId: string): Promise<boolean> {
+    switch (type) {
+      case "deal":
+        return clientsRepository.setDealClient(id, clientId);
+      case "project":
+        return clientsRepository.setProjectClient(id, clientId);
+      case "montage_order":
+        return clientsRepository.setMontageOrderClient(id, clientId);
+    }
+  }
+}
+
+export const clientLinkService = new ClientLinkService();
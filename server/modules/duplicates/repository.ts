@@ -0,0 +1,157 @@
+import { db, withTransaction } from "../../db";
+import { eq, and, desc, inArray } from "drizzle-orm";
+import {
+  clients, deal_contacts, deals, projects, montage_orders, campaign_contacts, call_logs, inbound_leads, messenger_chats, record_merges,
+} from "@shared/schema";
+import type { Client, DealContact, RecordMerge } from "@shared/schema";
+
+// Таблицы, которые ссылаются на клиента: при объединении их строки переносятся на оставшуюся запись
+const CLIENT_REFERENCES = {
+  deals,
+  projects,
+  montage_orders,
+  campaign_contacts,
+  call_logs,
+  inbound_leads,
+  messenger_chats,
+} as const;
+
+type ClientReferenceTable = keyof typeof CLIENT_REFERENCES;
+
+export type MergeEntityType = "client" | "deal_contact";
+
+export interface DealContactWithDeal extends DealContact {
+  deal_title: string | null;
+  deal_order_number: string | null;
+}
+
+// Снимок из JSON: даты приходят строками
+function reviveDates<T>(record: Record<string, any>): T {
+  const revived: Record<string, any> = { ...record };
+  for (const key of ["created_at", "updated_at"]) {
+    if (typeof revived[key] === "string") revived[key] = new Date(revived[key]);
+  }
+  return revived as T;
+}
+
+export class DuplicatesRepository {
+  async getClients(): Promise<Client[]> {
+    return await db.select().from(clients);
+  }
+
+  async getClientById(id: string): Promise<Client | undefined> {
+    const [client] = await db.select().from(clients).where(eq(clients.id, id));
+    return client;
+  }
+
+  async getDealContacts(): Promise<DealContactWithDeal[]> {
+    const rows = await db
+      .select({ contact: deal_contacts, deal_title: deals.title, deal_order_number: deals.order_number })
+      .from(deal_contacts)
+      .innerJoin(deals, eq(deal_contacts.deal_id, deals.id));
+    return rows.map((row: any) => ({ ...row.contact, deal_title: row.deal_title, deal_order_number: row.deal_order_number }));
+  }
+
+  async getDealContactById(id: string): Promise<DealContact | undefined> {
+    const [contact] = await db.select().from(deal_contacts).where(eq(deal_contacts.id, id));
+    return contact;
+  }
+
+  async getMerges(limit = 100): Promise<RecordMerge[]> {
+    return await db.select().from(record_merges).orderBy(desc(record_merges.created_at)).limit(limit);
+  }
+
+  async getMergeById(id: string): Promise<RecordMerge | undefined> {
+    const [merge] = await db.select().from(record_merges).where(eq(record_merges.id, id));
+    return merge;
+  }
+
+  /**
+   * Переносит ссылки merged → survivor, дописывает в survivor недостающие поля и удаляет merged
+   */
+  async mergeClients(survivor: Client, merged: Client, patch: Partial<Client>, userId: string | null): Promise<RecordMerge> {
+    return await withTransaction(async (tx: any) => {
+      const repointed: Partial<Record<ClientReferenceTable, string[]>> = {};
+
+      for (const [name, table] of Object.entries(CLIENT_REFERENCES) as Array<[ClientReferenceTable, any]>) {
+        const rows = await tx.select({ id: table.id }).from(table).where(eq(table.client_id, merged.id));
+        if (rows.length === 0) continue;
+
+        repointed[name] = rows.map((row: { id: string }) => row.id);
+        await tx.update(table).set({ client_id: survivor.id }).where(eq(table.client_id, merged.id));
+      }
+
+      if (Object.keys(patch).length > 0) {
+        await tx.update(clients).set({ ...patch, updated_at: new Date() }).where(eq(clients.id, survivor.id));
+      }
+      await tx.delete(clients).where(eq(clients.id, merged.id));
+
+      const [log] = await tx.insert(record_merges).values({
+        entity_type: "client",
+        survivor_id: survivor.id,
+        merged_id: merged.id,
+        survivor_before: JSON.stringify(survivor),
+        merged_record: JSON.stringify(merged),
+        repointed: JSON.stringify(repointed),
+        merged_by: userId,
+      }).returning();
+      return log;
+    });
+  }
+
+  async mergeDealContacts(survivor: DealContact, merged: DealContact, patch: Partial<DealContact>, userId: string | null): Promise<RecordMerge> {
+    return await withTransaction(async (tx: any) => {
+      if (Object.keys(patch).length > 0) {
+        await tx.update(deal_contacts).set(patch).where(eq(deal_contacts.id, survivor.id));
+      }
+      await tx.delete(deal_contacts).where(eq(deal_contacts.id, merged.id));
+
+      const [log] = await tx.insert(record_merges).values({
+        entity_type: "deal_contact",
+        survivor_id: survivor.id,
+        merged_id: merged.id,
+        survivor_before: JSON.stringify(survivor),
+        merged_record: JSON.stringify(merged),
+        repointed: JSON.stringify({}),
+        merged_by: userId,
+      }).returning();
+      return log;
+    });
+  }
+
+  /**
+   * Восстанавливает удалённую запись и прежние поля оставшейся, возвращает перенесённые ссылки.
+   * Ссылки, которые после объединения уже перевесили на другого клиента, не трогаем.
+   */
+  async undoMerge(merge: RecordMerge, userId: string | null): Promise<void> {
+    const survivorBefore = JSON.parse(merge.survivor_before);
+    const mergedRecord = JSON.parse(merge.merged_record);
+    const repointed: Partial<Record<ClientReferenceTable, string[]>> = JSON.parse(merge.repointed);
+
+    await withTransaction(async (tx: any) => {
+      if (merge.entity_type === "client") {
+        const { id, ...survivorFields } = reviveDates<Client>(survivorBefore);
+        await tx.insert(clients).values(reviveDates<Client>(mergedRecord));
+        await tx.update(clients).set(survivorFields).where(eq(clients.id, id));
+
+        for (const [name, ids] of Object.entries(repointed) as Array<[ClientReferenceTable, string[]]>) {
+          const table: any = CLIENT_REFERENCES[name];
+          if (!table || ids.length === 0) continue;
+          await tx.update(table)
+            .set({ client_id: merge.merged_id })
+            .where(and(inArray(table.id, ids), eq(table.client_id, merge.survivor_id)));
+        }
+      } else {
+        const { id, ...survivorFields } = reviveDates<DealContact>(survivorBefore);
+        await tx.insert(deal_contacts).values(reviveDates<DealContact>(mergedRecord));
+        await tx.update(deal_contacts).set(survivorFields).where(eq(deal_contacts.id, id));
+      }
+
+      await tx.update(record_merges)
+        .set({ undone_at: new Date(), undone_by: userId })
+        .where(eq(record_merges.id, merge.id));
+    });
+  }
+}
+
+export const duplicatesRepository = new DuplicatesRepository();
@@ -0,0 +1,128 @@
+import { Router } from "express";
+import type { Response } from "express";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { duplicatesService, MergeError } from "./service";
+import { duplicatesRepository } from "./repository";
+import { getRequestUserId } from "../../middleware/auth";
+
+export const router = Router();
+
+const checkSchema = z.object({
+  name: z.string().nullish(),
+  phone: z.string().nullish(),
+  email: z.string().nullish(),
+  inn: z.string().nullish(),
+  exclude_client_id: z.string().optional(),
+});
+
+const mergeSchema = z.object({
+  survivor_id: z.string().min(1),
+  merged_id: z.string().min(1),
+});
+
+function sendMergeError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof MergeError) {
+    res.status(error.status).json({ error: error.message });
+    return;
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ error: fallback });
+}
+
+// GET /api/duplicates/clients - Возможные дубли клиентов (пары с оценкой и причинами совпадения)
+router.get("/api/duplicates/clients", async (req, res) => {
+  try {
+    res.json(await duplicatesService.findClientDuplicates());
+  } catch (error) {
+    console.error("Error finding client duplicates:", error);
+    res.status(500).json({ error: "Failed to find duplicates" });
+  }
+});
+
+// GET /api/duplicates/deal-contacts - Возможные дубли контактов сделок
+router.get("/api/duplicates/deal-contacts", async (req, res) => {
+  try {
+    res.json(await duplicatesService.findDealContactDuplicates());
+  } catch (error) {
+    console.error("Error finding deal contact duplicates:", error);
+    res.status(500).json({ error: "Failed to find duplicates" });
+  }
+});
+
+// POST /api/duplicates/check - Проверить данные новой записи до сохранения
+router.post("/api/duplicates/check", async (req, res) => {
+  try {
+    const validationResult = checkSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      const errorMessage = fromZodError(validationResult.error).toString();
+      res.status(400).json({ error: errorMessage });
+      return;
+    }
+
+    const { exclude_client_id, ...fields } = validationResult.data;
+    res.json(await duplicatesService.check(fields, { excludeClientId: exclude_client_id }));
+  } catch (error) {
+    console.error("Error checking duplicates:", error);
+    res.status(500).json({ error: "Failed to check duplicates" });
+  }
+});
+
+// POST /api/duplicates/clients/merge - Объединить клиентов: ссылки переносятся на survivor_id, merged_id удаляется
+router.post("/api/duplicates/clients/merge", async (req, res) => {
+  try {
+    const validationResult = mergeSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      const errorMessage = fromZodError(validationResult.error).toString();
+      res.status(400).json({ error: errorMessage });
+      return;
+    }
+
+    const { survivor_id, merged_id } = validationResult.data;
+    const merge = await duplicatesService.mergeClients(survivor_id, merged_id, getRequestUserId(req) || null);
+    res.status(201).json(merge);
+  } catch (error) {
+    sendMergeError(res, error, "Failed to merge clients");
+  }
+});
+
+// POST /api/duplicates/deal-contacts/merge - Объединить контакты одной сделки
+router.post("/api/duplicates/deal-contacts/merge", async (req, res) => {
+  try {
+    const validationResult = mergeSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      const errorMessage = fromZodError(validationResult.error).toString();
+      res.status(400).json({ error: errorMessage });
+      return;
+    }
+
+    const { survivor_id, merged_id } = validationResult.data;
+    const merge = await duplicatesService.mergeDealContacts(survivor_id, merged_id, getRequestUserId(req) || null);
+    res.status(201).json(merge);
+  } catch (error) {
+    sendMergeError(res, error, "Failed to merge contacts");
+  }
+});
+
+// GET /api/duplicates/merges - Журнал объединений (последние 100)
+router.get("/api/duplicates/merges", async (req, res) => {
+  try {
+    res.json(await duplicatesRepository.getMerges());
+  } catch (error) {
+    console.error("Error fetching merges:", error);
+    res.status(500).json({ error: "Failed to fetch merges" });
+  }
+});
+
+// POST /api/duplicates/merges/:id/undo - Отменить объединение: вернуть удалённую запись и перенесённые ссылки
+router.post("/api/duplicates/merges/:id/undo", async (req, res) => {
+  try {
+    const merge = await duplicatesService.undoMerge(req.params.id, getRequestUserId(req) || null);
+    res.json(merge);
+  } catch (error) {
+    sendMergeError(res, error, "Failed to undo merge");
+  }
+});
@@ -0,0 +1,282 @@
+import { toE164 } from "@shared/phone";
+import type { Client, DealContact, RecordMerge } from "@shared/schema";
+import { duplicatesRepository } from "./repository";
+import type { DealContactWithDeal } from "./repository";
+
+export type MatchReason = "inn" | "email" | "phone" | "name";
+
+// Что сравниваем у клиента, контакта сделки или новой записи
+export interface MatchFields {
+  name?: string | null;
+  phone?: string | null;
+  email?: string | null;
+  inn?: string | null;
+}
+
+export interface DuplicateMatch<T> {
+  record: T;
+  score: number;
+  reasons: MatchReason[];
+  name_similarity: number;
+}
+
+export interface DuplicatePair<T> {
+  a: T;
+  b: T;
+  score: number;
+  reasons: MatchReason[];
+  name_similarity: number;
+}
+
+export interface DuplicateCheckResult {
+  clients: DuplicateMatch<Client>[];
+  deal_contacts: DuplicateMatch<DealContactWithDeal>[];
+}
+
+export class MergeError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "MergeError";
+    Object.setPrototypeOf(this, MergeError.prototype);
+  }
+}
+
+// Ниже этого порога пара в отчёт не попадает
+export const DUPLICATE_SCORE_THRESHOLD = 0.7;
+// Похожесть имён, с которой совпадение одного имени уже считается возможным дублем
+const NAME_SIMILARITY_THRESHOLD = 0.88;
+// Записи с одинаковым ключом имени сравниваются попарно; огромные группы (частые слова) пропускаем
+const MAX_NAME_BLOCK = 200;
+
+// Организационно-правовые формы и кавычки не отличают клиентов друг от друга
+const LEGAL_FORMS = new Set(["ооо", "оао", "зао", "пао", "ао", "ип", "нко", "llc", "ltd", "inc"]);
+
+function normalizeName(name: string | null | undefined): string {
+  return (name || "")
+    .toLowerCase()
+    .replace(/ё/g, "е")
+    .replace(/[^a-zа-я0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter((token) => token && !LEGAL_FORMS.has(token))
+    .sort()
+    .join(" ");
+}
+
+function normalizeEmail(email: string | null | undefined): string | null {
+  const normalized = (email || "").trim().toLowerCase();
+  return normalized || null;
+}
+
+function normalizeInn(inn: string | null | undefined): string | null {
+  const digits = (inn || "").replace(/\D/g, "");
+  return digits.length === 10 || digits.length === 12 ? digits : null;
+}
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+interface Normalized {
+  name: string;
+  phone: string | null;
+  email: string | null;
+  inn: string | null;
+}
+
+function normalize(fields: MatchFields): Normalized {
+  return {
+    name: normalizeName(fields.name),
+    phone: toE164(fields.phone),
+    email: normalizeEmail(fields.email),
+    inn: normalizeInn(fields.inn),
+  };
+}
+
+/**
+ * ИНН и email почти однозначно указывают на одного клиента, телефон — чуть слабее
+ * (бывает общий номер офиса), похожее имя — слабее всего. Каждое следующее совпадение добавляет уверенности.
+ * Имена сравниваются с отсортированными словами: «Иванов Иван» и «Иван Иванов» совпадают полностью.
+ */
+function scorePair(a: Normalized, b: Normalized): { score: number; reasons: MatchReason[]; name_similarity: number } {
+  const reasons: MatchReason[] = [];
+  const weights: number[] = [];
+
+  if (a.inn && a.inn === b.inn) { reasons.push("inn"); weights.push(1); }
+  if (a.email && a.email === b.email) { reasons.push("email"); weights.push(0.95); }
+  if (a.phone && a.phone === b.phone) { reasons.push("phone"); weights.push(0.85); }
+
+  const similarity = a.name && b.name
+    ? 1 - levenshtein(a.name, b.name) / Math.max(a.name.length, b.name.length)
+    : 0;
+  if (similarity >= NAME_SIMILARITY_THRESHOLD) { reasons.push("name"); weights.push(0.8 * similarity); }
+
+  if (weights.length === 0) return { score: 0, reasons, name_similarity: similarity };
+
+  const score = Math.min(1, Math.max(...weights) + 0.05 * (weights.length - 1));
+  return { score: Math.round(score * 100) / 100, reasons, name_similarity: Math.round(similarity * 100) / 100 };
+}
+
+// Ключи, по которым записи попадают в одну группу для попарного сравнения
+function blockKeys(fields: Normalized): string[] {
+  const keys: string[] = [];
+  if (fields.inn) keys.push(`inn:${fields.inn}`);
+  if (fields.email) keys.push(`email:${fields.email}`);
+  if (fields.phone) keys.push(`phone:${fields.phone}`);
+  for (const token of fields.name.split(" ")) {
+    if (token.length >= 3) keys.push(`name:${token.slice(0, 4)}`);
+  }
+  return keys;
+}
+
+function findPairs<T extends { id: string }>(records: T[], toFields: (record: T) => MatchFields): DuplicatePair<T>[] {
+  const normalized = new Map(records.map((record) => [record.id, normalize(toFields(record))]));
+  const blocks = new Map<string, T[]>();
+
+  for (const record of records) {
+    for (const key of blockKeys(normalized.get(record.id)!)) {
+      const block = blocks.get(key);
+      if (block) block.push(record);
+      else blocks.set(key, [record]);
+    }
+  }
+
+  const seen = new Set<string>();
+  const pairs: DuplicatePair<T>[] = [];
+
+  for (const [key, block] of Array.from(blocks.entries())) {
+    if (block.length < 2 || (key.startsWith("name:") && block.length > MAX_NAME_BLOCK)) continue;
+
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const [a, b] = block[i].id < block[j].id ? [block[i], block[j]] : [block[j], block[i]];
+        const pairKey = `${a.id}:${b.id}`;
+        if (seen.has(pairKey)) continue;
+        seen.add(pairKey);
+
+        const match = scorePair(normalized.get(a.id)!, normalized.get(b.id)!);
+        if (match.score >= DUPLICATE_SCORE_THRESHOLD) {
+          pairs.push({ a, b, ...match });
+        }
+      }
+    }
+  }
+
+  return pairs.sort((x, y) => y.score - x.score);
+}
+
+function findMatches<T>(target: MatchFields, records: T[], toFields: (record: T) => MatchFields): DuplicateMatch<T>[] {
+  const normalizedTarget = normalize(target);
+  return records
+    .map((record) => ({ record, ...scorePair(normalizedTarget, normalize(toFields(record))) }))
+    .filter((match) => match.score >= DUPLICATE_SCORE_THRESHOLD)
+    .sort((x, y) => y.score - x.score);
+}
+
+/**
+ * Поля, которые пусты у оставшейся записи, но заполнены у удаляемой
+ */
+function missingFields<T extends Record<string, any>>(survivor: T, merged: T, fields: Array<keyof T & string>): Partial<T> {
+  const patch: Partial<T> = {};
+  for (const field of fields) {
+    if ((survivor[field] === null || survivor[field] === undefined || survivor[field] === "") && merged[field]) {
+      patch[field] = merged[field];
+    }
+  }
+  return patch;
+}
+
+const clientFields = (client: Client): MatchFields => ({
+  name: client.name, phone: client.phone, email: client.email, inn: client.inn,
+});
+
+const dealContactFields = (contact: DealContact): MatchFields => ({
+  name: contact.name, phone: contact.phone, email: contact.email,
+});
+
+export class DuplicatesService {
+  async findClientDuplicates(): Promise<DuplicatePair<Client>[]> {
+    return findPairs(await duplicatesRepository.getClients(), clientFields);
+  }
+
+  async findDealContactDuplicates(): Promise<DuplicatePair<DealContactWithDeal>[]> {
+    return findPairs(await duplicatesRepository.getDealContacts(), dealContactFields);
+  }
+
+  /**
+   * Проверка новой записи (клиента или сделки) на совпадение с существующими клиентами и контактами сделок
+   */
+  async check(fields: MatchFields, options: { excludeClientId?: string } = {}): Promise<DuplicateCheckResult> {
+    const [allClients, contacts] = await Promise.all([
+      duplicatesRepository.getClients(),
+      duplicatesRepository.getDealContacts(),
+    ]);
+
+    return {
+      clients: findMatches(fields, allClients.filter((client) => client.id !== options.excludeClientId), clientFields),
+      deal_contacts: findMatches(fields, contacts, dealContactFields),
+    };
+  }
+
+  async mergeClients(survivorId: string, mergedId: string, userId: string | null): Promise<RecordMerge> {
+    if (survivorId === mergedId) throw new MergeError("Нельзя объединить клиента с самим собой");
+
+    const [survivor, merged] = await Promise.all([
+      duplicatesRepository.getClientById(survivorId),
+      duplicatesRepository.getClientById(mergedId),
+    ]);
+    if (!survivor || !merged) throw new MergeError("Client not found", 404);
+
+    const patch = missingFields(survivor, merged, ["contact_person", "phone", "email", "address", "inn"]);
+    if (merged.notes && merged.notes !== survivor.notes) {
+      patch.notes = survivor.notes ? `${survivor.notes}\n${merged.notes}` : merged.notes;
+    }
+
+    return await duplicatesRepository.mergeClients(survivor, merged, patch, userId);
+  }
+
+  /**
+   * Контакт принадлежит сделке, поэтому объединяются только дубли внутри одной сделки.
+   * Один человек в разных сделках — это один клиент: такие сделки связываются через client_id.
+   */
+  async mergeDealContacts(survivorId: string, mergedId: string, userId: string | null): Promise<RecordMerge> {
+    if (survivorId === mergedId) throw new MergeError("Нельзя объединить контакт с самим собой");
+
+    const [survivor, merged] = await Promise.all([
+      duplicatesRepository.getDealContactById(survivorId),
+      duplicatesRepository.getDealContactById(mergedId),
+    ]);
+    if (!survivor || !merged) throw new MergeError("Contact not found", 404);
+    if (survivor.deal_id !== merged.deal_id) {
+      throw new MergeError("Контакты из разных сделок не объединяются — привяжите сделки к одному клиенту");
+    }
+
+    const patch = missingFields(survivor, merged, ["position", "phone", "email"]);
+    if (merged.is_primary && !survivor.is_primary) patch.is_primary = 1;
+
+    return await duplicatesRepository.mergeDealContacts(survivor, merged, patch, userId);
+  }
+
+  async undoMerge(mergeId: string, userId: string | null): Promise<RecordMerge> {
+    const merge = await duplicatesRepository.getMergeById(mergeId);
+    if (!merge) throw new MergeError("Merge not found", 404);
+    if (merge.undone_at) throw new MergeError("Объединение уже отменено", 409);
+
+    await duplicatesRepository.undoMerge(merge, userId);
+    return (await duplicatesRepository.getMergeById(mergeId))!;
+  }
+}
+
+export const duplicatesService = new DuplicatesService();
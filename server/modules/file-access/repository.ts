@@ -0,0 +1,124 @@
+import { db } from "../../db";
+import { eq, or } from "drizzle-orm";
+import {
+  deal_attachments, deal_documents, stage_documents, task_attachments, documents,
+  project_supplier_documents, board_card_attachments, board_cards, board_columns,
+  project_stages, deals, tasks, users,
+} from "@shared/schema";
+import type { UniversalAttachment } from "../attachments/repository";
+
+// Entity whose permissions decide who may read a file
+export type FileOwnerType = "deal" | "project" | "task" | "board" | "document";
+
+export interface FileOwner {
+  type: FileOwnerType;
+  id: string | null;
+  is_financial: boolean;
+}
+
+function owner(type: FileOwnerType, id: string | null, isFinancial: unknown = false): FileOwner {
+  // deal_documents.is_financial is an integer column on SQLite
+  return { type, id, is_financial: isFinancial === true || isFinancial === 1 };
+}
+
+export class FileAccessRepository {
+  async getAttachmentOwner(attachment: Pick<UniversalAttachment, "id" | "source">): Promise<FileOwner | null> {
+    const { id } = attachment;
+
+    switch (attachment.source) {
+      case "deal": {
+        const [row] = await db.select({ deal_id: deal_attachments.deal_id, is_financial: deal_attachments.is_financial })
+          .from(deal_attachments).where(eq(deal_attachments.id, id));
+        return row ? owner("deal", row.deal_id, row.is_financial) : null;
+      }
+      case "deal_document": {
+        const [row] = await db.select({ deal_id: deal_documents.deal_id, is_financial: deal_documents.is_financial })
+          .from(deal_documents).where(eq(deal_documents.id, id));
+        return row ? owner("deal", row.deal_id, row.is_financial) : null;
+      }
+      case "stage": {
+        const [row] = await db.select({ project_id: project_stages.project_id })
+          .from(stage_documents)
+          .innerJoin(project_stages, eq(stage_documents.stage_id, project_stages.id))
+          .where(eq(stage_documents.id, id));
+        return row ? owner("project", row.project_id) : null;
+      }
+      case "task": {
+        const [row] = await db.select({ task_id: task_attachments.task_id })
+          .from(task_attachments).where(eq(task_attachments.id, id));
+        return row ? owner("task", row.task_id) : null;
+      }
+      case "document": {
+        const [row] = await db.select({ id: documents.id }).from(documents).where(eq(documents.id, id));
+        return row ? owner("document", row.id) : null;
+      }
+      case "supplier_document": {
+        const [row] = await db.select({ project_id: project_supplier_documents.project_id })
+          .from(project_supplier_documents).where(eq(project_supplier_documents.id, id));
+        return row ? owner("project", row.project_id) : null;
+      }
+      default:
+        return null;
+    }
+  }
+
+  async getBoardAttachmentOwner(attachmentId: string): Promise<FileOwner | null> {
+    const [row] = await db.select({ board_id: board_columns.board_id })
+      .from(board_card_attachments)
+      .innerJoin(board_cards, eq(board_card_attachments.card_id, board_cards.id))
+      .innerJoin(board_columns, eq(board_cards.column_id, board_columns.id))
+      .where(eq(board_card_attachments.id, attachmentId));
+    return row ? owner("board", row.board_id) : null;
+  }
+
+  /**
+   * Owners of a file served from /objects/<name>: every record that references the path.
+   * Empty for files that no record references (e.g. images in comments or fresh uploads).
+   */
+  async findOwnersByFilePath(objectPath: string): Promise<FileOwner[]> {
+    const [
+      dealAttachmentRows, dealDocumentRows, stageDocumentRows, taskAttachmentRows,
+      documentRows, supplierDocumentRows, boardAttachmentRows,
+    ] = await Promise.all([
+      db.select({ id: deal_attachments.id }).from(deal_attachments).where(eq(deal_attachments.file_path, objectPath)),
+      db.select({ id: deal_documents.id }).from(deal_documents).where(eq(deal_documents.file_url, objectPath)),
+      db.select({ id: stage_documents.id }).from(stage_documents)
+        .where(or(eq(stage_documents.file_path, objectPath), eq(stage_documents.file_url, objectPath))),
+      db.select({ id: task_attachments.id }).from(task_attachments).where(eq(task_attachments.file_path, objectPath)),
+      db.select({ id: documents.id }).from(documents).where(eq(documents.file_path, objectPath)),
+      db.select({ id: project_supplier_documents.id }).from(project_supplier_documents)
+        .where(eq(project_supplier_documents.file_path, objectPath)),
+      db.select({ id: board_card_attachments.id }).from(board_card_attachments)
+        .where(eq(board_card_attachments.file_path, objectPath)),
+    ]);
+
+    const owners = await Promise.all([
+      ...dealAttachmentRows.map(({ id }: { id: string }) => this.getAttachmentOwner({ id, source: "deal" })),
+      ...dealDocumentRows.map(({ id }: { id: string }) => this.getAttachmentOwner({ id, source: "deal_document" })),
+      ...stageDocumentRows.map(({ id }: { id: string }) => this.getAttachmentOwner({ id, source: "stage" })),
+      ...taskAttachmentRows.map(({ id }: { id: string }) => this.getAttachmentOwner({ id, source: "task" })),
+      ...documentRows.map(({ id }: { id: string }) => Promise.resolve(owner("document", id))),
+      ...supplierDocumentRows.map(({ id }: { id: string }) => this.getAttachmentOwner({ id, source: "supplier_document" })),
+      ...boardAttachmentRows.map(({ id }: { id: string }) => this.getBoardAttachmentOwner(id)),
+    ]);
+    return owners.filter((item): item is FileOwner => item !== null);
+  }
+
+  async getDealManagerId(dealId: string): Promise<string | null> {
+    const [deal] = await db.select({ manager_id: deals.manager_id }).from(deals).where(eq(deals.id, dealId));
+    return deal?.manager_id || null;
+  }
+
+  async getTaskParticipants(taskId: string): Promise<{ assignee_id: string | null; created_by: string | null } | undefined> {
+    const [task] = await db.select({ assignee_id: tasks.assignee_id, created_by: tasks.created_by })
+      .from(tasks).where(eq(tasks.id, taskId));
+    return task;
+  }
+
+  async canViewFinancial(userId: string): Promise<boolean> {
+    const [user] = await db.select({ can_view_financial: users.can_view_financial }).from(users).where(eq(users.id, userId));
+    return user?.can_view_financial === true;
+  }
+}
+
+export const fileAccessRepository = new FileAccessRepository();
@@ -0,0 +1,149 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { permissionsService } from "../permissions/service";
+import { projectsRepository } from "../projects/repository";
+import { boardRepository } from "../board/repository";
+import { getSessionSecret } from "../auth/service";
+import { fileAccessRepository } from "./repository";
+import type { FileOwner, FileOwnerType } from "./repository";
+
+// Permission module that governs the files of each owner type
+const OWNER_MODULES: Record<FileOwnerType, string> = {
+  deal: "sales",
+  project: "projects",
+  task: "tasks",
+  board: "tasks",
+  document: "documents",
+};
+
+export const SHARE_LINK_DEFAULT_MINUTES = 60;
+export const SHARE_LINK_MAX_MINUTES = 7 * 24 * 60;
+// Upload token lifetime: the attachment record is created right after the upload
+const UPLOAD_TOKEN_MINUTES = 24 * 60;
+
+export interface ShareLink {
+  url: string;
+  expires_at: Date;
+}
+
+export class FileAccessService {
+  /**
+   * A file is readable by users who can view its owning entity:
+   * module view permission, then the record itself (own deal / project participant / task participant /
+   * board member) unless the role has view_all. Financial documents also need can_view_financial.
+   */
+  async canRead(userId: string | undefined, owner: FileOwner): Promise<boolean> {
+    if (!userId) return false;
+
+    const userPermissions = await permissionsService.getUserPermissions(userId);
+    if (!userPermissions || !userPermissions.isActive) return false;
+    if (permissionsService.isAdmin(userPermissions)) return true;
+
+    const module = OWNER_MODULES[owner.type];
+    if (!permissionsService.can(userPermissions, module, "view")) return false;
+
+    if (owner.is_financial && !(await fileAccessRepository.canViewFinancial(userId))) return false;
+
+    if (!owner.id || permissionsService.resolveModule(userPermissions, module)?.view_all) return true;
+
+    switch (owner.type) {
+      case "deal":
+        return (await fileAccessRepository.getDealManagerId(owner.id)) === userId;
+      case "project":
+        return (await projectsRepository.getProjectIdsForUser(userId)).has(owner.id);
+      case "task": {
+        const task = await fileAccessRepository.getTaskParticipants(owner.id);
+        return !!task && (task.assignee_id === userId || task.created_by === userId);
+      }
+      case "board":
+        return (await boardRepository.getBoardIdsForUser(userId)).has(owner.id);
+      default:
+        return true;
+    }
+  }
+
+  /**
+   * Files under /objects/ that no record references are readable by any signed in user
+   */
+  async canReadObject(userId: string | undefined, objectPath: string): Promise<boolean> {
+    if (!userId) return false;
+
+    // A path referenced by several records is readable only if every owner allows it
+    const owners = await fileAccessRepository.findOwnersByFilePath(objectPath);
+    for (const owner of owners) {
+      if (!(await this.canRead(userId, owner))) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Token returned by /api/objects/upload: proves that the caller uploaded the file at objectPath
+   */
+  createUploadToken(userId: string, objectPath: string): string {
+    const expires = Math.floor(Date.now() / 1000) + UPLOAD_TOKEN_MINUTES * 60;
+    return `${expires}.${this.signUpload(userId, objectPath, expires)}`;
+  }
+
+  /**
+   * A new attachment record may point only at the caller's own upload that no record references yet,
+   * otherwise attaching a path would grant access to another entity's file. Returns the refusal, null if allowed
+   */
+  async checkNewAttachmentPath(userId: string, objectPath: unknown, uploadToken: unknown): Promise<{ status: number; error: string } | null> {
+    if (typeof objectPath !== "string" || !/^\/objects\/[^/]+$/.test(objectPath)) {
+      return { status: 400, error: "Файл должен быть загружен через /api/objects/upload" };
+    }
+
+    const [expires, signature] = typeof uploadToken === "string" ? uploadToken.split(".") : [];
+    const expiresAt = Number(expires);
+    if (!Number.isInteger(expiresAt) || expiresAt * 1000 < Date.now() || !signature) {
+      return { status: 403, error: "Файл загружен не вами или ссылка на загрузку устарела" };
+    }
+    const expected = Buffer.from(this.signUpload(userId, objectPath, expiresAt));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      return { status: 403, error: "Файл загружен не вами или ссылка на загрузку устарела" };
+    }
+
+    if ((await fileAccessRepository.findOwnersByFilePath(objectPath)).length > 0) {
+      return { status: 409, error: "Файл уже прикреплён к другой записи" };
+    }
+    return null;
+  }
+
+  /**
+   * Link that downloads the attachment without a session until it expires
+   */
+  createShareLink(attachmentId: string, minutes: number = SHARE_LINK_DEFAULT_MINUTES): ShareLink {
+    const expires = Math.floor(Date.now() / 1000) + Math.min(minutes, SHARE_LINK_MAX_MINUTES) * 60;
+    const signature = this.sign(attachmentId, expires);
+
+    return {
+      url: `/api/shared-files/${encodeURIComponent(attachmentId)}?expires=${expires}&signature=${signature}`,
+      expires_at: new Date(expires * 1000),
+    };
+  }
+
+  verifyShareLink(attachmentId: string, expires: unknown, signature: unknown): boolean {
+    const expiresAt = Number(expires);
+    if (!Number.isInteger(expiresAt) || expiresAt * 1000 < Date.now() || typeof signature !== "string") {
+      return false;
+    }
+
+    const expected = Buffer.from(this.sign(attachmentId, expiresAt));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  private signUpload(userId: string, objectPath: string, expires: number): string {
+    return createHmac("sha256", getSessionSecret())
+      .update(`upload:${userId}:${objectPath}:${expires}`)
+      .digest("base64url");
+  }
+
+  private sign(attachmentId: string, expires: number): string {
+    return createHmac("sha256", getSessionSecret())
+      .update(`shared-file:${attachmentId}:${expires}`)
+      .digest("base64url");
+  }
+}
+
+export const fileAccessService = new FileAccessService();
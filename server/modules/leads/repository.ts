@@ -0,0 +1,117 @@
+import { db } from "../../db";
+import { and, desc, eq, isNotNull, isNull, sql } from "drizzle-orm";
+import { deals, inbound_leads, lead_sources } from "@shared/schema";
+import type { InboundLead, InsertInboundLead, InsertLeadSource, LeadSource } from "@shared/schema";
+
+export type PublicLeadSource = Omit<LeadSource, "token_hash">;
+
+// Открытая сделка для поиска повторной заявки
+export interface OpenDealContact {
+  id: string;
+  client_id: string | null;
+  client_name: string;
+  manager_id: string | null;
+  stage: string;
+  contact_phone: string | null;
+  contact_email: string | null;
+}
+
+const withoutHash = ({ token_hash, ...source }: LeadSource): PublicLeadSource => source;
+
+export class LeadsRepository {
+  async getSources(): Promise<PublicLeadSource[]> {
+    const result = await db.select().from(lead_sources).orderBy(lead_sources.name);
+    return result.map(withoutHash);
+  }
+
+  async getSource(id: string): Promise<PublicLeadSource | undefined> {
+    const [source] = await db.select().from(lead_sources).where(eq(lead_sources.id, id));
+    return source ? withoutHash(source) : undefined;
+  }
+
+  async getActiveSourceByTokenHash(tokenHash: string): Promise<LeadSource | undefined> {
+    const [source] = await db.select().from(lead_sources)
+      .where(and(eq(lead_sources.token_hash, tokenHash), eq(lead_sources.is_active, true)))
+      .limit(1);
+    return source;
+  }
+
+  async createSource(data: InsertLeadSource & { token_prefix: string; token_hash: string; created_by: string | null }): Promise<PublicLeadSource> {
+    const [source] = await db.insert(lead_sources).values(data).returning();
+    return withoutHash(source);
+  }
+
+  async updateSource(id: string, data: Partial<InsertLeadSource> & { token_prefix?: string; token_hash?: string }): Promise<PublicLeadSource | undefined> {
+    const [source] = await db.update(lead_sources)
+      .set({ ...data, updated_at: new Date() })
+      .where(eq(lead_sources.id, id))
+      .returning();
+    return source ? withoutHash(source) : undefined;
+  }
+
+  async deleteSource(id: string): Promise<boolean> {
+    const result = await db.delete(lead_sources).where(eq(lead_sources.id, id)).returning();
+    return result.length > 0;
+  }
+
+  /**
+   * Сдвигает очередь round_robin и возвращает новое значение счётчика (атомарно для параллельных заявок)
+   */
+  async nextRoundRobin(id: string): Promise<number> {
+    const [source] = await db.update(lead_sources)
+      .set({ rr_cursor: sql`${lead_sources.rr_cursor} + 1` })
+      .where(eq(lead_sources.id, id))
+      .returning({ rr_cursor: lead_sources.rr_cursor });
+    return source?.rr_cursor ?? 1;
+  }
+
+  async touchSource(id: string): Promise<void> {
+    await db.update(lead_sources).set({ last_lead_at: new Date() }).where(eq(lead_sources.id, id));
+  }
+
+  async getOpenDeals(): Promise<OpenDealContact[]> {
+    return await db
+      .select({
+        id: deals.id,
+        client_id: deals.client_id,
+        client_name: deals.client_name,
+        manager_id: deals.manager_id,
+        stage: deals.stage,
+        contact_phone: deals.contact_phone,
+        contact_email: deals.contact_email,
+      })
+      .from(deals)
+      .where(isNull(deals.outcome));
+  }
+
+  // Менеджер последней сделки клиента — повторный клиент остаётся у своего менеджера
+  async getClientManager(clientId: string): Promise<string | null> {
+    const [deal] = await db
+      .select({ manager_id: deals.manager_id })
+      .from(deals)
+      .where(and(eq(deals.client_id, clientId), isNotNull(deals.manager_id)))
+      .orderBy(desc(deals.created_at))
+      .limit(1);
+    return deal?.manager_id ?? null;
+  }
+
+  async createLead(data: InsertInboundLead): Promise<InboundLead> {
+    const [lead] = await db.insert(inbound_leads).values(data).returning();
+    return lead;
+  }
+
+  async getLeads(filters: { sourceId?: string; limit: number }): Promise<InboundLead[]> {
+    return await db.select().from(inbound_leads)
+      .where(filters.sourceId ? eq(inbound_leads.source_id, filters.sourceId) : undefined)
+      .orderBy(desc(inbound_leads.created_at))
+      .limit(filters.limit);
+  }
+
+  async getDealLeads(dealId: string): Promise<InboundLead[]> {
+    return await db.select().from(inbound_leads)
+      .where(eq(inbound_leads.deal_id, dealId))
+      .orderBy(desc(inbound_leads.created_at));
+  }
+}
+
+export const leadsRepository = new LeadsRepository();
@@ -0,0 +1,162 @@
+import { Router } from "express";
+import { fromZodError } from "zod-validation-error";
+import { insertLeadSourceSchema } from "@shared/schema";
+import { leadsRepository } from "./repository";
+import { leadIntakeService, LeadIntakeError } from "./service";
+import { messengersRepository } from "../messengers/repository";
+import { checkAdminOnly, checkStrictAdmin } from "../../middleware/permissions";
+import { getRequestUserId } from "../../middleware/auth";
+import { rateLimit } from "../../middleware/rateLimit";
+
+export const router = Router();
+
+const DEFAULT_LEADS_LIMIT = 100;
+const MAX_LEADS_LIMIT = 500;
+
+// ========== Публичный приём заявок ==========
+
+// POST /api/leads/intake/:token - заявка с сайта, маркетплейса или вебхука Tilda (JSON или form-urlencoded)
+router.post("/api/leads/intake/:token", rateLimit("leads"), async (req, res) => {
+  try {
+    const result = await leadIntakeService.intake(req.params.token, req.body, req.ip || req.socket.remoteAddress || null);
+
+    if (!result) {
+      res.status(401).json({ error: "Invalid lead source token" });
+      return;
+    }
+
+    // Tilda при подключении вебхука ждёт в ответ «ok»
+    if (result.status === "test") {
+      res.send("ok");
+      return;
+    }
+
+    res.status(result.status === "created" ? 201 : 200).json({ ok: true, ...result });
+  } catch (error) {
+    if (error instanceof LeadIntakeError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    console.error("Error receiving inbound lead:", error);
+    res.status(500).json({ error: "Failed to receive lead" });
+  }
+});
+
+// ========== Журнал заявок ==========
+
+// GET /api/leads - последние заявки (?source_id=, ?limit=)
+router.get("/api/leads", async (req, res) => {
+  try {
+    const sourceId = typeof req.query.source_id === "string" && req.query.source_id ? req.query.source_id : undefined;
+    const limit = Math.min(Number(req.query.limit) || DEFAULT_LEADS_LIMIT, MAX_LEADS_LIMIT);
+    res.json(await leadsRepository.getLeads({ sourceId, limit }));
+  } catch (error) {
+    console.error("Error fetching inbound leads:", error);
+    res.status(500).json({ error: "Failed to fetch leads" });
+  }
+});
+
+// GET /api/deals/:id/leads - заявки, из которых создана сделка или которые к ней дописаны
+router.get("/api/deals/:id/leads", async (req, res) => {
+  try {
+    res.json(await leadsRepository.getDealLeads(req.params.id));
+  } catch (error) {
+    console.error("Error fetching deal leads:", error);
+    res.status(500).json({ error: "Failed to fetch deal leads" });
+  }
+});
+
+// ========== Источники заявок ==========
+
+// GET /api/lead-sources - источники заявок (без токенов)
+router.get("/api/lead-sources", async (req, res) => {
+  try {
+    res.json(await leadsRepository.getSources());
+  } catch (error) {
+    console.error("Error fetching lead sources:", error);
+    res.status(500).json({ error: "Failed to fetch lead sources" });
+  }
+});
+
+// POST /api/lead-sources - создать источник (токен возвращается один раз)
+router.post("/api/lead-sources", checkAdminOnly(), async (req, res) => {
+  try {
+    const validationResult = insertLeadSourceSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      const errorMessage = fromZodError(validationResult.error).toString();
+      res.status(400).json({ error: errorMessage });
+      return;
+    }
+
+    const result = await leadIntakeService.createSource(validationResult.data, getRequestUserId(req) || null);
+    res.status(201).json(result);
+  } catch (error) {
+    console.error("Error creating lead source:", error);
+    res.status(500).json({ error: "Failed to create lead source" });
+  }
+});
+
+// PUT /api/lead-sources/:id - воронка, этап, распределение, включение
+router.put("/api/lead-sources/:id", checkAdminOnly(), async (req, res) => {
+  try {
+    const validationResult = insertLeadSourceSchema.partial().safeParse(req.body);
+
+    if (!validationResult.success) {
+      const errorMessage = fromZodError(validationResult.error).toString();
+      res.status(400).json({ error: errorMessage });
+      return;
+    }
+
+    const source = await leadsRepository.updateSource(req.params.id, validationResult.data);
+
+    if (!source) {
+      res.status(404).json({ error: "Lead source not found" });
+      return;
+    }
+
+    res.json(source);
+  } catch (error) {
+    console.error("Error updating lead source:", error);
+    res.status(500).json({ error: "Failed to update lead source" });
+  }
+});
+
+// POST /api/lead-sources/:id/token - выпустить новый токен (старый перестаёт работать)
+router.post("/api/lead-sources/:id/token", checkStrictAdmin(), async (req, res) => {
+  try {
+    const result = await leadIntakeService.regenerateToken(req.params.id);
+
+    if (!result) {
+      res.status(404).json({ error: "Lead source not found" });
+      return;
+    }
+
+    res.json(result);
+  } catch (error) {
+    console.error("Error regenerating lead source token:", error);
+    res.status(500).json({ error: "Failed to regenerate token" });
+  }
+});
+
+// DELETE /api/lead-sources/:id - удалить источник; журнал заявок остаётся
+router.delete("/api/lead-sources/:id", checkAdminOnly(), async (req, res) => {
+  try {
+    if (await messengersRepository.countSourceChannels(req.params.id) > 0) {
+      res.status(409).json({ error: "Источник используется каналом мессенджера" });
+      return;
+    }
+
+    const deleted = await leadsRepository.deleteSource(req.params.id);
+
+    if (!deleted) {
+      res.status(404).json({ error: "Lead source not found" });
+      return;
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    console.error("Error deleting lead source:", error);
+    res.status(500).json({ error: "Failed to delete lead source" });
+  }
+});
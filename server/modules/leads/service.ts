@@ -0,0 +1,286 @@
+import { createHash, randomBytes } from "crypto";
+import type { Client, InboundLeadStatus, InsertLeadSource } from "@shared/schema";
+import { normalizePhone, toE164 } from "@shared/phone";
+import { parseLeadAssignment } from "@shared/leadIntake";
+import { leadsRepository, type OpenDealContact, type PublicLeadSource } from "./repository";
+import { salesRepository } from "../sales/repository";
+import { salesPipelinesRepository } from "../sales-pipelines/repository";
+import { clientsRepository } from "../clients/repository";
+import { usersRepository } from "../users/repository";
+import { activityLogsRepository } from "../tasks/repository";
+
+// Токены выглядят как eml_<random>; префикс помогает узнать токен в списке источников
+const LEAD_TOKEN_PREFIX = "eml_";
+const TOKEN_PREFIX_LENGTH = 12;
+
+// Сделки в этих этапах закрыты, даже если итог не проставлен (созданы до появления outcome)
+const CLOSED_STAGE_KEYS = ["won", "lost"];
+
+// Поля заявки после разбора тела запроса
+export interface ParsedLead {
+  name: string | null;
+  phone: string | null;
+  email: string | null;
+  company: string | null;
+  comment: string | null;
+  form: string | null;
+  page_url: string | null;
+  utm_source: string | null;
+  utm_medium: string | null;
+  utm_campaign: string | null;
+  utm_content: string | null;
+  utm_term: string | null;
+}
+
+// Как поле может называться в формах сайта, Tilda и маркетплейсах (ключи сравниваются в нижнем регистре)
+const FIELD_ALIASES: Record<keyof ParsedLead, string[]> = {
+  name: ["name", "fio", "full_name", "client_name", "contact_name", "имя", "фио"],
+  phone: ["phone", "tel", "telephone", "phone_number", "contact_phone", "телефон"],
+  email: ["email", "e-mail", "mail", "contact_email", "почта"],
+  company: ["company", "company_name", "organization", "компания"],
+  comment: ["comment", "message", "text", "question", "комментарий", "сообщение", "вопрос"],
+  form: ["formname", "form_name", "formid", "form_id", "form"],
+  page_url: ["page_url", "page", "url", "referer", "referrer"],
+  utm_source: ["utm_source"],
+  utm_medium: ["utm_medium"],
+  utm_campaign: ["utm_campaign"],
+  utm_content: ["utm_content"],
+  utm_term: ["utm_term"],
+};
+
+export interface IntakeResult {
+  status: InboundLeadStatus;
+  lead_id: string;
+  deal_id: string | null;
+  client_id: string | null;
+  manager_id: string | null;
+}
+
+export class LeadIntakeError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "LeadIntakeError";
+    Object.setPrototypeOf(this, LeadIntakeError.prototype);
+  }
+}
+
+function stringValue(value: unknown): string | null {
+  if (Array.isArray(value)) return stringValue(value.filter((item) => item !== null && item !== undefined).join(", "));
+  if (typeof value === "number") return String(value);
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return trimmed ? trimmed : null;
+}
+
+/**
+ * Ключи тела в нижнем регистре; вложенные объекты раскрываются на один уровень:
+ * { utm: { source } } → utm_source, { contact: { phone } } → contact_phone и phone
+ */
+function flattenBody(body: unknown): Map<string, unknown> {
+  const fields = new Map<string, unknown>();
+  if (!body || typeof body !== "object") return fields;
+
+  for (const [key, value] of Object.entries(body as Record<string, unknown>)) {
+    const lowerKey = key.trim().toLowerCase();
+    if (value && typeof value === "object" && !Array.isArray(value)) {
+      for (const [nestedKey, nestedValue] of Object.entries(value as Record<string, unknown>)) {
+        const lowerNested = nestedKey.trim().toLowerCase();
+        fields.set(`${lowerKey}_${lowerNested}`, nestedValue);
+        if (!fields.has(lowerNested)) fields.set(lowerNested, nestedValue);
+      }
+    } else {
+      fields.set(lowerKey, value);
+    }
+  }
+  return fields;
+}
+
+function normalizeEmail(email: string | null | undefined): string | null {
+  return email?.trim().toLowerCase() || null;
+}
+
+export class LeadIntakeService {
+  hashToken(token: string): string {
+    return createHash("sha256").update(token).digest("hex");
+  }
+
+  private issueToken(): { token: string; token_prefix: string; token_hash: string } {
+    const token = `${LEAD_TOKEN_PREFIX}${randomBytes(24).toString("base64url")}`;
+    return { token, token_prefix: token.slice(0, TOKEN_PREFIX_LENGTH), token_hash: this.hashToken(token) };
+  }
+
+  /**
+   * Создаёт источник заявок. Токен возвращается только здесь, в базе хранится его хеш
+   */
+  async createSource(data: InsertLeadSource, createdBy: string | null): Promise<{ token: string; source: PublicLeadSource }> {
+    const { token, ...tokenFields } = this.issueToken();
+    const source = await leadsRepository.createSource({ ...data, ...tokenFields, created_by: createdBy });
+    return { token, source };
+  }
+
+  // Новый токен; старый сразу перестаёт приниматься
+  async regenerateToken(id: string): Promise<{ token: string; source: PublicLeadSource } | undefined> {
+    const { token, ...tokenFields } = this.issueToken();
+    const source = await leadsRepository.updateSource(id, tokenFields);
+    return source ? { token, source } : undefined;
+  }
+
+  /**
+   * Тестовый запрос Tilda при подключении вебхука: test=test
+   */
+  isTestRequest(body: unknown): boolean {
+    return flattenBody(body).get("test") === "test";
+  }
+
+  parsePayload(body: unknown): ParsedLead {
+    const fields = flattenBody(body);
+    const pick = (aliases: string[]) => {
+      for (const alias of aliases) {
+        const value = stringValue(fields.get(alias));
+        if (value) return value;
+      }
+      return null;
+    };
+
+    const lead = Object.fromEntries(
+      (Object.keys(FIELD_ALIASES) as Array<keyof ParsedLead>).map((field) => [field, pick(FIELD_ALIASES[field])])
+    ) as unknown as ParsedLead;
+
+    return { ...lead, phone: normalizePhone(lead.phone), email: normalizeEmail(lead.email) };
+  }
+
+  /**
+   * Принимает заявку по токену источника. undefined — токен неизвестен или источник отключён
+   */
+  async intake(token: string, body: unknown, ip: string | null): Promise<IntakeResult | undefined> {
+    const source = await leadsRepository.getActiveSourceByTokenHash(this.hashToken(token));
+    if (!source) return undefined;
+
+    const payload = JSON.stringify(body ?? {});
+    if (this.isTestRequest(body)) {
+      const lead = await leadsRepository.createLead({ source_id: source.id, status: "test", payload, ip });
+      return { status: "test", lead_id: lead.id, deal_id: null, client_id: null, manager_id: null };
+    }
+
+    const parsed = this.parsePayload(body);
+    if (!parsed.phone && !parsed.email) {
+      throw new LeadIntakeError("В заявке нет телефона или email");
+    }
+    return await this.accept(source, parsed, payload, ip);
+  }
+
+  /**
+   * Дописывает заявку к открытой сделке с тем же телефоном или email либо создаёт сделку по правилам источника.
+   * Мессенджеры передают сюда первое обращение собеседника, в котором контактов может не быть
+   */
+  async accept(source: PublicLeadSource, parsed: ParsedLead, payload: string, ip: string | null): Promise<IntakeResult> {
+    await leadsRepository.touchSource(source.id);
+
+    const openDeal = await this.findOpenDeal(parsed);
+    if (openDeal) {
+      const lead = await leadsRepository.createLead({
+        ...parsed, source_id: source.id, status: "duplicate", deal_id: openDeal.id, client_id: openDeal.client_id, payload, ip,
+      });
+      await this.logLead(openDeal.id, "updated", `Повторная заявка из «${source.name}»`, parsed.comment);
+      return { status: "duplicate", lead_id: lead.id, deal_id: openDeal.id, client_id: openDeal.client_id, manager_id: openDeal.manager_id };
+    }
+
+    const client = await this.findClient(parsed);
+    const managerId = (client && await leadsRepository.getClientManager(client.id)) || await this.assignManager(source, parsed);
+
+    const deal = await salesRepository.createDeal({
+      pipeline_id: source.pipeline_id,
+      stage: await this.entryStage(source),
+      client_id: client?.id ?? null,
+      client_name: client?.name || parsed.name || parsed.phone || parsed.email || source.name,
+      company: parsed.company,
+      amount: null,
+      production_days_count: null,
+      tags: null,
+      contact_phone: parsed.phone,
+      contact_email: parsed.email,
+      manager_id: managerId,
+      source: source.name,
+    });
+
+    const lead = await leadsRepository.createLead({
+      ...parsed, source_id: source.id, status: "created", deal_id: deal.id, client_id: client?.id ?? null, payload, ip,
+    });
+    await this.logLead(deal.id, "created", `Сделка создана по заявке из «${source.name}»`, parsed.comment);
+
+    return { status: "created", lead_id: lead.id, deal_id: deal.id, client_id: client?.id ?? null, manager_id: managerId };
+  }
+
+  /**
+   * Открытая сделка с тем же телефоном или email — новая заявка дописывается к ней
+   */
+  private async findOpenDeal(lead: ParsedLead): Promise<OpenDealContact | undefined> {
+    const phone = toE164(lead.phone);
+    const deals = await leadsRepository.getOpenDeals();
+    return deals.find((deal) =>
+      !CLOSED_STAGE_KEYS.includes(deal.stage) && (
+        (!!phone && toE164(deal.contact_phone) === phone) ||
+        (!!lead.email && normalizeEmail(deal.contact_email) === lead.email)
+      )
+    );
+  }
+
+  private async findClient(lead: ParsedLead): Promise<Client | undefined> {
+    const phone = toE164(lead.phone);
+    const clients = await clientsRepository.getActive();
+    return clients.find((client) =>
+      (!!phone && toE164(client.phone) === phone) ||
+      (!!lead.email && normalizeEmail(client.email) === lead.email)
+    );
+  }
+
+  // Этап источника или первый этап его воронки (без воронки — основной)
+  private async entryStage(source: PublicLeadSource): Promise<string> {
+    if (source.stage) return source.stage;
+    const pipelineId = source.pipeline_id || (await salesPipelinesRepository.findDefault())?.id;
+    const stages = pipelineId
+      ? await salesPipelinesRepository.findStages(pipelineId)
+      : await salesRepository.getAllDealStages();
+    return stages[0]?.key ?? "new";
+  }
+
+  /**
+   * Менеджер новой сделки: первое совпавшее правило, затем режим источника.
+   * Отключённые пользователи пропускаются
+   */
+  async assignManager(source: PublicLeadSource, lead: ParsedLead): Promise<string | null> {
+    const assignment = parseLeadAssignment(source.assignment);
+    const users = await usersRepository.getAllUsers();
+    const activeIds = new Set(users.filter((user) => user.is_active && !user.is_service_account).map((user) => user.id));
+
+    for (const rule of assignment.rules) {
+      const value = lead[rule.field];
+      if (value && value.toLowerCase().includes(rule.value.toLowerCase()) && activeIds.has(rule.manager_id)) {
+        return rule.manager_id;
+      }
+    }
+
+    const pool = assignment.manager_ids.filter((id) => activeIds.has(id));
+    if (pool.length === 0 || assignment.mode === "none") return null;
+    if (assignment.mode === "fixed") return pool[0];
+
+    const cursor = await leadsRepository.nextRoundRobin(source.id);
+    return pool[(cursor - 1) % pool.length];
+  }
+
+  private async logLead(dealId: string, actionType: string, title: string, comment: string | null): Promise<void> {
+    try {
+      await activityLogsRepository.logActivity({
+        entity_type: "deal",
+        entity_id: dealId,
+        action_type: actionType,
+        user_id: null,
+        description: comment ? `${title}: ${comment}` : title,
+      });
+    } catch (logError) {
+      console.warn("Failed to log inbound lead activity:", logError);
+    }
+  }
+}
+
+export const leadIntakeService = new LeadIntakeService();
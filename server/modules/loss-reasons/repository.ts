@@ -0,0 +1,49 @@
+import { db } from "../../db";
+import { asc, eq, sql } from "drizzle-orm";
+import type { InsertLossReason, LossReason } from "@shared/schema";
+import { deals, loss_reasons } from "@shared/schema";
+
+export class LossReasonsRepository {
+  async getAll(): Promise<LossReason[]> {
+    return await db.select().from(loss_reasons).orderBy(asc(loss_reasons.order), asc(loss_reasons.name));
+  }
+
+  async getActive(): Promise<LossReason[]> {
+    return await db
+      .select()
+      .from(loss_reasons)
+      .where(eq(loss_reasons.is_active, true))
+      .orderBy(asc(loss_reasons.order), asc(loss_reasons.name));
+  }
+
+  async getById(id: string): Promise<LossReason | undefined> {
+    const result = await db.select().from(loss_reasons).where(eq(loss_reasons.id, id));
+    return result[0];
+  }
+
+  async create(data: InsertLossReason): Promise<LossReason> {
+    const result = await db.insert(loss_reasons).values(data).returning();
+    return result[0];
+  }
+
+  async update(id: string, data: Partial<InsertLossReason>): Promise<LossReason | undefined> {
+    const result = await db.update(loss_reasons).set(data).where(eq(loss_reasons.id, id)).returning();
+    return result[0];
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await db.delete(loss_reasons).where(eq(loss_reasons.id, id)).returning();
+    return result.length > 0;
+  }
+
+  // Сколько сделок закрыто с этой причиной
+  async countDeals(id: string): Promise<number> {
+    const result = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(deals)
+      .where(eq(deals.loss_reason_id, id));
+    return result[0]?.count ?? 0;
+  }
+}
+
+export const lossReasonsRepository = new LossReasonsRepository();
@@ -0,0 +1,70 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { lossReasonsRepository } from "./repository";
+import { insertLossReasonSchema } from "@shared/schema";
+
+export const router = Router();
+
+// GET /api/loss-reasons - справочник причин проигрыша (?active=true — только активные)
+router.get("/api/loss-reasons", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const reasons = req.query.active === "true"
+      ? await lossReasonsRepository.getActive()
+      : await lossReasonsRepository.getAll();
+    res.json(reasons);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/loss-reasons - добавить причину
+router.post("/api/loss-reasons", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const parsed = insertLossReasonSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors });
+    }
+    const reason = await lossReasonsRepository.create(parsed.data);
+    res.status(201).json(reason);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PUT /api/loss-reasons/:id - переименовать, сменить порядок или отключить
+router.put("/api/loss-reasons/:id", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const parsed = insertLossReasonSchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors });
+    }
+    const reason = await lossReasonsRepository.update(req.params.id, parsed.data);
+    if (!reason) {
+      return res.status(404).json({ error: "Loss reason not found" });
+    }
+    res.json(reason);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /api/loss-reasons/:id - удалить причину; если она уже использована в сделках, только отключаем,
+// чтобы не потерять её в аналитике проигрышей
+router.delete("/api/loss-reasons/:id", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const reason = await lossReasonsRepository.getById(id);
+    if (!reason) {
+      return res.status(404).json({ error: "Loss reason not found" });
+    }
+
+    if (await lossReasonsRepository.countDeals(id) > 0) {
+      await lossReasonsRepository.update(id, { is_active: false });
+      return res.json({ success: true, deactivated: true });
+    }
+
+    await lossReasonsRepository.delete(id);
+    res.json({ success: true, deactivated: false });
+  } catch (error) {
+    next(error);
+  }
+});
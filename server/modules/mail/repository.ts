@@ -0,0 +1,225 @@
+import { db } from "../../db";
+import { and, asc, desc, eq, ilike, inArray, or, sql } from "drizzle-orm";
+import { clients, deal_contacts, deals, mail_attachments, mail_messages, mailboxes, projects } from "@shared/schema";
+import type {
+  InsertMailAttachment, InsertMailbox, InsertMailMessage,
+  MailAttachment, Mailbox, MailMessage,
+} from "@shared/schema";
+import { secretsService } from "../secrets/service";
+
+export type PublicMailbox = Omit<Mailbox, "password">;
+
+export interface MailboxSyncState {
+  uid_validity?: string | null;
+  last_uid?: number;
+  last_synced_at?: Date;
+  last_error?: string | null;
+}
+
+export interface MailMessageFilters {
+  mailboxIds: string[];
+  dealId?: string;
+  projectId?: string;
+  threadId?: string;
+  search?: string;
+  limit: number;
+}
+
+export type MailMessageWithAttachments = MailMessage & { attachments: MailAttachment[] };
+
+const withoutPassword = ({ password, ...mailbox }: Mailbox): PublicMailbox => mailbox;
+
+export class MailRepository {
+  // password is stored encrypted by the secrets vault; sync and sending get the plain value
+  private decrypt(mailbox: Mailbox): Mailbox {
+    return { ...mailbox, password: secretsService.decryptField(mailbox.password) };
+  }
+
+  private encrypt<T extends { password?: string }>(data: T): T {
+    return data.password ? { ...data, password: secretsService.encryptField(data.password) } : data;
+  }
+
+  // ========== Ящики ==========
+
+  async getUserMailboxes(userId: string): Promise<PublicMailbox[]> {
+    const result = await db.select().from(mailboxes)
+      .where(eq(mailboxes.user_id, userId))
+      .orderBy(asc(mailboxes.email));
+    return result.map(withoutPassword);
+  }
+
+  async getActiveMailboxes(): Promise<Mailbox[]> {
+    const result = await db.select().from(mailboxes).where(eq(mailboxes.is_active, true));
+    return result.map((mailbox: Mailbox) => this.decrypt(mailbox));
+  }
+
+  async getMailbox(id: string): Promise<Mailbox | undefined> {
+    const [mailbox] = await db.select().from(mailboxes).where(eq(mailboxes.id, id));
+    return mailbox ? this.decrypt(mailbox) : undefined;
+  }
+
+  async createMailbox(data: InsertMailbox & { user_id: string }): Promise<PublicMailbox> {
+    const [mailbox] = await db.insert(mailboxes).values(this.encrypt(data)).returning();
+    return withoutPassword(mailbox);
+  }
+
+  async updateMailbox(id: string, data: Partial<InsertMailbox>): Promise<PublicMailbox | undefined> {
+    const [mailbox] = await db.update(mailboxes)
+      .set({ ...this.encrypt(data), updated_at: new Date() })
+      .where(eq(mailboxes.id, id))
+      .returning();
+    return mailbox ? withoutPassword(mailbox) : undefined;
+  }
+
+  async setSyncState(id: string, state: MailboxSyncState): Promise<void> {
+    await db.update(mailboxes).set(state).where(eq(mailboxes.id, id));
+  }
+
+  async deleteMailbox(id: string): Promise<boolean> {
+    const result = await db.delete(mailboxes).where(eq(mailboxes.id, id)).returning();
+    return result.length > 0;
+  }
+
+  // ========== Письма ==========
+
+  async getMessages(filters: MailMessageFilters): Promise<MailMessage[]> {
+    if (filters.mailboxIds.length === 0) return [];
+
+    const conditions = [inArray(mail_messages.mailbox_id, filters.mailboxIds)];
+    if (filters.dealId) conditions.push(eq(mail_messages.deal_id, filters.dealId));
+    if (filters.projectId) conditions.push(eq(mail_messages.project_id, filters.projectId));
+    if (filters.threadId) conditions.push(eq(mail_messages.thread_id, filters.threadId));
+    if (filters.search) {
+      const pattern = `%${filters.search}%`;
+      conditions.push(or(
+        ilike(mail_messages.subject, pattern),
+        ilike(mail_messages.from_address, pattern),
+        ilike(mail_messages.from_name, pattern),
+        ilike(mail_messages.to_addresses, pattern),
+      )!);
+    }
+
+    return await db.select().from(mail_messages)
+      .where(and(...conditions))
+      .orderBy(desc(mail_messages.sent_at))
+      .limit(filters.limit);
+  }
+
+  async getMessage(id: string): Promise<MailMessage | undefined> {
+    const [message] = await db.select().from(mail_messages).where(eq(mail_messages.id, id));
+    return message;
+  }
+
+  async getThread(mailboxId: string, threadId: string): Promise<MailMessageWithAttachments[]> {
+    const messages: MailMessage[] = await db.select().from(mail_messages)
+      .where(and(eq(mail_messages.mailbox_id, mailboxId), eq(mail_messages.thread_id, threadId)))
+      .orderBy(asc(mail_messages.sent_at));
+    if (messages.length === 0) return [];
+
+    const attachments: MailAttachment[] = await db.select().from(mail_attachments)
+      .where(inArray(mail_attachments.message_id, messages.map((message) => message.id)));
+    return messages.map((message) => ({
+      ...message,
+      attachments: attachments.filter((attachment) => attachment.message_id === message.id),
+    }));
+  }
+
+  async hasMessage(mailboxId: string, messageId: string): Promise<boolean> {
+    const [row] = await db.select({ id: mail_messages.id }).from(mail_messages)
+      .where(and(eq(mail_messages.mailbox_id, mailboxId), eq(mail_messages.message_id, messageId)));
+    return !!row;
+  }
+
+  // Письма ящика с такими Message-ID — по ним новое письмо встаёт в цепочку
+  async findByMessageIds(mailboxId: string, messageIds: string[]): Promise<MailMessage[]> {
+    if (messageIds.length === 0) return [];
+    return await db.select().from(mail_messages)
+      .where(and(eq(mail_messages.mailbox_id, mailboxId), inArray(mail_messages.message_id, messageIds)))
+      .orderBy(asc(mail_messages.sent_at));
+  }
+
+  async createMessage(data: InsertMailMessage): Promise<MailMessage> {
+    const [message] = await db.insert(mail_messages).values(data).returning();
+    return message;
+  }
+
+  async updateMessage(id: string, data: Partial<InsertMailMessage>): Promise<MailMessage | undefined> {
+    const [message] = await db.update(mail_messages).set(data).where(eq(mail_messages.id, id)).returning();
+    return message;
+  }
+
+  async markThreadRead(mailboxId: string, threadId: string): Promise<void> {
+    await db.update(mail_messages)
+      .set({ is_read: true })
+      .where(and(eq(mail_messages.mailbox_id, mailboxId), eq(mail_messages.thread_id, threadId)));
+  }
+
+  async countUnread(mailboxIds: string[]): Promise<number> {
+    if (mailboxIds.length === 0) return 0;
+    const [row] = await db.select({ count: sql<number>`count(*)::int` }).from(mail_messages)
+      .where(and(inArray(mail_messages.mailbox_id, mailboxIds), eq(mail_messages.is_read, false)));
+    return row?.count ?? 0;
+  }
+
+  // ========== Вложения ==========
+
+  async createAttachment(data: InsertMailAttachment): Promise<MailAttachment> {
+    const [attachment] = await db.insert(mail_attachments).values(data).returning();
+    return attachment;
+  }
+
+  async getAttachment(id: string): Promise<MailAttachment | undefined> {
+    const [attachment] = await db.select().from(mail_attachments).where(eq(mail_attachments.id, id));
+    return attachment;
+  }
+
+  // ========== Привязка к сделкам и проектам ==========
+
+  /**
+   * Сделки с этим адресом в контакте сделки, контактных лицах или карточке клиента;
+   * открытые сделки первыми, затем самые свежие
+   */
+  async findDealIdsByEmail(email: string): Promise<string[]> {
+    const byContact = sql`lower(${deal_contacts.email}) = ${email}`;
+    const byClient = sql`lower(${clients.email}) = ${email}`;
+
+    const rows = await db
+      .select({ id: deals.id })
+      .from(deals)
+      .leftJoin(deal_contacts, eq(deal_contacts.deal_id, deals.id))
+      .leftJoin(clients, eq(clients.id, deals.client_id))
+      .where(or(sql`lower(${deals.contact_email}) = ${email}`, byContact, byClient))
+      .orderBy(sql`${deals.outcome} is not null`, desc(deals.updated_at));
+    // Сделка повторяется по числу совпавших контактных лиц
+    return Array.from(new Set(rows.map((row: { id: string }) => row.id)));
+  }
+
+  async findDealIdByOrderNumber(orderNumber: string): Promise<string | undefined> {
+    const [deal] = await db.select({ id: deals.id }).from(deals).where(eq(deals.order_number, orderNumber));
+    return deal?.id;
+  }
+
+  async findProjectByNumber(projectNumber: string): Promise<{ id: string; deal_id: string | null } | undefined> {
+    const [project] = await db.select({ id: projects.id, deal_id: projects.deal_id }).from(projects)
+      .where(eq(projects.project_number, projectNumber));
+    return project;
+  }
+
+  async findProjectIdByDeal(dealId: string): Promise<string | undefined> {
+    const [project] = await db.select({ id: projects.id }).from(projects)
+      .where(eq(projects.deal_id, dealId))
+      .orderBy(desc(projects.created_at))
+      .limit(1);
+    return project?.id;
+  }
+
+  // Ручная привязка переносит всю цепочку
+  async linkThread(mailboxId: string, threadId: string, link: { deal_id: string | null; project_id: string | null }): Promise<MailMessage[]> {
+    return await db.update(mail_messages)
+      .set(link)
+      .where(and(eq(mail_messages.mailbox_id, mailboxId), eq(mail_messages.thread_id, threadId)))
+      .returning();
+  }
+}
+
+export const mailRepository = new MailRepository();
@@ -0,0 +1,308 @@
+import { Router } from "express";
+import type { Request } from "express";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { insertMailboxSchema } from "@shared/schema";
+import type { Mailbox } from "@shared/schema";
+import { mailRepository } from "./repository";
+import { mailService, MailError } from "./service";
+import { getRequestUserId } from "../../middleware/auth";
+import { localFileStorage } from "../../localFileStorage";
+
+export const router = Router();
+
+const DEFAULT_MESSAGES_LIMIT = 100;
+const MAX_MESSAGES_LIMIT = 500;
+
+const sendMailSchema = z.object({
+  mailbox_id: z.string().min(1),
+  to: z.array(z.string().trim().email()).min(1, "Укажите получателя"),
+  cc: z.array(z.string().trim().email()).optional(),
+  subject: z.string().trim().min(1, "Укажите тему"),
+  text: z.string().min(1, "Письмо пустое"),
+  reply_to_id: z.string().nullable().optional(),
+  deal_id: z.string().nullable().optional(),
+  project_id: z.string().nullable().optional(),
+  // Вложение сделки/проекта/задачи по id или файл из /api/objects/upload; путь на диске клиент не передаёт
+  attachments: z.array(z.union([
+    z.object({ attachment_id: z.string().min(1) }),
+    z.object({
+      object_path: z.string().regex(/^\/objects\/[^/]+$/, "Файл должен быть загружен через /api/objects/upload"),
+      file_name: z.string().min(1),
+      mime_type: z.string().nullable().optional(),
+    }),
+  ])).optional(),
+});
+
+const linkThreadSchema = z.object({
+  deal_id: z.string().nullable(),
+  project_id: z.string().nullable().optional(),
+});
+
+// Ящик текущего пользователя: чужие ящики не видны даже администратору
+async function getOwnMailbox(req: Request, id: string): Promise<Mailbox | undefined> {
+  const mailbox = await mailRepository.getMailbox(id);
+  return mailbox && mailbox.user_id === getRequestUserId(req) ? mailbox : undefined;
+}
+
+async function getOwnMailboxIds(req: Request): Promise<string[]> {
+  const userId = getRequestUserId(req);
+  if (!userId) return [];
+  return (await mailRepository.getUserMailboxes(userId)).map((mailbox) => mailbox.id);
+}
+
+// ========== Ящики ==========
+
+// GET /api/mailboxes - ящики текущего пользователя (без паролей)
+router.get("/api/mailboxes", async (req, res) => {
+  try {
+    res.json(await mailRepository.getUserMailboxes(getRequestUserId(req)!));
+  } catch (error) {
+    console.error("Error fetching mailboxes:", error);
+    res.status(500).json({ error: "Failed to fetch mailboxes" });
+  }
+});
+
+// POST /api/mailboxes - подключить ящик; вход на IMAP и SMTP проверяется до сохранения
+router.post("/api/mailboxes", async (req, res) => {
+  try {
+    const validationResult = insertMailboxSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      const errorMessage = fromZodError(validationResult.error).toString();
+      res.status(400).json({ error: errorMessage });
+      return;
+    }
+
+    await mailService.verify(validationResult.data);
+    const mailbox = await mailRepository.createMailbox({ ...validationResult.data, user_id: getRequestUserId(req)! });
+
+    // Первые письма забираются сразу, не дожидаясь фоновой синхронизации
+    mailRepository.getMailbox(mailbox.id)
+      .then((created) => created && mailService.syncMailbox(created))
+      .catch((error) => console.error("Initial mail sync failed:", error));
+
+    res.status(201).json(mailbox);
+  } catch (error) {
+    if (error instanceof MailError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    console.error("Error creating mailbox:", error);
+    res.status(500).json({ error: "Failed to create mailbox" });
+  }
+});
+
+// PUT /api/mailboxes/:id - настройки ящика; пустой пароль оставляет прежний
+router.put("/api/mailboxes/:id", async (req, res) => {
+  try {
+    const mailbox = await getOwnMailbox(req, req.params.id);
+    if (!mailbox) {
+      res.status(404).json({ error: "Mailbox not found" });
+      return;
+    }
+
+    const { password, ...body } = req.body;
+    const validationResult = insertMailboxSchema.partial().safeParse(password ? req.body : body);
+
+    if (!validationResult.success) {
+      const errorMessage = fromZodError(validationResult.error).toString();
+      res.status(400).json({ error: errorMessage });
+      return;
+    }
+
+    const data = validationResult.data;
+    const reconnect = (["imap_host", "imap_port", "imap_secure", "smtp_host", "smtp_port", "smtp_secure", "username", "password"] as const)
+      .some((field) => data[field] !== undefined && data[field] !== mailbox[field]);
+    if (reconnect) {
+      await mailService.verify({ ...mailbox, ...data });
+    }
+
+    const updated = await mailRepository.updateMailbox(mailbox.id, data);
+
+    // Другой сервер или логин — это другой INBOX, письма перечитываются (дубли отсекаются по Message-ID)
+    if (data.imap_host !== undefined && data.imap_host !== mailbox.imap_host ||
+        data.username !== undefined && data.username !== mailbox.username) {
+      await mailRepository.setSyncState(mailbox.id, { uid_validity: null, last_uid: 0 });
+    }
+
+    res.json(updated);
+  } catch (error) {
+    if (error instanceof MailError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    console.error("Error updating mailbox:", error);
+    res.status(500).json({ error: "Failed to update mailbox" });
+  }
+});
+
+// DELETE /api/mailboxes/:id - отключить ящик вместе с его письмами (копии в лентах сделок остаются)
+router.delete("/api/mailboxes/:id", async (req, res) => {
+  try {
+    const mailbox = await getOwnMailbox(req, req.params.id);
+    if (!mailbox) {
+      res.status(404).json({ error: "Mailbox not found" });
+      return;
+    }
+
+    await mailRepository.deleteMailbox(mailbox.id);
+    res.status(204).send();
+  } catch (error) {
+    console.error("Error deleting mailbox:", error);
+    res.status(500).json({ error: "Failed to delete mailbox" });
+  }
+});
+
+// POST /api/mailboxes/:id/sync - забрать новые письма сейчас
+router.post("/api/mailboxes/:id/sync", async (req, res) => {
+  try {
+    const mailbox = await getOwnMailbox(req, req.params.id);
+    if (!mailbox) {
+      res.status(404).json({ error: "Mailbox not found" });
+      return;
+    }
+
+    res.json(await mailService.syncMailbox(mailbox));
+  } catch (error) {
+    console.error("Error syncing mailbox:", error);
+    res.status(500).json({ error: "Failed to sync mailbox" });
+  }
+});
+
+// ========== Письма ==========
+
+// GET /api/mail/messages - письма своих ящиков (?mailbox_id=, ?deal_id=, ?project_id=, ?search=, ?limit=)
+router.get("/api/mail/messages", async (req, res) => {
+  try {
+    const ownIds = await getOwnMailboxIds(req);
+    const mailboxId = typeof req.query.mailbox_id === "string" ? req.query.mailbox_id : undefined;
+    const query = (name: string) => typeof req.query[name] === "string" && req.query[name] ? req.query[name] as string : undefined;
+
+    res.json(await mailRepository.getMessages({
+      mailboxIds: mailboxId ? ownIds.filter((id) => id === mailboxId) : ownIds,
+      dealId: query("deal_id"),
+      projectId: query("project_id"),
+      search: query("search")?.trim(),
+      limit: Math.min(Number(req.query.limit) || DEFAULT_MESSAGES_LIMIT, MAX_MESSAGES_LIMIT),
+    }));
+  } catch (error) {
+    console.error("Error fetching mail messages:", error);
+    res.status(500).json({ error: "Failed to fetch mail messages" });
+  }
+});
+
+// GET /api/mail/unread-count - непрочитанные входящие во всех своих ящиках
+router.get("/api/mail/unread-count", async (req, res) => {
+  try {
+    res.json({ count: await mailRepository.countUnread(await getOwnMailboxIds(req)) });
+  } catch (error) {
+    console.error("Error counting unread mail:", error);
+    res.status(500).json({ error: "Failed to count unread mail" });
+  }
+});
+
+// GET /api/mail/messages/:id/thread - цепочка письма с вложениями; цепочка отмечается прочитанной
+router.get("/api/mail/messages/:id/thread", async (req, res) => {
+  try {
+    const message = await mailRepository.getMessage(req.params.id);
+    const mailbox = message && await getOwnMailbox(req, message.mailbox_id);
+    if (!message || !mailbox) {
+      res.status(404).json({ error: "Message not found" });
+      return;
+    }
+
+    const thread = await mailRepository.getThread(mailbox.id, message.thread_id);
+    await mailRepository.markThreadRead(mailbox.id, message.thread_id);
+    res.json(thread);
+  } catch (error) {
+    console.error("Error fetching mail thread:", error);
+    res.status(500).json({ error: "Failed to fetch mail thread" });
+  }
+});
+
+// PUT /api/mail/messages/:id/link - привязать цепочку письма к сделке или проекту (deal_id: null — отвязать); нужны права на редактирование и доступ к записи
+router.put("/api/mail/messages/:id/link", async (req, res) => {
+  try {
+    const validationResult = linkThreadSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      const errorMessage = fromZodError(validationResult.error).toString();
+      res.status(400).json({ error: errorMessage });
+      return;
+    }
+
+    const message = await mailRepository.getMessage(req.params.id);
+    const mailbox = message && await getOwnMailbox(req, message.mailbox_id);
+    if (!message || !mailbox) {
+      res.status(404).json({ error: "Message not found" });
+      return;
+    }
+
+    res.json(await mailService.linkThread(mailbox, getRequestUserId(req)!, message.thread_id, {
+      deal_id: validationResult.data.deal_id,
+      project_id: validationResult.data.project_id ?? null,
+    }));
+  } catch (error) {
+    if (error instanceof MailError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    console.error("Error linking mail thread:", error);
+    res.status(500).json({ error: "Failed to link mail thread" });
+  }
+});
+
+// POST /api/mail/send - новое письмо или ответ (reply_to_id); вложения — доступные пользователю вложения или загрузки /api/objects/upload
+router.post("/api/mail/send", async (req, res) => {
+  try {
+    const validationResult = sendMailSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      const errorMessage = fromZodError(validationResult.error).toString();
+      res.status(400).json({ error: errorMessage });
+      return;
+    }
+
+    const { mailbox_id, ...input } = validationResult.data;
+    const mailbox = await getOwnMailbox(req, mailbox_id);
+    if (!mailbox) {
+      res.status(404).json({ error: "Mailbox not found" });
+      return;
+    }
+
+    const message = await mailService.send(mailbox, getRequestUserId(req)!, input);
+    res.status(201).json(message);
+  } catch (error) {
+    if (error instanceof MailError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    console.error("Error sending mail:", error);
+    res.status(500).json({ error: "Failed to send mail" });
+  }
+});
+
+// GET /api/mail/attachments/:id - скачать вложение письма
+router.get("/api/mail/attachments/:id", async (req, res) => {
+  try {
+    const attachment = await mailRepository.getAttachment(req.params.id);
+    const message = attachment && await mailRepository.getMessage(attachment.message_id);
+    const mailbox = message && await getOwnMailbox(req, message.mailbox_id);
+    if (!attachment || !mailbox) {
+      res.status(404).json({ error: "Attachment not found" });
+      return;
+    }
+
+    const { exists, filePath } = await localFileStorage.getFile(attachment.file_path);
+    if (!exists) {
+      res.status(404).json({ error: "File not found on disk" });
+      return;
+    }
+
+    res.download(filePath, attachment.file_name);
+  } catch (error) {
+    console.error("Error downloading mail attachment:", error);
+    res.status(500).json({ error: "Failed to download attachment" });
+  }
+});
@@ -0,0 +1,464 @@
+import fs from "fs";
+import { ImapFlow } from "imapflow";
+import nodemailer from "nodemailer";
+import { simpleParser, type AddressObject, type ParsedMail } from "mailparser";
+import type { Mailbox, MailDirection, MailMessage } from "@shared/schema";
+import { mailRepository } from "./repository";
+import { salesRepository } from "../sales/repository";
+import { projectsRepository } from "../projects/repository";
+import { permissionsService } from "../permissions/service";
+import { localFileStorage } from "../../localFileStorage";
+import { attachmentsRepository } from "../attachments/repository";
+import { fileAccessRepository } from "../file-access/repository";
+import { fileAccessService } from "../file-access/service";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Первая синхронизация забирает письма за этот период, а не весь ящик
+const INITIAL_SYNC_DAYS = 30;
+// Не больше писем за один проход; остальные заберутся следующим
+const MAX_MESSAGES_PER_SYNC = 200;
+const DEFAULT_SYNC_INTERVAL_MINUTES = 5;
+const CONNECTION_TIMEOUT_MS = 30_000;
+// Текст письма в ленте сделки обрезается, полное письмо остаётся в почте
+const DEAL_MESSAGE_MAX_LENGTH = 4000;
+
+// «№ 312», «#312», «заказ 312», «по сделке №312», «проект 312» в теме письма
+const ORDER_NUMBER_PATTERNS = [
+  /(?:№|#)\s?(\d{1,10})\b/,
+  /(?:заказ|сделк|проект|order)[а-яa-z]*\s*(?:№\s?)?(\d{1,10})\b/i,
+];
+
+// Вложение исходящего письма — файл, который пользователь и так может скачать:
+// вложение сделки, проекта или задачи по id либо файл, загруженный через /api/objects/upload
+export type OutgoingAttachment =
+  | { attachment_id: string }
+  | { object_path: string; file_name: string; mime_type?: string | null };
+
+interface ResolvedAttachment {
+  file_name: string;
+  file_path: string;
+  file_size: number;
+  mime_type: string | null;
+  // Путь на диске внутри хранилища загрузок
+  path: string;
+}
+
+export interface SendMailInput {
+  to: string[];
+  cc?: string[];
+  subject: string;
+  text: string;
+  reply_to_id?: string | null;
+  deal_id?: string | null;
+  project_id?: string | null;
+  attachments?: OutgoingAttachment[];
+}
+
+interface MailLink {
+  deal_id: string | null;
+  project_id: string | null;
+}
+
+export class MailError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "MailError";
+    Object.setPrototypeOf(this, MailError.prototype);
+  }
+}
+
+type MailboxConnection = Pick<Mailbox, "imap_host" | "imap_port" | "imap_secure" | "smtp_host" | "smtp_port" | "smtp_secure" | "username" | "password">;
+
+function addressList(value: AddressObject | AddressObject[] | undefined): Array<{ address: string; name: string }> {
+  const objects = Array.isArray(value) ? value : value ? [value] : [];
+  return objects
+    .flatMap((object) => object.value)
+    .filter((entry) => !!entry.address)
+    .map((entry) => ({ address: entry.address!.toLowerCase(), name: entry.name }));
+}
+
+function referenceIds(parsed: ParsedMail): string[] {
+  const references = Array.isArray(parsed.references) ? parsed.references : parsed.references ? [parsed.references] : [];
+  return Array.from(new Set([parsed.inReplyTo, ...references].filter((id): id is string => !!id)));
+}
+
+export function findOrderNumber(subject: string | null | undefined): string | null {
+  if (!subject) return null;
+  for (const pattern of ORDER_NUMBER_PATTERNS) {
+    const match = subject.match(pattern);
+    if (match) return match[1];
+  }
+  return null;
+}
+
+export class MailService {
+  private timer?: NodeJS.Timeout;
+  private syncing = false;
+
+  private imapClient(mailbox: MailboxConnection): ImapFlow {
+    return new ImapFlow({
+      host: mailbox.imap_host,
+      port: mailbox.imap_port,
+      secure: mailbox.imap_secure,
+      auth: { user: mailbox.username, pass: mailbox.password },
+      connectionTimeout: CONNECTION_TIMEOUT_MS,
+      logger: false,
+    });
+  }
+
+  private smtpTransport(mailbox: MailboxConnection) {
+    return nodemailer.createTransport({
+      host: mailbox.smtp_host,
+      port: mailbox.smtp_port,
+      secure: mailbox.smtp_secure,
+      auth: { user: mailbox.username, pass: mailbox.password },
+      connectionTimeout: CONNECTION_TIMEOUT_MS,
+    });
+  }
+
+  /**
+   * Проверяет вход на IMAP и SMTP перед сохранением ящика
+   */
+  async verify(mailbox: MailboxConnection): Promise<void> {
+    const client = this.imapClient(mailbox);
+    try {
+      await client.connect();
+      await client.logout();
+    } catch (error: any) {
+      throw new MailError(`IMAP: ${error.responseText || error.message}`);
+    }
+
+    try {
+      await this.smtpTransport(mailbox).verify();
+    } catch (error: any) {
+      throw new MailError(`SMTP: ${error.message}`);
+    }
+  }
+
+  /**
+   * Фоновая синхронизация всех активных ящиков; MAIL_SYNC_INTERVAL_MINUTES=0 отключает её
+   */
+  start(): void {
+    const minutes = Number(process.env.MAIL_SYNC_INTERVAL_MINUTES ?? DEFAULT_SYNC_INTERVAL_MINUTES);
+    if (!minutes || this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.syncAll().catch((error) => console.error("Mail sync failed:", error));
+    }, minutes * 60 * 1000);
+    this.timer.unref();
+  }
+
+  async syncAll(): Promise<void> {
+    if (this.syncing) return;
+    this.syncing = true;
+    try {
+      for (const mailbox of await mailRepository.getActiveMailboxes()) {
+        await this.syncMailbox(mailbox);
+      }
+    } finally {
+      this.syncing = false;
+    }
+  }
+
+  /**
+   * Забирает новые письма из INBOX по UID. Ошибка пишется в ящик и не прерывает остальные ящики
+   */
+  async syncMailbox(mailbox: Mailbox): Promise<{ received: number; error: string | null }> {
+    const client = this.imapClient(mailbox);
+    let received = 0;
+
+    try {
+      await client.connect();
+      const lock = await client.getMailboxLock("INBOX");
+      try {
+        const uidValidity = client.mailbox ? String(client.mailbox.uidValidity) : null;
+        // UIDVALIDITY сменился — старые UID больше ничего не значат, дубли отсекаются по Message-ID
+        let lastUid = mailbox.uid_validity === uidValidity ? mailbox.last_uid : 0;
+
+        const found = lastUid === 0
+          ? await client.search({ since: new Date(Date.now() - INITIAL_SYNC_DAYS * DAY_MS) }, { uid: true })
+          : await client.search({ uid: `${lastUid + 1}:*` }, { uid: true });
+        const uids = (found || [])
+          .filter((uid) => uid > lastUid)
+          .sort((a, b) => a - b)
+          .slice(0, MAX_MESSAGES_PER_SYNC);
+
+        for (const uid of uids) {
+          const message = await client.fetchOne(String(uid), { source: true }, { uid: true });
+          if (message && message.source) {
+            if (await this.storeIncoming(mailbox, await simpleParser(message.source), uid)) received++;
+          }
+          lastUid = uid;
+          await mailRepository.setSyncState(mailbox.id, { uid_validity: uidValidity, last_uid: lastUid });
+        }
+
+        await mailRepository.setSyncState(mailbox.id, { uid_validity: uidValidity, last_synced_at: new Date(), last_error: null });
+      } finally {
+        lock.release();
+      }
+      await client.logout();
+      return { received, error: null };
+    } catch (error: any) {
+      const message = error.responseText || error.message || String(error);
+      console.error(`Mail sync failed for ${mailbox.email}:`, message);
+      await mailRepository.setSyncState(mailbox.id, { last_synced_at: new Date(), last_error: message });
+      client.close();
+      return { received, error: message };
+    }
+  }
+
+  private async storeIncoming(mailbox: Mailbox, parsed: ParsedMail, uid: number): Promise<MailMessage | undefined> {
+    const messageId = parsed.messageId || `<${uid}.${mailbox.uid_validity || "0"}@${mailbox.id}>`;
+    if (await mailRepository.hasMessage(mailbox.id, messageId)) return undefined;
+
+    const from = addressList(parsed.from)[0];
+    const parents = await mailRepository.findByMessageIds(mailbox.id, referenceIds(parsed));
+    const counterparty = from && from.address !== mailbox.email.toLowerCase() ? from.address : null;
+    const link = await this.resolveLink(parents[0], parsed.subject, counterparty);
+
+    const message = await mailRepository.createMessage({
+      mailbox_id: mailbox.id,
+      direction: "incoming",
+      uid,
+      message_id: messageId,
+      in_reply_to: parsed.inReplyTo || null,
+      thread_id: parents[0]?.thread_id || messageId,
+      from_address: from?.address || "",
+      from_name: from?.name || null,
+      to_addresses: addressList(parsed.to).map((entry) => entry.address).join(", "),
+      cc_addresses: addressList(parsed.cc).map((entry) => entry.address).join(", ") || null,
+      subject: parsed.subject || null,
+      text: parsed.text || null,
+      html: parsed.html || null,
+      sent_at: parsed.date || new Date(),
+      is_read: false,
+      ...link,
+    });
+
+    for (const attachment of parsed.attachments) {
+      const fileName = attachment.filename || "attachment";
+      await mailRepository.createAttachment({
+        message_id: message.id,
+        file_name: fileName,
+        file_path: await localFileStorage.saveFile(attachment.content, fileName),
+        file_size: attachment.size,
+        mime_type: attachment.contentType,
+      });
+    }
+
+    return await this.copyToDeal(message, mailbox.user_id);
+  }
+
+  /**
+   * Сделка и проект письма: как у цепочки, затем по номеру заказа в теме, затем по адресу собеседника
+   */
+  private async resolveLink(parent: MailMessage | undefined, subject: string | null | undefined, counterparty: string | null): Promise<MailLink> {
+    if (parent && (parent.deal_id || parent.project_id)) {
+      return { deal_id: parent.deal_id, project_id: parent.project_id };
+    }
+
+    let dealId: string | null = null;
+    let projectId: string | null = null;
+
+    const orderNumber = findOrderNumber(subject);
+    if (orderNumber) {
+      dealId = (await mailRepository.findDealIdByOrderNumber(orderNumber)) || null;
+      if (!dealId) {
+        const project = await mailRepository.findProjectByNumber(orderNumber);
+        projectId = project?.id || null;
+        dealId = project?.deal_id || null;
+      }
+    }
+
+    if (!dealId && !projectId && counterparty) {
+      dealId = (await mailRepository.findDealIdsByEmail(counterparty))[0] || null;
+    }
+
+    if (dealId && !projectId) {
+      projectId = (await mailRepository.findProjectIdByDeal(dealId)) || null;
+    }
+
+    return { deal_id: dealId, project_id: projectId };
+  }
+
+  // Проект сделки подставляется, если не указан явно
+  /**
+   * Письмо пишется в ленту сделки или проекта только тем, кто может их редактировать и видит саму запись
+   */
+  private async checkLinkAccess(userId: string, dealId: string | null, projectId: string | null): Promise<void> {
+    if (dealId) {
+      const deal = await salesRepository.getDealById(dealId);
+      if (!deal) throw new MailError("Сделка не найдена", 404);
+      if (!(await permissionsService.hasPermission(userId, "sales", "edit"))) {
+        throw new MailError("Нет прав на редактирование сделок", 403);
+      }
+      if (deal.manager_id !== userId && !(await permissionsService.canViewAll(userId, "sales"))) {
+        throw new MailError("Нет доступа к сделке", 403);
+      }
+    }
+
+    if (projectId) {
+      const project = await projectsRepository.getProjectById(projectId);
+      if (!project) throw new MailError("Проект не найден", 404);
+      if (!(await permissionsService.hasPermission(userId, "projects", "edit"))) {
+        throw new MailError("Нет прав на редактирование проектов", 403);
+      }
+      if (!(await permissionsService.canViewAll(userId, "projects"))
+        && !(await projectsRepository.getProjectIdsForUser(userId)).has(projectId)) {
+        throw new MailError("Нет доступа к проекту", 403);
+      }
+    }
+  }
+
+  private async explicitLink(dealId: string | null, projectId: string | null): Promise<MailLink> {
+    if (dealId && !projectId) {
+      projectId = (await mailRepository.findProjectIdByDeal(dealId)) || null;
+    }
+    return { deal_id: dealId, project_id: projectId };
+  }
+
+  /**
+   * Дублирует письмо в ленту сделки (deal_messages, message_type = email); входящее — непрочитанным,
+   * от имени собеседника. authorId — сотрудник, отправивший исходящее
+   */
+  private async copyToDeal(message: MailMessage, authorId: string): Promise<MailMessage> {
+    if (!message.deal_id || message.deal_message_id) return message;
+
+    const body = (message.text || "").trim();
+    const content = [message.subject ? `✉️ ${message.subject}` : "✉️ Письмо", body]
+      .filter(Boolean)
+      .join("\n\n")
+      .slice(0, DEAL_MESSAGE_MAX_LENGTH);
+
+    const dealMessage = await salesRepository.createDealMessage({
+      deal_id: message.deal_id,
+      message_type: "email",
+      content,
+      author_id: message.direction === "outgoing" ? authorId : null,
+      sender_name: message.direction === "incoming" ? message.from_name || message.from_address : null,
+      direction: message.direction as MailDirection,
+      is_read: message.direction === "outgoing" ? 1 : 0,
+    });
+    return (await mailRepository.updateMessage(message.id, { deal_message_id: dealMessage.id })) || message;
+  }
+
+  /**
+   * Отправляет письмо через SMTP ящика. Ответ наследует цепочку и привязку исходного письма
+   */
+  async send(mailbox: Mailbox, userId: string, input: SendMailInput): Promise<MailMessage> {
+    const parent = input.reply_to_id ? await mailRepository.getMessage(input.reply_to_id) : undefined;
+    if (input.reply_to_id && (!parent || parent.mailbox_id !== mailbox.id)) {
+      throw new MailError("Исходное письмо не найдено", 404);
+    }
+
+    await this.checkLinkAccess(userId, input.deal_id || null, input.project_id || null);
+    const files = await this.resolveAttachments(userId, input.attachments || []);
+
+    // thread_id — Message-ID первого письма цепочки
+    const references = parent ? Array.from(new Set([parent.thread_id, parent.message_id])) : [];
+
+    let info: { messageId: string };
+    try {
+      info = await this.smtpTransport(mailbox).sendMail({
+        from: { name: mailbox.display_name || "", address: mailbox.email },
+        to: input.to,
+        cc: input.cc && input.cc.length > 0 ? input.cc : undefined,
+        subject: input.subject,
+        text: input.text,
+        inReplyTo: parent?.message_id,
+        references,
+        attachments: files.map((file) => ({ filename: file.file_name, path: file.path, contentType: file.mime_type || undefined })),
+      });
+    } catch (error: any) {
+      throw new MailError(`SMTP: ${error.message}`, 502);
+    }
+
+    // Письмо из карточки сделки или проекта привязывается к ней, остальные — как входящие
+    const link = input.deal_id || input.project_id
+      ? await this.explicitLink(input.deal_id || null, input.project_id || null)
+      : await this.resolveLink(parent, input.subject, input.to[0]?.toLowerCase() || null);
+
+    const message = await mailRepository.createMessage({
+      mailbox_id: mailbox.id,
+      direction: "outgoing",
+      message_id: info.messageId,
+      in_reply_to: parent?.message_id || null,
+      thread_id: parent?.thread_id || info.messageId,
+      from_address: mailbox.email.toLowerCase(),
+      from_name: mailbox.display_name,
+      to_addresses: input.to.join(", "),
+      cc_addresses: input.cc && input.cc.length > 0 ? input.cc.join(", ") : null,
+      subject: input.subject,
+      text: input.text,
+      sent_at: new Date(),
+      is_read: true,
+      sent_by: userId,
+      ...link,
+    });
+
+    for (const file of files) {
+      await mailRepository.createAttachment({
+        message_id: message.id,
+        file_name: file.file_name,
+        file_path: file.file_path,
+        file_size: file.file_size,
+        mime_type: file.mime_type,
+      });
+    }
+
+    return await this.copyToDeal(message, userId);
+  }
+
+  /**
+   * Файлы вложений: путь на диске сервер берёт из записи вложения или загрузки, права — как на скачивание.
+   * Файлы вне хранилища загрузок не отправляются
+   */
+  private async resolveAttachments(userId: string, attachments: OutgoingAttachment[]): Promise<ResolvedAttachment[]> {
+    const files: ResolvedAttachment[] = [];
+
+    for (const attachment of attachments) {
+      let file: Omit<ResolvedAttachment, "file_size" | "path"> & { file_size?: number | null };
+
+      if ("attachment_id" in attachment) {
+        const record = await attachmentsRepository.getAnyAttachmentById(attachment.attachment_id);
+        if (!record) throw new MailError("Вложение не найдено", 404);
+
+        const owner = await fileAccessRepository.getAttachmentOwner(record);
+        if (owner && !(await fileAccessService.canRead(userId, owner))) {
+          throw new MailError(`Нет доступа к файлу «${record.file_name}»`, 403);
+        }
+        file = { file_name: record.file_name, file_path: record.file_path, file_size: record.file_size, mime_type: record.mime_type ?? null };
+      } else {
+        if (!(await fileAccessService.canReadObject(userId, attachment.object_path))) {
+          throw new MailError(`Нет доступа к файлу «${attachment.file_name}»`, 403);
+        }
+        file = { file_name: attachment.file_name, file_path: attachment.object_path, mime_type: attachment.mime_type ?? null };
+      }
+
+      const filePath = localFileStorage.resolveUploadPath(file.file_path);
+      const stat = filePath ? await fs.promises.stat(filePath).catch(() => null) : null;
+      if (!filePath || !stat?.isFile()) throw new MailError(`Файл «${file.file_name}» не найден`);
+
+      files.push({ ...file, file_size: file.file_size ?? stat.size, path: filePath });
+    }
+
+    return files;
+  }
+
+  /**
+   * Ручная привязка цепочки к сделке или проекту; письма, ещё не попавшие в ленту сделки, дублируются туда
+   */
+  async linkThread(mailbox: Mailbox, userId: string, threadId: string, link: MailLink): Promise<MailMessage[]> {
+    await this.checkLinkAccess(userId, link.deal_id, link.project_id);
+    const messages = await mailRepository.linkThread(mailbox.id, threadId, await this.explicitLink(link.deal_id, link.project_id));
+
+    const result: MailMessage[] = [];
+    for (const message of messages) {
+      result.push(await this.copyToDeal(message, message.sent_by || mailbox.user_id));
+    }
+    return result;
+  }
+}
+
+export const mailService = new MailService();
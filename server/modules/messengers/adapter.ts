@@ -0,0 +1,51 @@
+import type { IncomingHttpHeaders } from "http";
+
+// Файл во входящем сообщении; скачивается отдельно, по file_id мессенджера
+export interface InboundFile {
+  file_id: string;
+  file_name: string;
+  mime_type: string;
+  file_size: number | null;
+}
+
+// Входящее сообщение клиента, приведённое к общему виду
+export interface InboundMessage {
+  chat_id: string;
+  message_id: string;
+  sender_name: string | null;
+  username: string | null;
+  phone: string | null; // клиент поделился контактом
+  text: string | null; // текст или подпись к файлу
+  file: InboundFile | null;
+  sent_at: Date;
+}
+
+export interface OutboundFile {
+  buffer: Buffer;
+  file_name: string;
+  mime_type: string;
+}
+
+/**
+ * Адаптер мессенджера. Адаптеры не хранят состояния: токен канала передаётся в каждый вызов.
+ * Методы отправки возвращают id сообщения в мессенджере
+ */
+export interface MessengerAdapter {
+  // Проверяет токен и направляет вебхук на webhookUrl; возвращает имя аккаунта бота
+  connect(token: string, webhookUrl: string, secret: string): Promise<{ account_name: string | null }>;
+  disconnect(token: string): Promise<void>;
+  verifyWebhook(headers: IncomingHttpHeaders, secret: string): boolean;
+  // null — обновление без сообщения клиента (правки, служебные события, группы)
+  parseUpdate(body: unknown): InboundMessage | null;
+  downloadFile(token: string, file: InboundFile): Promise<Buffer>;
+  sendText(token: string, chatId: string, text: string): Promise<string>;
+  sendFile(token: string, chatId: string, file: OutboundFile): Promise<string>;
+}
+
+export class MessengerError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "MessengerError";
+    Object.setPrototypeOf(this, MessengerError.prototype);
+  }
+}
@@ -0,0 +1,124 @@
+import { db } from "../../db";
+import { and, asc, desc, eq, inArray, isNotNull, or, sql } from "drizzle-orm";
+import { deal_messages, messenger_channels, messenger_chats } from "@shared/schema";
+import type { InsertMessengerChannel, InsertMessengerChat, MessengerChannel, MessengerChat } from "@shared/schema";
+import { secretsService } from "../secrets/service";
+
+export type PublicMessengerChannel = Omit<MessengerChannel, "token" | "webhook_secret">;
+
+export interface MessengerChannelState {
+  account_name?: string | null;
+  last_error?: string | null;
+  webhook_secret?: string;
+}
+
+// Чат сделки вместе с каналом, через который можно ответить
+export type DealMessengerChat = MessengerChat & {
+  channel_type: string;
+  channel_name: string;
+  channel_active: boolean;
+};
+
+const withoutSecrets = ({ token, webhook_secret, ...channel }: MessengerChannel): PublicMessengerChannel => channel;
+
+export class MessengersRepository {
+  // token is stored encrypted by the secrets vault; adapters get the plain value
+  private decrypt(channel: MessengerChannel): MessengerChannel {
+    return { ...channel, token: secretsService.decryptField(channel.token) };
+  }
+
+  private encrypt<T extends { token?: string }>(data: T): T {
+    return data.token ? { ...data, token: secretsService.encryptField(data.token) } : data;
+  }
+
+  // ========== Каналы ==========
+
+  async getChannels(): Promise<PublicMessengerChannel[]> {
+    const result = await db.select().from(messenger_channels).orderBy(asc(messenger_channels.name));
+    return result.map(withoutSecrets);
+  }
+
+  async getChannel(id: string): Promise<MessengerChannel | undefined> {
+    const [channel] = await db.select().from(messenger_channels).where(eq(messenger_channels.id, id));
+    return channel ? this.decrypt(channel) : undefined;
+  }
+
+  async createChannel(data: InsertMessengerChannel & { webhook_secret: string; created_by: string | null }): Promise<MessengerChannel> {
+    const [channel] = await db.insert(messenger_channels).values(this.encrypt(data)).returning();
+    return this.decrypt(channel);
+  }
+
+  async updateChannel(id: string, data: Partial<InsertMessengerChannel> & MessengerChannelState): Promise<PublicMessengerChannel | undefined> {
+    const [channel] = await db.update(messenger_channels)
+      .set({ ...this.encrypt(data), updated_at: new Date() })
+      .where(eq(messenger_channels.id, id))
+      .returning();
+    return channel ? withoutSecrets(channel) : undefined;
+  }
+
+  async touchChannel(id: string): Promise<void> {
+    await db.update(messenger_channels).set({ last_message_at: new Date() }).where(eq(messenger_channels.id, id));
+  }
+
+  async deleteChannel(id: string): Promise<boolean> {
+    const result = await db.delete(messenger_channels).where(eq(messenger_channels.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async countSourceChannels(sourceId: string): Promise<number> {
+    const [row] = await db.select({ count: sql<number>`count(*)::int` })
+      .from(messenger_channels)
+      .where(eq(messenger_channels.lead_source_id, sourceId));
+    return row?.count ?? 0;
+  }
+
+  // ========== Чаты ==========
+
+  async findChat(channelId: string, externalChatId: string): Promise<MessengerChat | undefined> {
+    const [chat] = await db.select().from(messenger_chats)
+      .where(and(eq(messenger_chats.channel_id, channelId), eq(messenger_chats.external_chat_id, externalChatId)));
+    return chat;
+  }
+
+  async createChat(data: InsertMessengerChat): Promise<MessengerChat> {
+    const [chat] = await db.insert(messenger_chats).values(data).returning();
+    return chat;
+  }
+
+  async updateChat(id: string, data: Partial<InsertMessengerChat>): Promise<MessengerChat | undefined> {
+    const [chat] = await db.update(messenger_chats).set(data).where(eq(messenger_chats.id, id)).returning();
+    return chat;
+  }
+
+  /**
+   * Чаты, привязанные к сделке сейчас или писавшие в неё раньше
+   */
+  async getDealChats(dealId: string): Promise<DealMessengerChat[]> {
+    const history = db.selectDistinct({ chat_id: deal_messages.chat_id })
+      .from(deal_messages)
+      .where(and(eq(deal_messages.deal_id, dealId), isNotNull(deal_messages.chat_id)));
+
+    const result: Array<{ chat: MessengerChat } & Omit<DealMessengerChat, keyof MessengerChat>> = await db
+      .select({
+        chat: messenger_chats,
+        channel_type: messenger_channels.type,
+        channel_name: messenger_channels.name,
+        channel_active: messenger_channels.is_active,
+      })
+      .from(messenger_chats)
+      .innerJoin(messenger_channels, eq(messenger_chats.channel_id, messenger_channels.id))
+      .where(or(eq(messenger_chats.deal_id, dealId), inArray(messenger_chats.id, history)))
+      .orderBy(desc(messenger_chats.last_message_at));
+
+    return result.map(({ chat, ...channel }) => ({ ...chat, ...channel }));
+  }
+
+  // Telegram повторяет вебхук, если не дождался ответа
+  async hasMessage(chatId: string, externalId: string): Promise<boolean> {
+    const [row] = await db.select({ id: deal_messages.id }).from(deal_messages)
+      .where(and(eq(deal_messages.chat_id, chatId), eq(deal_messages.external_id, externalId), eq(deal_messages.direction, "incoming")));
+    return !!row;
+  }
+}
+
+export const messengersRepository = new MessengersRepository();
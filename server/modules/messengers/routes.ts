@@ -0,0 +1,179 @@
+import { Router } from "express";
+import type { Request } from "express";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { insertMessengerChannelSchema } from "@shared/schema";
+import { messengersRepository } from "./repository";
+import { messengerService, MessengerError } from "./service";
+import { checkStrictAdmin } from "../../middleware/permissions";
+import { getRequestUserId } from "../../middleware/auth";
+
+export const router = Router();
+
+// Telegram не примет сообщение длиннее 4096 символов
+const MAX_REPLY_LENGTH = 4096;
+
+const sendReplySchema = z.object({
+  chat_id: z.string().min(1),
+  content: z.string().trim().min(1, "Сообщение пустое").max(MAX_REPLY_LENGTH),
+});
+
+// Адрес, на который мессенджер шлёт вебхуки. За прокси берётся PUBLIC_URL — мессенджеру нужен внешний https-адрес
+function publicBaseUrl(req: Request): string {
+  return process.env.PUBLIC_URL || `${req.protocol}://${req.get("host")}`;
+}
+
+// ========== Вебхуки мессенджеров ==========
+
+// POST /api/messengers/webhooks/:channelId - обновления бота; подлинность проверяется секретом канала
+router.post("/api/messengers/webhooks/:channelId", async (req, res) => {
+  try {
+    await messengerService.handleWebhook(req.params.channelId, req.headers, req.body);
+    res.json({ ok: true });
+  } catch (error) {
+    if (error instanceof MessengerError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    // Ответ 500 заставит мессенджер повторить доставку; повтор отсекается по id сообщения
+    console.error("Error handling messenger webhook:", error);
+    res.status(500).json({ error: "Failed to handle webhook" });
+  }
+});
+
+// ========== Каналы ==========
+
+// GET /api/messengers/channels - подключённые боты (без токенов)
+router.get("/api/messengers/channels", async (req, res) => {
+  try {
+    res.json(await messengersRepository.getChannels());
+  } catch (error) {
+    console.error("Error fetching messenger channels:", error);
+    res.status(500).json({ error: "Failed to fetch messenger channels" });
+  }
+});
+
+// POST /api/messengers/channels - подключить бота; токен проверяется и вебхук ставится до сохранения
+router.post("/api/messengers/channels", checkStrictAdmin(), async (req, res) => {
+  try {
+    const validationResult = insertMessengerChannelSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      const errorMessage = fromZodError(validationResult.error).toString();
+      res.status(400).json({ error: errorMessage });
+      return;
+    }
+
+    const channel = await messengerService.createChannel(validationResult.data, publicBaseUrl(req), getRequestUserId(req) || null);
+    res.status(201).json(channel);
+  } catch (error) {
+    if (error instanceof MessengerError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    console.error("Error creating messenger channel:", error);
+    res.status(500).json({ error: "Failed to create messenger channel" });
+  }
+});
+
+// PUT /api/messengers/channels/:id - название, источник заявок, включение; пустой токен оставляет прежний
+router.put("/api/messengers/channels/:id", checkStrictAdmin(), async (req, res) => {
+  try {
+    const channel = await messengersRepository.getChannel(req.params.id);
+    if (!channel) {
+      res.status(404).json({ error: "Messenger channel not found" });
+      return;
+    }
+
+    const { token, type, ...body } = req.body;
+    const validationResult = insertMessengerChannelSchema.omit({ type: true }).partial().safeParse(token ? { ...body, token } : body);
+
+    if (!validationResult.success) {
+      const errorMessage = fromZodError(validationResult.error).toString();
+      res.status(400).json({ error: errorMessage });
+      return;
+    }
+
+    res.json(await messengerService.updateChannel(channel, validationResult.data, publicBaseUrl(req)));
+  } catch (error) {
+    if (error instanceof MessengerError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    console.error("Error updating messenger channel:", error);
+    res.status(500).json({ error: "Failed to update messenger channel" });
+  }
+});
+
+// POST /api/messengers/channels/:id/reconnect - заново поставить вебхук (сменился адрес сервера)
+router.post("/api/messengers/channels/:id/reconnect", checkStrictAdmin(), async (req, res) => {
+  try {
+    const channel = await messengersRepository.getChannel(req.params.id);
+    if (!channel) {
+      res.status(404).json({ error: "Messenger channel not found" });
+      return;
+    }
+
+    res.json(await messengerService.connect(channel, publicBaseUrl(req)));
+  } catch (error) {
+    if (error instanceof MessengerError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    console.error("Error reconnecting messenger channel:", error);
+    res.status(500).json({ error: "Failed to reconnect messenger channel" });
+  }
+});
+
+// DELETE /api/messengers/channels/:id - отключить бота; переписка в сделках остаётся
+router.delete("/api/messengers/channels/:id", checkStrictAdmin(), async (req, res) => {
+  try {
+    const channel = await messengersRepository.getChannel(req.params.id);
+    if (!channel) {
+      res.status(404).json({ error: "Messenger channel not found" });
+      return;
+    }
+
+    await messengerService.deleteChannel(channel);
+    res.status(204).send();
+  } catch (error) {
+    console.error("Error deleting messenger channel:", error);
+    res.status(500).json({ error: "Failed to delete messenger channel" });
+  }
+});
+
+// ========== Переписка в сделке ==========
+
+// GET /api/deals/:id/messenger-chats - чаты клиента, через которые можно ответить из сделки
+router.get("/api/deals/:id/messenger-chats", async (req, res) => {
+  try {
+    res.json(await messengersRepository.getDealChats(req.params.id));
+  } catch (error) {
+    console.error("Error fetching deal messenger chats:", error);
+    res.status(500).json({ error: "Failed to fetch messenger chats" });
+  }
+});
+
+// POST /api/deals/:id/messenger-messages - ответ клиенту в мессенджер; сообщение появляется в ленте сделки
+router.post("/api/deals/:id/messenger-messages", async (req, res) => {
+  try {
+    const validationResult = sendReplySchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      const errorMessage = fromZodError(validationResult.error).toString();
+      res.status(400).json({ error: errorMessage });
+      return;
+    }
+
+    const { chat_id, content } = validationResult.data;
+    const message = await messengerService.send(req.params.id, chat_id, getRequestUserId(req)!, content);
+    res.status(201).json(message);
+  } catch (error) {
+    if (error instanceof MessengerError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    console.error("Error sending messenger reply:", error);
+    res.status(500).json({ error: "Failed to send message" });
+  }
+});
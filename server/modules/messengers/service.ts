@@ -0,0 +1,318 @@
+import { randomBytes } from "crypto";
+import { readFile, stat } from "fs/promises";
+import path from "path";
+import type { IncomingHttpHeaders } from "http";
+import type { DealMessage, InsertMessengerChannel, MessengerChannel, MessengerChat, MessengerType } from "@shared/schema";
+import { normalizePhone } from "@shared/phone";
+import { messengersRepository, type PublicMessengerChannel } from "./repository";
+import { MessengerError, type InboundMessage, type MessengerAdapter } from "./adapter";
+import { telegramAdapter } from "./telegram";
+import { salesRepository } from "../sales/repository";
+import { leadsRepository } from "../leads/repository";
+import { leadIntakeService } from "../leads/service";
+import { attachmentsRepository } from "../attachments/repository";
+import { activityLogsRepository } from "../tasks/repository";
+import { fileAccessService } from "../file-access/service";
+import { localFileStorage } from "../../localFileStorage";
+
+export { MessengerError };
+
+const ADAPTERS: Record<MessengerType, MessengerAdapter> = {
+  telegram: telegramAdapter,
+};
+
+const MESSENGER_LABELS: Record<MessengerType, string> = {
+  telegram: "Telegram",
+};
+
+// Как в почте: текст в ленте сделки обрезается
+const DEAL_MESSAGE_MAX_LENGTH = 4000;
+const IMAGE_TAG = /\[img\]([^\[]+)\[\/img\]/g;
+// Картинки ответа — только файлы, загруженные через /api/objects/upload
+const OBJECT_PATH = /^\/objects\/[^/]+$/;
+
+const MIME_BY_EXTENSION: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+};
+
+function adapterFor(type: string): MessengerAdapter {
+  const adapter = ADAPTERS[type as MessengerType];
+  if (!adapter) throw new MessengerError(`Мессенджер ${type} не поддерживается`);
+  return adapter;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export class MessengerService {
+  webhookUrl(baseUrl: string, channelId: string): string {
+    return `${baseUrl.replace(/\/+$/, "")}/api/messengers/webhooks/${channelId}`;
+  }
+
+  /**
+   * Сохраняет канал и подключает вебхук. Если мессенджер не принял токен, канал не создаётся
+   */
+  async createChannel(data: InsertMessengerChannel, baseUrl: string, createdBy: string | null): Promise<PublicMessengerChannel> {
+    const channel = await messengersRepository.createChannel({
+      ...data,
+      webhook_secret: randomBytes(24).toString("hex"),
+      created_by: createdBy,
+    });
+
+    try {
+      return await this.connect(channel, baseUrl);
+    } catch (error) {
+      await messengersRepository.deleteChannel(channel.id);
+      throw error;
+    }
+  }
+
+  async connect(channel: MessengerChannel, baseUrl: string): Promise<PublicMessengerChannel> {
+    try {
+      const { account_name } = await adapterFor(channel.type)
+        .connect(channel.token, this.webhookUrl(baseUrl, channel.id), channel.webhook_secret);
+      return (await messengersRepository.updateChannel(channel.id, { account_name, last_error: null }))!;
+    } catch (error) {
+      await messengersRepository.updateChannel(channel.id, { last_error: errorMessage(error) });
+      throw error;
+    }
+  }
+
+  // Новый токен — это другой бот: он подключается до сохранения, старый отключается от вебхука
+  async updateChannel(channel: MessengerChannel, data: Partial<InsertMessengerChannel>, baseUrl: string): Promise<PublicMessengerChannel | undefined> {
+    if (!data.token || data.token === channel.token) {
+      return await messengersRepository.updateChannel(channel.id, data);
+    }
+
+    const { account_name } = await adapterFor(channel.type)
+      .connect(data.token, this.webhookUrl(baseUrl, channel.id), channel.webhook_secret);
+    await this.disconnectQuietly(channel);
+    return await messengersRepository.updateChannel(channel.id, { ...data, account_name, last_error: null });
+  }
+
+  async deleteChannel(channel: MessengerChannel): Promise<void> {
+    await this.disconnectQuietly(channel);
+    await messengersRepository.deleteChannel(channel.id);
+  }
+
+  // Бот мог быть удалён в самом мессенджере — это не мешает отключить канал в ERP
+  private async disconnectQuietly(channel: MessengerChannel): Promise<void> {
+    try {
+      await adapterFor(channel.type).disconnect(channel.token);
+    } catch (error) {
+      console.warn(`Failed to disconnect messenger channel ${channel.name}:`, errorMessage(error));
+    }
+  }
+
+  // ========== Входящие ==========
+
+  /**
+   * Вебхук мессенджера. Секрет сверяется до разбора тела; сообщения отключённого канала отбрасываются
+   */
+  async handleWebhook(channelId: string, headers: IncomingHttpHeaders, body: unknown): Promise<void> {
+    const channel = await messengersRepository.getChannel(channelId);
+    if (!channel) throw new MessengerError("Channel not found", 404);
+
+    const adapter = adapterFor(channel.type);
+    if (!adapter.verifyWebhook(headers, channel.webhook_secret)) {
+      throw new MessengerError("Invalid webhook secret", 401);
+    }
+    if (!channel.is_active) return;
+
+    const inbound = adapter.parseUpdate(body);
+    if (inbound) await this.receive(channel, inbound);
+  }
+
+  async receive(channel: MessengerChannel, inbound: InboundMessage): Promise<DealMessage | undefined> {
+    const existing = await messengersRepository.findChat(channel.id, inbound.chat_id);
+    if (existing && await messengersRepository.hasMessage(existing.id, inbound.message_id)) return undefined;
+
+    const phone = normalizePhone(inbound.phone) || existing?.phone || null;
+    const chat = existing || await messengersRepository.createChat({
+      channel_id: channel.id,
+      external_chat_id: inbound.chat_id,
+      name: inbound.sender_name,
+      username: inbound.username,
+      phone,
+    });
+
+    const deal = await this.resolveDeal(channel, chat, inbound, phone);
+    const message = await salesRepository.createDealMessage({
+      deal_id: deal.deal_id,
+      message_type: channel.type,
+      content: await this.inboundContent(channel, deal.deal_id, inbound),
+      author_id: null,
+      sender_name: inbound.sender_name || inbound.username || phone,
+      direction: "incoming",
+      is_read: 0,
+      chat_id: chat.id,
+      external_id: inbound.message_id,
+    });
+
+    await messengersRepository.updateChat(chat.id, {
+      ...deal,
+      name: inbound.sender_name || chat.name,
+      username: inbound.username || chat.username,
+      phone,
+      last_message_at: inbound.sent_at,
+    });
+    await messengersRepository.touchChannel(channel.id);
+    return message;
+  }
+
+  /**
+   * Сделка собеседника: открытая сделка чата, иначе заявка источника канала —
+   * она найдёт открытую сделку по телефону или создаст новую по правилам распределения
+   */
+  private async resolveDeal(
+    channel: MessengerChannel,
+    chat: MessengerChat,
+    inbound: InboundMessage,
+    phone: string | null,
+  ): Promise<{ deal_id: string; client_id: string | null }> {
+    const current = chat.deal_id ? await salesRepository.getDealById(chat.deal_id) : undefined;
+    if (current && !current.outcome) {
+      // Номер, которым поделились позже, дописывается в сделку — по нему найдутся следующие обращения
+      if (phone && !current.contact_phone) {
+        await salesRepository.updateDeal(current.id, { contact_phone: phone });
+      }
+      return { deal_id: current.id, client_id: current.client_id };
+    }
+
+    const source = await leadsRepository.getSource(channel.lead_source_id);
+    if (!source) throw new MessengerError(`Источник заявок канала «${channel.name}» не найден`, 500);
+
+    const result = await leadIntakeService.accept(source, {
+      name: inbound.sender_name || inbound.username,
+      phone,
+      email: null,
+      company: null,
+      comment: inbound.text,
+      form: channel.name,
+      page_url: null,
+      utm_source: channel.type,
+      utm_medium: "messenger",
+      utm_campaign: null,
+      utm_content: null,
+      utm_term: null,
+    }, JSON.stringify(inbound), null);
+
+    return { deal_id: result.deal_id!, client_id: result.client_id };
+  }
+
+  // Текст сообщения для ленты; файл сохраняется во вложения сделки, картинка показывается в ленте
+  private async inboundContent(channel: MessengerChannel, dealId: string, inbound: InboundMessage): Promise<string> {
+    const parts: string[] = [];
+    if (inbound.phone) parts.push(`📱 ${inbound.phone}`);
+    if (inbound.text) parts.push(inbound.text);
+
+    if (inbound.file) {
+      const file = inbound.file;
+      try {
+        const buffer = await adapterFor(channel.type).downloadFile(channel.token, file);
+        const filePath = await localFileStorage.saveFile(buffer, file.file_name);
+        await attachmentsRepository.createDealAttachment({
+          deal_id: dealId,
+          file_name: file.file_name,
+          file_path: filePath,
+          file_size: buffer.length,
+          mime_type: file.mime_type,
+        });
+        parts.push(file.mime_type.startsWith("image/") ? `[img]${filePath}[/img]` : `📎 ${file.file_name}`);
+      } catch (error) {
+        console.warn(`Failed to download ${channel.type} file ${file.file_name}:`, errorMessage(error));
+        parts.push(`📎 ${file.file_name} (файл не загружен: ${errorMessage(error)})`);
+      }
+    }
+
+    return parts.join("\n").slice(0, DEAL_MESSAGE_MAX_LENGTH);
+  }
+
+  // ========== Исходящие ==========
+
+  /**
+   * Ответ клиенту из ленты сделки. Картинки из сообщения ([img]...[/img]) уходят файлами, затем текст.
+   * В ленту сообщение записывается только после отправки
+   */
+  async send(dealId: string, chatId: string, userId: string, content: string): Promise<DealMessage> {
+    const chats = await messengersRepository.getDealChats(dealId);
+    const chat = chats.find((item) => item.id === chatId);
+    if (!chat) throw new MessengerError("Чат не найден", 404);
+
+    const channel = await messengersRepository.getChannel(chat.channel_id);
+    if (!channel || !channel.is_active) throw new MessengerError("Канал мессенджера отключён", 409);
+
+    const adapter = adapterFor(channel.type);
+    const images = Array.from(content.matchAll(IMAGE_TAG), (match) => match[1]);
+    const text = content.replace(IMAGE_TAG, "").trim();
+    let externalId: string | null = null;
+
+    const filePaths = await this.resolveImages(userId, images);
+    for (const filePath of filePaths) {
+      externalId = await adapter.sendFile(channel.token, chat.external_chat_id, {
+        buffer: await readFile(filePath),
+        file_name: path.basename(filePath),
+        mime_type: MIME_BY_EXTENSION[path.extname(filePath).toLowerCase()] || "application/octet-stream",
+      });
+    }
+    if (text) {
+      externalId = await adapter.sendText(channel.token, chat.external_chat_id, text);
+    }
+
+    const message = await salesRepository.createDealMessage({
+      deal_id: dealId,
+      message_type: channel.type,
+      content,
+      author_id: userId,
+      direction: "outgoing",
+      chat_id: chat.id,
+      external_id: externalId,
+    });
+    await messengersRepository.updateChat(chat.id, { last_message_at: new Date() });
+
+    try {
+      await activityLogsRepository.logActivity({
+        entity_type: "deal",
+        entity_id: dealId,
+        action_type: "created",
+        user_id: userId,
+        description: `Ответ клиенту в ${MESSENGER_LABELS[channel.type as MessengerType] || channel.type}`,
+      });
+    } catch (logError) {
+      console.warn("Failed to log messenger reply:", logError);
+    }
+
+    return message;
+  }
+
+  /**
+   * Пути картинок на диске: только загрузки внутри хранилища, права — как на скачивание.
+   * Проверяются все до отправки, чтобы клиент не получил ответ наполовину
+   */
+  private async resolveImages(userId: string, images: string[]): Promise<string[]> {
+    const filePaths: string[] = [];
+
+    for (const image of images) {
+      const objectPath = image.trim();
+      const filePath = OBJECT_PATH.test(objectPath) ? localFileStorage.resolveUploadPath(objectPath) : null;
+      if (!filePath) throw new MessengerError(`Файл ${objectPath} не найден`, 404);
+
+      if (!(await fileAccessService.canReadObject(userId, objectPath))) {
+        throw new MessengerError(`Нет доступа к файлу ${objectPath}`, 403);
+      }
+
+      const info = await stat(filePath).catch(() => null);
+      if (!info?.isFile()) throw new MessengerError(`Файл ${objectPath} не найден`, 404);
+      filePaths.push(filePath);
+    }
+
+    return filePaths;
+  }
+}
+
+export const messengerService = new MessengerService();
@@ -0,0 +1,162 @@
+import { timingSafeEqual } from "crypto";
+import type { IncomingHttpHeaders } from "http";
+import { MessengerError, type InboundFile, type InboundMessage, type MessengerAdapter, type OutboundFile } from "./adapter";
+
+const API_URL = "https://api.telegram.org";
+const REQUEST_TIMEOUT_MS = 15_000;
+const FILE_TIMEOUT_MS = 60_000;
+// Bot API отдаёт боту файлы не больше 20 МБ
+const MAX_DOWNLOAD_BYTES = 20 * 1024 * 1024;
+const SECRET_HEADER = "x-telegram-bot-api-secret-token";
+
+interface TelegramFile {
+  file_id: string;
+  file_size?: number;
+  file_name?: string;
+  mime_type?: string;
+}
+
+interface TelegramMessage {
+  message_id: number;
+  date: number;
+  chat: { id: number; type: string };
+  from?: { id: number; first_name?: string; last_name?: string; username?: string };
+  text?: string;
+  caption?: string;
+  contact?: { phone_number: string; user_id?: number };
+  photo?: TelegramFile[];
+  document?: TelegramFile;
+  video?: TelegramFile;
+  audio?: TelegramFile;
+  voice?: TelegramFile;
+}
+
+interface TelegramResponse<T> {
+  ok: boolean;
+  result?: T;
+  description?: string;
+}
+
+async function callApi<T>(token: string, method: string, body: Record<string, unknown> | FormData = {}): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(`${API_URL}/bot${token}/${method}`, {
+      method: "POST",
+      headers: body instanceof FormData ? undefined : { "Content-Type": "application/json" },
+      body: body instanceof FormData ? body : JSON.stringify(body),
+      signal: AbortSignal.timeout(body instanceof FormData ? FILE_TIMEOUT_MS : REQUEST_TIMEOUT_MS),
+    });
+  } catch (error: any) {
+    throw new MessengerError(`Telegram недоступен: ${error.message}`, 502);
+  }
+
+  const data = await response.json().catch(() => null) as TelegramResponse<T> | null;
+  if (response.status === 401 || response.status === 404) {
+    throw new MessengerError("Telegram отклонил токен бота");
+  }
+  if (!data?.ok) {
+    throw new MessengerError(`Telegram: ${data?.description || response.statusText}`, 502);
+  }
+  return data.result as T;
+}
+
+// Файл сообщения: у фото берётся самый большой размер
+function pickFile(message: TelegramMessage): InboundFile | null {
+  const id = message.message_id;
+  const photo = message.photo?.[message.photo.length - 1];
+  if (photo) return { file_id: photo.file_id, file_name: `photo_${id}.jpg`, mime_type: "image/jpeg", file_size: photo.file_size ?? null };
+
+  const candidates: Array<[TelegramFile | undefined, string, string]> = [
+    [message.document, `file_${id}`, "application/octet-stream"],
+    [message.video, `video_${id}.mp4`, "video/mp4"],
+    [message.audio, `audio_${id}.mp3`, "audio/mpeg"],
+    [message.voice, `voice_${id}.ogg`, "audio/ogg"],
+  ];
+  for (const [file, fallbackName, fallbackType] of candidates) {
+    if (file) {
+      return {
+        file_id: file.file_id,
+        file_name: file.file_name || fallbackName,
+        mime_type: file.mime_type || fallbackType,
+        file_size: file.file_size ?? null,
+      };
+    }
+  }
+  return null;
+}
+
+export class TelegramAdapter implements MessengerAdapter {
+  async connect(token: string, webhookUrl: string, secret: string): Promise<{ account_name: string | null }> {
+    const bot = await callApi<{ username?: string }>(token, "getMe");
+    await callApi(token, "setWebhook", { url: webhookUrl, secret_token: secret, allowed_updates: ["message"] });
+    return { account_name: bot.username ? `@${bot.username}` : null };
+  }
+
+  async disconnect(token: string): Promise<void> {
+    await callApi(token, "deleteWebhook");
+  }
+
+  verifyWebhook(headers: IncomingHttpHeaders, secret: string): boolean {
+    const received = headers[SECRET_HEADER];
+    if (typeof received !== "string") return false;
+    const a = Buffer.from(received);
+    const b = Buffer.from(secret);
+    return a.length === b.length && timingSafeEqual(a, b);
+  }
+
+  // Принимаются только личные чаты с ботом
+  parseUpdate(body: unknown): InboundMessage | null {
+    const message = (body as { message?: TelegramMessage } | null)?.message;
+    if (!message || message.chat?.type !== "private") return null;
+
+    const file = pickFile(message);
+    const text = message.text ?? message.caption ?? null;
+    // Номер принимается, только если клиент поделился своим контактом, а не чужим
+    const phone = message.contact && message.contact.user_id === message.from?.id ? message.contact.phone_number : null;
+    if (!text && !file && !phone) return null;
+
+    const from = message.from;
+    const senderName = [from?.first_name, from?.last_name].filter(Boolean).join(" ") || null;
+    return {
+      chat_id: String(message.chat.id),
+      message_id: String(message.message_id),
+      sender_name: senderName,
+      username: from?.username ? `@${from.username}` : null,
+      phone,
+      text,
+      file,
+      sent_at: new Date(message.date * 1000),
+    };
+  }
+
+  async downloadFile(token: string, file: InboundFile): Promise<Buffer> {
+    if (file.file_size && file.file_size > MAX_DOWNLOAD_BYTES) {
+      throw new MessengerError("Файл больше 20 МБ, Telegram не отдаёт его боту");
+    }
+
+    const { file_path } = await callApi<{ file_path?: string }>(token, "getFile", { file_id: file.file_id });
+    if (!file_path) throw new MessengerError("Telegram не вернул путь к файлу", 502);
+
+    const response = await fetch(`${API_URL}/file/bot${token}/${file_path}`, { signal: AbortSignal.timeout(FILE_TIMEOUT_MS) });
+    if (!response.ok) throw new MessengerError(`Не удалось скачать файл: ${response.statusText}`, 502);
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async sendText(token: string, chatId: string, text: string): Promise<string> {
+    const message = await callApi<TelegramMessage>(token, "sendMessage", { chat_id: chatId, text });
+    return String(message.message_id);
+  }
+
+  // Картинки уходят фотографией, остальное — документом
+  async sendFile(token: string, chatId: string, file: OutboundFile): Promise<string> {
+    const isImage = file.mime_type.startsWith("image/");
+    const formData = new FormData();
+    formData.append("chat_id", chatId);
+    formData.append(isImage ? "photo" : "document", new Blob([new Uint8Array(file.buffer)], { type: file.mime_type }), file.file_name);
+
+    const message = await callApi<TelegramMessage>(token, isImage ? "sendPhoto" : "sendDocument", formData);
+    return String(message.message_id);
+  }
+}
+
+export const telegramAdapter = new TelegramAdapter();
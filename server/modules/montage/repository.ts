@@ -1,7 +1,8 @@
-import { db } from "../../db";
-import { eq, desc, and, sql, inArray } from "drizzle-orm";
+import { db, withTransaction } from "../../db";
+import { eq, desc, and, inArray } from "drizzle-orm";
 import type { MontageOrder, InsertMontageOrder, MontageItem, InsertMontageItem } from "@shared/schema";
 import { montage_orders, montage_items, project_items, projects, installers, montage_order_installers } from "@shared/schema";
+import { numberingRepository } from "../numbering/repository";
 
 export class MontageRepository {
   // === MONTAGE ORDERS ===
@@ -14,6 +15,7 @@ export class MontageRepository {
       address: montage_orders.address,
       client_name: montage_orders.client_name,
       client_phone: montage_orders.client_phone,
+      client_id: montage_orders.client_id,
       scheduled_date: montage_orders.scheduled_date,
       scheduled_time: montage_orders.scheduled_time,
       deadline: montage_orders.deadline,
@@ -56,6 +58,7 @@ export class MontageRepository {
       address: montage_orders.address,
       client_name: montage_orders.client_name,
       client_phone: montage_orders.client_phone,
+      client_id: montage_orders.client_id,
       scheduled_date: montage_orders.scheduled_date,
       scheduled_time: montage_orders.scheduled_time,
       deadline: montage_orders.deadline,
@@ -90,6 +93,35 @@ export class MontageRepository {
     return ordersWithItems;
   }
 
+  /**
+   * IDs of montage orders assigned to installers linked to the user account
+   */
+  async getOrderIdsForUser(userId: string): Promise<Set<string>> {
+    const userInstallers = await db.select({ id: installers.id })
+      .from(installers)
+      .where(eq(installers.user_id, userId));
+
+    const ids = new Set<string>();
+    if (userInstallers.length === 0) {
+      return ids;
+    }
+
+    const installerIds = userInstallers.map((i: { id: string }) => i.id);
+    const [mainOrders, linkedOrders] = await Promise.all([
+      db.select({ id: montage_orders.id })
+        .from(montage_orders)
+        .where(inArray(montage_orders.installer_id, installerIds)),
+      db.select({ id: montage_order_installers.montage_order_id })
+        .from(montage_order_installers)
+        .where(inArray(montage_order_installers.installer_id, installerIds)),
+    ]);
+
+    for (const row of [...mainOrders, ...linkedOrders]) {
+      ids.add(row.id);
+    }
+    return ids;
+  }
+
   async getOrderById(id: string): Promise<any | undefined> {
     const result = await db.select({
       id: montage_orders.id,
@@ -98,6 +130,7 @@ export class MontageRepository {
       address: montage_orders.address,
       client_name: montage_orders.client_name,
       client_phone: montage_orders.client_phone,
+      client_id: montage_orders.client_id,
       scheduled_date: montage_orders.scheduled_date,
       scheduled_time: montage_orders.scheduled_time,
       deadline: montage_orders.deadline,
@@ -127,16 +160,22 @@ export class MontageRepository {
   }
 
   async createOrder(data: InsertMontageOrder): Promise<MontageOrder> {
-    // Generate order number
-    const countResult = await db.select({ count: sql<number>`count(*)` }).from(montage_orders);
-    const count = Number(countResult[0]?.count || 0);
-    const orderNumber = `M-${String(count + 1).padStart(3, '0')}`;
-
-    const result = await db.insert(montage_orders).values({
-      ...data,
-      order_number: orderNumber,
-    }).returning();
-    return result[0];
+    // Заказ проекта относится к клиенту проекта
+    let clientId = data.client_id ?? null;
+    if (!clientId && data.project_id) {
+      const [project] = await db.select({ client_id: projects.client_id }).from(projects).where(eq(projects.id, data.project_id));
+      clientId = project?.client_id ?? null;
+    }
+
+    // Номер выдаёт нумератор заказов на монтаж (по умолчанию "M-001")
+    return await withTransaction(async (tx: any) => {
+      const result = await tx.insert(montage_orders).values({
+        ...data,
+        client_id: clientId,
+        order_number: await numberingRepository.allocate("montage_order", {}, tx),
+      }).returning();
+      return result[0];
+    });
   }
 
   async updateOrder(id: string, data: Partial<InsertMontageOrder>): Promise<MontageOrder | undefined> {
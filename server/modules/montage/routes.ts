@@ -5,6 +5,8 @@ import { fromZodError } from "zod-validation-error";
 import { db } from "../../db";
 import { eq, asc, and, ne, inArray, isNotNull } from "drizzle-orm";
 import { activityLogsRepository } from "../tasks/repository";
+import { getRequestUserId } from "../../middleware/auth";
+import { permissionsService } from "../permissions/service";
 
 export const router = Router();
 
@@ -14,9 +16,17 @@ export const router = Router();
 router.get("/api/montage", async (req, res) => {
   try {
     const { status } = req.query;
-    const orders = status
+    const userId = getRequestUserId(req);
+    let orders = status
       ? await montageRepository.getOrdersByStatus(status as string)
       : await montageRepository.getAllOrders();
+
+    // Without view_all only orders of the user's installer profile are visible
+    if (userId && !(await permissionsService.canViewAll(userId, "installations"))) {
+      const visibleIds = await montageRepository.getOrderIdsForUser(userId);
+      orders = orders.filter(order => visibleIds.has(order.id));
+    }
+
     res.json(orders);
   } catch (error) {
     console.error("Error fetching montage orders:", error);
@@ -360,7 +370,7 @@ router.post("/api/montage", async (req, res) => {
 
     // Log activity for project
     if (newOrder.project_id) {
-      const userId = req.headers["x-user-id"] as string;
+      const userId = getRequestUserId(req);
       try {
         await activityLogsRepository.logActivity({
           entity_type: "project",
@@ -506,7 +516,7 @@ router.post("/api/montage/:orderId/items", async (req, res) => {
     // Log activity for project
     const order = await montageRepository.getOrderById(orderId);
     if (order?.project_id) {
-      const userId = req.headers["x-user-id"] as string;
+      const userId = getRequestUserId(req);
       try {
         await activityLogsRepository.logActivity({
           entity_type: "project",
@@ -0,0 +1,120 @@
+import { db } from "../../db";
+import { eq, sql } from "drizzle-orm";
+import { company_settings, deals, montage_orders, number_sequences, projects, shipments } from "@shared/schema";
+import type { NumberSequence, UpdateNumberSequence } from "@shared/schema";
+import { DEFAULT_NUMBER_SEQUENCES, formatSequenceNumber, numberSequenceKeyValues } from "@shared/numbering";
+import type { NumberContext, NumberSequenceKey } from "@shared/numbering";
+
+// Наибольший числовой хвост среди уже выданных номеров (до появления нумераторов)
+function maxIssued(numbers: Array<string | null>, pattern: RegExp): number {
+  return numbers.reduce((max, value) => {
+    const match = value?.match(pattern);
+    return match ? Math.max(max, parseInt(match[1], 10)) : max;
+  }, 0);
+}
+
+export class NumberingRepository {
+  async getSequences(): Promise<NumberSequence[]> {
+    for (const key of numberSequenceKeyValues) {
+      await this.ensureSequence(key);
+    }
+    const sequences: NumberSequence[] = await db.select().from(number_sequences);
+    return numberSequenceKeyValues
+      .map((key) => sequences.find((sequence) => sequence.key === key))
+      .filter((sequence): sequence is NumberSequence => !!sequence);
+  }
+
+  async getSequence(key: NumberSequenceKey): Promise<NumberSequence | undefined> {
+    await this.ensureSequence(key);
+    const [sequence] = await db.select().from(number_sequences).where(eq(number_sequences.key, key));
+    return sequence;
+  }
+
+  // Ручная правка следующего номера относится к текущему году — годовой сброс её не отменяет
+  async updateSequence(key: NumberSequenceKey, data: UpdateNumberSequence): Promise<NumberSequence | undefined> {
+    await this.ensureSequence(key);
+    const [sequence] = await db.update(number_sequences)
+      .set({
+        ...data,
+        ...(data.next_value !== undefined ? { current_year: new Date().getFullYear() } : {}),
+        updated_at: new Date(),
+      })
+      .where(eq(number_sequences.key, key))
+      .returning();
+    return sequence;
+  }
+
+  /**
+   * Выдаёт следующий номер. Вызывать в транзакции, создающей документ (executor = tx):
+   * строка нумератора заблокирована до коммита, откат возвращает номер
+   */
+  async allocate(key: NumberSequenceKey, context: NumberContext = {}, executor: any = db): Promise<string> {
+    const date = context.date ?? new Date();
+    const year = date.getFullYear();
+
+    let [sequence] = await this.increment(key, year, executor);
+    if (!sequence) {
+      await this.ensureSequence(key, executor);
+      [sequence] = await this.increment(key, year, executor);
+    }
+    return formatSequenceNumber(sequence, sequence.next_value - 1, { ...context, date });
+  }
+
+  private async increment(key: NumberSequenceKey, year: number, executor: any): Promise<NumberSequence[]> {
+    return await executor.update(number_sequences)
+      .set({
+        next_value: sql`CASE WHEN ${number_sequences.reset_yearly} AND (${number_sequences.current_year} IS NULL OR ${number_sequences.current_year} <> ${year}) THEN 2 ELSE ${number_sequences.next_value} + 1 END`,
+        current_year: year,
+        updated_at: new Date(),
+      })
+      .where(eq(number_sequences.key, key))
+      .returning();
+  }
+
+  // Нумератор создаётся при первом обращении и продолжает уже выданные номера
+  private async ensureSequence(key: NumberSequenceKey, executor: any = db): Promise<void> {
+    const [existing] = await executor.select({ id: number_sequences.id }).from(number_sequences)
+      .where(eq(number_sequences.key, key));
+    if (existing) return;
+
+    const { prefix, suffix, padding, reset_yearly } = DEFAULT_NUMBER_SEQUENCES[key];
+    await executor.insert(number_sequences)
+      .values({
+        key,
+        prefix,
+        suffix,
+        padding,
+        reset_yearly,
+        next_value: await this.initialValue(key, executor),
+        current_year: new Date().getFullYear(),
+      })
+      .onConflictDoNothing({ target: number_sequences.key });
+  }
+
+  private async initialValue(key: NumberSequenceKey, executor: any): Promise<number> {
+    switch (key) {
+      case "deal": {
+        const [settings] = await executor.select().from(company_settings).limit(1);
+        const rows = await executor.select({ number: deals.order_number }).from(deals);
+        const offset = settings?.deal_number_offset || 269;
+        return Math.max(maxIssued(rows.map((row: any) => row.number), /^(\d+)$/) + 1, offset);
+      }
+      case "project": {
+        const rows = await executor.select({ number: projects.project_number }).from(projects);
+        return Math.max(maxIssued(rows.map((row: any) => row.number), /^(\d+)$/) + 1, 269);
+      }
+      case "shipment": {
+        const rows = await executor.select({ number: shipments.shipment_number }).from(shipments);
+        return maxIssued(rows.map((row: any) => row.number), /^ТН-(\d+)$/) + 1;
+      }
+      case "montage_order": {
+        const rows = await executor.select({ number: montage_orders.order_number }).from(montage_orders);
+        return maxIssued(rows.map((row: any) => row.number), /^M-(\d+)$/) + 1;
+      }
+      default:
+        return 1;
+    }
+  }
+}
+
+export const numberingRepository = new NumberingRepository();
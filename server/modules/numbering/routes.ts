@@ -0,0 +1,63 @@
+import { Router } from "express";
+import { fromZodError } from "zod-validation-error";
+import { updateNumberSequenceSchema } from "@shared/schema";
+import { DEAL_DOCUMENT_SEQUENCE_KEYS, hasDealToken, hasYearToken, numberSequenceKeyValues } from "@shared/numbering";
+import type { NumberSequenceKey } from "@shared/numbering";
+import { numberingRepository } from "./repository";
+import { checkAdminOnly } from "../../middleware/permissions";
+
+export const router = Router();
+
+const isSequenceKey = (key: string): key is NumberSequenceKey =>
+  numberSequenceKeyValues.includes(key as NumberSequenceKey);
+
+// GET /api/settings/number-sequences - нумераторы всех типов документов
+router.get("/api/settings/number-sequences", checkAdminOnly(), async (req, res) => {
+  try {
+    res.json(await numberingRepository.getSequences());
+  } catch (error) {
+    console.error("Error fetching number sequences:", error);
+    res.status(500).json({ error: "Failed to fetch number sequences" });
+  }
+});
+
+// PUT /api/settings/number-sequences/:key - формат, следующий номер, годовой сброс
+router.put("/api/settings/number-sequences/:key", checkAdminOnly(), async (req, res) => {
+  try {
+    const { key } = req.params;
+    if (!isSequenceKey(key)) {
+      res.status(404).json({ error: "Number sequence not found" });
+      return;
+    }
+
+    const validationResult = updateNumberSequenceSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      const errorMessage = fromZodError(validationResult.error).toString();
+      res.status(400).json({ error: errorMessage });
+      return;
+    }
+
+    const current = await numberingRepository.getSequence(key);
+    if (!current) {
+      res.status(404).json({ error: "Number sequence not found" });
+      return;
+    }
+
+    // Номер должен оставаться уникальным: без года в формате сброс счётчика повторит прошлогодние номера
+    const merged = { ...current, ...validationResult.data };
+    if (merged.reset_yearly && !hasYearToken(merged)) {
+      res.status(400).json({ error: "Для ежегодного сброса добавьте в префикс или суффикс {YYYY} или {YY}" });
+      return;
+    }
+    if (hasDealToken(merged) && !DEAL_DOCUMENT_SEQUENCE_KEYS.includes(key)) {
+      res.status(400).json({ error: "{deal} доступен только в номерах КП, счетов и договоров" });
+      return;
+    }
+
+    res.json(await numberingRepository.updateSequence(key, validationResult.data));
+  } catch (error) {
+    console.error("Error updating number sequence:", error);
+    res.status(500).json({ error: "Failed to update number sequence" });
+  }
+});
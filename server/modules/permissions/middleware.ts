@@ -1,5 +1,7 @@
 import type { Request, Response, NextFunction } from "express";
 import { permissionsService, type PermissionAction } from "./service";
+import { getRequestUserId } from "../../middleware/auth";
+import { logAuditAction } from "../../middleware/permissions";
 
 /**
  * Middleware to check if the authenticated user has permission to perform an action on a module
@@ -7,9 +9,10 @@ import { permissionsService, type PermissionAction } from "./service";
 export function requirePermission(module: string, action: PermissionAction) {
   return async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const userId = req.headers["x-user-id"] as string;
+      const userId = getRequestUserId(req);
 
       if (!userId) {
+        await logAuditAction(null, action, module, req.originalUrl, false, "User not authenticated", req);
         res.status(401).json({ error: "User not authenticated" });
         return;
       }
@@ -17,6 +20,7 @@ export function requirePermission(module: string, action: PermissionAction) {
       const hasPermission = await permissionsService.hasPermission(userId, module, action);
 
       if (!hasPermission) {
+        await logAuditAction(userId, action, module, req.originalUrl, false, `No ${action} permission for ${module}`, req);
         res.status(403).json({
           error: "Access denied",
           message: `You don't have permission to ${action} ${module}`
@@ -32,13 +36,86 @@ export function requirePermission(module: string, action: PermissionAction) {
   };
 }
 
+// HTTP method → module action used by requireModuleAccess
+const METHOD_ACTIONS: Record<string, PermissionAction> = {
+  GET: 'view',
+  HEAD: 'view',
+  POST: 'create',
+  PUT: 'edit',
+  PATCH: 'edit',
+  DELETE: 'delete',
+};
+
+/**
+ * Module action implied by an HTTP method (unknown methods are treated as view)
+ */
+export function getMethodAction(method: string): PermissionAction {
+  return METHOD_ACTIONS[method] || 'view';
+}
+
+export interface ModuleAccessOptions {
+  /** Requests for which the module check is skipped (e.g. public webhooks, own profile) */
+  skip?: (req: Request) => boolean;
+}
+
+/**
+ * Declarative guard for a whole router: the action is derived from the HTTP method.
+ * Unknown users get 401, missing permissions get 403, every denial goes to action_audit_log.
+ */
+export function requireModuleAccess(module: string, options: ModuleAccessOptions = {}) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (req.method === 'OPTIONS' || options.skip?.(req)) {
+      next();
+      return;
+    }
+
+    const action = getMethodAction(req.method);
+
+    try {
+      const userId = getRequestUserId(req);
+
+      if (!userId) {
+        await logAuditAction(null, action, module, req.originalUrl, false, "User not authenticated", req);
+        res.status(401).json({ error: "Не авторизован" });
+        return;
+      }
+
+      const userPermissions = await permissionsService.getUserPermissions(userId);
+
+      if (!userPermissions) {
+        await logAuditAction(null, action, module, req.originalUrl, false, `Unknown user ${userId}`, req);
+        res.status(401).json({ error: "Пользователь не найден" });
+        return;
+      }
+
+      if (!permissionsService.can(userPermissions, module, action)) {
+        const reason = userPermissions.isActive
+          ? `No ${action} permission for ${module}`
+          : "User is inactive";
+        await logAuditAction(userId, action, module, req.originalUrl, false, reason, req);
+        res.status(403).json({
+          error: "Доступ запрещен",
+          message: `У вас нет прав для этого действия`
+        });
+        return;
+      }
+
+      (req as any).userPermissions = userPermissions;
+      next();
+    } catch (error) {
+      console.error("Error checking module access:", error);
+      res.status(500).json({ error: "Ошибка проверки прав доступа" });
+    }
+  };
+}
+
 /**
  * Middleware to check if user is active
  */
 export function requireActiveUser() {
   return async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const userId = req.headers["x-user-id"] as string;
+      const userId = getRequestUserId(req);
 
       if (!userId) {
         res.status(401).json({ error: "User not authenticated" });
@@ -70,7 +147,7 @@ export function requireActiveUser() {
 export function attachPermissions() {
   return async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const userId = req.headers["x-user-id"] as string;
+      const userId = getRequestUserId(req);
 
       if (userId) {
         const userPermissions = await permissionsService.getUserPermissions(userId);
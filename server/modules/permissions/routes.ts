@@ -1,12 +1,13 @@
 import { Router } from "express";
 import { permissionsService } from "./service";
+import { getRequestUserId } from "../../middleware/auth";
 
 export const router = Router();
 
 // GET /api/permissions/me - Get current user's permissions
 router.get("/api/permissions/me", async (req, res) => {
   try {
-    const userId = req.headers["x-user-id"] as string;
+    const userId = getRequestUserId(req);
 
     if (!userId) {
       res.status(401).json({ error: "User not authenticated" });
@@ -42,7 +43,7 @@ router.get("/api/permissions/me", async (req, res) => {
 // GET /api/permissions/me/:module - Get current user's permissions for a specific module
 router.get("/api/permissions/me/:module", async (req, res) => {
   try {
-    const userId = req.headers["x-user-id"] as string;
+    const userId = getRequestUserId(req);
     const { module } = req.params;
 
     if (!userId) {
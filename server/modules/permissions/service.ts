@@ -7,6 +7,7 @@ export type PermissionAction = 'view' | 'create' | 'edit' | 'delete';
 
 export interface UserPermissions {
   userId: string;
+  username: string;
   roleId: string | null;
   roleName: string | null;
   isActive: boolean;
@@ -20,7 +21,69 @@ export interface UserPermissions {
   }>;
 }
 
+type ModulePermissions = UserPermissions['permissions'] extends Map<string, infer T> ? T : never;
+
+// Legacy module names that are stored for the same section of the app
+const MODULE_ALIASES: Record<string, string[]> = {
+  sales: ['deals'],
+  deals: ['sales'],
+};
+
 export class PermissionsService {
+  /**
+   * The built-in admin account bypasses all permission checks
+   */
+  isAdmin(userPermissions: Pick<UserPermissions, 'username'>): boolean {
+    return userPermissions.username.toLowerCase() === 'admin';
+  }
+
+  /**
+   * Look up permissions of a module, falling back to its legacy alias ("sales" / "deals")
+   */
+  resolveModule(userPermissions: UserPermissions, module: string): ModulePermissions | undefined {
+    const direct = userPermissions.permissions.get(module);
+    if (direct) {
+      return direct;
+    }
+    for (const alias of MODULE_ALIASES[module] || []) {
+      const aliased = userPermissions.permissions.get(alias);
+      if (aliased) {
+        return aliased;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Check a single action against already loaded permissions
+   */
+  can(userPermissions: UserPermissions, module: string, action: PermissionAction): boolean {
+    if (!userPermissions.isActive) {
+      return false;
+    }
+    if (this.isAdmin(userPermissions)) {
+      return true;
+    }
+
+    const modulePermissions = this.resolveModule(userPermissions, module);
+    if (!modulePermissions) {
+      return false;
+    }
+
+    switch (action) {
+      case 'view':
+        return modulePermissions.can_view;
+      case 'create':
+        return modulePermissions.can_create;
+      case 'edit':
+        return modulePermissions.can_edit;
+      case 'delete':
+        return modulePermissions.can_delete;
+      default:
+        return false;
+    }
+  }
+
   /**
    * Get all permissions for a user (merges role permissions with individual overrides)
    */
@@ -89,6 +152,7 @@ export class PermissionsService {
 
     return {
       userId: user.id,
+      username: user.username,
       roleId: user.role_id,
       roleName: role?.name || null,
       isActive: user.is_active ?? true,
@@ -106,27 +170,11 @@ export class PermissionsService {
   ): Promise<boolean> {
     const userPermissions = await this.getUserPermissions(userId);
 
-    if (!userPermissions || !userPermissions.isActive) {
+    if (!userPermissions) {
       return false;
     }
 
-    const modulePermissions = userPermissions.permissions.get(module);
-    if (!modulePermissions) {
-      return false;
-    }
-
-    switch (action) {
-      case 'view':
-        return modulePermissions.can_view;
-      case 'create':
-        return modulePermissions.can_create;
-      case 'edit':
-        return modulePermissions.can_edit;
-      case 'delete':
-        return modulePermissions.can_delete;
-      default:
-        return false;
-    }
+    return this.can(userPermissions, module, action);
   }
 
   /**
@@ -139,12 +187,11 @@ export class PermissionsService {
       return false;
     }
 
-    const modulePermissions = userPermissions.permissions.get(module);
-    if (!modulePermissions) {
-      return false;
+    if (this.isAdmin(userPermissions)) {
+      return true;
     }
 
-    return modulePermissions.view_all;
+    return this.resolveModule(userPermissions, module)?.view_all ?? false;
   }
 
   /**
@@ -180,16 +227,30 @@ export class PermissionsService {
   async shouldHidePrices(userId: string, module: string): Promise<boolean> {
     const userPermissions = await this.getUserPermissions(userId);
 
-    if (!userPermissions || !userPermissions.isActive) {
+    if (!userPermissions || !userPermissions.isActive || this.isAdmin(userPermissions)) {
       return false;
     }
 
-    const modulePermissions = userPermissions.permissions.get(module);
-    if (!modulePermissions) {
-      return false;
+    return this.resolveModule(userPermissions, module)?.hide_prices ?? false;
+  }
+
+  /**
+   * Modules in which prices are hidden for the user ("deals" is reported as "sales")
+   */
+  async getHiddenPriceModules(userId: string): Promise<string[]> {
+    const userPermissions = await this.getUserPermissions(userId);
+
+    if (!userPermissions || !userPermissions.isActive || this.isAdmin(userPermissions)) {
+      return [];
     }
 
-    return modulePermissions.hide_prices;
+    const modules = new Set<string>();
+    for (const [module, perms] of Array.from(userPermissions.permissions)) {
+      if (perms.hide_prices) {
+        modules.add(module === 'deals' ? 'sales' : module);
+      }
+    }
+    return Array.from(modules);
   }
 
   /**
@@ -5,6 +5,8 @@ import { procurementRepository } from "./repository";
 import { reservationsRepository } from "../warehouse/reservations.repository";
 import multer from "multer";
 import * as XLSX from "xlsx";
+import { getRequestUserId } from "../../middleware/auth";
+import { permissionsService } from "../permissions/service";
 
 // Вспомогательная функция для автоматического резервирования
 async function autoReserveItem(
@@ -48,7 +50,7 @@ router.post("/api/procurement/upload", upload.single('file'), async (req, res) =
   try {
     const file = req.file;
     const { stage_id, project_id } = req.body;
-    const userId = req.headers['x-user-id'] as string;
+    const userId = getRequestUserId(req);
 
     if (!file) {
       res.status(400).json({ error: "Файл не загружен" });
@@ -226,7 +228,7 @@ router.put("/api/procurement/items/:itemId/alternative", async (req, res) => {
   try {
     const { itemId } = req.params;
     const { alternative_id } = req.body;
-    const userId = req.headers['x-user-id'] as string || null;
+    const userId = getRequestUserId(req) || null;
 
     const item = await procurementService.selectAlternative(itemId, alternative_id || null);
     if (!item) {
@@ -250,7 +252,7 @@ router.put("/api/procurement/items/:itemId/alternative", async (req, res) => {
 router.put("/api/procurement/items/:itemId/confirm", async (req, res) => {
   try {
     const { itemId } = req.params;
-    const userId = req.headers['x-user-id'] as string || null;
+    const userId = getRequestUserId(req) || null;
 
     const item = await procurementService.confirmMatch(itemId);
     if (!item) {
@@ -357,6 +359,10 @@ router.get("/api/procurement/:comparisonId/export", async (req, res) => {
       return;
     }
 
+    // Цены в выгрузке скрываются так же, как в API (hide_prices в модуле "warehouse")
+    const userId = getRequestUserId(req);
+    const hidePrices = userId ? await permissionsService.shouldHidePrices(userId, "warehouse") : false;
+
     // Создаём Excel
     const data = orderItems.map((item: any, index: number) => ({
       '№': index + 1,
@@ -364,8 +370,8 @@ router.get("/api/procurement/:comparisonId/export", async (req, res) => {
       'Артикул': item.alternative_item?.sku || item.warehouse_item?.sku || item.excel_sku || '',
       'Количество': item.quantity_to_order || item.excel_quantity,
       'Ед.изм': item.excel_unit || 'шт',
-      'Цена': item.price || '',
-      'Сумма': item.price ? (item.price * (item.quantity_to_order || item.excel_quantity)) : '',
+      'Цена': hidePrices ? '' : item.price || '',
+      'Сумма': !hidePrices && item.price ? (item.price * (item.quantity_to_order || item.excel_quantity)) : '',
       'Поставщик': item.supplier?.name || '',
       'Примечание': item.note || '',
     }));
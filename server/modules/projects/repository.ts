@@ -1,4 +1,4 @@
-import { db } from "../../db";
+import { db, withTransaction } from "../../db";
 import { eq, asc, or, and, sql } from "drizzle-orm";
 import type {
   Project, InsertProject,
@@ -18,9 +18,10 @@ import {
   projects, project_stages, project_items,
   stage_dependencies, process_templates, template_stages,
   template_dependencies, stage_messages, project_messages, documents, users,
-  stage_deadline_history, stage_documents, tasks, task_attachments
+  stage_deadline_history, stage_documents, tasks, task_attachments, user_roles, deals
 } from "@shared/schema";
 import { salesRepository } from "../sales/repository";
+import { numberingRepository } from "../numbering/repository";
 
 export class ProjectsRepository {
   // Project methods
@@ -74,32 +75,18 @@ export class ProjectsRepository {
     return { ...projectWithManager, stages };
   }
 
-  async getNextProjectNumber(): Promise<string> {
-    // Generate continuous project number starting from 269
-    // Get all projects
-    const allProjects = await db.select({ project_number: projects.project_number }).from(projects);
-
-    // Extract all numeric project numbers
-    const allNumbers = allProjects
-      .map(p => p.project_number)
-      .filter(n => n && !isNaN(parseInt(n)))
-      .map(n => parseInt(n!))
-      .filter(n => !isNaN(n));
-
-    // Find maximum number, ensure it's at least 268 so first number will be 269
-    const maxNumber = allNumbers.length > 0
-      ? Math.max(...allNumbers, 268)
-      : 268;
-
-    return String(maxNumber + 1);
-  }
-
   async createProject(data: InsertProject): Promise<Project> {
-    if (!data.project_number) {
-      data.project_number = await this.getNextProjectNumber();
+    // Проект сделки относится к клиенту сделки
+    if (!data.client_id && data.deal_id) {
+      const [deal] = await db.select({ client_id: deals.client_id }).from(deals).where(eq(deals.id, data.deal_id));
+      data.client_id = deal?.client_id ?? null;
     }
-    const result = await db.insert(projects).values(data).returning();
-    return result[0];
+    // Проект из счёта получает номер сделки, остальные - из нумератора проектов
+    return await withTransaction(async (tx: any) => {
+      const project_number = data.project_number || await numberingRepository.allocate("project", {}, tx);
+      const [project] = await tx.insert(projects).values({ ...data, project_number }).returning();
+      return project;
+    });
   }
 
   async updateProject(id: string, data: Partial<InsertProject>): Promise<Project | undefined> {
@@ -195,6 +182,23 @@ export class ProjectsRepository {
     return projects.filter(p => p !== undefined);
   }
 
+  /**
+   * IDs of projects a user participates in: manager, project role (user_roles) or stage assignee
+   */
+  async getProjectIdsForUser(userId: string): Promise<Set<string>> {
+    const [managed, roles, stages] = await Promise.all([
+      db.select({ id: projects.id }).from(projects).where(eq(projects.manager_id, userId)),
+      db.select({ id: user_roles.project_id }).from(user_roles).where(eq(user_roles.user_id, userId)),
+      db.select({ id: project_stages.project_id }).from(project_stages).where(eq(project_stages.assignee_id, userId)),
+    ]);
+
+    const ids = new Set<string>();
+    for (const row of [...managed, ...roles, ...stages]) {
+      if (row.id) ids.add(row.id);
+    }
+    return ids;
+  }
+
   async createProjectStage(data: InsertProjectStage): Promise<ProjectStage> {
     const result = await db.insert(project_stages).values(data).returning();
     await this.updateProjectProgress(data.project_id);
@@ -409,6 +413,7 @@ export class ProjectsRepository {
     const projectData: InsertProject = {
       name: `Проект №${deal.order_number || invoice.name}`,
       project_number: projectNumber,
+      client_id: deal.client_id || null,
       client_name: deal.client_name,
       deal_id: dealId,
       invoice_id: invoiceId,
@@ -1432,7 +1437,7 @@ export class ProjectsRepository {
 
   // Reorder item stages atomically
   async reorderItemStages(itemId: string, stageIds: string[]): Promise<void> {
-    await db.transaction(async (tx) => {
+    await withTransaction(async (tx) => {
       for (let i = 0; i < stageIds.length; i++) {
         await tx.update(project_stages)
           .set({ order: i })
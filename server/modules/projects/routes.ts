@@ -14,6 +14,9 @@ import { eq, sql, and, desc } from "drizzle-orm";
 import { activityLogsRepository, tasksRepository } from "../tasks/repository";
 import { stageTypesRepository } from "../stage-types/repository";
 import { localFileStorage } from "../../localFileStorage";
+import { getRequestUserId, getRequestUserRole } from "../../middleware/auth";
+import { permissionsService } from "../permissions/service";
+import { checkStagePermission, checkStagePermissionMiddleware, logAuditAction } from "../../middleware/permissions";
 
 export const router = Router();
 
@@ -37,27 +40,20 @@ async function getProjectTaskStats(projectId: string) {
 // GET /api/projects - Get all projects or filter by status
 router.get("/api/projects", async (req, res) => {
   try {
-    const { status, userId, userRole } = req.query;
+    const { status } = req.query;
+    const userId = getRequestUserId(req);
 
     let projectsList: any[];
-
-    // Если пользователь - замерщик (или роль с view_all=false), показываем только проекты с назначенными этапами
-    if (userId && userRole === 'Замерщик') {
-      const projectsWithAssignedStages = await projectsRepository.getProjectsByAssignee(userId as string);
-
-      // Фильтруем по статусу если указан
-      if (status && typeof status === "string") {
-        projectsList = projectsWithAssignedStages.filter(p => p.status === status);
-      } else {
-        projectsList = projectsWithAssignedStages;
-      }
+    if (status && typeof status === "string") {
+      projectsList = await projectsRepository.getProjectsByStatus(status);
     } else {
-      // Для админов и менеджеров - показываем все проекты
-      if (status && typeof status === "string") {
-        projectsList = await projectsRepository.getProjectsByStatus(status);
-      } else {
-        projectsList = await projectsRepository.getAllProjects();
-      }
+      projectsList = await projectsRepository.getAllProjects();
+    }
+
+    // Без view_all видны только проекты, где пользователь менеджер, участник или исполнитель этапа
+    if (userId && !(await permissionsService.canViewAll(userId, "projects"))) {
+      const visibleIds = await projectsRepository.getProjectIdsForUser(userId);
+      projectsList = projectsList.filter(p => visibleIds.has(p.id));
     }
 
     // Добавляем статистику по задачам для каждого проекта
@@ -181,7 +177,7 @@ router.post("/api/projects/from-invoice", async (req, res) => {
     }
 
     const existingProject = await projectsRepository.getProjectByDealId(dealId);
-    const userId = req.headers["x-user-id"] as string;
+    const userId = getRequestUserId(req);
 
     // If project exists and positionStagesData is provided, update the stages
     if (existingProject && positionStagesData) {
@@ -287,7 +283,7 @@ router.put("/api/projects/:id", async (req, res) => {
       entity_type: "project",
       entity_id: id,
       action_type: "updated",
-      user_id: req.body.user_id || null,
+      user_id: getRequestUserId(req) || null,
       field_changed: null,
       old_value: null,
       new_value: null,
@@ -463,7 +459,7 @@ router.post("/api/projects/:id/stages", async (req, res) => {
       entity_type: "project",
       entity_id: id,
       action_type: "created",
-      user_id: req.body.user_id || null,
+      user_id: getRequestUserId(req) || null,
       field_changed: "stage",
       old_value: null,
       new_value: newStage.name,
@@ -478,7 +474,7 @@ router.post("/api/projects/:id/stages", async (req, res) => {
 });
 
 // PUT /api/projects/stages/:stageId - Update stage
-router.put("/api/projects/stages/:stageId", async (req, res) => {
+router.put("/api/projects/stages/:stageId", checkStagePermissionMiddleware("write"), async (req, res) => {
   try {
     const { stageId } = req.params;
 
@@ -498,6 +494,19 @@ router.put("/api/projects/stages/:stageId", async (req, res) => {
       .limit(1);
     const oldStage = oldStageResult[0];
 
+    // Смена статуса — запуск или завершение этапа, для них свои права
+    const { status } = validationResult.data;
+    if (status && oldStage && status !== oldStage.status) {
+      const userId = getRequestUserId(req)!;
+      const action = status === "completed" ? "complete" : "start";
+      const { hasPermission, reason } = await checkStagePermission(userId, stageId, action);
+      if (!hasPermission) {
+        await logAuditAction(userId, action, 'stage', stageId, false, reason, req);
+        res.status(403).json({ error: "Доступ запрещен", message: reason || "У вас нет прав для этого действия" });
+        return;
+      }
+    }
+
     const updatedStage = await projectsRepository.updateProjectStage(stageId, validationResult.data);
 
     if (!updatedStage) {
@@ -511,7 +520,7 @@ router.put("/api/projects/stages/:stageId", async (req, res) => {
         entity_type: "project",
         entity_id: updatedStage.project_id,
         action_type: "deadline_changed",
-        user_id: req.body.user_id || null,
+        user_id: getRequestUserId(req) || null,
         field_changed: "deadline",
         old_value: null,
         new_value: validationResult.data.deadline.toString(),
@@ -537,7 +546,7 @@ router.put("/api/projects/stages/:stageId", async (req, res) => {
             entity_type: "project",
             entity_id: updatedStage.project_id,
             action_type: "measurement_date_changed",
-            user_id: req.body.user_id || null,
+            user_id: getRequestUserId(req) || null,
             field_changed: "measurement_date",
             old_value: oldMeasurementDate || null,
             new_value: newMeasurementDate,
@@ -555,7 +564,7 @@ router.put("/api/projects/stages/:stageId", async (req, res) => {
         entity_type: "project",
         entity_id: updatedStage.project_id,
         action_type: "stage_updated",
-        user_id: req.body.user_id || null,
+        user_id: getRequestUserId(req) || null,
         field_changed: null,
         old_value: null,
         new_value: null,
@@ -571,12 +580,10 @@ router.put("/api/projects/stages/:stageId", async (req, res) => {
 });
 
 // DELETE /api/projects/stages/:stageId - Delete stage
-router.delete("/api/projects/stages/:stageId", async (req, res) => {
+router.delete("/api/projects/stages/:stageId", checkStagePermissionMiddleware("delete"), async (req, res) => {
   try {
     const { stageId } = req.params;
-    const rawUserRole = req.headers['x-user-role'] as string;
-    // Decode URI-encoded role name (handles Cyrillic characters)
-    const userRole = rawUserRole ? decodeURIComponent(rawUserRole) : '';
+    const userRole = getRequestUserRole(req);
 
     // Get stage info before deleting
     const stage = await db.select().from(project_stages).where(eq(project_stages.id, stageId)).limit(1);
@@ -601,7 +608,7 @@ router.delete("/api/projects/stages/:stageId", async (req, res) => {
         entity_type: "project",
         entity_id: stageInfo.project_id,
         action_type: "deleted",
-        user_id: req.body.user_id || null,
+        user_id: getRequestUserId(req) || null,
         field_changed: "stage",
         old_value: stageInfo.name,
         new_value: null,
@@ -632,7 +639,7 @@ router.post("/api/projects/:id/start", async (req, res) => {
       entity_type: "project",
       entity_id: id,
       action_type: "started",
-      user_id: req.body.user_id || null,
+      user_id: getRequestUserId(req) || null,
       field_changed: "status",
       old_value: "pending",
       new_value: "in_progress",
@@ -662,7 +669,7 @@ router.post("/api/projects/:id/pause", async (req, res) => {
       entity_type: "project",
       entity_id: id,
       action_type: "paused",
-      user_id: req.body.user_id || null,
+      user_id: getRequestUserId(req) || null,
       field_changed: "status",
       old_value: "in_progress",
       new_value: "on_hold",
@@ -692,7 +699,7 @@ router.post("/api/projects/:id/complete", async (req, res) => {
       entity_type: "project",
       entity_id: id,
       action_type: "completed",
-      user_id: req.body.user_id || null,
+      user_id: getRequestUserId(req) || null,
       field_changed: "status",
       old_value: "in_progress",
       new_value: "completed",
@@ -707,7 +714,7 @@ router.post("/api/projects/:id/complete", async (req, res) => {
 });
 
 // POST /api/projects/stages/:stageId/start - Start stage execution
-router.post("/api/projects/stages/:stageId/start", async (req, res) => {
+router.post("/api/projects/stages/:stageId/start", checkStagePermissionMiddleware("start"), async (req, res) => {
   try {
     const { stageId } = req.params;
     const updatedStage = await projectsRepository.startStage(stageId);
@@ -722,7 +729,7 @@ router.post("/api/projects/stages/:stageId/start", async (req, res) => {
       entity_type: "project",
       entity_id: updatedStage.project_id,
       action_type: "stage_started",
-      user_id: req.body.user_id || null,
+      user_id: getRequestUserId(req) || null,
       field_changed: "stage_status",
       old_value: "pending",
       new_value: "in_progress",
@@ -737,7 +744,7 @@ router.post("/api/projects/stages/:stageId/start", async (req, res) => {
 });
 
 // POST /api/projects/stages/:stageId/complete - Complete stage execution
-router.post("/api/projects/stages/:stageId/complete", async (req, res) => {
+router.post("/api/projects/stages/:stageId/complete", checkStagePermissionMiddleware("complete"), async (req, res) => {
   try {
     const { stageId } = req.params;
     const updatedStage = await projectsRepository.completeStage(stageId);
@@ -752,7 +759,7 @@ router.post("/api/projects/stages/:stageId/complete", async (req, res) => {
       entity_type: "project",
       entity_id: updatedStage.project_id,
       action_type: "stage_completed",
-      user_id: req.body.user_id || null,
+      user_id: getRequestUserId(req) || null,
       field_changed: "stage_status",
       old_value: "in_progress",
       new_value: "completed",
@@ -858,7 +865,7 @@ router.post("/api/projects/:projectId/items", async (req, res) => {
       entity_type: "project",
       entity_id: projectId,
       action_type: "created",
-      user_id: req.body.user_id || null,
+      user_id: getRequestUserId(req) || null,
       field_changed: "item",
       old_value: null,
       new_value: newItem.name,
@@ -915,7 +922,7 @@ router.put("/api/projects/:projectId/items/:itemId", async (req, res) => {
       entity_type: "project",
       entity_id: projectId,
       action_type: "updated",
-      user_id: req.body.user_id || null,
+      user_id: getRequestUserId(req) || null,
       field_changed: "item",
       old_value: null,
       new_value: updatedItem.name,
@@ -951,7 +958,7 @@ router.delete("/api/projects/:projectId/items/:itemId", async (req, res) => {
         entity_type: "project",
         entity_id: projectId,
         action_type: "deleted",
-        user_id: req.body.user_id || null,
+        user_id: getRequestUserId(req) || null,
         field_changed: "item",
         old_value: itemInfo.name,
         new_value: null,
@@ -1264,7 +1271,7 @@ router.post("/api/process-templates/:templateId/apply", async (req, res) => {
         entity_type: "project",
         entity_id: itemData[0].project_id,
         action_type: "created",
-        user_id: req.body.user_id || null,
+        user_id: getRequestUserId(req) || null,
         field_changed: "business_process",
         old_value: null,
         new_value: template.name,
@@ -1421,13 +1428,13 @@ router.get("/api/stages/:stageId/messages", async (req, res) => {
 });
 
 // POST /api/stages/:stageId/messages - Create stage message
-router.post("/api/stages/:stageId/messages", async (req, res) => {
+router.post("/api/stages/:stageId/messages", checkStagePermissionMiddleware("write"), async (req, res) => {
   try {
     const { stageId } = req.params;
 
     const validationResult = insertStageMessageSchema.safeParse({
       stage_id: stageId,
-      user_id: req.body.user_id,
+      user_id: getRequestUserId(req),
       message: req.body.message
     });
 
@@ -1466,7 +1473,7 @@ router.post("/api/projects/:projectId/messages", async (req, res) => {
 
     const validationResult = insertProjectMessageSchema.safeParse({
       project_id: projectId,
-      user_id: req.body.user_id,
+      user_id: getRequestUserId(req),
       message: req.body.message
     });
 
@@ -1512,7 +1519,7 @@ router.get("/api/projects/:projectId/documents", async (req, res) => {
 router.get("/api/projects/:projectId/documents/grouped", async (req, res) => {
   try {
     const { projectId } = req.params;
-    const userId = req.headers["x-user-id"] as string || undefined;
+    const userId = getRequestUserId(req);
     const documentsGrouped = await projectsRepository.getProjectDocumentsGrouped(projectId, userId);
     res.json(documentsGrouped);
   } catch (error) {
@@ -1525,7 +1532,7 @@ router.get("/api/projects/:projectId/documents/grouped", async (req, res) => {
 router.post("/api/projects/:projectId/documents/upload", async (req, res) => {
   try {
     const { projectId } = req.params;
-    const userId = req.headers["x-user-id"] as string;
+    const userId = getRequestUserId(req);
 
     if (!userId) {
       res.status(401).json({ error: "User authentication required" });
@@ -1591,10 +1598,10 @@ router.post("/api/projects/:projectId/documents/upload", async (req, res) => {
 });
 
 // POST /api/stages/:stageId/documents - Upload document to stage
-router.post("/api/stages/:stageId/documents", async (req, res) => {
+router.post("/api/stages/:stageId/documents", checkStagePermissionMiddleware("write"), async (req, res) => {
   try {
     const { stageId } = req.params;
-    const userId = req.headers["x-user-id"] as string;
+    const userId = getRequestUserId(req);
 
     if (!userId) {
       res.status(401).json({ error: "User authentication required" });
@@ -1671,10 +1678,10 @@ router.get("/api/projects/:projectId/final-deadline", async (req, res) => {
 });
 
 // PUT /api/stages/:stageId/deadline - Update stage deadline with auto-shift
-router.put("/api/stages/:stageId/deadline", async (req, res) => {
+router.put("/api/stages/:stageId/deadline", checkStagePermissionMiddleware("write"), async (req, res) => {
   try {
     const { stageId } = req.params;
-    const userId = req.headers["x-user-id"] as string;
+    const userId = getRequestUserId(req);
 
     if (!userId) {
       res.status(401).json({ error: "User authentication required" });
@@ -1775,7 +1782,7 @@ router.get("/api/projects/:projectId/events", async (req, res) => {
 router.put("/api/project-items/:itemId/ready-for-montage", async (req, res) => {
   try {
     const { itemId } = req.params;
-    const userId = req.headers["x-user-id"] as string;
+    const userId = getRequestUserId(req);
 
     // Get current item
     const item = await db.select().from(project_items).where(eq(project_items.id, itemId)).limit(1);
@@ -1851,7 +1858,7 @@ router.put("/api/project-items/:itemId/status", async (req, res) => {
   try {
     const { itemId } = req.params;
     const { status } = req.body;
-    const userId = req.headers["x-user-id"] as string;
+    const userId = getRequestUserId(req);
 
     if (!status) {
       res.status(400).json({ error: "Status is required" });
@@ -0,0 +1,32 @@
+import { db } from "../../db";
+import { eq, and, gt, lte, sql } from "drizzle-orm";
+import { rate_limit_counters } from "@shared/schema";
+import type { RateLimitCounter } from "@shared/schema";
+
+export class RateLimitRepository {
+  /**
+   * Counts a hit in the current window, or starts a new window ending at resetAt when the previous one expired
+   */
+  async increment(key: string, resetAt: Date): Promise<RateLimitCounter> {
+    const [counter] = await db.update(rate_limit_counters)
+      .set({ count: sql`${rate_limit_counters.count} + 1` })
+      .where(and(eq(rate_limit_counters.key, key), gt(rate_limit_counters.reset_at, new Date())))
+      .returning();
+    if (counter) return counter;
+
+    const [started] = await db.insert(rate_limit_counters)
+      .values({ key, count: 1, reset_at: resetAt })
+      .onConflictDoUpdate({ target: rate_limit_counters.key, set: { count: 1, reset_at: resetAt } })
+      .returning();
+    return started;
+  }
+
+  async deleteExpired(): Promise<number> {
+    const result = await db.delete(rate_limit_counters)
+      .where(lte(rate_limit_counters.reset_at, new Date()))
+      .returning();
+    return result.length;
+  }
+}
+
+export const rateLimitRepository = new RateLimitRepository();
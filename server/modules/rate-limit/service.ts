@@ -0,0 +1,90 @@
+import { settingsRepository } from "../settings/repository";
+import { createRateLimitStore } from "./store";
+import type { RateLimitStore } from "./store";
+
+export type RateLimitGroup = "login" | "ai" | "calls" | "leads";
+
+interface RateLimitRule {
+  windowMs: number;
+  // Requests per window from one IP / by one user, 0 disables the check
+  perIp: number;
+  perUser: number;
+  // company_settings column with the daily per-user quota of a paid operation
+  dailyQuota?: "ai_daily_quota" | "calls_daily_quota";
+}
+
+const MINUTE_MS = 60 * 1000;
+
+export const RATE_LIMIT_RULES: Record<RateLimitGroup, RateLimitRule> = {
+  // Подбор паролей и кодов 2FA; пользователем для входа считается введённый логин
+  login: { windowMs: 15 * MINUTE_MS, perIp: 30, perUser: 10 },
+  // Запросы к LLM тратят кредиты
+  ai: { windowMs: MINUTE_MS, perIp: 60, perUser: 10, dailyQuota: "ai_daily_quota" },
+  // Каждый запрос — реальный звонок
+  calls: { windowMs: MINUTE_MS, perIp: 20, perUser: 5, dailyQuota: "calls_daily_quota" },
+  // Публичный приём заявок: спам с одного адреса не должен завалить воронку
+  leads: { windowMs: MINUTE_MS, perIp: 30, perUser: 0 },
+};
+
+export interface RateLimitSubject {
+  ip: string | null;
+  user?: string;
+}
+
+export type RateLimitResult =
+  | { allowed: true }
+  | { allowed: false; reason: "rate" | "quota"; limit: number; retryAfterSeconds: number };
+
+function endOfDay(): Date {
+  const end = new Date();
+  end.setHours(24, 0, 0, 0);
+  return end;
+}
+
+export class RateLimitService {
+  constructor(private store: RateLimitStore = createRateLimitStore()) {}
+
+  /**
+   * Counts the request against the IP and user budgets of the group, then against the daily quota.
+   * A request rejected by a window does not use up the quota.
+   */
+  async check(group: RateLimitGroup, subject: RateLimitSubject): Promise<RateLimitResult> {
+    const rule = RATE_LIMIT_RULES[group];
+    const windowEnd = new Date(Date.now() + rule.windowMs);
+
+    const budgets: Array<{ key: string; limit: number }> = [];
+    if (subject.ip && rule.perIp > 0) {
+      budgets.push({ key: `${group}:ip:${subject.ip}`, limit: rule.perIp });
+    }
+    if (subject.user && rule.perUser > 0) {
+      budgets.push({ key: `${group}:user:${subject.user}`, limit: rule.perUser });
+    }
+
+    for (const { key, limit } of budgets) {
+      const hit = await this.store.hit(key, windowEnd);
+      if (hit.count > limit) {
+        return { allowed: false, reason: "rate", limit, retryAfterSeconds: this.secondsUntil(hit.resetAt) };
+      }
+    }
+
+    if (rule.dailyQuota && subject.user) {
+      const settings = await settingsRepository.getCompanySettings();
+      const quota = settings?.[rule.dailyQuota] || 0;
+
+      if (quota > 0) {
+        const hit = await this.store.hit(`${group}:quota:${subject.user}`, endOfDay());
+        if (hit.count > quota) {
+          return { allowed: false, reason: "quota", limit: quota, retryAfterSeconds: this.secondsUntil(hit.resetAt) };
+        }
+      }
+    }
+
+    return { allowed: true };
+  }
+
+  private secondsUntil(date: Date): number {
+    return Math.max(1, Math.ceil((date.getTime() - Date.now()) / 1000));
+  }
+}
+
+export const rateLimitService = new RateLimitService();
@@ -0,0 +1,76 @@
+import { rateLimitRepository } from "./repository";
+
+export interface RateLimitHit {
+  count: number;
+  resetAt: Date;
+}
+
+/**
+ * Counter storage of the rate limiter. hit() counts a request in the window of the key;
+ * a new window ending at resetAt starts when there is none or it has expired.
+ */
+export interface RateLimitStore {
+  hit(key: string, resetAt: Date): Promise<RateLimitHit>;
+}
+
+// Expired counters are removed in batches so that memory and the table don't grow with every IP seen
+const PRUNE_INTERVAL_MS = 10 * 60 * 1000;
+
+/**
+ * Default store: fast, but counters are per process and reset on restart
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private counters = new Map<string, RateLimitHit>();
+  private lastPrunedAt = Date.now();
+
+  async hit(key: string, resetAt: Date): Promise<RateLimitHit> {
+    const now = Date.now();
+    this.prune(now);
+
+    let counter = this.counters.get(key);
+    if (counter && counter.resetAt.getTime() > now) {
+      counter.count++;
+    } else {
+      counter = { count: 1, resetAt };
+      this.counters.set(key, counter);
+    }
+    return { ...counter };
+  }
+
+  private prune(now: number): void {
+    if (now - this.lastPrunedAt < PRUNE_INTERVAL_MS) return;
+    this.lastPrunedAt = now;
+
+    for (const [key, counter] of Array.from(this.counters.entries())) {
+      if (counter.resetAt.getTime() <= now) {
+        this.counters.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Counters in rate_limit_counters: shared between processes and kept across restarts (daily quotas)
+ */
+export class DbRateLimitStore implements RateLimitStore {
+  private lastPrunedAt = Date.now();
+
+  async hit(key: string, resetAt: Date): Promise<RateLimitHit> {
+    const counter = await rateLimitRepository.increment(key, resetAt);
+
+    const now = Date.now();
+    if (now - this.lastPrunedAt >= PRUNE_INTERVAL_MS) {
+      this.lastPrunedAt = now;
+      await rateLimitRepository.deleteExpired();
+    }
+
+    return { count: counter.count, resetAt: new Date(counter.reset_at) };
+  }
+}
+
+/**
+ * RATE_LIMIT_STORE=db switches to the database store, anything else keeps counters in memory
+ */
+export function createRateLimitStore(type: string | undefined = process.env.RATE_LIMIT_STORE): RateLimitStore {
+  return type === "db" ? new DbRateLimitStore() : new MemoryRateLimitStore();
+}
@@ -38,6 +38,9 @@ export class RolesRepository {
     if (data.is_system !== undefined) {
       updateData.is_system = data.is_system;
     }
+    if (data.require_2fa !== undefined) {
+      updateData.require_2fa = data.require_2fa;
+    }
 
     // Use Drizzle ORM update for cross-database compatibility
     await db.update(roles)
@@ -0,0 +1,129 @@
+import { db } from "../../db";
+import { asc, eq, isNotNull } from "drizzle-orm";
+import { deals, deal_documents, deal_stage_history, users } from "@shared/schema";
+import type { DealStageHistory } from "@shared/schema";
+
+// Поля сделки, нужные для воронки и когорт
+export interface AnalyticsDeal {
+  id: string;
+  pipeline_id: string | null;
+  manager_id: string | null;
+  manager_name: string | null;
+  stage: string;
+  outcome: string | null;
+  created_at: Date;
+}
+
+// Сделка для прогноза: сумма, вероятность и месяц закрытия
+export interface ForecastDeal {
+  id: string;
+  pipeline_id: string | null;
+  manager_id: string | null;
+  manager_name: string | null;
+  stage: string;
+  outcome: string | null;
+  amount: number | null;
+  win_probability: number | null;
+  expected_close_date: Date | null;
+  deadline: Date | null;
+}
+
+// Закрытая сделка для аналитики проигрышей
+export interface ClosedDeal {
+  id: string;
+  pipeline_id: string | null;
+  manager_id: string | null;
+  manager_name: string | null;
+  source: string | null;
+  outcome: string;
+  closed_at: Date | null;
+  amount: number | null;
+  loss_reason_id: string | null;
+  competitor: string | null;
+}
+
+export interface InvoiceRow {
+  id: string;
+  deal_id: string;
+  parent_id: string | null;
+  version: number | null;
+  total_amount: number | null;
+  created_at: Date;
+}
+
+export class SalesAnalyticsRepository {
+  async getDeals(): Promise<AnalyticsDeal[]> {
+    return await db
+      .select({
+        id: deals.id,
+        pipeline_id: deals.pipeline_id,
+        manager_id: deals.manager_id,
+        manager_name: users.full_name,
+        stage: deals.stage,
+        outcome: deals.outcome,
+        created_at: deals.created_at,
+      })
+      .from(deals)
+      .leftJoin(users, eq(deals.manager_id, users.id));
+  }
+
+  async getForecastDeals(): Promise<ForecastDeal[]> {
+    return await db
+      .select({
+        id: deals.id,
+        pipeline_id: deals.pipeline_id,
+        manager_id: deals.manager_id,
+        manager_name: users.full_name,
+        stage: deals.stage,
+        outcome: deals.outcome,
+        amount: deals.amount,
+        win_probability: deals.win_probability,
+        expected_close_date: deals.expected_close_date,
+        deadline: deals.deadline,
+      })
+      .from(deals)
+      .leftJoin(users, eq(deals.manager_id, users.id));
+  }
+
+  async getClosedDeals(): Promise<ClosedDeal[]> {
+    return await db
+      .select({
+        id: deals.id,
+        pipeline_id: deals.pipeline_id,
+        manager_id: deals.manager_id,
+        manager_name: users.full_name,
+        source: deals.source,
+        outcome: deals.outcome,
+        closed_at: deals.closed_at,
+        amount: deals.amount,
+        loss_reason_id: deals.loss_reason_id,
+        competitor: deals.competitor,
+      })
+      .from(deals)
+      .leftJoin(users, eq(deals.manager_id, users.id))
+      .where(isNotNull(deals.outcome));
+  }
+
+  async getInvoices(): Promise<InvoiceRow[]> {
+    return await db
+      .select({
+        id: deal_documents.id,
+        deal_id: deal_documents.deal_id,
+        parent_id: deal_documents.parent_id,
+        version: deal_documents.version,
+        total_amount: deal_documents.total_amount,
+        created_at: deal_documents.created_at,
+      })
+      .from(deal_documents)
+      .where(eq(deal_documents.document_type, "invoice"));
+  }
+
+  async getStageHistory(): Promise<DealStageHistory[]> {
+    return await db
+      .select()
+      .from(deal_stage_history)
+      .orderBy(asc(deal_stage_history.created_at));
+  }
+}
+
+export const salesAnalyticsRepository = new SalesAnalyticsRepository();
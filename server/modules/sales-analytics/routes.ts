@@ -0,0 +1,72 @@
+import { Router, type Request } from "express";
+import { salesAnalyticsService, type AnalyticsFilters } from "./service";
+import { permissionsService } from "../permissions/service";
+import { getRequestUserId } from "../../middleware/auth";
+
+export const router = Router();
+
+/**
+ * Фильтры отчёта. Без view_all по продажам пользователь видит только свои сделки,
+ * при hide_prices по продажам — отчёты без сумм
+ */
+async function parseFilters(req: Request): Promise<AnalyticsFilters> {
+  const { pipeline_id, manager_id, from, to } = req.query;
+  const str = (value: unknown) => (typeof value === "string" && value ? value : undefined);
+  const date = (value: unknown) => {
+    const parsed = str(value) ? new Date(value as string) : undefined;
+    return parsed && !isNaN(parsed.getTime()) ? parsed : undefined;
+  };
+
+  const userId = getRequestUserId(req);
+  const managerId = userId && !(await permissionsService.canViewAll(userId, "sales"))
+    ? userId
+    : str(manager_id);
+
+  return {
+    pipelineId: str(pipeline_id),
+    managerId,
+    from: date(from),
+    to: date(to),
+    hidePrices: userId ? await permissionsService.shouldHidePrices(userId, "sales") : false,
+  };
+}
+
+// GET /api/sales-analytics/funnel - конверсия между этапами, медиана времени в этапе, разбивка по менеджерам
+router.get("/api/sales-analytics/funnel", async (req, res) => {
+  try {
+    res.json(await salesAnalyticsService.getFunnel(await parseFilters(req)));
+  } catch (error) {
+    console.error("Error building sales funnel:", error);
+    res.status(500).json({ error: "Failed to build funnel report" });
+  }
+});
+
+// GET /api/sales-analytics/forecast - взвешенный прогноз по месяцам закрытия, менеджерам и воронкам против выставленных счетов
+router.get("/api/sales-analytics/forecast", async (req, res) => {
+  try {
+    res.json(await salesAnalyticsService.getForecast(await parseFilters(req)));
+  } catch (error) {
+    console.error("Error building sales forecast:", error);
+    res.status(500).json({ error: "Failed to build forecast" });
+  }
+});
+
+// GET /api/sales-analytics/losses - причины проигрыша по менеджерам, источникам лида и конкурентам (from/to — дата закрытия)
+router.get("/api/sales-analytics/losses", async (req, res) => {
+  try {
+    res.json(await salesAnalyticsService.getLosses(await parseFilters(req)));
+  } catch (error) {
+    console.error("Error building loss report:", error);
+    res.status(500).json({ error: "Failed to build loss report" });
+  }
+});
+
+// GET /api/sales-analytics/cohorts - сколько сделок каждого месяца создания дошли до каждого этапа
+router.get("/api/sales-analytics/cohorts", async (req, res) => {
+  try {
+    res.json(await salesAnalyticsService.getCohorts(await parseFilters(req)));
+  } catch (error) {
+    console.error("Error building sales cohorts:", error);
+    res.status(500).json({ error: "Failed to build cohort report" });
+  }
+});
@@ -0,0 +1,561 @@
+import type { DealStage, DealStageHistory } from "@shared/schema";
+import { salesAnalyticsRepository } from "./repository";
+import type { AnalyticsDeal, ClosedDeal, ForecastDeal, InvoiceRow } from "./repository";
+import { salesPipelinesRepository } from "../sales-pipelines/repository";
+import { lossReasonsRepository } from "../loss-reasons/repository";
+import { salesRepository } from "../sales/repository";
+
+// Этапы, куда сделка выпадает из воронки: они не считаются продвижением дальше
+export const DROPOUT_STAGE_KEYS = ["lost"];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface AnalyticsFilters {
+  pipelineId?: string;
+  managerId?: string;
+  from?: Date;
+  to?: Date;
+  // hide_prices по продажам: денежные поля отчётов возвращаются как null
+  hidePrices?: boolean;
+}
+
+export interface FunnelStageRow {
+  key: string;
+  name: string;
+  color: string | null;
+  order: number;
+  is_dropout: boolean;
+  // Сделки, дошедшие до этапа (вошли в него или в любой следующий)
+  reached: number;
+  // Доля дошедших до следующего этапа воронки; null у последнего этапа и этапов выпадения
+  conversion: number | null;
+  // Сейчас в этапе
+  current: number;
+  // Ушли из этапа сразу в этап выпадения
+  dropped: number;
+  median_hours: number | null;
+  time_samples: number;
+}
+
+export interface ManagerFunnel {
+  manager_id: string | null;
+  manager_name: string | null;
+  deals: number;
+  stages: Array<Pick<FunnelStageRow, "key" | "reached" | "conversion">>;
+  // Дошли до последнего этапа воронки от всех сделок менеджера
+  overall_conversion: number | null;
+}
+
+export interface FunnelReport {
+  pipeline_id: string | null;
+  deals: number;
+  stages: FunnelStageRow[];
+  managers: ManagerFunnel[];
+}
+
+export interface CohortRow {
+  month: string; // YYYY-MM по дате создания сделки
+  deals: number;
+  reached: Record<string, number>;
+}
+
+export interface CohortReport {
+  pipeline_id: string | null;
+  stages: Array<Pick<DealStage, "key" | "name" | "color" | "order">>;
+  cohorts: CohortRow[];
+}
+
+// Суммы прогноза в одной группе (месяц, менеджер, воронка); null — цены скрыты
+export interface ForecastAmounts {
+  deals: number;
+  // Сумма открытых сделок с ненулевой вероятностью
+  total: number | null;
+  // Сумма с учётом вероятности выигрыша
+  weighted: number | null;
+  // Фактически выставленные счета
+  invoiced: number | null;
+}
+
+// Накопленные суммы группы до округления
+type ForecastSums = { [K in keyof ForecastAmounts]: number };
+
+export interface ForecastReport {
+  from: string;
+  to: string;
+  months: Array<ForecastAmounts & { month: string }>;
+  managers: Array<ForecastAmounts & { manager_id: string | null; manager_name: string | null }>;
+  pipelines: Array<ForecastAmounts & { pipeline_id: string | null; pipeline_name: string | null }>;
+  totals: ForecastAmounts;
+  // Сделки с вероятностью, но без ожидаемой даты закрытия и срока — в месяцы не попадают
+  undated: { deals: number; weighted: number | null };
+}
+
+// Закрытые сделки в одной группе (менеджер, источник)
+export interface OutcomeCounts {
+  won: number;
+  lost: number;
+  // Доля выигранных среди закрытых
+  win_rate: number | null;
+  // null — цены скрыты
+  lost_amount: number | null;
+  // Число проигрышей по id причины
+  reasons: Record<string, number>;
+}
+
+// Счётчики группы до округления суммы
+type OutcomeSums = Omit<OutcomeCounts, "lost_amount"> & { lost_amount: number };
+
+export interface LossReport {
+  totals: OutcomeCounts;
+  reasons: Array<{ reason_id: string | null; name: string; deals: number; amount: number | null; share: number | null }>;
+  managers: Array<OutcomeCounts & { manager_id: string | null; manager_name: string | null }>;
+  sources: Array<OutcomeCounts & { source: string | null }>;
+  competitors: Array<{ competitor: string; deals: number; amount: number | null }>;
+}
+
+// Путь одной сделки по воронке
+interface DealPath {
+  deal: AnalyticsDeal;
+  entered: Set<string>;
+  // Самый дальний этап воронки (без этапов выпадения), до которого дошла сделка
+  reachedOrder: number;
+  droppedFrom: Set<string>;
+  durations: Map<string, number[]>;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function ratio(part: number, total: number): number | null {
+  return total > 0 ? Math.round((part / total) * 1000) / 1000 : null;
+}
+
+/**
+ * Строит путь сделки по истории. Сделки без истории (созданные до её появления) считаются
+ * находящимися в текущем этапе с момента создания, но в расчёт времени в этапе не попадают.
+ */
+function buildPath(deal: AnalyticsDeal, history: DealStageHistory[], stageOrder: Map<string, number>): DealPath {
+  const rows = history.length > 0
+    ? history
+    : [{ from_stage: null, to_stage: deal.stage, source: "backfill", created_at: deal.created_at } as DealStageHistory];
+
+  const entered = new Set<string>();
+  const droppedFrom = new Set<string>();
+  const durations = new Map<string, number[]>();
+
+  if (rows[0].from_stage) entered.add(rows[0].from_stage);
+
+  rows.forEach((row, index) => {
+    entered.add(row.to_stage);
+    if (row.from_stage && DROPOUT_STAGE_KEYS.includes(row.to_stage)) droppedFrom.add(row.from_stage);
+
+    const next = rows[index + 1];
+    if (next && row.source !== "backfill") {
+      const hours = (new Date(next.created_at).getTime() - new Date(row.created_at).getTime()) / HOUR_MS;
+      const list = durations.get(row.to_stage);
+      if (list) list.push(hours);
+      else durations.set(row.to_stage, [hours]);
+    }
+  });
+
+  let reachedOrder = -Infinity;
+  for (const key of Array.from(entered)) {
+    const order = stageOrder.get(key);
+    if (order !== undefined && !DROPOUT_STAGE_KEYS.includes(key)) reachedOrder = Math.max(reachedOrder, order);
+  }
+
+  // Проигранная сделка в воронке без этапа «Проиграна» выпала из того этапа, где её закрыли
+  if (deal.outcome === "lost" && droppedFrom.size === 0 && !DROPOUT_STAGE_KEYS.includes(deal.stage)) {
+    droppedFrom.add(deal.stage);
+  }
+
+  return { deal, entered, reachedOrder, droppedFrom, durations };
+}
+
+function hasReached(path: DealPath, stage: DealStage): boolean {
+  return DROPOUT_STAGE_KEYS.includes(stage.key)
+    ? path.entered.has(stage.key)
+    : path.reachedOrder >= stage.order;
+}
+
+// Следующий этап воронки для расчёта конверсии (этапы выпадения пропускаются)
+function nextFunnelStage(stages: DealStage[], stage: DealStage): DealStage | undefined {
+  if (DROPOUT_STAGE_KEYS.includes(stage.key)) return undefined;
+  return stages.find((s) => s.order > stage.order && !DROPOUT_STAGE_KEYS.includes(s.key));
+}
+
+function stageConversions(paths: DealPath[], stages: DealStage[]): Array<Pick<FunnelStageRow, "key" | "reached" | "conversion">> {
+  return stages.map((stage) => {
+    const reached = paths.filter((path) => hasReached(path, stage)).length;
+    const next = nextFunnelStage(stages, stage);
+    const reachedNext = next ? paths.filter((path) => hasReached(path, next)).length : 0;
+    return { key: stage.key, reached, conversion: next ? ratio(reachedNext, reached) : null };
+  });
+}
+
+function emptyAmounts(): ForecastSums {
+  return { deals: 0, total: 0, weighted: 0, invoiced: 0 };
+}
+
+// Округлённая сумма или null, если цены скрыты
+function money(value: number, hidePrices?: boolean): number | null {
+  return hidePrices ? null : Math.round(value);
+}
+
+function roundAmounts<T extends ForecastSums>(amounts: T, hidePrices?: boolean): Omit<T, keyof ForecastSums> & ForecastAmounts {
+  return {
+    ...amounts,
+    total: money(amounts.total, hidePrices),
+    weighted: money(amounts.weighted, hidePrices),
+    invoiced: money(amounts.invoiced, hidePrices),
+  };
+}
+
+const byWeighted = (a: ForecastSums, b: ForecastSums) => b.weighted - a.weighted;
+
+// YYYY-MM в часовом поясе сервера
+function monthKey(date: Date | string): string {
+  const d = new Date(date);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}`;
+}
+
+/**
+ * Счёт может иметь версии (parent_id — первый счёт): сумма берётся из последней версии,
+ * месяц — по дате первого выставления
+ */
+function latestInvoices(rows: InvoiceRow[]): Array<{ deal_id: string; amount: number; created_at: Date }> {
+  const chains = new Map<string, InvoiceRow[]>();
+  for (const row of rows) {
+    const root = row.parent_id || row.id;
+    const chain = chains.get(root);
+    if (chain) chain.push(row);
+    else chains.set(root, [row]);
+  }
+
+  return Array.from(chains.values()).map((chain) => {
+    const latest = chain.reduce((a, b) => ((b.version ?? 1) > (a.version ?? 1) ? b : a));
+    const first = chain.reduce((a, b) => (new Date(b.created_at) < new Date(a.created_at) ? b : a));
+    return { deal_id: latest.deal_id, amount: latest.total_amount || 0, created_at: first.created_at };
+  });
+}
+
+function emptyOutcomes(): OutcomeSums {
+  return { won: 0, lost: 0, win_rate: null, lost_amount: 0, reasons: {} };
+}
+
+function addOutcome(counts: OutcomeSums, deal: ClosedDeal): void {
+  if (deal.outcome === "won") {
+    counts.won += 1;
+  } else {
+    counts.lost += 1;
+    counts.lost_amount += deal.amount || 0;
+    const reason = deal.loss_reason_id || "";
+    counts.reasons[reason] = (counts.reasons[reason] || 0) + 1;
+  }
+  counts.win_rate = ratio(counts.won, counts.won + counts.lost);
+}
+
+function roundOutcomes<T extends OutcomeSums>(counts: T, hidePrices?: boolean): Omit<T, "lost_amount"> & OutcomeCounts {
+  return { ...counts, lost_amount: money(counts.lost_amount, hidePrices) };
+}
+
+// Период прогноза по умолчанию: три месяца назад — полгода вперёд
+function defaultForecastRange(): { from: Date; to: Date } {
+  const now = new Date();
+  return {
+    from: new Date(now.getFullYear(), now.getMonth() - 3, 1),
+    to: new Date(now.getFullYear(), now.getMonth() + 7, 0, 23, 59, 59),
+  };
+}
+
+export class SalesAnalyticsService {
+  /**
+   * Сделки и этапы выбранной воронки (по умолчанию — основной). Сделки без воронки относятся к основной.
+   */
+  private async load(filters: AnalyticsFilters): Promise<{ pipelineId: string | null; stages: DealStage[]; paths: DealPath[] }> {
+    const defaultPipelineId = (await salesPipelinesRepository.findDefault())?.id ?? null;
+    const pipelineId = filters.pipelineId || defaultPipelineId;
+
+    const stages = pipelineId
+      ? await salesPipelinesRepository.findStages(pipelineId)
+      : await salesRepository.getAllDealStages();
+    const stageOrder = new Map(stages.map((stage) => [stage.key, stage.order]));
+
+    const [allDeals, history] = await Promise.all([
+      salesAnalyticsRepository.getDeals(),
+      salesAnalyticsRepository.getStageHistory(),
+    ]);
+
+    const deals = allDeals.filter((deal) =>
+      (!pipelineId || (deal.pipeline_id || defaultPipelineId) === pipelineId) &&
+      (!filters.managerId || deal.manager_id === filters.managerId) &&
+      (!filters.from || deal.created_at >= filters.from) &&
+      (!filters.to || deal.created_at <= filters.to)
+    );
+
+    const historyByDeal = new Map<string, DealStageHistory[]>();
+    for (const row of history) {
+      const list = historyByDeal.get(row.deal_id);
+      if (list) list.push(row);
+      else historyByDeal.set(row.deal_id, [row]);
+    }
+
+    const paths = deals.map((deal) => buildPath(deal, historyByDeal.get(deal.id) || [], stageOrder));
+    return { pipelineId, stages, paths };
+  }
+
+  async getFunnel(filters: AnalyticsFilters): Promise<FunnelReport> {
+    const { pipelineId, stages, paths } = await this.load(filters);
+    const conversions = stageConversions(paths, stages);
+
+    const stageRows: FunnelStageRow[] = stages.map((stage, index) => {
+      const durations = paths.flatMap((path) => path.durations.get(stage.key) || []);
+      const medianHours = median(durations);
+      return {
+        key: stage.key,
+        name: stage.name,
+        color: stage.color,
+        order: stage.order,
+        is_dropout: DROPOUT_STAGE_KEYS.includes(stage.key),
+        reached: conversions[index].reached,
+        conversion: conversions[index].conversion,
+        current: paths.filter((path) => path.deal.stage === stage.key).length,
+        dropped: paths.filter((path) => path.droppedFrom.has(stage.key)).length,
+        median_hours: medianHours === null ? null : Math.round(medianHours * 10) / 10,
+        time_samples: durations.length,
+      };
+    });
+
+    const byManager = new Map<string, DealPath[]>();
+    for (const path of paths) {
+      const key = path.deal.manager_id || "";
+      const list = byManager.get(key);
+      if (list) list.push(path);
+      else byManager.set(key, [path]);
+    }
+
+    const funnelStages = stages.filter((stage) => !DROPOUT_STAGE_KEYS.includes(stage.key));
+    const lastStage = funnelStages[funnelStages.length - 1];
+
+    const managers: ManagerFunnel[] = Array.from(byManager.values())
+      .map((managerPaths) => ({
+        manager_id: managerPaths[0].deal.manager_id,
+        manager_name: managerPaths[0].deal.manager_name,
+        deals: managerPaths.length,
+        stages: stageConversions(managerPaths, stages),
+        overall_conversion: lastStage
+          ? ratio(managerPaths.filter((path) => hasReached(path, lastStage)).length, managerPaths.length)
+          : null,
+      }))
+      .sort((a, b) => b.deals - a.deals);
+
+    return { pipeline_id: pipelineId, deals: paths.length, stages: stageRows, managers };
+  }
+
+  /**
+   * Взвешенный прогноз: сумма сделки × вероятность (своя у сделки или этапа) в месяце ожидаемого
+   * закрытия (если не задан — срок сделки). Рядом — фактически выставленные счета за те же месяцы.
+   * from/to здесь ограничивают месяц закрытия и дату счёта, а не дату создания сделки.
+   */
+  async getForecast(filters: AnalyticsFilters): Promise<ForecastReport> {
+    const range = defaultForecastRange();
+    const from = filters.from ?? range.from;
+    const to = filters.to ?? range.to;
+
+    const [allDeals, invoiceRows, stages, pipelines, defaultPipeline] = await Promise.all([
+      salesAnalyticsRepository.getForecastDeals(),
+      salesAnalyticsRepository.getInvoices(),
+      salesRepository.getAllDealStages(),
+      salesPipelinesRepository.findAll(),
+      salesPipelinesRepository.findDefault(),
+    ]);
+
+    const pipelineOf = (deal: ForecastDeal) => deal.pipeline_id || defaultPipeline?.id || null;
+    const stageProbability = new Map(stages.map((stage) => [`${stage.pipeline_id}:${stage.key}`, stage.win_probability]));
+    const probabilityOf = (deal: ForecastDeal): number => {
+      if (deal.outcome === "lost" || DROPOUT_STAGE_KEYS.includes(deal.stage)) return 0;
+      if (deal.outcome === "won") return 100;
+      return deal.win_probability ?? stageProbability.get(`${pipelineOf(deal)}:${deal.stage}`) ?? 0;
+    };
+
+    const deals = allDeals.filter((deal) =>
+      (!filters.pipelineId || pipelineOf(deal) === filters.pipelineId) &&
+      (!filters.managerId || deal.manager_id === filters.managerId)
+    );
+    const dealsById = new Map(deals.map((deal) => [deal.id, deal]));
+
+    const months = new Map<string, ForecastSums>();
+    for (let cursor = new Date(from.getFullYear(), from.getMonth(), 1); cursor <= to; cursor = new Date(cursor.getFullYear(), cursor.getMonth() + 1, 1)) {
+      months.set(monthKey(cursor), emptyAmounts());
+    }
+    const managers = new Map<string, ForecastSums & { manager_id: string | null; manager_name: string | null }>();
+    const pipelineTotals = new Map<string, ForecastSums & { pipeline_id: string | null; pipeline_name: string | null }>();
+    const pipelineNames = new Map(pipelines.map((pipeline) => [pipeline.id, pipeline.name]));
+    const totals = emptyAmounts();
+    const undated = { deals: 0, weighted: 0 };
+
+    const groupsOf = (deal: ForecastDeal, month: string): ForecastSums[] => {
+      const managerKey = deal.manager_id || "";
+      if (!managers.has(managerKey)) {
+        managers.set(managerKey, { ...emptyAmounts(), manager_id: deal.manager_id, manager_name: deal.manager_name });
+      }
+      const pipelineId = pipelineOf(deal);
+      const pipelineKey = pipelineId || "";
+      if (!pipelineTotals.has(pipelineKey)) {
+        pipelineTotals.set(pipelineKey, { ...emptyAmounts(), pipeline_id: pipelineId, pipeline_name: pipelineId ? pipelineNames.get(pipelineId) ?? null : null });
+      }
+      return [months.get(month)!, managers.get(managerKey)!, pipelineTotals.get(pipelineKey)!, totals];
+    };
+
+    for (const deal of deals) {
+      const probability = probabilityOf(deal);
+      const amount = deal.amount || 0;
+      if (probability <= 0 || amount <= 0) continue;
+
+      const weighted = amount * probability / 100;
+      const closeDate = deal.expected_close_date || deal.deadline;
+      if (!closeDate) {
+        undated.deals += 1;
+        undated.weighted += weighted;
+        continue;
+      }
+      const month = monthKey(closeDate);
+      if (!months.has(month)) continue;
+
+      for (const group of groupsOf(deal, month)) {
+        group.deals += 1;
+        group.total += amount;
+        group.weighted += weighted;
+      }
+    }
+
+    for (const invoice of latestInvoices(invoiceRows)) {
+      const deal = dealsById.get(invoice.deal_id);
+      const month = monthKey(invoice.created_at);
+      if (!deal || !months.has(month)) continue;
+
+      for (const group of groupsOf(deal, month)) {
+        group.invoiced += invoice.amount;
+      }
+    }
+
+    return {
+      from: from.toISOString(),
+      to: to.toISOString(),
+      months: Array.from(months.entries()).map(([month, amounts]) => roundAmounts({ month, ...amounts }, filters.hidePrices)),
+      managers: Array.from(managers.values()).sort(byWeighted).map((row) => roundAmounts(row, filters.hidePrices)),
+      pipelines: Array.from(pipelineTotals.values()).sort(byWeighted).map((row) => roundAmounts(row, filters.hidePrices)),
+      totals: roundAmounts(totals, filters.hidePrices),
+      undated: { deals: undated.deals, weighted: money(undated.weighted, filters.hidePrices) },
+    };
+  }
+
+  /**
+   * Проигрыши по причинам, менеджерам, источникам лида и конкурентам.
+   * from/to ограничивают дату закрытия сделки
+   */
+  async getLosses(filters: AnalyticsFilters): Promise<LossReport> {
+    const [allDeals, reasons, defaultPipeline] = await Promise.all([
+      salesAnalyticsRepository.getClosedDeals(),
+      lossReasonsRepository.getAll(),
+      salesPipelinesRepository.findDefault(),
+    ]);
+
+    const deals = allDeals.filter((deal) =>
+      (!filters.pipelineId || (deal.pipeline_id || defaultPipeline?.id) === filters.pipelineId) &&
+      (!filters.managerId || deal.manager_id === filters.managerId) &&
+      (!filters.from || (!!deal.closed_at && deal.closed_at >= filters.from)) &&
+      (!filters.to || (!!deal.closed_at && deal.closed_at <= filters.to))
+    );
+
+    const totals = emptyOutcomes();
+    const managers = new Map<string, OutcomeSums & { manager_id: string | null; manager_name: string | null }>();
+    const sources = new Map<string, OutcomeSums & { source: string | null }>();
+    const reasonTotals = new Map<string, { deals: number; amount: number }>();
+    const competitors = new Map<string, { competitor: string; deals: number; amount: number }>();
+
+    for (const deal of deals) {
+      const managerKey = deal.manager_id || "";
+      if (!managers.has(managerKey)) {
+        managers.set(managerKey, { ...emptyOutcomes(), manager_id: deal.manager_id, manager_name: deal.manager_name });
+      }
+      const source = deal.source?.trim() || null;
+      const sourceKey = source?.toLowerCase() || "";
+      if (!sources.has(sourceKey)) {
+        sources.set(sourceKey, { ...emptyOutcomes(), source });
+      }
+      for (const counts of [totals, managers.get(managerKey)!, sources.get(sourceKey)!]) {
+        addOutcome(counts, deal);
+      }
+
+      if (deal.outcome !== "lost") continue;
+      const reason = reasonTotals.get(deal.loss_reason_id || "") || { deals: 0, amount: 0 };
+      reason.deals += 1;
+      reason.amount += deal.amount || 0;
+      reasonTotals.set(deal.loss_reason_id || "", reason);
+
+      const competitor = deal.competitor?.trim();
+      if (competitor) {
+        const key = competitor.toLowerCase();
+        const row = competitors.get(key) || { competitor, deals: 0, amount: 0 };
+        row.deals += 1;
+        row.amount += deal.amount || 0;
+        competitors.set(key, row);
+      }
+    }
+
+    const reasonNames = new Map(reasons.map((reason) => [reason.id, reason.name]));
+
+    return {
+      totals: roundOutcomes(totals, filters.hidePrices),
+      reasons: Array.from(reasonTotals.entries())
+        .map(([reasonId, row]) => ({
+          reason_id: reasonId || null,
+          name: reasonNames.get(reasonId) ?? "Без причины",
+          deals: row.deals,
+          amount: money(row.amount, filters.hidePrices),
+          share: ratio(row.deals, totals.lost),
+        }))
+        .sort((a, b) => b.deals - a.deals),
+      managers: Array.from(managers.values()).map((row) => roundOutcomes(row, filters.hidePrices)).sort((a, b) => b.lost - a.lost),
+      sources: Array.from(sources.values()).map((row) => roundOutcomes(row, filters.hidePrices)).sort((a, b) => b.lost - a.lost),
+      competitors: Array.from(competitors.values())
+        .map((row) => ({ ...row, amount: money(row.amount, filters.hidePrices) }))
+        .sort((a, b) => b.deals - a.deals),
+    };
+  }
+
+  async getCohorts(filters: AnalyticsFilters): Promise<CohortReport> {
+    const { pipelineId, stages, paths } = await this.load(filters);
+
+    const byMonth = new Map<string, DealPath[]>();
+    for (const path of paths) {
+      const month = monthKey(path.deal.created_at);
+      const list = byMonth.get(month);
+      if (list) list.push(path);
+      else byMonth.set(month, [path]);
+    }
+
+    const cohorts: CohortRow[] = Array.from(byMonth.entries())
+      .sort(([a], [b]) => b.localeCompare(a))
+      .map(([month, monthPaths]) => ({
+        month,
+        deals: monthPaths.length,
+        reached: Object.fromEntries(
+          stages.map((stage) => [stage.key, monthPaths.filter((path) => hasReached(path, stage)).length])
+        ),
+      }));
+
+    return {
+      pipeline_id: pipelineId,
+      stages: stages.map(({ key, name, color, order }) => ({ key, name, color, order })),
+      cohorts,
+    };
+  }
+}
+
+export const salesAnalyticsService = new SalesAnalyticsService();
@@ -1,4 +1,6 @@
 import type { DealDocument } from "@shared/schema";
+import { parseQuotePricing } from "@shared/quotePricing";
+import type { QuoteTotals } from "@shared/quotePricing";
 
 /**
  * Функция для конвертации числа в строку прописью (рубли)
@@ -76,8 +78,14 @@ function numberToWords(num: number): string {
 
 /**
  * Генератор КП в стиле Google Таблицы (БЕЗ AI-генераций)
+ * hidePrices - суммы заменяются прочерком (hide_prices в модуле "sales")
+ * dealNumber - номер сделки для артикулов позиций (270\1, 270\2...), номер КП идёт из нумератора
  */
-export async function generateEmeraldPDF(document: DealDocument, dealId: string): Promise<string> {
+export async function generateEmeraldPDF(
+  document: DealDocument,
+  dealId: string,
+  options: { hidePrices?: boolean; dealNumber?: string | null } = {}
+): Promise<string> {
   const data = typeof document.data === 'string' ? JSON.parse(document.data) : document.data;
   const positions = data?.positions || [];
 
@@ -85,15 +93,21 @@ export async function generateEmeraldPDF(document: DealDocument, dealId: string)
   const products = positions.filter((pos: any) => !pos.isService);
   const services = positions.filter((pos: any) => pos.isService);
 
+  // Сумма строки после скидки позиции (total посчитан сервером), у старых документов - цена × количество
+  const positionTotal = (pos: any): number => pos.total ?? pos.price * pos.quantity;
+
   const productsTotal = products.reduce((sum: number, pos: any) => {
-    return sum + (pos.price * pos.quantity);
+    return sum + positionTotal(pos);
   }, 0);
 
   const servicesTotal = services.reduce((sum: number, pos: any) => {
-    return sum + (pos.price * pos.quantity);
+    return sum + positionTotal(pos);
   }, 0);
 
-  const totalAmount = productsTotal + servicesTotal;
+  // Скидка на документ и НДС есть только у документов, рассчитанных по @shared/quotePricing
+  const totals: QuoteTotals | undefined = data?.totals;
+  const pricing = parseQuotePricing(data?.pricing);
+  const totalAmount = totals ? totals.total : productsTotal + servicesTotal;
 
   // Парсим график платежей
   const paymentSchedule = document.payment_schedule
@@ -104,6 +118,11 @@ export async function generateEmeraldPDF(document: DealDocument, dealId: string)
   const secondAmount = totalAmount * (paymentSchedule.second / 100);
   const finalAmount = totalAmount * (paymentSchedule.final / 100);
 
+  // Форматирование сумм с учётом скрытия цен
+  const money = (value: number, unit: string = 'руб.') =>
+    options.hidePrices ? '—' : `${value.toLocaleString('ru-RU')} ${unit}`;
+  const moneyInWords = (value: number) => options.hidePrices ? '—' : numberToWords(value);
+
   // Форматирование даты
   const formatDate = (dateStr: string) => {
     const date = new Date(dateStr);
@@ -326,8 +345,8 @@ export async function generateEmeraldPDF(document: DealDocument, dealId: string)
 
   // Товары
   products.forEach((pos: any, index: number) => {
-    const itemTotal = pos.price * pos.quantity;
-    const itemNumber = `${document.document_number?.split('-')[0] || ''}\\${index + 1}`;
+    const itemTotal = positionTotal(pos);
+    const itemNumber = `${options.dealNumber || document.document_number?.split('-')[0] || ''}\\${index + 1}`;
 
     html += `
       <tr>
@@ -339,7 +358,7 @@ export async function generateEmeraldPDF(document: DealDocument, dealId: string)
         <td class="dimensions">${pos.width || '-'}</td>
         <td class="dimensions">${pos.depth || '-'}</td>
         <td class="number">${pos.quantity || 1}шт</td>
-        <td class="price">${itemTotal.toLocaleString('ru-RU')} руб.</td>
+        <td class="price">${money(itemTotal)}</td>
       </tr>
     `;
   });
@@ -347,11 +366,11 @@ export async function generateEmeraldPDF(document: DealDocument, dealId: string)
   // Услуги (монтаж, доставка)
   if (services.length > 0) {
     services.forEach((service: any) => {
-      const serviceTotal = service.price * service.quantity;
+      const serviceTotal = positionTotal(service);
       html += `
       <tr>
         <td colspan="8" style="text-align: left; font-weight: bold;">${service.name}</td>
-        <td class="price">${serviceTotal.toLocaleString('ru-RU')} руб.</td>
+        <td class="price">${money(serviceTotal)}</td>
       </tr>
       `;
     });
@@ -378,16 +397,28 @@ export async function generateEmeraldPDF(document: DealDocument, dealId: string)
     ${services.filter((s: any) => s.name.toLowerCase().includes('доставк')).length > 0 ? `
     <div class="summary-row">
       <span>СТОИМОСТЬ ДОСТАВКИ:</span>
-      <strong>${services.filter((s: any) => s.name.toLowerCase().includes('доставк')).reduce((sum: number, s: any) => sum + s.price * s.quantity, 0).toLocaleString('ru-RU')} руб.</strong>
+      <strong>${money(services.filter((s: any) => s.name.toLowerCase().includes('доставк')).reduce((sum: number, s: any) => sum + positionTotal(s), 0))}</strong>
     </div>
     ` : ''}
     <div class="summary-row">
       <span>СТОИМОСТЬ МЕБЕЛИ:</span>
-      <strong>${productsTotal.toLocaleString('ru-RU')} руб.</strong>
+      <strong>${money(productsTotal)}</strong>
+    </div>
+    ${totals && totals.document_discount > 0 ? `
+    <div class="summary-row">
+      <span>СКИДКА ${pricing.discount_percent}%:</span>
+      <strong>−${money(totals.document_discount)}</strong>
     </div>
+    ` : ''}
+    ${totals && pricing.vat_mode !== 'none' ? `
+    <div class="summary-row">
+      <span>${pricing.vat_mode === 'included' ? 'В ТОМ ЧИСЛЕ НДС' : 'НДС'} ${pricing.vat_rate}%:</span>
+      <strong>${money(totals.vat_amount)}</strong>
+    </div>
+    ` : ''}
     <div class="summary-row total">
       <span>ОБЩАЯ СТОИМОСТЬ:</span>
-      <strong>${totalAmount.toLocaleString('ru-RU')} руб.</strong>
+      <strong>${money(totalAmount)}</strong>
     </div>
   </div>
 
@@ -408,27 +439,27 @@ export async function generateEmeraldPDF(document: DealDocument, dealId: string)
           <td>Оплата за мебель<br/>(часть 1)</td>
           <td>Аванс для подготовки технической документации и начала производства</td>
           <td style="text-align: center;">${paymentSchedule.advance}%</td>
-          <td class="amount">${advanceAmount.toLocaleString('ru-RU')} руб</td>
-          <td>${numberToWords(advanceAmount)}</td>
+          <td class="amount">${money(advanceAmount, 'руб')}</td>
+          <td>${moneyInWords(advanceAmount)}</td>
         </tr>
         <tr>
           <td>Оплата за мебель<br/>(часть 2)</td>
           <td>Доплата перед доставкой мебели к заказчику</td>
           <td style="text-align: center;">${paymentSchedule.second}%</td>
-          <td class="amount">${secondAmount.toLocaleString('ru-RU')} руб</td>
-          <td>${numberToWords(secondAmount)}</td>
+          <td class="amount">${money(secondAmount, 'руб')}</td>
+          <td>${moneyInWords(secondAmount)}</td>
         </tr>
         <tr>
           <td>Оплата за мебель<br/>(часть 3)</td>
           <td>Доплата по завершению монтажа</td>
           <td style="text-align: center;">${paymentSchedule.final}%</td>
-          <td class="amount">${finalAmount.toLocaleString('ru-RU')} руб</td>
-          <td>${numberToWords(finalAmount)}</td>
+          <td class="amount">${money(finalAmount, 'руб')}</td>
+          <td>${moneyInWords(finalAmount)}</td>
         </tr>
         <tr style="font-weight: bold; background-color: #f0f0f0;">
           <td colspan="3">ОБЩАЯ СТОИМОСТЬ:</td>
-          <td class="amount">${totalAmount.toLocaleString('ru-RU')} руб.</td>
-          <td>${numberToWords(totalAmount)}</td>
+          <td class="amount">${money(totalAmount)}</td>
+          <td>${moneyInWords(totalAmount)}</td>
         </tr>
       </tbody>
     </table>
@@ -1,8 +1,28 @@
-import { db } from "../../db";
+import { db, withTransaction } from "../../db";
 import { eq, asc, desc, sql, inArray } from "drizzle-orm";
 import Database from 'better-sqlite3';
-import type { Deal, InsertDeal, DealStage, InsertDealStage, DealMessage, InsertDealMessage, DealDocument, InsertDealDocument, DealAttachment, InsertDealAttachment } from "@shared/schema";
-import { deals, dealStages, deal_messages, deal_documents, deal_attachments, users, projects, company_settings } from "@shared/schema";
+import type { Deal, InsertDeal, DealStage, InsertDealStage, DealMessage, InsertDealMessage, DealDocument, InsertDealDocument, DealAttachment, InsertDealAttachment, DealStageHistory, DealStageHistorySource } from "@shared/schema";
+import { deals, dealStages, deal_messages, deal_documents, deal_attachments, users, projects, deal_stage_history } from "@shared/schema";
+import type { NumberContext, NumberSequenceKey } from "@shared/numbering";
+import { numberingRepository } from "../numbering/repository";
+
+// Кто и откуда меняет этап — пишется в deal_stage_history
+export interface StageChangeContext {
+  source: DealStageHistorySource;
+  changedBy?: string | null;
+}
+
+// Поля итога сделки; пишутся только через закрытие и восстановление
+export type DealOutcomeUpdate = Pick<Deal, "outcome" | "closed_at" | "loss_reason_id" | "competitor" | "loss_comment"> & {
+  stage?: string;
+};
+
+export interface StageTransition {
+  deal_id: string;
+  pipeline_id: string | null;
+  from_stage: string | null;
+  to_stage: string;
+}
 
 export class SalesRepository {
   async getAllDeals(): Promise<any[]> {
@@ -58,43 +78,63 @@ export class SalesRepository {
     };
   }
 
-  async getNextOrderNumber(): Promise<string> {
-    // Получаем настройку начального номера из company_settings
-    const settings = await db.select().from(company_settings).limit(1);
-    const offset = settings[0]?.deal_number_offset || 269;
-
-    // Получаем все номера сделок
-    const allDeals = await db.select({ order_number: deals.order_number }).from(deals);
-
-    // Извлекаем числовые номера
-    const allNumbers = allDeals
-      .map(d => d.order_number)
-      .filter(n => n && !isNaN(parseInt(n)))
-      .map(n => parseInt(n!))
-      .filter(n => !isNaN(n));
-
-    // Находим максимум, учитывая offset
-    const maxNumber = allNumbers.length > 0
-      ? Math.max(...allNumbers, offset - 1)
-      : offset - 1;
-
-    return String(maxNumber + 1);
-  }
-
-  async createDeal(data: InsertDeal): Promise<Deal> {
-    if (!data.order_number) {
-      data.order_number = await this.getNextOrderNumber();
+  async createDeal(data: InsertDeal, changedBy: string | null = null): Promise<Deal> {
+    return await withTransaction(async (tx: any) => {
+      // Номер из нумератора выдаётся в той же транзакции, откат его возвращает
+      const order_number = data.order_number || await numberingRepository.allocate("deal", {}, tx);
+      const [deal] = await tx.insert(deals).values({ ...data, order_number }).returning();
+      await this.recordStageChanges(
+        [{ deal_id: deal.id, pipeline_id: deal.pipeline_id, from_stage: null, to_stage: deal.stage }],
+        { source: "create", changedBy },
+        tx,
+      );
+      return deal;
+    });
+  }
+
+  async updateDeal(
+    id: string,
+    data: Partial<InsertDeal>,
+    context: StageChangeContext = { source: "manual" },
+  ): Promise<Deal | undefined> {
+    return await this.writeDeal(id, data, context);
+  }
+
+  /**
+   * Закрыть сделку (won/lost) или вернуть в работу (outcome: null); stage — этап, куда её переносим
+   */
+  async setDealOutcome(id: string, data: DealOutcomeUpdate, context: StageChangeContext): Promise<Deal | undefined> {
+    return await this.writeDeal(id, data, context);
+  }
+
+  private async writeDeal(
+    id: string,
+    values: Partial<InsertDeal> | DealOutcomeUpdate,
+    context: StageChangeContext,
+  ): Promise<Deal | undefined> {
+    if (values.stage === undefined) {
+      const result = await db.update(deals)
+        .set({ ...values, updated_at: new Date() })
+        .where(eq(deals.id, id))
+        .returning();
+      return result[0];
     }
-    const result = await db.insert(deals).values(data).returning();
-    return result[0];
-  }
 
-  async updateDeal(id: string, data: Partial<InsertDeal>): Promise<Deal | undefined> {
-    const result = await db.update(deals)
-      .set({ ...data, updated_at: new Date() })
-      .where(eq(deals.id, id))
-      .returning();
-    return result[0];
+    return await withTransaction(async (tx: any) => {
+      const [before] = await tx.select({ stage: deals.stage }).from(deals).where(eq(deals.id, id));
+      const [updated] = await tx.update(deals)
+        .set({ ...values, updated_at: new Date() })
+        .where(eq(deals.id, id))
+        .returning();
+      if (updated && before && before.stage !== updated.stage) {
+        await this.recordStageChanges(
+          [{ deal_id: id, pipeline_id: updated.pipeline_id, from_stage: before.stage, to_stage: updated.stage }],
+          context,
+          tx,
+        );
+      }
+      return updated;
+    });
   }
 
   async deleteDeal(id: string): Promise<boolean> {
@@ -130,15 +170,22 @@ export class SalesRepository {
     return result.length;
   }
 
-  async bulkUpdateStage(ids: string[], newStage: string): Promise<number> {
+  async bulkUpdateStage(ids: string[], newStage: string, context: StageChangeContext = { source: "bulk" }): Promise<number> {
     if (ids.length === 0) {
       return 0;
     }
-    const result = await db.update(deals)
-      .set({ stage: newStage, updated_at: new Date() })
-      .where(inArray(deals.id, ids))
-      .returning();
-    return result.length;
+    return await withTransaction(async (tx: any) => {
+      const before = await tx
+        .select({ id: deals.id, stage: deals.stage, pipeline_id: deals.pipeline_id })
+        .from(deals)
+        .where(inArray(deals.id, ids));
+      const result = await tx.update(deals)
+        .set({ stage: newStage, updated_at: new Date() })
+        .where(inArray(deals.id, ids))
+        .returning();
+      await this.recordStageChanges(this.transitionsTo(before, newStage), context, tx);
+      return result.length;
+    });
   }
 
   async getDealsByStage(stage: string): Promise<Deal[]> {
@@ -152,12 +199,48 @@ export class SalesRepository {
     return result[0]?.count || 0;
   }
 
-  async updateDealsStage(oldStage: string, newStage: string): Promise<number> {
-    const result = await db.update(deals)
-      .set({ stage: newStage, updated_at: new Date() })
-      .where(eq(deals.stage, oldStage))
-      .returning();
-    return result.length;
+  async updateDealsStage(oldStage: string, newStage: string, context: StageChangeContext = { source: "stage_delete" }): Promise<number> {
+    return await withTransaction(async (tx: any) => {
+      const result = await tx.update(deals)
+        .set({ stage: newStage, updated_at: new Date() })
+        .where(eq(deals.stage, oldStage))
+        .returning();
+      await this.recordStageChanges(
+        result.map((deal: Deal) => ({ deal_id: deal.id, pipeline_id: deal.pipeline_id, from_stage: oldStage, to_stage: newStage })),
+        context,
+        tx,
+      );
+      return result.length;
+    });
+  }
+
+  // Stage History
+  private transitionsTo(before: Array<Pick<Deal, "id" | "stage" | "pipeline_id">>, newStage: string): StageTransition[] {
+    return before
+      .filter((deal) => deal.stage !== newStage)
+      .map((deal) => ({ deal_id: deal.id, pipeline_id: deal.pipeline_id, from_stage: deal.stage, to_stage: newStage }));
+  }
+
+  /**
+   * Пишет смены этапа в историю. executor — транзакция, в которой меняется сам этап
+   */
+  async recordStageChanges(transitions: StageTransition[], context: StageChangeContext, executor: any = db): Promise<void> {
+    if (transitions.length === 0) return;
+    await executor.insert(deal_stage_history).values(
+      transitions.map((transition) => ({
+        ...transition,
+        source: context.source,
+        changed_by: context.changedBy ?? null,
+      }))
+    );
+  }
+
+  async getDealStageHistory(dealId: string): Promise<DealStageHistory[]> {
+    return await db
+      .select()
+      .from(deal_stage_history)
+      .where(eq(deal_stage_history.deal_id, dealId))
+      .orderBy(asc(deal_stage_history.created_at));
   }
 
   async getAllDealStages(): Promise<DealStage[]> {
@@ -233,7 +316,7 @@ export class SalesRepository {
       })
       .where(
         sql`${deal_messages.deal_id} = ${dealId}
-            AND ${deal_messages.author_id} != ${userId}
+            AND ${deal_messages.author_id} IS DISTINCT FROM ${userId}
             AND ${deal_messages.is_read} = 0`
       )
       .returning();
@@ -250,7 +333,7 @@ export class SalesRepository {
       })
       .where(
         sql`${deal_messages.id} = ${messageId}
-            AND ${deal_messages.author_id} != ${userId}`
+            AND ${deal_messages.author_id} IS DISTINCT FROM ${userId}`
       )
       .returning();
     return result[0];
@@ -263,7 +346,7 @@ export class SalesRepository {
       .from(deal_messages)
       .where(
         sql`${deal_messages.deal_id} = ${dealId}
-            AND ${deal_messages.author_id} != ${userId}
+            AND ${deal_messages.author_id} IS DISTINCT FROM ${userId}
             AND ${deal_messages.is_read} = 0`
       );
     return result[0]?.count || 0;
@@ -293,6 +376,22 @@ export class SalesRepository {
     return document;
   }
 
+  // Документ с номером из нумератора его типа (КП, счёт, договор)
+  async createNumberedDealDocument(
+    data: InsertDealDocument,
+    sequence: NumberSequenceKey,
+    context: NumberContext,
+  ): Promise<DealDocument> {
+    return await withTransaction(async (tx: any) => {
+      const document_number = await numberingRepository.allocate(sequence, context, tx);
+      const [document] = await tx
+        .insert(deal_documents)
+        .values({ ...data, document_number })
+        .returning();
+      return document;
+    });
+  }
+
   async updateDealDocument(id: string, data: Partial<InsertDealDocument>): Promise<DealDocument | undefined> {
     const [updated] = await db
       .update(deal_documents)
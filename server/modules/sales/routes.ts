@@ -1,28 +1,47 @@
 import { Router } from "express";
 import { salesRepository } from "./repository";
-import { insertDealSchema, insertDealStageSchema, insertDealMessageSchema, insertDealDocumentSchema } from "@shared/schema";
+import { insertDealSchema, insertDealStageSchema, insertDealMessageSchema, insertDealDocumentSchema, dealOutcomeValues } from "@shared/schema";
+import { z } from "zod";
 import { fromZodError } from "zod-validation-error";
 import { checkPermission } from "../../middleware/permissions";
 import { permissionsService } from "../permissions/service";
+import { fileAccessService } from "../file-access/service";
 import { activityLogsRepository, tasksRepository } from "../tasks/repository";
 import { generateEmeraldPDF } from "./pdfGeneratorEmerald";
 import puppeteer from "puppeteer";
 import { logger } from "../../utils/logger";
+import { getRequestUserId, getRequestUserRole } from "../../middleware/auth";
+import { duplicatesService } from "../duplicates/service";
+import { stageGateService, dealOutcomeService } from "./service";
+import { lossReasonsRepository } from "../loss-reasons/repository";
+import { catalogService, CatalogError } from "../catalog/service";
+import type { BlockedDeal, StageGateBlocked } from "@shared/stageGates";
+import { DEAL_DOCUMENT_SEQUENCE_KEYS } from "@shared/numbering";
 
 export const router = Router();
 
+const closeDealSchema = z.object({
+  outcome: z.enum(dealOutcomeValues),
+  loss_reason_id: z.string().nullable().optional(),
+  competitor: z.string().trim().nullable().optional(),
+  comment: z.string().trim().nullable().optional(),
+}).refine((data) => data.outcome !== "lost" || !!data.loss_reason_id, {
+  message: "Укажите причину проигрыша",
+  path: ["loss_reason_id"],
+});
+
 async function initializeDefaultDealStages() {
   try {
     const existingStages = await salesRepository.getAllDealStages();
     
     if (existingStages.length === 0) {
       const defaultStages = [
-        { key: "new", name: "Новые", color: "#6366f1", order: 1 },
-        { key: "meeting", name: "Встреча назначена", color: "#8b5cf6", order: 2 },
-        { key: "proposal", name: "КП отправлено", color: "#0ea5e9", order: 3 },
-        { key: "contract", name: "Договор", color: "#f59e0b", order: 4 },
-        { key: "won", name: "Выиграна", color: "#10b981", order: 5 },
-        { key: "lost", name: "Проиграна", color: "#ef4444", order: 6 },
+        { key: "new", name: "Новые", color: "#6366f1", order: 1, win_probability: 10 },
+        { key: "meeting", name: "Встреча назначена", color: "#8b5cf6", order: 2, win_probability: 20 },
+        { key: "proposal", name: "КП отправлено", color: "#0ea5e9", order: 3, win_probability: 40 },
+        { key: "contract", name: "Договор", color: "#f59e0b", order: 4, win_probability: 70 },
+        { key: "won", name: "Выиграна", color: "#10b981", order: 5, win_probability: 100 },
+        { key: "lost", name: "Проиграна", color: "#ef4444", order: 6, win_probability: 0 },
       ];
       
       await Promise.all(
@@ -47,7 +66,7 @@ initializeDefaultDealStages().catch(err =>
 router.get("/api/deals", async (req, res) => {
   try {
     const { stage } = req.query;
-    const userId = req.headers["x-user-id"] as string;
+    const userId = getRequestUserId(req);
 
     let deals;
     if (stage && typeof stage === "string") {
@@ -56,37 +75,10 @@ router.get("/api/deals", async (req, res) => {
       deals = await salesRepository.getAllDeals();
     }
 
-    // Filter deals based on user permissions
-    if (userId) {
-      // Check if user exists, if not - use Admin (same logic as permission middleware)
-      const { db } = await import("../../db");
-      const { users } = await import("@shared/schema");
-      const { eq } = await import("drizzle-orm");
-
-      let effectiveUserId = userId;
-      const [user] = await db.select().from(users).where(eq(users.id, userId));
-
-      if (!user) {
-        // Fallback to Admin if user not found
-        const [adminUser] = await db.select().from(users).where(eq(users.username, 'Admin'));
-        if (adminUser) {
-          effectiveUserId = adminUser.id;
-        }
-      }
-
-      // Admin always sees all deals
-      const isAdmin = user?.username?.toLowerCase() === 'admin' || effectiveUserId !== userId;
-
-      if (!isAdmin) {
-        // Check both "sales" and "deals" modules for backwards compatibility
-        const canViewAll = await permissionsService.canViewAll(effectiveUserId, "sales") ||
-                           await permissionsService.canViewAll(effectiveUserId, "deals");
-
-        // If user cannot view all deals, filter to show only their deals
-        if (!canViewAll) {
-          deals = deals.filter(deal => deal.manager_id === effectiveUserId);
-        }
-      }
+    // Without view_all only deals managed by the user are visible (admin always sees all,
+    // "deals" is accepted as a legacy alias of the "sales" module)
+    if (userId && !(await permissionsService.canViewAll(userId, "sales"))) {
+      deals = deals.filter(deal => deal.manager_id === userId);
     }
 
     res.json(deals);
@@ -114,13 +106,24 @@ router.get("/api/deals/:id", async (req, res) => {
   }
 });
 
+// GET /api/deals/:id/stage-history - История смен этапа сделки
+router.get("/api/deals/:id/stage-history", async (req, res) => {
+  try {
+    const history = await salesRepository.getDealStageHistory(req.params.id);
+    res.json(history);
+  } catch (error) {
+    console.error("Error fetching deal stage history:", error);
+    res.status(500).json({ error: "Failed to fetch stage history" });
+  }
+});
+
 // POST /api/deals - Create new deal
 router.post("/api/deals", checkPermission("can_create_deals"), async (req, res) => {
   try {
     console.log("Received deal data:", JSON.stringify(req.body, null, 2));
-    // Use currentUser from middleware (may be Admin fallback if original user not found)
+    // Use currentUser from middleware
     const currentUser = (req as any).currentUser;
-    const userId = currentUser?.id || req.headers["x-user-id"] as string;
+    const userId = currentUser?.id || getRequestUserId(req);
 
     const validationResult = insertDealSchema.safeParse(req.body);
 
@@ -132,7 +135,7 @@ router.post("/api/deals", checkPermission("can_create_deals"), async (req, res)
     }
 
     console.log("Validated deal data:", JSON.stringify(validationResult.data, null, 2));
-    const newDeal = await salesRepository.createDeal(validationResult.data);
+    const newDeal = await salesRepository.createDeal(validationResult.data, userId || null);
 
     // Log activity with validated user ID
     try {
@@ -148,7 +151,24 @@ router.post("/api/deals", checkPermission("can_create_deals"), async (req, res)
       // Don't fail the request if logging fails
     }
 
-    res.status(201).json(newDeal);
+    // Сделка без карточки клиента: подсказываем похожих клиентов, чтобы не плодить дубли
+    let possibleClients: Array<{ id: string; name: string; phone: string | null; email: string | null; score: number }> = [];
+    if (!newDeal.client_id) {
+      try {
+        const duplicates = await duplicatesService.check({
+          name: newDeal.client_name,
+          phone: newDeal.contact_phone,
+          email: newDeal.contact_email,
+        });
+        possibleClients = duplicates.clients.slice(0, 5).map(({ record, score }) => ({
+          id: record.id, name: record.name, phone: record.phone, email: record.email, score,
+        }));
+      } catch (checkError) {
+        console.warn("Failed to check deal client duplicates:", checkError);
+      }
+    }
+
+    res.status(201).json({ ...newDeal, possible_clients: possibleClients });
   } catch (error) {
     console.error("Error creating deal:", error);
     res.status(500).json({ error: "Failed to create deal" });
@@ -159,9 +179,9 @@ router.post("/api/deals", checkPermission("can_create_deals"), async (req, res)
 router.put("/api/deals/:id", checkPermission("can_edit_deals"), async (req, res) => {
   try {
     const { id } = req.params;
-    // Use currentUser from middleware (may be Admin fallback if original user not found)
+    // Use currentUser from middleware
     const currentUser = (req as any).currentUser;
-    const userId = currentUser?.id || req.headers["x-user-id"] as string;
+    const userId = currentUser?.id || getRequestUserId(req);
 
     // Get old deal data for comparison
     const oldDeal = await salesRepository.getDealById(id);
@@ -175,7 +195,23 @@ router.put("/api/deals/:id", checkPermission("can_edit_deals"), async (req, res)
       return;
     }
 
-    const updatedDeal = await salesRepository.updateDeal(id, validationResult.data);
+    // Условия входа в новый этап проверяем на сделке с учётом изменений из этого же запроса
+    const newStage = validationResult.data.stage;
+    if (oldDeal && newStage && newStage !== oldDeal.stage) {
+      const unmet = await stageGateService.check({ ...oldDeal, ...validationResult.data }, newStage);
+      if (unmet.length > 0) {
+        const body: StageGateBlocked = {
+          error: "Не выполнены условия перехода в этап",
+          code: "STAGE_REQUIREMENTS_NOT_MET",
+          stage: newStage,
+          unmet,
+        };
+        res.status(422).json(body);
+        return;
+      }
+    }
+
+    const updatedDeal = await salesRepository.updateDeal(id, validationResult.data, { source: "manual", changedBy: userId || null });
 
     if (!updatedDeal) {
       res.status(404).json({ error: "Deal not found" });
@@ -213,6 +249,10 @@ router.put("/api/deals/:id", checkPermission("can_edit_deals"), async (req, res)
           description = `Изменен ответственный менеджер`;
         } else if (field === "expected_close_date") {
           description = `Изменена ожидаемая дата закрытия`;
+        } else if (field === "win_probability") {
+          description = newValue === null
+            ? `Вероятность выигрыша берётся из этапа`
+            : `Изменена вероятность выигрыша на ${newValue}%`;
         } else if (field === "source") {
           description = `Изменен источник сделки с "${oldValue}" на "${newValue}"`;
         } else if (field === "contact_phone") {
@@ -248,13 +288,136 @@ router.put("/api/deals/:id", checkPermission("can_edit_deals"), async (req, res)
   }
 });
 
+// POST /api/deals/:id/close - Закрыть сделку как выигранную или проигранную
+router.post("/api/deals/:id/close", checkPermission("can_edit_deals"), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const currentUser = (req as any).currentUser;
+    const userId = currentUser?.id || getRequestUserId(req);
+
+    const validationResult = closeDealSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      const errorMessage = fromZodError(validationResult.error).toString();
+      res.status(400).json({ error: errorMessage });
+      return;
+    }
+    const { outcome, loss_reason_id, competitor, comment } = validationResult.data;
+
+    const deal = await salesRepository.getDealById(id);
+    if (!deal) {
+      res.status(404).json({ error: "Deal not found" });
+      return;
+    }
+
+    const lossReason = outcome === "lost" ? await lossReasonsRepository.getById(loss_reason_id!) : undefined;
+    if (outcome === "lost" && !lossReason) {
+      res.status(400).json({ error: "Loss reason not found" });
+      return;
+    }
+
+    const stage = await dealOutcomeService.outcomeStage(deal, outcome);
+    if (stage && stage.key !== deal.stage) {
+      const unmet = await stageGateService.check(deal, stage.key);
+      if (unmet.length > 0) {
+        const body: StageGateBlocked = {
+          error: "Не выполнены условия перехода в этап",
+          code: "STAGE_REQUIREMENTS_NOT_MET",
+          stage: stage.key,
+          unmet,
+        };
+        res.status(422).json(body);
+        return;
+      }
+    }
+
+    const updatedDeal = await salesRepository.setDealOutcome(id, {
+      outcome,
+      closed_at: new Date(),
+      loss_reason_id: lossReason?.id ?? null,
+      competitor: outcome === "lost" ? competitor || null : null,
+      loss_comment: outcome === "lost" ? comment || null : null,
+      stage: stage?.key,
+    }, { source: "close", changedBy: userId || null });
+
+    try {
+      await activityLogsRepository.logActivity({
+        entity_type: "deal",
+        entity_id: id,
+        action_type: "status_changed",
+        user_id: userId,
+        field_changed: "outcome",
+        old_value: deal.outcome || "",
+        new_value: outcome,
+        description: outcome === "won"
+          ? "Сделка закрыта как выигранная"
+          : `Сделка закрыта как проигранная: ${lossReason!.name}${competitor ? ` (ушла к «${competitor}»)` : ""}`,
+      });
+    } catch (logError) {
+      console.warn("Failed to log deal close activity:", logError);
+    }
+
+    res.json(updatedDeal);
+  } catch (error) {
+    console.error("Error closing deal:", error);
+    res.status(500).json({ error: "Failed to close deal" });
+  }
+});
+
+// POST /api/deals/:id/reopen - Вернуть закрытую сделку в работу
+router.post("/api/deals/:id/reopen", checkPermission("can_edit_deals"), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const currentUser = (req as any).currentUser;
+    const userId = currentUser?.id || getRequestUserId(req);
+
+    const deal = await salesRepository.getDealById(id);
+    if (!deal) {
+      res.status(404).json({ error: "Deal not found" });
+      return;
+    }
+    if (!deal.outcome) {
+      res.status(400).json({ error: "Deal is not closed" });
+      return;
+    }
+
+    const updatedDeal = await salesRepository.setDealOutcome(id, {
+      outcome: null,
+      closed_at: null,
+      loss_reason_id: null,
+      competitor: null,
+      loss_comment: null,
+      stage: await dealOutcomeService.stageBeforeClose(deal),
+    }, { source: "reopen", changedBy: userId || null });
+
+    try {
+      await activityLogsRepository.logActivity({
+        entity_type: "deal",
+        entity_id: id,
+        action_type: "status_changed",
+        user_id: userId,
+        field_changed: "outcome",
+        old_value: deal.outcome,
+        new_value: "",
+        description: "Сделка возвращена в работу",
+      });
+    } catch (logError) {
+      console.warn("Failed to log deal reopen activity:", logError);
+    }
+
+    res.json(updatedDeal);
+  } catch (error) {
+    console.error("Error reopening deal:", error);
+    res.status(500).json({ error: "Failed to reopen deal" });
+  }
+});
+
 // DELETE /api/deals/:id - Delete deal
 router.delete("/api/deals/:id", checkPermission("can_delete_deals"), async (req, res) => {
   try {
     const { id } = req.params;
-    // Use currentUser from middleware (may be Admin fallback if original user not found)
+    // Use currentUser from middleware
     const currentUser = (req as any).currentUser;
-    const userId = currentUser?.id || req.headers["x-user-id"] as string;
+    const userId = currentUser?.id || getRequestUserId(req);
 
     // Get deal info before deleting for logging
     const deal = await salesRepository.getDealById(id);
@@ -311,7 +474,7 @@ router.post("/api/deals/bulk-delete", checkPermission("can_delete_deals"), async
 router.post("/api/deals/bulk-update-stage", checkPermission("can_edit_deals"), async (req, res) => {
   try {
     const { dealIds, newStage } = req.body;
-    const userId = req.headers["x-user-id"] as string;
+    const userId = getRequestUserId(req);
 
     if (!Array.isArray(dealIds) || dealIds.length === 0) {
       res.status(400).json({ error: "dealIds must be a non-empty array" });
@@ -328,8 +491,33 @@ router.post("/api/deals/bulk-update-stage", checkPermission("can_edit_deals"), a
       dealIds.map(id => salesRepository.getDealById(id))
     );
 
+    // Сделки, не выполнившие условия входа в этап, остаются на месте
+    const blocked: BlockedDeal[] = [];
+    const allowedIds: string[] = [];
+    for (const oldDeal of oldDeals) {
+      if (!oldDeal) continue;
+      const unmet = oldDeal.stage === newStage ? [] : await stageGateService.check(oldDeal, newStage);
+      if (unmet.length > 0) {
+        blocked.push({ deal_id: oldDeal.id, client_name: oldDeal.client_name, unmet });
+      } else {
+        allowedIds.push(oldDeal.id);
+      }
+    }
+
+    if (allowedIds.length === 0 && blocked.length > 0) {
+      const body: StageGateBlocked = {
+        error: "Ни одна сделка не выполнила условия перехода в этап",
+        code: "STAGE_REQUIREMENTS_NOT_MET",
+        stage: newStage,
+        unmet: blocked[0].unmet,
+        blocked,
+      };
+      res.status(422).json(body);
+      return;
+    }
+
     // Update deals
-    const updatedCount = await salesRepository.bulkUpdateStage(dealIds, newStage);
+    const updatedCount = await salesRepository.bulkUpdateStage(allowedIds, newStage, { source: "bulk", changedBy: userId || null });
 
     // Get stage names for logging
     const stages = await salesRepository.getAllDealStages();
@@ -342,7 +530,7 @@ router.post("/api/deals/bulk-update-stage", checkPermission("can_edit_deals"), a
 
     // Log activity for each deal
     for (const oldDeal of oldDeals) {
-      if (oldDeal && oldDeal.stage !== newStage) {
+      if (oldDeal && allowedIds.includes(oldDeal.id) && oldDeal.stage !== newStage) {
         const oldStageName = stageMap[oldDeal.stage] || oldDeal.stage;
 
         await activityLogsRepository.logActivity({
@@ -360,6 +548,7 @@ router.post("/api/deals/bulk-update-stage", checkPermission("can_edit_deals"), a
 
     res.json({
       updatedCount,
+      blocked,
       message: `Этап изменен для ${updatedCount} ${updatedCount === 1 ? 'сделки' : updatedCount < 5 ? 'сделок' : 'сделок'}`
     });
   } catch (error) {
@@ -462,7 +651,7 @@ router.delete("/api/deal-stages/:id", async (req, res) => {
         return;
       }
       
-      await salesRepository.updateDealsStage(stage.key, targetStageKey);
+      await salesRepository.updateDealsStage(stage.key, targetStageKey, { source: "stage_delete", changedBy: getRequestUserId(req) || null });
     }
     
     const deleted = await salesRepository.deleteDealStage(id);
@@ -515,9 +704,10 @@ router.get("/api/deals/:id/messages", async (req, res) => {
 router.post("/api/deals/:id/messages", async (req, res) => {
   try {
     const { id } = req.params;
-    const userId = req.headers["x-user-id"] as string;
+    const userId = getRequestUserId(req);
 
-    const validationResult = insertDealMessageSchema.safeParse({
+    // Автор — всегда текущий пользователь, author_id из тела запроса не принимается
+    const validationResult = insertDealMessageSchema.omit({ author_id: true }).safeParse({
       ...req.body,
       deal_id: id
     });
@@ -528,7 +718,10 @@ router.post("/api/deals/:id/messages", async (req, res) => {
       return;
     }
 
-    const newMessage = await salesRepository.createDealMessage(validationResult.data);
+    const newMessage = await salesRepository.createDealMessage({
+      ...validationResult.data,
+      author_id: userId || null,
+    });
 
     // Log activity
     const messageTypeNames: Record<string, string> = {
@@ -558,7 +751,7 @@ router.post("/api/deals/:id/messages", async (req, res) => {
 router.patch("/api/deals/:id/messages/mark-read", async (req, res) => {
   try {
     const { id } = req.params;
-    const userId = req.headers["x-user-id"] as string;
+    const userId = getRequestUserId(req);
 
     if (!userId) {
       res.status(401).json({ error: "User ID required" });
@@ -577,7 +770,7 @@ router.patch("/api/deals/:id/messages/mark-read", async (req, res) => {
 router.patch("/api/deals/:id/messages/:msgId/read", async (req, res) => {
   try {
     const { msgId } = req.params;
-    const userId = req.headers["x-user-id"] as string;
+    const userId = getRequestUserId(req);
 
     if (!userId) {
       res.status(401).json({ error: "User ID required" });
@@ -602,7 +795,7 @@ router.patch("/api/deals/:id/messages/:msgId/read", async (req, res) => {
 router.get("/api/deals/:id/messages/unread/count", async (req, res) => {
   try {
     const { id } = req.params;
-    const userId = req.headers["x-user-id"] as string;
+    const userId = getRequestUserId(req);
 
     if (!userId) {
       res.status(401).json({ error: "User ID required" });
@@ -680,7 +873,10 @@ router.get("/api/deals/:dealId/documents/:docId/html", async (req, res) => {
     console.log(`📄 [HTML] Generating HTML preview for document ${docId}...`);
 
     // Генерируем HTML
-    const html = await generateEmeraldPDF(document, dealId);
+    const userId = getRequestUserId(req);
+    const hidePrices = userId ? await permissionsService.shouldHidePrices(userId, "sales") : false;
+    const deal = await salesRepository.getDealById(dealId);
+    const html = await generateEmeraldPDF(document, dealId, { hidePrices, dealNumber: deal?.order_number });
 
     console.log(`✅ [HTML] HTML generated successfully`);
 
@@ -713,7 +909,10 @@ router.get("/api/deals/:dealId/documents/:docId/pdf", async (req, res) => {
     console.log(`📄 [PDF] Generating PDF for document ${docId}...`);
 
     // Генерируем HTML
-    const html = await generateEmeraldPDF(document, dealId);
+    const userId = getRequestUserId(req);
+    const hidePrices = userId ? await permissionsService.shouldHidePrices(userId, "sales") : false;
+    const deal = await salesRepository.getDealById(dealId);
+    const html = await generateEmeraldPDF(document, dealId, { hidePrices, dealNumber: deal?.order_number });
 
     console.log(`🎭 [PDF] Launching Puppeteer...`);
 
@@ -760,7 +959,7 @@ router.get("/api/deals/:dealId/documents/:docId/pdf", async (req, res) => {
 router.post("/api/deals/:id/documents", async (req, res) => {
   try {
     const { id } = req.params;
-    const userId = req.headers["x-user-id"] as string;
+    const userId = getRequestUserId(req);
 
     console.log(`📄 [Documents] Creating document for deal ${id}, type: ${req.body.document_type}`);
     console.log(`📄 [Documents] Request body:`, JSON.stringify(req.body, null, 2));
@@ -772,26 +971,15 @@ router.post("/api/deals/:id/documents", async (req, res) => {
       return;
     }
 
-    // Генерируем номер документа на основе типа
-    let documentNumber: string | undefined;
+    // КП, счёт и договор нумеруются нумератором своего типа (Настройки → Система),
+    // остальные документы получают номер сделки
     const dealNumber = deal.order_number || id.slice(0, 6);
-
-    if (req.body.document_type === 'contract') {
-      // Для договора: номер_сделки-дата (270-23.11.2025)
-      const today = new Date();
-      const dateStr = today.toLocaleDateString('ru-RU', { day: '2-digit', month: '2-digit', year: 'numeric' }).replace(/\//g, '.');
-      documentNumber = `${dealNumber}-${dateStr}`;
-    } else {
-      // Для КП и счёта: просто номер сделки
-      documentNumber = dealNumber;
-    }
-
-    console.log(`📄 [Documents] Generated document_number: ${documentNumber}`);
+    const sequence = DEAL_DOCUMENT_SEQUENCE_KEYS.find((key) => key === req.body.document_type);
 
     const validationResult = insertDealDocumentSchema.safeParse({
       ...req.body,
       deal_id: id,
-      document_number: documentNumber
+      document_number: sequence ? undefined : dealNumber,
     });
 
     if (!validationResult.success) {
@@ -804,7 +992,19 @@ router.post("/api/deals/:id/documents", async (req, res) => {
 
     console.log(`📄 [Documents] Validated data:`, JSON.stringify(validationResult.data, null, 2));
 
-    const newDocument = await salesRepository.createDealDocument(validationResult.data);
+    // Позиции КП/счёта пересчитываются по прайс-листу, итог клиента не принимается
+    const priced = await catalogService.priceDocument(validationResult.data.data);
+
+    // При скрытых ценах позиции (например, счёт из КП) приходят с нулевыми ценами вместо скрытых
+    if (priced && userId && await permissionsService.shouldHidePrices(userId, "sales")) {
+      res.status(403).json({ error: "Цены скрыты: документ с позициями создать нельзя" });
+      return;
+    }
+
+    const newDocument = sequence
+      ? await salesRepository.createNumberedDealDocument({ ...validationResult.data, ...priced }, sequence, { deal: dealNumber })
+      : await salesRepository.createDealDocument({ ...validationResult.data, ...priced });
+    console.log(`📄 [Documents] Generated document_number: ${newDocument.document_number}`);
     console.log(`✅ [Documents] Created document ${newDocument.id}, type: ${newDocument.document_type}, file_url: ${newDocument.file_url}`);
 
     // Log activity
@@ -826,6 +1026,10 @@ router.post("/api/deals/:id/documents", async (req, res) => {
 
     res.status(201).json(newDocument);
   } catch (error) {
+    if (error instanceof CatalogError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
     console.error("Error creating deal document:", error);
     res.status(500).json({ error: "Failed to create document" });
   }
@@ -844,7 +1048,23 @@ router.put("/api/deals/:dealId/documents/:docId", async (req, res) => {
       return;
     }
     
-    const updated = await salesRepository.updateDealDocument(docId, validationResult.data);
+    // При скрытых ценах позиции приходят клиенту с price = null, их сохранение обнулило бы цены
+    const userId = getRequestUserId(req);
+    if (validationResult.data.data !== undefined && userId && await permissionsService.shouldHidePrices(userId, "sales")) {
+      res.status(403).json({ error: "Цены скрыты: изменять позиции документа нельзя" });
+      return;
+    }
+
+    // Итог документа с позициями считает сервер, даже если прислали только total_amount
+    let priced;
+    if (validationResult.data.data !== undefined) {
+      priced = await catalogService.priceDocument(validationResult.data.data);
+    } else if (validationResult.data.total_amount !== undefined) {
+      const existing = await salesRepository.getDealDocument(docId);
+      priced = existing ? await catalogService.priceDocument(existing.data) : undefined;
+    }
+
+    const updated = await salesRepository.updateDealDocument(docId, { ...validationResult.data, ...priced });
     
     if (!updated) {
       res.status(404).json({ error: "Document not found" });
@@ -853,6 +1073,10 @@ router.put("/api/deals/:dealId/documents/:docId", async (req, res) => {
     
     res.json(updated);
   } catch (error) {
+    if (error instanceof CatalogError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
     console.error("Error updating document:", error);
     res.status(500).json({ error: "Failed to update document" });
   }
@@ -862,9 +1086,8 @@ router.put("/api/deals/:dealId/documents/:docId", async (req, res) => {
 router.delete("/api/deals/:dealId/documents/:docId", async (req, res) => {
   try {
     const { dealId, docId } = req.params;
-    const userId = req.headers["x-user-id"] as string;
-    const userRoleEncoded = req.headers["x-user-role"] as string;
-    const userRole = userRoleEncoded ? decodeURIComponent(userRoleEncoded) : '';
+    const userId = getRequestUserId(req);
+    const userRole = getRequestUserRole(req);
 
     // Проверяем права администратора
     if (userRole !== 'admin' && userRole !== 'Администратор') {
@@ -908,7 +1131,7 @@ router.delete("/api/deals/:dealId/documents/:docId", async (req, res) => {
 router.post("/api/deals/:dealId/documents/:docId/clone", async (req, res) => {
   try {
     const { dealId, docId } = req.params;
-    const userId = req.headers["x-user-id"] as string;
+    const userId = getRequestUserId(req);
 
     console.log(`📋 [Documents] Cloning document ${docId} for deal ${dealId}`);
 
@@ -1018,11 +1241,20 @@ router.post("/api/deals/:dealId/documents/:docId/clone", async (req, res) => {
 router.post("/api/deals/:dealId/attachments", async (req, res) => {
   try {
     const { dealId } = req.params;
-    const userId = req.headers["x-user-id"] as string;
-    const { file_name, file_path, file_size, mime_type, item_id } = req.body;
+    const userId = getRequestUserId(req);
+    const { file_name, file_path, file_size, mime_type, item_id, upload_token } = req.body;
 
     console.log("Creating deal attachment:", { dealId, userId, file_name, file_path, file_size, mime_type, item_id });
 
+    // Прикрепить можно только свой свежезагруженный файл, не путь чужого вложения
+    const refusal = userId
+      ? await fileAccessService.checkNewAttachmentPath(userId, file_path, upload_token)
+      : { status: 401, error: "Не авторизован" };
+    if (refusal) {
+      res.status(refusal.status).json({ error: refusal.error });
+      return;
+    }
+
     // Создаём attachment без document_id (напрямую к сделке)
     // НЕ передаём uploaded_by чтобы избежать FK constraint error
     const attachment = await salesRepository.createDocumentAttachment({
@@ -1074,8 +1306,17 @@ router.get("/api/deals/:dealId/documents/:docId/attachments", async (req, res) =
 router.post("/api/deals/:dealId/documents/:docId/attachments", async (req, res) => {
   try {
     const { dealId, docId } = req.params;
-    const userId = req.headers["x-user-id"] as string;
-    const { file_name, file_path, file_size, mime_type } = req.body;
+    const userId = getRequestUserId(req);
+    const { file_name, file_path, file_size, mime_type, upload_token } = req.body;
+
+    // Прикрепить можно только свой свежезагруженный файл, не путь чужого вложения
+    const refusal = userId
+      ? await fileAccessService.checkNewAttachmentPath(userId, file_path, upload_token)
+      : { status: 401, error: "Не авторизован" };
+    if (refusal) {
+      res.status(refusal.status).json({ error: refusal.error });
+      return;
+    }
 
     const attachment = await salesRepository.createDocumentAttachment({
       deal_id: dealId,
@@ -1107,9 +1348,8 @@ router.post("/api/deals/:dealId/documents/:docId/attachments", async (req, res)
 router.delete("/api/deals/:dealId/documents/:docId/attachments/:attachmentId", async (req, res) => {
   try {
     const { dealId, attachmentId } = req.params;
-    const userId = req.headers["x-user-id"] as string;
-    const userRoleEncoded = req.headers["x-user-role"] as string;
-    const userRole = userRoleEncoded ? decodeURIComponent(userRoleEncoded) : '';
+    const userId = getRequestUserId(req);
+    const userRole = getRequestUserRole(req);
 
     // Проверяем права администратора
     if (userRole !== 'admin' && userRole !== 'Администратор') {
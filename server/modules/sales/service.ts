@@ -1,5 +1,106 @@
-export class Service {
-  // Business logic will be here
+import type { CustomFieldDefinition, Deal, DealOutcome, DealStage } from "@shared/schema";
+import { DEAL_REQUIRED_FIELDS, parseStageEntryRequirements } from "@shared/stageGates";
+import type { UnmetCondition } from "@shared/stageGates";
+import { salesRepository } from "./repository";
+import { salesPipelinesRepository } from "../sales-pipelines/repository";
+import { customFieldsRepository } from "../custom-fields/repository";
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === "string" && value.trim() === "");
+}
+
+export class StageGateService {
+  /**
+   * Этап, в который переходит сделка: ключи этапов уникальны только внутри воронки,
+   * поэтому ищем в воронке сделки, затем в воронке по умолчанию
+   */
+  async resolveStage(pipelineId: string | null | undefined, stageKey: string): Promise<DealStage | undefined> {
+    const pipelineIdOrDefault = pipelineId || (await salesPipelinesRepository.findDefault())?.id;
+    if (pipelineIdOrDefault) {
+      const stage = (await salesPipelinesRepository.findStages(pipelineIdOrDefault)).find((s) => s.key === stageKey);
+      if (stage) return stage;
+    }
+    return (await salesRepository.getAllDealStages()).find((s) => s.key === stageKey);
+  }
+
+  /**
+   * Невыполненные условия входа сделки в этап; пустой список — переход разрешён.
+   * deal — состояние сделки после изменения (для PUT — старые поля поверх новых)
+   */
+  async check(deal: Pick<Deal, "id" | "pipeline_id"> & Partial<Deal>, stageKey: string): Promise<UnmetCondition[]> {
+    const stage = await this.resolveStage(deal.pipeline_id, stageKey);
+    const requirements = parseStageEntryRequirements(stage?.entry_requirements);
+    if (!stage || !requirements) return [];
+
+    const unmet: UnmetCondition[] = [];
+
+    for (const field of requirements.required_fields) {
+      if (isEmpty(deal[field])) {
+        unmet.push({ code: "deal_field", field, message: `Не заполнено поле «${DEAL_REQUIRED_FIELDS[field]}»` });
+      }
+    }
+
+    if (requirements.custom_fields !== null) {
+      const [allDefinitions, values] = await Promise.all([
+        customFieldsRepository.getDefinitions(),
+        customFieldsRepository.getDealCustomFields(deal.id),
+      ]);
+      // Поля воронки этапа и общие поля (pipeline_id пустой)
+      const selected = requirements.custom_fields;
+      const definitions = allDefinitions.filter((definition: CustomFieldDefinition) =>
+        (!definition.pipeline_id || definition.pipeline_id === stage.pipeline_id) &&
+        (selected === "required" ? definition.is_required : selected.includes(definition.id))
+      );
+      const filled = new Set<string>(
+        values
+          .filter((v: { value: string | null }) => !isEmpty(v.value))
+          .map((v: { field_definition_id: string }) => v.field_definition_id)
+      );
+
+      for (const definition of definitions) {
+        if (!filled.has(definition.id)) {
+          unmet.push({ code: "custom_field", field: definition.id, message: `Не заполнено поле «${definition.name}»` });
+        }
+      }
+    }
+
+    if (requirements.signed_contract || requirements.invoice) {
+      const documents = await salesRepository.getDealDocuments(deal.id);
+
+      if (requirements.signed_contract && !documents.some((d) => d.document_type === "contract" && d.is_signed)) {
+        unmet.push({ code: "signed_contract", message: "Нет подписанного договора" });
+      }
+      if (requirements.invoice && !documents.some((d) => d.document_type === "invoice")) {
+        unmet.push({ code: "invoice", message: "Не выставлен счёт" });
+      }
+    }
+
+    return unmet;
+  }
+}
+
+export const stageGateService = new StageGateService();
+
+export class DealOutcomeService {
+  /**
+   * Этап воронки сделки с ключом won/lost; если в воронке его нет, сделка закрывается без смены этапа
+   */
+  async outcomeStage(deal: Pick<Deal, "pipeline_id">, outcome: DealOutcome): Promise<DealStage | undefined> {
+    const stage = await stageGateService.resolveStage(deal.pipeline_id, outcome);
+    if (!stage) return undefined;
+    return !stage.pipeline_id || !deal.pipeline_id || stage.pipeline_id === deal.pipeline_id ? stage : undefined;
+  }
+
+  /**
+   * Этап, из которого сделку закрыли: при восстановлении она возвращается туда.
+   * undefined — сделка закрывалась без смены этапа или этап с тех пор меняли вручную
+   */
+  async stageBeforeClose(deal: Pick<Deal, "id" | "stage">): Promise<string | undefined> {
+    const history = await salesRepository.getDealStageHistory(deal.id);
+    const close = [...history].reverse().find((entry) => entry.source === "close");
+    if (!close || close.to_stage !== deal.stage || !close.from_stage) return undefined;
+    return close.from_stage;
+  }
 }
 
-export const service = new Service();
+export const dealOutcomeService = new DealOutcomeService();
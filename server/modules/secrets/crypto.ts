@@ -0,0 +1,106 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+
+// enc:v1:<key id>:<iv>:<auth tag>:<ciphertext>, binary parts in base64
+const ENVELOPE_PREFIX = "enc:v1:";
+const IV_LENGTH = 12;
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+/**
+ * Any string is accepted as a master key and stretched to 32 bytes with SHA-256;
+ * generate one with `openssl rand -base64 32`.
+ * The key id is a fingerprint of the key, it tells which key a value was encrypted with.
+ */
+function parseMasterKey(raw: string): MasterKey {
+  const key = createHash("sha256").update(raw.trim()).digest();
+  const id = createHash("sha256").update(key).digest("hex").slice(0, 8);
+  return { id, key };
+}
+
+/**
+ * AES-256-GCM envelope encryption with a key ring:
+ * SECRETS_MASTER_KEY encrypts, SECRETS_MASTER_KEY_PREVIOUS (comma separated) still decrypt
+ * values written before a rotation.
+ */
+export class SecretsCipher {
+  private current?: MasterKey;
+  private keys = new Map<string, MasterKey>();
+
+  constructor(
+    currentKey: string | undefined = process.env.SECRETS_MASTER_KEY,
+    previousKeys: string | undefined = process.env.SECRETS_MASTER_KEY_PREVIOUS
+  ) {
+    if (currentKey) {
+      this.current = parseMasterKey(currentKey);
+      this.keys.set(this.current.id, this.current);
+    }
+    for (const raw of (previousKeys || "").split(",")) {
+      if (!raw.trim()) continue;
+      const key = parseMasterKey(raw);
+      this.keys.set(key.id, key);
+    }
+  }
+
+  isConfigured(): boolean {
+    return !!this.current;
+  }
+
+  currentKeyId(): string | null {
+    return this.current?.id || null;
+  }
+
+  isEncrypted(value: string): boolean {
+    return value.startsWith(ENVELOPE_PREFIX);
+  }
+
+  keyIdOf(value: string): string | null {
+    return this.isEncrypted(value) ? value.slice(ENVELOPE_PREFIX.length).split(":")[0] : null;
+  }
+
+  /**
+   * Plain text values (written before the vault existed) and values of an older key need re-encryption
+   */
+  needsRotation(value: string): boolean {
+    return !!this.current && this.keyIdOf(value) !== this.current.id;
+  }
+
+  encrypt(plaintext: string): string {
+    if (!this.current) {
+      throw new Error("SECRETS_MASTER_KEY not configured");
+    }
+
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv("aes-256-gcm", this.current.key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+    const tag = cipher.getAuthTag();
+
+    return `${ENVELOPE_PREFIX}${this.current.id}:${iv.toString("base64")}:${tag.toString("base64")}:${ciphertext.toString("base64")}`;
+  }
+
+  /**
+   * Values without the envelope prefix are legacy plain text and are returned as is
+   */
+  decrypt(value: string): string {
+    if (!this.isEncrypted(value)) {
+      return value;
+    }
+
+    const [keyId, iv, tag, ciphertext] = value.slice(ENVELOPE_PREFIX.length).split(":");
+    const masterKey = this.keys.get(keyId);
+    if (!masterKey) {
+      throw new Error(`Unknown master key ${keyId}: add it to SECRETS_MASTER_KEY_PREVIOUS`);
+    }
+
+    const decipher = createDecipheriv("aes-256-gcm", masterKey.key, Buffer.from(iv, "base64"));
+    decipher.setAuthTag(Buffer.from(tag, "base64"));
+    return Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, "base64")),
+      decipher.final(),
+    ]).toString("utf8");
+  }
+}
+
+export const secretsCipher = new SecretsCipher();
@@ -0,0 +1,77 @@
+import { db } from "../../db";
+import { eq, isNotNull, asc, getTableName } from "drizzle-orm";
+import { secrets, sip_trunks, mailboxes, messenger_channels } from "@shared/schema";
+import type { Secret } from "@shared/schema";
+
+// Columns of other modules that hold encrypted values; re-encrypted on master key rotation
+const ENCRYPTED_COLUMNS: Array<{ table: any; column: string }> = [
+  { table: sip_trunks, column: "password" },
+  { table: mailboxes, column: "password" },
+  { table: messenger_channels, column: "token" },
+];
+
+export interface EncryptedValue {
+  table: string;
+  column: string;
+  id: string;
+  value: string;
+}
+
+export class SecretsRepository {
+  async getAll(): Promise<Secret[]> {
+    return await db.select().from(secrets).orderBy(asc(secrets.name));
+  }
+
+  async upsert(name: string, valueEncrypted: string, updatedBy: string | null): Promise<Secret> {
+    const [existing] = await db.select().from(secrets).where(eq(secrets.name, name));
+
+    if (existing) {
+      const [secret] = await db.update(secrets)
+        .set({ value_encrypted: valueEncrypted, updated_by: updatedBy, updated_at: new Date() })
+        .where(eq(secrets.id, existing.id))
+        .returning();
+      return secret;
+    }
+
+    const [secret] = await db.insert(secrets)
+      .values({ name, value_encrypted: valueEncrypted, updated_by: updatedBy })
+      .returning();
+    return secret;
+  }
+
+  /**
+   * Re-encryption keeps updated_at/updated_by: the secret value itself did not change
+   */
+  async updateEncryptedValue(id: string, valueEncrypted: string): Promise<void> {
+    await db.update(secrets).set({ value_encrypted: valueEncrypted }).where(eq(secrets.id, id));
+  }
+
+  async delete(name: string): Promise<boolean> {
+    const result = await db.delete(secrets).where(eq(secrets.name, name)).returning();
+    return result.length > 0;
+  }
+
+  async getEncryptedColumnValues(): Promise<EncryptedValue[]> {
+    const values: EncryptedValue[] = [];
+    for (const { table, column } of ENCRYPTED_COLUMNS) {
+      const rows = await db.select({ id: table.id, value: table[column] }).from(table)
+        .where(isNotNull(table[column]));
+      for (const row of rows) {
+        if (row.value) {
+          values.push({ table: getTableName(table), column, id: row.id, value: row.value });
+        }
+      }
+    }
+    return values;
+  }
+
+  async updateEncryptedColumnValue(tableName: string, column: string, id: string, value: string): Promise<void> {
+    const entry = ENCRYPTED_COLUMNS.find(({ table, column: name }) => getTableName(table) === tableName && name === column);
+    if (!entry) {
+      throw new Error(`${tableName}.${column} is not an encrypted column`);
+    }
+    await db.update(entry.table).set({ [column]: value }).where(eq(entry.table.id, id));
+  }
+}
+
+export const secretsRepository = new SecretsRepository();
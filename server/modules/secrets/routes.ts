@@ -0,0 +1,95 @@
+import { Router } from "express";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { secretsService } from "./service";
+import { checkStrictAdmin } from "../../middleware/permissions";
+import { getRequestUserId } from "../../middleware/auth";
+
+export const router = Router();
+
+const setSecretSchema = z.object({
+  value: z.string().trim().min(1, "Значение обязательно"),
+});
+
+// GET /api/secrets - Секреты интеграций: источник (хранилище или .env) и маскированное значение
+router.get("/api/secrets", checkStrictAdmin(), async (req, res) => {
+  try {
+    const secrets = await secretsService.list();
+    res.json({ configured: secretsService.isConfigured(), secrets });
+  } catch (error) {
+    console.error("Error fetching secrets:", error);
+    res.status(500).json({ error: "Failed to fetch secrets" });
+  }
+});
+
+// PUT /api/secrets/:name - Сохранить значение в хранилище (само значение в ответ не возвращается)
+router.put("/api/secrets/:name", checkStrictAdmin(), async (req, res) => {
+  try {
+    const { name } = req.params;
+
+    if (!secretsService.isKnown(name)) {
+      res.status(404).json({ error: "Unknown secret" });
+      return;
+    }
+
+    if (!secretsService.isConfigured()) {
+      res.status(503).json({ error: "SECRETS_MASTER_KEY not configured" });
+      return;
+    }
+
+    const validationResult = setSecretSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      const errorMessage = fromZodError(validationResult.error).toString();
+      res.status(400).json({ error: errorMessage });
+      return;
+    }
+
+    await secretsService.set(name, validationResult.data.value, getRequestUserId(req) || null);
+    const secret = (await secretsService.list()).find(info => info.name === name);
+    res.json(secret);
+  } catch (error) {
+    console.error("Error saving secret:", error);
+    res.status(500).json({ error: "Failed to save secret" });
+  }
+});
+
+// DELETE /api/secrets/:name - Удалить из хранилища (снова будет использоваться .env, если задан)
+router.delete("/api/secrets/:name", checkStrictAdmin(), async (req, res) => {
+  try {
+    const { name } = req.params;
+
+    if (!secretsService.isKnown(name)) {
+      res.status(404).json({ error: "Unknown secret" });
+      return;
+    }
+
+    const deleted = await secretsService.remove(name);
+
+    if (!deleted) {
+      res.status(404).json({ error: "Secret is not stored in the vault" });
+      return;
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    console.error("Error deleting secret:", error);
+    res.status(500).json({ error: "Failed to delete secret" });
+  }
+});
+
+// POST /api/secrets/rotate - Перешифровать всё текущим мастер-ключом
+router.post("/api/secrets/rotate", checkStrictAdmin(), async (req, res) => {
+  try {
+    if (!secretsService.isConfigured()) {
+      res.status(503).json({ error: "SECRETS_MASTER_KEY not configured" });
+      return;
+    }
+
+    const result = await secretsService.rotate();
+    res.json(result);
+  } catch (error) {
+    console.error("Error rotating secrets:", error);
+    res.status(500).json({ error: "Failed to rotate secrets" });
+  }
+});
@@ -0,0 +1,182 @@
+import { secretsRepository } from "./repository";
+import { secretsCipher } from "./crypto";
+
+export type SecretGroup = "telephony" | "crm";
+
+export interface SecretDefinition {
+  name: string;
+  label: string;
+  group: SecretGroup;
+}
+
+// Secrets the application reads; until a value is saved in the vault the .env variable of the same name is used
+export const KNOWN_SECRETS: SecretDefinition[] = [
+  { name: "ELEVENLABS_API_KEY", label: "ElevenLabs API key", group: "telephony" },
+  { name: "ELEVENLABS_WEBHOOK_SECRET", label: "Секрет подписи вебхуков ElevenLabs", group: "telephony" },
+  { name: "LIVEKIT_API_KEY", label: "LiveKit API key", group: "telephony" },
+  { name: "LIVEKIT_API_SECRET", label: "LiveKit API secret", group: "telephony" },
+  { name: "AMOCRM_ACCESS_TOKEN", label: "AmoCRM access token", group: "crm" },
+  { name: "AMOCRM_REFRESH_TOKEN", label: "AmoCRM refresh token", group: "crm" },
+  { name: "BITRIX24_WEBHOOK_TOKEN", label: "Bitrix24 webhook token", group: "crm" },
+  { name: "HUBSPOT_ACCESS_TOKEN", label: "HubSpot access token", group: "crm" },
+  { name: "MEGAPLAN_ACCESS_TOKEN", label: "Мегаплан access token", group: "crm" },
+  { name: "RETAILCRM_API_KEY", label: "RetailCRM API key", group: "crm" },
+  { name: "YCLIENTS_TOKEN", label: "YClients token", group: "crm" },
+  { name: "SABY_PASSWORD", label: "Saby (СБИС) пароль", group: "crm" },
+];
+
+export interface SecretInfo extends SecretDefinition {
+  source: "vault" | "env" | null;
+  masked: string | null;
+  key_id: string | null;
+  needs_rotation: boolean;
+  updated_at: Date | null;
+  updated_by: string | null;
+}
+
+export interface RotationResult {
+  secrets: number;
+  columns: number;
+}
+
+type SecretChangeListener = (name: string) => void;
+
+/**
+ * Shows only the last characters of long values, short values are hidden completely
+ */
+export function maskSecret(value: string | null | undefined): string | null {
+  if (!value) return null;
+  return value.length >= 12 ? `••••${value.slice(-4)}` : "••••";
+}
+
+export class SecretsService {
+  // Decrypted values of the vault: consumers read secrets synchronously
+  private cache = new Map<string, string>();
+  private listeners = new Set<SecretChangeListener>();
+
+  isKnown(name: string): boolean {
+    return KNOWN_SECRETS.some(secret => secret.name === name);
+  }
+
+  isConfigured(): boolean {
+    return secretsCipher.isConfigured();
+  }
+
+  /**
+   * Loads and decrypts the vault at startup. Without a master key or table only .env is used.
+   */
+  async load(): Promise<void> {
+    if (!secretsCipher.isConfigured()) {
+      console.warn("⚠️  SECRETS_MASTER_KEY not configured, integration secrets are read from .env");
+      return;
+    }
+
+    try {
+      const rows = await secretsRepository.getAll();
+      this.cache.clear();
+      for (const row of rows) {
+        try {
+          this.cache.set(row.name, secretsCipher.decrypt(row.value_encrypted));
+        } catch (error) {
+          console.error(`Failed to decrypt secret ${row.name}:`, error);
+        }
+      }
+      console.log(`🔐 Secrets vault loaded: ${this.cache.size} secret(s)`);
+      for (const name of Array.from(this.cache.keys())) {
+        this.notify(name);
+      }
+    } catch (error) {
+      console.error("Failed to load secrets vault, falling back to .env:", error);
+    }
+  }
+
+  get(name: string): string | undefined {
+    return this.cache.get(name) || process.env[name] || undefined;
+  }
+
+  /**
+   * Services that build clients from secrets (LiveKit, CRM adapter) subscribe to rebuild them
+   */
+  onChange(listener: SecretChangeListener): void {
+    this.listeners.add(listener);
+  }
+
+  async list(): Promise<SecretInfo[]> {
+    const rows = secretsCipher.isConfigured() ? await secretsRepository.getAll() : [];
+
+    return KNOWN_SECRETS.map(definition => {
+      const row = rows.find((secret: { name: string }) => secret.name === definition.name);
+      const envValue = process.env[definition.name];
+      return {
+        ...definition,
+        source: row ? "vault" : envValue ? "env" : null,
+        masked: maskSecret(row ? this.cache.get(definition.name) : envValue),
+        key_id: row ? secretsCipher.keyIdOf(row.value_encrypted) : null,
+        needs_rotation: row ? secretsCipher.needsRotation(row.value_encrypted) : false,
+        updated_at: row?.updated_at || null,
+        updated_by: row?.updated_by || null,
+      };
+    });
+  }
+
+  async set(name: string, value: string, updatedBy: string | null): Promise<void> {
+    await secretsRepository.upsert(name, secretsCipher.encrypt(value), updatedBy);
+    this.cache.set(name, value);
+    this.notify(name);
+  }
+
+  async remove(name: string): Promise<boolean> {
+    const deleted = await secretsRepository.delete(name);
+    this.cache.delete(name);
+    this.notify(name);
+    return deleted;
+  }
+
+  /**
+   * Encrypts a value for an encrypted column (e.g. sip_trunks.password).
+   * Without a master key the value is stored as is and gets encrypted by the next rotation.
+   */
+  encryptField(value: string): string {
+    return secretsCipher.isConfigured() ? secretsCipher.encrypt(value) : value;
+  }
+
+  decryptField(value: string): string {
+    return secretsCipher.decrypt(value);
+  }
+
+  /**
+   * Re-encrypts the vault and encrypted columns with the current master key:
+   * run after moving the old key to SECRETS_MASTER_KEY_PREVIOUS. Plain text columns get encrypted too.
+   */
+  async rotate(): Promise<RotationResult> {
+    const result: RotationResult = { secrets: 0, columns: 0 };
+
+    for (const row of await secretsRepository.getAll()) {
+      if (!secretsCipher.needsRotation(row.value_encrypted)) continue;
+      const value = secretsCipher.decrypt(row.value_encrypted);
+      await secretsRepository.updateEncryptedValue(row.id, secretsCipher.encrypt(value));
+      result.secrets++;
+    }
+
+    for (const field of await secretsRepository.getEncryptedColumnValues()) {
+      if (!secretsCipher.needsRotation(field.value)) continue;
+      const value = secretsCipher.decrypt(field.value);
+      await secretsRepository.updateEncryptedColumnValue(field.table, field.column, field.id, secretsCipher.encrypt(value));
+      result.columns++;
+    }
+
+    return result;
+  }
+
+  private notify(name: string): void {
+    for (const listener of Array.from(this.listeners)) {
+      try {
+        listener(name);
+      } catch (error) {
+        console.error(`Secret change listener failed for ${name}:`, error);
+      }
+    }
+  }
+}
+
+export const secretsService = new SecretsService();
@@ -0,0 +1,93 @@
+import { db } from "../../db";
+import { eq, and, isNull, or, gt, desc } from "drizzle-orm";
+import { users, api_keys } from "@shared/schema";
+import type { User, ApiKey, InsertApiKey } from "@shared/schema";
+
+export type PublicApiKey = Omit<ApiKey, "key_hash">;
+
+export class ServiceAccountsRepository {
+  async getServiceAccounts(): Promise<User[]> {
+    const result = await db.select().from(users)
+      .where(eq(users.is_service_account, true))
+      .orderBy(users.full_name);
+    return result.map(({ password, ...account }: typeof users.$inferSelect) => account);
+  }
+
+  async getServiceAccount(id: string): Promise<User | undefined> {
+    const [account] = await db.select().from(users)
+      .where(and(eq(users.id, id), eq(users.is_service_account, true)));
+    if (!account) return undefined;
+    const { password, ...accountWithoutPassword } = account;
+    return accountWithoutPassword;
+  }
+
+  async createServiceAccount(data: { username: string; full_name: string; password: string }): Promise<User> {
+    const [account] = await db.insert(users).values({
+      ...data,
+      is_service_account: true,
+      is_active: true,
+    }).returning();
+    const { password, ...accountWithoutPassword } = account;
+    return accountWithoutPassword;
+  }
+
+  async updateServiceAccount(id: string, data: { full_name?: string; is_active?: boolean }): Promise<User | undefined> {
+    const [account] = await db.update(users)
+      .set({ ...data, updated_at: new Date() })
+      .where(and(eq(users.id, id), eq(users.is_service_account, true)))
+      .returning();
+    if (!account) return undefined;
+    const { password, ...accountWithoutPassword } = account;
+    return accountWithoutPassword;
+  }
+
+  async deleteServiceAccount(id: string): Promise<boolean> {
+    const result = await db.delete(users)
+      .where(and(eq(users.id, id), eq(users.is_service_account, true)))
+      .returning();
+    return result.length > 0;
+  }
+
+  async getKeys(userId: string): Promise<PublicApiKey[]> {
+    const result = await db.select().from(api_keys)
+      .where(eq(api_keys.user_id, userId))
+      .orderBy(desc(api_keys.created_at));
+    return result.map(({ key_hash, ...key }: ApiKey) => key);
+  }
+
+  async createKey(data: InsertApiKey): Promise<PublicApiKey> {
+    const [key] = await db.insert(api_keys).values(data).returning();
+    const { key_hash, ...publicKey } = key;
+    return publicKey;
+  }
+
+  /**
+   * Returns a key that is neither revoked nor expired
+   */
+  async getActiveKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    const [key] = await db.select().from(api_keys)
+      .where(and(
+        eq(api_keys.key_hash, keyHash),
+        isNull(api_keys.revoked_at),
+        or(isNull(api_keys.expires_at), gt(api_keys.expires_at, new Date()))
+      ))
+      .limit(1);
+    return key;
+  }
+
+  async touchKey(id: string, ip: string | null): Promise<void> {
+    await db.update(api_keys)
+      .set({ last_used_at: new Date(), last_used_ip: ip })
+      .where(eq(api_keys.id, id));
+  }
+
+  async revokeKey(userId: string, keyId: string): Promise<boolean> {
+    const result = await db.update(api_keys)
+      .set({ revoked_at: new Date() })
+      .where(and(eq(api_keys.id, keyId), eq(api_keys.user_id, userId), isNull(api_keys.revoked_at)))
+      .returning();
+    return result.length > 0;
+  }
+}
+
+export const serviceAccountsRepository = new ServiceAccountsRepository();
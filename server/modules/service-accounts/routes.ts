@@ -0,0 +1,159 @@
+import { Router } from "express";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { serviceAccountsService } from "./service";
+import { checkStrictAdmin } from "../../middleware/permissions";
+import { getRequestUserId } from "../../middleware/auth";
+
+export const router = Router();
+
+const scopeSchema = z.object({
+  module: z.string().min(1),
+  can_view: z.boolean().default(false),
+  can_create: z.boolean().default(false),
+  can_edit: z.boolean().default(false),
+  can_delete: z.boolean().default(false),
+  view_all: z.boolean().default(false),
+  hide_prices: z.boolean().default(false),
+});
+
+const createAccountSchema = z.object({
+  name: z.string().trim().min(1, "Название обязательно"),
+  scopes: z.array(scopeSchema).default([]),
+});
+
+const updateAccountSchema = z.object({
+  name: z.string().trim().min(1).optional(),
+  is_active: z.boolean().optional(),
+  scopes: z.array(scopeSchema).optional(),
+});
+
+const createKeySchema = z.object({
+  name: z.string().trim().min(1, "Название ключа обязательно"),
+  expires_at: z.coerce.date().nullable().optional(),
+});
+
+// GET /api/service-accounts - Сервисные учётки интеграций с правами и ключами
+router.get("/api/service-accounts", checkStrictAdmin(), async (req, res) => {
+  try {
+    const accounts = await serviceAccountsService.getServiceAccounts();
+    res.json(accounts);
+  } catch (error) {
+    console.error("Error fetching service accounts:", error);
+    res.status(500).json({ error: "Failed to fetch service accounts" });
+  }
+});
+
+// POST /api/service-accounts - Создать сервисную учётку
+router.post("/api/service-accounts", checkStrictAdmin(), async (req, res) => {
+  try {
+    const validationResult = createAccountSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      const errorMessage = fromZodError(validationResult.error).toString();
+      res.status(400).json({ error: errorMessage });
+      return;
+    }
+
+    const account = await serviceAccountsService.createServiceAccount(
+      validationResult.data.name,
+      validationResult.data.scopes
+    );
+    res.status(201).json(account);
+  } catch (error) {
+    console.error("Error creating service account:", error);
+    res.status(500).json({ error: "Failed to create service account" });
+  }
+});
+
+// PUT /api/service-accounts/:id - Переименовать, отключить или изменить права
+router.put("/api/service-accounts/:id", checkStrictAdmin(), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const validationResult = updateAccountSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      const errorMessage = fromZodError(validationResult.error).toString();
+      res.status(400).json({ error: errorMessage });
+      return;
+    }
+
+    const account = await serviceAccountsService.updateServiceAccount(id, validationResult.data);
+
+    if (!account) {
+      res.status(404).json({ error: "Service account not found" });
+      return;
+    }
+
+    res.json(account);
+  } catch (error) {
+    console.error("Error updating service account:", error);
+    res.status(500).json({ error: "Failed to update service account" });
+  }
+});
+
+// DELETE /api/service-accounts/:id - Удалить учётку вместе с её ключами
+router.delete("/api/service-accounts/:id", checkStrictAdmin(), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const deleted = await serviceAccountsService.deleteServiceAccount(id);
+
+    if (!deleted) {
+      res.status(404).json({ error: "Service account not found" });
+      return;
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    console.error("Error deleting service account:", error);
+    res.status(500).json({ error: "Failed to delete service account" });
+  }
+});
+
+// POST /api/service-accounts/:id/keys - Выпустить ключ (значение возвращается один раз)
+router.post("/api/service-accounts/:id/keys", checkStrictAdmin(), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const validationResult = createKeySchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      const errorMessage = fromZodError(validationResult.error).toString();
+      res.status(400).json({ error: errorMessage });
+      return;
+    }
+
+    const account = await serviceAccountsService.getServiceAccount(id);
+    if (!account) {
+      res.status(404).json({ error: "Service account not found" });
+      return;
+    }
+
+    const result = await serviceAccountsService.createKey(
+      id,
+      { name: validationResult.data.name, expires_at: validationResult.data.expires_at ?? null },
+      getRequestUserId(req) || null
+    );
+    res.status(201).json(result);
+  } catch (error) {
+    console.error("Error creating API key:", error);
+    res.status(500).json({ error: "Failed to create API key" });
+  }
+});
+
+// DELETE /api/service-accounts/:id/keys/:keyId - Отозвать ключ
+router.delete("/api/service-accounts/:id/keys/:keyId", checkStrictAdmin(), async (req, res) => {
+  try {
+    const { id, keyId } = req.params;
+    const revoked = await serviceAccountsService.revokeKey(id, keyId);
+
+    if (!revoked) {
+      res.status(404).json({ error: "API key not found" });
+      return;
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    console.error("Error revoking API key:", error);
+    res.status(500).json({ error: "Failed to revoke API key" });
+  }
+});
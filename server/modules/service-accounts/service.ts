@@ -0,0 +1,187 @@
+import type { Request } from "express";
+import { createHash, randomBytes } from "crypto";
+import bcrypt from "bcryptjs";
+import { nanoid } from "nanoid";
+import type { ApiKey, User } from "@shared/schema";
+import { serviceAccountsRepository, type PublicApiKey } from "./repository";
+import { usersRepository } from "../users/repository";
+import type { SessionUser } from "../auth/service";
+
+// Ключи выглядят как emk_<random>; префикс помогает узнать ключ в логах и настройках
+const API_KEY_PREFIX = "emk_";
+const KEY_PREFIX_LENGTH = 12;
+// last_used_at is refreshed at most once per minute to avoid a DB write on every request
+const KEY_TOUCH_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Scope of a service account in one module, same flags as role_permissions
+ */
+export interface ServiceAccountScope {
+  module: string;
+  can_view: boolean;
+  can_create: boolean;
+  can_edit: boolean;
+  can_delete: boolean;
+  view_all: boolean;
+  hide_prices: boolean;
+}
+
+export interface ServiceAccountWithKeys extends User {
+  scopes: ServiceAccountScope[];
+  keys: PublicApiKey[];
+}
+
+function getClientIp(req: Request): string | null {
+  return req.ip || req.socket.remoteAddress || null;
+}
+
+export class ServiceAccountsService {
+  hashKey(key: string): string {
+    return createHash("sha256").update(key).digest("hex");
+  }
+
+  /**
+   * Reads the key from "Authorization: Bearer emk_..." or "X-API-Key: emk_..."
+   */
+  readApiKey(req: Request): string | null {
+    const header = req.get("x-api-key") || req.get("authorization")?.replace(/^Bearer\s+/i, "");
+    if (!header || !header.startsWith(API_KEY_PREFIX)) return null;
+    return header.trim();
+  }
+
+  /**
+   * Resolves the service account of the API key in the request.
+   * Returns null for unknown, revoked or expired keys and deactivated accounts.
+   */
+  async resolveApiKey(req: Request): Promise<{ key: ApiKey; user: SessionUser } | null> {
+    const rawKey = this.readApiKey(req);
+    if (!rawKey) return null;
+
+    const key = await serviceAccountsRepository.getActiveKeyByHash(this.hashKey(rawKey));
+    if (!key) return null;
+
+    const account = await serviceAccountsRepository.getServiceAccount(key.user_id);
+    if (!account || !account.is_active) return null;
+
+    const lastUsed = key.last_used_at ? new Date(key.last_used_at).getTime() : 0;
+    if (Date.now() - lastUsed > KEY_TOUCH_INTERVAL_MS) {
+      await serviceAccountsRepository.touchKey(key.id, getClientIp(req));
+    }
+
+    return {
+      key,
+      user: {
+        id: account.id,
+        username: account.username,
+        email: account.email,
+        full_name: account.full_name,
+        role_id: null,
+        role_name: null,
+        is_active: account.is_active,
+        must_change_password: false,
+        two_factor_setup_required: false,
+      },
+    };
+  }
+
+  async getServiceAccounts(): Promise<ServiceAccountWithKeys[]> {
+    const accounts = await serviceAccountsRepository.getServiceAccounts();
+    return Promise.all(accounts.map(account => this.withDetails(account)));
+  }
+
+  async getServiceAccount(id: string): Promise<ServiceAccountWithKeys | undefined> {
+    const account = await serviceAccountsRepository.getServiceAccount(id);
+    return account ? this.withDetails(account) : undefined;
+  }
+
+  /**
+   * Creates a user flagged as a service account. It has no role and no usable password:
+   * its rights are the scopes stored in user_permissions.
+   */
+  async createServiceAccount(name: string, scopes: ServiceAccountScope[]): Promise<ServiceAccountWithKeys> {
+    const account = await serviceAccountsRepository.createServiceAccount({
+      username: `svc-${nanoid(10).toLowerCase()}`,
+      full_name: name,
+      password: await bcrypt.hash(randomBytes(32).toString("hex"), 10),
+    });
+    await this.setScopes(account.id, scopes);
+    return this.withDetails(account);
+  }
+
+  async updateServiceAccount(
+    id: string,
+    data: { name?: string; is_active?: boolean; scopes?: ServiceAccountScope[] }
+  ): Promise<ServiceAccountWithKeys | undefined> {
+    const account = await serviceAccountsRepository.updateServiceAccount(id, {
+      full_name: data.name,
+      is_active: data.is_active,
+    });
+    if (!account) return undefined;
+
+    if (data.scopes) {
+      await this.setScopes(id, data.scopes);
+    }
+    return this.withDetails(account);
+  }
+
+  async deleteServiceAccount(id: string): Promise<boolean> {
+    return serviceAccountsRepository.deleteServiceAccount(id);
+  }
+
+  /**
+   * Issues a new key. The plain key is returned only here, the database keeps its hash.
+   */
+  async createKey(
+    accountId: string,
+    data: { name: string; expires_at: Date | null },
+    createdBy: string | null
+  ): Promise<{ key: string; api_key: PublicApiKey }> {
+    const key = `${API_KEY_PREFIX}${randomBytes(32).toString("base64url")}`;
+    const apiKey = await serviceAccountsRepository.createKey({
+      user_id: accountId,
+      name: data.name,
+      key_prefix: key.slice(0, KEY_PREFIX_LENGTH),
+      key_hash: this.hashKey(key),
+      expires_at: data.expires_at,
+      created_by: createdBy,
+    });
+    return { key, api_key: apiKey };
+  }
+
+  async revokeKey(accountId: string, keyId: string): Promise<boolean> {
+    return serviceAccountsRepository.revokeKey(accountId, keyId);
+  }
+
+  private async setScopes(userId: string, scopes: ServiceAccountScope[]): Promise<void> {
+    const current = await usersRepository.getUserIndividualPermissions(userId);
+    const modules = new Set(scopes.map(scope => scope.module));
+
+    for (const permission of current) {
+      if (!modules.has(permission.module)) {
+        await usersRepository.deleteUserPermission(userId, permission.module);
+      }
+    }
+    for (const { module, ...flags } of scopes) {
+      await usersRepository.upsertUserPermission(userId, module, flags);
+    }
+  }
+
+  private async withDetails(account: User): Promise<ServiceAccountWithKeys> {
+    const permissions = await usersRepository.getUserIndividualPermissions(account.id);
+    return {
+      ...account,
+      scopes: permissions.map((permission: any) => ({
+        module: permission.module,
+        can_view: permission.can_view,
+        can_create: permission.can_create,
+        can_edit: permission.can_edit,
+        can_delete: permission.can_delete,
+        view_all: permission.view_all,
+        hide_prices: permission.hide_prices,
+      })),
+      keys: await serviceAccountsRepository.getKeys(account.id),
+    };
+  }
+}
+
+export const serviceAccountsService = new ServiceAccountsService();
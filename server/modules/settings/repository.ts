@@ -26,7 +26,7 @@ export class SettingsRepository {
   }
 
   async getAllUsers(): Promise<User[]> {
-    const result = await db.select().from(users);
+    const result = await db.select().from(users).where(eq(users.is_service_account, false));
     return result.map(({ password, ...userWithoutPassword }) => userWithoutPassword);
   }
 
@@ -1,9 +1,13 @@
 import express from 'express';
 import { stageDocumentsRepository } from './repository';
 import type { InsertStageDocument } from '@shared/schema';
+import { checkStagePermissionMiddleware } from '../../middleware/permissions';
 
 const router = express.Router();
 
+// Этап документа для проверки прав
+const documentStageId = async (req: express.Request) => (await stageDocumentsRepository.getStageDocumentById(req.params.id))?.stage_id;
+
 /**
  * GET /api/stages/:stageId/documents
  * Получить все документы этапа
@@ -74,7 +78,7 @@ router.get('/api/stage-documents/:id', async (req, res) => {
  * POST /api/stages/:stageId/documents
  * Создать новый документ этапа
  */
-router.post('/api/stages/:stageId/documents', async (req, res) => {
+router.post('/api/stages/:stageId/documents', checkStagePermissionMiddleware('write'), async (req, res) => {
   try {
     const { stageId } = req.params;
     const data: InsertStageDocument = {
@@ -94,10 +98,11 @@ router.post('/api/stages/:stageId/documents', async (req, res) => {
  * PUT /api/stage-documents/:id
  * Обновить документ
  */
-router.put('/api/stage-documents/:id', async (req, res) => {
+router.put('/api/stage-documents/:id', checkStagePermissionMiddleware('write', documentStageId), async (req, res) => {
   try {
     const { id } = req.params;
-    const data: Partial<InsertStageDocument> = req.body;
+    // Документ не переносится в другой этап: права проверены по текущему
+    const { stage_id, ...data }: Partial<InsertStageDocument> = req.body;
 
     const updated = await stageDocumentsRepository.updateStageDocument(id, data);
 
@@ -117,7 +122,7 @@ router.put('/api/stage-documents/:id', async (req, res) => {
  * DELETE /api/stage-documents/:id
  * Удалить документ
  */
-router.delete('/api/stage-documents/:id', async (req, res) => {
+router.delete('/api/stage-documents/:id', checkStagePermissionMiddleware('delete', documentStageId), async (req, res) => {
   try {
     const { id } = req.params;
     const success = await stageDocumentsRepository.deleteStageDocument(id);
@@ -138,7 +143,7 @@ router.delete('/api/stage-documents/:id', async (req, res) => {
  * DELETE /api/stages/:stageId/documents
  * Удалить все документы этапа
  */
-router.delete('/api/stages/:stageId/documents', async (req, res) => {
+router.delete('/api/stages/:stageId/documents', checkStagePermissionMiddleware('delete'), async (req, res) => {
   try {
     const { stageId } = req.params;
     const count = await stageDocumentsRepository.deleteAllStageDocuments(stageId);
@@ -31,6 +31,15 @@ export const stageMediaCommentsRepository = {
       .orderBy(desc(stage_media_comments.created_at));
   },
 
+  // Get a comment by ID
+  async getCommentById(id: string): Promise<StageMediaComment | undefined> {
+    const [comment] = await db
+      .select()
+      .from(stage_media_comments)
+      .where(eq(stage_media_comments.id, id));
+    return comment;
+  },
+
   // Create a new comment
   async createComment(data: InsertStageMediaComment): Promise<StageMediaComment> {
     const result = await db.insert(stage_media_comments).values(data).returning();
@@ -1,10 +1,14 @@
-import { Router } from "express";
+import { Router, type Request } from "express";
 import { stageMediaCommentsRepository } from "./repository";
 import { insertStageMediaCommentSchema } from "@shared/schema";
 import { fromZodError } from "zod-validation-error";
+import { checkStagePermissionMiddleware } from "../../middleware/permissions";
 
 const router = Router();
 
+// Этап комментария для проверки прав
+const commentStageId = async (req: Request) => (await stageMediaCommentsRepository.getCommentById(req.params.id))?.stage_id;
+
 // GET /api/stages/:stageId/media/:mediaId/comments - Get all comments for specific media
 router.get('/api/stages/:stageId/media/:mediaId/comments', async (req, res) => {
   try {
@@ -30,7 +34,7 @@ router.get('/api/stages/:stageId/comments', async (req, res) => {
 });
 
 // POST /api/stages/:stageId/media/:mediaId/comment - Create new comment
-router.post('/api/stages/:stageId/media/:mediaId/comment', async (req, res) => {
+router.post('/api/stages/:stageId/media/:mediaId/comment', checkStagePermissionMiddleware('write'), async (req, res) => {
   try {
     const { stageId, mediaId } = req.params;
 
@@ -55,7 +59,7 @@ router.post('/api/stages/:stageId/media/:mediaId/comment', async (req, res) => {
 });
 
 // PUT /api/stage-media-comments/:id - Update comment
-router.put('/api/stage-media-comments/:id', async (req, res) => {
+router.put('/api/stage-media-comments/:id', checkStagePermissionMiddleware('write', commentStageId), async (req, res) => {
   try {
     const { id } = req.params;
     const { comment } = req.body;
@@ -80,7 +84,7 @@ router.put('/api/stage-media-comments/:id', async (req, res) => {
 });
 
 // DELETE /api/stage-media-comments/:id - Delete comment
-router.delete('/api/stage-media-comments/:id', async (req, res) => {
+router.delete('/api/stage-media-comments/:id', checkStagePermissionMiddleware('delete', commentStageId), async (req, res) => {
   try {
     const { id } = req.params;
     const deleted = await stageMediaCommentsRepository.deleteComment(id);
@@ -0,0 +1,122 @@
+import { db, withTransaction } from "../../db";
+import { eq, and, or, isNull, inArray, asc } from "drizzle-orm";
+import { stage_permissions, user_roles, project_stages, stage_types, projects } from "@shared/schema";
+import type { StagePermission, InsertStagePermission, UserRole, InsertUserRole } from "@shared/schema";
+
+export interface StageWithType {
+  id: string;
+  project_id: string;
+  name: string;
+  assignee_id: string | null;
+  stage_type_code: string | null;
+}
+
+const stageWithTypeColumns = {
+  id: project_stages.id,
+  project_id: project_stages.project_id,
+  name: project_stages.name,
+  assignee_id: project_stages.assignee_id,
+  stage_type_code: stage_types.code,
+};
+
+export class StagePermissionsRepository {
+  async getStagePermissions(): Promise<StagePermission[]> {
+    return await db.select().from(stage_permissions)
+      .orderBy(asc(stage_permissions.role), asc(stage_permissions.stage_type_code));
+  }
+
+  async getStagePermissionsForRoles(roles: string[]): Promise<StagePermission[]> {
+    if (roles.length === 0) return [];
+    return await db.select().from(stage_permissions).where(inArray(stage_permissions.role, roles));
+  }
+
+  /**
+   * Upsert by (role, stage_type_code): the table has one row per pair
+   */
+  async upsertStagePermissions(permissions: InsertStagePermission[]): Promise<void> {
+    for (const permission of permissions) {
+      const [existing] = await db.select({ id: stage_permissions.id }).from(stage_permissions)
+        .where(and(
+          eq(stage_permissions.role, permission.role),
+          eq(stage_permissions.stage_type_code, permission.stage_type_code)
+        ));
+
+      if (existing) {
+        await db.update(stage_permissions)
+          .set({ ...permission, updated_at: new Date() })
+          .where(eq(stage_permissions.id, existing.id));
+      } else {
+        await db.insert(stage_permissions).values(permission);
+      }
+    }
+  }
+
+  async replaceStagePermissions(permissions: InsertStagePermission[]): Promise<void> {
+    await withTransaction(async (tx: any) => {
+      await tx.delete(stage_permissions);
+      if (permissions.length > 0) {
+        await tx.insert(stage_permissions).values(permissions);
+      }
+    });
+  }
+
+  async getUserRoles(projectId?: string): Promise<UserRole[]> {
+    return await db.select().from(user_roles)
+      .where(projectId ? eq(user_roles.project_id, projectId) : undefined)
+      .orderBy(asc(user_roles.created_at));
+  }
+
+  async findUserRole(userId: string, role: string, projectId: string | null): Promise<UserRole | undefined> {
+    const [userRole] = await db.select().from(user_roles)
+      .where(and(
+        eq(user_roles.user_id, userId),
+        eq(user_roles.role, role),
+        projectId ? eq(user_roles.project_id, projectId) : isNull(user_roles.project_id)
+      ));
+    return userRole;
+  }
+
+  async createUserRole(data: InsertUserRole): Promise<UserRole> {
+    const [userRole] = await db.insert(user_roles).values(data).returning();
+    return userRole;
+  }
+
+  async deleteUserRole(id: string): Promise<boolean> {
+    const result = await db.delete(user_roles).where(eq(user_roles.id, id)).returning();
+    return result.length > 0;
+  }
+
+  /**
+   * Roles of a user in a project plus the user's global roles (project_id = null)
+   */
+  async getUserStageRoles(userId: string, projectId: string): Promise<string[]> {
+    const rows = await db.select({ role: user_roles.role }).from(user_roles)
+      .where(and(
+        eq(user_roles.user_id, userId),
+        or(eq(user_roles.project_id, projectId), isNull(user_roles.project_id))
+      ));
+    return Array.from(new Set(rows.map((row: { role: string }) => row.role)));
+  }
+
+  async getStageWithType(stageId: string): Promise<StageWithType | undefined> {
+    const [stage] = await db.select(stageWithTypeColumns).from(project_stages)
+      .leftJoin(stage_types, eq(project_stages.stage_type_id, stage_types.id))
+      .where(eq(project_stages.id, stageId));
+    return stage;
+  }
+
+  async getProjectStagesWithType(projectId: string): Promise<StageWithType[]> {
+    return await db.select(stageWithTypeColumns).from(project_stages)
+      .leftJoin(stage_types, eq(project_stages.stage_type_id, stage_types.id))
+      .where(eq(project_stages.project_id, projectId))
+      .orderBy(asc(project_stages.order));
+  }
+
+  async getProjectManagerId(projectId: string): Promise<string | null | undefined> {
+    const [project] = await db.select({ manager_id: projects.manager_id }).from(projects)
+      .where(eq(projects.id, projectId));
+    return project ? project.manager_id : undefined;
+  }
+}
+
+export const stagePermissionsRepository = new StagePermissionsRepository();
@@ -0,0 +1,172 @@
+import { Router } from "express";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { PROJECT_ROLES } from "@shared/stagePermissions";
+import { stagePermissionsRepository } from "./repository";
+import { stagePermissionsService } from "./service";
+import { checkAdminOnly } from "../../middleware/permissions";
+import { getRequestUserId } from "../../middleware/auth";
+import { permissionsService } from "../permissions/service";
+
+export const router = Router();
+
+const stagePermissionSchema = z.object({
+  role: z.string().min(1),
+  stage_type_code: z.string().min(1),
+  can_read: z.boolean().default(false),
+  can_write: z.boolean().default(false),
+  can_delete: z.boolean().default(false),
+  can_start: z.boolean().default(false),
+  can_complete: z.boolean().default(false),
+});
+
+const bulkStagePermissionsSchema = z.object({
+  permissions: z.array(stagePermissionSchema),
+});
+
+const createUserRoleSchema = z.object({
+  user_id: z.string().min(1),
+  role: z.string().refine(role => PROJECT_ROLES.includes(role), "Неизвестная роль проекта"),
+  project_id: z.string().min(1).nullable().optional(),
+});
+
+// ===== Stage Permissions Matrix =====
+
+// GET /api/stage-permissions - Матрица прав ролей проекта по типам этапов
+router.get("/api/stage-permissions", async (req, res) => {
+  try {
+    const permissions = await stagePermissionsRepository.getStagePermissions();
+    res.json(permissions);
+  } catch (error) {
+    console.error("Error fetching stage permissions:", error);
+    res.status(500).json({ error: "Failed to fetch stage permissions" });
+  }
+});
+
+// PUT /api/stage-permissions/bulk - Сохранить изменённые ячейки матрицы
+router.put("/api/stage-permissions/bulk", checkAdminOnly(), async (req, res) => {
+  try {
+    const validationResult = bulkStagePermissionsSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      const errorMessage = fromZodError(validationResult.error).toString();
+      res.status(400).json({ error: errorMessage });
+      return;
+    }
+
+    await stagePermissionsRepository.upsertStagePermissions(validationResult.data.permissions);
+    const permissions = await stagePermissionsRepository.getStagePermissions();
+    res.json(permissions);
+  } catch (error) {
+    console.error("Error saving stage permissions:", error);
+    res.status(500).json({ error: "Failed to save stage permissions" });
+  }
+});
+
+// POST /api/stage-permissions/reset-defaults - Вернуть матрицу по умолчанию
+router.post("/api/stage-permissions/reset-defaults", checkAdminOnly(), async (req, res) => {
+  try {
+    await stagePermissionsService.resetToDefaults();
+    const permissions = await stagePermissionsRepository.getStagePermissions();
+    res.json(permissions);
+  } catch (error) {
+    console.error("Error resetting stage permissions:", error);
+    res.status(500).json({ error: "Failed to reset stage permissions" });
+  }
+});
+
+// ===== Project Roles =====
+
+// GET /api/user-roles?projectId= - Роли пользователей (все или только одного проекта)
+router.get("/api/user-roles", async (req, res) => {
+  try {
+    const projectId = typeof req.query.projectId === "string" ? req.query.projectId : undefined;
+    const userRoles = await stagePermissionsRepository.getUserRoles(projectId);
+    res.json(userRoles);
+  } catch (error) {
+    console.error("Error fetching user roles:", error);
+    res.status(500).json({ error: "Failed to fetch user roles" });
+  }
+});
+
+// POST /api/user-roles - Назначить роль в проекте (без project_id - глобальная роль)
+router.post("/api/user-roles", checkAdminOnly(), async (req, res) => {
+  try {
+    const validationResult = createUserRoleSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      const errorMessage = fromZodError(validationResult.error).toString();
+      res.status(400).json({ error: errorMessage });
+      return;
+    }
+
+    const { user_id, role } = validationResult.data;
+    const project_id = validationResult.data.project_id ?? null;
+
+    const existing = await stagePermissionsRepository.findUserRole(user_id, role, project_id);
+    if (existing) {
+      res.status(409).json({ error: "Роль уже назначена" });
+      return;
+    }
+
+    const userRole = await stagePermissionsRepository.createUserRole({ user_id, role, project_id });
+    res.status(201).json(userRole);
+  } catch (error) {
+    console.error("Error creating user role:", error);
+    res.status(500).json({ error: "Failed to create user role" });
+  }
+});
+
+// DELETE /api/user-roles/:id - Снять роль
+router.delete("/api/user-roles/:id", checkAdminOnly(), async (req, res) => {
+  try {
+    const deleted = await stagePermissionsRepository.deleteUserRole(req.params.id);
+
+    if (!deleted) {
+      res.status(404).json({ error: "User role not found" });
+      return;
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    console.error("Error deleting user role:", error);
+    res.status(500).json({ error: "Failed to delete user role" });
+  }
+});
+
+// ===== Effective Permissions =====
+
+// GET /api/projects/:projectId/stage-permissions?userId= - Итоговые права пользователя на этапы проекта
+router.get("/api/projects/:projectId/stage-permissions", async (req, res) => {
+  try {
+    const { projectId } = req.params;
+    const currentUserId = getRequestUserId(req);
+    const userId = typeof req.query.userId === "string" && req.query.userId ? req.query.userId : currentUserId;
+
+    if (!currentUserId || !userId) {
+      res.status(401).json({ error: "User not authenticated" });
+      return;
+    }
+
+    // Чужие права видит только тот, кто может редактировать проекты
+    if (userId !== currentUserId) {
+      const userPermissions = await permissionsService.getUserPermissions(currentUserId);
+      if (!userPermissions || !permissionsService.can(userPermissions, "projects", "edit")) {
+        res.status(403).json({ error: "Доступ запрещен" });
+        return;
+      }
+    }
+
+    const permissions = await stagePermissionsService.getEffectiveProjectPermissions(userId, projectId);
+
+    if (!permissions) {
+      res.status(404).json({ error: "Project or user not found" });
+      return;
+    }
+
+    res.json(permissions);
+  } catch (error) {
+    console.error("Error fetching effective stage permissions:", error);
+    res.status(500).json({ error: "Failed to fetch effective stage permissions" });
+  }
+});
@@ -0,0 +1,148 @@
+import type { InsertStagePermission } from "@shared/schema";
+import {
+  DEFAULT_PERMISSIONS,
+  type EffectiveStagePermission,
+  type StageActionFlags,
+} from "@shared/stagePermissions";
+import { stagePermissionsRepository, type StageWithType } from "./repository";
+import { permissionsService } from "../permissions/service";
+
+const NO_ACCESS: StageActionFlags = {
+  can_read: false,
+  can_write: false,
+  can_delete: false,
+  can_start: false,
+  can_complete: false,
+};
+
+const FULL_ACCESS: StageActionFlags = {
+  can_read: true,
+  can_write: true,
+  can_delete: true,
+  can_start: true,
+  can_complete: true,
+};
+
+export class StagePermissionsService {
+  /**
+   * Effective permissions of a user on one stage; undefined if the stage or user does not exist
+   */
+  async getEffectiveStagePermission(userId: string, stageId: string): Promise<EffectiveStagePermission | undefined> {
+    const stage = await stagePermissionsRepository.getStageWithType(stageId);
+    if (!stage) return undefined;
+
+    const [permission] = await this.resolve(userId, stage.project_id, [stage]) || [];
+    return permission;
+  }
+
+  /**
+   * Effective permissions of a user on every stage of a project; undefined if the project or user does not exist
+   */
+  async getEffectiveProjectPermissions(userId: string, projectId: string): Promise<EffectiveStagePermission[] | undefined> {
+    const stages = await stagePermissionsRepository.getProjectStagesWithType(projectId);
+    return this.resolve(userId, projectId, stages);
+  }
+
+  /**
+   * Rules, first match wins:
+   * 1. admin and the project manager may do everything;
+   * 2. a user with project or global roles (user_roles) gets the union of stage_permissions
+   *    of those roles for the stage type;
+   * 3. without roles the "projects" module permissions apply (view → read, edit → write/start/complete).
+   * The stage assignee can always read and write the stage assigned to them.
+   */
+  private async resolve(
+    userId: string,
+    projectId: string,
+    stages: StageWithType[]
+  ): Promise<EffectiveStagePermission[] | undefined> {
+    const managerId = await stagePermissionsRepository.getProjectManagerId(projectId);
+    if (managerId === undefined) return undefined;
+
+    const userPermissions = await permissionsService.getUserPermissions(userId);
+    if (!userPermissions) return undefined;
+
+    if (!userPermissions.isActive) {
+      return stages.map(stage => this.toEffective(stage, userId, NO_ACCESS, "module", []));
+    }
+
+    if (permissionsService.isAdmin(userPermissions)) {
+      return stages.map(stage => this.toEffective(stage, userId, FULL_ACCESS, "admin", []));
+    }
+
+    if (managerId === userId) {
+      return stages.map(stage => this.toEffective(stage, userId, FULL_ACCESS, "manager", []));
+    }
+
+    const roles = await stagePermissionsRepository.getUserStageRoles(userId, projectId);
+
+    if (roles.length === 0) {
+      const moduleFlags: StageActionFlags = {
+        can_read: permissionsService.can(userPermissions, "projects", "view"),
+        can_write: permissionsService.can(userPermissions, "projects", "edit"),
+        can_delete: permissionsService.can(userPermissions, "projects", "delete"),
+        can_start: permissionsService.can(userPermissions, "projects", "edit"),
+        can_complete: permissionsService.can(userPermissions, "projects", "edit"),
+      };
+      return stages.map(stage => this.toEffective(stage, userId, moduleFlags, "module", []));
+    }
+
+    const matrix = await stagePermissionsRepository.getStagePermissionsForRoles(roles);
+
+    return stages.map(stage => {
+      const flags: StageActionFlags = { ...NO_ACCESS };
+      const grantingRoles: string[] = [];
+
+      for (const permission of matrix) {
+        if (permission.stage_type_code !== stage.stage_type_code) continue;
+
+        let granted = false;
+        for (const key of Object.keys(NO_ACCESS) as Array<keyof StageActionFlags>) {
+          if (permission[key]) {
+            flags[key] = true;
+            granted = true;
+          }
+        }
+        if (granted) grantingRoles.push(permission.role);
+      }
+
+      return this.toEffective(stage, userId, flags, "roles", grantingRoles);
+    });
+  }
+
+  private toEffective(
+    stage: StageWithType,
+    userId: string,
+    flags: StageActionFlags,
+    source: EffectiveStagePermission["source"],
+    roles: string[]
+  ): EffectiveStagePermission {
+    const isAssignee = stage.assignee_id === userId;
+    return {
+      stage_id: stage.id,
+      stage_name: stage.name,
+      stage_type_code: stage.stage_type_code,
+      ...flags,
+      can_read: flags.can_read || isAssignee,
+      can_write: flags.can_write || isAssignee,
+      source,
+      roles,
+      is_assignee: isAssignee,
+    };
+  }
+
+  /**
+   * Replaces the whole matrix with DEFAULT_PERMISSIONS
+   */
+  async resetToDefaults(): Promise<void> {
+    const rows: InsertStagePermission[] = [];
+    for (const [role, stageTypes] of Object.entries(DEFAULT_PERMISSIONS)) {
+      for (const [stage_type_code, flags] of Object.entries(stageTypes)) {
+        rows.push({ role, stage_type_code, ...flags });
+      }
+    }
+    await stagePermissionsRepository.replaceStagePermissions(rows);
+  }
+}
+
+export const stagePermissionsService = new StagePermissionsService();
@@ -6,6 +6,9 @@ import multer from "multer";
 import { join } from "path";
 import { existsSync, mkdirSync } from "fs";
 import { unlink } from "fs/promises";
+import { getRequestUserId } from "../../middleware/auth";
+import { permissionsService } from "../permissions/service";
+import { fileAccessService } from "../file-access/service";
 
 export const router = Router();
 
@@ -36,9 +39,15 @@ const upload = multer({
 router.get("/api/tasks", async (req, res) => {
   try {
     const { status, priority, assignee_id, archived } = req.query;
+    const userId = getRequestUserId(req);
 
     let tasks = await tasksRepository.getAllTasks();
 
+    // Without view_all only tasks created by or assigned to the user are visible
+    if (userId && !(await permissionsService.canViewAll(userId, "tasks"))) {
+      tasks = tasks.filter(t => t.assignee_id === userId || t.created_by === userId);
+    }
+
     // Filter by archived status (default: show non-archived)
     const showArchived = archived === 'true';
     tasks = tasks.filter(t => (t.is_archived || false) === showArchived);
@@ -172,8 +181,8 @@ router.put("/api/tasks/:id/unarchive", async (req, res) => {
 router.post("/api/tasks/:id/submit", async (req, res) => {
   try {
     const { id } = req.params;
-    // Accept userId from body or headers (X-User-ID)
-    const userId = req.body.userId || req.headers['x-user-id'] as string;
+    // The task is submitted on behalf of the session user
+    const userId = getRequestUserId(req);
 
     if (!userId) {
       res.status(400).json({ error: "User ID is required" });
@@ -295,7 +304,7 @@ router.get("/api/tasks/:id/attachments", async (req, res) => {
 router.post("/api/tasks/:id/attachments", upload.single('file'), async (req, res) => {
   try {
     const { id } = req.params;
-    const { userId } = req.body;
+    const userId = getRequestUserId(req);
 
     if (!req.file) {
       res.status(400).json({ error: "No file uploaded" });
@@ -335,6 +344,11 @@ router.get("/api/tasks/:id/attachments/:attachmentId/download", async (req, res)
       return;
     }
 
+    if (!(await fileAccessService.canRead(getRequestUserId(req), { type: "task", id, is_financial: false }))) {
+      res.status(403).json({ error: "Access denied" });
+      return;
+    }
+
     // Send file
     res.download(attachment.file_path, attachment.file_name, (err) => {
       if (err) {
@@ -392,10 +406,16 @@ router.get("/api/tasks/:id/comments", async (req, res) => {
 router.post("/api/tasks/:id/comments", async (req, res) => {
   try {
     const { id } = req.params;
-    const { content, author_id } = req.body;
+    const { content } = req.body;
+    const author_id = getRequestUserId(req);
+
+    if (!author_id) {
+      res.status(401).json({ error: "User not authenticated" });
+      return;
+    }
 
-    if (!content || !author_id) {
-      res.status(400).json({ error: "Content and author_id are required" });
+    if (!content) {
+      res.status(400).json({ error: "Content is required" });
       return;
     }
 
@@ -716,7 +736,7 @@ router.delete("/api/tasks/:id/potential-assignees/:userId", async (req, res) =>
 router.post("/api/tasks/:id/take", async (req, res) => {
   try {
     const { id } = req.params;
-    const userId = req.body.userId || req.headers['x-user-id'] as string;
+    const userId = getRequestUserId(req);
 
     if (!userId) {
       res.status(400).json({ error: "User ID is required" });
@@ -754,7 +774,7 @@ router.post("/api/tasks/:id/take", async (req, res) => {
 // GET /api/tasks/pool/available - get pool tasks available to current user
 router.get("/api/tasks/pool/available", async (req, res) => {
   try {
-    const userId = req.query.userId as string || req.headers['x-user-id'] as string;
+    const userId = getRequestUserId(req);
 
     if (!userId) {
       res.status(400).json({ error: "User ID is required" });
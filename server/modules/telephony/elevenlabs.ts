@@ -8,6 +8,8 @@
  * - Managing voice configurations
  */
 
+import { secretsService } from "../secrets/service";
+
 interface ElevenLabsConfig {
   apiKey: string;
   baseUrl?: string;
@@ -94,16 +96,21 @@ interface Conversation {
 }
 
 export class ElevenLabsService {
-  private apiKey: string;
+  private configApiKey?: string;
   private baseUrl: string;
   private proxyUrl?: string;
 
   constructor(config?: Partial<ElevenLabsConfig>) {
-    this.apiKey = config?.apiKey || process.env.ELEVENLABS_API_KEY || '';
+    this.configApiKey = config?.apiKey;
     this.baseUrl = config?.baseUrl || process.env.ELEVENLABS_BASE_URL || 'https://api.elevenlabs.io/v1';
     this.proxyUrl = config?.proxyUrl || process.env.ELEVENLABS_PROXY;
   }
 
+  // Read on every request: the key can be changed in the secrets vault at runtime
+  private get apiKey(): string {
+    return this.configApiKey || secretsService.get('ELEVENLABS_API_KEY') || '';
+  }
+
   private async request<T>(
     endpoint: string,
     options: RequestInit = {}
@@ -6,6 +6,7 @@
  */
 
 import { AccessToken, RoomServiceClient } from "livekit-server-sdk";
+import { secretsService } from "../secrets/service";
 
 interface LiveKitConfig {
   url: string;
@@ -20,15 +21,28 @@ interface TokenParams {
 }
 
 export class LiveKitService {
+  private config?: Partial<LiveKitConfig>;
   private url: string;
-  private apiKey: string;
-  private apiSecret: string;
-  private roomService: RoomServiceClient;
+  private apiKey = "";
+  private apiSecret = "";
+  private roomService!: RoomServiceClient;
 
   constructor(config?: Partial<LiveKitConfig>) {
+    this.config = config;
     this.url = config?.url || process.env.LIVEKIT_URL || "ws://localhost:7880";
-    this.apiKey = config?.apiKey || process.env.LIVEKIT_API_KEY || "";
-    this.apiSecret = config?.apiSecret || process.env.LIVEKIT_API_SECRET || "";
+    this.configure();
+
+    // Credentials live in the secrets vault: rebuild the client when they change
+    secretsService.onChange(name => {
+      if (name === "LIVEKIT_API_KEY" || name === "LIVEKIT_API_SECRET") {
+        this.configure();
+      }
+    });
+  }
+
+  private configure(): void {
+    this.apiKey = this.config?.apiKey || secretsService.get("LIVEKIT_API_KEY") || "";
+    this.apiSecret = this.config?.apiSecret || secretsService.get("LIVEKIT_API_SECRET") || "";
 
     if (!this.apiKey || !this.apiSecret) {
       console.warn("⚠️  LiveKit credentials not configured");
@@ -7,7 +7,8 @@ import type {
   CallCampaign, InsertCallCampaign,
   CampaignContact, InsertCampaignContact,
   CallLog, InsertCallLog,
-  CallAction, InsertCallAction
+  CallAction, InsertCallAction,
+  WebhookEvent, InsertWebhookEvent
 } from "@shared/schema";
 import {
   sip_trunks,
@@ -16,45 +17,58 @@ import {
   call_campaigns,
   campaign_contacts,
   call_logs,
-  call_actions
+  call_actions,
+  webhook_events
 } from "@shared/schema";
 import { nanoid } from "nanoid";
+import { secretsService } from "../secrets/service";
 
 // ============ SIP Trunks Repository ============
 export class SipTrunksRepository {
+  // password is stored encrypted by the secrets vault; callers always get the plain value
+  private decrypt(trunk: SipTrunk): SipTrunk {
+    return trunk.password ? { ...trunk, password: secretsService.decryptField(trunk.password) } : trunk;
+  }
+
+  private encrypt<T extends Partial<InsertSipTrunk>>(data: T): T {
+    return data.password ? { ...data, password: secretsService.encryptField(data.password) } : data;
+  }
+
   async getAll(): Promise<SipTrunk[]> {
-    return await db.select().from(sip_trunks).orderBy(desc(sip_trunks.created_at));
+    const result = await db.select().from(sip_trunks).orderBy(desc(sip_trunks.created_at));
+    return result.map((trunk: SipTrunk) => this.decrypt(trunk));
   }
 
   async getActive(): Promise<SipTrunk[]> {
-    return await db.select().from(sip_trunks)
+    const result = await db.select().from(sip_trunks)
       .where(eq(sip_trunks.is_active, true))
       .orderBy(sip_trunks.name);
+    return result.map((trunk: SipTrunk) => this.decrypt(trunk));
   }
 
   async getById(id: string): Promise<SipTrunk | undefined> {
     const result = await db.select().from(sip_trunks).where(eq(sip_trunks.id, id));
-    return result[0];
+    return result[0] && this.decrypt(result[0]);
   }
 
   async getByElevenLabsTrunkId(trunkId: string): Promise<SipTrunk | undefined> {
     const result = await db.select().from(sip_trunks)
       .where(eq(sip_trunks.elevenlabs_trunk_id, trunkId));
-    return result[0];
+    return result[0] && this.decrypt(result[0]);
   }
 
   async create(data: InsertSipTrunk): Promise<SipTrunk> {
     const id = nanoid();
-    const result = await db.insert(sip_trunks).values({ ...data, id }).returning();
-    return result[0];
+    const result = await db.insert(sip_trunks).values({ ...this.encrypt(data), id }).returning();
+    return this.decrypt(result[0]);
   }
 
   async update(id: string, data: Partial<InsertSipTrunk>): Promise<SipTrunk | undefined> {
     const result = await db.update(sip_trunks)
-      .set({ ...data, updated_at: new Date() })
+      .set({ ...this.encrypt(data), updated_at: new Date() })
       .where(eq(sip_trunks.id, id))
       .returning();
-    return result[0];
+    return result[0] && this.decrypt(result[0]);
   }
 
   async updateConnectionStatus(id: string, status: string): Promise<void> {
@@ -415,6 +429,48 @@ export class CallActionsRepository {
   }
 }
 
+// ============ Webhook Events Repository ============
+export class WebhookEventsRepository {
+  async getAll(filters: { status?: string; provider?: string; limit?: number } = {}): Promise<WebhookEvent[]> {
+    const conditions = [];
+    if (filters.status) conditions.push(eq(webhook_events.status, filters.status));
+    if (filters.provider) conditions.push(eq(webhook_events.provider, filters.provider));
+
+    return await db.select().from(webhook_events)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(webhook_events.received_at))
+      .limit(filters.limit || 100);
+  }
+
+  async getById(id: string): Promise<WebhookEvent | undefined> {
+    const result = await db.select().from(webhook_events).where(eq(webhook_events.id, id));
+    return result[0];
+  }
+
+  async getByEventId(eventId: string): Promise<WebhookEvent | undefined> {
+    const result = await db.select().from(webhook_events).where(eq(webhook_events.event_id, eventId));
+    return result[0];
+  }
+
+  /**
+   * Returns undefined when an event with the same event_id is already stored (retry or replay)
+   */
+  async create(data: InsertWebhookEvent): Promise<WebhookEvent | undefined> {
+    const result = await db.insert(webhook_events).values(data)
+      .onConflictDoNothing({ target: webhook_events.event_id })
+      .returning();
+    return result[0];
+  }
+
+  async update(id: string, data: Partial<InsertWebhookEvent>): Promise<WebhookEvent | undefined> {
+    const result = await db.update(webhook_events)
+      .set(data)
+      .where(eq(webhook_events.id, id))
+      .returning();
+    return result[0];
+  }
+}
+
 // Export singleton instances
 export const sipTrunksRepository = new SipTrunksRepository();
 export const callScriptsRepository = new CallScriptsRepository();
@@ -423,3 +479,4 @@ export const callCampaignsRepository = new CallCampaignsRepository();
 export const campaignContactsRepository = new CampaignContactsRepository();
 export const callLogsRepository = new CallLogsRepository();
 export const callActionsRepository = new CallActionsRepository();
+export const webhookEventsRepository = new WebhookEventsRepository();
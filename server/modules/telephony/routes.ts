@@ -7,8 +7,10 @@ import {
   campaignContactsRepository,
   callLogsRepository,
   callActionsRepository,
+  webhookEventsRepository,
 } from "./repository";
 import { elevenLabsService } from "./elevenlabs";
+import { elevenLabsWebhookService } from "./webhooks";
 import { liveKitService } from "./livekit";
 import {
   insertSipTrunkSchema,
@@ -18,6 +20,7 @@ import {
   insertCampaignContactSchema,
   insertCallLogSchema,
 } from "@shared/schema";
+import { rateLimit } from "../../middleware/rateLimit";
 
 export const router = Router();
 
@@ -70,7 +73,7 @@ router.post("/api/telephony/sip-trunks", async (req: Request, res: Response, nex
 
     // Check if ElevenLabs API is configured
     if (!elevenLabsService.isConfigured()) {
-      return res.status(400).json({ error: "ElevenLabs API key not configured. Add ELEVENLABS_API_KEY to .env" });
+      return res.status(400).json({ error: "ElevenLabs API key not configured. Add ELEVENLABS_API_KEY in Settings → Integrations or .env" });
     }
 
     // Create SIP trunk in ElevenLabs
@@ -119,7 +122,11 @@ router.put("/api/telephony/sip-trunks/:id", async (req: Request, res: Response,
       return res.status(400).json({ error: parsed.error.errors });
     }
 
-    const trunk = await sipTrunksRepository.update(id, parsed.data);
+    // The masked value from GET means "keep the current password"
+    const { password, ...rest } = parsed.data;
+    const data = password === '********' ? rest : parsed.data;
+
+    const trunk = await sipTrunksRepository.update(id, data);
     if (!trunk) {
       return res.status(404).json({ error: "SIP trunk not found" });
     }
@@ -193,7 +200,7 @@ router.post("/api/telephony/sip-trunks/:id/test", async (req: Request, res: Resp
 });
 
 // POST /api/telephony/calls/sip/initiate - initiate call via SIP trunk
-router.post("/api/telephony/calls/sip/initiate", async (req: Request, res: Response, next: NextFunction) => {
+router.post("/api/telephony/calls/sip/initiate", rateLimit("calls"), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const {
       agent_id,
@@ -271,7 +278,7 @@ router.post("/api/telephony/calls/sip/initiate", async (req: Request, res: Respo
 });
 
 // POST /api/telephony/calls/phone/initiate - initiate call via phone number (Twilio integration)
-router.post("/api/telephony/calls/phone/initiate", async (req: Request, res: Response, next: NextFunction) => {
+router.post("/api/telephony/calls/phone/initiate", rateLimit("calls"), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const {
       agent_id,
@@ -750,7 +757,7 @@ router.get("/api/telephony/stats", async (req: Request, res: Response, next: Nex
 // ============ Make Calls ============
 
 // POST /api/telephony/calls/initiate - initiate a single call
-router.post("/api/telephony/calls/initiate", async (req: Request, res: Response, next: NextFunction) => {
+router.post("/api/telephony/calls/initiate", rateLimit("calls"), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { agent_id, phone_number, client_name, deal_id, client_id, custom_data } = req.body;
 
@@ -909,51 +916,33 @@ router.get("/api/telephony/elevenlabs/agents", async (req: Request, res: Respons
 // ============ Webhooks ============
 
 // POST /api/telephony/webhooks/elevenlabs - handle ElevenLabs webhooks
+// Signed with ELEVENLABS_WEBHOOK_SECRET; every event is kept in webhook_events and applied once
 router.post("/api/telephony/webhooks/elevenlabs", async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { event_type, conversation_id, data } = req.body;
-
-    console.log(`ElevenLabs webhook received: ${event_type}`, { conversation_id });
-
-    switch (event_type) {
-      case 'conversation.started':
-        await callLogsRepository.updateByConversationId(conversation_id, {
-          status: 'answered',
-          answered_at: new Date(),
-        });
-        break;
-
-      case 'conversation.ended':
-        const { duration, transcript, summary, sentiment } = data || {};
-        await callLogsRepository.updateByConversationId(conversation_id, {
-          status: 'completed',
-          ended_at: new Date(),
-          duration_seconds: duration,
-          transcript: transcript,
-          summary: summary,
-          sentiment: sentiment,
-        });
-
-        // Update campaign contact status if this was a campaign call
-        const call = await callLogsRepository.getByElevenLabsConversationId(conversation_id);
-        if (call?.campaign_contact_id) {
-          await campaignContactsRepository.updateStatus(call.campaign_contact_id, 'completed', call.id);
-          if (call.campaign_id) {
-            await callCampaignsRepository.updateStats(call.campaign_id);
-          }
-        }
-        break;
-
-      case 'conversation.failed':
-        await callLogsRepository.updateByConversationId(conversation_id, {
-          status: 'failed',
-          ended_at: new Date(),
-          error_message: data?.error || 'Unknown error',
-        });
-        break;
-
-      default:
-        console.log(`Unhandled webhook event: ${event_type}`);
+    if (!elevenLabsWebhookService.isConfigured()) {
+      return res.status(503).json({ error: "ELEVENLABS_WEBHOOK_SECRET not configured" });
+    }
+
+    const rawBody: Buffer | undefined = (req as any).rawBody;
+    if (!rawBody) {
+      return res.status(400).json({ error: "Request body is required" });
+    }
+
+    const signature = elevenLabsWebhookService.verifySignature(rawBody, req.get("elevenlabs-signature"));
+    if (!signature.valid) {
+      console.warn(`Rejected ElevenLabs webhook: ${signature.reason}`);
+      return res.status(401).json({ error: signature.reason });
+    }
+
+    const { event, duplicate } = await elevenLabsWebhookService.receive(rawBody, req.body, signature.signedAt);
+    if (duplicate) {
+      return res.json({ received: true, duplicate: true });
+    }
+
+    const processed = await elevenLabsWebhookService.process(event);
+    if (processed.status === "failed") {
+      // Non-2xx makes ElevenLabs retry; the retry picks up the failed event again
+      return res.status(500).json({ error: "Failed to process webhook event", event_id: processed.id });
     }
 
     res.json({ received: true });
@@ -962,6 +951,39 @@ router.post("/api/telephony/webhooks/elevenlabs", async (req: Request, res: Resp
   }
 });
 
+// GET /api/telephony/webhook-events - webhook inbox (filter by status: received, processed, failed)
+router.get("/api/telephony/webhook-events", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { status, provider, limit } = req.query;
+    const events = await webhookEventsRepository.getAll({
+      status: status as string | undefined,
+      provider: provider as string | undefined,
+      limit: limit ? parseInt(limit as string) : undefined,
+    });
+    res.json(events);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/telephony/webhook-events/:id/reprocess - retry a failed webhook event
+router.post("/api/telephony/webhook-events/:id/reprocess", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const event = await webhookEventsRepository.getById(req.params.id);
+    if (!event) {
+      return res.status(404).json({ error: "Webhook event not found" });
+    }
+    if (event.status === "processed") {
+      return res.status(409).json({ error: "Webhook event is already processed" });
+    }
+
+    const processed = await elevenLabsWebhookService.process(event);
+    res.status(processed.status === "failed" ? 422 : 200).json(processed);
+  } catch (error) {
+    next(error);
+  }
+});
+
 // ============ LiveKit Voice Agent Routes ============
 
 // POST /api/telephony/livekit/token - Generate access token for LiveKit room
@@ -994,7 +1016,7 @@ router.post("/api/telephony/livekit/token", async (req: Request, res: Response,
 });
 
 // POST /api/telephony/livekit/test-call - Create test room and return connection details
-router.post("/api/telephony/livekit/test-call", async (req: Request, res: Response, next: NextFunction) => {
+router.post("/api/telephony/livekit/test-call", rateLimit("calls"), async (req: Request, res: Response, next: NextFunction) => {
   try {
     if (!liveKitService.isConfigured()) {
       return res.status(400).json({ error: "LiveKit not configured" });
@@ -0,0 +1,192 @@
+/**
+ * ElevenLabs Webhook Processing
+ *
+ * Verifies the ElevenLabs-Signature header, stores every event in webhook_events
+ * and applies it to call_logs / campaign stats exactly once.
+ */
+
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+import type { WebhookEvent } from "@shared/schema";
+import {
+  callLogsRepository,
+  campaignContactsRepository,
+  callCampaignsRepository,
+  webhookEventsRepository,
+} from "./repository";
+import { secretsService } from "../secrets/service";
+
+const PROVIDER = "elevenlabs";
+
+// Same tolerance as the official ElevenLabs SDK: older signatures are treated as replays
+const SIGNATURE_TOLERANCE_SECONDS = 30 * 60;
+
+interface ElevenLabsWebhookConfig {
+  secret: string;
+}
+
+export type SignatureCheck =
+  | { valid: true; signedAt: Date }
+  | { valid: false; reason: string };
+
+export interface ReceiveResult {
+  event: WebhookEvent;
+  duplicate: boolean;
+}
+
+export class ElevenLabsWebhookService {
+  private configSecret?: string;
+
+  constructor(config?: Partial<ElevenLabsWebhookConfig>) {
+    this.configSecret = config?.secret;
+  }
+
+  private get secret(): string {
+    return this.configSecret || secretsService.get("ELEVENLABS_WEBHOOK_SECRET") || "";
+  }
+
+  isConfigured(): boolean {
+    return !!this.secret;
+  }
+
+  /**
+   * Header format: "t=<unix seconds>,v0=<hex HMAC-SHA256 of `${t}.${raw body}`>"
+   */
+  verifySignature(rawBody: Buffer, header: string | undefined, now: number = Date.now()): SignatureCheck {
+    if (!header) {
+      return { valid: false, reason: "Missing ElevenLabs-Signature header" };
+    }
+
+    const parts = new Map<string, string[]>();
+    for (const part of header.split(",")) {
+      const [key, ...value] = part.trim().split("=");
+      if (!key || value.length === 0) continue;
+      parts.set(key, [...(parts.get(key) || []), value.join("=")]);
+    }
+
+    const timestamp = Number(parts.get("t")?.[0]);
+    const signatures = parts.get("v0") || [];
+    if (!Number.isFinite(timestamp) || signatures.length === 0) {
+      return { valid: false, reason: "Malformed ElevenLabs-Signature header" };
+    }
+
+    if (Math.abs(now / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+      return { valid: false, reason: "Signature timestamp is outside the tolerance window" };
+    }
+
+    const expected = createHmac("sha256", this.secret)
+      .update(`${timestamp}.`)
+      .update(rawBody)
+      .digest();
+
+    const matches = signatures.some(signature => {
+      const actual = Buffer.from(signature, "hex");
+      return actual.length === expected.length && timingSafeEqual(actual, expected);
+    });
+
+    return matches
+      ? { valid: true, signedAt: new Date(timestamp * 1000) }
+      : { valid: false, reason: "Invalid signature" };
+  }
+
+  /**
+   * Stores the event in the inbox. A retry of an already stored event is reported as duplicate,
+   * except for failed events: those are handed back for another processing attempt.
+   */
+  async receive(rawBody: Buffer, body: any, signedAt: Date): Promise<ReceiveResult> {
+    const eventId = `${PROVIDER}:${body?.event_id || createHash("sha256").update(rawBody).digest("hex")}`;
+
+    const created = await webhookEventsRepository.create({
+      provider: PROVIDER,
+      event_id: eventId,
+      event_type: body?.event_type || body?.type || null,
+      payload: rawBody.toString("utf8"),
+      signed_at: signedAt,
+      status: "received",
+    });
+    if (created) {
+      return { event: created, duplicate: false };
+    }
+
+    const existing = await webhookEventsRepository.getByEventId(eventId);
+    if (!existing) {
+      throw new Error(`Webhook event ${eventId} was neither stored nor found`);
+    }
+    return { event: existing, duplicate: existing.status !== "failed" };
+  }
+
+  /**
+   * Applies a stored event and records the outcome; used for new events and for reprocessing
+   */
+  async process(event: WebhookEvent): Promise<WebhookEvent> {
+    const attempts = event.attempts + 1;
+
+    try {
+      await this.handle(JSON.parse(event.payload));
+      const processed = await webhookEventsRepository.update(event.id, {
+        status: "processed",
+        attempts,
+        last_error: null,
+        processed_at: new Date(),
+      });
+      return processed || event;
+    } catch (error) {
+      console.error(`Error processing ElevenLabs webhook ${event.event_id}:`, error);
+      const failed = await webhookEventsRepository.update(event.id, {
+        status: "failed",
+        attempts,
+        last_error: error instanceof Error ? error.message : String(error),
+      });
+      return failed || event;
+    }
+  }
+
+  private async handle(payload: any): Promise<void> {
+    const { event_type, conversation_id, data } = payload;
+
+    console.log(`ElevenLabs webhook received: ${event_type}`, { conversation_id });
+
+    switch (event_type) {
+      case 'conversation.started':
+        await callLogsRepository.updateByConversationId(conversation_id, {
+          status: 'answered',
+          answered_at: new Date(),
+        });
+        break;
+
+      case 'conversation.ended':
+        const { duration, transcript, summary, sentiment } = data || {};
+        await callLogsRepository.updateByConversationId(conversation_id, {
+          status: 'completed',
+          ended_at: new Date(),
+          duration_seconds: duration,
+          transcript: transcript,
+          summary: summary,
+          sentiment: sentiment,
+        });
+
+        // Update campaign contact status if this was a campaign call
+        const call = await callLogsRepository.getByElevenLabsConversationId(conversation_id);
+        if (call?.campaign_contact_id) {
+          await campaignContactsRepository.updateStatus(call.campaign_contact_id, 'completed', call.id);
+          if (call.campaign_id) {
+            await callCampaignsRepository.updateStats(call.campaign_id);
+          }
+        }
+        break;
+
+      case 'conversation.failed':
+        await callLogsRepository.updateByConversationId(conversation_id, {
+          status: 'failed',
+          ended_at: new Date(),
+          error_message: data?.error || 'Unknown error',
+        });
+        break;
+
+      default:
+        console.log(`Unhandled webhook event: ${event_type}`);
+    }
+  }
+}
+
+// Export singleton instance
+export const elevenLabsWebhookService = new ElevenLabsWebhookService();
@@ -52,7 +52,8 @@ export class UsersRepository {
   }
 
   async getAllUsers(): Promise<User[]> {
-    const result = await db.select().from(users);
+    // Сервисные учётки интеграций не показываются среди сотрудников
+    const result = await db.select().from(users).where(eq(users.is_service_account, false));
     return result.map(({ password, ...userWithoutPassword }) => userWithoutPassword);
   }
 
@@ -72,6 +73,7 @@ export class UsersRepository {
     }
     if (data.password) {
       updateData.password = await bcrypt.hash(data.password, 10);
+      updateData.password_changed_at = now;
     }
     if (data.can_view_financial !== undefined) {
       updateData.can_view_financial = data.can_view_financial;
@@ -93,19 +95,26 @@ export class UsersRepository {
     return result.length > 0;
   }
 
-  async getUsersWithRoles(): Promise<Array<User & { role?: any }>> {
+  async getUsersWithRoles(): Promise<Array<User & { role?: any; two_factor_enabled?: boolean }>> {
     const allUsers = await this.getAllUsers();
-    const { roles } = await import("@shared/schema");
+    const { roles, user_two_factor } = await import("@shared/schema");
+
+    const enrolled = await db.select({ user_id: user_two_factor.user_id })
+      .from(user_two_factor)
+      .where(eq(user_two_factor.enabled, true));
+    const enrolledIds = new Set(enrolled.map((row: { user_id: string }) => row.user_id));
 
     const usersWithRoles = await Promise.all(
       allUsers.map(async (user) => {
+        const two_factor_enabled = enrolledIds.has(user.id);
         if (!user.role_id) {
-          return { ...user, role: null };
+          return { ...user, role: null, two_factor_enabled };
         }
         const roleResult = await db.select().from(roles).where(eq(roles.id, user.role_id));
         return {
           ...user,
           role: roleResult[0] || null,
+          two_factor_enabled,
         };
       })
     );
@@ -3,10 +3,20 @@ import { usersRepository } from "./repository";
 import { insertUserSchema } from "@shared/schema";
 import { fromZodError } from "zod-validation-error";
 import { permissionsService } from "../permissions/service";
-import { checkAdminOnly } from "../../middleware/permissions";
+import { checkAdminOnly, checkStrictAdmin } from "../../middleware/permissions";
+import { authService } from "../auth/service";
+import { authRepository } from "../auth/repository";
+import type { AuthenticatedRequest } from "../../middleware/auth";
+import type { UserSession } from "@shared/schema";
 
 export const router = Router();
 
+// token_hash never leaves the server; current marks the session of the admin making the request
+function toSessionInfo(session: UserSession, currentSessionId?: string) {
+  const { token_hash, ...info } = session;
+  return { ...info, current: session.id === currentSessionId };
+}
+
 // GET /api/users - Get all users
 router.get("/api/users", checkAdminOnly(), async (req, res) => {
   try {
@@ -41,6 +51,12 @@ router.post("/api/users", checkAdminOnly(), async (req, res) => {
       return;
     }
 
+    const createPolicyError = authService.validatePassword(validationResult.data.password, await authService.getPasswordPolicy());
+    if (createPolicyError) {
+      res.status(400).json({ error: createPolicyError });
+      return;
+    }
+
     const newUser = await usersRepository.createUser(validationResult.data);
     res.status(201).json(newUser);
   } catch (error: any) {
@@ -127,13 +143,28 @@ router.put("/api/users/:id", checkAdminOnly(), async (req, res) => {
       res.status(400).json({ error: "Password cannot be empty" });
       return;
     }
+
+    if (validationResult.data.password) {
+      const policyError = authService.validatePassword(validationResult.data.password, await authService.getPasswordPolicy());
+      if (policyError) {
+        res.status(400).json({ error: policyError });
+        return;
+      }
+    }
     
+    const existingUser = await usersRepository.getUser(id);
     const updatedUser = await usersRepository.updateUser(id, validationResult.data);
     
-    if (!updatedUser) {
+    if (!existingUser || !updatedUser) {
       res.status(404).json({ error: "User not found" });
       return;
     }
+
+    // Деактивация, смена роли или пароля завершают все сессии пользователя
+    const { is_active, role_id, password } = validationResult.data;
+    if (is_active === false || (role_id !== undefined && role_id !== existingUser.role_id) || password) {
+      await authRepository.revokeUserSessions(id);
+    }
     
     res.json(updatedUser);
   } catch (error) {
@@ -160,6 +191,65 @@ router.delete("/api/users/:id", checkAdminOnly(), async (req, res) => {
   }
 });
 
+// POST /api/users/:id/reset-password - Admin password reset: temporary password, forced change on next login
+router.post("/api/users/:id/reset-password", checkStrictAdmin(), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { password } = req.body ?? {};
+
+    if (password !== undefined && (typeof password !== "string" || password.trim() === "")) {
+      res.status(400).json({ error: "Password cannot be empty" });
+      return;
+    }
+
+    const policy = await authService.getPasswordPolicy();
+    if (password) {
+      const policyError = authService.validatePassword(password, policy);
+      if (policyError) {
+        res.status(400).json({ error: policyError });
+        return;
+      }
+    }
+
+    const temporaryPassword: string = password || authService.generateTemporaryPassword(policy);
+    const updatedUser = await authService.setPassword(id, temporaryPassword, true);
+
+    if (!updatedUser) {
+      res.status(404).json({ error: "User not found" });
+      return;
+    }
+
+    // Сброс также снимает блокировку входа и завершает все сессии пользователя
+    await authRepository.revokeUserSessions(id);
+
+    res.json({ temporary_password: temporaryPassword });
+  } catch (error) {
+    console.error("Error resetting user password:", error);
+    res.status(500).json({ error: "Failed to reset password" });
+  }
+});
+
+// POST /api/users/:id/reset-2fa - Disable 2FA of a user who lost the device; the user enrols again
+router.post("/api/users/:id/reset-2fa", checkStrictAdmin(), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const user = await usersRepository.getUser(id);
+
+    if (!user) {
+      res.status(404).json({ error: "User not found" });
+      return;
+    }
+
+    await authRepository.deleteTwoFactor(id);
+    await authRepository.revokeUserSessions(id);
+
+    res.json({ message: "2FA reset" });
+  } catch (error) {
+    console.error("Error resetting user 2FA:", error);
+    res.status(500).json({ error: "Failed to reset 2FA" });
+  }
+});
+
 // PUT /api/users/:id/role - Assign role to user
 router.put("/api/users/:id/role", checkAdminOnly(), async (req, res) => {
   try {
@@ -171,13 +261,20 @@ router.put("/api/users/:id/role", checkAdminOnly(), async (req, res) => {
       return;
     }
 
-    const updatedUser = await usersRepository.assignRole(id, roleId);
+    const existingUser = await usersRepository.getUser(id);
 
-    if (!updatedUser) {
+    if (!existingUser) {
       res.status(404).json({ error: "User not found" });
       return;
     }
 
+    const updatedUser = await usersRepository.assignRole(id, roleId);
+
+    // Права меняются вместе с ролью: пользователь входит заново
+    if (existingUser.role_id !== roleId) {
+      await authRepository.revokeUserSessions(id);
+    }
+
     res.json(updatedUser);
   } catch (error) {
     console.error("Error assigning role to user:", error);
@@ -203,6 +300,10 @@ router.put("/api/users/:id/status", checkAdminOnly(), async (req, res) => {
       return;
     }
 
+    if (!isActive) {
+      await authRepository.revokeUserSessions(id);
+    }
+
     res.json(updatedUser);
   } catch (error) {
     console.error("Error updating user status:", error);
@@ -210,6 +311,63 @@ router.put("/api/users/:id/status", checkAdminOnly(), async (req, res) => {
   }
 });
 
+// GET /api/users/:id/sessions - Active sessions of the user (device, IP, last activity)
+router.get("/api/users/:id/sessions", checkStrictAdmin(), async (req: AuthenticatedRequest, res) => {
+  try {
+    const { id } = req.params;
+    const user = await usersRepository.getUser(id);
+
+    if (!user) {
+      res.status(404).json({ error: "User not found" });
+      return;
+    }
+
+    const sessions = await authRepository.getActiveUserSessions(id);
+    res.json(sessions.map(session => toSessionInfo(session, req.sessionId)));
+  } catch (error) {
+    console.error("Error fetching user sessions:", error);
+    res.status(500).json({ error: "Failed to fetch user sessions" });
+  }
+});
+
+// DELETE /api/users/:id/sessions/:sessionId - Revoke one session
+router.delete("/api/users/:id/sessions/:sessionId", checkStrictAdmin(), async (req, res) => {
+  try {
+    const { id, sessionId } = req.params;
+    const session = await authRepository.getUserSession(id, sessionId);
+
+    if (!session || session.revoked_at) {
+      res.status(404).json({ error: "Session not found" });
+      return;
+    }
+
+    await authRepository.revokeSession(sessionId);
+    res.status(204).send();
+  } catch (error) {
+    console.error("Error revoking user session:", error);
+    res.status(500).json({ error: "Failed to revoke session" });
+  }
+});
+
+// DELETE /api/users/:id/sessions - Revoke all sessions of the user (forced logout)
+router.delete("/api/users/:id/sessions", checkStrictAdmin(), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const user = await usersRepository.getUser(id);
+
+    if (!user) {
+      res.status(404).json({ error: "User not found" });
+      return;
+    }
+
+    const revoked = await authRepository.revokeUserSessions(id);
+    res.json({ revoked });
+  } catch (error) {
+    console.error("Error revoking user sessions:", error);
+    res.status(500).json({ error: "Failed to revoke sessions" });
+  }
+});
+
 // GET /api/users/:userId/permissions - Get all permissions (role + individual)
 router.get("/api/users/:userId/permissions", checkAdminOnly(), async (req, res) => {
   try {
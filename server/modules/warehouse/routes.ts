@@ -7,6 +7,7 @@ import { categoriesRepository } from "./categories-repository";
 import { insertWarehouseItemSchema, insertWarehouseTransactionSchema, insertWarehouseReservationSchema, insertShipmentSchema, insertWarehouseCategorySchema } from "@shared/schema";
 import { fromZodError } from "zod-validation-error";
 import { checkPermission, checkAdminOnly } from "../../middleware/permissions";
+import { getRequestUserId } from "../../middleware/auth";
 
 export const router = Router();
 
@@ -170,8 +171,15 @@ router.delete("/api/warehouse/items/:id", async (req, res) => {
 router.post("/api/warehouse/items/:id/transactions", async (req, res) => {
   try {
     const { id } = req.params;
+    const user_id = getRequestUserId(req);
 
-    const validationResult = insertWarehouseTransactionSchema.safeParse({
+    if (!user_id) {
+      res.status(401).json({ error: "Не авторизован" });
+      return;
+    }
+
+    // Движение записывается на текущего пользователя, user_id из тела запроса не принимается
+    const validationResult = insertWarehouseTransactionSchema.omit({ user_id: true }).safeParse({
       ...req.body,
       item_id: id
     });
@@ -182,7 +190,7 @@ router.post("/api/warehouse/items/:id/transactions", async (req, res) => {
       return;
     }
 
-    const newTransaction = await warehouseRepository.createTransaction(validationResult.data);
+    const newTransaction = await warehouseRepository.createTransaction({ ...validationResult.data, user_id });
     res.status(201).json(newTransaction);
   } catch (error) {
     console.error("Error creating warehouse transaction:", error);
@@ -194,8 +202,15 @@ router.post("/api/warehouse/items/:id/transactions", async (req, res) => {
 router.post("/api/warehouse/:id/transactions", async (req, res) => {
   try {
     const { id } = req.params;
+    const user_id = getRequestUserId(req);
 
-    const validationResult = insertWarehouseTransactionSchema.safeParse({
+    if (!user_id) {
+      res.status(401).json({ error: "Не авторизован" });
+      return;
+    }
+
+    // Движение записывается на текущего пользователя, user_id из тела запроса не принимается
+    const validationResult = insertWarehouseTransactionSchema.omit({ user_id: true }).safeParse({
       ...req.body,
       item_id: id
     });
@@ -206,7 +221,7 @@ router.post("/api/warehouse/:id/transactions", async (req, res) => {
       return;
     }
 
-    const newTransaction = await warehouseRepository.createTransaction(validationResult.data);
+    const newTransaction = await warehouseRepository.createTransaction({ ...validationResult.data, user_id });
     res.status(201).json(newTransaction);
   } catch (error) {
     console.error("Error creating warehouse transaction:", error);
@@ -243,7 +258,7 @@ router.get("/api/warehouse/:id/transactions", async (req, res) => {
 // POST /api/warehouse/reservations - Create new reservation
 router.post("/api/warehouse/reservations", async (req, res) => {
   try {
-    const validationResult = insertWarehouseReservationSchema.safeParse(req.body);
+    const validationResult = insertWarehouseReservationSchema.omit({ reserved_by: true }).safeParse(req.body);
 
     if (!validationResult.success) {
       const errorMessage = fromZodError(validationResult.error).toString();
@@ -251,7 +266,10 @@ router.post("/api/warehouse/reservations", async (req, res) => {
       return;
     }
 
-    const newReservation = await reservationsRepository.createReservation(validationResult.data);
+    const newReservation = await reservationsRepository.createReservation({
+      ...validationResult.data,
+      reserved_by: getRequestUserId(req),
+    });
     res.status(201).json(newReservation);
   } catch (error: any) {
     console.error("Error creating reservation:", error);
@@ -392,7 +410,10 @@ router.get("/api/warehouse/items/:id/available", async (req, res) => {
  */
 router.post("/api/shipments", async (req, res) => {
   try {
-    const validationResult = insertShipmentSchema.safeParse(req.body);
+    const validationResult = insertShipmentSchema.safeParse({
+      ...req.body,
+      created_by: getRequestUserId(req),
+    });
 
     if (!validationResult.success) {
       const errorMessage = fromZodError(validationResult.error).toString();
@@ -505,10 +526,10 @@ router.delete("/api/shipments/:shipmentId/items/:itemId", async (req, res) => {
 router.post("/api/shipments/:id/confirm", checkAdminOnly(), async (req, res) => {
   try {
     const { id } = req.params;
-    const { user_id } = req.body;
+    const user_id = getRequestUserId(req);
 
     if (!user_id) {
-      res.status(400).json({ error: "user_id обязателен" });
+      res.status(401).json({ error: "Не авторизован" });
       return;
     }
 
@@ -526,10 +547,10 @@ router.post("/api/shipments/:id/confirm", checkAdminOnly(), async (req, res) =>
 router.post("/api/shipments/:id/cancel", checkAdminOnly(), async (req, res) => {
   try {
     const { id } = req.params;
-    const { user_id } = req.body;
+    const user_id = getRequestUserId(req);
 
     if (!user_id) {
-      res.status(400).json({ error: "user_id обязателен" });
+      res.status(401).json({ error: "Не авторизован" });
       return;
     }
 
@@ -622,10 +643,10 @@ router.post("/api/warehouse/notifications/:notificationId/read", async (req, res
  */
 router.post("/api/warehouse/notifications/mark-all-read", async (req, res) => {
   try {
-    const { user_id } = req.body;
+    const user_id = getRequestUserId(req);
 
     if (!user_id) {
-      res.status(400).json({ error: "user_id is required" });
+      res.status(401).json({ error: "User not authenticated" });
       return;
     }
 
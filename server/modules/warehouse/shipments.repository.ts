@@ -1,55 +1,33 @@
-import { db } from "../../db";
+import { db, withTransaction } from "../../db";
 import { shipments, shipment_items, warehouse_items, warehouse_transactions } from "@shared/schema";
 import type { Shipment, InsertShipment, ShipmentItem, InsertShipmentItem } from "@shared/schema";
 import { eq, desc, and, or, sql } from "drizzle-orm";
 import { genId } from "@shared/schema";
+import { numberingRepository } from "../numbering/repository";
 
 export class ShipmentsRepository {
   /**
-   * Генерация номера накладной
-   */
-  async generateShipmentNumber(): Promise<string> {
-    // Получаем последнюю накладную по всей базе
-    const [lastShipment] = await db
-      .select()
-      .from(shipments)
-      .orderBy(desc(shipments.created_at))
-      .limit(1);
-
-    let sequence = 1;
-    if (lastShipment && lastShipment.shipment_number) {
-      // Извлекаем номер из формата "ТН-X"
-      const parts = lastShipment.shipment_number.split("-");
-      if (parts.length === 2 && parts[0] === "ТН") {
-        sequence = parseInt(parts[1]) + 1;
-      }
-    }
-
-    return `ТН-${sequence}`;
-  }
-
-  /**
-   * Создать накладную
+   * Создать накладную; номер выдаёт нумератор накладных (по умолчанию "ТН-X")
    */
   async createShipment(data: InsertShipment): Promise<Shipment> {
-    const shipmentNumber = await this.generateShipmentNumber();
-
     console.log('📦 Creating shipment with data:', JSON.stringify(data, null, 2));
 
-    const valuesToInsert = {
-      ...data,
-      shipment_number: shipmentNumber,
-      status: "draft",
-    };
+    return await withTransaction(async (tx: any) => {
+      const valuesToInsert = {
+        ...data,
+        shipment_number: await numberingRepository.allocate("shipment", {}, tx),
+        status: "draft",
+      };
 
-    console.log('📦 Values to insert:', JSON.stringify(valuesToInsert, null, 2));
+      console.log('📦 Values to insert:', JSON.stringify(valuesToInsert, null, 2));
 
-    const [shipment] = await db
-      .insert(shipments)
-      .values(valuesToInsert)
-      .returning();
+      const [shipment] = await tx
+        .insert(shipments)
+        .values(valuesToInsert)
+        .returning();
 
-    return shipment;
+      return shipment;
+    });
   }
 
   /**
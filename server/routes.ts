@@ -4,8 +4,10 @@ import { db } from "./db";
 // Trigger reload
 
 // Import middleware
-import { authenticate } from "./middleware/auth";
+import { authenticate, requireAuth, requirePasswordChange, requireTwoFactorSetup, getRequestUserId } from "./middleware/auth";
+import { requireModuleAccess, type ModuleAccessOptions } from "./modules/permissions/middleware";
 import { globalPriceFilter } from "./middleware/priceFilter";
+import { auditTrail } from "./middleware/auditTrail";
 
 // Import modular routes
 import { router as salesRouter } from "./modules/sales/routes";
@@ -34,17 +36,87 @@ import { router as authRouter } from "./modules/auth/routes";
 import { procurementRouter } from "./modules/procurement/routes";
 import { router as suppliersRouter } from "./modules/suppliers/routes";
 import { router as clientsRouter } from "./modules/clients/routes";
+import { router as duplicatesRouter } from "./modules/duplicates/routes";
+import { router as salesAnalyticsRouter } from "./modules/sales-analytics/routes";
+import { router as lossReasonsRouter } from "./modules/loss-reasons/routes";
+import { router as leadsRouter } from "./modules/leads/routes";
+import { router as mailRouter } from "./modules/mail/routes";
+import { router as messengersRouter } from "./modules/messengers/routes";
+import { router as catalogRouter } from "./modules/catalog/routes";
+import { router as numberingRouter } from "./modules/numbering/routes";
 import { router as installersRouter } from "./modules/installers/routes";
 import { router as montageRouter } from "./modules/montage/routes";
 import { router as boardRouter } from "./modules/board/routes";
 import { router as telephonyRouter } from "./modules/telephony/routes";
+import { router as auditRouter } from "./modules/audit/routes";
+import { router as serviceAccountsRouter } from "./modules/service-accounts/routes";
+import { router as stagePermissionsRouter } from "./modules/stage-permissions/routes";
+import { router as secretsRouter } from "./modules/secrets/routes";
+import { secretsService } from "./modules/secrets/service";
 // Browser Agent временно отключен
 // import { router as browserAgentRouter } from "./modules/browser-agent";
 
+// Every API prefix belongs to a permission module (role_permissions.module).
+// Method → action: GET → view, POST → create, PUT/PATCH → edit, DELETE → delete
+const MODULE_ROUTES: Array<{ module: string; paths: string[] } & ModuleAccessOptions> = [
+  {
+    module: 'sales',
+    paths: ['/api/deals', '/api/deal-stages', '/api/deal-contacts', '/api/custom-field-definitions', '/api/sales-pipelines', '/api/clients', '/api/duplicates', '/api/sales-analytics', '/api/loss-reasons', '/api/catalog', '/api/ai'],
+  },
+  {
+    module: 'projects',
+    paths: [
+      '/api/projects', '/api/project-items', '/api/stages', '/api/stage-types', '/api/stage-documents', '/api/stage-media-comments',
+      '/api/process-templates', '/api/templates', '/api/template-stages', '/api/template-dependencies',
+      '/api/my-tasks', '/api/my-measurement-tasks', '/api/stage-permissions', '/api/user-roles',
+    ],
+  },
+  { module: 'tasks', paths: ['/api/tasks', '/api/boards'] },
+  { module: 'warehouse', paths: ['/api/warehouse', '/api/shipments', '/api/procurement', '/api/suppliers'] },
+  { module: 'finance', paths: ['/api/finance'] },
+  { module: 'production', paths: ['/api/production'] },
+  { module: 'installations', paths: ['/api/installations', '/api/installers', '/api/montage'] },
+  { module: 'documents', paths: ['/api/documents'] },
+  {
+    module: 'users',
+    paths: ['/api/users', '/api/roles'],
+    // Own profile is always readable
+    skip: (req) => req.method === 'GET' && !!getRequestUserId(req) && req.path === `/${getRequestUserId(req)}`,
+  },
+  {
+    module: 'sales',
+    paths: ['/api/leads'],
+    // Website forms and marketplaces post leads with a source token instead of a session
+    skip: (req) => req.path.startsWith('/intake/'),
+  },
+  { module: 'settings', paths: ['/api/settings', '/api/audit-log', '/api/service-accounts', '/api/secrets', '/api/lead-sources'] },
+  {
+    module: 'settings',
+    paths: ['/api/messengers'],
+    // Bots deliver updates without a user session; the webhook checks the channel secret itself
+    skip: (req) => req.path.startsWith('/webhooks/'),
+  },
+  {
+    module: 'telephony',
+    paths: ['/api/telephony'],
+    // Provider webhooks are called without a user session
+    skip: (req) => req.path.startsWith('/webhooks/'),
+  },
+];
+
+// Routes that only need a logged in user (no module of their own)
+// Mailboxes are personal: every user sees only their own, see modules/mail
+const AUTH_ONLY_ROUTES = ['/api/permissions', '/api/attachments', '/api/objects', '/api/assistant/chat', '/api/mailboxes', '/api/mail'];
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Integration credentials must be decrypted before the first request uses them
+  await secretsService.load();
+
   // Apply global middleware for all API routes
-  app.use('/api', authenticate);      // Add user info from X-User-Id header
-  app.use('/api', globalPriceFilter()); // Filter prices based on permissions
+  app.use('/api', authenticate);      // Add user info from the session cookie
+  app.use('/api', requirePasswordChange); // Block the API until a reset password is changed
+  app.use('/api', requireTwoFactorSetup); // ...and until 2FA is set up where the role requires it
+  app.use('/api', globalPriceFilter(MODULE_ROUTES)); // Hide prices of the route's module based on permissions
 
   // Health check endpoint
   app.get('/api/health', async (req, res) => {
@@ -67,6 +139,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Permission guards must be registered before the routers that they protect
+  for (const { module, paths, ...options } of MODULE_ROUTES) {
+    app.use(paths, requireModuleAccess(module, options));
+  }
+  app.use(AUTH_ONLY_ROUTES, requireAuth);
+
+  // Every successful mutation is written to action_audit_log with a before/after diff
+  app.use('/api', auditTrail());
+
   // Register all modular routes (они уже содержат префикс /api)
   app.use(authRouter);
   app.use(salesRouter);
@@ -81,6 +162,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.use(rolesRouter);
   app.use(permissionsRouter);
   app.use(settingsRouter);
+  app.use(numberingRouter);
   app.use(attachmentsRouter);
   app.use(customFieldsRouter);
   app.use(templatesRouter);
@@ -94,10 +176,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.use(procurementRouter);
   app.use(suppliersRouter);
   app.use(clientsRouter);
+  app.use(duplicatesRouter);
+  app.use(salesAnalyticsRouter);
+  app.use(lossReasonsRouter);
+  app.use(leadsRouter);
+  app.use(mailRouter);
+  app.use(messengersRouter);
+  app.use(catalogRouter);
   app.use(installersRouter);
   app.use(montageRouter);
   app.use(boardRouter);
   app.use(telephonyRouter);
+  app.use(auditRouter);
+  app.use(serviceAccountsRouter);
+  app.use(stagePermissionsRouter);
+  app.use(secretsRouter);
   // Browser Agent временно отключен
   // app.use(browserAgentRouter);
 
@@ -32,7 +32,7 @@ async function seed() {
     .limit(1);
 
   if (existingAdminPermissions.length === 0) {
-    const modules = ['sales', 'projects', 'warehouse', 'finance', 'installation', 'tasks', 'documents', 'users', 'roles', 'settings'];
+    const modules = ['sales', 'projects', 'warehouse', 'finance', 'production', 'installations', 'tasks', 'documents', 'telephony', 'users', 'roles', 'settings'];
 
     for (const module of modules) {
       await db.insert(role_permissions).values({
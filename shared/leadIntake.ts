@@ -0,0 +1,55 @@
+import { z } from 'zod';
+
+// Настройки распределения заявок источника (lead_sources.assignment, JSON)
+
+export const leadAssignmentModeValues = ['none', 'fixed', 'round_robin'] as const;
+export type LeadAssignmentMode = typeof leadAssignmentModeValues[number];
+
+export const LEAD_ASSIGNMENT_MODES: Record<LeadAssignmentMode, string> = {
+  none: 'Без менеджера',
+  fixed: 'Один менеджер',
+  round_robin: 'По очереди',
+};
+
+// Поля заявки, по которым правило выбирает менеджера
+export const LEAD_RULE_FIELDS = {
+  utm_source: 'utm_source',
+  utm_medium: 'utm_medium',
+  utm_campaign: 'utm_campaign',
+  form: 'Форма',
+  page_url: 'Страница',
+} as const;
+
+export type LeadRuleField = keyof typeof LEAD_RULE_FIELDS;
+
+export const leadAssignmentRuleSchema = z.object({
+  field: z.enum(Object.keys(LEAD_RULE_FIELDS) as [LeadRuleField, ...LeadRuleField[]]),
+  // Подстрока без учёта регистра
+  value: z.string().trim().min(1),
+  manager_id: z.string().min(1),
+});
+
+export const leadAssignmentSchema = z.object({
+  mode: z.enum(leadAssignmentModeValues).default('none'),
+  // fixed — первый из списка, round_robin — все по кругу
+  manager_ids: z.array(z.string()).default([]),
+  // Проверяются по порядку до режима; первое совпавшее правило назначает менеджера
+  rules: z.array(leadAssignmentRuleSchema).default([]),
+});
+
+export type LeadAssignmentRule = z.infer<typeof leadAssignmentRuleSchema>;
+export type LeadAssignment = z.infer<typeof leadAssignmentSchema>;
+
+/**
+ * Настройки распределения из колонки; пустое или битое значение — заявки без менеджера
+ */
+export function parseLeadAssignment(value: string | null | undefined): LeadAssignment {
+  const fallback = leadAssignmentSchema.parse({});
+  if (!value) return fallback;
+  try {
+    const parsed = leadAssignmentSchema.safeParse(JSON.parse(value));
+    return parsed.success ? parsed.data : fallback;
+  } catch {
+    return fallback;
+  }
+}
@@ -0,0 +1,67 @@
+// Нумераторы документов: номер = префикс + счётчик (дополненный нулями) + суффикс.
+// В префиксе и суффиксе подставляются {YYYY}, {YY}, {MM}, {DD} — дата выдачи номера,
+// и {deal} — номер сделки (только для документов сделки)
+
+export const numberSequenceKeyValues = ['deal', 'quote', 'invoice', 'contract', 'shipment', 'montage_order', 'project'] as const;
+export type NumberSequenceKey = typeof numberSequenceKeyValues[number];
+
+export const NUMBER_SEQUENCE_LABELS: Record<NumberSequenceKey, string> = {
+  deal: 'Сделки',
+  quote: 'Коммерческие предложения',
+  invoice: 'Счета',
+  contract: 'Договоры',
+  shipment: 'Накладные',
+  montage_order: 'Заказы на монтаж',
+  project: 'Проекты',
+};
+
+// Ключи, в номерах которых доступен {deal}
+export const DEAL_DOCUMENT_SEQUENCE_KEYS: readonly NumberSequenceKey[] = ['quote', 'invoice', 'contract'];
+
+export interface NumberSequenceFormat {
+  prefix: string;
+  suffix: string;
+  padding: number;
+}
+
+// Формат по умолчанию; сделки, проекты, накладные и монтаж продолжают прежние номера
+export const DEFAULT_NUMBER_SEQUENCES: Record<NumberSequenceKey, NumberSequenceFormat & { reset_yearly: boolean }> = {
+  deal: { prefix: '', suffix: '', padding: 0, reset_yearly: false },
+  quote: { prefix: 'КП-{YY}-', suffix: '', padding: 4, reset_yearly: true },
+  invoice: { prefix: 'СЧ-{YY}-', suffix: '', padding: 4, reset_yearly: true },
+  contract: { prefix: 'Д-{YY}-', suffix: '', padding: 4, reset_yearly: true },
+  shipment: { prefix: 'ТН-', suffix: '', padding: 0, reset_yearly: false },
+  montage_order: { prefix: 'M-', suffix: '', padding: 3, reset_yearly: false },
+  project: { prefix: '', suffix: '', padding: 0, reset_yearly: false },
+};
+
+export interface NumberContext {
+  date?: Date;
+  deal?: string | null;
+}
+
+const YEAR_TOKEN = /\{(YYYY|YY)\}/;
+
+export function hasYearToken(format: Pick<NumberSequenceFormat, 'prefix' | 'suffix'>): boolean {
+  return YEAR_TOKEN.test(format.prefix) || YEAR_TOKEN.test(format.suffix);
+}
+
+export function hasDealToken(format: Pick<NumberSequenceFormat, 'prefix' | 'suffix'>): boolean {
+  return format.prefix.includes('{deal}') || format.suffix.includes('{deal}');
+}
+
+function applyTokens(template: string, context: NumberContext): string {
+  const date = context.date ?? new Date();
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return template
+    .replace(/\{YYYY\}/g, String(date.getFullYear()))
+    .replace(/\{YY\}/g, String(date.getFullYear()).slice(-2))
+    .replace(/\{MM\}/g, pad(date.getMonth() + 1))
+    .replace(/\{DD\}/g, pad(date.getDate()))
+    .replace(/\{deal\}/g, context.deal ?? '');
+}
+
+export function formatSequenceNumber(format: NumberSequenceFormat, value: number, context: NumberContext = {}): string {
+  const counter = String(value).padStart(format.padding, '0');
+  return `${applyTokens(format.prefix, context)}${counter}${applyTokens(format.suffix, context)}`;
+}
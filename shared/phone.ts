@@ -0,0 +1,32 @@
+// Нормализация телефонов в E.164 (+79991234567). Номера без кода страны считаются российскими.
+
+const DEFAULT_COUNTRY_CODE = "7";
+
+/**
+ * +7 (999) 123-45-67, 8 999 123 45 67, 9991234567 → +79991234567.
+ * Возвращает null, если в строке не номер (меньше 10 или больше 15 цифр).
+ */
+export function toE164(phone: string | null | undefined): string | null {
+  if (!phone) return null;
+
+  const trimmed = phone.trim();
+  let digits = trimmed.replace(/\D/g, "");
+
+  if (!trimmed.startsWith("+")) {
+    if (digits.length === 11 && digits.startsWith("8")) {
+      digits = DEFAULT_COUNTRY_CODE + digits.slice(1);
+    } else if (digits.length === 10) {
+      digits = DEFAULT_COUNTRY_CODE + digits;
+    }
+  }
+
+  return digits.length >= 11 && digits.length <= 15 ? `+${digits}` : null;
+}
+
+/**
+ * Для сохранения: номер в E.164, а то, что не удалось разобрать (добавочные, короткие номера), — как ввели
+ */
+export function normalizePhone(phone: string | null | undefined): string | null {
+  if (!phone || !phone.trim()) return null;
+  return toE164(phone) ?? phone.trim();
+}
@@ -0,0 +1,115 @@
+import { getTableName, type Table } from "drizzle-orm";
+import {
+  deals, deal_documents, catalog_prices,
+  projects, project_items, project_stages, template_stages,
+  production_tasks,
+  warehouse_items, material_prices, procurement_comparison_items,
+  financial_transactions,
+  installations, installers, montage_orders, montage_items,
+  call_logs,
+} from "./schema";
+
+// Реестр денежных полей: какие колонки каких таблиц скрываются при hide_prices в модуле.
+// Поля скрываются только в ответах маршрутов своего модуля (MODULE_ROUTES в server/routes.ts),
+// поэтому одноимённые поля других модулей (price, amount, cost) не затрагиваются
+
+export interface PriceColumns {
+  table: string;
+  columns: string[];
+  // Текстовые колонки с JSON и денежные ключи внутри него (на любой глубине)
+  json?: Record<string, string[]>;
+}
+
+export interface ModulePriceFields {
+  tables: PriceColumns[];
+  // Вычисляемые денежные поля в ответах API (нет в схеме)
+  derived?: string[];
+}
+
+function priceColumns<T extends Table>(
+  table: T,
+  columns: Array<keyof T["$inferSelect"] & string>,
+  json?: Partial<Record<keyof T["$inferSelect"] & string, string[]>>,
+): PriceColumns {
+  return { table: getTableName(table), columns, ...(json ? { json: json as Record<string, string[]> } : {}) };
+}
+
+export const PRICE_FIELDS: Record<string, ModulePriceFields> = {
+  sales: {
+    tables: [
+      priceColumns(deals, ["amount"]),
+      // Позиции КП и счетов хранятся в data: цена, скидка и сумма каждой строки и итоги документа (@shared/quotePricing)
+      priceColumns(deal_documents, ["total_amount"], {
+        data: ["price", "discount_amount", "total", "subtotal", "positions_discount", "document_discount", "net", "vat_amount"],
+      }),
+      priceColumns(catalog_prices, ["price"]),
+    ],
+  },
+  projects: {
+    tables: [
+      priceColumns(projects, ["amount"]),
+      priceColumns(project_items, ["price"]),
+      priceColumns(project_stages, ["cost"]),
+      priceColumns(template_stages, ["cost"]),
+    ],
+  },
+  production: {
+    tables: [
+      priceColumns(production_tasks, ["payment"]),
+    ],
+  },
+  warehouse: {
+    tables: [
+      priceColumns(warehouse_items, ["price"]),
+      priceColumns(material_prices, ["price"]),
+      priceColumns(procurement_comparison_items, ["price"]),
+    ],
+  },
+  finance: {
+    tables: [
+      priceColumns(financial_transactions, ["amount"]),
+    ],
+    derived: ["totalIncome", "totalExpense", "profit", "profitability"],
+  },
+  installations: {
+    tables: [
+      priceColumns(installations, ["payment"]),
+      priceColumns(installers, ["hourly_rate"]),
+      priceColumns(montage_orders, ["total_cost"]),
+      priceColumns(montage_items, ["cost"]),
+    ],
+  },
+  telephony: {
+    tables: [
+      priceColumns(call_logs, ["cost"]),
+    ],
+  },
+};
+
+export interface PriceFieldSet {
+  fields: Set<string>;
+  // Имя JSON-колонки → денежные ключи внутри неё
+  json: Map<string, Set<string>>;
+}
+
+/**
+ * Monetary fields (and monetary keys inside JSON columns) registered for the given modules
+ */
+export function getPriceFields(modules: string[]): PriceFieldSet {
+  const result: PriceFieldSet = { fields: new Set(), json: new Map() };
+  for (const module of modules) {
+    const fields = PRICE_FIELDS[module];
+    if (!fields) continue;
+
+    for (const { columns, json } of fields.tables) {
+      columns.forEach(column => result.fields.add(column));
+      for (const [column, keys] of Object.entries(json ?? {})) {
+        const jsonKeys = result.json.get(column) ?? new Set<string>();
+        keys.forEach(key => jsonKeys.add(key));
+        result.json.set(column, jsonKeys);
+      }
+    }
+    fields.derived?.forEach(field => result.fields.add(field));
+  }
+  return result;
+}
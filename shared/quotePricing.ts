@@ -0,0 +1,99 @@
+import { z } from 'zod';
+
+// Расчёт позиций и итогов КП/счёта (deal_documents.data). Сервер считает по этим же правилам
+// и записывает total_amount сам; клиент использует расчёт для предпросмотра
+
+export const vatModeValues = ['none', 'included', 'on_top'] as const;
+export type VatMode = typeof vatModeValues[number];
+
+export const VAT_MODES: Record<VatMode, string> = {
+  none: 'Без НДС',
+  included: 'НДС в том числе',
+  on_top: 'НДС сверху',
+};
+
+export const DEFAULT_VAT_RATE = 20;
+
+export const quotePositionSchema = z.object({
+  catalog_item_id: z.string().nullable().optional(), // цена берётся из прайс-листа документа
+  name: z.string().trim().min(1, 'Введите название'),
+  price: z.coerce.number().min(0, 'Цена не может быть отрицательной'),
+  quantity: z.coerce.number().positive('Количество должно быть больше 0'),
+  unit: z.string().default('шт'),
+  discount_percent: z.coerce.number().min(0).max(100).default(0),
+  imageUrl: z.string().optional(),
+  height: z.coerce.number().min(0).optional(),
+  width: z.coerce.number().min(0).optional(),
+  depth: z.coerce.number().min(0).optional(),
+  description: z.string().optional(),
+  isService: z.boolean().optional(),
+});
+
+export const quotePricingSchema = z.object({
+  price_list_id: z.string().nullable().optional(), // null — прайс-лист по умолчанию
+  discount_percent: z.coerce.number().min(0).max(100).default(0), // скидка на документ после скидок позиций
+  vat_mode: z.enum(vatModeValues).default('none'),
+  vat_rate: z.coerce.number().min(0).max(100).default(DEFAULT_VAT_RATE),
+});
+
+export type QuotePosition = z.infer<typeof quotePositionSchema>;
+export type QuotePricing = z.infer<typeof quotePricingSchema>;
+
+export type PricedPosition = QuotePosition & {
+  discount_amount: number;
+  total: number; // после скидки позиции
+};
+
+export interface QuoteTotals {
+  subtotal: number; // сумма позиций без скидок
+  positions_discount: number;
+  document_discount: number;
+  net: number; // после всех скидок, до НДС сверху
+  vat_amount: number;
+  total: number; // к оплате = deal_documents.total_amount
+}
+
+export interface PricedQuote {
+  positions: PricedPosition[];
+  pricing: QuotePricing;
+  totals: QuoteTotals;
+}
+
+// Суммы считаются в копейках, чтобы итог совпадал на клиенте и сервере
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+export function calculateQuote(positions: QuotePosition[], pricing: QuotePricing): PricedQuote {
+  const priced = positions.map((position) => {
+    const gross = roundMoney(position.price * position.quantity);
+    const discount_amount = roundMoney(gross * position.discount_percent / 100);
+    return { ...position, discount_amount, total: roundMoney(gross - discount_amount) };
+  });
+
+  const subtotal = roundMoney(priced.reduce((sum, position) => sum + position.price * position.quantity, 0));
+  const positions_discount = roundMoney(priced.reduce((sum, position) => sum + position.discount_amount, 0));
+  const afterPositions = roundMoney(priced.reduce((sum, position) => sum + position.total, 0));
+  const document_discount = roundMoney(afterPositions * pricing.discount_percent / 100);
+  const net = roundMoney(afterPositions - document_discount);
+
+  const rate = pricing.vat_rate / 100;
+  const vat_amount = pricing.vat_mode === 'on_top'
+    ? roundMoney(net * rate)
+    : pricing.vat_mode === 'included'
+      ? roundMoney(net * rate / (1 + rate))
+      : 0;
+  const total = pricing.vat_mode === 'on_top' ? roundMoney(net + vat_amount) : net;
+
+  return {
+    positions: priced,
+    pricing,
+    totals: { subtotal, positions_discount, document_discount, net, vat_amount, total },
+  };
+}
+
+/**
+ * Условия расчёта из data документа; документы без них считаются без скидки и НДС
+ */
+export function parseQuotePricing(value: unknown): QuotePricing {
+  const parsed = quotePricingSchema.safeParse(value ?? {});
+  return parsed.success ? parsed.data : quotePricingSchema.parse({});
+}
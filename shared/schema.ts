@@ -2,9 +2,26 @@ import { pgTable, text, integer, real, timestamp, boolean } from 'drizzle-orm/pg
 import { createInsertSchema } from 'drizzle-zod';
 import { z } from 'zod';
 import { nanoid } from 'nanoid';
+import { normalizePhone } from './phone';
+import { stageEntryRequirementsSchema } from './stageGates';
+import { leadAssignmentSchema } from './leadIntake';
 
 const genId = () => nanoid();
 
+// Вероятность выигрыша в процентах; '' и null — не задана
+const probabilityField = () => z.union([z.number(), z.string(), z.null()]).optional()
+  .transform((val) => {
+    if (val === undefined) return undefined;
+    if (val === null || val === '') return null;
+    const num = typeof val === 'string' ? parseInt(val, 10) : Math.round(val);
+    return isNaN(num) ? null : num;
+  })
+  .refine((val) => val === undefined || val === null || (val >= 0 && val <= 100), { message: 'Вероятность должна быть от 0 до 100' });
+
+// Телефон сохраняется в E.164; undefined не трогаем, чтобы partial() не затирал поле
+const phoneField = () => z.string().nullable().optional()
+  .transform((val) => val === undefined ? undefined : normalizePhone(val));
+
 // Project Status Type
 export const projectStatusValues = ['pending', 'in_progress', 'completed', 'reclamation'] as const;
 export type ProjectStatus = typeof projectStatusValues[number];
@@ -15,6 +32,7 @@ export const roles = pgTable('roles', {
   name: text('name').notNull().unique(),
   description: text('description'),
   is_system: boolean('is_system').default(false).notNull(),
+  require_2fa: boolean('require_2fa').default(false).notNull(), // вход только со вторым фактором (TOTP)
   created_at: timestamp('created_at').$defaultFn(() => new Date()).notNull(),
   updated_at: timestamp('updated_at').$defaultFn(() => new Date()).notNull(),
 });
@@ -53,6 +71,11 @@ export const users = pgTable('users', {
   phone: text('phone'),
   is_active: boolean('is_active').default(true).notNull(),
   can_view_financial: boolean('can_view_financial').default(false).notNull(), // Доступ к финансовым документам
+  must_change_password: boolean('must_change_password').default(false).notNull(), // после сброса администратором
+  password_changed_at: timestamp('password_changed_at'),
+  failed_login_attempts: integer('failed_login_attempts').default(0).notNull(), // неудачные попытки подряд
+  locked_until: timestamp('locked_until'), // временная блокировка входа после N неудачных попыток
+  is_service_account: boolean('is_service_account').default(false).notNull(), // учётка интеграции: только API-ключи, без входа по паролю
   created_at: timestamp('created_at').$defaultFn(() => new Date()).notNull(),
   updated_at: timestamp('updated_at').$defaultFn(() => new Date()).notNull(),
 });
@@ -81,6 +104,82 @@ export const insertUserPermissionSchema = createInsertSchema(user_permissions).o
 export type InsertUserPermission = z.infer<typeof insertUserPermissionSchema>;
 export type UserPermission = typeof user_permissions.$inferSelect;
 
+// User Sessions (Сессии пользователей, выдаются при входе)
+export const user_sessions = pgTable('user_sessions', {
+  id: text('id').$defaultFn(() => genId()).primaryKey(),
+  user_id: text('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  token_hash: text('token_hash').notNull().unique(), // SHA-256 от токена из cookie, сам токен не храним
+  ip_address: text('ip_address'),
+  user_agent: text('user_agent'),
+  expires_at: timestamp('expires_at').notNull(),
+  last_seen_at: timestamp('last_seen_at').$defaultFn(() => new Date()).notNull(),
+  revoked_at: timestamp('revoked_at'), // заполняется при выходе или принудительном завершении
+  created_at: timestamp('created_at').$defaultFn(() => new Date()).notNull(),
+});
+
+export const insertUserSessionSchema = createInsertSchema(user_sessions).omit({ id: true, created_at: true });
+export type InsertUserSession = z.infer<typeof insertUserSessionSchema>;
+export type UserSession = typeof user_sessions.$inferSelect;
+
+// API Keys (ключи сервисных учёток для интеграций; права — user_permissions сервисной учётки)
+export const api_keys = pgTable('api_keys', {
+  id: text('id').$defaultFn(() => genId()).primaryKey(),
+  user_id: text('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(), // сервисная учётка
+  name: text('name').notNull(),
+  key_prefix: text('key_prefix').notNull(), // начало ключа для опознания в списке
+  key_hash: text('key_hash').notNull().unique(), // SHA-256 от ключа, сам ключ показывается один раз
+  expires_at: timestamp('expires_at'), // null = бессрочный
+  last_used_at: timestamp('last_used_at'),
+  last_used_ip: text('last_used_ip'),
+  revoked_at: timestamp('revoked_at'),
+  created_by: text('created_by').references(() => users.id, { onDelete: 'set null' }),
+  created_at: timestamp('created_at').$defaultFn(() => new Date()).notNull(),
+});
+
+export const insertApiKeySchema = createInsertSchema(api_keys).omit({ id: true, created_at: true });
+export type InsertApiKey = z.infer<typeof insertApiKeySchema>;
+export type ApiKey = typeof api_keys.$inferSelect;
+
+// Secrets vault: ключи и токены интеграций, зашифрованные AES-256-GCM мастер-ключом (SECRETS_MASTER_KEY)
+export const secrets = pgTable('secrets', {
+  id: text('id').$defaultFn(() => genId()).primaryKey(),
+  name: text('name').notNull().unique(), // ELEVENLABS_API_KEY, AMOCRM_ACCESS_TOKEN, ...
+  value_encrypted: text('value_encrypted').notNull(), // enc:v1:<id ключа>:<iv>:<tag>:<шифртекст>
+  updated_by: text('updated_by').references(() => users.id, { onDelete: 'set null' }),
+  created_at: timestamp('created_at').$defaultFn(() => new Date()).notNull(),
+  updated_at: timestamp('updated_at').$defaultFn(() => new Date()).notNull(),
+});
+
+export const insertSecretSchema = createInsertSchema(secrets).omit({ id: true, created_at: true, updated_at: true });
+export type InsertSecret = z.infer<typeof insertSecretSchema>;
+export type Secret = typeof secrets.$inferSelect;
+
+// Rate Limit Counters (Счётчики ограничения частоты запросов, используются при RATE_LIMIT_STORE=db)
+export const rate_limit_counters = pgTable('rate_limit_counters', {
+  key: text('key').primaryKey(), // группа + IP или пользователь, например "ai:user:<id>"
+  count: integer('count').default(0).notNull(),
+  reset_at: timestamp('reset_at').notNull(), // конец текущего окна
+});
+
+export type RateLimitCounter = typeof rate_limit_counters.$inferSelect;
+
+// Two-Factor Authentication (TOTP). Отдельная таблица, чтобы секрет не попадал в выборки users
+export const user_two_factor = pgTable('user_two_factor', {
+  id: text('id').$defaultFn(() => genId()).primaryKey(),
+  user_id: text('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull().unique(),
+  secret: text('secret').notNull(), // base32, RFC 6238
+  enabled: boolean('enabled').default(false).notNull(), // false до подтверждения первым кодом
+  backup_codes: text('backup_codes'), // JSON: SHA-256 неиспользованных резервных кодов
+  last_used_step: integer('last_used_step'), // последний принятый 30-секундный шаг, защита от повтора кода
+  enabled_at: timestamp('enabled_at'),
+  created_at: timestamp('created_at').$defaultFn(() => new Date()).notNull(),
+  updated_at: timestamp('updated_at').$defaultFn(() => new Date()).notNull(),
+});
+
+export const insertUserTwoFactorSchema = createInsertSchema(user_two_factor).omit({ id: true, created_at: true, updated_at: true });
+export type InsertUserTwoFactor = z.infer<typeof insertUserTwoFactorSchema>;
+export type UserTwoFactor = typeof user_two_factor.$inferSelect;
+
 // Sales Pipelines (Воронки продаж)
 export const salesPipelines = pgTable('sales_pipelines', {
   id: text('id').$defaultFn(() => genId()).primaryKey(),
@@ -104,18 +203,44 @@ export const dealStages = pgTable('deal_stages', {
   key: text('key').notNull(),
   color: text('color').default('#6366f1'),
   order: integer('order').notNull(),
+  entry_requirements: text('entry_requirements'), // JSON StageEntryRequirements: условия входа сделки в этап
+  win_probability: integer('win_probability'), // Вероятность выигрыша сделки в этапе, 0–100 (для прогноза)
   created_at: timestamp('created_at').$defaultFn(() => new Date()).notNull(),
 });
 
-export const insertDealStageSchema = createInsertSchema(dealStages).omit({ id: true, created_at: true });
+export const insertDealStageSchema = createInsertSchema(dealStages)
+  .omit({ id: true, created_at: true })
+  .extend({
+    entry_requirements: stageEntryRequirementsSchema.nullable().optional()
+      .transform((val) => val === undefined ? undefined : val === null ? null : JSON.stringify(val)),
+    win_probability: probabilityField(),
+  });
 export type InsertDealStage = z.infer<typeof insertDealStageSchema>;
 export type DealStage = typeof dealStages.$inferSelect;
 
+// Loss Reasons (справочник причин проигрыша сделки)
+export const loss_reasons = pgTable('loss_reasons', {
+  id: text('id').$defaultFn(() => genId()).primaryKey(),
+  name: text('name').notNull(),
+  is_active: boolean('is_active').default(true).notNull(),
+  order: integer('order').notNull().default(0),
+  created_at: timestamp('created_at').$defaultFn(() => new Date()).notNull(),
+});
+
+export const insertLossReasonSchema = createInsertSchema(loss_reasons).omit({ id: true, created_at: true });
+export type InsertLossReason = z.infer<typeof insertLossReasonSchema>;
+export type LossReason = typeof loss_reasons.$inferSelect;
+
+// Итог сделки: null — сделка открыта
+export const dealOutcomeValues = ['won', 'lost'] as const;
+export type DealOutcome = typeof dealOutcomeValues[number];
+
 // Deals
 export const deals = pgTable('deals', {
   id: text('id').$defaultFn(() => genId()).primaryKey(),
   title: text('title'),
   pipeline_id: text('pipeline_id').references(() => salesPipelines.id),
+  client_id: text('client_id').references(() => clients.id, { onDelete: 'set null' }), // Карточка клиента
   client_name: text('client_name').notNull(),
   company: text('company'),
   contact_phone: text('contact_phone'),
@@ -124,6 +249,14 @@ export const deals = pgTable('deals', {
   amount: real('amount'),
   stage: text('stage').notNull().default('new'),
   deadline: timestamp('deadline'),
+  expected_close_date: timestamp('expected_close_date'), // Ожидаемая дата закрытия (месяц в прогнозе продаж)
+  win_probability: integer('win_probability'), // Своя вероятность выигрыша, 0–100; null — берётся из этапа
+  source: text('source'), // Источник лида: сайт, звонок, рекомендация...
+  outcome: text('outcome'), // DealOutcome: won | lost; null — сделка открыта
+  closed_at: timestamp('closed_at'),
+  loss_reason_id: text('loss_reason_id').references(() => loss_reasons.id, { onDelete: 'set null' }),
+  competitor: text('competitor'), // Кому ушла сделка
+  loss_comment: text('loss_comment'),
   manager_id: text('manager_id').references(() => users.id),
   production_days_count: integer('production_days_count'),
   tags: text('tags'),
@@ -131,10 +264,13 @@ export const deals = pgTable('deals', {
   updated_at: timestamp('updated_at').$defaultFn(() => new Date()).notNull(),
 });
 
+// Итог сделки меняется только через закрытие и восстановление (POST /api/deals/:id/close, /reopen)
 export const insertDealSchema = createInsertSchema(deals)
-  .omit({ id: true, created_at: true, updated_at: true })
+  .omit({ id: true, created_at: true, updated_at: true, outcome: true, closed_at: true, loss_reason_id: true, competitor: true, loss_comment: true })
   .extend({
     title: z.string().nullable().optional().transform((val) => val === '' ? null : val),
+    client_id: z.string().nullable().optional().transform((val) => val === '' ? null : val),
+    contact_phone: phoneField(),
     company: z.string().nullable().optional().transform((val) => val === '' ? null : val),
     amount: z.union([z.number(), z.string(), z.null()]).optional().transform((val) => {
       if (val === null || val === undefined || val === '') return null;
@@ -142,6 +278,13 @@ export const insertDealSchema = createInsertSchema(deals)
       return isNaN(num) ? null : num;
     }),
     manager_id: z.string().nullable().optional().transform((val) => val === '' ? null : val),
+    expected_close_date: z.union([z.date(), z.string(), z.null()]).optional().transform((val) => {
+      if (val === undefined) return undefined;
+      if (val === null || val === '') return null;
+      const date = new Date(val);
+      return isNaN(date.getTime()) ? null : date;
+    }),
+    win_probability: probabilityField(),
     production_days_count: z.union([z.number(), z.string(), z.null()]).optional().transform((val) => {
       if (val === null || val === undefined || val === '') return null;
       const num = typeof val === 'string' ? parseInt(val) : val;
@@ -157,6 +300,83 @@ export const insertDealSchema = createInsertSchema(deals)
 export type InsertDeal = z.infer<typeof insertDealSchema>;
 export type Deal = typeof deals.$inferSelect;
 
+// Deal Stage History (каждая смена этапа сделки; отсюда считается воронка и время в этапе)
+export const dealStageHistorySourceValues = ['create', 'manual', 'bulk', 'assistant', 'stage_delete', 'backfill', 'close', 'reopen'] as const;
+export type DealStageHistorySource = typeof dealStageHistorySourceValues[number];
+
+export const deal_stage_history = pgTable('deal_stage_history', {
+  id: text('id').$defaultFn(() => genId()).primaryKey(),
+  deal_id: text('deal_id').references(() => deals.id, { onDelete: 'cascade' }).notNull(),
+  pipeline_id: text('pipeline_id').references(() => salesPipelines.id, { onDelete: 'set null' }),
+  from_stage: text('from_stage'), // null — сделка создана сразу в to_stage
+  to_stage: text('to_stage').notNull(),
+  source: text('source').notNull().default('manual'), // DealStageHistorySource
+  changed_by: text('changed_by').references(() => users.id, { onDelete: 'set null' }),
+  created_at: timestamp('created_at').$defaultFn(() => new Date()).notNull(),
+});
+
+export type DealStageHistory = typeof deal_stage_history.$inferSelect;
+
+// Lead Sources (каналы входящих заявок: формы сайта, маркетплейсы, вебхуки Tilda)
+export const lead_sources = pgTable('lead_sources', {
+  id: text('id').$defaultFn(() => genId()).primaryKey(),
+  name: text('name').notNull(), // Пишется в deals.source
+  token_prefix: text('token_prefix').notNull(), // начало токена для опознания в списке
+  token_hash: text('token_hash').notNull().unique(), // SHA-256 от токена, сам токен показывается один раз
+  pipeline_id: text('pipeline_id').references(() => salesPipelines.id, { onDelete: 'set null' }), // null — основная воронка
+  stage: text('stage'), // null — первый этап воронки
+  assignment: text('assignment'), // JSON LeadAssignment: режим, менеджеры, правила
+  rr_cursor: integer('rr_cursor').notNull().default(0), // счётчик очереди round_robin
+  is_active: boolean('is_active').default(true).notNull(),
+  last_lead_at: timestamp('last_lead_at'),
+  created_by: text('created_by').references(() => users.id, { onDelete: 'set null' }),
+  created_at: timestamp('created_at').$defaultFn(() => new Date()).notNull(),
+  updated_at: timestamp('updated_at').$defaultFn(() => new Date()).notNull(),
+});
+
+export const insertLeadSourceSchema = createInsertSchema(lead_sources)
+  .omit({ id: true, token_prefix: true, token_hash: true, rr_cursor: true, last_lead_at: true, created_by: true, created_at: true, updated_at: true })
+  .extend({
+    name: z.string().trim().min(1, 'Название обязательно'),
+    pipeline_id: z.string().nullable().optional().transform((val) => val === '' ? null : val),
+    stage: z.string().nullable().optional().transform((val) => val === '' ? null : val),
+    assignment: leadAssignmentSchema.nullable().optional()
+      .transform((val) => val === undefined ? undefined : val === null ? null : JSON.stringify(val)),
+  });
+export type InsertLeadSource = z.infer<typeof insertLeadSourceSchema>;
+export type LeadSource = typeof lead_sources.$inferSelect;
+
+// Inbound Leads (журнал входящих заявок; повторная заявка по открытой сделке новую не создаёт)
+export const inboundLeadStatusValues = ['created', 'duplicate', 'test'] as const;
+export type InboundLeadStatus = typeof inboundLeadStatusValues[number];
+
+export const inbound_leads = pgTable('inbound_leads', {
+  id: text('id').$defaultFn(() => genId()).primaryKey(),
+  source_id: text('source_id').references(() => lead_sources.id, { onDelete: 'set null' }),
+  status: text('status').notNull(), // InboundLeadStatus
+  deal_id: text('deal_id').references(() => deals.id, { onDelete: 'set null' }), // созданная или найденная сделка
+  client_id: text('client_id').references(() => clients.id, { onDelete: 'set null' }),
+  name: text('name'),
+  phone: text('phone'),
+  email: text('email'),
+  company: text('company'),
+  comment: text('comment'),
+  form: text('form'), // id или название формы
+  page_url: text('page_url'),
+  utm_source: text('utm_source'),
+  utm_medium: text('utm_medium'),
+  utm_campaign: text('utm_campaign'),
+  utm_content: text('utm_content'),
+  utm_term: text('utm_term'),
+  payload: text('payload'), // тело запроса как пришло, JSON
+  ip: text('ip'),
+  created_at: timestamp('created_at').$defaultFn(() => new Date()).notNull(),
+});
+
+export const insertInboundLeadSchema = createInsertSchema(inbound_leads).omit({ id: true, created_at: true });
+export type InsertInboundLead = z.infer<typeof insertInboundLeadSchema>;
+export type InboundLead = typeof inbound_leads.$inferSelect;
+
 // Deal Contacts
 export const deal_contacts = pgTable('deal_contacts', {
   id: text('id').$defaultFn(() => genId()).primaryKey(),
@@ -173,6 +393,7 @@ export const deal_contacts = pgTable('deal_contacts', {
 export const insertDealContactSchema = createInsertSchema(deal_contacts)
   .omit({ id: true, created_at: true })
   .extend({
+    phone: phoneField(),
     is_primary: z.boolean().optional().transform((val) => val ? 1 : 0),
     order: z.number().optional().default(0),
   });
@@ -185,12 +406,16 @@ export const deal_messages = pgTable('deal_messages', {
   deal_id: text('deal_id').references(() => deals.id, { onDelete: 'cascade' }).notNull(),
   message_type: text('message_type').notNull(),
   content: text('content').notNull(),
-  author_id: text('author_id').references(() => users.id).notNull(),
+  author_id: text('author_id').references(() => users.id), // null — сообщение клиента (мессенджер, почта)
   created_at: timestamp('created_at').$defaultFn(() => new Date()).notNull(),
   // Chat features
   direction: text('direction').default('outgoing').notNull(),
   is_read: integer('is_read', { mode: 'boolean' }).default(0).notNull(),
   read_at: timestamp('read_at'),
+  // Внешний собеседник
+  sender_name: text('sender_name'), // имя клиента, когда автор не сотрудник
+  chat_id: text('chat_id').references(() => messenger_chats.id, { onDelete: 'set null' }), // чат мессенджера, откуда пришло или куда ушло
+  external_id: text('external_id'), // id сообщения в мессенджере
 });
 
 export const insertDealMessageSchema = createInsertSchema(deal_messages).omit({ id: true, created_at: true });
@@ -256,6 +481,7 @@ export const projects = pgTable('projects', {
   id: text('id').$defaultFn(() => genId()).primaryKey(),
   project_number: text('project_number'),
   name: text('name').notNull(),
+  client_id: text('client_id').references(() => clients.id, { onDelete: 'set null' }), // Карточка клиента
   client_name: text('client_name').notNull(),
   deal_id: text('deal_id').references(() => deals.id, { onDelete: 'set null' }),
   invoice_id: text('invoice_id').references(() => deal_documents.id, { onDelete: 'set null' }),
@@ -454,12 +680,15 @@ export type StagePermission = typeof stage_permissions.$inferSelect;
 // Action Audit Log (Logging all user actions for security and debugging)
 export const action_audit_log = pgTable('action_audit_log', {
   id: text('id').$defaultFn(() => genId()).primaryKey(),
-  user_id: text('user_id').references(() => users.id).notNull(),
-  action: text('action').notNull(), // read, write, delete, start, complete
+  user_id: text('user_id').references(() => users.id, { onDelete: 'set null' }), // null для запросов без известного пользователя
+  api_key_id: text('api_key_id').references(() => api_keys.id, { onDelete: 'set null' }), // запрос выполнен по API-ключу сервисной учётки
+  action: text('action').notNull(), // read, write, delete, start, complete, view, create, edit
   entity_type: text('entity_type').notNull(), // project, stage, document, etc.
   entity_id: text('entity_id').notNull(),
   success: boolean('success').default(true).notNull(),
   reason: text('reason'), // причина отказа, если success = false
+  request_path: text('request_path'), // METHOD /api/... для автоматически записанных изменений
+  changes: text('changes'), // JSON: { поле: { from, to } }
   ip_address: text('ip_address'),
   user_agent: text('user_agent'),
   created_at: timestamp('created_at').$defaultFn(() => new Date()).notNull(),
@@ -839,7 +1068,17 @@ export const company_settings = pgTable('company_settings', {
   inn: text('inn'),
   address: text('address'),
   phone: text('phone'),
-  deal_number_offset: integer('deal_number_offset').default(269), // Начальный номер сделок
+  deal_number_offset: integer('deal_number_offset').default(269), // Начальный номер сделок; читается только при создании нумератора сделок (number_sequences)
+  // Парольная политика и блокировка входа
+  password_min_length: integer('password_min_length').default(8).notNull(),
+  password_require_digit: boolean('password_require_digit').default(true).notNull(),
+  password_require_uppercase: boolean('password_require_uppercase').default(false).notNull(),
+  password_require_special: boolean('password_require_special').default(false).notNull(),
+  login_max_attempts: integer('login_max_attempts').default(5).notNull(),
+  login_lockout_minutes: integer('login_lockout_minutes').default(15).notNull(),
+  // Дневные лимиты платных операций на пользователя, 0 — без ограничений
+  ai_daily_quota: integer('ai_daily_quota').default(0).notNull(),
+  calls_daily_quota: integer('calls_daily_quota').default(0).notNull(),
   created_at: timestamp('created_at').$defaultFn(() => new Date()).notNull(),
   updated_at: timestamp('updated_at').$defaultFn(() => new Date()).notNull(),
 });
@@ -1208,10 +1447,31 @@ export const clients = pgTable('clients', {
   updated_at: timestamp('updated_at').$defaultFn(() => new Date()).notNull(),
 });
 
-export const insertClientSchema = createInsertSchema(clients).omit({ id: true, created_at: true, updated_at: true });
+export const insertClientSchema = createInsertSchema(clients)
+  .omit({ id: true, created_at: true, updated_at: true })
+  .extend({
+    phone: phoneField(),
+  });
 export type InsertClient = z.infer<typeof insertClientSchema>;
 export type Client = typeof clients.$inferSelect;
 
+// Record Merges (Журнал объединения дублей) - хранит всё, что нужно для отмены
+export const record_merges = pgTable('record_merges', {
+  id: text('id').$defaultFn(() => genId()).primaryKey(),
+  entity_type: text('entity_type').notNull(), // client, deal_contact
+  survivor_id: text('survivor_id').notNull(),
+  merged_id: text('merged_id').notNull(),
+  survivor_before: text('survivor_before').notNull(), // JSON: запись-получатель до объединения
+  merged_record: text('merged_record').notNull(), // JSON: удалённая запись
+  repointed: text('repointed').notNull(), // JSON: { таблица: [id перенесённых строк] }
+  merged_by: text('merged_by').references(() => users.id, { onDelete: 'set null' }),
+  created_at: timestamp('created_at').$defaultFn(() => new Date()).notNull(),
+  undone_at: timestamp('undone_at'),
+  undone_by: text('undone_by').references(() => users.id, { onDelete: 'set null' }),
+});
+
+export type RecordMerge = typeof record_merges.$inferSelect;
+
 // Installers (Монтажники)
 export const installers = pgTable('installers', {
   id: text('id').$defaultFn(() => genId()).primaryKey(),
@@ -1223,6 +1483,7 @@ export const installers = pgTable('installers', {
   qualification_level: text('qualification_level').default('medium'), // low, medium, high - уровень квалификации
   vehicle_number: text('vehicle_number'), // Номер машины (опционально)
   description: text('description'), // Описание монтажника
+  user_id: text('user_id').references(() => users.id, { onDelete: 'set null' }), // Учётная запись монтажника в системе
   notes: text('notes'),
   is_active: boolean('is_active').default(true).notNull(),
   created_at: timestamp('created_at').$defaultFn(() => new Date()).notNull(),
@@ -1239,6 +1500,7 @@ export const montage_orders = pgTable('montage_orders', {
   order_number: text('order_number'), // M-001, M-002 и т.д.
   project_id: text('project_id').references(() => projects.id, { onDelete: 'cascade' }),
   address: text('address').notNull(),
+  client_id: text('client_id').references(() => clients.id, { onDelete: 'set null' }), // Карточка клиента
   client_name: text('client_name'),
   client_phone: text('client_phone'),
   scheduled_date: text('scheduled_date'), // ISO 8601
@@ -1502,7 +1764,7 @@ export const sip_trunks = pgTable('sip_trunks', {
   // SIP Connection
   termination_uri: text('termination_uri').notNull(), // sip.exolve.ru
   username: text('username'), // SIP username (883140XXX)
-  password: text('password'), // SIP password (encrypted)
+  password: text('password'), // SIP password, шифруется хранилищем секретов (enc:v1:...)
   transport: text('transport').default('udp'), // udp, tcp, tls
 
   // ElevenLabs Integration
@@ -1669,3 +1931,255 @@ export const call_actions = pgTable('call_actions', {
 export const insertCallActionSchema = createInsertSchema(call_actions).omit({ id: true, created_at: true });
 export type InsertCallAction = z.infer<typeof insertCallActionSchema>;
 export type CallAction = typeof call_actions.$inferSelect;
+
+// Webhook Events - входящие вебхуки телефонии (сырое тело хранится для дедупликации и повторной обработки)
+export const webhook_events = pgTable('webhook_events', {
+  id: text('id').$defaultFn(() => genId()).primaryKey(),
+  provider: text('provider').notNull(), // elevenlabs
+  event_id: text('event_id').notNull().unique(), // <provider>:<id события>, без id - <provider>:<SHA-256 тела>
+  event_type: text('event_type'),
+  payload: text('payload').notNull(), // сырое тело запроса, как оно было подписано
+  signed_at: timestamp('signed_at'), // время из подписи
+  status: text('status').default('received').notNull(), // received, processed, failed
+  attempts: integer('attempts').default(0).notNull(),
+  last_error: text('last_error'),
+  received_at: timestamp('received_at').$defaultFn(() => new Date()).notNull(),
+  processed_at: timestamp('processed_at'),
+});
+
+export const insertWebhookEventSchema = createInsertSchema(webhook_events).omit({ id: true, received_at: true });
+export type InsertWebhookEvent = z.infer<typeof insertWebhookEventSchema>;
+export type WebhookEvent = typeof webhook_events.$inferSelect;
+
+// ============ MAIL (IMAP/SMTP) ============
+
+// Mailboxes - почтовые ящики пользователей; входящие забираются по IMAP, ответы уходят по SMTP
+export const mailboxes = pgTable('mailboxes', {
+  id: text('id').$defaultFn(() => genId()).primaryKey(),
+  user_id: text('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(), // владелец, видит только свои ящики
+  email: text('email').notNull(), // адрес отправителя
+  display_name: text('display_name'), // имя в поле From
+
+  imap_host: text('imap_host').notNull(),
+  imap_port: integer('imap_port').default(993).notNull(),
+  imap_secure: boolean('imap_secure').default(true).notNull(), // TLS сразу; false — STARTTLS или без шифрования
+  smtp_host: text('smtp_host').notNull(),
+  smtp_port: integer('smtp_port').default(465).notNull(),
+  smtp_secure: boolean('smtp_secure').default(true).notNull(),
+  username: text('username').notNull(), // логин IMAP и SMTP
+  password: text('password').notNull(), // шифруется хранилищем секретов (enc:v1:...)
+
+  // Синхронизация
+  is_active: boolean('is_active').default(true).notNull(),
+  uid_validity: text('uid_validity'), // UIDVALIDITY папки INBOX; при смене ящик перечитывается
+  last_uid: integer('last_uid').default(0).notNull(), // последний забранный UID
+  last_synced_at: timestamp('last_synced_at'),
+  last_error: text('last_error'), // ошибка последней синхронизации, null — успешно
+
+  created_at: timestamp('created_at').$defaultFn(() => new Date()).notNull(),
+  updated_at: timestamp('updated_at').$defaultFn(() => new Date()).notNull(),
+});
+
+export const insertMailboxSchema = createInsertSchema(mailboxes)
+  .omit({ id: true, user_id: true, uid_validity: true, last_uid: true, last_synced_at: true, last_error: true, created_at: true, updated_at: true })
+  .extend({
+    email: z.string().trim().email('Некорректный email'),
+    imap_host: z.string().trim().min(1, 'Укажите IMAP-сервер'),
+    imap_port: z.coerce.number().int().min(1).max(65535).default(993),
+    imap_secure: z.boolean().default(true),
+    smtp_host: z.string().trim().min(1, 'Укажите SMTP-сервер'),
+    smtp_port: z.coerce.number().int().min(1).max(65535).default(465),
+    smtp_secure: z.boolean().default(true),
+    username: z.string().trim().min(1, 'Укажите логин'),
+    password: z.string().min(1, 'Укажите пароль'),
+  });
+export type InsertMailbox = z.infer<typeof insertMailboxSchema>;
+export type Mailbox = typeof mailboxes.$inferSelect;
+
+export const mailDirectionValues = ['incoming', 'outgoing'] as const;
+export type MailDirection = typeof mailDirectionValues[number];
+
+// Mail Messages - письма ящика; цепочка определяется по In-Reply-To/References
+export const mail_messages = pgTable('mail_messages', {
+  id: text('id').$defaultFn(() => genId()).primaryKey(),
+  mailbox_id: text('mailbox_id').references(() => mailboxes.id, { onDelete: 'cascade' }).notNull(),
+  direction: text('direction').notNull(), // MailDirection
+  uid: integer('uid'), // IMAP UID входящего письма
+  message_id: text('message_id').notNull(), // заголовок Message-ID, уникален в пределах ящика
+  in_reply_to: text('in_reply_to'),
+  thread_id: text('thread_id').notNull(), // Message-ID первого письма цепочки
+  from_address: text('from_address').notNull(),
+  from_name: text('from_name'),
+  to_addresses: text('to_addresses').notNull(), // через запятую
+  cc_addresses: text('cc_addresses'),
+  subject: text('subject'),
+  text: text('text'),
+  html: text('html'),
+  sent_at: timestamp('sent_at').notNull(),
+  is_read: boolean('is_read').default(false).notNull(),
+  deal_id: text('deal_id').references(() => deals.id, { onDelete: 'set null' }),
+  project_id: text('project_id').references(() => projects.id, { onDelete: 'set null' }),
+  deal_message_id: text('deal_message_id').references(() => deal_messages.id, { onDelete: 'set null' }), // копия в ленте сделки
+  sent_by: text('sent_by').references(() => users.id, { onDelete: 'set null' }), // автор исходящего
+  created_at: timestamp('created_at').$defaultFn(() => new Date()).notNull(),
+});
+
+export const insertMailMessageSchema = createInsertSchema(mail_messages).omit({ id: true, created_at: true });
+export type InsertMailMessage = z.infer<typeof insertMailMessageSchema>;
+export type MailMessage = typeof mail_messages.$inferSelect;
+
+// Mail Attachments - вложения писем, файлы лежат в локальном хранилище (/objects/...)
+export const mail_attachments = pgTable('mail_attachments', {
+  id: text('id').$defaultFn(() => genId()).primaryKey(),
+  message_id: text('message_id').references(() => mail_messages.id, { onDelete: 'cascade' }).notNull(),
+  file_name: text('file_name').notNull(),
+  file_path: text('file_path').notNull(),
+  file_size: integer('file_size'),
+  mime_type: text('mime_type'),
+  created_at: timestamp('created_at').$defaultFn(() => new Date()).notNull(),
+});
+
+export const insertMailAttachmentSchema = createInsertSchema(mail_attachments).omit({ id: true, created_at: true });
+export type InsertMailAttachment = z.infer<typeof insertMailAttachmentSchema>;
+export type MailAttachment = typeof mail_attachments.$inferSelect;
+
+// ============ MESSENGERS ============
+
+export const messengerTypeValues = ['telegram'] as const;
+export type MessengerType = typeof messengerTypeValues[number];
+
+// Messenger Channels - подключённые боты; новые собеседники оформляются заявками источника
+export const messenger_channels = pgTable('messenger_channels', {
+  id: text('id').$defaultFn(() => genId()).primaryKey(),
+  type: text('type').notNull(), // MessengerType
+  name: text('name').notNull(),
+  token: text('token').notNull(), // токен бота, шифруется хранилищем секретов (enc:v1:...)
+  webhook_secret: text('webhook_secret').notNull(), // мессенджер присылает его в заголовке вебхука
+  account_name: text('account_name'), // @username бота
+  lead_source_id: text('lead_source_id').references(() => lead_sources.id).notNull(), // воронка, этап и распределение новых сделок
+  is_active: boolean('is_active').default(true).notNull(),
+  last_error: text('last_error'), // ошибка подключения вебхука, null — подключён
+  last_message_at: timestamp('last_message_at'),
+  created_by: text('created_by').references(() => users.id, { onDelete: 'set null' }),
+  created_at: timestamp('created_at').$defaultFn(() => new Date()).notNull(),
+  updated_at: timestamp('updated_at').$defaultFn(() => new Date()).notNull(),
+});
+
+export const insertMessengerChannelSchema = createInsertSchema(messenger_channels)
+  .omit({ id: true, webhook_secret: true, account_name: true, last_error: true, last_message_at: true, created_by: true, created_at: true, updated_at: true })
+  .extend({
+    type: z.enum(messengerTypeValues).default('telegram'),
+    name: z.string().trim().min(1, 'Название обязательно'),
+    token: z.string().trim().min(1, 'Укажите токен бота'),
+    lead_source_id: z.string().min(1, 'Выберите источник заявок'),
+  });
+export type InsertMessengerChannel = z.infer<typeof insertMessengerChannelSchema>;
+export type MessengerChannel = typeof messenger_channels.$inferSelect;
+
+// Messenger Chats - собеседник канала и его текущая сделка
+export const messenger_chats = pgTable('messenger_chats', {
+  id: text('id').$defaultFn(() => genId()).primaryKey(),
+  channel_id: text('channel_id').references(() => messenger_channels.id, { onDelete: 'cascade' }).notNull(),
+  external_chat_id: text('external_chat_id').notNull(), // id чата в мессенджере, уникален в пределах канала
+  deal_id: text('deal_id').references(() => deals.id, { onDelete: 'set null' }),
+  client_id: text('client_id').references(() => clients.id, { onDelete: 'set null' }),
+  name: text('name'),
+  username: text('username'),
+  phone: text('phone'), // приходит, если клиент поделился контактом
+  last_message_at: timestamp('last_message_at'),
+  created_at: timestamp('created_at').$defaultFn(() => new Date()).notNull(),
+});
+
+export const insertMessengerChatSchema = createInsertSchema(messenger_chats).omit({ id: true, created_at: true });
+export type InsertMessengerChat = z.infer<typeof insertMessengerChatSchema>;
+export type MessengerChat = typeof messenger_chats.$inferSelect;
+
+// ============ CATALOG ============
+
+export const catalogItemKindValues = ['product', 'service'] as const;
+export type CatalogItemKind = typeof catalogItemKindValues[number];
+
+// Price Lists - розница, дилерский и т.п.; у позиции каталога своя цена в каждом прайс-листе
+export const price_lists = pgTable('price_lists', {
+  id: text('id').$defaultFn(() => genId()).primaryKey(),
+  name: text('name').notNull(),
+  is_default: boolean('is_default').default(false).notNull(), // подставляется в новые КП
+  is_active: boolean('is_active').default(true).notNull(),
+  created_at: timestamp('created_at').$defaultFn(() => new Date()).notNull(),
+  updated_at: timestamp('updated_at').$defaultFn(() => new Date()).notNull(),
+});
+
+export const insertPriceListSchema = createInsertSchema(price_lists)
+  .omit({ id: true, created_at: true, updated_at: true })
+  .extend({
+    name: z.string().trim().min(1, 'Название обязательно'),
+  });
+export type InsertPriceList = z.infer<typeof insertPriceListSchema>;
+export type PriceList = typeof price_lists.$inferSelect;
+
+// Catalog Items - товары и услуги, из которых собираются КП и счета
+export const catalog_items = pgTable('catalog_items', {
+  id: text('id').$defaultFn(() => genId()).primaryKey(),
+  kind: text('kind').notNull().default('product'), // CatalogItemKind; услуги идут в документе отдельным блоком
+  sku: text('sku'),
+  name: text('name').notNull(),
+  description: text('description'),
+  category: text('category'),
+  unit: text('unit').notNull().default('шт'),
+  is_active: boolean('is_active').default(true).notNull(),
+  created_at: timestamp('created_at').$defaultFn(() => new Date()).notNull(),
+  updated_at: timestamp('updated_at').$defaultFn(() => new Date()).notNull(),
+});
+
+export const insertCatalogItemSchema = createInsertSchema(catalog_items)
+  .omit({ id: true, created_at: true, updated_at: true })
+  .extend({
+    kind: z.enum(catalogItemKindValues).default('product'),
+    name: z.string().trim().min(1, 'Название обязательно'),
+    unit: z.string().trim().min(1).default('шт'),
+    // Цены по прайс-листам; прайс-лист без цены — позиция в нём не продаётся
+    prices: z.array(z.object({
+      price_list_id: z.string().min(1),
+      price: z.coerce.number().min(0, 'Цена не может быть отрицательной'),
+    })).optional(),
+  });
+export type InsertCatalogItem = z.infer<typeof insertCatalogItemSchema>;
+export type CatalogItem = typeof catalog_items.$inferSelect;
+
+// Catalog Prices - цена позиции в прайс-листе
+export const catalog_prices = pgTable('catalog_prices', {
+  id: text('id').$defaultFn(() => genId()).primaryKey(),
+  item_id: text('item_id').references(() => catalog_items.id, { onDelete: 'cascade' }).notNull(),
+  price_list_id: text('price_list_id').references(() => price_lists.id, { onDelete: 'cascade' }).notNull(),
+  price: real('price').notNull(),
+  updated_at: timestamp('updated_at').$defaultFn(() => new Date()).notNull(),
+});
+
+export type CatalogPrice = typeof catalog_prices.$inferSelect;
+
+// ============ NUMBERING ============
+
+// Number Sequences - нумераторы документов (формат и подстановки — @shared/numbering).
+// Номер выдаётся UPDATE ... RETURNING в транзакции создания документа: строка блокируется
+// до коммита, при откате счётчик возвращается — номера идут без пропусков и повторов
+export const number_sequences = pgTable('number_sequences', {
+  id: text('id').$defaultFn(() => genId()).primaryKey(),
+  key: text('key').notNull().unique(), // NumberSequenceKey
+  prefix: text('prefix').notNull().default(''),
+  suffix: text('suffix').notNull().default(''),
+  padding: integer('padding').notNull().default(0), // минимум цифр счётчика, дополняется нулями
+  next_value: integer('next_value').notNull().default(1),
+  reset_yearly: boolean('reset_yearly').notNull().default(false), // с 1 января счётчик начинается с 1
+  current_year: integer('current_year'), // год последнего выданного номера
+  updated_at: timestamp('updated_at').$defaultFn(() => new Date()).notNull(),
+});
+
+export const updateNumberSequenceSchema = z.object({
+  prefix: z.string().max(50),
+  suffix: z.string().max(50),
+  padding: z.coerce.number().int().min(0).max(10),
+  next_value: z.coerce.number().int().min(1, 'Следующий номер должен быть не меньше 1'),
+  reset_yearly: z.boolean(),
+}).partial();
+export type UpdateNumberSequence = z.infer<typeof updateNumberSequenceSchema>;
+export type NumberSequence = typeof number_sequences.$inferSelect;
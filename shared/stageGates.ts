@@ -0,0 +1,73 @@
+import { z } from 'zod';
+
+// Условия входа сделки в этап воронки (deal_stages.entry_requirements, JSON)
+
+// Поля сделки, которые можно сделать обязательными для этапа
+export const DEAL_REQUIRED_FIELDS = {
+  amount: 'Сумма',
+  contact_phone: 'Телефон',
+  contact_email: 'Email',
+  company: 'Компания',
+  manager_id: 'Менеджер',
+  deadline: 'Срок',
+  client_id: 'Карточка клиента',
+} as const;
+
+export type DealRequiredField = keyof typeof DEAL_REQUIRED_FIELDS;
+
+export const stageEntryRequirementsSchema = z.object({
+  required_fields: z.array(z.enum(Object.keys(DEAL_REQUIRED_FIELDS) as [DealRequiredField, ...DealRequiredField[]])).default([]),
+  // "required" — все доп. поля воронки с is_required, либо список id конкретных полей
+  custom_fields: z.union([z.literal('required'), z.array(z.string())]).nullable().default(null),
+  signed_contract: z.boolean().default(false),
+  invoice: z.boolean().default(false),
+});
+
+export type StageEntryRequirements = z.infer<typeof stageEntryRequirementsSchema>;
+
+export type UnmetConditionCode = 'deal_field' | 'custom_field' | 'signed_contract' | 'invoice';
+
+// Невыполненное условие: возвращается клиенту в ответе 422 и показывается списком
+export interface UnmetCondition {
+  code: UnmetConditionCode;
+  message: string;
+  // Поле сделки или id определения доп. поля
+  field?: string;
+}
+
+// Сделка, оставшаяся на месте при массовой смене этапа
+export interface BlockedDeal {
+  deal_id: string;
+  client_name: string;
+  unmet: UnmetCondition[];
+}
+
+export interface StageGateBlocked {
+  error: string;
+  code: 'STAGE_REQUIREMENTS_NOT_MET';
+  stage: string;
+  unmet: UnmetCondition[];
+  blocked?: BlockedDeal[];
+}
+
+/**
+ * Условия этапа из колонки; пустое или битое значение — этап без условий
+ */
+export function parseStageEntryRequirements(value: string | null | undefined): StageEntryRequirements | null {
+  if (!value) return null;
+  try {
+    const parsed = stageEntryRequirementsSchema.safeParse(JSON.parse(value));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
+export function hasEntryRequirements(requirements: StageEntryRequirements | null): boolean {
+  return !!requirements && (
+    requirements.required_fields.length > 0 ||
+    requirements.custom_fields !== null ||
+    requirements.signed_contract ||
+    requirements.invoice
+  );
+}
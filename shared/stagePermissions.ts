@@ -0,0 +1,107 @@
+// Права ролей проекта (user_roles.role) на действия с этапами по коду типа этапа (stage_types.code)
+
+export type StageAction = 'read' | 'write' | 'delete' | 'start' | 'complete';
+
+export interface StageActionFlags {
+  can_read: boolean;
+  can_write: boolean;
+  can_delete: boolean;
+  can_start: boolean;
+  can_complete: boolean;
+}
+
+// Матрица разрешений по умолчанию: role × stage_type_code
+export interface DefaultPermissionMatrix {
+  [role: string]: {
+    [stageTypeCode: string]: StageActionFlags;
+  };
+}
+
+// Дефолтная матрица разрешений
+export const DEFAULT_PERMISSIONS: DefaultPermissionMatrix = {
+  project_manager: {
+    // Руководитель проекта - полный доступ ко всем этапам
+    measurement: { can_read: true, can_write: true, can_delete: true, can_start: true, can_complete: true },
+    tz: { can_read: true, can_write: true, can_delete: true, can_start: true, can_complete: true },
+    kd: { can_read: true, can_write: true, can_delete: true, can_start: true, can_complete: true },
+    approval: { can_read: true, can_write: true, can_delete: true, can_start: true, can_complete: true },
+    procurement: { can_read: true, can_write: true, can_delete: true, can_start: true, can_complete: true },
+    production: { can_read: true, can_write: true, can_delete: true, can_start: true, can_complete: true },
+    installation: { can_read: true, can_write: true, can_delete: true, can_start: true, can_complete: true },
+  },
+  measurer: {
+    // Замерщик - полный доступ только к этапу Замер
+    measurement: { can_read: true, can_write: true, can_delete: false, can_start: true, can_complete: true },
+    tz: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
+    kd: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
+    approval: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
+    procurement: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
+    production: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
+    installation: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
+  },
+  constructor: {
+    // Конструктор - полный доступ к ТЗ и КД
+    measurement: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
+    tz: { can_read: true, can_write: true, can_delete: false, can_start: true, can_complete: true },
+    kd: { can_read: true, can_write: true, can_delete: false, can_start: true, can_complete: true },
+    approval: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
+    procurement: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
+    production: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
+    installation: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
+  },
+  procurement: {
+    // Снабженец - полный доступ к этапу Снабжение
+    measurement: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
+    tz: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
+    kd: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
+    approval: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
+    procurement: { can_read: true, can_write: true, can_delete: false, can_start: true, can_complete: true },
+    production: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
+    installation: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
+  },
+  production: {
+    // Производство - полный доступ к этапу Производство
+    measurement: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
+    tz: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
+    kd: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
+    approval: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
+    procurement: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
+    production: { can_read: true, can_write: true, can_delete: false, can_start: true, can_complete: true },
+    installation: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
+  },
+  installer: {
+    // Монтажник - полный доступ к этапу Монтаж
+    measurement: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
+    tz: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
+    kd: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
+    approval: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
+    procurement: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
+    production: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
+    installation: { can_read: true, can_write: true, can_delete: false, can_start: true, can_complete: true },
+  },
+  client: {
+    // Клиент - только чтение, плюс согласование документов
+    measurement: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
+    tz: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
+    kd: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
+    approval: { can_read: true, can_write: true, can_delete: false, can_start: false, can_complete: false }, // может согласовывать
+    procurement: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
+    production: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
+    installation: { can_read: true, can_write: false, can_delete: false, can_start: false, can_complete: false },
+  },
+};
+
+export const PROJECT_ROLES = Object.keys(DEFAULT_PERMISSIONS);
+
+// Откуда взяты права пользователя на этап
+export type StagePermissionSource = 'admin' | 'manager' | 'roles' | 'module';
+
+// Итоговые права пользователя на конкретный этап проекта
+export interface EffectiveStagePermission extends StageActionFlags {
+  stage_id: string;
+  stage_name: string;
+  stage_type_code: string | null;
+  source: StagePermissionSource;
+  roles: string[]; // роли user_roles (проектные и глобальные), давшие права
+  is_assignee: boolean;
+}
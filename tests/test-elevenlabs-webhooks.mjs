@@ -0,0 +1,154 @@
+// Posts signed ElevenLabs fixture payloads to a running server and checks
+// signature verification, replay protection and failed-event reprocessing.
+//
+// Usage: ELEVENLABS_WEBHOOK_SECRET=... node tests/test-elevenlabs-webhooks.mjs
+// Optional: TEST_USERNAME / TEST_PASSWORD (user with telephony access) to check reprocessing via the inbox API.
+import { createHmac } from 'crypto';
+import { readFileSync } from 'fs';
+import { nanoid } from 'nanoid';
+
+const BASE_URL = process.env.BASE_URL || 'http://localhost:5000/api';
+const WEBHOOK_URL = `${BASE_URL}/telephony/webhooks/elevenlabs`;
+const SECRET = process.env.ELEVENLABS_WEBHOOK_SECRET;
+const RUN_ID = nanoid(8);
+
+const testResults = {
+  passed: [],
+  failed: []
+};
+
+if (!SECRET) {
+  console.error('ELEVENLABS_WEBHOOK_SECRET must be set to the same value as on the server');
+  process.exit(1);
+}
+
+// Each run gets its own event and conversation ids so earlier runs are not reported as duplicates
+function loadFixture(name) {
+  const payload = JSON.parse(readFileSync(new URL(`./fixtures/elevenlabs/${name}.json`, import.meta.url), 'utf8'));
+  if (payload.event_id) payload.event_id = `${payload.event_id}_${RUN_ID}`;
+  if (payload.conversation_id) payload.conversation_id = `${payload.conversation_id}_${RUN_ID}`;
+  return JSON.stringify(payload);
+}
+
+function sign(body, timestamp = Math.floor(Date.now() / 1000), secret = SECRET) {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v0=${signature}`;
+}
+
+async function postWebhook(body, signature) {
+  const headers = { 'Content-Type': 'application/json' };
+  if (signature) headers['ElevenLabs-Signature'] = signature;
+
+  const response = await fetch(WEBHOOK_URL, { method: 'POST', headers, body });
+  const data = await response.json().catch(() => null);
+  return { status: response.status, data };
+}
+
+function check(description, condition, details) {
+  if (condition) {
+    console.log(`✅ PASSED: ${description}`);
+    testResults.passed.push(description);
+  } else {
+    console.log(`❌ FAILED: ${description}`);
+    if (details) console.log(`   ${JSON.stringify(details)}`);
+    testResults.failed.push({ description, details });
+  }
+}
+
+async function testSignatureVerification() {
+  console.log('\n🔐 Signature verification');
+  const body = loadFixture('conversation-started');
+
+  let result = await postWebhook(body, null);
+  check('Missing signature is rejected with 401', result.status === 401, result);
+
+  result = await postWebhook(body, sign(body, undefined, 'wrong-secret'));
+  check('Signature with a wrong secret is rejected with 401', result.status === 401, result);
+
+  result = await postWebhook(body, sign(`${body} `));
+  check('Signature of a different body is rejected with 401', result.status === 401, result);
+
+  result = await postWebhook(body, sign(body, Math.floor(Date.now() / 1000) - 31 * 60));
+  check('Stale signature timestamp is rejected with 401', result.status === 401, result);
+}
+
+async function testIdempotency() {
+  console.log('\n🔁 Idempotency');
+
+  for (const name of ['conversation-started', 'conversation-ended', 'conversation-failed']) {
+    const body = loadFixture(name);
+
+    let result = await postWebhook(body, sign(body));
+    check(`${name}: first delivery is processed`, result.status === 200 && result.data?.received && !result.data?.duplicate, result);
+
+    // A retry is signed again with a fresh timestamp
+    result = await postWebhook(body, sign(body, Math.floor(Date.now() / 1000) + 1));
+    check(`${name}: retry is acknowledged as duplicate`, result.status === 200 && result.data?.duplicate === true, result);
+  }
+}
+
+async function login() {
+  const response = await fetch(`${BASE_URL}/auth/login`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username: process.env.TEST_USERNAME, password: process.env.TEST_PASSWORD })
+  });
+  if (!response.ok) return null;
+  return response.headers.getSetCookie().map(cookie => cookie.split(';')[0]).join('; ');
+}
+
+async function testFailedEvents() {
+  console.log('\n🧯 Failed events');
+  const body = loadFixture('conversation-ended-invalid');
+
+  let result = await postWebhook(body, sign(body));
+  check('Event that cannot be applied returns 500 so the sender retries', result.status === 500 && result.data?.event_id, result);
+  const eventId = result.data?.event_id;
+
+  result = await postWebhook(body, sign(body));
+  check('Retry of a failed event is processed again, not skipped as duplicate', result.status === 500 && result.data?.event_id === eventId, result);
+
+  if (!process.env.TEST_USERNAME || !process.env.TEST_PASSWORD) {
+    console.log('⏭️  TEST_USERNAME / TEST_PASSWORD not set, inbox API checks skipped');
+    return;
+  }
+
+  const cookie = await login();
+  check('Login for inbox API checks', !!cookie);
+  if (!cookie) return;
+
+  const inbox = await fetch(`${BASE_URL}/telephony/webhook-events?status=failed`, { headers: { Cookie: cookie } });
+  const events = await inbox.json().catch(() => []);
+  const stored = Array.isArray(events) ? events.find(event => event.id === eventId) : null;
+  check('Failed event is listed in the inbox with its attempts and error', stored?.attempts === 2 && !!stored?.last_error, stored);
+
+  const reprocess = await fetch(`${BASE_URL}/telephony/webhook-events/${eventId}/reprocess`, {
+    method: 'POST',
+    headers: { Cookie: cookie }
+  });
+  const reprocessed = await reprocess.json().catch(() => null);
+  check('Reprocessing an event that still fails returns 422 and counts the attempt', reprocess.status === 422 && reprocessed?.attempts === 3, reprocessed);
+}
+
+async function runTests() {
+  console.log(`🚀 ElevenLabs webhook tests against ${WEBHOOK_URL} (run ${RUN_ID})`);
+
+  await testSignatureVerification();
+  await testIdempotency();
+  await testFailedEvents();
+
+  console.log('\n📊 TEST SUMMARY');
+  console.log(`✅ Passed: ${testResults.passed.length}`);
+  console.log(`❌ Failed: ${testResults.failed.length}`);
+
+  if (testResults.failed.length > 0) {
+    console.log('\n❌ FAILED TESTS:');
+    testResults.failed.forEach(test => console.log(`  - ${test.description}`));
+    process.exit(1);
+  }
+}
+
+runTests().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -4,6 +4,7 @@ import fs from 'fs';
 
 const BASE_URL = 'http://localhost:5000/api';
 let authHeaders = {};
+let currentUserId = null;
 let testResults = {
   passed: [],
   failed: [],
@@ -85,8 +86,13 @@ async function runTests() {
   });
 
   const loginData = await loginResponse.json();
-  if (loginData.user && loginData.user.id) {
-    authHeaders['X-User-ID'] = loginData.user.id;
+  // The server identifies the user by the emerald_session cookie set on login
+  const sessionCookie = (loginResponse.headers.raw()['set-cookie'] || [])
+    .map(cookie => cookie.split(';')[0])
+    .find(cookie => cookie.startsWith('emerald_session='));
+  if (loginData.user && loginData.user.id && sessionCookie) {
+    authHeaders['Cookie'] = sessionCookie;
+    currentUserId = loginData.user.id;
     console.log('✅ Authentication successful');
     testResults.passed.push('Authentication');
   } else {
@@ -99,7 +105,7 @@ async function runTests() {
   console.log('-'.repeat(40));
 
   await testEndpoint('GET', '/users', null, 'Get all users');
-  await testEndpoint('GET', `/users/${authHeaders['X-User-ID']}`, null, 'Get current user');
+  await testEndpoint('GET', `/users/${currentUserId}`, null, 'Get current user');
 
   const newUser = await testEndpoint('POST', '/users', {
     username: `testuser_${nanoid(6)}`,
@@ -265,8 +271,8 @@ async function runTests() {
     const newShipment = await testEndpoint('POST', '/shipments', {
       project_id: testData.project.id,
       project_name: 'Test Project',  // Fixed: added required field
-      warehouse_keeper: authHeaders['X-User-ID'],  // Fixed: added required field
-      created_by: authHeaders['X-User-ID'],  // Fixed: added required field
+      warehouse_keeper: currentUserId,  // Fixed: added required field
+      created_by: currentUserId,  // Fixed: added required field
       status: 'draft',  // Fixed: changed from 'pending' to 'draft'
       scheduled_date: new Date(Date.now() + 24*60*60*1000).toISOString(),
       address: 'Delivery Address',
@@ -292,8 +298,8 @@ async function runTests() {
     description: 'Test task description',
     priority: 'medium',
     status: 'new',
-    assignee_id: authHeaders['X-User-ID'],
-    created_by: authHeaders['X-User-ID'],
+    assignee_id: currentUserId,
+    created_by: currentUserId,
     deadline: new Date(Date.now() + 3*24*60*60*1000).toISOString()
   }, 'Create task');
 
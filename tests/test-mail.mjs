@@ -0,0 +1,493 @@
+// Runs the mail module against local SMTP and IMAP stand-ins started by this script and checks
+// sync of incoming mail into deal feeds, thread linking and replies with attachments.
+//
+// Usage: node tests/test-mail.mjs (the server must reach MAIL_STANDIN_HOST, 127.0.0.1 by default)
+// Optional: TEST_USERNAME / TEST_PASSWORD (user who can create deals and mailboxes), Admin by default.
+import { createServer } from 'net';
+import { nanoid } from 'nanoid';
+import { simpleParser } from 'mailparser';
+
+const BASE_URL = process.env.BASE_URL || 'http://localhost:5000/api';
+const STANDIN_HOST = process.env.MAIL_STANDIN_HOST || '127.0.0.1';
+const RUN_ID = nanoid(8);
+
+const MAIL_USER = `mailbox-${RUN_ID}`;
+const MAIL_PASSWORD = `secret-${RUN_ID}`;
+const MAILBOX_EMAIL = `${MAIL_USER}@example.test`;
+const CLIENT_EMAIL = `client-${RUN_ID}@example.test`.toLowerCase();
+
+const testResults = {
+  passed: [],
+  failed: []
+};
+
+let cookie = null;
+
+function check(description, condition, details) {
+  if (condition) {
+    console.log(`✅ PASSED: ${description}`);
+    testResults.passed.push(description);
+  } else {
+    console.log(`❌ FAILED: ${description}`);
+    if (details) console.log(`   ${JSON.stringify(details)}`);
+    testResults.failed.push({ description, details });
+  }
+}
+
+// Minimal SMTP server: accepts AUTH PLAIN/LOGIN and keeps every message it receives
+function startSmtpStandIn({ username, password }) {
+  const received = [];
+
+  const server = createServer(socket => {
+    let buffer = '';
+    let data = null;
+    let authStep = null;
+    let envelope = { from: null, to: [] };
+    const reply = line => socket.write(`${line}\r\n`);
+    const checkPlain = encoded => {
+      const [, user, pass] = Buffer.from(encoded, 'base64').toString().split('\0');
+      return user === username && pass === password;
+    };
+
+    reply('220 standin ESMTP');
+
+    socket.on('data', chunk => {
+      buffer += chunk.toString('binary');
+      let index;
+      while ((index = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+
+        if (data) {
+          if (line === '.') {
+            received.push({ ...envelope, raw: Buffer.from(data.join('\r\n'), 'binary') });
+            data = null;
+            envelope = { from: null, to: [] };
+            reply('250 2.0.0 Queued');
+          } else {
+            data.push(line.startsWith('..') ? line.slice(1) : line);
+          }
+          continue;
+        }
+
+        if (authStep === 'plain') {
+          authStep = null;
+          reply(checkPlain(line) ? '235 2.7.0 Authenticated' : '535 5.7.8 Invalid credentials');
+          continue;
+        }
+        if (authStep === 'login-user') {
+          authStep = Buffer.from(line, 'base64').toString();
+          reply('334 UGFzc3dvcmQ6');
+          continue;
+        }
+        if (authStep) {
+          const user = authStep;
+          authStep = null;
+          reply(user === username && Buffer.from(line, 'base64').toString() === password
+            ? '235 2.7.0 Authenticated'
+            : '535 5.7.8 Invalid credentials');
+          continue;
+        }
+
+        const [command, ...args] = line.split(' ');
+        switch (command.toUpperCase()) {
+          case 'EHLO':
+            reply('250-standin');
+            reply('250-AUTH PLAIN LOGIN');
+            reply('250 8BITMIME');
+            break;
+          case 'HELO':
+            reply('250 standin');
+            break;
+          case 'AUTH':
+            if (args[0]?.toUpperCase() === 'PLAIN' && args[1]) {
+              reply(checkPlain(args[1]) ? '235 2.7.0 Authenticated' : '535 5.7.8 Invalid credentials');
+            } else if (args[0]?.toUpperCase() === 'PLAIN') {
+              authStep = 'plain';
+              reply('334 ');
+            } else {
+              authStep = 'login-user';
+              reply('334 VXNlcm5hbWU6');
+            }
+            break;
+          case 'MAIL':
+            envelope.from = line.match(/<([^>]*)>/)?.[1] || null;
+            reply('250 2.1.0 OK');
+            break;
+          case 'RCPT':
+            envelope.to.push(line.match(/<([^>]*)>/)?.[1]);
+            reply('250 2.1.5 OK');
+            break;
+          case 'DATA':
+            data = [];
+            reply('354 End data with <CR><LF>.<CR><LF>');
+            break;
+          case 'QUIT':
+            reply('221 2.0.0 Bye');
+            socket.end();
+            break;
+          default:
+            reply('250 OK');
+        }
+      }
+    });
+    socket.on('error', () => {});
+  });
+
+  return { server, received };
+}
+
+// Minimal IMAP server with a single INBOX: enough for LOGIN, SELECT, UID SEARCH and UID FETCH of whole messages
+function startImapStandIn({ username, password }) {
+  const messages = [];
+
+  const server = createServer(socket => {
+    let buffer = '';
+    const send = line => socket.write(`${line}\r\n`);
+    const unquote = value => value?.replace(/^"(.*)"$/, '$1').replace(/\\(.)/g, '$1');
+
+    // "1", "3:*", "1,4:6" → UIDs of stored messages
+    const uidsInSet = set => messages.map(message => message.uid).filter(uid => set.split(',').some(range => {
+      const [start, end] = range.split(':');
+      const last = end === undefined ? Number(start) : end === '*' ? Infinity : Number(end);
+      return uid >= Number(start) && uid <= last;
+    }));
+
+    send('* OK [CAPABILITY IMAP4rev1] Stand-in ready');
+
+    socket.on('data', chunk => {
+      buffer += chunk.toString('binary');
+      let index;
+      while ((index = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+
+        const [tag, rawCommand, ...args] = line.match(/"(?:[^"\\]|\\.)*"|\S+/g) || [];
+        if (!tag) continue;
+        let command = rawCommand?.toUpperCase();
+        if (command === 'UID') command = `UID ${args.shift()?.toUpperCase()}`;
+
+        switch (command) {
+          case 'CAPABILITY':
+            send('* CAPABILITY IMAP4rev1');
+            send(`${tag} OK CAPABILITY completed`);
+            break;
+          case 'LOGIN':
+            if (unquote(args[0]) === username && unquote(args[1]) === password) {
+              send(`${tag} OK [CAPABILITY IMAP4rev1] Logged in`);
+            } else {
+              send(`${tag} NO [AUTHENTICATIONFAILED] Invalid credentials`);
+            }
+            break;
+          case 'LIST':
+            send('* LIST (\\HasNoChildren) "/" INBOX');
+            send(`${tag} OK LIST completed`);
+            break;
+          case 'SELECT':
+          case 'EXAMINE':
+            send('* FLAGS (\\Seen \\Answered \\Flagged \\Deleted \\Draft)');
+            send('* OK [PERMANENTFLAGS (\\Seen \\Answered \\Flagged \\Deleted \\Draft)] Flags permitted');
+            send(`* ${messages.length} EXISTS`);
+            send('* 0 RECENT');
+            send('* OK [UIDVALIDITY 20261019] UIDs valid');
+            send(`* OK [UIDNEXT ${messages.length + 1}] Predicted next UID`);
+            send(`${tag} OK [${command === 'SELECT' ? 'READ-WRITE' : 'READ-ONLY'}] ${command} completed`);
+            break;
+          case 'UID SEARCH': {
+            const uidIndex = args.findIndex(arg => arg.toUpperCase() === 'UID');
+            const uids = uidIndex === -1 ? messages.map(message => message.uid) : uidsInSet(args[uidIndex + 1]);
+            send(`* SEARCH${uids.map(uid => ` ${uid}`).join('')}`);
+            send(`${tag} OK SEARCH completed`);
+            break;
+          }
+          case 'UID FETCH':
+            for (const uid of uidsInSet(args[0])) {
+              const raw = messages[uid - 1].raw;
+              socket.write(`* ${uid} FETCH (UID ${uid} BODY[] {${raw.length}}\r\n`);
+              socket.write(raw);
+              send(')');
+            }
+            send(`${tag} OK FETCH completed`);
+            break;
+          case 'LOGOUT':
+            send('* BYE Logging out');
+            send(`${tag} OK LOGOUT completed`);
+            socket.end();
+            break;
+          default:
+            send(`${tag} OK ${command || ''} completed`);
+        }
+      }
+    });
+    socket.on('error', () => {});
+  });
+
+  return {
+    server,
+    // UID = position in the mailbox, messages are never expunged
+    deliver: raw => messages.push({ uid: messages.length + 1, raw: Buffer.from(raw) }),
+  };
+}
+
+function listen(server) {
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(0, STANDIN_HOST, () => resolve(server.address().port));
+  });
+}
+
+function buildMessage({ from, subject, messageId, inReplyTo, text }) {
+  const headers = [
+    `From: ${from}`,
+    `To: ${MAILBOX_EMAIL}`,
+    `Subject: =?UTF-8?B?${Buffer.from(subject).toString('base64')}?=`,
+    `Message-ID: ${messageId}`,
+    `Date: ${new Date().toUTCString()}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+  ];
+  if (inReplyTo) headers.push(`In-Reply-To: ${inReplyTo}`, `References: ${inReplyTo}`);
+  return `${headers.join('\r\n')}\r\n\r\n${text}\r\n`;
+}
+
+async function login() {
+  const response = await fetch(`${BASE_URL}/auth/login`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      username: process.env.TEST_USERNAME || 'Admin',
+      password: process.env.TEST_PASSWORD || 'Bereg2025'
+    })
+  });
+  if (!response.ok) return null;
+  return response.headers.getSetCookie().map(cookie => cookie.split(';')[0]).join('; ');
+}
+
+async function api(method, path, body) {
+  const headers = { Cookie: cookie };
+  if (body !== undefined && !(body instanceof FormData)) headers['Content-Type'] = 'application/json';
+
+  const response = await fetch(`${BASE_URL}${path}`, {
+    method,
+    headers,
+    body: body === undefined || body instanceof FormData ? body : JSON.stringify(body)
+  });
+  const data = await response.json().catch(() => null);
+  return { status: response.status, data };
+}
+
+async function waitFor(condition, timeoutMs = 15000) {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    const value = await condition();
+    if (value) return value;
+    await new Promise(resolve => setTimeout(resolve, 250));
+  }
+  return null;
+}
+
+const emailsOf = messages => (Array.isArray(messages) ? messages : []).filter(message => message.message_type === 'email');
+
+async function testMailFlow(smtp, imap, { smtpPort, imapPort }, created) {
+  cookie = await login();
+  check('Login', !!cookie);
+  if (!cookie) return;
+
+  console.log('\n🧾 Deals and mailbox');
+  // The order number is set explicitly: the server's numbering format may add a prefix
+  const orderNumber = String(Date.now()).slice(-9);
+  let result = await api('POST', '/deals', { client_name: `Mail client ${RUN_ID}`, contact_email: CLIENT_EMAIL });
+  check('Deal linked by client address is created', result.status === 201 || result.status === 200, result);
+  const dealByAddress = result.data;
+  if (dealByAddress?.id) created.deals.push(dealByAddress.id);
+
+  result = await api('POST', '/deals', { client_name: `Mail order ${RUN_ID}`, order_number: orderNumber });
+  check('Deal linked by order number is created', result.data?.order_number === orderNumber, result);
+  const dealByOrder = result.data;
+  if (dealByOrder?.id) created.deals.push(dealByOrder.id);
+  if (!dealByAddress?.id || !dealByOrder?.id) return;
+
+  const mailboxSettings = {
+    email: MAILBOX_EMAIL,
+    display_name: `Mail test ${RUN_ID}`,
+    imap_host: STANDIN_HOST,
+    imap_port: imapPort,
+    imap_secure: false,
+    smtp_host: STANDIN_HOST,
+    smtp_port: smtpPort,
+    smtp_secure: false,
+    username: MAIL_USER,
+  };
+
+  result = await api('POST', '/mailboxes', { ...mailboxSettings, password: 'wrong-password' });
+  check('Mailbox with wrong credentials is rejected', result.status >= 400 && result.status < 500, result);
+
+  result = await api('POST', '/mailboxes', { ...mailboxSettings, password: MAIL_PASSWORD });
+  check('Mailbox is connected after IMAP and SMTP login', result.status === 201 && !!result.data?.id, result);
+  const mailbox = result.data;
+  if (!mailbox?.id) return;
+  created.mailboxId = mailbox.id;
+
+  // The initial sync runs in the background; mail is delivered after it so the explicit sync picks it up
+  const synced = await waitFor(async () => {
+    const { data } = await api('GET', '/mailboxes');
+    return Array.isArray(data) && data.find(item => item.id === mailbox.id && item.last_synced_at);
+  });
+  check('Initial background sync finishes without error', !!synced && !synced.last_error, synced);
+
+  console.log('\n📥 Incoming mail');
+  const byAddressId = `<address-${RUN_ID}@example.test>`;
+  const byOrderId = `<order-${RUN_ID}@example.test>`;
+  imap.deliver(buildMessage({
+    from: `Клиент <${CLIENT_EMAIL}>`,
+    subject: 'Вопрос по доставке',
+    messageId: byAddressId,
+    text: 'Когда привезут заказ?'
+  }));
+  imap.deliver(buildMessage({
+    from: `supplier-${RUN_ID}@example.test`,
+    subject: `Счёт по заказу №${orderNumber}`,
+    messageId: byOrderId,
+    text: 'Счёт во вложении письма поставщика.'
+  }));
+
+  result = await api('POST', `/mailboxes/${mailbox.id}/sync`);
+  check('Sync receives both new messages', result.status === 200 && result.data?.received === 2 && !result.data?.error, result);
+
+  result = await api('POST', `/mailboxes/${mailbox.id}/sync`);
+  check('Repeated sync receives nothing new', result.status === 200 && result.data?.received === 0, result);
+
+  result = await api('GET', `/mail/messages?mailbox_id=${mailbox.id}`);
+  const inbox = Array.isArray(result.data) ? result.data : [];
+  const byAddress = inbox.find(message => message.message_id === byAddressId);
+  const byOrder = inbox.find(message => message.message_id === byOrderId);
+  check('Message from the client address is linked to the deal by contact email', byAddress?.deal_id === dealByAddress.id, byAddress);
+  check('Message with the order number in the subject is linked to that deal', byOrder?.deal_id === dealByOrder.id, byOrder);
+
+  result = await api('GET', `/deals/${dealByAddress.id}/messages`);
+  let feed = emailsOf(result.data);
+  check('Incoming mail is copied to deal_messages with direction incoming (address)',
+    feed.some(message => message.direction === 'incoming' && message.content?.includes('Вопрос по доставке')), result.data);
+
+  result = await api('GET', `/deals/${dealByOrder.id}/messages`);
+  feed = emailsOf(result.data);
+  check('Incoming mail is copied to deal_messages with direction incoming (order number)',
+    feed.some(message => message.direction === 'incoming' && message.content?.includes(orderNumber)), result.data);
+
+  console.log('\n📤 Reply with attachment');
+  const form = new FormData();
+  form.append('file', new Blob([`Коммерческое предложение ${RUN_ID}`], { type: 'text/plain' }), 'offer.txt');
+  result = await api('POST', '/objects/upload', form);
+  check('Attachment is uploaded', !!result.data?.objectPath, result);
+  const upload = result.data;
+  if (!byAddress || !upload?.objectPath) return;
+
+  result = await api('POST', '/mail/send', {
+    mailbox_id: mailbox.id,
+    to: [CLIENT_EMAIL],
+    subject: 'Re: Вопрос по доставке',
+    text: 'Привезём в четверг, предложение во вложении.',
+    reply_to_id: byAddress.id,
+    attachments: [{ object_path: upload.objectPath, file_name: 'offer.txt', mime_type: 'text/plain' }]
+  });
+  check('Reply is sent', result.status === 201 && !!result.data?.message_id, result);
+  const sent = result.data;
+  check('Reply stays in the thread and in the deal', sent?.thread_id === byAddressId && sent?.deal_id === dealByAddress.id, sent);
+
+  const delivered = smtp.received.at(-1);
+  const parsed = delivered ? await simpleParser(delivered.raw) : null;
+  check('SMTP stand-in received the reply for the client', delivered?.to.includes(CLIENT_EMAIL), delivered && { from: delivered.from, to: delivered.to });
+  check('Reply refers to the original message', parsed?.inReplyTo === byAddressId, parsed?.inReplyTo);
+  check('Reply carries the uploaded file',
+    parsed?.attachments.some(file => file.filename === 'offer.txt' && file.content.toString() === `Коммерческое предложение ${RUN_ID}`),
+    parsed?.attachments.map(file => file.filename));
+
+  result = await api('GET', `/mail/messages/${byAddress.id}/thread`);
+  const thread = Array.isArray(result.data) ? result.data : [];
+  const stored = thread.find(message => message.id === sent?.id);
+  check('Thread holds the reply with its attachment', thread.length === 2 && stored?.attachments?.[0]?.file_name === 'offer.txt', result.data);
+
+  result = await api('GET', `/deals/${dealByAddress.id}/messages`);
+  check('Reply is copied to deal_messages with direction outgoing',
+    emailsOf(result.data).some(message => message.direction === 'outgoing' && message.content?.includes('Re: Вопрос по доставке')), result.data);
+
+  console.log('\n🧵 Thread linking');
+  // An answer from an unknown address without an order number can only be linked through the thread
+  imap.deliver(buildMessage({
+    from: `accountant-${RUN_ID}@example.test`,
+    subject: 'Re: Вопрос по доставке',
+    messageId: `<thread-${RUN_ID}@example.test>`,
+    inReplyTo: sent?.message_id,
+    text: 'Четверг подходит.'
+  }));
+  result = await api('POST', `/mailboxes/${mailbox.id}/sync`);
+  check('Sync receives the answer to the reply', result.data?.received === 1, result);
+
+  result = await api('GET', `/mail/messages/${byAddress.id}/thread`);
+  const answer = (Array.isArray(result.data) ? result.data : []).find(message => message.message_id === `<thread-${RUN_ID}@example.test>`);
+  check('Answer from an unknown address is linked by thread', answer?.thread_id === byAddressId && answer?.deal_id === dealByAddress.id, answer);
+
+  console.log('\n🔒 Attachment access');
+  const reply = attachments => api('POST', '/mail/send', {
+    mailbox_id: mailbox.id,
+    to: [CLIENT_EMAIL],
+    subject: 'Файл',
+    text: 'Файл во вложении.',
+    attachments
+  });
+  const sentBefore = smtp.received.length;
+
+  result = await reply([{ object_path: '/etc/passwd', file_name: 'passwd' }]);
+  check('Path outside uploads is rejected', result.status === 400, result);
+
+  result = await reply([{ object_path: '/objects/..', file_name: 'uploads' }]);
+  check('Path escaping the uploads directory is rejected', result.status >= 400 && result.status < 500, result);
+
+  result = await reply([{ file_path: '/etc/passwd', file_name: 'passwd' }]);
+  check('Client-supplied file_path is not accepted', result.status === 400, result);
+
+  result = await reply([{ attachment_id: `missing-${RUN_ID}` }]);
+  check('Unknown attachment id is rejected with 404', result.status === 404, result);
+
+  check('Nothing was sent for rejected attachments', smtp.received.length === sentBefore, smtp.received.length - sentBefore);
+}
+
+async function runTests() {
+  console.log(`🚀 Mail tests against ${BASE_URL} (run ${RUN_ID})`);
+
+  const smtp = startSmtpStandIn({ username: MAIL_USER, password: MAIL_PASSWORD });
+  const imap = startImapStandIn({ username: MAIL_USER, password: MAIL_PASSWORD });
+  const smtpPort = await listen(smtp.server);
+  const imapPort = await listen(imap.server);
+  console.log(`📮 SMTP stand-in on ${STANDIN_HOST}:${smtpPort}, IMAP stand-in on ${STANDIN_HOST}:${imapPort}`);
+
+  const created = { deals: [], mailboxId: null };
+
+  try {
+    await testMailFlow(smtp, imap, { smtpPort, imapPort }, created);
+  } finally {
+    console.log('\n🧹 Cleanup');
+    if (cookie && created.mailboxId) await api('DELETE', `/mailboxes/${created.mailboxId}`);
+    for (const id of created.deals) {
+      if (cookie) await api('DELETE', `/deals/${id}`);
+    }
+    smtp.server.close();
+    imap.server.close();
+  }
+
+  console.log('\n📊 TEST SUMMARY');
+  console.log(`✅ Passed: ${testResults.passed.length}`);
+  console.log(`❌ Failed: ${testResults.failed.length}`);
+
+  if (testResults.failed.length > 0) {
+    console.log('\n❌ FAILED TESTS:');
+    testResults.failed.forEach(test => console.log(`  - ${test.description}`));
+    process.exit(1);
+  }
+}
+
+runTests().catch(error => {
+  console.error(error);
+  process.exit(1);
+});